@@ -4,7 +4,7 @@ import dotenv from 'dotenv';
 const envPath = path.resolve(__dirname, '../.env');
 dotenv.config({ path: envPath });
 
-import { db } from '../src/config/instantdb';
+import { getPersistenceAdapter, storeTx } from '../src/services/persistence';
 import { id } from '@instantdb/admin';
 import type {
   Appointment,
@@ -12,7 +12,9 @@ import type {
   Customer,
   Job,
   JobNote,
+  JobStatusEvent,
   ShopSettings,
+  Technician,
   Vehicle,
 } from '../src/types/database';
 
@@ -52,6 +54,58 @@ const serializeCall = (call: Call): StoredCall => {
   }) as unknown as StoredCall;
 };
 
+const weekdayShift: Technician['workingHours'] = {
+  monday: { open: '08:00', close: '17:00', closed: false },
+  tuesday: { open: '08:00', close: '17:00', closed: false },
+  wednesday: { open: '08:00', close: '17:00', closed: false },
+  thursday: { open: '08:00', close: '17:00', closed: false },
+  friday: { open: '08:00', close: '17:00', closed: false },
+  saturday: { open: '09:00', close: '14:00', closed: true },
+  sunday: { open: '09:00', close: '14:00', closed: true },
+};
+
+const technicians: Technician[] = [
+  {
+    id: 'tech-mike-johnson',
+    name: 'Mike Johnson',
+    skills: ['engine', 'transmission'],
+    isActive: true,
+    workingHours: weekdayShift,
+    createdAt: '2024-01-01T16:00:00.000Z',
+    updatedAt: '2024-01-01T16:00:00.000Z',
+  },
+  {
+    id: 'tech-sarah-wilson',
+    name: 'Sarah Wilson',
+    skills: ['brakes', 'suspension'],
+    isActive: true,
+    workingHours: weekdayShift,
+    createdAt: '2024-01-01T16:00:00.000Z',
+    updatedAt: '2024-01-01T16:00:00.000Z',
+  },
+  {
+    id: 'tech-david-chen',
+    name: 'David Chen',
+    skills: ['electrical', 'ac', 'diagnostics'],
+    isActive: true,
+    workingHours: {
+      ...weekdayShift,
+      saturday: { open: '09:00', close: '14:00', closed: false },
+    },
+    createdAt: '2024-01-01T16:00:00.000Z',
+    updatedAt: '2024-01-01T16:00:00.000Z',
+  },
+  {
+    id: 'tech-lisa-rodriguez',
+    name: 'Lisa Rodriguez',
+    skills: ['general', 'inspection'],
+    isActive: true,
+    workingHours: weekdayShift,
+    createdAt: '2024-01-01T16:00:00.000Z',
+    updatedAt: '2024-01-01T16:00:00.000Z',
+  },
+];
+
 const customers: Customer[] = [
   {
     id: 'cust-john-smith',
@@ -162,6 +216,7 @@ const jobs: Job[] = [
     invoiceNumber: 'INV-1042',
     notes: 'Scheduled maintenance visit.',
     noteEntries: jobNotes['job-oil-change'],
+    technicianId: 'tech-lisa-rodriguez',
     createdAt: '2024-01-29T15:00:00.000Z',
     updatedAt: '2024-02-02T17:15:00.000Z',
   },
@@ -176,6 +231,7 @@ const jobs: Job[] = [
     invoiceNumber: 'A-22031',
     notes: 'Customer reported grinding noise at low speeds.',
     noteEntries: jobNotes['job-brake-repair'],
+    technicianId: 'tech-sarah-wilson',
     createdAt: '2024-01-28T21:15:00.000Z',
     updatedAt: '2024-02-01T16:45:00.000Z',
   },
@@ -375,6 +431,11 @@ const remapId = (seedKey: string | undefined) => {
   return idMap.get(seedKey)!;
 };
 
+const seededTechnicians: Technician[] = technicians.map((technician) => ({
+  ...technician,
+  id: remapId(technician.id)!,
+}));
+
 const seededCustomers: Customer[] = customers.map((customer) => ({
   ...customer,
   id: remapId(customer.id)!,
@@ -392,12 +453,23 @@ const seededJobs: Job[] = jobs.map((job) => ({
   customerId: remapId(job.customerId)!,
   vehicleId: remapId(job.vehicleId)!,
   noteEntries: jobNotes[job.id] ?? [],
+  technicianId: remapId(job.technicianId),
+}));
+
+// Seeded jobs start their history at their current status
+const seededStatusEvents: JobStatusEvent[] = seededJobs.map((job) => ({
+  id: id(),
+  jobId: job.id,
+  toStatus: job.status,
+  actor: 'Seed Data',
+  createdAt: job.updatedAt,
 }));
 
 const seededAppointments: Appointment[] = appointments.map((appointment) => ({
   ...appointment,
   id: remapId(appointment.id)!,
   jobId: remapId(appointment.jobId)!,
+  technicianId: remapId(appointment.technicianId),
 }));
 
 const seededCalls: Call[] = calls.map((call) => ({
@@ -422,28 +494,38 @@ const shopSettingsPayload = sanitize({
 });
 
 async function seed() {
-  console.info('Starting InstantDB seed with canonical mechanic shop data...');
+  console.info('Starting seed with canonical mechanic shop data...');
 
   const transactions = [
+    ...seededTechnicians.map((technician) =>
+      storeTx.update('technicians', technician.id, sanitize({
+        ...technician,
+        skills: JSON.stringify(technician.skills),
+        workingHours: JSON.stringify(technician.workingHours),
+      }))
+    ),
     ...seededCustomers.map((customer) =>
-      db.tx.customers[customer.id].update(sanitize(customer) as any)
+      storeTx.update('customers', customer.id, sanitize(customer))
     ),
     ...seededVehicles.map((vehicle) =>
-      db.tx.vehicles[vehicle.id].update(sanitize(vehicle) as any)
+      storeTx.update('vehicles', vehicle.id, sanitize(vehicle))
     ),
     ...seededJobs.map((job) =>
-      db.tx.jobs[job.id].update(serializeJob(job) as any)
+      storeTx.update('jobs', job.id, serializeJob(job))
+    ),
+    ...seededStatusEvents.map((event) =>
+      storeTx.update('jobStatusEvents', event.id, sanitize(event))
     ),
     ...seededAppointments.map((appointment) =>
-      db.tx.appointments[appointment.id].update(sanitize(appointment) as any)
+      storeTx.update('appointments', appointment.id, sanitize(appointment))
     ),
     ...seededCalls.map((call) =>
-      db.tx.calls[call.id].update(serializeCall(call) as any)
+      storeTx.update('calls', call.id, serializeCall(call))
     ),
-    db.tx.shopSettings[seededShopSettings.id].update(shopSettingsPayload as any),
+    storeTx.update('shopSettings', seededShopSettings.id, shopSettingsPayload),
   ];
 
-  await db.transact(transactions);
+  await getPersistenceAdapter().transact(transactions);
 
   console.info('Seed data applied successfully.');
 }
@@ -454,7 +536,7 @@ seed()
     process.exit(0);
   })
   .catch((error) => {
-    console.error('Failed to seed InstantDB data.', error);
+    console.error('Failed to seed data.', error);
     process.exit(1);
   });
 
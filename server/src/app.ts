@@ -57,7 +57,11 @@ app.get('/api', (req: Request, res: Response) => {
       customers: '/api/customers',
       vehicles: '/api/vehicles',
       calls: '/api/calls',
-      appointments: '/api/appointments'
+      followUps: '/api/follow-ups',
+      communications: '/api/communications',
+      appointments: '/api/appointments',
+      technicians: '/api/technicians',
+      invoices: '/api/invoices'
     }
   });
 });
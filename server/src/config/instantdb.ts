@@ -46,19 +46,31 @@ const parseAttributeDefinition = (definition: string): { valueType: ValueType; r
   };
 };
 
+// Attributes the service sorts or filters by range ($gte/$lte); InstantDB only allows both on indexed attributes
+const INDEXED_ATTRIBUTES: Partial<Record<keyof typeof instantDBSchema.entities, string[]>> = {
+  customers: ['name', 'createdAt', 'updatedAt'],
+  jobs: ['createdAt', 'updatedAt', 'title', 'status', 'estHours'],
+  calls: ['callStartTime', 'createdAt', 'updatedAt'],
+  invoices: ['issuedAt'],
+  jobStatusEvents: ['createdAt'],
+  communications: ['occurredAt'],
+};
+
 const buildAdminSchema = (schema: typeof instantDBSchema): AdminSchema => {
   const entities: AdminSchema['entities'] = {};
 
   for (const [entityName, attributes] of Object.entries(schema.entities)) {
     const attrDefs: Record<string, AdminAttribute> = {};
+    const indexed = INDEXED_ATTRIBUTES[entityName as keyof typeof instantDBSchema.entities] ?? [];
     for (const [attrName, definition] of Object.entries(attributes)) {
       const { valueType, required } = parseAttributeDefinition(definition as string);
+      const isIndexed = indexed.includes(attrName);
       attrDefs[attrName] = {
         valueType,
         required,
-        isIndexed: false,
+        isIndexed,
         config: {
-          indexed: false,
+          indexed: isIndexed,
           unique: false,
         },
       };
@@ -180,12 +192,12 @@ export const relationships = {
     type: 'one-to-many' as const,
   },
   
-  // Jobs have one appointment
-  jobAppointment: {
+  // Jobs have many appointment segments
+  jobAppointments: {
     from: 'jobs',
     to: 'appointments',
-    foreignKey: 'jobId', 
-    type: 'one-to-one' as const,
+    foreignKey: 'jobId',
+    type: 'one-to-many' as const,
   },
   
   // Customers have many calls
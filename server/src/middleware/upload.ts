@@ -0,0 +1,38 @@
+import multer from 'multer';
+import type { RequestHandler } from 'express';
+import {
+  MAX_ATTACHMENT_UPLOAD_BYTES,
+  UNSUPPORTED_UPLOAD_MESSAGE,
+  UPLOAD_TOO_LARGE_MESSAGE,
+  isAttachmentUploadMimeType,
+} from '../../../shared/job-attachments';
+import { UploadRejectedError } from '../services/errors';
+
+// Buffers a single multipart file field in memory so the storage service can check its contents
+// before anything is written to disk. Oversized files get a 413, other rejections a 400.
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_UPLOAD_BYTES, files: 1 },
+  fileFilter: (req, file, callback) => {
+    if (!isAttachmentUploadMimeType(file.mimetype)) {
+      callback(new UploadRejectedError(UNSUPPORTED_UPLOAD_MESSAGE));
+      return;
+    }
+    callback(null, true);
+  },
+}).single('file');
+
+export const receiveAttachmentUpload: RequestHandler = (req, res, next) => {
+  attachmentUpload(req, res, (error: unknown) => {
+    if (!error) {
+      next();
+      return;
+    }
+
+    const tooLarge = error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE';
+    res.status(tooLarge ? 413 : 400).json({
+      success: false,
+      error: tooLarge ? UPLOAD_TOO_LARGE_MESSAGE : error instanceof Error ? error.message : 'Upload failed',
+    });
+  });
+};
@@ -0,0 +1,22 @@
+import type { RequestHandler } from 'express';
+import type { ZodTypeAny } from 'zod';
+import { toFieldErrors } from '../../../shared/schemas';
+
+// Parses the request body with a shared schema. Valid bodies are replaced by the parsed value, so
+// handlers see trimmed strings and no unknown keys; invalid ones get a 400 listing every bad field.
+export const validateBody = (schema: ZodTypeAny): RequestHandler => (req, res, next) => {
+  const result = schema.safeParse(req.body ?? {});
+
+  if (!result.success) {
+    const fieldErrors = toFieldErrors(result.error);
+    res.status(400).json({
+      success: false,
+      error: Object.values(fieldErrors)[0] ?? 'Invalid request body',
+      fieldErrors,
+    });
+    return;
+  }
+
+  req.body = result.data;
+  next();
+};
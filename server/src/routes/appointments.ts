@@ -1,13 +1,79 @@
 import { Router, Request, Response } from 'express';
 import { databaseService } from '../services/database';
-import { CreateAppointmentRequest, UpdateAppointmentRequest } from '../types/database';
+import { AppointmentConflictError, AppointmentLockedError, ShopHoursViolationError } from '../services/errors';
+import {
+  ApiResponse,
+  Appointment,
+  AppointmentBookingOptions,
+  AppointmentBookingResponse,
+  AppointmentBookingResult,
+  AppointmentLockedResponse,
+  CreateAppointmentRequest,
+  ListResponse,
+  UpdateAppointmentRequest,
+} from '../types/database';
+import {
+  createAppointmentRequestSchema,
+  editingLockOverrideSchema,
+  updateAppointmentRequestSchema,
+} from '../../../shared/schemas';
+import { validateBody } from '../middleware/validate';
 
 const router = Router();
 
-// GET /api/appointments - Get all appointments
-router.get('/', async (req: Request, res: Response) => {
+const sendConflictResponse = (res: Response, error: AppointmentConflictError) => {
+  return res.status(409).json({
+    success: false,
+    error: error.message,
+    policy: error.policy,
+    conflicts: error.conflicts,
+  });
+};
+
+const sendHoursViolationResponse = (res: Response, error: ShopHoursViolationError) => {
+  return res.status(422).json({
+    success: false,
+    error: error.message,
+    violations: error.violations,
+  });
+};
+
+const sendLockedResponse = (res: Response, error: AppointmentLockedError) => {
+  return res.status(423).json({
+    success: false,
+    error: error.message,
+    lockEditingWithinMinutes: error.lockEditingWithinMinutes,
+  });
+};
+
+const withBookingWarnings = ({ conflicts, hoursViolations }: AppointmentBookingResult) => {
+  return {
+    ...(conflicts.length > 0 ? { conflicts } : {}),
+    ...(hoursViolations.length > 0 ? { hoursViolations } : {}),
+  };
+};
+
+const bookingMessage = ({ conflicts, hoursViolations }: AppointmentBookingResult, action: 'created' | 'updated') => {
+  if (conflicts.length > 0) {
+    return `Appointment ${action} with overlapping bookings`;
+  }
+  if (hoursViolations.length > 0) {
+    return `Appointment ${action} outside shop hours`;
+  }
+  return `Appointment ${action} successfully`;
+};
+
+// GET /api/appointments - Get all appointments (?includeArchived=true to include archived ones,
+// ?jobId= for one job's segments in start order)
+router.get('/', async (req: Request, res: Response<ListResponse<Appointment>>) => {
   try {
-    const appointments = await databaseService.getAllAppointments();
+    const jobId = typeof req.query.jobId === 'string' ? req.query.jobId : undefined;
+    const appointments = jobId && req.query.includeArchived !== 'true'
+      ? await databaseService.getAppointmentsByJob(jobId)
+      : await databaseService.getAllAppointments({
+        includeArchived: req.query.includeArchived === 'true',
+        jobId,
+      });
     
     res.json({
       success: true,
@@ -24,7 +90,7 @@ router.get('/', async (req: Request, res: Response) => {
 });
 
 // GET /api/appointments/:id - Get appointment by ID
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', async (req: Request<{ id: string }>, res: Response<ApiResponse<Appointment>>) => {
   try {
     const { id } = req.params;
     const appointment = await databaseService.getAppointment(id);
@@ -50,26 +116,33 @@ router.get('/:id', async (req: Request, res: Response) => {
 });
 
 // POST /api/appointments - Create new appointment
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', validateBody(createAppointmentRequestSchema), async (req: Request, res: Response<AppointmentBookingResponse>) => {
   try {
-    const data: CreateAppointmentRequest = req.body;
-    
-    // Validate required fields
-    if (!data.jobId || !data.bay || !data.startAt || !data.endAt) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields: jobId, bay, startAt, endAt',
-      });
-    }
+    const {
+      allowOverbooking,
+      allowOutsideHours,
+      ...data
+    }: CreateAppointmentRequest & AppointmentBookingOptions = req.body;
 
-    const appointment = await databaseService.createAppointment(data);
+    const result = await databaseService.createAppointment(data, {
+      allowOverbooking: allowOverbooking === true,
+      allowOutsideHours: allowOutsideHours === true,
+    });
     
     res.status(201).json({
       success: true,
-      data: appointment,
-      message: 'Appointment created successfully',
+      data: result.appointment,
+      message: bookingMessage(result, 'created'),
+      ...withBookingWarnings(result),
     });
   } catch (error) {
+    if (error instanceof AppointmentConflictError) {
+      return sendConflictResponse(res, error);
+    }
+    if (error instanceof ShopHoursViolationError) {
+      return sendHoursViolationResponse(res, error);
+    }
+
     console.error('Error creating appointment:', error);
     res.status(400).json({
       success: false,
@@ -79,14 +152,23 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 // PUT /api/appointments/:id - Update appointment
-router.put('/:id', async (req: Request, res: Response) => {
+router.put('/:id', validateBody(updateAppointmentRequestSchema), async (req: Request<{ id: string }>, res: Response<AppointmentBookingResponse>) => {
   try {
     const { id } = req.params;
-    const data: UpdateAppointmentRequest = req.body;
+    const {
+      allowOverbooking,
+      allowOutsideHours,
+      lockOverride,
+      ...data
+    }: UpdateAppointmentRequest & AppointmentBookingOptions = req.body;
     
-    const appointment = await databaseService.updateAppointment(id, data);
+    const result = await databaseService.updateAppointment(id, data, {
+      allowOverbooking: allowOverbooking === true,
+      allowOutsideHours: allowOutsideHours === true,
+      lockOverride,
+    });
     
-    if (!appointment) {
+    if (!result) {
       return res.status(404).json({
         success: false,
         error: 'Appointment not found',
@@ -95,10 +177,21 @@ router.put('/:id', async (req: Request, res: Response) => {
 
     res.json({
       success: true,
-      data: appointment,
-      message: 'Appointment updated successfully',
+      data: result.appointment,
+      message: bookingMessage(result, 'updated'),
+      ...withBookingWarnings(result),
     });
   } catch (error) {
+    if (error instanceof AppointmentConflictError) {
+      return sendConflictResponse(res, error);
+    }
+    if (error instanceof ShopHoursViolationError) {
+      return sendHoursViolationResponse(res, error);
+    }
+    if (error instanceof AppointmentLockedError) {
+      return sendLockedResponse(res, error);
+    }
+
     console.error('Error updating appointment:', error);
     res.status(400).json({
       success: false,
@@ -107,12 +200,77 @@ router.put('/:id', async (req: Request, res: Response) => {
   }
 });
 
-// DELETE /api/appointments/:id - Delete appointment
-router.delete('/:id', async (req: Request, res: Response) => {
+// DELETE /api/appointments/:id - Archive appointment (body { lockOverride: { reason } } inside the editing lock)
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response<AppointmentLockedResponse>) => {
   try {
     const { id } = req.params;
-    const success = await databaseService.deleteAppointment(id);
-    
+    const lockOverride = editingLockOverrideSchema.safeParse(req.body?.lockOverride);
+    const appointment = await databaseService.archiveAppointment(
+      id,
+      req.body?.archivedBy,
+      lockOverride.success ? lockOverride.data : undefined
+    );
+
+    if (!appointment) {
+      return res.status(404).json({
+        success: false,
+        error: 'Appointment not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: appointment,
+      message: 'Appointment archived successfully',
+    });
+  } catch (error) {
+    if (error instanceof AppointmentLockedError) {
+      return sendLockedResponse(res, error);
+    }
+
+    console.error('Error archiving appointment:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to archive appointment',
+    });
+  }
+});
+
+// POST /api/appointments/:id/restore - Restore an archived appointment and the records archived with it
+router.post('/:id/restore', async (req: Request<{ id: string }>, res: Response<ApiResponse<Appointment>>) => {
+  try {
+    const { id } = req.params;
+    const appointment = await databaseService.restoreAppointment(id);
+
+    if (!appointment) {
+      return res.status(404).json({
+        success: false,
+        error: 'Appointment not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: appointment,
+      message: 'Appointment restored successfully',
+    });
+  } catch (error) {
+    console.error('Error restoring appointment:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to restore appointment',
+    });
+  }
+});
+
+// DELETE /api/appointments/:id/purge - Permanently delete appointment (not yet restricted by role)
+// Inside the editing lock the body needs { lockOverride: { reason } }
+router.delete('/:id/purge', async (req: Request<{ id: string }>, res: Response<AppointmentLockedResponse>) => {
+  try {
+    const { id } = req.params;
+    const lockOverride = editingLockOverrideSchema.safeParse(req.body?.lockOverride);
+    const success = await databaseService.deleteAppointment(id, lockOverride.success ? lockOverride.data : undefined);
+
     if (!success) {
       return res.status(404).json({
         success: false,
@@ -122,13 +280,17 @@ router.delete('/:id', async (req: Request, res: Response) => {
 
     res.json({
       success: true,
-      message: 'Appointment deleted successfully',
+      message: 'Appointment purged successfully',
     });
   } catch (error) {
-    console.error('Error deleting appointment:', error);
+    if (error instanceof AppointmentLockedError) {
+      return sendLockedResponse(res, error);
+    }
+
+    console.error('Error purging appointment:', error);
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to delete appointment',
+      error: error instanceof Error ? error.message : 'Failed to purge appointment',
     });
   }
 });
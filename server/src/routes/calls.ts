@@ -1,6 +1,18 @@
 import { Router, Request, Response } from 'express';
 import { databaseService } from '../services/database';
-import { CallOutcome, CallQueryFilters, CreateCallRequest, UpdateCallRequest } from '../types/database';
+import { InvalidDateRangeError } from '../services/errors';
+import {
+  ApiResponse,
+  Call,
+  CallOutcome,
+  CallQueryFilters,
+  CreateCallRequest,
+  ListResponse,
+  UpdateCallRequest,
+} from '../types/database';
+import { CALL_SORT_FIELDS, InvalidCursorError, parseListQuery } from '../../../shared/pagination';
+import { callSchema, callUpdateSchema } from '../../../shared/schemas';
+import { validateBody } from '../middleware/validate';
 
 const ALL_OUTCOMES: CallOutcome[] = [
   'scheduled',
@@ -13,8 +25,9 @@ const ALL_OUTCOMES: CallOutcome[] = [
 
 const router = Router();
 
-// GET /api/calls - Get all calls
-router.get('/', async (req: Request, res: Response) => {
+// GET /api/calls - Get calls newest first (?includeArchived=true to include archived ones,
+// ?sort=&order= to reorder, ?limit=&cursor= to page through them)
+router.get('/', async (req: Request, res: Response<ListResponse<Call>>) => {
   try {
     const queryOutcome = typeof req.query.outcome === 'string'
       ? req.query.outcome
@@ -26,23 +39,27 @@ router.get('/', async (req: Request, res: Response) => {
     const filters: CallQueryFilters = {
       outcome: queryOutcome,
       customerId: typeof req.query.customerId === 'string' ? req.query.customerId : undefined,
+      jobId: typeof req.query.jobId === 'string' ? req.query.jobId : undefined,
       dateRange: typeof req.query.startDate === 'string' && typeof req.query.endDate === 'string'
         ? { start: req.query.startDate, end: req.query.endDate }
         : undefined,
-      limit: typeof req.query.limit === 'string' ? Number.parseInt(req.query.limit, 10) : undefined,
-      offset: typeof req.query.offset === 'string' ? Number.parseInt(req.query.offset, 10) : undefined,
+      includeArchived: req.query.includeArchived === 'true',
+      ...parseListQuery(req.query, CALL_SORT_FIELDS),
     };
 
-    const calls = await databaseService.getAllCalls(filters);
+    const page = await databaseService.getCallPage(filters);
 
     res.json({
       success: true,
-      data: calls,
-      count: calls.length,
+      data: page.items,
+      count: page.items.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
     });
   } catch (error) {
     console.error('Error fetching calls:', error);
-    res.status(500).json({
+    const badQuery = error instanceof InvalidCursorError || error instanceof InvalidDateRangeError;
+    res.status(badQuery ? 400 : 500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to fetch calls',
     });
@@ -50,7 +67,7 @@ router.get('/', async (req: Request, res: Response) => {
 });
 
 // GET /api/calls/:id - Get call by ID
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', async (req: Request<{ id: string }>, res: Response<ApiResponse<Call>>) => {
   try {
     const { id } = req.params;
     const call = await databaseService.getCall(id);
@@ -76,17 +93,10 @@ router.get('/:id', async (req: Request, res: Response) => {
 });
 
 // POST /api/calls - Create new call
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', validateBody(callSchema), async (req: Request, res: Response<ApiResponse<Call>>) => {
   try {
     const data: CreateCallRequest = req.body;
 
-    if (!data.phoneNumber || !data.callOutcome) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields: phoneNumber, callOutcome',
-      });
-    }
-
     const call = await databaseService.createCall(data);
 
     res.status(201).json({
@@ -104,7 +114,7 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 // PUT /api/calls/:id - Update call
-router.put('/:id', async (req: Request, res: Response) => {
+router.put('/:id', validateBody(callUpdateSchema), async (req: Request<{ id: string }>, res: Response<ApiResponse<Call>>) => {
   try {
     const { id } = req.params;
     const data: UpdateCallRequest = req.body;
@@ -132,8 +142,62 @@ router.put('/:id', async (req: Request, res: Response) => {
   }
 });
 
-// DELETE /api/calls/:id - Delete call
-router.delete('/:id', async (req: Request, res: Response) => {
+// DELETE /api/calls/:id - Archive call
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response<ApiResponse<Call>>) => {
+  try {
+    const { id } = req.params;
+    const call = await databaseService.archiveCall(id, req.body?.archivedBy);
+
+    if (!call) {
+      return res.status(404).json({
+        success: false,
+        error: 'Call not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: call,
+      message: 'Call archived successfully',
+    });
+  } catch (error) {
+    console.error('Error archiving call:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to archive call',
+    });
+  }
+});
+
+// POST /api/calls/:id/restore - Restore an archived call and the records archived with it
+router.post('/:id/restore', async (req: Request<{ id: string }>, res: Response<ApiResponse<Call>>) => {
+  try {
+    const { id } = req.params;
+    const call = await databaseService.restoreCall(id);
+
+    if (!call) {
+      return res.status(404).json({
+        success: false,
+        error: 'Call not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: call,
+      message: 'Call restored successfully',
+    });
+  } catch (error) {
+    console.error('Error restoring call:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to restore call',
+    });
+  }
+});
+
+// DELETE /api/calls/:id/purge - Permanently delete call (not yet restricted by role)
+router.delete('/:id/purge', async (req: Request<{ id: string }>, res: Response<ApiResponse<Call>>) => {
   try {
     const { id } = req.params;
     const success = await databaseService.deleteCall(id);
@@ -147,13 +211,13 @@ router.delete('/:id', async (req: Request, res: Response) => {
 
     res.json({
       success: true,
-      message: 'Call deleted successfully',
+      message: 'Call purged successfully',
     });
   } catch (error) {
-    console.error('Error deleting call:', error);
+    console.error('Error purging call:', error);
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to delete call',
+      error: error instanceof Error ? error.message : 'Failed to purge call',
     });
   }
 });
@@ -0,0 +1,165 @@
+import { Router, Request, Response } from 'express';
+import { databaseService } from '../services/database';
+import { InvalidDateRangeError } from '../services/errors';
+import {
+  CommunicationQueryFilters,
+  CommunicationType,
+  CreateCommunicationRequest,
+  UpdateCommunicationRequest,
+  isValidCommunicationType,
+} from '../types/database';
+
+const router = Router();
+
+// GET /api/communications - Get communication log entries
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const type = typeof req.query.type === 'string'
+      ? req.query.type.split(',').filter((token): token is CommunicationType => isValidCommunicationType(token))
+      : undefined;
+
+    const filters: CommunicationQueryFilters = {
+      customerId: typeof req.query.customerId === 'string' ? req.query.customerId : undefined,
+      jobId: typeof req.query.jobId === 'string' ? req.query.jobId : undefined,
+      callId: typeof req.query.callId === 'string' ? req.query.callId : undefined,
+      type: type?.length ? type : undefined,
+      dateRange: typeof req.query.startDate === 'string' && typeof req.query.endDate === 'string' ? {
+        start: req.query.startDate,
+        end: req.query.endDate,
+      } : undefined,
+    };
+
+    const communications = await databaseService.getAllCommunications(filters);
+
+    res.json({
+      success: true,
+      data: communications,
+      count: communications.length,
+    });
+  } catch (error) {
+    console.error('Error fetching communications:', error);
+    res.status(error instanceof InvalidDateRangeError ? 400 : 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch communications',
+    });
+  }
+});
+
+// GET /api/communications/:id - Get communication by ID
+router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const communication = await databaseService.getCommunication(id);
+
+    if (!communication) {
+      return res.status(404).json({
+        success: false,
+        error: 'Communication not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: communication,
+    });
+  } catch (error) {
+    console.error('Error fetching communication:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch communication',
+    });
+  }
+});
+
+// POST /api/communications - Log a communication
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const data: CreateCommunicationRequest = req.body;
+
+    if (!data.customerId || !data.type || !data.direction || !data.body?.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: customerId, type, direction, body',
+      });
+    }
+
+    const customer = await databaseService.getCustomer(data.customerId);
+    if (!customer) {
+      return res.status(404).json({
+        success: false,
+        error: 'Customer not found',
+      });
+    }
+
+    const communication = await databaseService.createCommunication(data);
+
+    res.status(201).json({
+      success: true,
+      data: communication,
+      message: 'Communication logged successfully',
+    });
+  } catch (error) {
+    console.error('Error creating communication:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to log communication',
+    });
+  }
+});
+
+// PUT /api/communications/:id - Update communication
+router.put('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data: UpdateCommunicationRequest = req.body;
+
+    const communication = await databaseService.updateCommunication(id, data);
+
+    if (!communication) {
+      return res.status(404).json({
+        success: false,
+        error: 'Communication not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: communication,
+      message: 'Communication updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating communication:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update communication',
+    });
+  }
+});
+
+// DELETE /api/communications/:id - Delete communication
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const success = await databaseService.deleteCommunication(id);
+
+    if (!success) {
+      return res.status(404).json({
+        success: false,
+        error: 'Communication not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Communication deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting communication:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete communication',
+    });
+  }
+});
+
+export default router;
@@ -1,19 +1,39 @@
 import { Router, Request, Response } from 'express';
 import { databaseService } from '../services/database';
-import { CreateCustomerRequest, UpdateCustomerRequest, CustomerQueryFilters } from '../types/database';
+import { DeleteBlockedError } from '../services/errors';
+import { validateBody } from '../middleware/validate';
+import { customerSchema, customerUpdateSchema } from '../../../shared/schemas';
+import {
+  ApiResponse,
+  CreateCustomerRequest,
+  Customer,
+  CustomerQueryFilters,
+  ListResponse,
+  UpdateCustomerRequest,
+} from '../types/database';
+import { CUSTOMER_SORT_FIELDS, InvalidCursorError, parseListQuery } from '../../../shared/pagination';
 
 const router = Router();
 
-// GET /api/customers - Get all customers
-router.get('/', async (req: Request, res: Response) => {
+const sendDeleteBlockedResponse = (res: Response, error: DeleteBlockedError) => {
+  return res.status(409).json({
+    success: false,
+    error: error.message,
+    dependencies: error.dependencies,
+  });
+};
+
+// GET /api/customers - Get customers by name (?includeArchived=true to include archived ones,
+// ?sort=&order= to reorder, ?limit=&cursor= to page through them)
+router.get('/', async (req: Request, res: Response<ListResponse<Customer>>) => {
   try {
     const filters: CustomerQueryFilters = {
       search: req.query.search as string,
       preferredContact: req.query.preferredContact ?
         (req.query.preferredContact as string).split(',') as ('phone' | 'email')[] :
         undefined,
-      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
-      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+      includeArchived: req.query.includeArchived === 'true',
+      ...parseListQuery(req.query, CUSTOMER_SORT_FIELDS),
     };
 
     const hasActiveJobsParam = req.query.hasActiveJobs;
@@ -21,16 +41,18 @@ router.get('/', async (req: Request, res: Response) => {
       filters.hasActiveJobs = hasActiveJobsParam === 'true';
     }
 
-    const customers = await databaseService.getAllCustomers(filters);
+    const page = await databaseService.getCustomerPage(filters);
     
     res.json({
       success: true,
-      data: customers,
-      count: customers.length,
+      data: page.items,
+      count: page.items.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
     });
   } catch (error) {
     console.error('Error fetching customers:', error);
-    res.status(500).json({
+    res.status(error instanceof InvalidCursorError ? 400 : 500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to fetch customers',
     });
@@ -38,7 +60,7 @@ router.get('/', async (req: Request, res: Response) => {
 });
 
 // GET /api/customers/:id - Get customer by ID
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', async (req: Request<{ id: string }>, res: Response<ApiResponse<Customer>>) => {
   try {
     const { id } = req.params;
     const customer = await databaseService.getCustomer(id);
@@ -64,17 +86,9 @@ router.get('/:id', async (req: Request, res: Response) => {
 });
 
 // POST /api/customers - Create new customer
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', validateBody(customerSchema), async (req: Request, res: Response<ApiResponse<Customer>>) => {
   try {
     const data: CreateCustomerRequest = req.body;
-    
-    // Validate required fields
-    if (!data.name || !data.phone || !data.preferredContact) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields: name, phone, preferredContact',
-      });
-    }
 
     const customer = await databaseService.createCustomer(data);
     
@@ -93,7 +107,7 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 // PUT /api/customers/:id - Update customer
-router.put('/:id', async (req: Request, res: Response) => {
+router.put('/:id', validateBody(customerUpdateSchema), async (req: Request<{ id: string }>, res: Response<ApiResponse<Customer>>) => {
   try {
     const { id } = req.params;
     const data: UpdateCustomerRequest = req.body;
@@ -121,13 +135,13 @@ router.put('/:id', async (req: Request, res: Response) => {
   }
 });
 
-// DELETE /api/customers/:id - Delete customer
-router.delete('/:id', async (req: Request, res: Response) => {
+// DELETE /api/customers/:id - Archive customer with their vehicles, jobs, calls and appointments
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response<ApiResponse<Customer>>) => {
   try {
     const { id } = req.params;
-    const success = await databaseService.deleteCustomer(id);
-    
-    if (!success) {
+    const customer = await databaseService.archiveCustomer(id, req.body?.archivedBy);
+
+    if (!customer) {
       return res.status(404).json({
         success: false,
         error: 'Customer not found',
@@ -136,24 +150,24 @@ router.delete('/:id', async (req: Request, res: Response) => {
 
     res.json({
       success: true,
-      message: 'Customer deleted successfully',
+      data: customer,
+      message: 'Customer archived successfully',
     });
   } catch (error) {
-    console.error('Error deleting customer:', error);
+    console.error('Error archiving customer:', error);
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to delete customer',
+      error: error instanceof Error ? error.message : 'Failed to archive customer',
     });
   }
 });
 
-// GET /api/customers/:id/vehicles - Get customer's vehicles
-router.get('/:id/vehicles', async (req: Request, res: Response) => {
+// POST /api/customers/:id/restore - Restore an archived customer and the records archived with it
+router.post('/:id/restore', async (req: Request<{ id: string }>, res: Response<ApiResponse<Customer>>) => {
   try {
     const { id } = req.params;
-    
-    // First check if customer exists
-    const customer = await databaseService.getCustomer(id);
+    const customer = await databaseService.restoreCustomer(id);
+
     if (!customer) {
       return res.status(404).json({
         success: false,
@@ -161,18 +175,46 @@ router.get('/:id/vehicles', async (req: Request, res: Response) => {
       });
     }
 
-    const vehicles = await databaseService.getVehiclesByCustomer(id);
-    
     res.json({
       success: true,
-      data: vehicles,
-      count: vehicles.length,
+      data: customer,
+      message: 'Customer restored successfully',
     });
   } catch (error) {
-    console.error('Error fetching customer vehicles:', error);
+    console.error('Error restoring customer:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to restore customer',
+    });
+  }
+});
+
+// DELETE /api/customers/:id/purge - Permanently delete customer (not yet restricted by role; ?cascade=true also removes dependent records)
+router.delete('/:id/purge', async (req: Request<{ id: string }>, res: Response<ApiResponse<Customer>>) => {
+  try {
+    const { id } = req.params;
+    const success = await databaseService.deleteCustomer(id, { cascade: req.query.cascade === 'true' });
+
+    if (!success) {
+      return res.status(404).json({
+        success: false,
+        error: 'Customer not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Customer purged successfully',
+    });
+  } catch (error) {
+    if (error instanceof DeleteBlockedError) {
+      return sendDeleteBlockedResponse(res, error);
+    }
+
+    console.error('Error purging customer:', error);
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to fetch customer vehicles',
+      error: error instanceof Error ? error.message : 'Failed to purge customer',
     });
   }
 });
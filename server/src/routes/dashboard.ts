@@ -1,6 +1,10 @@
 import { Router, type Request, type Response } from 'express';
 import { databaseService } from '../services/database';
+import { getAverageCycleTimeHours, getJobCompletions } from '../../../shared/job-status-history';
+import { isPartsOrderOverdue } from '../../../shared/parts-orders';
+import { getInvoicedRevenue } from '../../../shared/billing';
 import type {
+  ApiResponse,
   Appointment,
   Customer,
   DashboardScheduleEntry,
@@ -125,7 +129,7 @@ const buildScheduleEntries = (
     });
 };
 
-router.get('/stats', async (req: Request, res: Response) => {
+router.get('/stats', async (req: Request, res: Response<ApiResponse<DashboardStats>>) => {
   try {
     const now = new Date();
     const todayStart = startOfDay(now);
@@ -134,8 +138,11 @@ router.get('/stats', async (req: Request, res: Response) => {
     const weekEnd = endOfWeek(weekStart);
     const todayDayName = DAY_NAMES[now.getDay()];
 
-    const [jobs, appointments, customers, vehicles, settings] = await Promise.all([
+    const [jobs, statusEvents, partsOrders, invoices, appointments, customers, vehicles, settings] = await Promise.all([
       databaseService.getAllJobs(),
+      databaseService.getAllJobStatusEvents(),
+      databaseService.getAllPartsOrders(),
+      databaseService.getAllInvoices(),
       databaseService.getAllAppointments(),
       databaseService.getAllCustomers(),
       databaseService.getAllVehicles(),
@@ -162,25 +169,14 @@ router.get('/stats', async (req: Request, res: Response) => {
     }, 0);
 
     const waitingOnParts = jobs.filter((job) => job.status === 'waiting-parts').length;
-    const completedToday = jobs.filter((job) => {
-      if (job.status !== 'completed') {
-        return false;
-      }
-      const updatedAt = new Date(job.updatedAt);
-      return updatedAt >= todayStart && updatedAt < todayEnd;
-    }).length;
-
-    const completedThisWeek = jobs.filter((job) => {
-      if (job.status !== 'completed') {
-        return false;
-      }
-      const updatedAt = new Date(job.updatedAt);
-      return updatedAt >= weekStart && updatedAt < weekEnd;
-    });
-
-    const averageJobTime = completedThisWeek.length
-      ? completedThisWeek.reduce((sum, job) => sum + (job.estHours ?? 0), 0) / completedThisWeek.length
-      : 0;
+    const overduePartsOrders = partsOrders
+      .filter((order) => jobsById.has(order.jobId) && isPartsOrderOverdue(order, now)).length;
+    // Completions come from status history so later edits to a completed job don't move it
+    const completedToday = getJobCompletions(statusEvents, { start: todayStart, end: todayEnd })
+      .filter((completion) => jobsById.has(completion.jobId)).length;
+    const completedThisWeek = getJobCompletions(statusEvents, { start: weekStart, end: weekEnd })
+      .filter((completion) => jobsById.has(completion.jobId));
+    const averageJobTime = getAverageCycleTimeHours(completedThisWeek);
 
     const scheduleEntries = buildScheduleEntries(
       todaysAppointments,
@@ -195,10 +191,12 @@ router.get('/stats', async (req: Request, res: Response) => {
         hoursBooked: roundTo(hoursBooked, 2),
         totalCapacity: calculateDailyCapacity(settings, todayDayName),
         waitingOnParts,
+        overduePartsOrders,
         completed: completedToday,
       },
       thisWeek: {
         jobsCompleted: completedThisWeek.length,
+        totalRevenue: getInvoicedRevenue(invoices, { start: weekStart, end: weekEnd }),
         averageJobTime: roundTo(averageJobTime, 2),
       },
       todaySchedule: scheduleEntries,
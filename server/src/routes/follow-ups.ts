@@ -0,0 +1,279 @@
+import { Router, Request, Response } from 'express';
+import { databaseService } from '../services/database';
+import {
+  CreateFollowUpTaskRequest,
+  FollowUpQueryFilters,
+  FollowUpStatus,
+  UpdateFollowUpTaskRequest,
+  isValidFollowUpStatus,
+} from '../types/database';
+
+const router = Router();
+
+// GET /api/follow-ups - Get follow-up tasks
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const status = typeof req.query.status === 'string'
+      ? req.query.status.split(',').filter((token): token is FollowUpStatus => isValidFollowUpStatus(token))
+      : undefined;
+
+    const filters: FollowUpQueryFilters = {
+      status: status?.length ? status : undefined,
+      callId: typeof req.query.callId === 'string' ? req.query.callId : undefined,
+      customerId: typeof req.query.customerId === 'string' ? req.query.customerId : undefined,
+      assignedTo: typeof req.query.assignedTo === 'string' ? req.query.assignedTo : undefined,
+      overdue: req.query.overdue === 'true' ? true : req.query.overdue === 'false' ? false : undefined,
+    };
+
+    const tasks = await databaseService.getAllFollowUpTasks(filters);
+
+    res.json({
+      success: true,
+      data: tasks,
+      count: tasks.length,
+    });
+  } catch (error) {
+    console.error('Error fetching follow-ups:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch follow-ups',
+    });
+  }
+});
+
+// GET /api/follow-ups/overdue - Get open follow-ups past their due time
+router.get('/overdue', async (req: Request, res: Response) => {
+  try {
+    const tasks = await databaseService.getAllFollowUpTasks({ overdue: true });
+
+    res.json({
+      success: true,
+      data: tasks,
+      count: tasks.length,
+    });
+  } catch (error) {
+    console.error('Error fetching overdue follow-ups:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch overdue follow-ups',
+    });
+  }
+});
+
+// GET /api/follow-ups/:id - Get follow-up by ID
+router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const task = await databaseService.getFollowUpTask(id);
+
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        error: 'Follow-up not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: task,
+    });
+  } catch (error) {
+    console.error('Error fetching follow-up:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch follow-up',
+    });
+  }
+});
+
+// POST /api/follow-ups - Create follow-up
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const data: CreateFollowUpTaskRequest = req.body;
+
+    if (!data.callId || !data.title?.trim() || !data.dueAt) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: callId, title, dueAt',
+      });
+    }
+
+    const call = await databaseService.getCall(data.callId);
+    if (!call) {
+      return res.status(404).json({
+        success: false,
+        error: 'Call not found',
+      });
+    }
+
+    const task = await databaseService.createFollowUpTask({
+      ...data,
+      customerId: data.customerId ?? call.customerId,
+      type: data.type ?? 'call-back',
+      priority: data.priority ?? 'normal',
+    });
+
+    res.status(201).json({
+      success: true,
+      data: task,
+      message: 'Follow-up created successfully',
+    });
+  } catch (error) {
+    console.error('Error creating follow-up:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create follow-up',
+    });
+  }
+});
+
+// PUT /api/follow-ups/:id - Update follow-up
+router.put('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data: UpdateFollowUpTaskRequest = req.body;
+
+    const task = await databaseService.updateFollowUpTask(id, data);
+
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        error: 'Follow-up not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: task,
+      message: 'Follow-up updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating follow-up:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update follow-up',
+    });
+  }
+});
+
+// POST /api/follow-ups/:id/assign - Assign (or unassign with null) a follow-up
+router.post('/:id/assign', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { assignedTo } = req.body as { assignedTo?: string | null };
+
+    if (assignedTo === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: assignedTo',
+      });
+    }
+
+    const task = await databaseService.assignFollowUpTask(id, assignedTo);
+
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        error: 'Follow-up not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: task,
+      message: task.assignedTo ? `Follow-up assigned to ${task.assignedTo}` : 'Follow-up unassigned',
+    });
+  } catch (error) {
+    console.error('Error assigning follow-up:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to assign follow-up',
+    });
+  }
+});
+
+// POST /api/follow-ups/:id/snooze - Push a follow-up to a later time (a day by default)
+router.post('/:id/snooze', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { until } = (req.body ?? {}) as { until?: string };
+
+    const task = await databaseService.snoozeFollowUpTask(id, until);
+
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        error: 'Follow-up not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: task,
+      message: 'Follow-up snoozed',
+    });
+  } catch (error) {
+    console.error('Error snoozing follow-up:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to snooze follow-up',
+    });
+  }
+});
+
+// POST /api/follow-ups/:id/complete - Complete a follow-up
+router.post('/:id/complete', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { outcome, completedBy } = (req.body ?? {}) as { outcome?: string; completedBy?: string };
+
+    const task = await databaseService.completeFollowUpTask(id, { outcome, completedBy });
+
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        error: 'Follow-up not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: task,
+      message: 'Follow-up completed',
+    });
+  } catch (error) {
+    console.error('Error completing follow-up:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to complete follow-up',
+    });
+  }
+});
+
+// DELETE /api/follow-ups/:id - Delete follow-up
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const success = await databaseService.deleteFollowUpTask(id);
+
+    if (!success) {
+      return res.status(404).json({
+        success: false,
+        error: 'Follow-up not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Follow-up deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting follow-up:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete follow-up',
+    });
+  }
+});
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
-import { db } from '../config/instantdb';
 import { databaseService } from '../services/database';
+import { getPersistenceAdapter } from '../services/persistence';
 
 // Import route modules
 import customerRoutes from './customers';
@@ -8,30 +8,34 @@ import vehicleRoutes from './vehicles';
 import jobRoutes from './jobs';
 import appointmentRoutes from './appointments';
 import callRoutes from './calls';
+import followUpRoutes from './follow-ups';
+import communicationRoutes from './communications';
+import technicianRoutes from './technicians';
+import invoiceRoutes from './invoices';
 import settingsRoutes from './settings';
 import dashboardRoutes from './dashboard';
 
 const router = Router();
 
-// Test InstantDB connection
+// Test the configured persistence adapter
 router.get('/test-db', async (req, res) => {
+  const adapter = getPersistenceAdapter();
   try {
-    // Simple test query - this will create the collections if they don't exist
-    const result = await db.query({
-      customers: {},
-    });
+    // Simple test query against the configured store
+    await adapter.find('customers');
     
     res.json({
       success: true,
-      message: 'InstantDB connection successful',
-      collections: Object.keys(result),
+      message: `Database connection successful (${adapter.name})`,
+      adapter: adapter.name,
+      collections: ['customers'],
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
     console.error('Database test failed:', error);
     res.status(500).json({
       success: false,
-      message: 'InstantDB connection failed',
+      message: `Database connection failed (${adapter.name})`,
       error: error instanceof Error ? error.message : 'Unknown error',
     });
   }
@@ -65,6 +69,10 @@ router.use('/vehicles', vehicleRoutes);
 router.use('/jobs', jobRoutes);
 router.use('/appointments', appointmentRoutes);
 router.use('/calls', callRoutes);
+router.use('/follow-ups', followUpRoutes);
+router.use('/communications', communicationRoutes);
+router.use('/technicians', technicianRoutes);
+router.use('/invoices', invoiceRoutes);
 router.use('/settings', settingsRoutes);
 router.use('/dashboard', dashboardRoutes);
 
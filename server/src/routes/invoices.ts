@@ -0,0 +1,41 @@
+import { Router, Request, Response } from 'express';
+import { databaseService } from '../services/database';
+import { InvalidDateRangeError } from '../services/errors';
+import { InvoiceQueryFilters, InvoiceStatus } from '../types/database';
+
+const router = Router();
+
+const INVOICE_STATUSES: InvoiceStatus[] = ['issued', 'paid', 'void'];
+
+// GET /api/invoices - Get invoices across all jobs
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const status = typeof req.query.status === 'string'
+      ? req.query.status.split(',').filter((token): token is InvoiceStatus => (INVOICE_STATUSES as string[]).includes(token))
+      : undefined;
+
+    const filters: InvoiceQueryFilters = {
+      status: status?.length ? status : undefined,
+      dateRange: typeof req.query.startDate === 'string' && typeof req.query.endDate === 'string' ? {
+        start: req.query.startDate,
+        end: req.query.endDate,
+      } : undefined,
+    };
+
+    const invoices = await databaseService.getAllInvoices(filters);
+
+    res.json({
+      success: true,
+      data: invoices,
+      count: invoices.length,
+    });
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    res.status(error instanceof InvalidDateRangeError ? 400 : 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch invoices',
+    });
+  }
+});
+
+export default router;
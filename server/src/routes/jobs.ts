@@ -1,9 +1,78 @@
 import { Router, Request, Response } from 'express';
 import { databaseService } from '../services/database';
-import { CreateJobRequest, UpdateJobRequest, JobQueryFilters, JobStatus, JobPriority, Bay } from '../types/database';
+import {
+  DeleteBlockedError,
+  InvalidDateRangeError,
+  JobStatusTransitionError,
+  UploadRejectedError,
+} from '../services/errors';
+import { renderJobDocumentPdf } from '../services/pdf';
+import { JOB_DOCUMENT_KINDS, JobDocumentKind, buildJobDocument } from '../../../shared/job-documents';
+import { InvalidCursorError, JOB_SORT_FIELDS, parseListQuery } from '../../../shared/pagination';
+import {
+  createJobRequestSchema,
+  estimateApprovalSchema,
+  estimateSchema,
+  invoiceCreateSchema,
+  invoiceStatusUpdateSchema,
+  jobAttachmentSchema,
+  jobAttachmentUpdateSchema,
+  jobAttachmentUploadSchema,
+  jobMilestoneSchema,
+  jobMilestoneUpdateSchema,
+  jobStatusChangeSchema,
+  odometerReadingSchema,
+  partsOrderSchema,
+  partsOrderUpdateSchema,
+  updateJobRequestSchema,
+} from '../../../shared/schemas';
+import { validateBody } from '../middleware/validate';
+import { receiveAttachmentUpload } from '../middleware/upload';
+import {
+  ApiResponse,
+  CreateJobAttachmentRequest,
+  CreateJobMilestoneRequest,
+  CreateJobRequest,
+  CreatePartsOrderRequest,
+  UpdateJobAttachmentRequest,
+  UpdateJobMilestoneRequest,
+  UpdateJobRequest,
+  UpdatePartsOrderRequest,
+  UploadJobAttachmentRequest,
+  Job,
+  JobAttachment,
+  JobMilestone,
+  JobQueryFilters,
+  JobStatus,
+  JobPriority,
+  JobUpdateOptions,
+  Bay,
+  ListResponse,
+  OdometerReadingResponse,
+  RecordOdometerRequest,
+  SaveEstimateRequest,
+} from '../types/database';
 
 const router = Router();
 
+const sendDeleteBlockedResponse = (res: Response, error: DeleteBlockedError) => {
+  return res.status(409).json({
+    success: false,
+    error: error.message,
+    dependencies: error.dependencies,
+  });
+};
+
+const sendTransitionResponse = (res: Response, error: JobStatusTransitionError) => {
+  return res.status(422).json({
+    success: false,
+    error: error.message,
+    rule: error.rule,
+    from: error.from,
+    to: error.to,
+  });
+};
+
 const JOB_STATUSES: JobStatus[] = ['intake', 'incoming-call', 'scheduled', 'in-progress', 'in-bay', 'waiting-parts', 'completed'];
 const JOB_PRIORITIES: JobPriority[] = ['low', 'medium', 'high'];
 
@@ -25,16 +94,43 @@ const parseBayParam = (value: unknown): Bay[] | undefined => {
   return tokens.length > 0 ? tokens as Bay[] : undefined;
 };
 
-const parseNumberParam = (value: unknown): number | undefined => {
-  if (typeof value !== 'string') {
-    return undefined;
+const sendAttachmentFile = async (req: Request<{ id: string; attachmentId: string }>, res: Response, variant: 'original' | 'thumbnail') => {
+  try {
+    const { id, attachmentId } = req.params;
+
+    const attachment = await databaseService.getJobAttachment(attachmentId);
+    const filePath = attachment?.jobId === id ? databaseService.getJobAttachmentFilePath(attachment, variant) : null;
+    if (!attachment?.file || !filePath) {
+      return res.status(404).json({
+        success: false,
+        error: 'File not found',
+      });
+    }
+
+    // Browsers show files inline unless told to save them under their original name
+    if (variant === 'original' && req.query.inline !== 'true') {
+      res.attachment(attachment.file.fileName);
+    }
+    res.sendFile(filePath, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({
+          success: false,
+          error: 'File not found',
+        });
+      }
+    });
+  } catch (error) {
+    console.error('Error sending job attachment:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send file',
+    });
   }
-  const parsed = Number.parseInt(value, 10);
-  return Number.isNaN(parsed) ? undefined : parsed;
 };
 
-// GET /api/jobs - Get all jobs
-router.get('/', async (req: Request, res: Response) => {
+// GET /api/jobs - Get jobs newest first (?includeArchived=true to include archived ones,
+// ?sort=&order= to reorder, ?limit=&cursor= to page through them)
+router.get('/', async (req: Request, res: Response<ListResponse<Job>>) => {
   try {
     const filters: JobQueryFilters = {
       status: parseCsvParam(req.query.status, JOB_STATUSES),
@@ -42,36 +138,64 @@ router.get('/', async (req: Request, res: Response) => {
       bay: parseBayParam(req.query.bay),
       customerId: typeof req.query.customerId === 'string' ? req.query.customerId : undefined,
       vehicleId: typeof req.query.vehicleId === 'string' ? req.query.vehicleId : undefined,
+      technicianId: typeof req.query.technicianId === 'string' ? req.query.technicianId : undefined,
       dateRange: typeof req.query.startDate === 'string' && typeof req.query.endDate === 'string' ? {
         start: req.query.startDate,
         end: req.query.endDate,
       } : undefined,
-      limit: parseNumberParam(req.query.limit),
-      offset: parseNumberParam(req.query.offset),
+      includeArchived: req.query.includeArchived === 'true',
+      ...parseListQuery(req.query, JOB_SORT_FIELDS),
     };
 
-    const jobs = await databaseService.getAllJobs(filters);
+    const page = await databaseService.getJobPage(filters);
     
     res.json({
       success: true,
-      data: jobs,
-      count: jobs.length,
+      data: page.items,
+      count: page.items.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
     });
   } catch (error) {
     console.error('Error fetching jobs:', error);
-    res.status(500).json({
+    const badQuery = error instanceof InvalidCursorError || error instanceof InvalidDateRangeError;
+    res.status(badQuery ? 400 : 500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to fetch jobs',
     });
   }
 });
 
-// GET /api/jobs/:id - Get job by ID
-router.get('/:id', async (req: Request, res: Response) => {
+// GET /api/jobs/status-events - Get status changes across all jobs
+router.get('/status-events', async (req: Request, res: Response) => {
+  try {
+    const dateRange = typeof req.query.startDate === 'string' && typeof req.query.endDate === 'string' ? {
+      start: req.query.startDate,
+      end: req.query.endDate,
+    } : undefined;
+
+    const events = await databaseService.getAllJobStatusEvents(dateRange);
+
+    res.json({
+      success: true,
+      data: events,
+      count: events.length,
+    });
+  } catch (error) {
+    console.error('Error fetching job status events:', error);
+    res.status(error instanceof InvalidDateRangeError ? 400 : 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch job status events',
+    });
+  }
+});
+
+// GET /api/jobs/:id/history - Get status history for a job
+router.get('/:id/history', async (req: Request<{ id: string }>, res: Response) => {
   try {
     const { id } = req.params;
     const job = await databaseService.getJob(id);
-    
+
     if (!job) {
       return res.status(404).json({
         success: false,
@@ -79,56 +203,144 @@ router.get('/:id', async (req: Request, res: Response) => {
       });
     }
 
+    const history = await databaseService.getJobStatusHistory(id);
+
     res.json({
       success: true,
-      data: job,
+      data: history,
+      count: history.length,
     });
   } catch (error) {
-    console.error('Error fetching job:', error);
+    console.error('Error fetching job history:', error);
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to fetch job',
+      error: error instanceof Error ? error.message : 'Failed to fetch job history',
     });
   }
 });
 
-// POST /api/jobs - Create new job
-router.post('/', async (req: Request, res: Response) => {
+// GET /api/jobs/:id/parts - Get parts orders for a job
+router.get('/:id/parts', async (req: Request<{ id: string }>, res: Response) => {
   try {
-    const data: CreateJobRequest = req.body;
-    
-    // Validate required fields
-    if (!data.title || !data.customerId || !data.vehicleId || !data.estHours || !data.priority) {
-      return res.status(400).json({
+    const { id } = req.params;
+    const job = await databaseService.getJob(id);
+
+    if (!job) {
+      return res.status(404).json({
         success: false,
-        error: 'Missing required fields: title, customerId, vehicleId, estHours, priority',
+        error: 'Job not found',
+      });
+    }
+
+    const orders = await databaseService.getPartsOrders(id);
+
+    res.json({
+      success: true,
+      data: orders,
+      count: orders.length,
+    });
+  } catch (error) {
+    console.error('Error fetching parts orders:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch parts orders',
+    });
+  }
+});
+
+// POST /api/jobs/:id/parts - Order a part for a job
+router.post('/:id/parts', validateBody(partsOrderSchema), async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data: CreatePartsOrderRequest = req.body;
+
+    const order = await databaseService.createPartsOrder(id, data);
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
       });
     }
 
-    const job = await databaseService.createJob(data);
-    
     res.status(201).json({
       success: true,
-      data: job,
-      message: 'Job created successfully',
+      data: order,
+      message: 'Parts order created successfully',
     });
   } catch (error) {
-    console.error('Error creating job:', error);
+    console.error('Error creating parts order:', error);
     res.status(400).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to create job',
+      error: error instanceof Error ? error.message : 'Failed to create parts order',
     });
   }
 });
 
-// PUT /api/jobs/:id - Update job
-router.put('/:id', async (req: Request, res: Response) => {
+// PUT /api/jobs/:id/parts/:partId - Update a parts order
+router.put('/:id/parts/:partId', validateBody(partsOrderUpdateSchema), async (req: Request<{ id: string; partId: string }>, res: Response) => {
+  try {
+    const { id, partId } = req.params;
+    const data: UpdatePartsOrderRequest = req.body;
+
+    const existing = await databaseService.getPartsOrder(partId);
+    if (!existing || existing.jobId !== id) {
+      return res.status(404).json({
+        success: false,
+        error: 'Parts order not found',
+      });
+    }
+
+    const order = await databaseService.updatePartsOrder(partId, data);
+
+    res.json({
+      success: true,
+      data: order,
+      message: 'Parts order updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating parts order:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update parts order',
+    });
+  }
+});
+
+// DELETE /api/jobs/:id/parts/:partId - Delete a parts order
+router.delete('/:id/parts/:partId', async (req: Request<{ id: string; partId: string }>, res: Response) => {
+  try {
+    const { id, partId } = req.params;
+
+    const existing = await databaseService.getPartsOrder(partId);
+    if (!existing || existing.jobId !== id) {
+      return res.status(404).json({
+        success: false,
+        error: 'Parts order not found',
+      });
+    }
+
+    await databaseService.deletePartsOrder(partId);
+
+    res.json({
+      success: true,
+      message: 'Parts order deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting parts order:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete parts order',
+    });
+  }
+});
+
+// GET /api/jobs/:id/milestones - Get the milestones for a job
+router.get('/:id/milestones', async (req: Request<{ id: string }>, res: Response<ListResponse<JobMilestone>>) => {
   try {
     const { id } = req.params;
-    const data: UpdateJobRequest = req.body;
-    
-    const job = await databaseService.updateJob(id, data);
-    
+    const job = await databaseService.getJob(id);
+
     if (!job) {
       return res.status(404).json({
         success: false,
@@ -136,35 +348,115 @@ router.put('/:id', async (req: Request, res: Response) => {
       });
     }
 
+    const milestones = await databaseService.getJobMilestones(id);
+
     res.json({
       success: true,
-      data: job,
-      message: 'Job updated successfully',
+      data: milestones,
+      count: milestones.length,
     });
   } catch (error) {
-    console.error('Error updating job:', error);
-    res.status(400).json({
+    console.error('Error fetching job milestones:', error);
+    res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to update job',
+      error: error instanceof Error ? error.message : 'Failed to fetch job milestones',
     });
   }
 });
 
-// PATCH /api/jobs/:id/status - Update job status
-router.patch('/:id/status', async (req: Request, res: Response) => {
+// POST /api/jobs/:id/milestones - Add a milestone to a job
+router.post('/:id/milestones', validateBody(jobMilestoneSchema), async (req: Request<{ id: string }>, res: Response<ApiResponse<JobMilestone>>) => {
   try {
     const { id } = req.params;
-    const { status } = req.body;
-    
-    if (!status) {
-      return res.status(400).json({
+    const data: CreateJobMilestoneRequest = req.body;
+
+    const milestone = await databaseService.createJobMilestone(id, data);
+
+    if (!milestone) {
+      return res.status(404).json({
         success: false,
-        error: 'Status is required',
+        error: 'Job not found',
       });
     }
 
-    const job = await databaseService.updateJob(id, { status });
-    
+    res.status(201).json({
+      success: true,
+      data: milestone,
+      message: 'Milestone added successfully',
+    });
+  } catch (error) {
+    console.error('Error creating job milestone:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to add milestone',
+    });
+  }
+});
+
+// PUT /api/jobs/:id/milestones/:milestoneId - Update a milestone
+router.put('/:id/milestones/:milestoneId', validateBody(jobMilestoneUpdateSchema), async (req: Request<{ id: string; milestoneId: string }>, res: Response<ApiResponse<JobMilestone>>) => {
+  try {
+    const { id, milestoneId } = req.params;
+    const data: UpdateJobMilestoneRequest = req.body;
+
+    const existing = await databaseService.getJobMilestone(milestoneId);
+    if (!existing || existing.jobId !== id) {
+      return res.status(404).json({
+        success: false,
+        error: 'Milestone not found',
+      });
+    }
+
+    const milestone = await databaseService.updateJobMilestone(milestoneId, data);
+
+    res.json({
+      success: true,
+      data: milestone ?? undefined,
+      message: 'Milestone updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating job milestone:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update milestone',
+    });
+  }
+});
+
+// DELETE /api/jobs/:id/milestones/:milestoneId - Remove a milestone
+router.delete('/:id/milestones/:milestoneId', async (req: Request<{ id: string; milestoneId: string }>, res: Response<ApiResponse<JobMilestone>>) => {
+  try {
+    const { id, milestoneId } = req.params;
+
+    const existing = await databaseService.getJobMilestone(milestoneId);
+    if (!existing || existing.jobId !== id) {
+      return res.status(404).json({
+        success: false,
+        error: 'Milestone not found',
+      });
+    }
+
+    await databaseService.deleteJobMilestone(milestoneId);
+
+    res.json({
+      success: true,
+      message: 'Milestone removed successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting job milestone:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove milestone',
+    });
+  }
+});
+
+// GET /api/jobs/:id/attachments - Get the attachments for a job
+router.get('/:id/attachments', async (req: Request<{ id: string }>, res: Response<ListResponse<JobAttachment>>) => {
+  try {
+    const { id } = req.params;
+    const job = await databaseService.getJob(id);
+
     if (!job) {
       return res.status(404).json({
         success: false,
@@ -172,42 +464,601 @@ router.patch('/:id/status', async (req: Request, res: Response) => {
       });
     }
 
+    const attachments = await databaseService.getJobAttachments(id);
+
     res.json({
       success: true,
-      data: job,
-      message: 'Job status updated successfully',
+      data: attachments,
+      count: attachments.length,
     });
   } catch (error) {
-    console.error('Error updating job status:', error);
-    res.status(400).json({
+    console.error('Error fetching job attachments:', error);
+    res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to update job status',
+      error: error instanceof Error ? error.message : 'Failed to fetch job attachments',
     });
   }
 });
 
-// DELETE /api/jobs/:id - Delete job
-router.delete('/:id', async (req: Request, res: Response) => {
+// POST /api/jobs/:id/attachments - Add a link attachment to a job
+router.post('/:id/attachments', validateBody(jobAttachmentSchema), async (req: Request<{ id: string }>, res: Response<ApiResponse<JobAttachment>>) => {
   try {
     const { id } = req.params;
-    const success = await databaseService.deleteJob(id);
-    
-    if (!success) {
+    const data: CreateJobAttachmentRequest = req.body;
+
+    const attachment = await databaseService.createJobAttachment(id, data);
+
+    if (!attachment) {
       return res.status(404).json({
         success: false,
         error: 'Job not found',
       });
     }
 
+    res.status(201).json({
+      success: true,
+      data: attachment,
+      message: 'Attachment added successfully',
+    });
+  } catch (error) {
+    console.error('Error creating job attachment:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to add attachment',
+    });
+  }
+});
+
+// POST /api/jobs/:id/attachments/upload - Upload a photo or document (multipart field "file")
+router.post(
+  '/:id/attachments/upload',
+  receiveAttachmentUpload,
+  validateBody(jobAttachmentUploadSchema),
+  async (req: Request<{ id: string }>, res: Response<ApiResponse<JobAttachment>>) => {
+    try {
+      const { id } = req.params;
+      const data: UploadJobAttachmentRequest = req.body;
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: 'Choose a file to upload',
+        });
+      }
+
+      const attachment = await databaseService.uploadJobAttachment(id, data, {
+        originalName: req.file.originalname,
+        mimeType: req.file.mimetype,
+        buffer: req.file.buffer,
+      });
+
+      if (!attachment) {
+        return res.status(404).json({
+          success: false,
+          error: 'Job not found',
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: attachment,
+        message: 'File uploaded successfully',
+      });
+    } catch (error) {
+      console.error('Error uploading job attachment:', error);
+      res.status(error instanceof UploadRejectedError ? 400 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to upload file',
+      });
+    }
+  }
+);
+
+// GET /api/jobs/:id/attachments/:attachmentId/download - Send an uploaded file
+// Pass ?inline=true to open it in the browser instead of saving it
+router.get('/:id/attachments/:attachmentId/download', async (req: Request<{ id: string; attachmentId: string }>, res: Response) => {
+  await sendAttachmentFile(req, res, 'original');
+});
+
+// GET /api/jobs/:id/attachments/:attachmentId/thumbnail - Send the thumbnail of an uploaded photo
+router.get('/:id/attachments/:attachmentId/thumbnail', async (req: Request<{ id: string; attachmentId: string }>, res: Response) => {
+  await sendAttachmentFile(req, res, 'thumbnail');
+});
+
+// PUT /api/jobs/:id/attachments/:attachmentId - Update an attachment
+router.put('/:id/attachments/:attachmentId', validateBody(jobAttachmentUpdateSchema), async (req: Request<{ id: string; attachmentId: string }>, res: Response<ApiResponse<JobAttachment>>) => {
+  try {
+    const { id, attachmentId } = req.params;
+    const data: UpdateJobAttachmentRequest = req.body;
+
+    const existing = await databaseService.getJobAttachment(attachmentId);
+    if (!existing || existing.jobId !== id) {
+      return res.status(404).json({
+        success: false,
+        error: 'Attachment not found',
+      });
+    }
+
+    const attachment = await databaseService.updateJobAttachment(attachmentId, data);
+
+    res.json({
+      success: true,
+      data: attachment ?? undefined,
+      message: 'Attachment updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating job attachment:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update attachment',
+    });
+  }
+});
+
+// DELETE /api/jobs/:id/attachments/:attachmentId - Remove an attachment
+router.delete('/:id/attachments/:attachmentId', async (req: Request<{ id: string; attachmentId: string }>, res: Response<ApiResponse<JobAttachment>>) => {
+  try {
+    const { id, attachmentId } = req.params;
+
+    const existing = await databaseService.getJobAttachment(attachmentId);
+    if (!existing || existing.jobId !== id) {
+      return res.status(404).json({
+        success: false,
+        error: 'Attachment not found',
+      });
+    }
+
+    await databaseService.deleteJobAttachment(attachmentId);
+
     res.json({
       success: true,
-      message: 'Job deleted successfully',
+      message: 'Attachment removed successfully',
     });
   } catch (error) {
-    console.error('Error deleting job:', error);
+    console.error('Error deleting job attachment:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove attachment',
+    });
+  }
+});
+
+// PUT /api/jobs/:id/odometer - Record the check-in or check-out odometer reading
+router.put('/:id/odometer', validateBody(odometerReadingSchema), async (req: Request<{ id: string }>, res: Response<OdometerReadingResponse>) => {
+  try {
+    const { id } = req.params;
+    const data: RecordOdometerRequest = req.body;
+
+    const result = await databaseService.recordJobOdometer(id, data);
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.job,
+      mileageWarning: result.mileageWarning,
+      message: 'Odometer reading recorded',
+    });
+  } catch (error) {
+    console.error('Error recording odometer reading:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to record odometer reading',
+    });
+  }
+});
+
+// GET /api/jobs/:id/billing - Get the estimate and invoices for a job
+router.get('/:id/billing', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const billing = await databaseService.getJobBilling(id);
+
+    if (!billing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: billing,
+    });
+  } catch (error) {
+    console.error('Error fetching job billing:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch job billing',
+    });
+  }
+});
+
+// PUT /api/jobs/:id/estimate - Create or revise the estimate for a job
+router.put('/:id/estimate', validateBody(estimateSchema), async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data: SaveEstimateRequest = req.body;
+
+    const estimate = await databaseService.saveEstimate(id, data);
+
+    if (!estimate) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: estimate,
+      message: 'Estimate saved successfully',
+    });
+  } catch (error) {
+    console.error('Error saving estimate:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save estimate',
+    });
+  }
+});
+
+// POST /api/jobs/:id/estimate/approve - Record customer approval of the estimate
+router.post('/:id/estimate/approve', validateBody(estimateApprovalSchema), async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { approvedBy }: { approvedBy?: string } = req.body;
+
+    const estimate = await databaseService.approveEstimate(id, approvedBy);
+
+    if (!estimate) {
+      return res.status(404).json({
+        success: false,
+        error: 'Estimate not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: estimate,
+      message: 'Estimate approved successfully',
+    });
+  } catch (error) {
+    console.error('Error approving estimate:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to approve estimate',
+    });
+  }
+});
+
+// POST /api/jobs/:id/estimate/decline - Record that the customer declined the estimate
+router.post('/:id/estimate/decline', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const estimate = await databaseService.declineEstimate(id);
+
+    if (!estimate) {
+      return res.status(404).json({
+        success: false,
+        error: 'Estimate not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: estimate,
+      message: 'Estimate declined',
+    });
+  } catch (error) {
+    console.error('Error declining estimate:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to decline estimate',
+    });
+  }
+});
+
+// POST /api/jobs/:id/invoices - Convert the approved estimate into an invoice
+router.post('/:id/invoices', validateBody(invoiceCreateSchema), async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { invoiceNumber }: { invoiceNumber?: string } = req.body;
+
+    const invoice = await databaseService.createInvoiceFromEstimate(id, invoiceNumber);
+
+    if (!invoice) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: invoice,
+      message: 'Invoice created successfully',
+    });
+  } catch (error) {
+    console.error('Error creating invoice:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create invoice',
+    });
+  }
+});
+
+// PATCH /api/jobs/:id/invoices/:invoiceId - Mark an invoice paid or void
+router.patch('/:id/invoices/:invoiceId', validateBody(invoiceStatusUpdateSchema), async (req: Request<{ id: string; invoiceId: string }>, res: Response) => {
+  try {
+    const { id, invoiceId } = req.params;
+    const { status }: { status: 'paid' | 'void' } = req.body;
+
+    const billing = await databaseService.getJobBilling(id);
+    if (!billing?.invoices.some((invoice) => invoice.id === invoiceId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Invoice not found',
+      });
+    }
+
+    const invoice = await databaseService.updateInvoiceStatus(invoiceId, status);
+
+    res.json({
+      success: true,
+      data: invoice,
+      message: 'Invoice updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating invoice:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update invoice',
+    });
+  }
+});
+
+// GET /api/jobs/:id/documents/:kind - Render the work order or invoice as a PDF
+router.get('/:id/documents/:kind', async (req: Request<{ id: string; kind: string }>, res: Response) => {
+  try {
+    const { id, kind } = req.params;
+    const invoiceId = typeof req.query.invoiceId === 'string' ? req.query.invoiceId : undefined;
+
+    if (!JOB_DOCUMENT_KINDS.includes(kind as JobDocumentKind)) {
+      return res.status(400).json({
+        success: false,
+        error: `Document must be one of: ${JOB_DOCUMENT_KINDS.join(', ')}`,
+      });
+    }
+
+    const source = await databaseService.getJobDocumentSource(id, invoiceId);
+    if (!source) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    if (kind === 'invoice' && !source.invoice) {
+      return res.status(404).json({
+        success: false,
+        error: 'Invoice not found',
+      });
+    }
+
+    const document = buildJobDocument(kind as JobDocumentKind, source);
+    const filename = kind === 'invoice' ? document.reference : `work-order-${id}`;
+
+    res
+      .type('application/pdf')
+      .setHeader('Content-Disposition', `inline; filename="${filename}.pdf"`)
+      .send(renderJobDocumentPdf(document));
+  } catch (error) {
+    console.error('Error rendering job document:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to render job document',
+    });
+  }
+});
+
+// GET /api/jobs/:id - Get job by ID
+router.get('/:id', async (req: Request<{ id: string }>, res: Response<ApiResponse<Job>>) => {
+  try {
+    const { id } = req.params;
+    const job = await databaseService.getJob(id);
+    
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch job',
+    });
+  }
+});
+
+// POST /api/jobs - Create new job
+router.post('/', validateBody(createJobRequestSchema), async (req: Request, res: Response<ApiResponse<Job>>) => {
+  try {
+    const { actor, ...data }: CreateJobRequest & Pick<JobUpdateOptions, 'actor'> = req.body;
+
+    const job = await databaseService.createJob(data, { actor });
+    
+    res.status(201).json({
+      success: true,
+      data: job,
+      message: 'Job created successfully',
+    });
+  } catch (error) {
+    console.error('Error creating job:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create job',
+    });
+  }
+});
+
+// PUT /api/jobs/:id - Update job
+router.put('/:id', validateBody(updateJobRequestSchema), async (req: Request<{ id: string }>, res: Response<ApiResponse<Job>>) => {
+  try {
+    const { id } = req.params;
+    const { override, actor, reason, endCurrentSegment, ...data }: UpdateJobRequest & JobUpdateOptions = req.body;
+    
+    const job = await databaseService.updateJob(id, data, { override, actor, reason, endCurrentSegment });
+    
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: job,
+      message: 'Job updated successfully',
+    });
+  } catch (error) {
+    if (error instanceof JobStatusTransitionError) {
+      return sendTransitionResponse(res, error);
+    }
+
+    console.error('Error updating job:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update job',
+    });
+  }
+});
+
+// PATCH /api/jobs/:id/status - Update job status
+router.patch('/:id/status', validateBody(jobStatusChangeSchema), async (req: Request<{ id: string }>, res: Response<ApiResponse<Job>>) => {
+  try {
+    const { id } = req.params;
+    const { status, override, actor, reason, endCurrentSegment }: { status: JobStatus } & JobUpdateOptions = req.body;
+
+    const job = await databaseService.updateJob(id, { status }, { override, actor, reason, endCurrentSegment });
+    
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: job,
+      message: 'Job status updated successfully',
+    });
+  } catch (error) {
+    if (error instanceof JobStatusTransitionError) {
+      return sendTransitionResponse(res, error);
+    }
+
+    console.error('Error updating job status:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update job status',
+    });
+  }
+});
+
+// DELETE /api/jobs/:id - Archive job with its appointments
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response<ApiResponse<Job>>) => {
+  try {
+    const { id } = req.params;
+    const job = await databaseService.archiveJob(id, req.body?.archivedBy);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: job,
+      message: 'Job archived successfully',
+    });
+  } catch (error) {
+    console.error('Error archiving job:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to archive job',
+    });
+  }
+});
+
+// POST /api/jobs/:id/restore - Restore an archived job and the records archived with it
+router.post('/:id/restore', async (req: Request<{ id: string }>, res: Response<ApiResponse<Job>>) => {
+  try {
+    const { id } = req.params;
+    const job = await databaseService.restoreJob(id);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: job,
+      message: 'Job restored successfully',
+    });
+  } catch (error) {
+    console.error('Error restoring job:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to restore job',
+    });
+  }
+});
+
+// DELETE /api/jobs/:id/purge - Permanently delete job (not yet restricted by role; ?cascade=true also removes dependent records)
+router.delete('/:id/purge', async (req: Request<{ id: string }>, res: Response<ApiResponse<Job>>) => {
+  try {
+    const { id } = req.params;
+    const success = await databaseService.deleteJob(id, { cascade: req.query.cascade === 'true' });
+
+    if (!success) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Job purged successfully',
+    });
+  } catch (error) {
+    if (error instanceof DeleteBlockedError) {
+      return sendDeleteBlockedResponse(res, error);
+    }
+
+    console.error('Error purging job:', error);
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to delete job',
+      error: error instanceof Error ? error.message : 'Failed to purge job',
     });
   }
 });
@@ -1,11 +1,13 @@
 ﻿import { Router, Request, Response } from 'express';
 import { databaseService } from '../services/database';
-import { ShopSettings } from '../types/database';
+import { ApiResponse, ShopSettings } from '../types/database';
+import { shopSettingsUpdateSchema } from '../../../shared/schemas';
+import { validateBody } from '../middleware/validate';
 
 const router = Router();
 
 // GET /api/settings - Get shop settings
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', async (req: Request, res: Response<ApiResponse<ShopSettings>>) => {
   try {
     let settings = await databaseService.getShopSettings();
     
@@ -28,7 +30,7 @@ router.get('/', async (req: Request, res: Response) => {
 });
 
 // PUT /api/settings - Update shop settings
-router.put('/', async (req: Request, res: Response) => {
+router.put('/', validateBody(shopSettingsUpdateSchema), async (req: Request, res: Response<ApiResponse<ShopSettings>>) => {
   try {
     const data: Partial<ShopSettings> = req.body;
     
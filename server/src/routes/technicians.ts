@@ -0,0 +1,155 @@
+import { Router, Request, Response } from 'express';
+import { databaseService } from '../services/database';
+import { DeleteBlockedError } from '../services/errors';
+import {
+  ApiResponse,
+  CreateTechnicianRequest,
+  ListResponse,
+  Technician,
+  TechnicianQueryFilters,
+  UpdateTechnicianRequest,
+} from '../types/database';
+
+const router = Router();
+
+// GET /api/technicians - Get all technicians
+router.get('/', async (req: Request, res: Response<ListResponse<Technician>>) => {
+  try {
+    const filters: TechnicianQueryFilters = {
+      isActive: req.query.active === 'true' ? true : req.query.active === 'false' ? false : undefined,
+      skill: typeof req.query.skill === 'string' ? req.query.skill : undefined,
+    };
+
+    const technicians = await databaseService.getAllTechnicians(filters);
+
+    res.json({
+      success: true,
+      data: technicians,
+      count: technicians.length,
+    });
+  } catch (error) {
+    console.error('Error fetching technicians:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch technicians',
+    });
+  }
+});
+
+// GET /api/technicians/:id - Get technician by ID
+router.get('/:id', async (req: Request<{ id: string }>, res: Response<ApiResponse<Technician>>) => {
+  try {
+    const { id } = req.params;
+    const technician = await databaseService.getTechnician(id);
+
+    if (!technician) {
+      return res.status(404).json({
+        success: false,
+        error: 'Technician not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: technician,
+    });
+  } catch (error) {
+    console.error('Error fetching technician:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch technician',
+    });
+  }
+});
+
+// POST /api/technicians - Create new technician
+router.post('/', async (req: Request, res: Response<ApiResponse<Technician>>) => {
+  try {
+    const data: CreateTechnicianRequest = req.body;
+
+    if (!data.name?.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: name',
+      });
+    }
+
+    const technician = await databaseService.createTechnician(data);
+
+    res.status(201).json({
+      success: true,
+      data: technician,
+      message: 'Technician created successfully',
+    });
+  } catch (error) {
+    console.error('Error creating technician:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create technician',
+    });
+  }
+});
+
+// PUT /api/technicians/:id - Update technician
+router.put('/:id', async (req: Request<{ id: string }>, res: Response<ApiResponse<Technician>>) => {
+  try {
+    const { id } = req.params;
+    const data: UpdateTechnicianRequest = req.body;
+
+    const technician = await databaseService.updateTechnician(id, data);
+
+    if (!technician) {
+      return res.status(404).json({
+        success: false,
+        error: 'Technician not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: technician,
+      message: 'Technician updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating technician:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update technician',
+    });
+  }
+});
+
+// DELETE /api/technicians/:id - Delete technician
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response<ApiResponse<Technician>>) => {
+  try {
+    const { id } = req.params;
+    const success = await databaseService.deleteTechnician(id);
+
+    if (!success) {
+      return res.status(404).json({
+        success: false,
+        error: 'Technician not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Technician deleted successfully',
+    });
+  } catch (error) {
+    if (error instanceof DeleteBlockedError) {
+      return res.status(409).json({
+        success: false,
+        error: `${error.message}. Mark them inactive instead.`,
+        dependencies: error.dependencies,
+      });
+    }
+    console.error('Error deleting technician:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete technician',
+    });
+  }
+});
+
+export default router;
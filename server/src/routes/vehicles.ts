@@ -1,9 +1,38 @@
 import { Router, Request, Response } from 'express';
 import { databaseService } from '../services/database';
-import { CreateVehicleRequest, UpdateVehicleRequest, VehicleQueryFilters } from '../types/database';
+import { DeleteBlockedError, DuplicateVinError } from '../services/errors';
+import {
+  ApiResponse,
+  CreateVehicleRequest,
+  JobAttachment,
+  ListResponse,
+  UpdateVehicleRequest,
+  Vehicle,
+  VehicleMileageHistory,
+  VehicleQueryFilters,
+  VehicleSaveResponse,
+} from '../types/database';
+import { vehicleSchema, vehicleUpdateSchema } from '../../../shared/schemas';
+import { validateBody } from '../middleware/validate';
 
 const router = Router();
 
+const sendDeleteBlockedResponse = (res: Response, error: DeleteBlockedError) => {
+  return res.status(409).json({
+    success: false,
+    error: error.message,
+    dependencies: error.dependencies,
+  });
+};
+
+const sendDuplicateVinResponse = (res: Response<VehicleSaveResponse>, error: DuplicateVinError) => {
+  return res.status(409).json({
+    success: false,
+    error: error.message,
+    duplicateOf: error.vehicle,
+  });
+};
+
 const parseIdsParam = (value: unknown): string[] | undefined => {
   if (typeof value !== 'string') {
     return undefined;
@@ -22,11 +51,11 @@ const parseNumberParam = (value: unknown): number | undefined => {
   return Number.isNaN(parsed) ? undefined : parsed;
 };
 
-// GET /api/vehicles - Get all vehicles
-router.get('/', async (req: Request, res: Response) => {
+// GET /api/vehicles - Get all vehicles (?includeArchived=true to include archived ones)
+router.get('/', async (req: Request, res: Response<ListResponse<Vehicle>>) => {
   try {
     const filters: VehicleQueryFilters = {};
-    const { customerId, ids, make, model, year, search } = req.query;
+    const { customerId, ids, make, model, year, search, includeArchived } = req.query;
 
     if (typeof customerId === 'string' && customerId.trim()) {
       filters.customerId = customerId.trim();
@@ -54,6 +83,10 @@ router.get('/', async (req: Request, res: Response) => {
       filters.search = search.trim();
     }
 
+    if (includeArchived === 'true') {
+      filters.includeArchived = true;
+    }
+
     const vehicles = await databaseService.getAllVehicles(filters);
 
     res.json({
@@ -71,7 +104,7 @@ router.get('/', async (req: Request, res: Response) => {
 });
 
 // GET /api/vehicles/search - Search vehicles
-router.get('/search', async (req: Request, res: Response) => {
+router.get('/search', async (req: Request, res: Response<ListResponse<Vehicle>>) => {
   try {
     const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
     if (!query) {
@@ -131,7 +164,7 @@ router.get('/alerts', async (_req: Request, res: Response) => {
 });
 
 // GET /api/vehicles/:id/service-history - Service history for a vehicle
-router.get('/:id/service-history', async (req: Request, res: Response) => {
+router.get('/:id/service-history', async (req: Request<{ id: string }>, res: Response) => {
   try {
     const { id } = req.params;
     const jobs = await databaseService.getAllJobs({ vehicleId: id });
@@ -144,8 +177,55 @@ router.get('/:id/service-history', async (req: Request, res: Response) => {
     });
   }
 });
+
+// GET /api/vehicles/:id/mileage - Odometer readings from the vehicle's jobs and its average miles per day
+router.get('/:id/mileage', async (req: Request<{ id: string }>, res: Response<ApiResponse<VehicleMileageHistory>>) => {
+  try {
+    const { id } = req.params;
+    const history = await databaseService.getVehicleMileageHistory(id);
+
+    if (!history) {
+      return res.status(404).json({
+        success: false,
+        error: 'Vehicle not found',
+      });
+    }
+
+    res.json({ success: true, data: history });
+  } catch (error) {
+    console.error('Error fetching vehicle mileage history:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch vehicle mileage history',
+    });
+  }
+});
+
+// GET /api/vehicles/:id/attachments - Photos and documents from every job on the vehicle
+router.get('/:id/attachments', async (req: Request<{ id: string }>, res: Response<ListResponse<JobAttachment>>) => {
+  try {
+    const { id } = req.params;
+    const attachments = await databaseService.getVehicleAttachments(id);
+
+    if (!attachments) {
+      return res.status(404).json({
+        success: false,
+        error: 'Vehicle not found',
+      });
+    }
+
+    res.json({ success: true, data: attachments, count: attachments.length });
+  } catch (error) {
+    console.error('Error fetching vehicle attachments:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch vehicle attachments',
+    });
+  }
+});
+
 // GET /api/vehicles/:id - Get vehicle by ID
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', async (req: Request<{ id: string }>, res: Response<ApiResponse<Vehicle>>) => {
   try {
     const { id } = req.params;
     const vehicle = await databaseService.getVehicle(id);
@@ -171,17 +251,9 @@ router.get('/:id', async (req: Request, res: Response) => {
 });
 
 // POST /api/vehicles - Create new vehicle
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', validateBody(vehicleSchema), async (req: Request, res: Response<VehicleSaveResponse>) => {
   try {
     const data: CreateVehicleRequest = req.body;
-    
-    // Validate required fields
-    if (!data.customerId || !data.year || !data.make || !data.model) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields: customerId, year, make, model',
-      });
-    }
 
     const vehicle = await databaseService.createVehicle(data);
     
@@ -191,6 +263,9 @@ router.post('/', async (req: Request, res: Response) => {
       message: 'Vehicle created successfully',
     });
   } catch (error) {
+    if (error instanceof DuplicateVinError) {
+      return sendDuplicateVinResponse(res, error);
+    }
     console.error('Error creating vehicle:', error);
     res.status(400).json({
       success: false,
@@ -200,7 +275,7 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 // PUT /api/vehicles/:id - Update vehicle
-router.put('/:id', async (req: Request, res: Response) => {
+router.put('/:id', validateBody(vehicleUpdateSchema), async (req: Request<{ id: string }>, res: Response<VehicleSaveResponse>) => {
   try {
     const { id } = req.params;
     const data: UpdateVehicleRequest = req.body;
@@ -220,6 +295,9 @@ router.put('/:id', async (req: Request, res: Response) => {
       message: 'Vehicle updated successfully',
     });
   } catch (error) {
+    if (error instanceof DuplicateVinError) {
+      return sendDuplicateVinResponse(res, error);
+    }
     console.error('Error updating vehicle:', error);
     res.status(400).json({
       success: false,
@@ -228,12 +306,66 @@ router.put('/:id', async (req: Request, res: Response) => {
   }
 });
 
-// DELETE /api/vehicles/:id - Delete vehicle
-router.delete('/:id', async (req: Request, res: Response) => {
+// DELETE /api/vehicles/:id - Archive vehicle with its jobs and their appointments
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response<ApiResponse<Vehicle>>) => {
   try {
     const { id } = req.params;
-    const success = await databaseService.deleteVehicle(id);
-    
+    const vehicle = await databaseService.archiveVehicle(id, req.body?.archivedBy);
+
+    if (!vehicle) {
+      return res.status(404).json({
+        success: false,
+        error: 'Vehicle not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: vehicle,
+      message: 'Vehicle archived successfully',
+    });
+  } catch (error) {
+    console.error('Error archiving vehicle:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to archive vehicle',
+    });
+  }
+});
+
+// POST /api/vehicles/:id/restore - Restore an archived vehicle and the records archived with it
+router.post('/:id/restore', async (req: Request<{ id: string }>, res: Response<ApiResponse<Vehicle>>) => {
+  try {
+    const { id } = req.params;
+    const vehicle = await databaseService.restoreVehicle(id);
+
+    if (!vehicle) {
+      return res.status(404).json({
+        success: false,
+        error: 'Vehicle not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: vehicle,
+      message: 'Vehicle restored successfully',
+    });
+  } catch (error) {
+    console.error('Error restoring vehicle:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to restore vehicle',
+    });
+  }
+});
+
+// DELETE /api/vehicles/:id/purge - Permanently delete vehicle (not yet restricted by role; ?cascade=true also removes dependent records)
+router.delete('/:id/purge', async (req: Request<{ id: string }>, res: Response<ApiResponse<Vehicle>>) => {
+  try {
+    const { id } = req.params;
+    const success = await databaseService.deleteVehicle(id, { cascade: req.query.cascade === 'true' });
+
     if (!success) {
       return res.status(404).json({
         success: false,
@@ -243,13 +375,17 @@ router.delete('/:id', async (req: Request, res: Response) => {
 
     res.json({
       success: true,
-      message: 'Vehicle deleted successfully',
+      message: 'Vehicle purged successfully',
     });
   } catch (error) {
-    console.error('Error deleting vehicle:', error);
+    if (error instanceof DeleteBlockedError) {
+      return sendDeleteBlockedResponse(res, error);
+    }
+
+    console.error('Error purging vehicle:', error);
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to delete vehicle',
+      error: error instanceof Error ? error.message : 'Failed to purge vehicle',
     });
   }
 });
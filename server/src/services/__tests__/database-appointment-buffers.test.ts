@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DatabaseService } from '../database';
+import { AppointmentConflictError } from '../errors';
+import { LocalFileAdapter } from '../persistence';
+
+const timestamp = '2026-10-18T12:00:00.000Z';
+const outsideHours = { allowOutsideHours: true };
+
+describe('DatabaseService appointment buffers', () => {
+  let store: LocalFileAdapter;
+  let service: DatabaseService;
+
+  const schedulingDefaults = (enableAutoBuffers: boolean) => ({
+    defaultJobDuration: 60,
+    minimumSlotIncrement: 30,
+    bufferMinutes: 15,
+    enableAutoBuffers,
+    lockEditingWithinMinutes: 30,
+    allowSameDayScheduling: true,
+    overbookingPolicy: 'strict' as const,
+  });
+
+  beforeEach(async () => {
+    store = new LocalFileAdapter();
+    service = new DatabaseService(store);
+
+    await store.transact([
+      { kind: 'update', entity: 'customers', id: 'customer_1', data: { name: 'Maria Garcia', phone: '555-0101', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'vehicles', id: 'vehicle_1', data: { customerId: 'customer_1', year: 2018, make: 'Honda', model: 'Civic', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'jobs', id: 'job_1', data: { customerId: 'customer_1', vehicleId: 'vehicle_1', title: 'Oil change', status: 'scheduled', priority: 'low', estHours: 1, createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'jobs', id: 'job_2', data: { customerId: 'customer_1', vehicleId: 'vehicle_1', title: 'Brake service', status: 'scheduled', priority: 'medium', estHours: 1, createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'appointments', id: 'appt_1', data: { jobId: 'job_1', bay: 'bay-1', startAt: '2026-10-20T14:00:00.000Z', endAt: '2026-10-20T15:00:00.000Z', createdAt: timestamp, updatedAt: timestamp } },
+    ]);
+  });
+
+  it('rejects a booking that starts inside the buffer after another appointment', async () => {
+    await service.createOrUpdateShopSettings({ schedulingDefaults: schedulingDefaults(true) });
+
+    const booking = service.createAppointment(
+      { jobId: 'job_2', bay: 'bay-1', startAt: '2026-10-20T15:10:00.000Z', endAt: '2026-10-20T16:00:00.000Z' },
+      outsideHours
+    );
+
+    await expect(booking).rejects.toBeInstanceOf(AppointmentConflictError);
+    await expect(booking).rejects.toThrow('counting the 15-minute buffer after each appointment');
+  });
+
+  it('rejects a booking whose own buffer runs into the next appointment', async () => {
+    await service.createOrUpdateShopSettings({ schedulingDefaults: schedulingDefaults(true) });
+
+    await expect(service.createAppointment(
+      { jobId: 'job_2', bay: 'bay-1', startAt: '2026-10-20T13:00:00.000Z', endAt: '2026-10-20T13:50:00.000Z' },
+      outsideHours
+    )).rejects.toBeInstanceOf(AppointmentConflictError);
+
+    const clear = await service.createAppointment(
+      { jobId: 'job_2', bay: 'bay-1', startAt: '2026-10-20T15:15:00.000Z', endAt: '2026-10-20T16:00:00.000Z' },
+      outsideHours
+    );
+    expect(clear.conflicts).toEqual([]);
+  });
+
+  it('allows back-to-back bookings while auto buffers are off', async () => {
+    await service.createOrUpdateShopSettings({ schedulingDefaults: schedulingDefaults(false) });
+
+    const result = await service.createAppointment(
+      { jobId: 'job_2', bay: 'bay-1', startAt: '2026-10-20T15:00:00.000Z', endAt: '2026-10-20T16:00:00.000Z' },
+      outsideHours
+    );
+
+    expect(result.conflicts).toEqual([]);
+  });
+});
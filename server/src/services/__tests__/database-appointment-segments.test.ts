@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DatabaseService } from '../database';
+import { LocalFileAdapter } from '../persistence';
+
+const timestamp = '2026-10-18T12:00:00.000Z';
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000).toISOString();
+
+describe('DatabaseService appointment segments', () => {
+  let store: LocalFileAdapter;
+  let service: DatabaseService;
+
+  beforeEach(async () => {
+    store = new LocalFileAdapter();
+    service = new DatabaseService(store);
+
+    await store.transact([
+      { kind: 'update', entity: 'customers', id: 'customer_1', data: { name: 'Maria Garcia', phone: '555-0101', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'vehicles', id: 'vehicle_1', data: { customerId: 'customer_1', year: 2018, make: 'Honda', model: 'Civic', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'jobs', id: 'job_1', data: { customerId: 'customer_1', vehicleId: 'vehicle_1', title: 'Head gasket', status: 'in-bay', priority: 'high', estHours: 6, createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'appointments', id: 'appt_day2', data: { jobId: 'job_1', bay: 'bay-2', startAt: minutesFromNow(24 * 60), endAt: minutesFromNow(27 * 60), createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'appointments', id: 'appt_day1', data: { jobId: 'job_1', bay: 'bay-1', startAt: minutesFromNow(-60), endAt: minutesFromNow(120), createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'appointments', id: 'appt_cancelled', data: { jobId: 'job_1', bay: 'bay-1', startAt: minutesFromNow(48 * 60), endAt: minutesFromNow(49 * 60), archivedAt: timestamp, createdAt: timestamp, updatedAt: timestamp } },
+    ]);
+  });
+
+  it('lists a job\'s live segments in start order', async () => {
+    const segments = await service.getAppointmentsByJob('job_1');
+    expect(segments.map((segment) => segment.id)).toEqual(['appt_day1', 'appt_day2']);
+  });
+
+  it('ends the current segment when the job pauses for parts', async () => {
+    const nextDay = await service.getAppointment('appt_day2');
+    const job = await service.updateJob('job_1', { status: 'waiting-parts' }, { endCurrentSegment: true });
+
+    expect((await service.getAppointment('appt_day1'))?.endAt).toBe(job?.updatedAt);
+    expect((await service.getAppointment('appt_day2'))?.endAt).toBe(nextDay?.endAt);
+  });
+
+  it('leaves the booking alone unless asked', async () => {
+    const before = await service.getAppointment('appt_day1');
+    await service.updateJob('job_1', { status: 'waiting-parts' });
+
+    expect((await service.getAppointment('appt_day1'))?.endAt).toBe(before?.endAt);
+  });
+});
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DatabaseService } from '../database';
+import { LocalFileAdapter } from '../persistence';
+
+const timestamp = '2026-10-18T12:00:00.000Z';
+const endAt = '2026-10-18T14:00:00.000Z';
+
+describe('DatabaseService archiving', () => {
+  let store: LocalFileAdapter;
+  let service: DatabaseService;
+
+  beforeEach(async () => {
+    store = new LocalFileAdapter();
+    service = new DatabaseService(store);
+
+    await store.transact([
+      { kind: 'update', entity: 'customers', id: 'customer_1', data: { name: 'Maria Garcia', phone: '555-0101', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'vehicles', id: 'vehicle_1', data: { customerId: 'customer_1', year: 2018, make: 'Honda', model: 'Civic', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'jobs', id: 'job_1', data: { customerId: 'customer_1', vehicleId: 'vehicle_1', title: 'Brake service', status: 'scheduled', priority: 'medium', estHours: 2, createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'jobs', id: 'job_2', data: { customerId: 'customer_1', vehicleId: 'vehicle_1', title: 'Oil change', status: 'completed', priority: 'low', estHours: 1, createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'appointments', id: 'appointment_1', data: { jobId: 'job_1', startAt: timestamp, endAt, bay: 'bay-1', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'calls', id: 'call_1', data: { customerId: 'customer_1', phoneNumber: '555-0101', callStartTime: timestamp, callOutcome: 'scheduled', createdAt: timestamp, updatedAt: timestamp } },
+    ]);
+  });
+
+  it('archives a customer with everything that hangs off it and hides them from lists', async () => {
+    const customer = await service.archiveCustomer('customer_1', 'Sarah Wilson');
+
+    expect(customer).toMatchObject({ archivedBy: 'Sarah Wilson', archivedAt: expect.any(String) });
+    expect(await service.getAllCustomers()).toEqual([]);
+    expect(await service.getAllVehicles()).toEqual([]);
+    expect(await service.getAllJobs()).toEqual([]);
+    expect(await service.getAllCalls()).toEqual([]);
+    expect(await service.getAllAppointments()).toEqual([]);
+
+    const archivedJobs = await service.getAllJobs({ includeArchived: true });
+    expect(archivedJobs.map((job) => job.archivedAt)).toEqual([customer?.archivedAt, customer?.archivedAt]);
+  });
+
+  it('restores only the records archived in the same action', async () => {
+    await service.archiveJob('job_2');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await service.archiveCustomer('customer_1');
+
+    await service.restoreCustomer('customer_1');
+
+    expect((await service.getAllJobs()).map((job) => job.id)).toEqual(['job_1']);
+    expect(await service.getAllAppointments()).toHaveLength(1);
+    expect(await service.getAllCalls()).toHaveLength(1);
+  });
+
+  it('refuses to restore a record while its customer is archived', async () => {
+    await service.archiveCustomer('customer_1');
+
+    await expect(service.restoreJob('job_1')).rejects.toThrow('Restore Maria Garcia first');
+  });
+
+  it('rejects new jobs and appointments for archived records', async () => {
+    await service.archiveJob('job_1');
+
+    await expect(service.createAppointment({
+      jobId: 'job_1',
+      startAt: timestamp,
+      endAt,
+      bay: 'bay-1',
+    })).rejects.toThrow('Job "Brake service" is archived');
+
+    await service.archiveCustomer('customer_1');
+
+    await expect(service.createJob({
+      title: 'Tire rotation',
+      customerId: 'customer_1',
+      vehicleId: 'vehicle_1',
+      estHours: 1,
+      priority: 'low',
+      status: 'scheduled',
+    })).rejects.toThrow('Maria Garcia is archived');
+  });
+});
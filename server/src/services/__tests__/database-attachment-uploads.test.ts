@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DatabaseService } from '../database';
+import { UploadRejectedError } from '../errors';
+import { LocalFileStorage } from '../file-storage';
+import { LocalFileAdapter } from '../persistence';
+
+const timestamp = '2026-10-18T12:00:00.000Z';
+
+const exists = (filePath: string) => fs.access(filePath).then(() => true, () => false);
+
+describe('DatabaseService attachment uploads', () => {
+  let uploadDir: string;
+  let storage: LocalFileStorage;
+  let service: DatabaseService;
+
+  beforeEach(async () => {
+    uploadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'job-uploads-'));
+    storage = new LocalFileStorage(uploadDir);
+    const store = new LocalFileAdapter();
+    service = new DatabaseService(store, storage);
+
+    await store.transact([
+      { kind: 'update', entity: 'customers', id: 'customer_1', data: { name: 'Maria Garcia', phone: '555-0101', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'vehicles', id: 'vehicle_1', data: { customerId: 'customer_1', year: 2018, make: 'Honda', model: 'Civic', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'jobs', id: 'job_1', data: { customerId: 'customer_1', vehicleId: 'vehicle_1', title: 'Bumper repair', status: 'in-bay', priority: 'medium', estHours: 3, createdAt: timestamp, updatedAt: timestamp } },
+    ]);
+  });
+
+  afterEach(async () => {
+    await fs.rm(uploadDir, { recursive: true, force: true });
+  });
+
+  it('stores photos with a thumbnail and lists them on the vehicle', async () => {
+    const buffer = await sharp({ create: { width: 1200, height: 800, channels: 3, background: '#c0392b' } }).jpeg().toBuffer();
+
+    const photo = await service.uploadJobAttachment('job_1', { stage: 'before' }, {
+      originalName: 'front-bumper.jpg',
+      mimeType: 'image/jpeg',
+      buffer,
+    });
+
+    expect(photo).toMatchObject({
+      label: 'front-bumper.jpg',
+      type: 'photo',
+      stage: 'before',
+      file: { fileName: 'front-bumper.jpg', mimeType: 'image/jpeg', size: buffer.length, hasThumbnail: true },
+    });
+
+    const thumbnail = await sharp(service.getJobAttachmentFilePath(photo!, 'thumbnail')!).metadata();
+    expect(Math.max(thumbnail.width ?? 0, thumbnail.height ?? 0)).toBe(320);
+    expect(await service.getVehicleAttachments('vehicle_1')).toEqual([photo]);
+  });
+
+  it('rejects files whose contents do not match their type', async () => {
+    const upload = service.uploadJobAttachment('job_1', {}, {
+      originalName: 'estimate.png',
+      mimeType: 'image/png',
+      buffer: Buffer.from('%PDF-1.7 not an image'),
+    });
+
+    await expect(upload).rejects.toBeInstanceOf(UploadRejectedError);
+    expect(await fs.readdir(uploadDir)).toEqual([]);
+  });
+
+  it('removes the files with the attachment and with a cascaded job delete', async () => {
+    const pdf = await service.uploadJobAttachment('job_1', { label: 'Estimate' }, {
+      originalName: 'estimate.pdf',
+      mimeType: 'application/pdf',
+      buffer: Buffer.from('%PDF-1.7\n%%EOF'),
+    });
+    const filePath = service.getJobAttachmentFilePath(pdf!)!;
+    expect(pdf).toMatchObject({ type: 'document', file: { hasThumbnail: false } });
+    expect(await exists(filePath)).toBe(true);
+
+    await service.deleteJobAttachment(pdf!.id);
+    expect(await exists(filePath)).toBe(false);
+
+    const again = await service.uploadJobAttachment('job_1', {}, {
+      originalName: 'invoice.pdf',
+      mimeType: 'application/pdf',
+      buffer: Buffer.from('%PDF-1.7\n%%EOF'),
+    });
+    await service.deleteJob('job_1', { cascade: true });
+    expect(await exists(service.getJobAttachmentFilePath(again!)!)).toBe(false);
+  });
+});
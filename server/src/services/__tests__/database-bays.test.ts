@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DatabaseService } from '../database';
+import { LocalFileAdapter } from '../persistence';
+import { DEFAULT_BAYS } from '../../../../shared/bays';
+
+const timestamp = '2026-10-18T12:00:00.000Z';
+const outsideHours = { allowOutsideHours: true };
+
+describe('DatabaseService bay bookings', () => {
+  let store: LocalFileAdapter;
+  let service: DatabaseService;
+
+  beforeEach(async () => {
+    store = new LocalFileAdapter();
+    service = new DatabaseService(store);
+
+    await service.createOrUpdateShopSettings({
+      bays: [
+        DEFAULT_BAYS[0],
+        { ...DEFAULT_BAYS[1], isActive: false },
+        { id: 'bay-3', name: 'Alignment', shortCode: 'AL', isActive: true, supportsHeavyDuty: false, notes: '' },
+      ],
+    });
+
+    await store.transact([
+      { kind: 'update', entity: 'customers', id: 'customer_1', data: { name: 'Maria Garcia', phone: '555-0101', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'vehicles', id: 'vehicle_1', data: { customerId: 'customer_1', year: 2018, make: 'Honda', model: 'Civic', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'jobs', id: 'job_1', data: { customerId: 'customer_1', vehicleId: 'vehicle_1', title: 'Oil change', status: 'scheduled', priority: 'low', estHours: 1, createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'jobs', id: 'job_diesel', data: { customerId: 'customer_1', vehicleId: 'vehicle_1', title: 'Diesel injector service', status: 'scheduled', priority: 'high', estHours: 3, requiredCapabilities: ['heavy-duty'], createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'appointments', id: 'appt_1', data: { jobId: 'job_1', bay: 'bay-2', startAt: '2026-10-12T14:00:00.000Z', endAt: '2026-10-12T15:00:00.000Z', createdAt: timestamp, updatedAt: timestamp } },
+    ]);
+  });
+
+  it('books into a bay added in shop settings', async () => {
+    const result = await service.createAppointment(
+      { jobId: 'job_1', bay: 'bay-3', startAt: '2026-10-20T14:00:00.000Z', endAt: '2026-10-20T15:00:00.000Z' },
+      outsideHours
+    );
+
+    expect(result.appointment.bay).toBe('bay-3');
+  });
+
+  it('rejects bays that are inactive or not configured', async () => {
+    await expect(service.createAppointment(
+      { jobId: 'job_1', bay: 'bay-2', startAt: '2026-10-20T14:00:00.000Z', endAt: '2026-10-20T15:00:00.000Z' },
+      outsideHours
+    )).rejects.toThrow('Bay 2 is inactive and not taking new bookings');
+
+    await expect(service.createAppointment(
+      { jobId: 'job_1', bay: 'bay-9', startAt: '2026-10-20T14:00:00.000Z', endAt: '2026-10-20T15:00:00.000Z' },
+      outsideHours
+    )).rejects.toThrow("bay-9 is not one of the shop's configured bays");
+  });
+
+  it('keeps appointments in a deactivated bay but will not move them within it', async () => {
+    expect((await service.getAllAppointments()).map((appointment) => appointment.bay)).toEqual(['bay-2']);
+
+    await expect(service.updateAppointment(
+      'appt_1',
+      { startAt: '2026-10-21T14:00:00.000Z', endAt: '2026-10-21T15:00:00.000Z' },
+      outsideHours
+    )).rejects.toThrow('Bay 2 is inactive');
+
+    const moved = await service.updateAppointment('appt_1', { bay: 'bay-1' }, outsideHours);
+    expect(moved?.appointment.bay).toBe('bay-1');
+  });
+
+  it('only books jobs that need a heavy-duty lift into bays that have one', async () => {
+    // Only the default Bay 2 has a heavy-duty lift
+    await service.createOrUpdateShopSettings({ bays: DEFAULT_BAYS });
+
+    await expect(service.createAppointment(
+      { jobId: 'job_diesel', bay: 'bay-1', startAt: '2026-10-20T14:00:00.000Z', endAt: '2026-10-20T17:00:00.000Z' },
+      outsideHours
+    )).rejects.toThrow('Bay 1 is missing what this job needs: Heavy-duty lift');
+
+    const booked = await service.createAppointment(
+      { jobId: 'job_diesel', bay: 'bay-2', startAt: '2026-10-20T14:00:00.000Z', endAt: '2026-10-20T17:00:00.000Z' },
+      outsideHours
+    );
+    expect(booked.appointment.bay).toBe('bay-2');
+
+    await expect(service.updateAppointment(booked.appointment.id, { bay: 'bay-1' }, outsideHours))
+      .rejects.toThrow('Heavy-duty lift');
+  });
+});
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DatabaseService } from '../database';
+import { LocalFileAdapter } from '../persistence';
+
+const timestamp = '2026-10-18T12:00:00.000Z';
+
+describe('DatabaseService invoicing', () => {
+  let store: LocalFileAdapter;
+  let service: DatabaseService;
+
+  beforeEach(async () => {
+    store = new LocalFileAdapter();
+    service = new DatabaseService(store);
+
+    await store.transact([
+      { kind: 'update', entity: 'customers', id: 'customer_1', data: { name: 'Maria Garcia', phone: '555-0101', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'vehicles', id: 'vehicle_1', data: { customerId: 'customer_1', year: 2018, make: 'Honda', model: 'Civic', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'jobs', id: 'job_1', data: { customerId: 'customer_1', vehicleId: 'vehicle_1', title: 'Brake job', status: 'completed', priority: 'medium', estHours: 2, createdAt: timestamp, updatedAt: timestamp } },
+    ]);
+
+    await service.saveEstimate('job_1', {
+      lineItems: [{ type: 'labor', description: 'Replace pads', quantity: 2, unitPrice: 120, taxable: false }],
+    });
+    await service.approveEstimate('job_1', 'Maria Garcia');
+  });
+
+  it('issues a fresh invoice number after the previous invoice is voided', async () => {
+    const first = await service.createInvoiceFromEstimate('job_1');
+    await service.updateInvoiceStatus(first!.id, 'void');
+
+    expect((await service.getJob('job_1'))?.invoiceNumber).toBeUndefined();
+
+    const second = await service.createInvoiceFromEstimate('job_1');
+    expect(second?.invoiceNumber).not.toBe(first?.invoiceNumber);
+    expect((await service.getJob('job_1'))?.invoiceNumber).toBe(second?.invoiceNumber);
+  });
+});
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DatabaseService } from '../database';
+import { DeleteBlockedError } from '../errors';
+import { LocalFileAdapter } from '../persistence';
+
+const timestamp = '2026-10-18T12:00:00.000Z';
+const endAt = '2026-10-18T14:00:00.000Z';
+
+describe('DatabaseService deletes', () => {
+  let store: LocalFileAdapter;
+  let service: DatabaseService;
+
+  beforeEach(async () => {
+    store = new LocalFileAdapter();
+    service = new DatabaseService(store);
+
+    await store.transact([
+      { kind: 'update', entity: 'customers', id: 'customer_1', data: { name: 'Maria Garcia', phone: '555-0101', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'customers', id: 'customer_2', data: { name: 'Tom Baker', phone: '555-0102', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'vehicles', id: 'vehicle_1', data: { customerId: 'customer_1', year: 2018, make: 'Honda', model: 'Civic', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'jobs', id: 'job_1', data: { customerId: 'customer_1', vehicleId: 'vehicle_1', title: 'Brake service', status: 'scheduled', priority: 'medium', estHours: 2, createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'appointments', id: 'appointment_1', data: { jobId: 'job_1', startAt: timestamp, endAt, bay: 'bay-1', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'calls', id: 'call_1', data: { customerId: 'customer_1', vehicleId: 'vehicle_1', jobId: 'job_1', createdAt: timestamp, updatedAt: timestamp } },
+    ]);
+  });
+
+  it('refuses to delete a technician still assigned to work', async () => {
+    await store.transact([
+      { kind: 'update', entity: 'technicians', id: 'tech_1', data: { name: 'Sam Ortiz', skills: '[]', isActive: true, createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'technicians', id: 'tech_2', data: { name: 'Lee Park', skills: '[]', isActive: true, createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'jobs', id: 'job_1', data: { technicianId: 'tech_1' } },
+      { kind: 'update', entity: 'appointments', id: 'appointment_1', data: { technicianId: 'tech_1' } },
+    ]);
+
+    const error = await service.deleteTechnician('tech_1').catch((caught) => caught);
+    expect(error).toBeInstanceOf(DeleteBlockedError);
+    expect(error.message).toBe('Sam Ortiz still has 1 job and 1 appointment');
+    expect(await store.find('technicians', { id: 'tech_1' })).toHaveLength(1);
+
+    expect(await service.deleteTechnician('tech_2')).toBe(true);
+    expect(await store.find('technicians', { id: 'tech_2' })).toEqual([]);
+  });
+
+  it('refuses to delete a customer that still has records and reports what is in the way', async () => {
+    const error = await service.deleteCustomer('customer_1').catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(DeleteBlockedError);
+    expect(error.message).toBe('Maria Garcia still has 1 vehicle, 1 job and 1 call');
+    expect(error.dependencies).toEqual({ vehicles: 1, jobs: 1, calls: 1 });
+    expect(await store.find('customers', { id: 'customer_1' })).toHaveLength(1);
+  });
+
+  it('cascades a customer delete through vehicles, jobs, appointments and calls', async () => {
+    await service.deleteCustomer('customer_1', { cascade: true });
+
+    expect(await store.find('customers')).toEqual([expect.objectContaining({ id: 'customer_2' })]);
+    expect(await store.find('vehicles')).toEqual([]);
+    expect(await store.find('jobs')).toEqual([]);
+    expect(await store.find('appointments')).toEqual([]);
+    expect(await store.find('calls')).toEqual([]);
+  });
+
+  it('cascades a job delete by removing appointments and unlinking calls', async () => {
+    await expect(service.deleteJob('job_1')).rejects.toBeInstanceOf(DeleteBlockedError);
+
+    await service.deleteJob('job_1', { cascade: true });
+
+    expect(await store.find('jobs')).toEqual([]);
+    expect(await store.find('appointments')).toEqual([]);
+    expect(await store.find('calls')).toEqual([expect.not.objectContaining({ jobId: expect.anything() })]);
+  });
+
+  it('rejects jobs whose vehicle belongs to a different customer', async () => {
+    await expect(service.createJob({
+      title: 'Oil change',
+      customerId: 'customer_2',
+      vehicleId: 'vehicle_1',
+      estHours: 1,
+      priority: 'low',
+      status: 'scheduled',
+    })).rejects.toThrow('Vehicle does not belong to Tom Baker');
+  });
+
+  it('rejects appointments for a job that does not exist', async () => {
+    await expect(service.createAppointment({
+      jobId: 'job_missing',
+      startAt: timestamp,
+      endAt,
+      bay: 'bay-1',
+    })).rejects.toThrow('Job not found');
+  });
+});
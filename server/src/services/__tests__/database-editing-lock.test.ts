@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DatabaseService } from '../database';
+import { AppointmentLockedError } from '../errors';
+import { LocalFileAdapter } from '../persistence';
+
+const timestamp = '2026-10-18T12:00:00.000Z';
+const outsideHours = { allowOutsideHours: true, allowOverbooking: true };
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000).toISOString();
+
+describe('DatabaseService appointment editing lock', () => {
+  let store: LocalFileAdapter;
+  let service: DatabaseService;
+
+  beforeEach(async () => {
+    store = new LocalFileAdapter();
+    service = new DatabaseService(store);
+
+    await store.transact([
+      { kind: 'update', entity: 'customers', id: 'customer_1', data: { name: 'Maria Garcia', phone: '555-0101', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'vehicles', id: 'vehicle_1', data: { customerId: 'customer_1', year: 2018, make: 'Honda', model: 'Civic', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'jobs', id: 'job_1', data: { customerId: 'customer_1', vehicleId: 'vehicle_1', title: 'Oil change', status: 'scheduled', priority: 'low', estHours: 1, createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'appointments', id: 'appt_soon', data: { jobId: 'job_1', bay: 'bay-1', startAt: minutesFromNow(10), endAt: minutesFromNow(70), createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'appointments', id: 'appt_running', data: { jobId: 'job_1', bay: 'bay-2', startAt: minutesFromNow(-30), endAt: minutesFromNow(30), createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'appointments', id: 'appt_later', data: { jobId: 'job_1', bay: 'bay-2', startAt: minutesFromNow(24 * 60), endAt: minutesFromNow(25 * 60), createdAt: timestamp, updatedAt: timestamp } },
+    ]);
+  });
+
+  it('rejects moving an appointment that starts inside the lock', async () => {
+    const error = await service.updateAppointment(
+      'appt_soon',
+      { startAt: minutesFromNow(120), endAt: minutesFromNow(180) },
+      outsideHours
+    ).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(AppointmentLockedError);
+    expect((error as AppointmentLockedError).lockEditingWithinMinutes).toBe(30);
+    expect((error as Error).message).toContain('inside the 30-minute editing lock');
+    expect((await service.getAppointment('appt_soon'))?.lockOverrides).toBeUndefined();
+  });
+
+  it('records the override reason when a locked appointment is changed anyway', async () => {
+    const result = await service.updateAppointment(
+      'appt_running',
+      { endAt: minutesFromNow(90) },
+      { ...outsideHours, lockOverride: { reason: '  Needs a second road test  ', actor: 'Dana' } }
+    );
+
+    expect(result?.appointment.lockOverrides).toEqual([
+      expect.objectContaining({ action: 'update', reason: 'Needs a second road test', actor: 'Dana' }),
+    ]);
+    expect((await service.getAppointment('appt_running'))?.lockOverrides).toHaveLength(1);
+  });
+
+  it('holds archiving to the same lock', async () => {
+    await expect(service.archiveAppointment('appt_running', 'Front desk'))
+      .rejects.toThrow('This appointment is already in progress');
+
+    const archived = await service.archiveAppointment('appt_running', 'Front desk', { reason: 'Customer took the car' });
+    expect(archived?.archivedAt).toBeDefined();
+    expect(archived?.lockOverrides).toEqual([
+      expect.objectContaining({ action: 'archive', reason: 'Customer took the car', actor: 'Front desk' }),
+    ]);
+  });
+
+  it('archives and records the override in one transaction', async () => {
+    const transact = vi.spyOn(store, 'transact');
+
+    await service.archiveAppointment('appt_soon', 'Front desk', { reason: 'Customer cancelled' });
+
+    expect(transact).toHaveBeenCalledTimes(1);
+    expect((await service.getAppointment('appt_soon'))?.lockOverrides).toHaveLength(1);
+  });
+
+  it('holds purging to the lock and keeps the override on the job', async () => {
+    await expect(service.deleteAppointment('appt_running')).rejects.toBeInstanceOf(AppointmentLockedError);
+    expect(await service.getAppointment('appt_running')).not.toBeNull();
+
+    expect(await service.deleteAppointment('appt_running', { reason: 'Booked twice', actor: 'Dana' })).toBe(true);
+    expect(await service.getAppointment('appt_running')).toBeNull();
+    expect((await service.getJob('job_1'))?.noteEntries).toEqual([
+      expect.objectContaining({ author: 'Dana', type: 'internal', content: expect.stringContaining('Booked twice') }),
+    ]);
+
+    expect(await service.deleteAppointment('appt_later')).toBe(true);
+  });
+
+  it('follows the configured lock window', async () => {
+    const moved = await service.updateAppointment('appt_later', { bay: 'bay-1' }, outsideHours);
+    expect(moved?.appointment.lockOverrides).toBeUndefined();
+
+    await service.createOrUpdateShopSettings({
+      schedulingDefaults: {
+        defaultJobDuration: 60,
+        minimumSlotIncrement: 30,
+        bufferMinutes: 0,
+        enableAutoBuffers: false,
+        lockEditingWithinMinutes: 5,
+        allowSameDayScheduling: true,
+        overbookingPolicy: 'soft',
+      },
+    });
+
+    const soon = await service.updateAppointment('appt_soon', { bay: 'bay-2' }, outsideHours);
+    expect(soon?.appointment.bay).toBe('bay-2');
+  });
+});
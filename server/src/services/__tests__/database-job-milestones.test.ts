@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DatabaseService } from '../database';
+import { LocalFileAdapter } from '../persistence';
+
+const timestamp = '2026-10-18T12:00:00.000Z';
+
+describe('DatabaseService job milestones and attachments', () => {
+  let store: LocalFileAdapter;
+  let service: DatabaseService;
+
+  beforeEach(async () => {
+    store = new LocalFileAdapter();
+    service = new DatabaseService(store);
+
+    await store.transact([
+      { kind: 'update', entity: 'customers', id: 'customer_1', data: { name: 'Maria Garcia', phone: '555-0101', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'vehicles', id: 'vehicle_1', data: { customerId: 'customer_1', year: 2018, make: 'Honda', model: 'Civic', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'jobs', id: 'job_1', data: { customerId: 'customer_1', vehicleId: 'vehicle_1', title: 'Brake service', status: 'in-bay', priority: 'medium', estHours: 2, createdAt: timestamp, updatedAt: timestamp } },
+    ]);
+  });
+
+  it('stamps completion when a milestone is ticked off and clears it when reopened', async () => {
+    const milestone = await service.createJobMilestone('job_1', { title: 'Replace pads', assignedTo: 'Sam' });
+    expect(milestone).toMatchObject({ jobId: 'job_1', status: 'pending', assignedTo: 'Sam' });
+    expect(milestone?.completedAt).toBeUndefined();
+
+    const completed = await service.updateJobMilestone(milestone!.id, { status: 'completed' });
+    expect(completed?.completedAt).toEqual(expect.any(String));
+
+    const reopened = await service.updateJobMilestone(milestone!.id, { status: 'in-progress', assignedTo: '' });
+    expect(reopened?.completedAt).toBeUndefined();
+    expect(reopened?.assignedTo).toBeUndefined();
+
+    const [stored] = await service.getJobMilestones('job_1');
+    expect(stored).not.toHaveProperty('completedAt');
+    expect(stored).not.toHaveProperty('assignedTo');
+  });
+
+  it('returns null when adding a milestone to a job that does not exist', async () => {
+    expect(await service.createJobMilestone('job_missing', { title: 'Road test' })).toBeNull();
+  });
+
+  it('only accepts web links as attachments', async () => {
+    await expect(service.createJobAttachment('job_1', {
+      label: 'Estimate',
+      type: 'document',
+      url: 'javascript:alert(1)',
+    })).rejects.toThrow('Attachment links must start with http:// or https://');
+
+    const attachment = await service.createJobAttachment('job_1', {
+      label: 'Estimate',
+      type: 'document',
+      url: 'https://files.example.com/estimate.pdf',
+    });
+    expect(await service.getJobAttachments('job_1')).toEqual([attachment]);
+  });
+});
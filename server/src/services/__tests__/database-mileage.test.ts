@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DatabaseService } from '../database';
+import { LocalFileAdapter } from '../persistence';
+
+const timestamp = '2026-10-18T12:00:00.000Z';
+
+describe('DatabaseService odometer readings', () => {
+  let store: LocalFileAdapter;
+  let service: DatabaseService;
+
+  beforeEach(async () => {
+    store = new LocalFileAdapter();
+    service = new DatabaseService(store);
+
+    await store.transact([
+      { kind: 'update', entity: 'customers', id: 'customer_1', data: { name: 'Maria Garcia', phone: '555-0101', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'vehicles', id: 'vehicle_1', data: { customerId: 'customer_1', year: 2018, make: 'Honda', model: 'Civic', mileage: 40000, createdAt: timestamp, updatedAt: timestamp } },
+      {
+        kind: 'update',
+        entity: 'jobs',
+        id: 'job_1',
+        data: {
+          customerId: 'customer_1', vehicleId: 'vehicle_1', title: 'Oil change', status: 'completed', priority: 'low', estHours: 1,
+          checkInOdometer: { mileage: 40000, recordedAt: '2026-04-11T09:00:00.000Z' },
+          createdAt: timestamp, updatedAt: timestamp,
+        },
+      },
+      { kind: 'update', entity: 'jobs', id: 'job_2', data: { customerId: 'customer_1', vehicleId: 'vehicle_1', title: 'Brake service', status: 'in-bay', priority: 'medium', estHours: 2, createdAt: timestamp, updatedAt: timestamp } },
+    ]);
+  });
+
+  it('stores the reading on the job and moves the vehicle mileage forward', async () => {
+    const result = await service.recordJobOdometer('job_2', { kind: 'check-in', mileage: 43000, recordedAt: '2026-07-10T09:00:00.000Z', recordedBy: ' Sam ' });
+
+    expect(result?.mileageWarning).toBeUndefined();
+    expect((await service.getJob('job_2'))?.checkInOdometer).toEqual({ mileage: 43000, recordedAt: '2026-07-10T09:00:00.000Z', recordedBy: 'Sam' });
+    expect((await service.getVehicle('vehicle_1'))?.mileage).toBe(43000);
+
+    const history = await service.getVehicleMileageHistory('vehicle_1');
+    expect(history?.readings.map((reading) => reading.mileage)).toEqual([40000, 43000]);
+    expect(history?.averageMilesPerDay).toBeCloseTo(33.3);
+  });
+
+  it('saves a lower reading but flags it', async () => {
+    const result = await service.recordJobOdometer('job_2', { kind: 'check-in', mileage: 4300, recordedAt: '2026-07-10T09:00:00.000Z' });
+
+    expect(result?.mileageWarning).toBe('4,300 mi is lower than the check-in reading of 40,000 mi for "Oil change"');
+    expect((await service.getJob('job_2'))?.checkInOdometer?.mileage).toBe(4300);
+  });
+
+  it('returns null for a job or vehicle that does not exist', async () => {
+    expect(await service.recordJobOdometer('job_missing', { kind: 'check-out', mileage: 1 })).toBeNull();
+    expect(await service.getVehicleMileageHistory('vehicle_missing')).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DatabaseService } from '../database';
+import { LocalFileAdapter } from '../persistence';
+
+const timestamp = '2026-10-18T12:00:00.000Z';
+
+const callStartTimes: Record<string, string | undefined> = {
+  call_1: '2026-10-18T09:00:00.000Z',
+  call_2: '2026-10-18T10:00:00.000Z',
+  call_3: '2026-10-18T10:00:00.000Z',
+  call_4: '2026-10-18T10:00:00.000Z',
+  call_5: '2026-10-18T11:00:00.000Z',
+  call_6: undefined,
+  call_7: '2026-10-17T11:00:00.000Z',
+};
+
+describe('DatabaseService paging', () => {
+  let service: DatabaseService;
+
+  beforeEach(async () => {
+    const store = new LocalFileAdapter();
+    service = new DatabaseService(store);
+
+    await store.transact(Object.entries(callStartTimes).map(([id, callStartTime]) => ({
+      kind: 'update' as const,
+      entity: 'calls' as const,
+      id,
+      data: { phoneNumber: '555-0101', callStartTime, callOutcome: 'scheduled', createdAt: callStartTime ?? timestamp, updatedAt: timestamp },
+    })));
+  });
+
+  const collectPages = async (
+    limit: number,
+    filters: { sort?: 'callStartTime' | 'createdAt'; dateRange?: { start: string; end: string } } = {}
+  ) => {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await service.getCallPage({ sort: 'callStartTime', ...filters, order: 'desc', limit, cursor });
+      ids.push(...page.items.map((call) => call.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return ids;
+  };
+
+  it('walks store-ordered pages across tied values and records missing the sort value', async () => {
+    const expected = ['call_5', 'call_2', 'call_3', 'call_4', 'call_1', 'call_7', 'call_6'];
+
+    expect(await collectPages(2)).toEqual(expected);
+    expect(await collectPages(1)).toEqual(expected);
+
+    const first = await service.getCallPage({ sort: 'callStartTime', order: 'desc', limit: 3 });
+    expect(first.total).toBe(7);
+    expect(await service.getCallPage({ sort: 'callStartTime', order: 'desc' })).toMatchObject({ total: 7, nextCursor: null });
+  });
+
+  it('keeps a date range filter when paging on the same attribute', async () => {
+    const ids = await collectPages(2, {
+      sort: 'createdAt',
+      dateRange: { start: '2026-10-18T00:00:00.000Z', end: '2026-10-18T11:30:00.000Z' },
+    });
+    expect(ids).toEqual(['call_5', 'call_2', 'call_3', 'call_4', 'call_1']);
+  });
+});
@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DatabaseService } from '../database';
+import { DuplicateVinError } from '../errors';
+import { LocalFileAdapter } from '../persistence';
+
+const timestamp = '2026-10-18T12:00:00.000Z';
+const vin = '1HGCM82673A123456';
+
+describe('DatabaseService vehicle VINs', () => {
+  let store: LocalFileAdapter;
+  let service: DatabaseService;
+
+  beforeEach(async () => {
+    store = new LocalFileAdapter();
+    service = new DatabaseService(store);
+
+    await store.transact([
+      { kind: 'update', entity: 'customers', id: 'customer_1', data: { name: 'Maria Garcia', phone: '555-0101', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'customers', id: 'customer_2', data: { name: 'Dev Patel', phone: '555-0102', createdAt: timestamp, updatedAt: timestamp } },
+      { kind: 'update', entity: 'vehicles', id: 'vehicle_1', data: { customerId: 'customer_1', year: 2003, make: 'Honda', model: 'Accord', vin, archivedAt: timestamp, createdAt: timestamp, updatedAt: timestamp } },
+    ]);
+  });
+
+  it('refuses a VIN already on file for another customer, even on an archived vehicle', async () => {
+    const attempt = service.createVehicle({ customerId: 'customer_2', year: 2003, make: 'Honda', model: 'Accord', vin: '1hgcm8-2673a123456' });
+
+    await expect(attempt).rejects.toBeInstanceOf(DuplicateVinError);
+    await expect(attempt).rejects.toThrow(`VIN ${vin} is already on file for an archived 2003 Honda Accord (Maria Garcia)`);
+  });
+
+  it('stores VINs normalized and rejects a bad check digit', async () => {
+    await expect(service.createVehicle({ customerId: 'customer_2', year: 1989, make: 'Chevrolet', model: 'Blazer', vin: '1M8GDM9A1KP042788' }))
+      .rejects.toThrow('VIN check digit does not match');
+
+    const vehicle = await service.createVehicle({ customerId: 'customer_2', year: 1989, make: 'Chevrolet', model: 'Blazer', vin: '1m8gdm9axkp042788' });
+    expect(vehicle.vin).toBe('1M8GDM9AXKP042788');
+  });
+
+  it('lets a vehicle keep its own VIN and clears it when blanked', async () => {
+    const updated = await service.updateVehicle('vehicle_1', { mileage: 120000, vin });
+    expect(updated?.vin).toBe(vin);
+
+    await service.updateVehicle('vehicle_1', { vin: '' });
+    expect(await service.getVehicle('vehicle_1')).not.toHaveProperty('vin');
+  });
+});
@@ -1,43 +1,183 @@
-import { db, generateId, getCurrentTimestamp } from '../config/instantdb';
+import path from 'path';
+import { generateId, getCurrentTimestamp } from '../config/instantdb';
 import {
   Appointment,
+  AppointmentBookingOptions,
+  AppointmentBookingResult,
+  AppointmentConflict,
+  AppointmentQueryFilters,
+  ArchivableEntity,
+  AttachmentUpload,
+  ArchiveMetadata,
   Bay,
-  BayConfigurationItem,
+  BillingLineItem,
   Call,
   CallOutcome,
   CallQueryFilters,
   CallServicePriority,
   CallStatus,
+  Communication,
+  CommunicationQueryFilters,
   CreateAppointmentRequest,
   CreateCallRequest,
+  CreateCommunicationRequest,
   CreateCustomerRequest,
+  CreateFollowUpTaskRequest,
+  CreateJobAttachmentRequest,
+  CreateJobMilestoneRequest,
   CreateJobRequest,
+  CreatePartsOrderRequest,
+  CreateTechnicianRequest,
   CreateVehicleRequest,
   Customer,
   CustomerQueryFilters,
+  DeleteOptions,
+  DependencySummary,
+  Estimate,
+  FollowUpQueryFilters,
+  FollowUpTask,
+  Invoice,
+  InvoiceQueryFilters,
+  InvoiceStatus,
   Job,
+  JobAttachment,
+  JobBilling,
+  JobMilestone,
   JobNote,
   JobPriority,
   JobQueryFilters,
   JobStatus,
+  JobStatusEvent,
+  JobUpdateOptions,
+  OdometerReading,
+  OdometerReadingResult,
+  PartsOrder,
+  RecordOdometerRequest,
+  SaveEstimateRequest,
   SchedulingDefaultsConfig,
   ShopHoursSettings,
+  ShopHoursViolation,
   ShopSettings,
   StatusPalette,
+  Technician,
+  TechnicianQueryFilters,
   UpdateAppointmentRequest,
   UpdateCallRequest,
+  UpdateCommunicationRequest,
   UpdateCustomerRequest,
+  UpdateFollowUpTaskRequest,
+  UpdateJobAttachmentRequest,
+  UpdateJobMilestoneRequest,
   UpdateJobRequest,
+  UpdatePartsOrderRequest,
+  UpdateTechnicianRequest,
   UpdateVehicleRequest,
+  UploadJobAttachmentRequest,
   Vehicle,
+  VehicleMileageHistory,
   VehicleQueryFilters,
   isValidBay,
   isValidCallOutcome,
+  isValidCommunicationDirection,
+  isValidCommunicationType,
+  isValidDateKey,
+  isValidFollowUpPriority,
+  isValidFollowUpStatus,
+  isValidFollowUpTaskType,
   isValidInvoiceNumber,
+  isValidJobAttachmentType,
+  isValidJobMilestoneStatus,
   isValidJobPriority,
   isValidJobStatus,
+  isValidPartsOrderStatus,
   isValidPreferredContact,
+  isValidWorkingHours,
 } from '../types/database';
+import { checkStatusTransition } from '../../../shared/job-status-transitions';
+import { toDateKey } from '../../../shared/parts-orders';
+import {
+  JOB_PHOTO_STAGES,
+  getAttachmentTypeForUpload,
+  getAttachmentUploadError,
+  isAttachmentUploadMimeType,
+  isWebUrl,
+} from '../../../shared/job-attachments';
+import {
+  getCallFollowUpDefaults,
+  getSnoozedDueAt,
+  isFollowUpOpen,
+  isFollowUpOverdue,
+} from '../../../shared/follow-ups';
+import {
+  DEFAULT_TAXABLE,
+  calculateBillingTotals,
+  getNextInvoiceNumber,
+  isValidLineItem,
+} from '../../../shared/billing';
+import { getCallCommunication } from '../../../shared/communications';
+import { formatDependencySummary, hasDependencies, summarizeDependencies } from '../../../shared/record-dependencies';
+import { isArchived, wasArchivedWith } from '../../../shared/archive';
+import { DEFAULT_BAYS, getBayBookingError, getBayCapabilityError } from '../../../shared/bays';
+import { getBufferMinutes } from '../../../shared/buffers';
+import { getCurrentSegment, getJobSegments } from '../../../shared/appointment-segments';
+import {
+  DEFAULT_LOCK_EDITING_MINUTES,
+  getEditingLockMessage,
+  type AppointmentLockOverride,
+  type EditingLockOverride,
+  type LockOverrideAction,
+} from '../../../shared/editing-lock';
+import { getVinError, normalizeVin } from '../../../shared/vin';
+import {
+  getAverageMilesPerDay,
+  getMileageHistory,
+  getMileageRegressionWarning,
+  getPreviousReading,
+  isValidOdometerReadingKind,
+} from '../../../shared/mileage';
+import {
+  clampPageSize,
+  cursorAfter,
+  decodeCursor,
+  isAfterCursor,
+  paginateByCursor,
+  readSortValue,
+  resolveSort,
+  sortRecords,
+  type CallSortField,
+  type CustomerSortField,
+  type JobSortField,
+  type Page,
+  type SortOrder,
+  type SortSpec,
+  type SortValue,
+} from '../../../shared/pagination';
+import type { JobDocumentSource } from '../../../shared/job-documents';
+import {
+  AppointmentConflictError,
+  AppointmentLockedError,
+  DeleteBlockedError,
+  DuplicateVinError,
+  InvalidDateRangeError,
+  JobStatusTransitionError,
+  ShopHoursViolationError,
+  UploadRejectedError,
+} from './errors';
+import { getFileStorage, type LocalFileStorage } from './file-storage';
+import {
+  getPersistenceAdapter,
+  storeTx,
+  type EntityName,
+  type PersistenceAdapter,
+  type StoreOperation,
+  type WhereClause,
+  type WhereCondition,
+} from './persistence';
+import {
+  findOverlappingAppointments,
+  findShopHoursViolations,
+  isValidBookingWindow,
+} from './scheduling';
 
 interface StoredJob extends Omit<Job, 'noteEntries'> {
   noteEntries?: string;
@@ -47,10 +187,73 @@ interface StoredCall extends Omit<Call, 'customerConcerns'> {
   customerConcerns?: string;
 }
 
+interface StoredEstimate extends Omit<Estimate, 'lineItems'> {
+  lineItems: string;
+}
+
+interface StoredInvoice extends Omit<Invoice, 'lineItems'> {
+  lineItems: string;
+}
+
+interface StoredTechnician extends Omit<Technician, 'skills' | 'workingHours'> {
+  skills: string;
+  workingHours: string;
+}
+
+type ArchivableRecord = ArchiveMetadata & {
+  id: string;
+  customerId?: string;
+  vehicleId?: string;
+  jobId?: string;
+};
+
+interface ArchiveTarget {
+  entity: ArchivableEntity;
+  record: ArchivableRecord;
+}
+
+const toArchiveTargets = (entity: ArchivableEntity, records: ArchivableRecord[]): ArchiveTarget[] => (
+  records.map((record) => ({ entity, record }))
+);
+
+interface StoredShopSettings extends Omit<ShopSettings, 'hours' | 'bays' | 'statusPalettes' | 'schedulingDefaults'> {
+  hours: string;
+  bays: string;
+  statusPalettes: string;
+  schedulingDefaults: string;
+}
+
 type QueryResult<T> = {
   [K in keyof T]: T[K];
 };
 
+// Overlapping cascades can touch the same record twice. A delete wins over any update to that record.
+const dedupeOperations = (operations: StoreOperation[]): StoreOperation[] => {
+  const deleted = new Set(
+    operations.filter((operation) => operation.kind === 'delete').map((operation) => `${operation.entity}:${operation.id}`)
+  );
+  const seen = new Set<string>();
+
+  return operations.filter((operation) => {
+    const key = `${operation.entity}:${operation.id}`;
+    if (operation.kind === 'update') {
+      return !deleted.has(key);
+    }
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+interface DeleteCascade {
+  dependencies: DependencySummary;
+  operations: StoreOperation[];
+  // Uploaded attachments whose files are removed from disk once the records are gone
+  uploads: JobAttachment[];
+}
+
 const sanitizeForStorage = <T extends object>(record: T): Record<string, unknown> => {
   const sanitized = { ...(record as Record<string, unknown>) };
   for (const key of Object.keys(sanitized)) {
@@ -70,6 +273,24 @@ const serializeJob = (job: Job): StoredJob => {
   }) as unknown as StoredJob;
 };
 
+const DEFAULT_ACTOR = 'Shop Team';
+
+const buildStatusEvent = (
+  jobId: string,
+  fromStatus: JobStatus | undefined,
+  toStatus: JobStatus,
+  createdAt: string,
+  options: Pick<JobUpdateOptions, 'actor' | 'reason'>
+): JobStatusEvent => ({
+  id: generateId('status'),
+  jobId,
+  fromStatus,
+  toStatus,
+  actor: options.actor?.trim() || DEFAULT_ACTOR,
+  reason: options.reason?.trim() || undefined,
+  createdAt,
+});
+
 const deserializeJob = (record: any): Job => {
   if (!record) {
     return record;
@@ -119,14 +340,278 @@ const deserializeCall = (record: any): Call => {
   } as Call;
 };
 
-const paginate = <T>(items: T[], limit?: number, offset?: number): T[] => {
-  const start = offset ?? 0;
-  if (limit === undefined) {
-    return items.slice(start);
+const serializeTechnician = (technician: Technician): StoredTechnician => {
+  return sanitizeForStorage({
+    ...technician,
+    skills: JSON.stringify(technician.skills),
+    workingHours: JSON.stringify(technician.workingHours),
+  }) as unknown as StoredTechnician;
+};
+
+const deserializeTechnician = (record: any): Technician => {
+  if (!record) {
+    return record;
+  }
+
+  let skills: string[] = [];
+  let workingHours: Technician['workingHours'] = DEFAULT_TECHNICIAN_HOURS;
+  try {
+    skills = record.skills ? JSON.parse(record.skills) : [];
+    workingHours = record.workingHours ? JSON.parse(record.workingHours) : DEFAULT_TECHNICIAN_HOURS;
+  } catch (error) {
+    console.warn('Failed to parse technician skills or working hours, using defaults.', error);
+  }
+
+  return {
+    ...record,
+    skills,
+    workingHours,
+  } as Technician;
+};
+
+const serializeBillingRecord = <T extends Estimate | Invoice>(record: T) => {
+  return sanitizeForStorage({
+    ...record,
+    lineItems: JSON.stringify(record.lineItems),
+  });
+};
+
+const deserializeBillingRecord = <T extends Estimate | Invoice>(record: any): T => {
+  let lineItems: BillingLineItem[] = [];
+  try {
+    lineItems = record.lineItems ? JSON.parse(record.lineItems) : [];
+  } catch (error) {
+    console.warn('Failed to parse billing line items, returning empty array.', error);
+  }
+
+  return {
+    ...record,
+    lineItems,
+  } as T;
+};
+
+const normalizeSkills = (skills: string[] = []): string[] => {
+  const normalized = skills.map((skill) => skill.trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set(normalized));
+};
+
+// Validates a parts order and stamps the ordered/received dates when the status implies them
+const normalizePartsOrder = (order: PartsOrder): PartsOrder => {
+  if (!order.supplier || !order.partNumber) {
+    throw new Error('Supplier and part number are required');
+  }
+  if (!Number.isInteger(order.quantity) || order.quantity < 1) {
+    throw new Error('Quantity must be a whole number of at least 1');
+  }
+  if (typeof order.unitCost !== 'number' || Number.isNaN(order.unitCost) || order.unitCost < 0) {
+    throw new Error('Unit cost must be zero or more');
+  }
+  if (!isValidPartsOrderStatus(order.status)) {
+    throw new Error('Invalid parts order status');
+  }
+
+  const today = toDateKey(new Date());
+  const normalized: PartsOrder = {
+    ...order,
+    description: order.description?.trim() || undefined,
+    notes: order.notes?.trim() || undefined,
+    orderedAt: order.orderedAt || (order.status === 'pending' || order.status === 'cancelled' ? undefined : today),
+    expectedAt: order.expectedAt || undefined,
+    receivedAt: order.status === 'received' ? order.receivedAt || today : undefined,
+  };
+
+  for (const date of [normalized.orderedAt, normalized.expectedAt, normalized.receivedAt]) {
+    if (date && !isValidDateKey(date)) {
+      throw new Error('Parts order dates must use YYYY-MM-DD');
+    }
+  }
+
+  return normalized;
+};
+
+// Validates a milestone and keeps completedAt in step with its status
+const normalizeJobMilestone = (milestone: JobMilestone): JobMilestone => {
+  if (!milestone.title) {
+    throw new Error('Milestone title is required');
+  }
+  if (!isValidJobMilestoneStatus(milestone.status)) {
+    throw new Error('Invalid milestone status');
+  }
+  if (milestone.dueAt && Number.isNaN(new Date(milestone.dueAt).getTime())) {
+    throw new Error('Invalid milestone due date');
+  }
+
+  return {
+    ...milestone,
+    description: milestone.description?.trim() || undefined,
+    assignedTo: milestone.assignedTo?.trim() || undefined,
+    dueAt: milestone.dueAt || undefined,
+    completedAt: milestone.status === 'completed' ? milestone.completedAt || getCurrentTimestamp() : undefined,
+  };
+};
+
+const normalizeJobAttachment = (attachment: JobAttachment): JobAttachment => {
+  if (!attachment.label || !(attachment.url || attachment.file)) {
+    throw new Error('Attachment label and link are required');
+  }
+  if (!isValidJobAttachmentType(attachment.type)) {
+    throw new Error('Invalid attachment type');
+  }
+  if (attachment.url && !isWebUrl(attachment.url)) {
+    throw new Error('Attachment links must start with http:// or https://');
+  }
+  if (attachment.stage && !(JOB_PHOTO_STAGES as readonly string[]).includes(attachment.stage)) {
+    throw new Error('Invalid photo stage');
+  }
+
+  return {
+    ...attachment,
+    stage: attachment.stage || undefined,
+    uploadedBy: attachment.uploadedBy?.trim() || undefined,
+  };
+};
+
+const normalizeFollowUpTask = (task: FollowUpTask): FollowUpTask => {
+  if (!task.callId || !task.title?.trim()) {
+    throw new Error('Call and title are required');
+  }
+  if (!isValidFollowUpTaskType(task.type)) {
+    throw new Error('Invalid follow-up type');
+  }
+  if (!isValidFollowUpPriority(task.priority)) {
+    throw new Error('Invalid follow-up priority');
+  }
+  if (!isValidFollowUpStatus(task.status)) {
+    throw new Error('Invalid follow-up status');
+  }
+  if (!task.dueAt || Number.isNaN(new Date(task.dueAt).getTime())) {
+    throw new Error('Follow-up due date is invalid');
+  }
+
+  return {
+    ...task,
+    title: task.title.trim(),
+    description: task.description?.trim() || undefined,
+    notes: task.notes?.trim() || undefined,
+    assignedTo: task.assignedTo?.trim() || undefined,
+    dueAt: new Date(task.dueAt).toISOString(),
+  };
+};
+
+const normalizeCommunication = (communication: Communication): Communication => {
+  if (!communication.customerId || !communication.body?.trim()) {
+    throw new Error('Customer and message body are required');
+  }
+  if (!isValidCommunicationType(communication.type)) {
+    throw new Error('Invalid communication type');
+  }
+  if (!isValidCommunicationDirection(communication.direction)) {
+    throw new Error('Invalid communication direction');
+  }
+  if (!communication.occurredAt || Number.isNaN(new Date(communication.occurredAt).getTime())) {
+    throw new Error('Communication time is invalid');
+  }
+
+  return {
+    ...communication,
+    subject: communication.subject?.trim() || undefined,
+    body: communication.body.trim(),
+    author: communication.author?.trim() || 'Staff',
+    occurredAt: new Date(communication.occurredAt).toISOString(),
+  };
+};
+
+// List queries skip archived records in the store itself rather than after loading them
+const listWhere = (includeArchived?: boolean): WhereClause => (
+  includeArchived ? {} : { archivedAt: { $isNull: true } }
+);
+
+// Timestamps are stored as ISO strings, so a date range becomes a pair of string bounds
+const toRangeCondition = (range: { start: string; end: string }): WhereCondition => {
+  const start = new Date(range.start);
+  const end = new Date(range.end);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    throw new InvalidDateRangeError('Invalid date range');
+  }
+  return { $gte: start.toISOString(), $lte: end.toISOString() };
+};
+
+const customerListWhere = (filters: CustomerQueryFilters): WhereClause => {
+  const where = listWhere(filters.includeArchived);
+  if (filters.preferredContact?.length) {
+    where.preferredContact = { $in: filters.preferredContact };
+  }
+  return where;
+};
+
+const jobListWhere = (filters: JobQueryFilters): WhereClause => {
+  const where = listWhere(filters.includeArchived);
+  if (filters.status?.length) {
+    where.status = { $in: filters.status };
+  }
+  if (filters.priority?.length) {
+    where.priority = { $in: filters.priority };
+  }
+  if (filters.customerId) {
+    where.customerId = filters.customerId;
+  }
+  if (filters.vehicleId) {
+    where.vehicleId = filters.vehicleId;
+  }
+  if (filters.technicianId) {
+    where.technicianId = filters.technicianId;
+  }
+  if (filters.dateRange) {
+    where.createdAt = toRangeCondition(filters.dateRange);
+  }
+  return where;
+};
+
+const callListWhere = (filters: CallQueryFilters): WhereClause => {
+  const where = listWhere(filters.includeArchived);
+  if (filters.outcome?.length) {
+    where.callOutcome = { $in: filters.outcome };
+  }
+  if (filters.customerId) {
+    where.customerId = filters.customerId;
+  }
+  if (filters.jobId) {
+    where.jobId = filters.jobId;
+  }
+  if (filters.dateRange) {
+    where.createdAt = toRangeCondition(filters.dateRange);
+  }
+  return where;
+};
+
+type RangeCondition = { $gte?: string | number; $lte?: string | number };
+
+const isRangeCondition = (condition: WhereCondition | undefined): condition is RangeCondition => (
+  typeof condition === 'object' && !('$in' in condition) && !('$isNull' in condition)
+);
+
+// Narrows the sort attribute's condition so the store starts at the cursor's value. Without a
+// cursor or range it only excludes records missing the value, which are paged separately.
+const boundSortCondition = (
+  existing: RangeCondition | undefined,
+  order: SortOrder,
+  from: Exclude<SortValue, null> | undefined
+): WhereCondition => {
+  const range: RangeCondition = { ...existing };
+  if (from !== undefined) {
+    if (order === 'asc') {
+      range.$gte = range.$gte !== undefined && range.$gte > from ? range.$gte : from;
+    } else {
+      range.$lte = range.$lte !== undefined && range.$lte < from ? range.$lte : from;
+    }
   }
-  return items.slice(start, start + limit);
+  return range.$gte !== undefined || range.$lte !== undefined ? range : { $isNull: false };
 };
 
+const JOB_DEFAULT_SORT: SortSpec<JobSortField> = { field: 'createdAt', order: 'desc' };
+const CALL_DEFAULT_SORT: SortSpec<CallSortField> = { field: 'callStartTime', order: 'desc' };
+const CUSTOMER_DEFAULT_SORT: SortSpec<CustomerSortField> = { field: 'name', order: 'asc' };
+
 const JOB_ACTIVE_STATUSES: JobStatus[] = [
   'intake',
   'incoming-call',
@@ -136,7 +621,48 @@ const JOB_ACTIVE_STATUSES: JobStatus[] = [
   'waiting-parts',
 ];
 
+const DEFAULT_SHOP_HOURS: ShopHoursSettings = {
+  timezone: 'America/Los_Angeles',
+  days: {
+    monday: { open: '08:00', close: '17:00', closed: false },
+    tuesday: { open: '08:00', close: '17:00', closed: false },
+    wednesday: { open: '08:00', close: '17:00', closed: false },
+    thursday: { open: '08:00', close: '17:00', closed: false },
+    friday: { open: '08:00', close: '17:00', closed: false },
+    saturday: { open: '09:00', close: '14:00', closed: false },
+    sunday: { open: '09:00', close: '14:00', closed: true },
+  },
+  closures: [],
+};
+
+const DEFAULT_TECHNICIAN_HOURS: Technician['workingHours'] = DEFAULT_SHOP_HOURS.days;
+
+const DEFAULT_STATUS_PALETTES: Record<JobStatus, StatusPalette> = {
+  intake: { primary: '#1E293B', accent: '#E2E8F0' },
+  'incoming-call': { primary: '#64748B', accent: '#E2E8F0' },
+  scheduled: { primary: '#2563EB', accent: '#DDE9FF' },
+  'in-progress': { primary: '#0EA5E9', accent: '#CFFAFE' },
+  'in-bay': { primary: '#16A34A', accent: '#D1FADF' },
+  'waiting-parts': { primary: '#EA580C', accent: '#FFE8D5' },
+  completed: { primary: '#0F172A', accent: '#CBD5F5' },
+};
+
+const DEFAULT_SCHEDULING_DEFAULTS: SchedulingDefaultsConfig = {
+  defaultJobDuration: 60,
+  minimumSlotIncrement: 30,
+  bufferMinutes: 10,
+  enableAutoBuffers: true,
+  lockEditingWithinMinutes: DEFAULT_LOCK_EDITING_MINUTES,
+  allowSameDayScheduling: true,
+  overbookingPolicy: 'soft',
+};
+
 export class DatabaseService {
+  constructor(
+    private readonly store: PersistenceAdapter = getPersistenceAdapter(),
+    private readonly files: LocalFileStorage = getFileStorage()
+  ) {}
+
   // Customers
   async createCustomer(data: CreateCustomerRequest): Promise<Customer> {
     if (!isValidPreferredContact(data.preferredContact)) {
@@ -156,20 +682,19 @@ export class DatabaseService {
     };
 
     const storedCustomer = sanitizeForStorage(customer);
-    await db.transact([db.tx.customers[customer.id].update(storedCustomer as any)]);
+    await this.store.transact([storeTx.update('customers', customer.id, storedCustomer)]);
     return customer;
   }
 
   async getCustomer(id: string): Promise<Customer | null> {
-    const result = await db.query({ customers: { $: { where: { id } } } });
-    return (result.customers?.[0] as Customer) ?? null;
+    const result = await this.store.find<Customer>('customers', { id });
+    return result[0] ?? null;
   }
 
-  async getAllCustomers(filters?: CustomerQueryFilters): Promise<Customer[]> {
-    const result = await db.query({ customers: {} });
-    let customers: Customer[] = (result.customers as Customer[] | undefined) ?? [];
+  async getAllCustomers(filters: CustomerQueryFilters = {}): Promise<Customer[]> {
+    let customers = await this.store.find<Customer>('customers', customerListWhere(filters));
 
-    if (filters?.search) {
+    if (filters.search) {
       const needle = filters.search.toLowerCase();
       customers = customers.filter((customer) => (
         customer.name?.toLowerCase().includes(needle) ||
@@ -178,29 +703,78 @@ export class DatabaseService {
       ));
     }
 
-    if (filters?.preferredContact?.length) {
-      const allowed = new Set(filters.preferredContact);
-      customers = customers.filter((customer) => allowed.has(customer.preferredContact));
+    if (typeof filters.hasActiveJobs === 'boolean') {
+      const activeJobs = await this.getAllJobs({ status: JOB_ACTIVE_STATUSES });
+      const customersWithActiveJobs = new Set(activeJobs.map((job) => job.customerId));
+      customers = customers.filter((customer) => customersWithActiveJobs.has(customer.id) === filters.hasActiveJobs);
+    }
+
+    return sortRecords(customers, resolveSort(filters, CUSTOMER_DEFAULT_SORT));
+  }
+
+  // One page of customers for the list endpoint; without a limit the page holds every match.
+  // Search and the active-job filter are not store queries, so those pages are cut in memory.
+  async getCustomerPage(filters: CustomerQueryFilters = {}): Promise<Page<Customer>> {
+    const sort = resolveSort(filters, CUSTOMER_DEFAULT_SORT);
+    if (filters.limit === undefined || filters.search || typeof filters.hasActiveJobs === 'boolean') {
+      return paginateByCursor(await this.getAllCustomers(filters), sort, filters);
+    }
+    return this.findPage('customers', customerListWhere(filters), sort, { ...filters, limit: filters.limit }, (customer: Customer) => customer);
+  }
+
+  // Keyset paging done by the store. The cursor's sort value becomes a bound on the sort attribute,
+  // the store returns the next rows in order, and rows tied with the cursor that were already served
+  // are dropped here. Records missing the sort value come after all others, as in paginateByCursor.
+  private async findPage<R, T extends { id: string }, F extends string>(
+    entity: EntityName,
+    where: WhereClause,
+    sort: SortSpec<F>,
+    query: { limit: number; cursor?: string },
+    toRecord: (raw: R) => T
+  ): Promise<Page<T>> {
+    const existing = where[sort.field];
+    if (existing !== undefined && !isRangeCondition(existing)) {
+      // An equality or $in filter on the sort attribute leaves too few distinct values to bound
+      const records = (await this.store.find<R>(entity, where)).map(toRecord);
+      return paginateByCursor(sortRecords(records, sort), sort, query);
     }
 
-    if (typeof filters?.hasActiveJobs === 'boolean') {
-      const jobs = await this.getAllJobs();
-      const jobsByCustomer = new Map<string, Job[]>();
-      for (const job of jobs) {
-        const list = jobsByCustomer.get(job.customerId) ?? [];
-        list.push(job);
-        jobsByCustomer.set(job.customerId, list);
+    const limit = clampPageSize(query.limit);
+    const after = query.cursor ? decodeCursor(query.cursor) : null;
+    const total = await this.store.count(entity, where);
+    const items: T[] = [];
+
+    if (after?.[0] !== null) {
+      const bounded = { ...where, [sort.field]: boundSortCondition(existing, sort.order, after?.[0]) };
+      for (let batch = limit + 1; ; batch *= 2) {
+        const rows = (await this.store.find<R>(entity, bounded, {
+          order: { field: sort.field, direction: sort.order },
+          limit: batch,
+        })).map(toRecord);
+        const complete = rows.length < batch;
+        // A full batch may cut a run of equal values short, so its last value is left for a wider batch
+        const edge = complete ? undefined : readSortValue(rows[rows.length - 1], sort.field);
+        const fresh = sortRecords(rows.filter((record) => readSortValue(record, sort.field) !== edge), sort)
+          .filter((record) => !after || isAfterCursor(record, sort, after));
+        if (complete || fresh.length > limit) {
+          items.push(...fresh);
+          break;
+        }
       }
+    }
 
-      customers = customers.filter((customer) => {
-        const customerJobs = jobsByCustomer.get(customer.id) ?? [];
-        const hasActive = customerJobs.some((job) => JOB_ACTIVE_STATUSES.includes(job.status));
-        return filters.hasActiveJobs ? hasActive : !hasActive;
-      });
+    if (items.length <= limit && existing === undefined) {
+      const missing = (await this.store.find<R>(entity, { ...where, [sort.field]: { $isNull: true } })).map(toRecord);
+      items.push(...sortRecords(missing, sort).filter((record) => !after || isAfterCursor(record, sort, after)));
     }
 
-    customers = paginate(customers, filters?.limit, filters?.offset);
-    return customers;
+    const pageItems = items.slice(0, limit);
+    const last = pageItems[pageItems.length - 1];
+    return {
+      items: pageItems,
+      total,
+      nextCursor: items.length > limit && last ? cursorAfter(last, sort) : null,
+    };
   }
 
   async updateCustomer(id: string, data: UpdateCustomerRequest): Promise<Customer | null> {
@@ -220,22 +794,74 @@ export class DatabaseService {
     };
 
     const storedCustomer = sanitizeForStorage(updated);
-    await db.transact([db.tx.customers[id].update(storedCustomer as any)]);
+    await this.store.transact([storeTx.update('customers', id, storedCustomer)]);
     return updated;
   }
 
-  async deleteCustomer(id: string): Promise<boolean> {
+  async deleteCustomer(id: string, options: DeleteOptions = {}): Promise<boolean> {
     const existing = await this.getCustomer(id);
     if (!existing) {
       return false;
     }
 
-    await db.transact([db.tx.customers[id].delete()]);
+    const { dependencies, operations, uploads } = await this.getCustomerCascade(id, getCurrentTimestamp());
+    this.assertDeletable(existing.name, dependencies, options);
+
+    await this.store.transact(operations);
+    await this.removeUploadedFiles(uploads);
     return true;
   }
 
+  // Removes the customer's vehicles, jobs, calls, communications and follow-ups along with the customer
+  private async getCustomerCascade(customerId: string, timestamp: string): Promise<DeleteCascade> {
+    const [vehicles, jobs, calls, communications, followUpTasks] = await Promise.all([
+      this.store.find<Vehicle>('vehicles', { customerId }),
+      this.store.find<QueryResult<StoredJob>>('jobs', { customerId }),
+      this.store.find<QueryResult<StoredCall>>('calls', { customerId }),
+      this.store.find<Communication>('communications', { customerId }),
+      this.store.find<FollowUpTask>('followUpTasks', { customerId }),
+    ]);
+    const [vehicleCascades, jobCascades, callOperations] = await Promise.all([
+      Promise.all(vehicles.map((vehicle) => this.getVehicleCascade(vehicle.id, timestamp))),
+      Promise.all(jobs.map((job) => this.getJobCascade(job.id, timestamp))),
+      Promise.all(calls.map((call) => this.getCallDeleteOperations(call.id))),
+    ]);
+
+    return {
+      dependencies: summarizeDependencies({
+        vehicles: vehicles.length,
+        jobs: jobs.length,
+        calls: calls.length,
+        communications: communications.length,
+        followUpTasks: followUpTasks.length,
+      }),
+      operations: dedupeOperations([
+        ...vehicleCascades.flatMap((cascade) => cascade.operations),
+        ...jobCascades.flatMap((cascade) => cascade.operations),
+        ...callOperations.flat(),
+        ...communications.map((communication) => storeTx.delete('communications', communication.id)),
+        ...followUpTasks.map((task) => storeTx.delete('followUpTasks', task.id)),
+        storeTx.delete('customers', customerId),
+      ]),
+      uploads: [
+        ...vehicleCascades.flatMap((cascade) => cascade.uploads),
+        ...jobCascades.flatMap((cascade) => cascade.uploads),
+      ],
+    };
+  }
+
+  private assertDeletable(label: string, dependencies: DependencySummary, options: DeleteOptions): void {
+    if (!options.cascade && hasDependencies(dependencies)) {
+      throw new DeleteBlockedError(
+        `${label} still has ${formatDependencySummary(dependencies)}`,
+        dependencies
+      );
+    }
+  }
+
   // Vehicles
   async createVehicle(data: CreateVehicleRequest): Promise<Vehicle> {
+    const vin = await this.checkVehicleVin(data.vin);
     const timestamp = getCurrentTimestamp();
     const vehicle: Vehicle = {
       id: generateId('veh'),
@@ -246,36 +872,35 @@ export class DatabaseService {
       licensePlate: data.licensePlate,
       mileage: data.mileage,
       color: data.color,
-      vin: data.vin,
+      vin,
       createdAt: timestamp,
       updatedAt: timestamp,
     };
 
     const storedVehicle = sanitizeForStorage(vehicle);
-    await db.transact([db.tx.vehicles[vehicle.id].update(storedVehicle as any)]);
+    await this.store.transact([storeTx.update('vehicles', vehicle.id, storedVehicle)]);
     return vehicle;
   }
 
   async getVehicle(id: string): Promise<Vehicle | null> {
-    const result = await db.query({ vehicles: { $: { where: { id } } } });
-    return (result.vehicles?.[0] as Vehicle) ?? null;
+    const result = await this.store.find<Vehicle>('vehicles', { id });
+    return result[0] ?? null;
   }
 
   async getAllVehicles(filters: VehicleQueryFilters = {}): Promise<Vehicle[]> {
-    const result = await db.query({ vehicles: {} });
-    let vehicles: Vehicle[] = ((result.vehicles as Vehicle[] | undefined) ?? []).map((vehicle) => ({
-      ...vehicle,
-    }));
-
+    const where = listWhere(filters.includeArchived);
     if (filters.ids?.length) {
-      const allowedIds = new Set(filters.ids);
-      vehicles = vehicles.filter((vehicle) => allowedIds.has(vehicle.id));
+      where.id = { $in: filters.ids };
     }
-
     if (filters.customerId) {
-      vehicles = vehicles.filter((vehicle) => vehicle.customerId === filters.customerId);
+      where.customerId = filters.customerId;
+    }
+    if (typeof filters.year === 'number') {
+      where.year = filters.year;
     }
 
+    let vehicles = await this.store.find<Vehicle>('vehicles', where);
+
     if (filters.make) {
       const make = filters.make.toLowerCase();
       vehicles = vehicles.filter((vehicle) => vehicle.make.toLowerCase() === make);
@@ -286,10 +911,6 @@ export class DatabaseService {
       vehicles = vehicles.filter((vehicle) => vehicle.model.toLowerCase() === model);
     }
 
-    if (typeof filters.year === 'number') {
-      vehicles = vehicles.filter((vehicle) => vehicle.year === filters.year);
-    }
-
     if (filters.search) {
       const term = filters.search.toLowerCase();
       vehicles = vehicles.filter((vehicle) => {
@@ -308,9 +929,7 @@ export class DatabaseService {
   }
 
   async getVehiclesByCustomer(customerId: string): Promise<Vehicle[]> {
-    const result = await db.query({ vehicles: {} });
-    const vehicles: Vehicle[] = (result.vehicles as Vehicle[] | undefined) ?? [];
-    return vehicles.filter((vehicle) => vehicle.customerId === customerId);
+    return this.store.find<Vehicle>('vehicles', { ...listWhere(), customerId });
   }
 
   async updateVehicle(id: string, data: UpdateVehicleRequest): Promise<Vehicle | null> {
@@ -324,24 +943,77 @@ export class DatabaseService {
       ...data,
       updatedAt: getCurrentTimestamp(),
     };
+    if (data.vin !== undefined) {
+      updated.vin = await this.checkVehicleVin(data.vin, id);
+    }
 
     const storedVehicle = sanitizeForStorage(updated);
-    await db.transact([db.tx.vehicles[id].update(storedVehicle as any)]);
+    await this.store.transact([storeTx.update('vehicles', id, { ...storedVehicle, vin: updated.vin ?? null })]);
     return updated;
   }
 
-  async deleteVehicle(id: string): Promise<boolean> {
+  async deleteVehicle(id: string, options: DeleteOptions = {}): Promise<boolean> {
     const existing = await this.getVehicle(id);
     if (!existing) {
       return false;
     }
 
-    await db.transact([db.tx.vehicles[id].delete()]);
+    const { dependencies, operations, uploads } = await this.getVehicleCascade(id, getCurrentTimestamp());
+    const label = [existing.year, existing.make, existing.model].filter(Boolean).join(' ') || 'Vehicle';
+    this.assertDeletable(label, dependencies, options);
+
+    await this.store.transact(operations);
+    await this.removeUploadedFiles(uploads);
     return true;
   }
 
+  // A VIN identifies one vehicle, so it can't be on file twice, even under another customer or on
+  // an archived vehicle. Returns the normalized VIN, or undefined when none was given.
+  private async checkVehicleVin(value: string | undefined, vehicleId?: string): Promise<string | undefined> {
+    const vin = value ? normalizeVin(value) : '';
+    if (!vin) {
+      return undefined;
+    }
+    const error = getVinError(vin);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const duplicate = (await this.store.find<Vehicle>('vehicles', { vin }))
+      .find((vehicle) => vehicle.id !== vehicleId);
+    if (duplicate) {
+      const owner = await this.getCustomer(duplicate.customerId);
+      const label = [duplicate.year, duplicate.make, duplicate.model].filter(Boolean).join(' ');
+      throw new DuplicateVinError(
+        `VIN ${vin} is already on file for ${isArchived(duplicate) ? 'an archived ' : ''}${label}`
+          + (owner ? ` (${owner.name})` : ''),
+        duplicate
+      );
+    }
+    return vin;
+  }
+
+  // Removes the vehicle's jobs. Calls about the vehicle stay on the customer's record, unlinked.
+  private async getVehicleCascade(vehicleId: string, timestamp: string): Promise<DeleteCascade> {
+    const [jobs, calls] = await Promise.all([
+      this.store.find<QueryResult<StoredJob>>('jobs', { vehicleId }),
+      this.store.find<QueryResult<StoredCall>>('calls', { vehicleId }),
+    ]);
+    const jobCascades = await Promise.all(jobs.map((job) => this.getJobCascade(job.id, timestamp)));
+
+    return {
+      dependencies: summarizeDependencies({ jobs: jobs.length, calls: calls.length }),
+      operations: dedupeOperations([
+        ...jobCascades.flatMap((cascade) => cascade.operations),
+        ...calls.map((call) => storeTx.update('calls', call.id, { vehicleId: null, updatedAt: timestamp })),
+        storeTx.delete('vehicles', vehicleId),
+      ]),
+      uploads: jobCascades.flatMap((cascade) => cascade.uploads),
+    };
+  }
+
   // Jobs
-  async createJob(data: CreateJobRequest): Promise<Job> {
+  async createJob(data: CreateJobRequest, options: Pick<JobUpdateOptions, 'actor'> = {}): Promise<Job> {
     if (!isValidJobPriority(data.priority)) {
       throw new Error('Invalid job priority');
     }
@@ -355,6 +1027,12 @@ export class DatabaseService {
       throw new Error('Invalid invoice number format');
     }
 
+    await this.assertJobReferences(data.customerId, data.vehicleId);
+
+    if (data.technicianId) {
+      await this.assertTechnicianAssignable(data.technicianId);
+    }
+
     const timestamp = getCurrentTimestamp();
     const job: Job = {
       id: generateId('job'),
@@ -367,57 +1045,41 @@ export class DatabaseService {
       invoiceNumber: data.invoiceNumber,
       notes: data.notes,
       noteEntries: data.noteEntries ?? [],
+      technicianId: data.technicianId,
+      requiredCapabilities: data.requiredCapabilities,
       createdAt: timestamp,
       updatedAt: timestamp,
     };
 
-    await db.transact([db.tx.jobs[job.id].update(serializeJob(job) as any)]);
+    const event = buildStatusEvent(job.id, undefined, status, timestamp, options);
+    await this.store.transact([
+      storeTx.update('jobs', job.id, serializeJob(job)),
+      storeTx.update('jobStatusEvents', event.id, sanitizeForStorage(event)),
+    ]);
     return job;
   }
 
   async getJob(id: string): Promise<Job | null> {
-    const result = await db.query({ jobs: { $: { where: { id } } } });
-    const raw = result.jobs?.[0];
+    const result = await this.store.find<QueryResult<StoredJob>>('jobs', { id });
+    const raw = result[0];
     return raw ? deserializeJob(raw) : null;
   }
 
-  async getAllJobs(filters?: JobQueryFilters): Promise<Job[]> {
-    const result = await db.query({ jobs: {} });
-    let jobs: Job[] = ((result.jobs as QueryResult<StoredJob>[] | undefined) ?? []).map(deserializeJob);
-
-    if (filters?.status?.length) {
-      const allowed = new Set(filters.status);
-      jobs = jobs.filter((job) => allowed.has(job.status));
-    }
-
-    if (filters?.priority?.length) {
-      const allowed = new Set(filters.priority);
-      jobs = jobs.filter((job) => allowed.has(job.priority));
-    }
-
-    if (filters?.customerId) {
-      jobs = jobs.filter((job) => job.customerId === filters.customerId);
-    }
-
-    if (filters?.vehicleId) {
-      jobs = jobs.filter((job) => job.vehicleId === filters.vehicleId);
-    }
+  async getAllJobs(filters: JobQueryFilters = {}): Promise<Job[]> {
+    const result = await this.store.find<QueryResult<StoredJob>>('jobs', jobListWhere(filters));
+    return sortRecords(result.map(deserializeJob), resolveSort(filters, JOB_DEFAULT_SORT));
+  }
 
-    if (filters?.dateRange) {
-      const { start, end } = filters.dateRange;
-      const startDate = new Date(start).getTime();
-      const endDate = new Date(end).getTime();
-      jobs = jobs.filter((job) => {
-        const created = new Date(job.createdAt).getTime();
-        return created >= startDate && created <= endDate;
-      });
+  // One page of jobs for the list endpoint; without a limit the page holds every match
+  async getJobPage(filters: JobQueryFilters = {}): Promise<Page<Job>> {
+    const sort = resolveSort(filters, JOB_DEFAULT_SORT);
+    if (filters.limit === undefined) {
+      return paginateByCursor(await this.getAllJobs(filters), sort, filters);
     }
-
-    jobs = paginate(jobs, filters?.limit, filters?.offset);
-    return jobs;
+    return this.findPage('jobs', jobListWhere(filters), sort, { ...filters, limit: filters.limit }, deserializeJob);
   }
 
-  async updateJob(id: string, data: UpdateJobRequest): Promise<Job | null> {
+  async updateJob(id: string, data: UpdateJobRequest, options: JobUpdateOptions = {}): Promise<Job | null> {
     const existing = await this.getJob(id);
     if (!existing) {
       return null;
@@ -431,6 +1093,13 @@ export class DatabaseService {
       throw new Error('Invalid job priority');
     }
 
+    if (data.status) {
+      const check = checkStatusTransition(existing.status, data.status, options.override);
+      if (!check.allowed) {
+        throw new JobStatusTransitionError(check.message, check.rule, existing.status, data.status);
+      }
+    }
+
     let invoiceNumber = data.invoiceNumber;
     if (invoiceNumber !== undefined) {
       const trimmed = invoiceNumber?.trim() ?? '';
@@ -440,6 +1109,17 @@ export class DatabaseService {
       invoiceNumber = trimmed || undefined;
     }
 
+    if (
+      (data.customerId && data.customerId !== existing.customerId)
+      || (data.vehicleId && data.vehicleId !== existing.vehicleId)
+    ) {
+      await this.assertJobReferences(data.customerId ?? existing.customerId, data.vehicleId ?? existing.vehicleId);
+    }
+
+    if (data.technicianId && data.technicianId !== existing.technicianId) {
+      await this.assertTechnicianAssignable(data.technicianId);
+    }
+
     const noteEntries = data.noteEntries ?? existing.noteEntries ?? [];
     const normalizedNotes = noteEntries.map((note) => ({
       ...note,
@@ -456,101 +1136,1093 @@ export class DatabaseService {
       updatedAt: getCurrentTimestamp(),
     };
 
-    await db.transact([db.tx.jobs[id].update(serializeJob(updated) as any)]);
+    const transactions = [storeTx.update('jobs', id, serializeJob(updated))];
+    if (updated.status !== existing.status) {
+      const event = buildStatusEvent(id, existing.status, updated.status, updated.updatedAt, {
+        actor: options.actor,
+        reason: options.override?.reason ?? options.reason,
+      });
+      transactions.push(storeTx.update('jobStatusEvents', event.id, sanitizeForStorage(event)));
+    }
+
+    // Pausing for parts frees the bay for the rest of the segment; the editing lock does not apply
+    // because the job's own status change is the reason
+    if (options.endCurrentSegment && updated.status === 'waiting-parts' && existing.status !== 'waiting-parts') {
+      const current = getCurrentSegment(await this.getAppointmentsByJob(id));
+      if (current) {
+        transactions.push(storeTx.update('appointments', current.id, sanitizeForStorage({
+          endAt: updated.updatedAt,
+          updatedAt: updated.updatedAt,
+        })));
+      }
+    }
+
+    await this.store.transact(transactions);
     return updated;
   }
 
-  async deleteJob(id: string): Promise<boolean> {
+  async deleteJob(id: string, options: DeleteOptions = {}): Promise<boolean> {
     const existing = await this.getJob(id);
     if (!existing) {
       return false;
     }
 
-    await db.transact([db.tx.jobs[id].delete()]);
+    const { dependencies, operations, uploads } = await this.getJobCascade(id, getCurrentTimestamp());
+    this.assertDeletable(`Job "${existing.title}"`, dependencies, options);
+
+    await this.store.transact(operations);
+    await this.removeUploadedFiles(uploads);
     return true;
   }
 
-  // Appointments
-  async createAppointment(data: CreateAppointmentRequest): Promise<Appointment> {
-    if (!isValidBay(data.bay)) {
-      throw new Error('Invalid bay identifier');
+  // Status history, parts orders, milestones, attachments and the estimate are part of the job
+  // and always go with it.
+  // Appointments are removed, calls and communications are unlinked, and invoices are kept
+  // so issued revenue stays on the books.
+  private async getJobCascade(jobId: string, timestamp: string): Promise<DeleteCascade> {
+    const [history, partsOrders, milestones, attachments, estimate, appointments, calls, communications, invoices] = await Promise.all([
+      this.getJobStatusHistory(jobId),
+      this.getPartsOrders(jobId),
+      this.getJobMilestones(jobId),
+      this.getJobAttachments(jobId),
+      this.getEstimate(jobId),
+      this.store.find<Appointment>('appointments', { jobId }),
+      this.store.find<QueryResult<StoredCall>>('calls', { jobId }),
+      this.store.find<Communication>('communications', { jobId }),
+      this.store.find<QueryResult<StoredInvoice>>('invoices', { jobId }),
+    ]);
+
+    return {
+      dependencies: summarizeDependencies({
+        appointments: appointments.length,
+        calls: calls.length,
+        communications: communications.length,
+        invoices: invoices.length,
+      }),
+      operations: [
+        storeTx.delete('jobs', jobId),
+        ...history.map((event) => storeTx.delete('jobStatusEvents', event.id)),
+        ...partsOrders.map((order) => storeTx.delete('partsOrders', order.id)),
+        ...milestones.map((milestone) => storeTx.delete('jobMilestones', milestone.id)),
+        ...attachments.map((attachment) => storeTx.delete('jobAttachments', attachment.id)),
+        ...(estimate ? [storeTx.delete('estimates', estimate.id)] : []),
+        ...appointments.map((appointment) => storeTx.delete('appointments', appointment.id)),
+        ...calls.map((call) => storeTx.update('calls', call.id, { jobId: null, updatedAt: timestamp })),
+        ...communications.map((communication) => (
+          storeTx.update('communications', communication.id, { jobId: null, updatedAt: timestamp })
+        )),
+      ],
+      uploads: attachments.filter((attachment) => attachment.file),
+    };
+  }
+
+  // Job status history
+  async getJobStatusHistory(jobId: string): Promise<JobStatusEvent[]> {
+    const events = await this.store.find<JobStatusEvent>('jobStatusEvents', { jobId });
+    return events.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async getAllJobStatusEvents(dateRange?: { start: string; end: string }): Promise<JobStatusEvent[]> {
+    return this.store.find<JobStatusEvent>('jobStatusEvents', dateRange ? { createdAt: toRangeCondition(dateRange) } : {});
+  }
+
+  // Parts orders
+  async createPartsOrder(jobId: string, data: CreatePartsOrderRequest): Promise<PartsOrder | null> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      return null;
     }
 
     const timestamp = getCurrentTimestamp();
-    const appointment: Appointment = {
-      id: generateId('appt'),
-      jobId: data.jobId,
-      bay: data.bay,
-      startAt: data.startAt,
-      endAt: data.endAt,
+    const order = normalizePartsOrder({
+      ...data,
+      id: generateId('parts'),
+      jobId,
+      supplier: data.supplier?.trim(),
+      partNumber: data.partNumber?.trim(),
+      status: data.status ?? 'pending',
       createdAt: timestamp,
       updatedAt: timestamp,
-    };
+    });
 
-    await db.transact([db.tx.appointments[appointment.id].update(appointment as any)]);
-    return appointment;
+    await this.store.transact([storeTx.update('partsOrders', order.id, sanitizeForStorage(order))]);
+    return order;
   }
 
-  async getAppointment(id: string): Promise<Appointment | null> {
-    const result = await db.query({ appointments: { $: { where: { id } } } });
-    return (result.appointments?.[0] as Appointment) ?? null;
+  async getPartsOrder(id: string): Promise<PartsOrder | null> {
+    const result = await this.store.find<PartsOrder>('partsOrders', { id });
+    return result[0] ?? null;
   }
 
-  async getAppointmentByJob(jobId: string): Promise<Appointment | null> {
-    const result = await db.query({ appointments: { $: { where: { jobId } } } });
-    return (result.appointments?.[0] as Appointment) ?? null;
+  async getPartsOrders(jobId: string): Promise<PartsOrder[]> {
+    const orders = await this.store.find<PartsOrder>('partsOrders', { jobId });
+    return orders.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
   }
 
-  async getAllAppointments(): Promise<Appointment[]> {
-    const result = await db.query({ appointments: {} });
-    return (result.appointments as Appointment[] | undefined) ?? [];
+  async getAllPartsOrders(): Promise<PartsOrder[]> {
+    return this.store.find<PartsOrder>('partsOrders');
   }
 
-  async updateAppointment(id: string, data: UpdateAppointmentRequest): Promise<Appointment | null> {
-    const existing = await this.getAppointment(id);
+  async updatePartsOrder(id: string, data: UpdatePartsOrderRequest): Promise<PartsOrder | null> {
+    const existing = await this.getPartsOrder(id);
     if (!existing) {
       return null;
     }
 
-    if (data.bay && !isValidBay(data.bay)) {
-      throw new Error('Invalid bay identifier');
-    }
-
-    const updated: Appointment = {
+    const updated = normalizePartsOrder({
       ...existing,
       ...data,
+      supplier: data.supplier?.trim() ?? existing.supplier,
+      partNumber: data.partNumber?.trim() ?? existing.partNumber,
       updatedAt: getCurrentTimestamp(),
-    };
+    });
 
-    await db.transact([db.tx.appointments[id].update(updated as any)]);
+    await this.store.transact([storeTx.update('partsOrders', id, sanitizeForStorage(updated))]);
     return updated;
   }
 
-  async deleteAppointment(id: string): Promise<boolean> {
-    const existing = await this.getAppointment(id);
+  async deletePartsOrder(id: string): Promise<boolean> {
+    const existing = await this.getPartsOrder(id);
     if (!existing) {
       return false;
     }
 
-    await db.transact([db.tx.appointments[id].delete()]);
+    await this.store.transact([storeTx.delete('partsOrders', id)]);
     return true;
   }
 
-  // Calls
-  async createCall(data: CreateCallRequest): Promise<Call> {
-    if (!isValidCallOutcome(data.callOutcome)) {
-      throw new Error('Invalid call outcome');
+  // Job milestones
+  async createJobMilestone(jobId: string, data: CreateJobMilestoneRequest): Promise<JobMilestone | null> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      return null;
     }
 
     const timestamp = getCurrentTimestamp();
-    const call: Call = {
-      id: generateId('call'),
-      callId: data.callId ?? `CALL-${Date.now()}`,
-      customerId: data.customerId,
-      customerName: data.customerName,
-      jobId: data.jobId,
-      vehicleId: data.vehicleId,
-      vehicleYear: data.vehicleYear,
+    const milestone = normalizeJobMilestone({
+      ...data,
+      id: generateId('milestone'),
+      jobId,
+      title: data.title?.trim(),
+      status: data.status ?? 'pending',
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+
+    await this.store.transact([storeTx.update('jobMilestones', milestone.id, sanitizeForStorage(milestone))]);
+    return milestone;
+  }
+
+  async getJobMilestone(id: string): Promise<JobMilestone | null> {
+    const result = await this.store.find<JobMilestone>('jobMilestones', { id });
+    return result[0] ?? null;
+  }
+
+  async getJobMilestones(jobId: string): Promise<JobMilestone[]> {
+    const milestones = await this.store.find<JobMilestone>('jobMilestones', { jobId });
+    return milestones.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async updateJobMilestone(id: string, data: UpdateJobMilestoneRequest): Promise<JobMilestone | null> {
+    const existing = await this.getJobMilestone(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updated = normalizeJobMilestone({
+      ...existing,
+      ...data,
+      title: data.title?.trim() ?? existing.title,
+      status: data.status ?? existing.status,
+      updatedAt: getCurrentTimestamp(),
+    });
+
+    // Blanked fields and the completion stamp of a reopened milestone have to be cleared explicitly
+    await this.store.transact([storeTx.update('jobMilestones', id, {
+      ...sanitizeForStorage(updated),
+      description: updated.description ?? null,
+      dueAt: updated.dueAt ?? null,
+      assignedTo: updated.assignedTo ?? null,
+      completedAt: updated.completedAt ?? null,
+    })]);
+    return updated;
+  }
+
+  async deleteJobMilestone(id: string): Promise<boolean> {
+    const existing = await this.getJobMilestone(id);
+    if (!existing) {
+      return false;
+    }
+
+    await this.store.transact([storeTx.delete('jobMilestones', id)]);
+    return true;
+  }
+
+  // Job attachments
+  async createJobAttachment(jobId: string, data: CreateJobAttachmentRequest): Promise<JobAttachment | null> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      return null;
+    }
+
+    const timestamp = getCurrentTimestamp();
+    const attachment = normalizeJobAttachment({
+      ...data,
+      id: generateId('attachment'),
+      jobId,
+      label: data.label?.trim(),
+      url: data.url?.trim(),
+      uploadedAt: timestamp,
+      updatedAt: timestamp,
+    });
+
+    await this.store.transact([storeTx.update('jobAttachments', attachment.id, sanitizeForStorage(attachment))]);
+    return attachment;
+  }
+
+  // Writes the file (and an image thumbnail) to disk, then records it as an attachment
+  async uploadJobAttachment(
+    jobId: string,
+    data: UploadJobAttachmentRequest,
+    upload: AttachmentUpload
+  ): Promise<JobAttachment | null> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      return null;
+    }
+
+    const uploadError = getAttachmentUploadError({ mimeType: upload.mimeType, size: upload.buffer.length });
+    if (uploadError || !isAttachmentUploadMimeType(upload.mimeType)) {
+      throw new UploadRejectedError(uploadError ?? 'Unsupported file type');
+    }
+
+    const id = generateId('attachment');
+    const { hasThumbnail } = await this.files.save(id, upload.mimeType, upload.buffer);
+    const timestamp = getCurrentTimestamp();
+    const fileName = path.basename(upload.originalName) || 'upload';
+
+    try {
+      const attachment = normalizeJobAttachment({
+        id,
+        jobId,
+        label: data.label?.trim() || fileName,
+        type: getAttachmentTypeForUpload(upload.mimeType),
+        file: { fileName, mimeType: upload.mimeType, size: upload.buffer.length, hasThumbnail },
+        stage: data.stage,
+        uploadedBy: data.uploadedBy,
+        uploadedAt: timestamp,
+        updatedAt: timestamp,
+      });
+
+      await this.store.transact([storeTx.update('jobAttachments', attachment.id, sanitizeForStorage(attachment))]);
+      return attachment;
+    } catch (error) {
+      await this.files.remove(id, upload.mimeType);
+      throw error;
+    }
+  }
+
+  getJobAttachmentFilePath(attachment: JobAttachment, variant: 'original' | 'thumbnail' = 'original'): string | null {
+    if (!attachment.file || (variant === 'thumbnail' && !attachment.file.hasThumbnail)) {
+      return null;
+    }
+    return variant === 'thumbnail'
+      ? this.files.getThumbnailPath(attachment.id)
+      : this.files.getFilePath(attachment.id, attachment.file.mimeType);
+  }
+
+  async getJobAttachment(id: string): Promise<JobAttachment | null> {
+    const result = await this.store.find<JobAttachment>('jobAttachments', { id });
+    return result[0] ?? null;
+  }
+
+  async getJobAttachments(jobId: string): Promise<JobAttachment[]> {
+    const attachments = await this.store.find<JobAttachment>('jobAttachments', { jobId });
+    return attachments.sort((a, b) => new Date(a.uploadedAt).getTime() - new Date(b.uploadedAt).getTime());
+  }
+
+  async updateJobAttachment(id: string, data: UpdateJobAttachmentRequest): Promise<JobAttachment | null> {
+    const existing = await this.getJobAttachment(id);
+    if (!existing) {
+      return null;
+    }
+    if (existing.file && (data.url !== undefined || data.type !== undefined)) {
+      throw new Error('Uploaded files keep their type; upload a new file or add a link instead');
+    }
+
+    const updated = normalizeJobAttachment({
+      ...existing,
+      ...data,
+      label: data.label?.trim() ?? existing.label,
+      url: data.url?.trim() ?? existing.url,
+      updatedAt: getCurrentTimestamp(),
+    });
+
+    await this.store.transact([storeTx.update('jobAttachments', id, {
+      ...sanitizeForStorage(updated),
+      stage: updated.stage ?? null,
+      uploadedBy: updated.uploadedBy ?? null,
+    })]);
+    return updated;
+  }
+
+  async deleteJobAttachment(id: string): Promise<boolean> {
+    const existing = await this.getJobAttachment(id);
+    if (!existing) {
+      return false;
+    }
+
+    await this.store.transact([storeTx.delete('jobAttachments', id)]);
+    await this.removeUploadedFiles([existing]);
+    return true;
+  }
+
+  // Vehicle galleries collect the attachments from every job on the vehicle, newest first
+  async getVehicleAttachments(vehicleId: string): Promise<JobAttachment[] | null> {
+    const vehicle = await this.getVehicle(vehicleId);
+    if (!vehicle) {
+      return null;
+    }
+
+    const jobs = await this.store.find<QueryResult<StoredJob>>('jobs', { vehicleId });
+    const attachments = (await Promise.all(jobs.map((job) => this.getJobAttachments(job.id)))).flat();
+    return attachments.sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
+  }
+
+  // A file that fails to delete is only disk clutter; the record is already gone
+  private async removeUploadedFiles(attachments: JobAttachment[]): Promise<void> {
+    await Promise.all(attachments.map(async (attachment) => {
+      if (!attachment.file) {
+        return;
+      }
+      try {
+        await this.files.remove(attachment.id, attachment.file.mimeType);
+      } catch (error) {
+        console.error(`Failed to remove files for attachment ${attachment.id}:`, error);
+      }
+    }));
+  }
+
+  // Mileage
+  // Odometer readings are stored on the job they were taken for; the vehicle's mileage follows the
+  // newest reading on its trail
+  async recordJobOdometer(jobId: string, data: RecordOdometerRequest): Promise<OdometerReadingResult | null> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      return null;
+    }
+    if (!isValidOdometerReadingKind(data.kind)) {
+      throw new Error('Invalid reading');
+    }
+    if (!Number.isInteger(data.mileage) || data.mileage < 0) {
+      throw new Error('Mileage must be a whole number of miles');
+    }
+
+    const timestamp = getCurrentTimestamp();
+    const reading: OdometerReading = { mileage: data.mileage, recordedAt: data.recordedAt ?? timestamp };
+    if (data.recordedBy?.trim()) {
+      reading.recordedBy = data.recordedBy.trim();
+    }
+
+    const [vehicle, jobs] = await Promise.all([this.getVehicle(job.vehicleId), this.getJobsForVehicle(job.vehicleId)]);
+    const previous = getPreviousReading(getMileageHistory(jobs), reading.recordedAt, { jobId, kind: data.kind });
+    const updated: Job = {
+      ...job,
+      [data.kind === 'check-in' ? 'checkInOdometer' : 'checkOutOdometer']: reading,
+      updatedAt: timestamp,
+    };
+
+    const operations: StoreOperation[] = [storeTx.update('jobs', jobId, serializeJob(updated))];
+    const history = getMileageHistory(jobs.map((candidate) => (candidate.id === jobId ? updated : candidate)));
+    const latest = history[history.length - 1];
+    if (vehicle && latest && vehicle.mileage !== latest.mileage) {
+      operations.push(storeTx.update('vehicles', vehicle.id, { mileage: latest.mileage, updatedAt: timestamp }));
+    }
+    await this.store.transact(operations);
+
+    const mileageWarning = getMileageRegressionWarning(reading.mileage, previous);
+    return mileageWarning ? { job: updated, mileageWarning } : { job: updated };
+  }
+
+  async getVehicleMileageHistory(vehicleId: string): Promise<VehicleMileageHistory | null> {
+    const vehicle = await this.getVehicle(vehicleId);
+    if (!vehicle) {
+      return null;
+    }
+
+    const readings = getMileageHistory(await this.getJobsForVehicle(vehicleId));
+    return { vehicleId, readings, averageMilesPerDay: getAverageMilesPerDay(readings) };
+  }
+
+  // Archived jobs included, so the trail survives a job being archived
+  private async getJobsForVehicle(vehicleId: string): Promise<Job[]> {
+    const jobs = await this.store.find<QueryResult<StoredJob>>('jobs', { vehicleId });
+    return jobs.map(deserializeJob);
+  }
+
+  // Estimates and invoices
+  async getJobBilling(jobId: string): Promise<JobBilling | null> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      return null;
+    }
+
+    const [estimate, invoices] = await Promise.all([
+      this.getEstimate(jobId),
+      this.store.find<QueryResult<StoredInvoice>>('invoices', { jobId })
+        .then((result) => result.map((record) => deserializeBillingRecord<Invoice>(record))),
+    ]);
+    return { estimate, invoices };
+  }
+
+  async getEstimate(jobId: string): Promise<Estimate | null> {
+    const result = await this.store.find<QueryResult<StoredEstimate>>('estimates', { jobId });
+    const raw = result[0];
+    return raw ? deserializeBillingRecord<Estimate>(raw) : null;
+  }
+
+  async getAllInvoices(filters: InvoiceQueryFilters = {}): Promise<Invoice[]> {
+    const where: WhereClause = {};
+    if (filters.status?.length) {
+      where.status = { $in: filters.status };
+    }
+    if (filters.dateRange) {
+      where.issuedAt = toRangeCondition(filters.dateRange);
+    }
+
+    const result = await this.store.find<QueryResult<StoredInvoice>>('invoices', where);
+    const invoices = result.map((record) => deserializeBillingRecord<Invoice>(record));
+    return invoices.sort((a, b) => new Date(a.issuedAt).getTime() - new Date(b.issuedAt).getTime());
+  }
+
+  // Saving line items puts the estimate back into draft so it has to be approved again
+  async saveEstimate(jobId: string, data: SaveEstimateRequest): Promise<Estimate | null> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      return null;
+    }
+
+    const existing = await this.getEstimate(jobId);
+    if (existing?.status === 'invoiced') {
+      throw new Error('Estimate has already been invoiced; void the invoice to revise it');
+    }
+
+    const taxRate = data.taxRate ?? existing?.taxRate ?? 0;
+    if (!Number.isFinite(taxRate) || taxRate < 0 || taxRate > 100) {
+      throw new Error('Tax rate must be between 0 and 100');
+    }
+
+    const lineItems: BillingLineItem[] = (data.lineItems ?? []).map((item) => {
+      if (!isValidLineItem(item)) {
+        throw new Error('Each line item needs a type, description, positive quantity, and non-negative price');
+      }
+      return {
+        id: item.id ?? generateId('line'),
+        type: item.type,
+        description: item.description.trim(),
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        taxable: item.taxable ?? DEFAULT_TAXABLE[item.type],
+      };
+    });
+
+    const timestamp = getCurrentTimestamp();
+    const estimate: Estimate = {
+      id: existing?.id ?? generateId('estimate'),
+      jobId,
+      lineItems,
+      taxRate,
+      status: 'draft',
+      notes: data.notes?.trim() || undefined,
+      ...calculateBillingTotals(lineItems, taxRate),
+      createdAt: existing?.createdAt ?? timestamp,
+      updatedAt: timestamp,
+    };
+
+    await this.store.transact([
+      storeTx.update('estimates', estimate.id, { ...serializeBillingRecord(estimate), approvedAt: null, approvedBy: null }),
+      storeTx.update('jobs', jobId, { estimateTotal: estimate.total, updatedAt: timestamp }),
+    ]);
+    return estimate;
+  }
+
+  async approveEstimate(jobId: string, approvedBy?: string): Promise<Estimate | null> {
+    const existing = await this.getEstimate(jobId);
+    if (!existing) {
+      return null;
+    }
+    if (existing.status !== 'draft' && existing.status !== 'declined') {
+      throw new Error(`Estimate is already ${existing.status}`);
+    }
+    if (existing.lineItems.length === 0) {
+      throw new Error('Add at least one line item before approving the estimate');
+    }
+
+    const timestamp = getCurrentTimestamp();
+    const updated: Estimate = {
+      ...existing,
+      status: 'approved',
+      approvedAt: timestamp,
+      approvedBy: approvedBy?.trim() || 'Customer',
+      updatedAt: timestamp,
+    };
+
+    await this.store.transact([storeTx.update('estimates', existing.id, serializeBillingRecord(updated))]);
+    return updated;
+  }
+
+  async declineEstimate(jobId: string): Promise<Estimate | null> {
+    const existing = await this.getEstimate(jobId);
+    if (!existing) {
+      return null;
+    }
+    if (existing.status === 'invoiced') {
+      throw new Error('Estimate has already been invoiced');
+    }
+
+    const updated: Estimate = {
+      ...existing,
+      status: 'declined',
+      approvedAt: undefined,
+      approvedBy: undefined,
+      updatedAt: getCurrentTimestamp(),
+    };
+
+    await this.store.transact([
+      storeTx.update('estimates', existing.id, { ...serializeBillingRecord(updated), approvedAt: null, approvedBy: null }),
+    ]);
+    return updated;
+  }
+
+  // Converts the approved estimate into an invoice. The number comes from the request, then the job,
+  // and is otherwise the next one in the yearly sequence.
+  async createInvoiceFromEstimate(jobId: string, requestedNumber?: string): Promise<Invoice | null> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      return null;
+    }
+
+    const estimate = await this.getEstimate(jobId);
+    if (!estimate || estimate.status !== 'approved') {
+      throw new Error('Estimate must be approved before it can be invoiced');
+    }
+
+    const [invoices, jobs] = await Promise.all([this.getAllInvoices(), this.getAllJobs()]);
+    const takenNumbers = new Set([
+      ...invoices.map((invoice) => invoice.invoiceNumber),
+      ...jobs.filter((other) => other.id !== jobId).map((other) => other.invoiceNumber).filter(Boolean) as string[],
+    ]);
+
+    const invoiceNumber = requestedNumber?.trim()
+      || job.invoiceNumber
+      || getNextInvoiceNumber(Array.from(takenNumbers));
+    if (!isValidInvoiceNumber(invoiceNumber)) {
+      throw new Error('Invalid invoice number format');
+    }
+    if (takenNumbers.has(invoiceNumber)) {
+      throw new Error(`Invoice number ${invoiceNumber} is already in use`);
+    }
+
+    const timestamp = getCurrentTimestamp();
+    const invoice: Invoice = {
+      id: generateId('invoice'),
+      jobId,
+      estimateId: estimate.id,
+      invoiceNumber,
+      lineItems: estimate.lineItems,
+      taxRate: estimate.taxRate,
+      status: 'issued',
+      issuedAt: timestamp,
+      laborTotal: estimate.laborTotal,
+      partsTotal: estimate.partsTotal,
+      feesTotal: estimate.feesTotal,
+      subtotal: estimate.subtotal,
+      tax: estimate.tax,
+      total: estimate.total,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+
+    await this.store.transact([
+      storeTx.update('invoices', invoice.id, serializeBillingRecord(invoice)),
+      storeTx.update('estimates', estimate.id, { status: 'invoiced', updatedAt: timestamp }),
+      storeTx.update('jobs', jobId, { invoiceNumber, invoiceTotal: invoice.total, updatedAt: timestamp }),
+    ]);
+    return invoice;
+  }
+
+  // Voiding an invoice reopens the estimate so it can be revised and invoiced again. The void invoice
+  // keeps its number, so the job lets go of it and the next invoice takes a fresh one.
+  async updateInvoiceStatus(invoiceId: string, status: Exclude<InvoiceStatus, 'issued'>): Promise<Invoice | null> {
+    const result = await this.store.find<QueryResult<StoredInvoice>>('invoices', { id: invoiceId });
+    const raw = result[0];
+    if (!raw) {
+      return null;
+    }
+
+    const existing = deserializeBillingRecord<Invoice>(raw);
+    if (existing.status === 'void') {
+      throw new Error('Invoice has been voided');
+    }
+    if (existing.status === status) {
+      return existing;
+    }
+
+    const timestamp = getCurrentTimestamp();
+    const updated: Invoice = {
+      ...existing,
+      status,
+      paidAt: status === 'paid' ? timestamp : existing.paidAt,
+      updatedAt: timestamp,
+    };
+
+    const transactions = [storeTx.update('invoices', invoiceId, serializeBillingRecord(updated))];
+    // The job (and its estimate) may have been deleted since the invoice was issued
+    if (status === 'void' && await this.getJob(existing.jobId)) {
+      transactions.push(
+        storeTx.update('estimates', existing.estimateId, { status: 'approved', updatedAt: timestamp }),
+        storeTx.update('jobs', existing.jobId, { invoiceNumber: null, invoiceTotal: null, updatedAt: timestamp }),
+      );
+    }
+
+    await this.store.transact(transactions);
+    return updated;
+  }
+
+  // Job documents
+  // Everything a work order or invoice prints; the invoice defaults to the job's latest one that isn't void
+  async getJobDocumentSource(jobId: string, invoiceId?: string): Promise<JobDocumentSource | null> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      return null;
+    }
+
+    const [customer, vehicle, calls, shop, billing] = await Promise.all([
+      this.getCustomer(job.customerId),
+      this.getVehicle(job.vehicleId),
+      this.getAllCalls({ jobId }),
+      this.getShopSettings(),
+      this.getJobBilling(jobId),
+    ]);
+
+    const invoices = billing?.invoices ?? [];
+    const invoice = invoiceId
+      ? invoices.find((candidate) => candidate.id === invoiceId)
+      : invoices.filter((candidate) => candidate.status !== 'void').pop();
+    const originatingCall = calls
+      .slice()
+      .sort((a, b) => new Date(a.callStartTime).getTime() - new Date(b.callStartTime).getTime())[0];
+
+    return {
+      job,
+      customer,
+      vehicle,
+      call: originatingCall ?? null,
+      shop,
+      invoice: invoice ?? null,
+    };
+  }
+
+  // Appointments
+  async createAppointment(
+    data: CreateAppointmentRequest,
+    options: AppointmentBookingOptions = {}
+  ): Promise<AppointmentBookingResult> {
+    if (!isValidBay(data.bay)) {
+      throw new Error('Invalid bay identifier');
+    }
+
+    if (!isValidBookingWindow(data)) {
+      throw new Error('Appointment end time must be after its start time');
+    }
+
+    await this.assertBookableBay(data.bay);
+    await this.assertBookableJob(data.jobId);
+    await this.assertBayFitsJob(data.bay, data.jobId);
+
+    if (data.technicianId) {
+      await this.assertTechnicianAssignable(data.technicianId);
+    }
+
+    const hoursViolations = await this.checkShopHours(data, options);
+    const conflicts = await this.checkBookingConflicts(data, options);
+
+    const timestamp = getCurrentTimestamp();
+    const appointment: Appointment = {
+      id: generateId('appt'),
+      jobId: data.jobId,
+      bay: data.bay,
+      startAt: data.startAt,
+      endAt: data.endAt,
+      technicianId: data.technicianId,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+
+    await this.store.transact([storeTx.update('appointments', appointment.id, sanitizeForStorage(appointment))]);
+    return { appointment, conflicts, hoursViolations };
+  }
+
+  async getAppointment(id: string): Promise<Appointment | null> {
+    const result = await this.store.find<Appointment>('appointments', { id });
+    return result[0] ?? null;
+  }
+
+  // Every segment the job is booked in, in start order
+  async getAppointmentsByJob(jobId: string): Promise<Appointment[]> {
+    return getJobSegments(await this.getAllAppointments({ jobId }), jobId);
+  }
+
+  async getAllAppointments(filters: AppointmentQueryFilters = {}): Promise<Appointment[]> {
+    const where = listWhere(filters.includeArchived);
+    if (filters.jobId) {
+      where.jobId = filters.jobId;
+    }
+    return this.store.find<Appointment>('appointments', where);
+  }
+
+  async updateAppointment(
+    id: string,
+    data: UpdateAppointmentRequest,
+    options: AppointmentBookingOptions = {}
+  ): Promise<AppointmentBookingResult | null> {
+    const existing = await this.getAppointment(id);
+    if (!existing) {
+      return null;
+    }
+
+    if (data.bay && !isValidBay(data.bay)) {
+      throw new Error('Invalid bay identifier');
+    }
+
+    const lockOverride = await this.checkEditingLock(existing, 'update', options.lockOverride);
+
+    if (data.jobId && data.jobId !== existing.jobId) {
+      await this.assertBookableJob(data.jobId);
+    }
+
+    if (data.technicianId && data.technicianId !== existing.technicianId) {
+      await this.assertTechnicianAssignable(data.technicianId);
+    }
+
+    const updated: Appointment = {
+      ...existing,
+      ...data,
+      ...(lockOverride && { lockOverrides: [...(existing.lockOverrides ?? []), lockOverride] }),
+      updatedAt: getCurrentTimestamp(),
+    };
+
+    if (!isValidBookingWindow(updated)) {
+      throw new Error('Appointment end time must be after its start time');
+    }
+
+    // Only re-check the bay when the booked slot actually moves
+    const slotChanged = updated.bay !== existing.bay
+      || updated.startAt !== existing.startAt
+      || updated.endAt !== existing.endAt;
+    if (slotChanged) {
+      await this.assertBookableBay(updated.bay);
+    }
+    if (updated.bay !== existing.bay || updated.jobId !== existing.jobId) {
+      await this.assertBayFitsJob(updated.bay, updated.jobId);
+    }
+    const hoursViolations = slotChanged
+      ? await this.checkShopHours(updated, options)
+      : [];
+    const conflicts = slotChanged
+      ? await this.checkBookingConflicts(updated, options, id)
+      : [];
+
+    await this.store.transact([storeTx.update('appointments', id, sanitizeForStorage(updated))]);
+    return { appointment: updated, conflicts, hoursViolations };
+  }
+
+  // Appointments starting within the configured editing lock, or already in progress, only change with an
+  // override reason. Returns the override to record, or null when the appointment is not locked.
+  private async checkEditingLock(
+    appointment: Appointment,
+    action: LockOverrideAction,
+    override?: EditingLockOverride
+  ): Promise<AppointmentLockOverride | null> {
+    const settings = await this.getShopSettings();
+    const lockMinutes = settings?.schedulingDefaults?.lockEditingWithinMinutes
+      ?? DEFAULT_SCHEDULING_DEFAULTS.lockEditingWithinMinutes;
+    const message = getEditingLockMessage(appointment, lockMinutes);
+    if (!message) {
+      return null;
+    }
+
+    const reason = override?.reason?.trim();
+    if (!reason) {
+      throw new AppointmentLockedError(`${message}. Enter an override reason to change it anyway.`, lockMinutes);
+    }
+
+    return {
+      action,
+      reason,
+      actor: override?.actor?.trim() || DEFAULT_ACTOR,
+      overriddenAt: getCurrentTimestamp(),
+    };
+  }
+
+  // The bay must be configured in shop settings and still active
+  private async assertBookableBay(bayId: string): Promise<void> {
+    const settings = await this.getShopSettings();
+    const error = getBayBookingError(settings?.bays ?? DEFAULT_BAYS, bayId);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  // Jobs that need a heavy-duty lift, alignment rack, etc. only go in bays that have it
+  private async assertBayFitsJob(bayId: string, jobId: string): Promise<void> {
+    const job = await this.getJob(jobId);
+    if (!job?.requiredCapabilities?.length) {
+      return;
+    }
+    const settings = await this.getShopSettings();
+    const error = getBayCapabilityError(settings?.bays ?? DEFAULT_BAYS, bayId, job.requiredCapabilities);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  private async assertBookableJob(jobId: string): Promise<void> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      throw new Error('Job not found');
+    }
+    if (isArchived(job)) {
+      throw new Error(`Job "${job.title}" is archived`);
+    }
+  }
+
+  // Rejects bookings on closed days, outside open hours, or during closures unless explicitly overridden.
+  // Returns the violations that were accepted through the override.
+  private async checkShopHours(
+    candidate: Pick<Appointment, 'bay' | 'startAt' | 'endAt'>,
+    options: AppointmentBookingOptions
+  ): Promise<ShopHoursViolation[]> {
+    const settings = await this.getShopSettings();
+    const violations = findShopHoursViolations(candidate, settings?.hours ?? DEFAULT_SHOP_HOURS);
+    if (violations.length > 0 && !options.allowOutsideHours) {
+      throw new ShopHoursViolationError(
+        `${violations.map((violation) => violation.message).join('. ')}. Confirm to book outside shop hours anyway.`,
+        violations
+      );
+    }
+
+    return violations;
+  }
+
+  // Applies the configured overbooking policy to any overlapping appointments in the same bay, counting
+  // the turnaround buffer after each one when auto buffers are on.
+  // Returns the overlaps that were accepted; throws when the policy rejects the booking.
+  private async checkBookingConflicts(
+    candidate: Pick<Appointment, 'bay' | 'startAt' | 'endAt'>,
+    options: AppointmentBookingOptions,
+    excludeId?: string
+  ): Promise<AppointmentConflict[]> {
+    const settings = await this.getShopSettings();
+    const bufferMinutes = getBufferMinutes(settings?.schedulingDefaults ?? DEFAULT_SCHEDULING_DEFAULTS);
+    const appointments = await this.getAllAppointments();
+    const overlapping = findOverlappingAppointments(candidate, appointments, excludeId, bufferMinutes);
+    if (overlapping.length === 0) {
+      return [];
+    }
+
+    const jobs = await this.getAllJobs();
+    const jobsById = new Map(jobs.map((job) => [job.id, job] as const));
+    const conflicts: AppointmentConflict[] = overlapping.map((appointment) => ({
+      appointment,
+      job: jobsById.get(appointment.jobId),
+    }));
+
+    const policy = settings?.schedulingDefaults?.overbookingPolicy
+      ?? DEFAULT_SCHEDULING_DEFAULTS.overbookingPolicy;
+    const bayName = settings?.bays?.find((bay) => bay.id === candidate.bay)?.name ?? candidate.bay;
+    const bufferNote = bufferMinutes > 0 ? ` (counting the ${bufferMinutes}-minute buffer after each appointment)` : '';
+    const summary = `${bayName} already has ${conflicts.length} overlapping appointment${conflicts.length === 1 ? '' : 's'}${bufferNote}`;
+
+    if (policy === 'strict') {
+      throw new AppointmentConflictError(`${summary}. Overbooking is not allowed.`, policy, conflicts);
+    }
+
+    if (policy === 'manual' && !options.allowOverbooking) {
+      throw new AppointmentConflictError(`${summary}. Confirm the overbooking to save anyway.`, policy, conflicts);
+    }
+
+    return conflicts;
+  }
+
+  // Purging is held to the editing lock as well. The appointment and its lockOverrides are gone
+  // afterwards, so the override is kept as an internal note on the job instead.
+  async deleteAppointment(id: string, lockOverride?: EditingLockOverride): Promise<boolean> {
+    const existing = await this.getAppointment(id);
+    if (!existing) {
+      return false;
+    }
+
+    const override = await this.checkEditingLock(existing, 'purge', lockOverride);
+    const operations = [storeTx.delete('appointments', id)];
+    const job = override ? await this.getJob(existing.jobId) : null;
+    if (override && job) {
+      const note: JobNote = {
+        id: generateId('note'),
+        author: override.actor,
+        content: `Purged the appointment for ${existing.startAt} inside the editing lock: ${override.reason}`,
+        createdAt: override.overriddenAt,
+        type: 'internal',
+      };
+      operations.push(storeTx.update('jobs', job.id, {
+        noteEntries: JSON.stringify([...(job.noteEntries ?? []), note]),
+        updatedAt: override.overriddenAt,
+      }));
+    }
+
+    await this.store.transact(operations);
+    return true;
+  }
+
+  // Technicians
+  async createTechnician(data: CreateTechnicianRequest): Promise<Technician> {
+    const workingHours = data.workingHours ?? DEFAULT_TECHNICIAN_HOURS;
+    if (!isValidWorkingHours(workingHours)) {
+      throw new Error('Invalid working hours');
+    }
+
+    const timestamp = getCurrentTimestamp();
+    const technician: Technician = {
+      id: generateId('tech'),
+      name: data.name.trim(),
+      skills: normalizeSkills(data.skills),
+      isActive: data.isActive ?? true,
+      workingHours,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+
+    await this.store.transact([storeTx.update('technicians', technician.id, serializeTechnician(technician))]);
+    return technician;
+  }
+
+  async getTechnician(id: string): Promise<Technician | null> {
+    const result = await this.store.find<QueryResult<StoredTechnician>>('technicians', { id });
+    const raw = result[0];
+    return raw ? deserializeTechnician(raw) : null;
+  }
+
+  async getAllTechnicians(filters: TechnicianQueryFilters = {}): Promise<Technician[]> {
+    const where: WhereClause = typeof filters.isActive === 'boolean' ? { isActive: filters.isActive } : {};
+    const result = await this.store.find<QueryResult<StoredTechnician>>('technicians', where);
+    let technicians: Technician[] = result
+      .map(deserializeTechnician);
+
+    // Skills are stored as a JSON string, so the skill filter runs after loading
+    if (filters.skill) {
+      const skill = filters.skill.trim().toLowerCase();
+      technicians = technicians.filter((technician) => technician.skills.includes(skill));
+    }
+
+    return technicians.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async updateTechnician(id: string, data: UpdateTechnicianRequest): Promise<Technician | null> {
+    const existing = await this.getTechnician(id);
+    if (!existing) {
+      return null;
+    }
+
+    if (data.workingHours && !isValidWorkingHours(data.workingHours)) {
+      throw new Error('Invalid working hours');
+    }
+
+    if (data.name !== undefined && !data.name.trim()) {
+      throw new Error('Technician name is required');
+    }
+
+    const updated: Technician = {
+      ...existing,
+      ...data,
+      name: data.name?.trim() ?? existing.name,
+      skills: data.skills ? normalizeSkills(data.skills) : existing.skills,
+      updatedAt: getCurrentTimestamp(),
+    };
+
+    await this.store.transact([storeTx.update('technicians', id, serializeTechnician(updated))]);
+    return updated;
+  }
+
+  // Technicians still assigned to jobs or appointments can't be deleted; mark them inactive instead
+  async deleteTechnician(id: string): Promise<boolean> {
+    const existing = await this.getTechnician(id);
+    if (!existing) {
+      return false;
+    }
+
+    const [jobs, appointments] = await Promise.all([
+      this.store.find<QueryResult<StoredJob>>('jobs', { technicianId: id }),
+      this.store.find<Appointment>('appointments', { technicianId: id }),
+    ]);
+    this.assertDeletable(
+      existing.name,
+      summarizeDependencies({ jobs: jobs.length, appointments: appointments.length }),
+      {}
+    );
+
+    await this.store.transact([storeTx.delete('technicians', id)]);
+    return true;
+  }
+
+  // A job's customer and vehicle must exist and be active, and the vehicle must belong to that customer
+  private async assertJobReferences(customerId: string, vehicleId: string): Promise<void> {
+    const [customer, vehicle] = await Promise.all([
+      this.getCustomer(customerId),
+      this.getVehicle(vehicleId),
+    ]);
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+    if (!vehicle) {
+      throw new Error('Vehicle not found');
+    }
+    if (isArchived(customer)) {
+      throw new Error(`${customer.name} is archived`);
+    }
+    if (isArchived(vehicle)) {
+      throw new Error('Vehicle is archived');
+    }
+    if (vehicle.customerId !== customerId) {
+      throw new Error(`Vehicle does not belong to ${customer.name}`);
+    }
+  }
+
+  // Jobs and appointments may only be assigned to technicians who exist and are active
+  private async assertTechnicianAssignable(technicianId: string): Promise<void> {
+    const technician = await this.getTechnician(technicianId);
+    if (!technician) {
+      throw new Error('Technician not found');
+    }
+    if (!technician.isActive) {
+      throw new Error(`${technician.name} is inactive and cannot be assigned`);
+    }
+  }
+
+  // Calls
+  async createCall(data: CreateCallRequest): Promise<Call> {
+    if (!isValidCallOutcome(data.callOutcome)) {
+      throw new Error('Invalid call outcome');
+    }
+
+    const timestamp = getCurrentTimestamp();
+    const call: Call = {
+      id: generateId('call'),
+      callId: data.callId ?? `CALL-${Date.now()}`,
+      customerId: data.customerId,
+      customerName: data.customerName,
+      jobId: data.jobId,
+      vehicleId: data.vehicleId,
+      vehicleYear: data.vehicleYear,
       vehicleMake: data.vehicleMake,
       vehicleModel: data.vehicleModel,
       phoneNumber: data.phoneNumber,
@@ -575,41 +2247,30 @@ export class DatabaseService {
       updatedAt: timestamp,
     };
 
-    await db.transact([db.tx.calls[call.id].update(serializeCall(call) as any)]);
+    await this.store.transact([storeTx.update('calls', call.id, serializeCall(call))]);
+    await this.ensureCallFollowUp(call);
+    await this.syncCallCommunication(call);
     return call;
   }
 
   async getCall(id: string): Promise<Call | null> {
-    const result = await db.query({ calls: { $: { where: { id } } } });
-    const raw = result.calls?.[0];
+    const result = await this.store.find<QueryResult<StoredCall>>('calls', { id });
+    const raw = result[0];
     return raw ? deserializeCall(raw) : null;
   }
 
-  async getAllCalls(filters?: CallQueryFilters): Promise<Call[]> {
-    const result = await db.query({ calls: {} });
-    let calls: Call[] = ((result.calls as QueryResult<StoredCall>[] | undefined) ?? []).map(deserializeCall);
-
-    if (filters?.outcome?.length) {
-      const allowed = new Set(filters.outcome);
-      calls = calls.filter((call) => allowed.has(call.callOutcome));
-    }
-
-    if (filters?.customerId) {
-      calls = calls.filter((call) => call.customerId === filters.customerId);
-    }
+  async getAllCalls(filters: CallQueryFilters = {}): Promise<Call[]> {
+    const result = await this.store.find<QueryResult<StoredCall>>('calls', callListWhere(filters));
+    return sortRecords(result.map(deserializeCall), resolveSort(filters, CALL_DEFAULT_SORT));
+  }
 
-    if (filters?.dateRange) {
-      const { start, end } = filters.dateRange;
-      const startDate = new Date(start).getTime();
-      const endDate = new Date(end).getTime();
-      calls = calls.filter((call) => {
-        const created = new Date(call.createdAt).getTime();
-        return created >= startDate && created <= endDate;
-      });
+  // One page of calls for the list endpoint; without a limit the page holds every match
+  async getCallPage(filters: CallQueryFilters = {}): Promise<Page<Call>> {
+    const sort = resolveSort(filters, CALL_DEFAULT_SORT);
+    if (filters.limit === undefined) {
+      return paginateByCursor(await this.getAllCalls(filters), sort, filters);
     }
-
-    calls = paginate(calls, filters?.limit, filters?.offset);
-    return calls;
+    return this.findPage('calls', callListWhere(filters), sort, { ...filters, limit: filters.limit }, deserializeCall);
   }
 
   async updateCall(id: string, data: UpdateCallRequest): Promise<Call | null> {
@@ -629,7 +2290,9 @@ export class DatabaseService {
       updatedAt: getCurrentTimestamp(),
     };
 
-    await db.transact([db.tx.calls[id].update(serializeCall(updated) as any)]);
+    await this.store.transact([storeTx.update('calls', id, serializeCall(updated))]);
+    await this.ensureCallFollowUp(updated, existing);
+    await this.syncCallCommunication(updated);
     return updated;
   }
 
@@ -639,14 +2302,454 @@ export class DatabaseService {
       return false;
     }
 
-    await db.transact([db.tx.calls[id].delete()]);
+    await this.store.transact(await this.getCallDeleteOperations(id));
+    return true;
+  }
+
+  // A call's follow-ups and timeline entry only exist because of the call
+  private async getCallDeleteOperations(callId: string): Promise<StoreOperation[]> {
+    const [tasks, communications] = await Promise.all([
+      this.getAllFollowUpTasks({ callId }),
+      this.getAllCommunications({ callId }),
+    ]);
+    return [
+      storeTx.delete('calls', callId),
+      ...tasks.map((task) => storeTx.delete('followUpTasks', task.id)),
+      ...communications.map((communication) => storeTx.delete('communications', communication.id)),
+    ];
+  }
+
+  // Keeps the customer timeline entry for a call in step with the call record
+  private async syncCallCommunication(call: Call): Promise<void> {
+    const entry = getCallCommunication(call);
+    const [existing] = await this.getAllCommunications({ callId: call.id });
+
+    if (!entry) {
+      if (existing) {
+        await this.deleteCommunication(existing.id);
+      }
+      return;
+    }
+
+    const timestamp = getCurrentTimestamp();
+    const communication = normalizeCommunication({
+      ...entry,
+      id: existing?.id ?? generateId('comm'),
+      createdAt: existing?.createdAt ?? timestamp,
+      updatedAt: timestamp,
+    });
+
+    await this.store.transact([storeTx.update('communications', communication.id, sanitizeForStorage(communication))]);
+  }
+
+  // Communications
+  async createCommunication(data: CreateCommunicationRequest): Promise<Communication> {
+    const timestamp = getCurrentTimestamp();
+    const communication = normalizeCommunication({
+      ...data,
+      id: generateId('comm'),
+      occurredAt: data.occurredAt ?? timestamp,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+
+    await this.store.transact([storeTx.update('communications', communication.id, sanitizeForStorage(communication))]);
+    return communication;
+  }
+
+  async getCommunication(id: string): Promise<Communication | null> {
+    const result = await this.store.find<Communication>('communications', { id });
+    return result[0] ?? null;
+  }
+
+  async getAllCommunications(filters?: CommunicationQueryFilters): Promise<Communication[]> {
+    const where: WhereClause = {};
+    if (filters?.customerId) {
+      where.customerId = filters.customerId;
+    }
+    if (filters?.jobId) {
+      where.jobId = filters.jobId;
+    }
+    if (filters?.callId) {
+      where.callId = filters.callId;
+    }
+    if (filters?.type?.length) {
+      where.type = { $in: filters.type };
+    }
+    if (filters?.dateRange) {
+      where.occurredAt = toRangeCondition(filters.dateRange);
+    }
+
+    const communications = await this.store.find<Communication>('communications', where);
+
+    // Newest first, the order the timeline reads in
+    return communications.sort((a, b) => b.occurredAt.localeCompare(a.occurredAt));
+  }
+
+  async updateCommunication(id: string, data: UpdateCommunicationRequest): Promise<Communication | null> {
+    const existing = await this.getCommunication(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updated = normalizeCommunication({
+      ...existing,
+      ...data,
+      customerId: existing.customerId,
+      callId: existing.callId,
+      updatedAt: getCurrentTimestamp(),
+    });
+
+    await this.store.transact([storeTx.update('communications', id, sanitizeForStorage(updated))]);
+    return updated;
+  }
+
+  async deleteCommunication(id: string): Promise<boolean> {
+    const existing = await this.getCommunication(id);
+    if (!existing) {
+      return false;
+    }
+
+    await this.store.transact([storeTx.delete('communications', id)]);
+    return true;
+  }
+
+  // Opens a follow-up when a call is saved asking for one (or with a new follow-up date),
+  // unless the call already has an open task
+  private async ensureCallFollowUp(call: Call, previous?: Call): Promise<void> {
+    if (!call.followUpRequired) {
+      return;
+    }
+    if (previous?.followUpRequired && previous.followUpDate === call.followUpDate) {
+      return;
+    }
+
+    const tasks = await this.getAllFollowUpTasks({ callId: call.id });
+    if (tasks.some(isFollowUpOpen)) {
+      return;
+    }
+
+    await this.createFollowUpTask({
+      callId: call.id,
+      ...getCallFollowUpDefaults(call),
+      assignedTo: call.callTakenBy,
+    });
+  }
+
+  // Follow-up tasks
+  async createFollowUpTask(data: CreateFollowUpTaskRequest): Promise<FollowUpTask> {
+    const timestamp = getCurrentTimestamp();
+    const task = normalizeFollowUpTask({
+      ...data,
+      id: generateId('followup'),
+      status: data.status ?? 'pending',
+      snoozeCount: 0,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+
+    await this.store.transact([storeTx.update('followUpTasks', task.id, sanitizeForStorage(task))]);
+    return task;
+  }
+
+  async getFollowUpTask(id: string): Promise<FollowUpTask | null> {
+    const result = await this.store.find<FollowUpTask>('followUpTasks', { id });
+    return result[0] ?? null;
+  }
+
+  async getAllFollowUpTasks(filters?: FollowUpQueryFilters): Promise<FollowUpTask[]> {
+    const where: WhereClause = {};
+    if (filters?.status?.length) {
+      where.status = { $in: filters.status };
+    }
+    if (filters?.callId) {
+      where.callId = filters.callId;
+    }
+    if (filters?.customerId) {
+      where.customerId = filters.customerId;
+    }
+    if (filters?.assignedTo) {
+      where.assignedTo = filters.assignedTo;
+    }
+
+    let tasks = await this.store.find<FollowUpTask>('followUpTasks', where);
+
+    // Overdue depends on the current time, so it is worked out after loading
+    if (filters?.overdue !== undefined) {
+      const now = new Date();
+      tasks = tasks.filter((task) => isFollowUpOverdue(task, now) === filters.overdue);
+    }
+
+    return tasks.sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+  }
+
+  async updateFollowUpTask(id: string, data: UpdateFollowUpTaskRequest): Promise<FollowUpTask | null> {
+    const existing = await this.getFollowUpTask(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updated = normalizeFollowUpTask({
+      ...existing,
+      ...data,
+      callId: existing.callId,
+      updatedAt: getCurrentTimestamp(),
+    });
+
+    await this.store.transact([storeTx.update('followUpTasks', id, sanitizeForStorage(updated))]);
+    return updated;
+  }
+
+  async assignFollowUpTask(id: string, assignedTo: string | null): Promise<FollowUpTask | null> {
+    const existing = await this.getFollowUpTask(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updated: FollowUpTask = {
+      ...existing,
+      assignedTo: assignedTo?.trim() || undefined,
+      updatedAt: getCurrentTimestamp(),
+    };
+
+    await this.store.transact([storeTx.update('followUpTasks', id, {
+      ...sanitizeForStorage(updated),
+      assignedTo: updated.assignedTo ?? null,
+    })]);
+    return updated;
+  }
+
+  async snoozeFollowUpTask(id: string, until?: string): Promise<FollowUpTask | null> {
+    const existing = await this.getFollowUpTask(id);
+    if (!existing) {
+      return null;
+    }
+    if (!isFollowUpOpen(existing)) {
+      throw new Error('Only open follow-ups can be snoozed');
+    }
+    if (until && (Number.isNaN(new Date(until).getTime()) || new Date(until).getTime() <= Date.now())) {
+      throw new Error('Snooze time must be in the future');
+    }
+
+    const updated: FollowUpTask = {
+      ...existing,
+      dueAt: until ? new Date(until).toISOString() : getSnoozedDueAt(existing.dueAt),
+      snoozeCount: (existing.snoozeCount ?? 0) + 1,
+      updatedAt: getCurrentTimestamp(),
+    };
+
+    await this.store.transact([storeTx.update('followUpTasks', id, sanitizeForStorage(updated))]);
+    return updated;
+  }
+
+  async completeFollowUpTask(id: string, data: { outcome?: string; completedBy?: string } = {}): Promise<FollowUpTask | null> {
+    const existing = await this.getFollowUpTask(id);
+    if (!existing) {
+      return null;
+    }
+    if (!isFollowUpOpen(existing)) {
+      throw new Error('Follow-up is already closed');
+    }
+
+    const timestamp = getCurrentTimestamp();
+    const updated: FollowUpTask = {
+      ...existing,
+      status: 'completed',
+      outcome: data.outcome?.trim() || undefined,
+      completedBy: data.completedBy?.trim() || existing.assignedTo,
+      completedAt: timestamp,
+      updatedAt: timestamp,
+    };
+
+    await this.store.transact([storeTx.update('followUpTasks', id, sanitizeForStorage(updated))]);
+    return updated;
+  }
+
+  async deleteFollowUpTask(id: string): Promise<boolean> {
+    const existing = await this.getFollowUpTask(id);
+    if (!existing) {
+      return false;
+    }
+
+    await this.store.transact([storeTx.delete('followUpTasks', id)]);
+    return true;
+  }
+
+  // Archiving
+  // Archived records keep their data but drop out of list queries until they are restored
+  async archiveCustomer(id: string, archivedBy?: string): Promise<Customer | null> {
+    return (await this.archiveRecord('customers', id, archivedBy)) ? this.getCustomer(id) : null;
+  }
+
+  async restoreCustomer(id: string): Promise<Customer | null> {
+    return (await this.restoreRecord('customers', id)) ? this.getCustomer(id) : null;
+  }
+
+  async archiveVehicle(id: string, archivedBy?: string): Promise<Vehicle | null> {
+    return (await this.archiveRecord('vehicles', id, archivedBy)) ? this.getVehicle(id) : null;
+  }
+
+  async restoreVehicle(id: string): Promise<Vehicle | null> {
+    return (await this.restoreRecord('vehicles', id)) ? this.getVehicle(id) : null;
+  }
+
+  async archiveJob(id: string, archivedBy?: string): Promise<Job | null> {
+    return (await this.archiveRecord('jobs', id, archivedBy)) ? this.getJob(id) : null;
+  }
+
+  async restoreJob(id: string): Promise<Job | null> {
+    return (await this.restoreRecord('jobs', id)) ? this.getJob(id) : null;
+  }
+
+  async archiveCall(id: string, archivedBy?: string): Promise<Call | null> {
+    return (await this.archiveRecord('calls', id, archivedBy)) ? this.getCall(id) : null;
+  }
+
+  async restoreCall(id: string): Promise<Call | null> {
+    return (await this.restoreRecord('calls', id)) ? this.getCall(id) : null;
+  }
+
+  // Archiving (unscheduling) is held to the same editing lock as moving the appointment
+  async archiveAppointment(
+    id: string,
+    archivedBy?: string,
+    lockOverride?: EditingLockOverride
+  ): Promise<Appointment | null> {
+    const existing = await this.getAppointment(id);
+    if (!existing) {
+      return null;
+    }
+
+    const override = isArchived(existing) ? null : await this.checkEditingLock(
+      existing,
+      'archive',
+      lockOverride && { ...lockOverride, actor: lockOverride.actor ?? archivedBy }
+    );
+    const changes = override ? { lockOverrides: [...(existing.lockOverrides ?? []), override] } : {};
+
+    return (await this.archiveRecord('appointments', id, archivedBy, changes)) ? this.getAppointment(id) : null;
+  }
+
+  async restoreAppointment(id: string): Promise<Appointment | null> {
+    return (await this.restoreRecord('appointments', id)) ? this.getAppointment(id) : null;
+  }
+
+  // Archiving an already archived record keeps its original archivedAt/archivedBy. `changes` are
+  // written to the record in the same transaction as its archive metadata.
+  private async archiveRecord(
+    entity: ArchivableEntity,
+    id: string,
+    archivedBy?: string,
+    changes: object = {}
+  ): Promise<boolean> {
+    const [record] = await this.store.find<ArchivableRecord>(entity, { id });
+    if (!record) {
+      return false;
+    }
+    if (isArchived(record)) {
+      return true;
+    }
+
+    const timestamp = getCurrentTimestamp();
+    const metadata = {
+      archivedAt: timestamp,
+      archivedBy: archivedBy?.trim() || DEFAULT_ACTOR,
+      updatedAt: timestamp,
+    };
+    const dependents = await this.getArchiveDependents(entity, id);
+
+    await this.store.transact([
+      storeTx.update(entity, id, { ...sanitizeForStorage(changes), ...metadata }),
+      ...dependents
+        .filter((target) => !isArchived(target.record))
+        .map((target) => storeTx.update(target.entity, target.record.id, metadata)),
+    ]);
+    return true;
+  }
+
+  private async restoreRecord(entity: ArchivableEntity, id: string): Promise<boolean> {
+    const [record] = await this.store.find<ArchivableRecord>(entity, { id });
+    if (!record) {
+      return false;
+    }
+    if (!isArchived(record)) {
+      return true;
+    }
+
+    await this.assertRestorable(entity, record);
+
+    const cleared = { archivedAt: null, archivedBy: null, updatedAt: getCurrentTimestamp() };
+    const dependents = await this.getArchiveDependents(entity, id);
+
+    await this.store.transact([
+      storeTx.update(entity, id, cleared),
+      ...dependents
+        .filter((target) => wasArchivedWith(target.record, record))
+        .map((target) => storeTx.update(target.entity, target.record.id, cleared)),
+    ]);
     return true;
   }
 
+  // Records that would be left dangling in lists once their parent is archived:
+  // a customer's vehicles, jobs and calls, a vehicle's jobs, and the appointments of those jobs
+  private async getArchiveDependents(entity: ArchivableEntity, id: string): Promise<ArchiveTarget[]> {
+    const findAppointments = async (jobs: ArchivableRecord[]) => (
+      (await Promise.all(jobs.map((job) => this.store.find<ArchivableRecord>('appointments', { jobId: job.id })))).flat()
+    );
+
+    switch (entity) {
+      case 'customers': {
+        const [vehicles, jobs, calls] = await Promise.all([
+          this.store.find<ArchivableRecord>('vehicles', { customerId: id }),
+          this.store.find<ArchivableRecord>('jobs', { customerId: id }),
+          this.store.find<ArchivableRecord>('calls', { customerId: id }),
+        ]);
+        return [
+          ...toArchiveTargets('vehicles', vehicles),
+          ...toArchiveTargets('jobs', jobs),
+          ...toArchiveTargets('calls', calls),
+          ...toArchiveTargets('appointments', await findAppointments(jobs)),
+        ];
+      }
+      case 'vehicles': {
+        const jobs = await this.store.find<ArchivableRecord>('jobs', { vehicleId: id });
+        return [
+          ...toArchiveTargets('jobs', jobs),
+          ...toArchiveTargets('appointments', await findAppointments(jobs)),
+        ];
+      }
+      case 'jobs':
+        return toArchiveTargets('appointments', await findAppointments([{ id }]));
+      default:
+        return [];
+    }
+  }
+
+  // A record only comes back once the customer, vehicle or job it belongs to is active again
+  private async assertRestorable(entity: ArchivableEntity, record: ArchivableRecord): Promise<void> {
+    const [customer, vehicle, job] = await Promise.all([
+      entity !== 'customers' && entity !== 'appointments' && record.customerId
+        ? this.getCustomer(record.customerId)
+        : null,
+      entity === 'jobs' && record.vehicleId ? this.getVehicle(record.vehicleId) : null,
+      entity === 'appointments' && record.jobId ? this.getJob(record.jobId) : null,
+    ]);
+
+    if (customer && isArchived(customer)) {
+      throw new Error(`Restore ${customer.name} first`);
+    }
+    if (vehicle && isArchived(vehicle)) {
+      throw new Error(`Restore the ${vehicle.year} ${vehicle.make} ${vehicle.model} first`);
+    }
+    if (job && isArchived(job)) {
+      throw new Error(`Restore the job "${job.title}" first`);
+    }
+  }
+
   // Shop settings
   async getShopSettings(): Promise<ShopSettings | null> {
-    const result = await db.query({ shopSettings: {} });
-    const raw = result.shopSettings?.[0];
+    const result = await this.store.find<StoredShopSettings>('shopSettings');
+    const raw = result[0];
     if (!raw) {
       return null;
     }
@@ -663,63 +2766,10 @@ export class DatabaseService {
   async createOrUpdateShopSettings(data: Partial<ShopSettings>): Promise<ShopSettings> {
     const existing = await this.getShopSettings();
 
-    const defaultHours: ShopHoursSettings = {
-      timezone: 'America/Los_Angeles',
-      days: {
-        monday: { open: '08:00', close: '17:00', closed: false },
-        tuesday: { open: '08:00', close: '17:00', closed: false },
-        wednesday: { open: '08:00', close: '17:00', closed: false },
-        thursday: { open: '08:00', close: '17:00', closed: false },
-        friday: { open: '08:00', close: '17:00', closed: false },
-        saturday: { open: '09:00', close: '14:00', closed: false },
-        sunday: { open: '09:00', close: '14:00', closed: true },
-      },
-      closures: [],
-    };
-
-    const defaultBays: BayConfigurationItem[] = [
-      {
-        id: 'bay-1',
-        name: 'Bay 1',
-        shortCode: 'B1',
-        isActive: true,
-        supportsHeavyDuty: false,
-        notes: 'General services and inspections.',
-      },
-      {
-        id: 'bay-2',
-        name: 'Bay 2',
-        shortCode: 'B2',
-        isActive: true,
-        supportsHeavyDuty: true,
-        notes: 'Lift-equipped bay for heavy-duty work.',
-      },
-    ];
-
-    const defaultStatusPalettes: Record<JobStatus, StatusPalette> = {
-      intake: { primary: '#1E293B', accent: '#E2E8F0' },
-      'incoming-call': { primary: '#64748B', accent: '#E2E8F0' },
-      scheduled: { primary: '#2563EB', accent: '#DDE9FF' },
-      'in-progress': { primary: '#0EA5E9', accent: '#CFFAFE' },
-      'in-bay': { primary: '#16A34A', accent: '#D1FADF' },
-      'waiting-parts': { primary: '#EA580C', accent: '#FFE8D5' },
-      completed: { primary: '#0F172A', accent: '#CBD5F5' },
-    };
-
-    const defaultSchedulingDefaults: SchedulingDefaultsConfig = {
-      defaultJobDuration: 60,
-      minimumSlotIncrement: 30,
-      bufferMinutes: 10,
-      enableAutoBuffers: true,
-      lockEditingWithinMinutes: 30,
-      allowSameDayScheduling: true,
-      overbookingPolicy: 'soft',
-    };
-
-    const hours = data.hours ?? existing?.hours ?? defaultHours;
-    const bays = data.bays ?? existing?.bays ?? defaultBays;
-    const palettes = data.statusPalettes ?? existing?.statusPalettes ?? defaultStatusPalettes;
-    const scheduling = data.schedulingDefaults ?? existing?.schedulingDefaults ?? defaultSchedulingDefaults;
+    const hours = data.hours ?? existing?.hours ?? DEFAULT_SHOP_HOURS;
+    const bays = data.bays ?? existing?.bays ?? DEFAULT_BAYS;
+    const palettes = data.statusPalettes ?? existing?.statusPalettes ?? DEFAULT_STATUS_PALETTES;
+    const scheduling = data.schedulingDefaults ?? existing?.schedulingDefaults ?? DEFAULT_SCHEDULING_DEFAULTS;
 
     const settings: ShopSettings = {
       id: existing?.id ?? generateId('settings'),
@@ -743,8 +2793,8 @@ export class DatabaseService {
       schedulingDefaults: JSON.stringify(settings.schedulingDefaults),
     });
 
-    await db.transact([
-      db.tx.shopSettings[settings.id].update(storedSettings as any),
+    await this.store.transact([
+      storeTx.update('shopSettings', settings.id, storedSettings),
     ]);
 
     return settings;
@@ -0,0 +1,82 @@
+import type {
+  AppointmentConflict,
+  DependencySummary,
+  JobStatus,
+  OverbookingPolicy,
+  ShopHoursViolation,
+  StatusTransitionRule,
+  Vehicle,
+} from '../types/database';
+
+// Thrown when a booking overlaps existing appointments and the overbooking policy does not allow it
+export class AppointmentConflictError extends Error {
+  constructor(
+    message: string,
+    public policy: OverbookingPolicy,
+    public conflicts: AppointmentConflict[]
+  ) {
+    super(message);
+    this.name = 'AppointmentConflictError';
+  }
+}
+
+// Thrown when a booking falls outside the configured shop hours or inside a closure
+export class ShopHoursViolationError extends Error {
+  constructor(message: string, public violations: ShopHoursViolation[]) {
+    super(message);
+    this.name = 'ShopHoursViolationError';
+  }
+}
+
+// Thrown when a job status change is not part of the workflow or needs an override reason
+export class JobStatusTransitionError extends Error {
+  constructor(
+    message: string,
+    public rule: StatusTransitionRule,
+    public from: JobStatus,
+    public to: JobStatus
+  ) {
+    super(message);
+    this.name = 'JobStatusTransitionError';
+  }
+}
+
+// Thrown when an appointment inside the editing lock is changed without an override reason
+export class AppointmentLockedError extends Error {
+  constructor(message: string, public lockEditingWithinMinutes: number) {
+    super(message);
+    this.name = 'AppointmentLockedError';
+  }
+}
+
+// Thrown when a delete would orphan dependent records and cascading was not requested
+export class DeleteBlockedError extends Error {
+  constructor(message: string, public dependencies: DependencySummary) {
+    super(message);
+    this.name = 'DeleteBlockedError';
+  }
+}
+
+// Thrown when a list filter's date range can't be read as dates
+export class InvalidDateRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidDateRangeError';
+  }
+}
+
+// Thrown when an uploaded file is the wrong type, too large, or its contents do not match its type
+export class UploadRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+// Thrown when a VIN being saved is already on file for another vehicle, archived or not
+export class DuplicateVinError extends Error {
+  constructor(message: string, public vehicle: Vehicle) {
+    super(message);
+    this.name = 'DuplicateVinError';
+  }
+}
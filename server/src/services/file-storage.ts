@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import type { AttachmentUploadMimeType } from '../types/database';
+import { UploadRejectedError } from './errors';
+
+// Uploaded job files live on local disk under UPLOAD_DIR, named after their attachment id.
+// Images get a small WebP thumbnail next to them for the gallery views.
+
+const DEFAULT_UPLOAD_DIR = 'data/uploads';
+const THUMBNAIL_SIZE = 320;
+
+const FILE_EXTENSIONS: Record<AttachmentUploadMimeType, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'application/pdf': '.pdf',
+};
+
+// sharp's format names for the image types, used to check the bytes match the declared type
+const IMAGE_FORMATS: Partial<Record<AttachmentUploadMimeType, string>> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const PDF_SIGNATURE = Buffer.from('%PDF-');
+
+export interface StoredUpload {
+  hasThumbnail: boolean;
+}
+
+export class LocalFileStorage {
+  constructor(private readonly rootDir: string) {}
+
+  getFilePath(id: string, mimeType: AttachmentUploadMimeType): string {
+    return path.join(this.rootDir, `${id}${FILE_EXTENSIONS[mimeType]}`);
+  }
+
+  getThumbnailPath(id: string): string {
+    return path.join(this.rootDir, `${id}.thumb.webp`);
+  }
+
+  // Rejects files whose contents do not match their declared type before anything is written
+  async save(id: string, mimeType: AttachmentUploadMimeType, buffer: Buffer): Promise<StoredUpload> {
+    const imageFormat = IMAGE_FORMATS[mimeType];
+    let thumbnail: Buffer | null = null;
+
+    if (imageFormat) {
+      const metadata = await sharp(buffer).metadata().catch(() => null);
+      if (metadata?.format !== imageFormat) {
+        throw new UploadRejectedError('The file is not a valid image');
+      }
+      thumbnail = await sharp(buffer)
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 75 })
+        .toBuffer();
+    } else if (!buffer.subarray(0, PDF_SIGNATURE.length).equals(PDF_SIGNATURE)) {
+      throw new UploadRejectedError('The file is not a valid PDF');
+    }
+
+    await fs.mkdir(this.rootDir, { recursive: true });
+    await fs.writeFile(this.getFilePath(id, mimeType), buffer);
+    if (thumbnail) {
+      await fs.writeFile(this.getThumbnailPath(id), thumbnail);
+    }
+
+    return { hasThumbnail: Boolean(thumbnail) };
+  }
+
+  async remove(id: string, mimeType: AttachmentUploadMimeType): Promise<void> {
+    await Promise.all([
+      fs.rm(this.getFilePath(id, mimeType), { force: true }),
+      fs.rm(this.getThumbnailPath(id), { force: true }),
+    ]);
+  }
+}
+
+let sharedStorage: LocalFileStorage | null = null;
+
+export const getFileStorage = (): LocalFileStorage => {
+  if (!sharedStorage) {
+    sharedStorage = new LocalFileStorage(path.resolve(process.env.UPLOAD_DIR?.trim() || DEFAULT_UPLOAD_DIR));
+  }
+  return sharedStorage;
+};
@@ -0,0 +1,325 @@
+import type { JobDocument, JobDocumentSection, JobDocumentTable } from '../../../shared/job-documents';
+
+// Minimal PDF writer for job documents. It only needs the two built-in Helvetica faces,
+// so documents render without a headless browser or a font-embedding dependency.
+
+type FontName = 'regular' | 'bold';
+type Color = [number, number, number];
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const FONT_RESOURCES: Record<FontName, string> = { regular: 'F1', bold: 'F2' };
+const TEXT: Color = [0.06, 0.09, 0.16];
+const MUTED: Color = [0.39, 0.45, 0.55];
+const RULE: Color = [0.89, 0.91, 0.94];
+
+// Helvetica advance widths (per 1000 em) for ASCII 32–126, from the standard AFM metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// Helvetica-Bold runs slightly wider; scaling the regular metrics is close enough for layout
+const BOLD_WIDTH_SCALE = 1.06;
+
+// Typographic characters the documents use that live outside Latin-1 in WinAnsiEncoding
+const WIN_ANSI_EXTRAS: Record<string, { code: number; width: number }> = {
+  '–': { code: 0x96, width: 556 }, // en dash
+  '—': { code: 0x97, width: 1000 }, // em dash
+  '•': { code: 0x95, width: 350 }, // bullet
+  '‘': { code: 0x91, width: 222 },
+  '’': { code: 0x92, width: 222 },
+  '“': { code: 0x93, width: 333 },
+  '”': { code: 0x94, width: 333 },
+};
+
+function toWinAnsi(text: string): string {
+  return Array.from(text)
+    .map((char) => {
+      const extra = WIN_ANSI_EXTRAS[char];
+      if (extra) {
+        return String.fromCharCode(extra.code);
+      }
+      const code = char.charCodeAt(0);
+      return code >= 32 && code <= 255 && code !== 127 ? char : '?';
+    })
+    .join('');
+}
+
+function charWidth(char: string): number {
+  const extra = WIN_ANSI_EXTRAS[char];
+  if (extra) {
+    return extra.width;
+  }
+  const code = char.charCodeAt(0);
+  return code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+}
+
+function measureText(text: string, size: number, font: FontName = 'regular'): number {
+  const units = Array.from(text).reduce((sum, char) => sum + charWidth(char), 0);
+  return (units / 1000) * size * (font === 'bold' ? BOLD_WIDTH_SCALE : 1);
+}
+
+function wrapText(text: string, width: number, size: number, font: FontName = 'regular'): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (!line || measureText(candidate, size, font) <= width) {
+        line = candidate;
+        continue;
+      }
+      lines.push(line);
+      line = word;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+const escapePdfString = (text: string) => toWinAnsi(text).replace(/([\\()])/g, '\\$1');
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+const formatColor = (color: Color) => color.map(formatNumber).join(' ');
+
+class PdfLayout {
+  readonly pages: string[][] = [];
+  private y = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  private get operations(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  addPage() {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.addPage();
+    }
+  }
+
+  moveDown(amount: number) {
+    this.y -= amount;
+  }
+
+  // Draws text whose top edge sits `offset` points below the cursor
+  text(
+    value: string,
+    x: number,
+    size: number,
+    options: { font?: FontName; color?: Color; align?: 'left' | 'right'; offset?: number } = {}
+  ) {
+    const font = options.font ?? 'regular';
+    const left = options.align === 'right' ? x - measureText(value, size, font) : x;
+    const baseline = this.y - (options.offset ?? 0) - size;
+    this.operations.push(
+      `BT /${FONT_RESOURCES[font]} ${size} Tf ${formatColor(options.color ?? TEXT)} rg ${formatNumber(left)} ${formatNumber(baseline)} Td (${escapePdfString(value)}) Tj ET`,
+    );
+  }
+
+  rule(color: Color = RULE, lineWidth = 0.75) {
+    this.operations.push(
+      `${formatColor(color)} RG ${lineWidth} w ${MARGIN} ${formatNumber(this.y)} m ${PAGE_WIDTH - MARGIN} ${formatNumber(this.y)} l S`,
+    );
+  }
+}
+
+function drawHeader(layout: PdfLayout, document: JobDocument) {
+  const right = PAGE_WIDTH - MARGIN;
+  layout.text(document.shopName, MARGIN, 16, { font: 'bold' });
+  layout.text(document.title, right, 20, { font: 'bold', align: 'right' });
+  layout.moveDown(26);
+
+  // Shop contact lines on the left, document reference and date on the right
+  const rows = Math.max(document.shopLines.length, 2);
+  for (let row = 0; row < rows; row += 1) {
+    const shopLine = document.shopLines[row];
+    if (shopLine) {
+      layout.text(shopLine, MARGIN, 9, { color: MUTED });
+    }
+    if (row === 0) {
+      layout.text(document.reference, right, 11, { font: 'bold', align: 'right' });
+    } else if (row === 1) {
+      layout.text(document.date, right, 9, { color: MUTED, align: 'right' });
+    }
+    layout.moveDown(14);
+  }
+  layout.moveDown(4);
+  layout.rule(TEXT, 1.5);
+  layout.moveDown(18);
+}
+
+function drawFields(layout: PdfLayout, fields: Array<[string, string]>) {
+  const valueX = MARGIN + 100;
+  fields.forEach(([label, value]) => {
+    const lines = wrapText(value, CONTENT_WIDTH - 100, 10);
+    layout.ensureSpace(lines.length * 13);
+    layout.text(label, MARGIN, 10, { color: MUTED });
+    lines.forEach((line) => {
+      layout.text(line, valueX, 10);
+      layout.moveDown(13);
+    });
+  });
+}
+
+function drawItems(layout: PdfLayout, items: string[]) {
+  items.forEach((item) => {
+    const lines = wrapText(item, CONTENT_WIDTH - 14, 10);
+    layout.ensureSpace(lines.length * 13);
+    layout.text('•', MARGIN + 2, 10, { color: MUTED });
+    lines.forEach((line) => {
+      layout.text(line, MARGIN + 14, 10);
+      layout.moveDown(13);
+    });
+  });
+}
+
+// Numeric columns get a fixed width; the last text column takes whatever is left
+function getColumnWidths(table: JobDocumentTable): number[] {
+  const textColumns = table.columns.map((_, index) => index).filter((index) => !table.numericColumns.includes(index));
+  const flexColumn = textColumns[textColumns.length - 1];
+  const widths: number[] = table.columns.map((_, index) => (table.numericColumns.includes(index) ? 75 : 70));
+  if (flexColumn !== undefined) {
+    widths[flexColumn] = CONTENT_WIDTH - widths.reduce((sum, width, index) => (index === flexColumn ? sum : sum + width), 0);
+  }
+  return widths;
+}
+
+function drawTable(layout: PdfLayout, table: JobDocumentTable) {
+  const widths = getColumnWidths(table);
+  const padding = 4;
+  const drawRow = (cells: string[], font: FontName, color: Color, size: number) => {
+    const wrapped = cells.map((cell, index) => wrapText(cell, widths[index] - padding * 2, size, font));
+    const height = Math.max(...wrapped.map((lines) => lines.length)) * (size + 3) + padding * 2;
+    layout.ensureSpace(height);
+    layout.moveDown(padding);
+    let x = MARGIN;
+    wrapped.forEach((lines, index) => {
+      const numeric = table.numericColumns.includes(index);
+      lines.forEach((line, lineIndex) => {
+        layout.text(line, numeric ? x + widths[index] - padding : x + padding, size, {
+          font,
+          color,
+          align: numeric ? 'right' : 'left',
+          offset: lineIndex * (size + 3),
+        });
+      });
+      x += widths[index];
+    });
+    layout.moveDown(height - padding);
+    layout.rule();
+  };
+
+  drawRow(table.columns.map((column) => column.toUpperCase()), 'bold', MUTED, 8);
+  if (table.rows.length) {
+    table.rows.forEach((row) => drawRow(row, 'regular', TEXT, 10));
+  } else {
+    drawRow(table.columns.map((_, index) => (index === 1 ? 'No line items.' : '')), 'regular', MUTED, 10);
+  }
+}
+
+function drawSection(layout: PdfLayout, section: JobDocumentSection) {
+  layout.ensureSpace(40);
+  layout.text(section.heading.toUpperCase(), MARGIN, 9, { font: 'bold', color: MUTED });
+  layout.moveDown(16);
+  if (section.fields?.length) {
+    drawFields(layout, section.fields);
+  }
+  if (section.items?.length) {
+    drawItems(layout, section.items);
+  }
+  if (section.table) {
+    drawTable(layout, section.table);
+  }
+  layout.moveDown(14);
+}
+
+function drawTotals(layout: PdfLayout, totals: Array<[string, string]>) {
+  const right = PAGE_WIDTH - MARGIN;
+  const labelX = right - 200;
+  layout.ensureSpace(totals.length * 15 + 10);
+  totals.forEach(([label, value], index) => {
+    const isGrandTotal = index === totals.length - 1;
+    if (isGrandTotal) {
+      layout.moveDown(4);
+    }
+    const size = isGrandTotal ? 13 : 10;
+    const font: FontName = isGrandTotal ? 'bold' : 'regular';
+    layout.text(label, labelX, size, { font, color: isGrandTotal ? TEXT : MUTED });
+    layout.text(value, right, size, { font, align: 'right' });
+    layout.moveDown(size + 5);
+  });
+}
+
+function serializePdf(pages: string[][]): Buffer {
+  const objects: string[] = [];
+  const addObject = (body: string) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalogId = addObject('');
+  const pagesId = addObject('');
+  const regularFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  const boldFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  const pageIds = pages.map((operations) => {
+    const stream = operations.join('\n');
+    const contentId = addObject(`<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`);
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`,
+    );
+  });
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = Buffer.byteLength(output, 'latin1');
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
+
+export function renderJobDocumentPdf(document: JobDocument): Buffer {
+  const layout = new PdfLayout();
+  drawHeader(layout, document);
+  document.sections.forEach((section) => drawSection(layout, section));
+  if (document.totals?.length) {
+    drawTotals(layout, document.totals);
+  }
+  if (document.footer) {
+    layout.moveDown(18);
+    const lines = wrapText(document.footer, CONTENT_WIDTH, 9);
+    layout.ensureSpace(lines.length * 12 + 10);
+    layout.rule();
+    layout.moveDown(10);
+    lines.forEach((line) => {
+      layout.text(line, MARGIN, 9, { color: MUTED });
+      layout.moveDown(12);
+    });
+  }
+  return serializePdf(layout.pages);
+}
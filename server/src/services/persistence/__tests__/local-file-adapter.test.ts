@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { LocalFileAdapter } from '../local-file-adapter';
+
+describe('LocalFileAdapter', () => {
+  let tempDir: string | null = null;
+
+  afterEach(async () => {
+    if (tempDir) {
+      await fs.rm(tempDir, { recursive: true, force: true });
+      tempDir = null;
+    }
+  });
+
+  it('merges updates into stored records and clears null attributes', async () => {
+    const store = new LocalFileAdapter();
+
+    await store.transact([
+      { kind: 'update', entity: 'customers', id: 'customer_1', data: { name: 'Maria Garcia', email: 'maria@example.com' } },
+    ]);
+    await store.transact([
+      { kind: 'update', entity: 'customers', id: 'customer_1', data: { phone: '555-0101', email: null } },
+    ]);
+
+    expect(await store.find('customers')).toEqual([
+      { id: 'customer_1', name: 'Maria Garcia', phone: '555-0101' },
+    ]);
+  });
+
+  it('filters on every attribute in the where clause', async () => {
+    const store = new LocalFileAdapter();
+
+    await store.transact([
+      { kind: 'update', entity: 'partsOrders', id: 'order_1', data: { jobId: 'job_1', status: 'ordered' } },
+      { kind: 'update', entity: 'partsOrders', id: 'order_2', data: { jobId: 'job_1', status: 'received' } },
+      { kind: 'update', entity: 'partsOrders', id: 'order_3', data: { jobId: 'job_2', status: 'ordered' } },
+    ]);
+
+    const orders = await store.find<{ id: string }>('partsOrders', { jobId: 'job_1', status: 'ordered' });
+    expect(orders.map((order) => order.id)).toEqual(['order_1']);
+  });
+
+  it('supports the $in, range and $isNull operators', async () => {
+    const store = new LocalFileAdapter();
+
+    await store.transact([
+      { kind: 'update', entity: 'jobs', id: 'job_1', data: { status: 'scheduled', createdAt: '2026-10-01T09:00:00.000Z' } },
+      { kind: 'update', entity: 'jobs', id: 'job_2', data: { status: 'in-bay', createdAt: '2026-10-05T09:00:00.000Z' } },
+      { kind: 'update', entity: 'jobs', id: 'job_3', data: { status: 'completed', createdAt: '2026-10-06T09:00:00.000Z' } },
+      { kind: 'update', entity: 'jobs', id: 'job_4', data: { status: 'in-bay', createdAt: '2026-10-07T09:00:00.000Z', archivedAt: '2026-10-08T09:00:00.000Z' } },
+    ]);
+
+    const jobs = await store.find<{ id: string }>('jobs', {
+      status: { $in: ['scheduled', 'in-bay'] },
+      createdAt: { $gte: '2026-10-02T00:00:00.000Z', $lte: '2026-10-31T00:00:00.000Z' },
+      archivedAt: { $isNull: true },
+    });
+    expect(jobs.map((job) => job.id)).toEqual(['job_2']);
+  });
+
+  it('orders, limits and counts matching records', async () => {
+    const store = new LocalFileAdapter();
+
+    await store.transact([
+      { kind: 'update', entity: 'calls', id: 'call_1', data: { createdAt: '2026-10-03T09:00:00.000Z' } },
+      { kind: 'update', entity: 'calls', id: 'call_2', data: { createdAt: '2026-10-01T09:00:00.000Z' } },
+      { kind: 'update', entity: 'calls', id: 'call_3', data: { createdAt: '2026-10-02T09:00:00.000Z' } },
+    ]);
+
+    const calls = await store.find<{ id: string }>('calls', {}, { order: { field: 'createdAt', direction: 'desc' }, limit: 2 });
+    expect(calls.map((call) => call.id)).toEqual(['call_1', 'call_3']);
+    expect(await store.count('calls', { createdAt: { $gte: '2026-10-02T00:00:00.000Z' } })).toBe(2);
+  });
+
+  it('deletes records and returns copies callers cannot mutate', async () => {
+    const store = new LocalFileAdapter();
+
+    await store.transact([
+      { kind: 'update', entity: 'vehicles', id: 'vehicle_1', data: { make: 'Honda' } },
+      { kind: 'update', entity: 'vehicles', id: 'vehicle_2', data: { make: 'Ford' } },
+      { kind: 'delete', entity: 'vehicles', id: 'vehicle_2' },
+    ]);
+
+    const [vehicle] = await store.find<{ make: string }>('vehicles');
+    vehicle.make = 'Toyota';
+
+    expect(await store.find('vehicles')).toEqual([{ id: 'vehicle_1', make: 'Honda' }]);
+  });
+
+  it('persists to and reloads from the JSON file', async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-db-'));
+    const filePath = path.join(tempDir, 'nested', 'local-db.json');
+
+    await new LocalFileAdapter(filePath).transact([
+      { kind: 'update', entity: 'jobs', id: 'job_1', data: { title: 'Brake service' } },
+    ]);
+
+    const reopened = new LocalFileAdapter(filePath);
+    expect(await reopened.find('jobs', { id: 'job_1' })).toEqual([{ id: 'job_1', title: 'Brake service' }]);
+  });
+});
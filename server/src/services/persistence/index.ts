@@ -0,0 +1,60 @@
+import path from 'path';
+import { instantDBConfig } from '../../config/instantdb';
+import { InstantDBAdapter } from './instantdb-adapter';
+import { IN_MEMORY_PATH, LocalFileAdapter } from './local-file-adapter';
+import type { EntityName, PersistenceAdapter, PersistenceAdapterName, StoreOperation } from './types';
+
+export { InstantDBAdapter } from './instantdb-adapter';
+export { IN_MEMORY_PATH, LocalFileAdapter } from './local-file-adapter';
+export type {
+  EntityName,
+  FindOptions,
+  PersistenceAdapter,
+  PersistenceAdapterName,
+  StoreOperation,
+  StoredRecord,
+  WhereClause,
+  WhereCondition,
+} from './types';
+
+const DEFAULT_LOCAL_DB_PATH = 'data/local-db.json';
+
+export const storeTx = {
+  update: (entity: EntityName, id: string, data: object): StoreOperation => ({ kind: 'update', entity, id, data }),
+  delete: (entity: EntityName, id: string): StoreOperation => ({ kind: 'delete', entity, id }),
+};
+
+// DB_ADAPTER picks the store explicitly. Without it, InstantDB is used when its credentials
+// are set and the local file store otherwise.
+export const resolvePersistenceAdapterName = (
+  value: string | undefined = process.env.DB_ADAPTER
+): PersistenceAdapterName => {
+  const requested = value?.trim().toLowerCase();
+  if (!requested) {
+    return instantDBConfig.isConfigured ? 'instantdb' : 'local';
+  }
+  if (requested === 'instantdb' || requested === 'local') {
+    return requested;
+  }
+  throw new Error(`Unknown DB_ADAPTER "${value}". Use "instantdb" or "local".`);
+};
+
+export const createPersistenceAdapter = (
+  name: PersistenceAdapterName = resolvePersistenceAdapterName()
+): PersistenceAdapter => {
+  if (name === 'local') {
+    const filePath = process.env.LOCAL_DB_PATH?.trim() || DEFAULT_LOCAL_DB_PATH;
+    return new LocalFileAdapter(filePath === IN_MEMORY_PATH ? filePath : path.resolve(filePath));
+  }
+  return new InstantDBAdapter();
+};
+
+let sharedAdapter: PersistenceAdapter | null = null;
+
+export const getPersistenceAdapter = (): PersistenceAdapter => {
+  if (!sharedAdapter) {
+    sharedAdapter = createPersistenceAdapter();
+    console.log(`Using ${sharedAdapter.name} persistence adapter`);
+  }
+  return sharedAdapter;
+};
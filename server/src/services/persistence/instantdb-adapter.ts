@@ -0,0 +1,31 @@
+import { db } from '../../config/instantdb';
+import type { EntityName, FindOptions, PersistenceAdapter, StoreOperation, WhereClause } from './types';
+
+// Hosted InstantDB store. Needs INSTANT_DB_APP_ID and INSTANT_DB_ADMIN_TOKEN.
+export class InstantDBAdapter implements PersistenceAdapter {
+  readonly name = 'instantdb' as const;
+
+  async find<T>(entity: EntityName, where?: WhereClause, options: FindOptions = {}): Promise<T[]> {
+    const $ = {
+      ...(where ? { where } : {}),
+      ...(options.order ? { order: { [options.order.field]: options.order.direction } } : {}),
+      ...(options.limit !== undefined ? { limit: options.limit } : {}),
+    };
+    const result = await db.query({ [entity]: Object.keys($).length ? { $ } : {} });
+    return (result[entity] as T[] | undefined) ?? [];
+  }
+
+  // Only ids come back, so a count does not pull every attribute over the wire
+  async count(entity: EntityName, where?: WhereClause): Promise<number> {
+    const result = await db.query({ [entity]: { $: { ...(where ? { where } : {}), fields: ['id'] } } });
+    return (result[entity] as unknown[] | undefined)?.length ?? 0;
+  }
+
+  async transact(operations: StoreOperation[]): Promise<void> {
+    await db.transact(operations.map((operation) => (
+      operation.kind === 'delete'
+        ? db.tx[operation.entity][operation.id].delete()
+        : db.tx[operation.entity][operation.id].update(operation.data)
+    )));
+  }
+}
@@ -0,0 +1,138 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { readSortValue } from '../../../../shared/pagination';
+import type {
+  EntityName,
+  FindOptions,
+  PersistenceAdapter,
+  StoreOperation,
+  StoredRecord,
+  WhereClause,
+  WhereCondition,
+} from './types';
+
+type Collections = Partial<Record<EntityName, Record<string, StoredRecord>>>;
+
+export const IN_MEMORY_PATH = ':memory:';
+
+// Mirrors how InstantDB evaluates the where operators DatabaseService uses
+const matchesCondition = (value: unknown, condition: WhereCondition): boolean => {
+  if (typeof condition !== 'object') {
+    return value === condition;
+  }
+  if ('$in' in condition) {
+    return condition.$in.some((candidate) => candidate === value);
+  }
+  if ('$isNull' in condition) {
+    return (value === undefined || value === null) === condition.$isNull;
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return false;
+  }
+  return (condition.$gte === undefined || value >= condition.$gte)
+    && (condition.$lte === undefined || value <= condition.$lte);
+};
+
+// Stand-in for InstantDB's ordering on an indexed attribute
+const orderRecords = (records: StoredRecord[], order: NonNullable<FindOptions['order']>): StoredRecord[] => {
+  const direction = order.direction === 'asc' ? 1 : -1;
+  return [...records].sort((a, b) => {
+    const aValue = readSortValue(a, order.field);
+    const bValue = readSortValue(b, order.field);
+    if (aValue === bValue) return 0;
+    if (aValue === null) return 1;
+    if (bValue === null) return -1;
+    return (aValue < bValue ? -1 : 1) * direction;
+  });
+};
+
+// Embedded store that keeps every entity in one JSON file, for offline development and tests.
+// Pass ':memory:' as the path to skip the file entirely.
+export class LocalFileAdapter implements PersistenceAdapter {
+  readonly name = 'local' as const;
+  private collections: Promise<Collections> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string = IN_MEMORY_PATH) {}
+
+  async find<T>(entity: EntityName, where: WhereClause = {}, options: FindOptions = {}): Promise<T[]> {
+    const collections = await this.load();
+    const conditions = Object.entries(where);
+
+    let records = Object.values(collections[entity] ?? {})
+      .filter((record) => conditions.every(([key, condition]) => matchesCondition(record[key], condition)));
+    if (options.order) {
+      records = orderRecords(records, options.order);
+    }
+    if (options.limit !== undefined) {
+      records = records.slice(0, options.limit);
+    }
+    return records.map((record) => structuredClone(record) as T);
+  }
+
+  async count(entity: EntityName, where: WhereClause = {}): Promise<number> {
+    return (await this.find(entity, where)).length;
+  }
+
+  async transact(operations: StoreOperation[]): Promise<void> {
+    const collections = await this.load();
+
+    for (const operation of operations) {
+      const records = collections[operation.entity] ?? {};
+      collections[operation.entity] = records;
+
+      if (operation.kind === 'delete') {
+        delete records[operation.id];
+        continue;
+      }
+
+      const merged: StoredRecord = {
+        ...records[operation.id],
+        ...structuredClone(operation.data as Record<string, unknown>),
+        id: operation.id,
+      };
+      for (const [key, value] of Object.entries(merged)) {
+        if (value === null || value === undefined) {
+          delete merged[key];
+        }
+      }
+      records[operation.id] = merged;
+    }
+
+    await this.save(collections);
+  }
+
+  private load(): Promise<Collections> {
+    if (!this.collections) {
+      this.collections = this.filePath === IN_MEMORY_PATH
+        ? Promise.resolve({})
+        : fs.readFile(this.filePath, 'utf8')
+          .then((contents) => JSON.parse(contents) as Collections)
+          .catch((error: NodeJS.ErrnoException) => {
+            if (error.code === 'ENOENT') {
+              return {};
+            }
+            throw new Error(`Failed to read local database at ${this.filePath}: ${error.message}`);
+          });
+    }
+    return this.collections;
+  }
+
+  // Writes are queued so overlapping transactions never interleave, and go through a temp file
+  // so a crash mid-write cannot leave a truncated database behind
+  private save(collections: Collections): Promise<void> {
+    if (this.filePath === IN_MEMORY_PATH) {
+      return Promise.resolve();
+    }
+
+    const write = async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(collections, null, 2), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    };
+
+    this.pendingWrite = this.pendingWrite.then(write, write);
+    return this.pendingWrite;
+  }
+}
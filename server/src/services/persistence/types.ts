@@ -0,0 +1,39 @@
+import type { instantDBSchema } from '../../types/database';
+
+export type EntityName = keyof typeof instantDBSchema.entities;
+
+export type PersistenceAdapterName = 'instantdb' | 'local';
+
+export type StoredRecord = { id: string } & Record<string, unknown>;
+
+export type WhereValue = string | number | boolean;
+
+// Every listed attribute must match. Besides plain equality these are the InstantDB operators the
+// service pushes down; range comparisons need the attribute to be indexed in InstantDB.
+export type WhereCondition =
+  | WhereValue
+  | { $in: WhereValue[] }
+  | { $gte?: string | number; $lte?: string | number }
+  | { $isNull: boolean };
+
+export type WhereClause = Record<string, WhereCondition>;
+
+// Ordering and a row cap applied by the store itself; ordering needs the attribute indexed in InstantDB.
+// Records missing the order attribute are not guaranteed a position, so callers exclude them.
+export interface FindOptions {
+  order?: { field: string; direction: 'asc' | 'desc' };
+  limit?: number;
+}
+
+export type StoreOperation =
+  | { kind: 'update'; entity: EntityName; id: string; data: object }
+  | { kind: 'delete'; entity: EntityName; id: string };
+
+// Storage backend behind DatabaseService.
+// An update merges into the stored record (creating it when missing) and a null attribute clears it.
+export interface PersistenceAdapter {
+  readonly name: PersistenceAdapterName;
+  find<T = StoredRecord>(entity: EntityName, where?: WhereClause, options?: FindOptions): Promise<T[]>;
+  count(entity: EntityName, where?: WhereClause): Promise<number>;
+  transact(operations: StoreOperation[]): Promise<void>;
+}
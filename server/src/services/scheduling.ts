@@ -0,0 +1,128 @@
+import type {
+  Appointment,
+  Bay,
+  ShopClosure,
+  ShopHoursSettings,
+  ShopHoursViolation,
+  Weekday,
+} from '../types/database';
+import { bookingsCollide } from '../../../shared/buffers';
+
+type BookingWindow = Pick<Appointment, 'bay' | 'startAt' | 'endAt'>;
+
+const toTime = (value: string) => new Date(value).getTime();
+
+export const isValidBookingWindow = (window: Pick<Appointment, 'startAt' | 'endAt'>): boolean => {
+  const start = toTime(window.startAt);
+  const end = toTime(window.endAt);
+  return !Number.isNaN(start) && !Number.isNaN(end) && end > start;
+};
+
+// Back-to-back bookings (one ends exactly when the next starts) only overlap once a buffer is reserved
+export const bookingsOverlap = (a: BookingWindow, b: BookingWindow, bufferMinutes = 0): boolean => {
+  return bookingsCollide(
+    { start: a.startAt, end: a.endAt },
+    { start: b.startAt, end: b.endAt },
+    bufferMinutes
+  );
+};
+
+export const findOverlappingAppointments = (
+  candidate: BookingWindow,
+  appointments: Appointment[],
+  excludeId?: string,
+  bufferMinutes = 0
+): Appointment[] => {
+  return appointments
+    .filter((appointment) => (
+      appointment.id !== excludeId &&
+      appointment.bay === candidate.bay &&
+      bookingsOverlap(candidate, appointment, bufferMinutes)
+    ))
+    .sort((a, b) => toTime(a.startAt) - toTime(b.startAt));
+};
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+interface ShopLocalTime {
+  date: string; // YYYY-MM-DD in the shop timezone
+  weekday: Weekday;
+  minutes: number; // minutes since local midnight
+}
+
+const formatWeekday = (weekday: Weekday) => `${weekday.charAt(0).toUpperCase()}${weekday.slice(1)}`;
+
+const timeStringToMinutes = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const toShopLocalTime = (value: string, timezone: string): ShopLocalTime => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(value));
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '00';
+
+  const date = `${part('year')}-${part('month')}-${part('day')}`;
+  // Calendar dates map to weekdays the same way in every timezone, so resolve it in UTC
+  const weekday = WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+
+  return {
+    date,
+    weekday,
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+};
+
+// Closures are stored as inclusive YYYY-MM-DD ranges; bay closures only block their own bay
+export const closureApplies = (closure: ShopClosure, bay: Bay, date: string): boolean => {
+  if (closure.appliesTo === 'bay' && closure.bayId !== bay) {
+    return false;
+  }
+  const endDate = closure.endDate || closure.startDate;
+  return closure.startDate <= date && date <= endDate;
+};
+
+export const findShopHoursViolations = (
+  candidate: BookingWindow,
+  hours: ShopHoursSettings
+): ShopHoursViolation[] => {
+  const start = toShopLocalTime(candidate.startAt, hours.timezone);
+  const end = toShopLocalTime(candidate.endAt, hours.timezone);
+  const violations: ShopHoursViolation[] = [];
+
+  const day = hours.days[start.weekday];
+  if (!day || day.closed) {
+    violations.push({
+      type: 'closed-day',
+      message: `The shop is closed on ${formatWeekday(start.weekday)}s`,
+    });
+  } else if (
+    start.date !== end.date ||
+    start.minutes < timeStringToMinutes(day.open) ||
+    end.minutes > timeStringToMinutes(day.close)
+  ) {
+    violations.push({
+      type: 'outside-hours',
+      message: `Appointments on ${formatWeekday(start.weekday)} must fall between ${day.open} and ${day.close} (${hours.timezone})`,
+    });
+  }
+
+  (hours.closures ?? [])
+    .filter((closure) => closureApplies(closure, candidate.bay, start.date) || closureApplies(closure, candidate.bay, end.date))
+    .forEach((closure) => {
+      violations.push({
+        type: 'closure',
+        message: `${closure.name || 'Closure'} blocks ${closure.appliesTo === 'bay' ? 'this bay' : 'the shop'} from ${closure.startDate} to ${closure.endDate || closure.startDate}`,
+        closureId: closure.id,
+      });
+    });
+
+  return violations;
+};
@@ -1,150 +1,235 @@
 // Backend database types for Mechanic Shop OS
-// Aligns with frontend data contracts so REST/InstantDB responses are consistent
+// Records and enums come from shared/domain.ts so REST/InstantDB responses match the frontend
+
+import type { StatusOverride } from '../../../shared/job-status-transitions';
+import type {
+  Appointment,
+  AppointmentConflict,
+  Bay,
+  CallOutcome,
+  Job,
+  JobPriority,
+  JobStatus,
+  PreferredContact,
+  ShopHoursViolation,
+  Technician,
+} from '../../../shared/domain';
+import type { PartsOrder } from '../../../shared/parts-orders';
+import type { BillingLineItem, InvoiceStatus } from '../../../shared/billing';
+import type { FollowUpStatus, FollowUpTask } from '../../../shared/follow-ups';
+import type { Communication, CommunicationType } from '../../../shared/communications';
+import type {
+  AppointmentInput,
+  CallInput,
+  CustomerInput,
+  JobAttachmentInput,
+  JobAttachmentUploadInput,
+  JobInput,
+  JobMilestoneInput,
+  OdometerReadingInput,
+  VehicleInput,
+} from '../../../shared/schemas';
+import type { CallSortField, CustomerSortField, JobSortField, ListQuery } from '../../../shared/pagination';
+
+export type {
+  Appointment,
+  AppointmentBookingOptions,
+  AppointmentConflict,
+  Bay,
+  BayConfigurationItem,
+  BusinessDay,
+  Call,
+  CallOutcome,
+  CallServicePriority,
+  CallSource,
+  CallStatus,
+  Customer,
+  DashboardScheduleEntry,
+  DashboardStats,
+  Job,
+  JobBilling,
+  JobNote,
+  JobPriority,
+  JobStatus,
+  OverbookingPolicy,
+  PreferredContact,
+  SchedulingDefaultsConfig,
+  ShopClosure,
+  ShopHoursSettings,
+  ShopHoursViolation,
+  ShopHoursViolationType,
+  ShopSettings,
+  StatusPalette,
+  Technician,
+  Vehicle,
+  Weekday,
+} from '../../../shared/domain';
+export {
+  isValidBay,
+  isValidCallOutcome,
+  isValidDateKey,
+  isValidInvoiceNumber,
+  isValidJobPriority,
+  isValidJobStatus,
+  isValidPreferredContact,
+  isValidWorkingHours,
+} from '../../../shared/domain';
+export type {
+  ApiResponse,
+  AppointmentBookingResponse,
+  AppointmentLockedResponse,
+  ListResponse,
+  OdometerReadingResponse,
+  VehicleSaveResponse,
+} from '../../../shared/api';
+export type { StatusOverride, StatusTransitionRule } from '../../../shared/job-status-transitions';
+export type { JobCompletion, JobStatusEvent } from '../../../shared/job-status-history';
+export type { PartsOrder, PartsOrderStatus } from '../../../shared/parts-orders';
+export type { JobMilestone, JobMilestoneStatus, MilestoneProgress } from '../../../shared/job-milestones';
+export { isValidJobMilestoneStatus } from '../../../shared/job-milestones';
+export type {
+  AttachmentUploadMimeType,
+  JobAttachment,
+  JobAttachmentFile,
+  JobAttachmentType,
+  JobPhotoStage,
+} from '../../../shared/job-attachments';
+export { isValidJobAttachmentType } from '../../../shared/job-attachments';
+export { isValidPartsOrderStatus } from '../../../shared/parts-orders';
+export type {
+  BillingLineItem,
+  BillingLineItemType,
+  BillingTotals,
+  Estimate,
+  EstimateStatus,
+  Invoice,
+  InvoiceStatus,
+} from '../../../shared/billing';
+export type { FollowUpPriority, FollowUpStatus, FollowUpTask, FollowUpTaskType } from '../../../shared/follow-ups';
+export { isValidFollowUpPriority, isValidFollowUpStatus, isValidFollowUpTaskType } from '../../../shared/follow-ups';
+export type { Communication, CommunicationDirection, CommunicationType } from '../../../shared/communications';
+export { isValidCommunicationDirection, isValidCommunicationType } from '../../../shared/communications';
+export type {
+  MileageHistoryEntry,
+  OdometerReading,
+  OdometerReadingKind,
+  VehicleMileageHistory,
+} from '../../../shared/mileage';
+export type { AppointmentLockOverride, EditingLockOverride, LockOverrideAction } from '../../../shared/editing-lock';
+export type { BayCapability } from '../../../shared/bays';
+export type { SegmentPosition } from '../../../shared/appointment-segments';
+export type { DependencySummary, DependentRecordType } from '../../../shared/record-dependencies';
+export type { ArchivableEntity, ArchiveField, ArchiveMetadata } from '../../../shared/archive';
+export { isArchivableEntity } from '../../../shared/archive';
+export type {
+  CallSortField,
+  CustomerSortField,
+  JobSortField,
+  ListQuery,
+  Page,
+  SortOrder,
+} from '../../../shared/pagination';
+
+// Request payloads are whatever the shared schemas in shared/schemas.ts accept
+export type CreateCustomerRequest = CustomerInput;
+export type UpdateCustomerRequest = Partial<CreateCustomerRequest>;
+
+export type CreateVehicleRequest = VehicleInput;
+export type UpdateVehicleRequest = Partial<CreateVehicleRequest>;
+
+export type CreateJobRequest = JobInput;
+export type UpdateJobRequest = Partial<CreateJobRequest>;
 
-export interface Customer {
-  id: string;
-  name: string;
-  phone: string;
-  email?: string;
-  address?: string;
-  preferredContact: PreferredContact;
-  createdAt: string;
-  updatedAt: string;
+export interface JobUpdateOptions {
+  // Required for transitions that are only allowed with supervisor approval (e.g. reopening a completed job)
+  override?: StatusOverride;
+  // Recorded on the status history entry when the status changes
+  actor?: string;
+  reason?: string;
+  // Moving to waiting-parts: end the job's in-progress appointment segment now
+  endCurrentSegment?: boolean;
 }
 
-export interface Vehicle {
-  id: string;
-  customerId: string;
-  year: number;
-  make: string;
-  model: string;
-  licensePlate?: string;
-  mileage?: number;
-  color?: string;
-  vin?: string;
-  createdAt: string;
-  updatedAt: string;
+export interface DeleteOptions {
+  // Remove dependent records in the same transaction instead of refusing the delete
+  cascade?: boolean;
 }
 
-export type JobPriority = 'low' | 'medium' | 'high';
-export type JobStatus =
-  | 'intake'
-  | 'incoming-call'
-  | 'scheduled'
-  | 'in-progress'
-  | 'in-bay'
-  | 'waiting-parts'
-  | 'completed';
+export type CreateAppointmentRequest = AppointmentInput;
+export type UpdateAppointmentRequest = Partial<CreateAppointmentRequest>;
 
-export interface JobNote {
-  id: string;
-  author: string;
-  content: string;
-  createdAt: string;
-  type?: 'general' | 'technical' | 'customer' | 'internal';
-  isImportant?: boolean;
-}
+export type CreateCallRequest = CallInput;
+export type UpdateCallRequest = Partial<CreateCallRequest>;
 
-export interface Job {
-  id: string;
-  title: string;
-  customerId: string;
-  vehicleId: string;
-  estHours: number;
-  status: JobStatus;
-  priority: JobPriority;
-  invoiceNumber?: string;
-  notes?: string;
-  noteEntries?: JobNote[];
-  createdAt: string;
-  updatedAt: string;
-}
+export type CreateTechnicianRequest = Omit<Technician, 'id' | 'createdAt' | 'updatedAt' | 'isActive' | 'workingHours'>
+  & Partial<Pick<Technician, 'isActive' | 'workingHours'>>;
+export type UpdateTechnicianRequest = Partial<CreateTechnicianRequest>;
 
-export type Bay = string;
+export type CreateJobMilestoneRequest = JobMilestoneInput;
+export type UpdateJobMilestoneRequest = Partial<CreateJobMilestoneRequest>;
 
-export interface Appointment {
-  id: string;
-  jobId: string;
-  bay: Bay;
-  startAt: string;
-  endAt: string;
-  createdAt: string;
-  updatedAt: string;
-}
+export type CreateJobAttachmentRequest = JobAttachmentInput;
+export type UpdateJobAttachmentRequest = Partial<CreateJobAttachmentRequest>;
+export type UploadJobAttachmentRequest = JobAttachmentUploadInput;
 
-export type CallOutcome =
-  | 'scheduled'
-  | 'quote-requested'
-  | 'follow-up'
-  | 'no-action'
-  | 'transferred'
-  | 'incomplete';
+export type RecordOdometerRequest = OdometerReadingInput;
 
-export type CallServicePriority = 'low' | 'normal' | 'high' | 'urgent';
-export type CallStatus = 'open' | 'in-progress' | 'completed';
-export type CallSource = 'phone' | 'walk-in' | 'referral' | 'online' | 'repeat';
+export interface OdometerReadingResult {
+  job: Job;
+  // Set when the reading is lower than the vehicle's previous one; the reading is still saved
+  mileageWarning?: string;
+}
 
-export interface Call {
-  id: string;
-  callId?: string;
-  customerId?: string;
-  customerName?: string;
-  jobId?: string;
-  vehicleId?: string;
-  vehicleYear?: number;
-  vehicleMake?: string;
-  vehicleModel?: string;
-  phoneNumber: string;
-  callStartTime: string;
-  callDuration?: number;
-  callReason?: string;
-  callNotes?: string;
-  customerConcerns?: string[];
-  followUpRequired?: boolean;
-  followUpDate?: string;
-  appointmentRequested?: boolean;
-  quoteRequested?: boolean;
-  callOutcome: CallOutcome;
-  nextAction?: string;
-  callTakenBy?: string;
-  callSource?: CallSource;
-  serviceType?: string;
-  servicePriority?: CallServicePriority;
-  estimatedCost?: number;
-  status?: CallStatus;
-  createdAt: string;
-  updatedAt: string;
+// A file received by the upload route, before it is written to disk
+export interface AttachmentUpload {
+  originalName: string;
+  mimeType: string;
+  buffer: Buffer;
 }
 
-export type PreferredContact = 'phone' | 'email';
+export type CreatePartsOrderRequest = Omit<PartsOrder, 'id' | 'jobId' | 'status' | 'createdAt' | 'updatedAt'>
+  & Partial<Pick<PartsOrder, 'status'>>;
+export type UpdatePartsOrderRequest = Partial<CreatePartsOrderRequest>;
 
-export type CreateCustomerRequest = Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>;
-export type UpdateCustomerRequest = Partial<CreateCustomerRequest>;
+export type CreateFollowUpTaskRequest = Omit<FollowUpTask, 'id' | 'status' | 'snoozeCount' | 'completedAt' | 'completedBy' | 'outcome' | 'createdAt' | 'updatedAt'>
+  & Partial<Pick<FollowUpTask, 'status'>>;
+export type UpdateFollowUpTaskRequest = Partial<Omit<CreateFollowUpTaskRequest, 'callId'>>;
 
-export type CreateVehicleRequest = Omit<Vehicle, 'id' | 'createdAt' | 'updatedAt'>;
-export type UpdateVehicleRequest = Partial<CreateVehicleRequest>;
-
-export type CreateJobRequest = Omit<Job, 'id' | 'createdAt' | 'updatedAt'>;
-export type UpdateJobRequest = Partial<CreateJobRequest>;
+export type CreateCommunicationRequest = Omit<Communication, 'id' | 'occurredAt' | 'createdAt' | 'updatedAt'>
+  & Partial<Pick<Communication, 'occurredAt'>>;
+export type UpdateCommunicationRequest = Partial<Omit<CreateCommunicationRequest, 'customerId' | 'callId'>>;
 
-export type CreateAppointmentRequest = Omit<Appointment, 'id' | 'createdAt' | 'updatedAt'>;
-export type UpdateAppointmentRequest = Partial<CreateAppointmentRequest>;
+export interface SaveEstimateRequest {
+  lineItems: Array<Omit<BillingLineItem, 'id'> & Partial<Pick<BillingLineItem, 'id'>>>;
+  taxRate?: number;
+  notes?: string;
+}
 
-export type CreateCallRequest = Omit<Call, 'id' | 'createdAt' | 'updatedAt'>;
-export type UpdateCallRequest = Partial<CreateCallRequest>;
+export interface InvoiceQueryFilters {
+  status?: InvoiceStatus[];
+  dateRange?: {
+    start: string;
+    end: string;
+  };
+}
 
-export interface JobQueryFilters {
+export interface JobQueryFilters extends ListQuery<JobSortField> {
   status?: JobStatus[];
   priority?: JobPriority[];
   bay?: Bay[];
   customerId?: string;
   vehicleId?: string;
+  technicianId?: string;
   dateRange?: {
     start: string;
     end: string;
   };
-  limit?: number;
-  offset?: number;
+  includeArchived?: boolean;
+}
+
+export interface TechnicianQueryFilters {
+  isActive?: boolean;
+  skill?: string;
 }
 
 export interface VehicleQueryFilters {
@@ -154,127 +239,59 @@ export interface VehicleQueryFilters {
   model?: string;
   year?: number;
   search?: string;
+  includeArchived?: boolean;
 }
 
-export interface CustomerQueryFilters {
+export interface CustomerQueryFilters extends ListQuery<CustomerSortField> {
   search?: string;
   preferredContact?: PreferredContact[];
   hasActiveJobs?: boolean;
-  limit?: number;
-  offset?: number;
+  includeArchived?: boolean;
 }
 
-export interface CallQueryFilters {
+export interface CallQueryFilters extends ListQuery<CallSortField> {
   outcome?: CallOutcome[];
   customerId?: string;
+  jobId?: string;
   dateRange?: {
     start: string;
     end: string;
   };
-  limit?: number;
-  offset?: number;
-}
-
-export type Weekday =
-  | 'monday'
-  | 'tuesday'
-  | 'wednesday'
-  | 'thursday'
-  | 'friday'
-  | 'saturday'
-  | 'sunday';
-
-export interface BusinessDay {
-  open: string;
-  close: string;
-  closed: boolean;
+  includeArchived?: boolean;
 }
 
-export interface ShopClosure {
-  id: string;
-  name: string;
-  startDate: string;
-  endDate: string;
-  appliesTo: 'shop' | 'bay';
-}
-
-export interface ShopHoursSettings {
-  timezone: string;
-  days: Record<Weekday, BusinessDay>;
-  closures: ShopClosure[];
-}
-
-export interface BayConfigurationItem {
-  id: string;
-  name: string;
-  shortCode: string;
-  isActive: boolean;
-  supportsHeavyDuty: boolean;
-  notes: string;
-}
-
-export interface StatusPalette {
-  primary: string;
-  accent: string;
-}
-
-export interface SchedulingDefaultsConfig {
-  defaultJobDuration: number;
-  minimumSlotIncrement: number;
-  bufferMinutes: number;
-  enableAutoBuffers: boolean;
-  lockEditingWithinMinutes: number;
-  allowSameDayScheduling: boolean;
-  overbookingPolicy: 'strict' | 'soft' | 'manual';
+export interface AppointmentQueryFilters {
+  includeArchived?: boolean;
+  jobId?: string;
 }
 
-export interface ShopSettings {
-  id: string;
-  shopName: string;
-  address?: string;
-  phone?: string;
-  email?: string;
-  hours: ShopHoursSettings;
-  bays: BayConfigurationItem[];
-  statusPalettes: Record<JobStatus, StatusPalette>;
-  schedulingDefaults: SchedulingDefaultsConfig;
-  createdAt: string;
-  updatedAt: string;
+export interface FollowUpQueryFilters {
+  status?: FollowUpStatus[];
+  callId?: string;
+  customerId?: string;
+  assignedTo?: string;
+  overdue?: boolean;
 }
 
-export interface DashboardScheduleEntry {
-  appointmentId: string;
-  jobId: string;
-  jobTitle?: string;
-  status?: JobStatus;
-  bay: Bay;
-  startAt: string;
-  endAt: string;
-  customerName?: string;
-  vehicle?: {
-    year?: number;
-    make?: string;
-    model?: string;
-    licensePlate?: string;
+export interface CommunicationQueryFilters {
+  customerId?: string;
+  jobId?: string;
+  callId?: string;
+  type?: CommunicationType[];
+  dateRange?: {
+    start: string;
+    end: string;
   };
 }
 
-export interface DashboardStats {
-  today: {
-    carsScheduled: number;
-    hoursBooked: number;
-    totalCapacity: number;
-    waitingOnParts: number;
-    completed: number;
-  };
-  thisWeek: {
-    jobsCompleted: number;
-    totalRevenue?: number;
-    averageJobTime: number;
-    customerSatisfaction?: number;
-  };
-  todaySchedule: DashboardScheduleEntry[];
+export interface AppointmentBookingResult {
+  appointment: Appointment;
+  // Overlaps that were accepted under the 'soft' policy or an explicit override
+  conflicts: AppointmentConflict[];
+  // Shop hours violations that were accepted via an explicit override
+  hoursViolations: ShopHoursViolation[];
 }
+
 export const instantDBSchema = {
   entities: {
     customers: {
@@ -284,6 +301,8 @@ export const instantDBSchema = {
       email: 'string?',
       address: 'string?',
       preferredContact: 'string',
+      archivedAt: 'string?',
+      archivedBy: 'string?',
       createdAt: 'string',
       updatedAt: 'string',
     },
@@ -297,6 +316,8 @@ export const instantDBSchema = {
       mileage: 'number?',
       color: 'string?',
       vin: 'string?',
+      archivedAt: 'string?',
+      archivedBy: 'string?',
       createdAt: 'string',
       updatedAt: 'string',
     },
@@ -311,6 +332,133 @@ export const instantDBSchema = {
       invoiceNumber: 'string?',
       notes: 'string?',
       noteEntries: 'string?',
+      technicianId: 'string?',
+      estimateTotal: 'number?',
+      invoiceTotal: 'number?',
+      checkInOdometer: 'json?',
+      checkOutOdometer: 'json?',
+      requiredCapabilities: 'json?',
+      archivedAt: 'string?',
+      archivedBy: 'string?',
+      createdAt: 'string',
+      updatedAt: 'string',
+    },
+    jobStatusEvents: {
+      id: 'string',
+      jobId: 'string',
+      fromStatus: 'string?',
+      toStatus: 'string',
+      actor: 'string',
+      reason: 'string?',
+      createdAt: 'string',
+    },
+    partsOrders: {
+      id: 'string',
+      jobId: 'string',
+      supplier: 'string',
+      partNumber: 'string',
+      description: 'string?',
+      quantity: 'number',
+      unitCost: 'number',
+      status: 'string',
+      orderedAt: 'string?',
+      expectedAt: 'string?',
+      receivedAt: 'string?',
+      notes: 'string?',
+      createdAt: 'string',
+      updatedAt: 'string',
+    },
+    jobMilestones: {
+      id: 'string',
+      jobId: 'string',
+      title: 'string',
+      status: 'string',
+      description: 'string?',
+      dueAt: 'string?',
+      assignedTo: 'string?',
+      completedAt: 'string?',
+      createdAt: 'string',
+      updatedAt: 'string',
+    },
+    jobAttachments: {
+      id: 'string',
+      jobId: 'string',
+      label: 'string',
+      type: 'string',
+      url: 'string?',
+      file: 'json?',
+      stage: 'string?',
+      uploadedAt: 'string',
+      uploadedBy: 'string?',
+      updatedAt: 'string',
+    },
+    estimates: {
+      id: 'string',
+      jobId: 'string',
+      lineItems: 'string',
+      taxRate: 'number',
+      status: 'string',
+      notes: 'string?',
+      approvedAt: 'string?',
+      approvedBy: 'string?',
+      laborTotal: 'number',
+      partsTotal: 'number',
+      feesTotal: 'number',
+      subtotal: 'number',
+      tax: 'number',
+      total: 'number',
+      createdAt: 'string',
+      updatedAt: 'string',
+    },
+    invoices: {
+      id: 'string',
+      jobId: 'string',
+      estimateId: 'string',
+      invoiceNumber: 'string',
+      lineItems: 'string',
+      taxRate: 'number',
+      status: 'string',
+      issuedAt: 'string',
+      paidAt: 'string?',
+      laborTotal: 'number',
+      partsTotal: 'number',
+      feesTotal: 'number',
+      subtotal: 'number',
+      tax: 'number',
+      total: 'number',
+      createdAt: 'string',
+      updatedAt: 'string',
+    },
+    followUpTasks: {
+      id: 'string',
+      callId: 'string',
+      customerId: 'string?',
+      type: 'string',
+      priority: 'string',
+      status: 'string',
+      title: 'string',
+      description: 'string?',
+      notes: 'string?',
+      dueAt: 'string',
+      assignedTo: 'string?',
+      snoozeCount: 'number',
+      completedAt: 'string?',
+      completedBy: 'string?',
+      outcome: 'string?',
+      createdAt: 'string',
+      updatedAt: 'string',
+    },
+    communications: {
+      id: 'string',
+      customerId: 'string',
+      jobId: 'string?',
+      callId: 'string?',
+      type: 'string',
+      direction: 'string',
+      subject: 'string?',
+      body: 'string',
+      occurredAt: 'string',
+      author: 'string',
       createdAt: 'string',
       updatedAt: 'string',
     },
@@ -320,6 +468,19 @@ export const instantDBSchema = {
       bay: 'string',
       startAt: 'string',
       endAt: 'string',
+      technicianId: 'string?',
+      lockOverrides: 'json?',
+      archivedAt: 'string?',
+      archivedBy: 'string?',
+      createdAt: 'string',
+      updatedAt: 'string',
+    },
+    technicians: {
+      id: 'string',
+      name: 'string',
+      skills: 'string',
+      isActive: 'boolean',
+      workingHours: 'string',
       createdAt: 'string',
       updatedAt: 'string',
     },
@@ -351,6 +512,8 @@ export const instantDBSchema = {
       servicePriority: 'string?',
       estimatedCost: 'number?',
       status: 'string?',
+      archivedAt: 'string?',
+      archivedBy: 'string?',
       createdAt: 'string',
       updatedAt: 'string',
     },
@@ -381,54 +544,62 @@ export const instantDBSchema = {
       forward: { on: 'vehicles', label: 'jobs', has: 'many' },
       reverse: { on: 'jobs', label: 'vehicle', has: 'one' },
     },
-    jobAppointment: {
-      forward: { on: 'jobs', label: 'appointment', has: 'one' },
+    jobStatusEvents: {
+      forward: { on: 'jobs', label: 'statusEvents', has: 'many' },
+      reverse: { on: 'jobStatusEvents', label: 'job', has: 'one' },
+    },
+    jobPartsOrders: {
+      forward: { on: 'jobs', label: 'partsOrders', has: 'many' },
+      reverse: { on: 'partsOrders', label: 'job', has: 'one' },
+    },
+    jobMilestones: {
+      forward: { on: 'jobs', label: 'milestones', has: 'many' },
+      reverse: { on: 'jobMilestones', label: 'job', has: 'one' },
+    },
+    jobAttachments: {
+      forward: { on: 'jobs', label: 'attachments', has: 'many' },
+      reverse: { on: 'jobAttachments', label: 'job', has: 'one' },
+    },
+    jobEstimate: {
+      forward: { on: 'jobs', label: 'estimate', has: 'one' },
+      reverse: { on: 'estimates', label: 'job', has: 'one' },
+    },
+    jobInvoices: {
+      forward: { on: 'jobs', label: 'invoices', has: 'many' },
+      reverse: { on: 'invoices', label: 'job', has: 'one' },
+    },
+    // A job can be booked in several segments; see shared/appointment-segments
+    jobAppointments: {
+      forward: { on: 'jobs', label: 'appointments', has: 'many' },
       reverse: { on: 'appointments', label: 'job', has: 'one' },
     },
+    technicianJobs: {
+      forward: { on: 'technicians', label: 'jobs', has: 'many' },
+      reverse: { on: 'jobs', label: 'technician', has: 'one' },
+    },
+    technicianAppointments: {
+      forward: { on: 'technicians', label: 'appointments', has: 'many' },
+      reverse: { on: 'appointments', label: 'technician', has: 'one' },
+    },
     customerCalls: {
       forward: { on: 'customers', label: 'calls', has: 'many' },
       reverse: { on: 'calls', label: 'customer', has: 'one' },
     },
+    customerCommunications: {
+      forward: { on: 'customers', label: 'communications', has: 'many' },
+      reverse: { on: 'communications', label: 'customer', has: 'one' },
+    },
+    jobCommunications: {
+      forward: { on: 'jobs', label: 'communications', has: 'many' },
+      reverse: { on: 'communications', label: 'job', has: 'one' },
+    },
+    callCommunications: {
+      forward: { on: 'calls', label: 'communications', has: 'many' },
+      reverse: { on: 'communications', label: 'call', has: 'one' },
+    },
+    callFollowUpTasks: {
+      forward: { on: 'calls', label: 'followUpTasks', has: 'many' },
+      reverse: { on: 'followUpTasks', label: 'call', has: 'one' },
+    },
   },
 } as const;
-
-export const isValidJobStatus = (status: string): status is JobStatus => {
-  return [
-    'intake',
-    'incoming-call',
-    'scheduled',
-    'in-progress',
-    'in-bay',
-    'waiting-parts',
-    'completed'
-  ].includes(status);
-};
-
-export const isValidJobPriority = (priority: string): priority is JobPriority => {
-  return ['low', 'medium', 'high'].includes(priority);
-};
-
-export const isValidBay = (bay: string): bay is Bay => {
-  return /^bay-[a-zA-Z0-9_-]+$/.test(bay);
-};
-
-export const isValidCallOutcome = (outcome: string): outcome is CallOutcome => {
-  return [
-    'scheduled',
-    'quote-requested',
-    'follow-up',
-    'no-action',
-    'transferred',
-    'incomplete'
-  ].includes(outcome);
-};
-
-export const isValidPreferredContact = (contact: string): contact is PreferredContact => {
-  return ['phone', 'email'].includes(contact);
-};
-
-export const isValidInvoiceNumber = (value: string): boolean => {
-  return /^[A-Za-z0-9/-]{1,20}$/.test(value);
-};
-
-
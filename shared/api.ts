@@ -0,0 +1,50 @@
+// API Responses
+// The JSON envelope every REST endpoint answers with. Route handlers type `res` with these and the
+// API client reads them, so a response that drifts from the domain types fails to compile.
+
+import type { Appointment, AppointmentConflict, Job, OverbookingPolicy, ShopHoursViolation, Vehicle } from './domain';
+import type { DependencySummary } from './record-dependencies';
+import type { FieldErrors } from './schemas';
+
+export interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+  // Set on a 400 from the request body validation
+  fieldErrors?: FieldErrors;
+  // Set on a 409 when a purge is blocked by records that still point at the target
+  dependencies?: DependencySummary;
+}
+
+// List endpoints report the full match count and a cursor for the next page alongside the items
+export interface ListResponse<T> extends ApiResponse<T[]> {
+  count?: number;
+  total?: number;
+  nextCursor?: string | null;
+}
+
+// Returned by appointment update/archive; a change inside the editing lock without an override reason
+// answers 423 with the configured lock window
+export interface AppointmentLockedResponse extends ApiResponse<Appointment> {
+  lockEditingWithinMinutes?: number;
+}
+
+// Returned by appointment create/update: overlaps accepted under the 'soft' policy, or the
+// overlaps that blocked the booking (HTTP 409) under 'strict'/'manual'
+export interface AppointmentBookingResponse extends AppointmentLockedResponse {
+  conflicts?: AppointmentConflict[];
+  policy?: OverbookingPolicy;
+  hoursViolations?: ShopHoursViolation[];
+  violations?: ShopHoursViolation[];
+}
+
+// Returned by vehicle create/update; a VIN already on file answers 409 with the vehicle that has it
+export interface VehicleSaveResponse extends ApiResponse<Vehicle> {
+  duplicateOf?: Vehicle;
+}
+
+// Returned when an odometer reading is recorded; lower than the vehicle's previous reading sets a warning
+export interface OdometerReadingResponse extends ApiResponse<Job> {
+  mileageWarning?: string;
+}
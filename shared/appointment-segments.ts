@@ -0,0 +1,62 @@
+// Appointment Segments
+// A job can be booked as several appointments (across days, around a wait for parts, or in different
+// bays). Each one is a segment: they are numbered in start order and their hours add up to the job's
+// booked time.
+
+import { isArchived } from './archive';
+import type { Appointment } from './domain';
+
+type SegmentWindow = Pick<Appointment, 'id' | 'jobId' | 'startAt' | 'endAt'> & {
+  archivedAt?: string;
+};
+
+export interface SegmentPosition {
+  part: number;
+  total: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// The job's archived appointments are not segments
+export function getJobSegments<T extends SegmentWindow>(appointments: T[], jobId: string): T[] {
+  return appointments
+    .filter((appointment) => appointment.jobId === jobId && !isArchived(appointment))
+    .sort((a, b) => new Date(a.startAt).getTime() - new Date(b.startAt).getTime());
+}
+
+// Where the appointment falls among its job's segments; null when the job is booked in one piece
+export function getSegmentPosition(appointments: SegmentWindow[], appointment: SegmentWindow): SegmentPosition | null {
+  const segments = getJobSegments(appointments, appointment.jobId);
+  const index = segments.findIndex((segment) => segment.id === appointment.id);
+  if (segments.length < 2 || index === -1) {
+    return null;
+  }
+  return { part: index + 1, total: segments.length };
+}
+
+export const formatSegmentLabel = ({ part, total }: SegmentPosition): string => `Part ${part} of ${total}`;
+
+export function getBookedHours(segments: Array<Pick<Appointment, 'startAt' | 'endAt'>>): number {
+  const totalMs = segments.reduce(
+    (sum, segment) => sum + Math.max(0, new Date(segment.endAt).getTime() - new Date(segment.startAt).getTime()),
+    0
+  );
+  return Math.round((totalMs / HOUR_MS) * 100) / 100;
+}
+
+// The segment being worked right now, if any
+export function getCurrentSegment<T extends Pick<Appointment, 'startAt' | 'endAt'>>(
+  segments: T[],
+  now: Date = new Date()
+): T | null {
+  const current = now.getTime();
+  return segments.find((segment) => (
+    new Date(segment.startAt).getTime() <= current && current < new Date(segment.endAt).getTime()
+  )) ?? null;
+}
+
+// Asked before a job moves to waiting-parts while one of its segments is under way
+export const getEndSegmentPrompt = (segment: Pick<Appointment, 'endAt'>): string => (
+  `This job is booked until ${new Date(segment.endAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}. `
+  + 'End its current appointment segment now so the bay is free while it waits for parts?'
+);
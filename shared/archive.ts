@@ -0,0 +1,27 @@
+// Archive
+// Soft-delete metadata for customers, vehicles, jobs, calls and appointments
+
+export type ArchivableEntity = 'customers' | 'vehicles' | 'jobs' | 'calls' | 'appointments';
+
+export interface ArchiveMetadata {
+  archivedAt?: string;
+  archivedBy?: string;
+}
+
+export type ArchiveField = keyof ArchiveMetadata;
+
+export const ARCHIVABLE_ENTITIES: ArchivableEntity[] = ['customers', 'vehicles', 'jobs', 'calls', 'appointments'];
+
+export const isArchivableEntity = (value: string): value is ArchivableEntity => {
+  return (ARCHIVABLE_ENTITIES as string[]).includes(value);
+};
+
+export function isArchived(record: ArchiveMetadata): boolean {
+  return Boolean(record.archivedAt);
+}
+
+// Dependents archived by the same action share its timestamp, so restoring the parent
+// brings back exactly those records and leaves ones archived separately alone
+export function wasArchivedWith(record: ArchiveMetadata, parent: ArchiveMetadata): boolean {
+  return Boolean(parent.archivedAt) && record.archivedAt === parent.archivedAt;
+}
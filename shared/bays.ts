@@ -0,0 +1,116 @@
+// Service Bays
+// The bays configured in ShopSettings.bays, and the lookups every scheduling surface builds its
+// resources, labels and booking checks from
+
+import type { BayConfigurationItem } from './domain';
+
+// Equipment a job can need from its bay. Heavy-duty is the bay's supportsHeavyDuty flag; the rest are
+// listed in BayConfigurationItem.capabilities.
+export const BAY_CAPABILITIES = ['heavy-duty', 'alignment', 'ev-service'] as const;
+export type BayCapability = typeof BAY_CAPABILITIES[number];
+
+export const BAY_CAPABILITY_DETAILS: Record<BayCapability, { label: string; description: string }> = {
+  'heavy-duty': {
+    label: 'Heavy-duty lift',
+    description: 'Transmissions, engine swaps, diesel trucks, and oversized vehicles.',
+  },
+  alignment: {
+    label: 'Alignment rack',
+    description: 'Wheel alignments and suspension geometry checks.',
+  },
+  'ev-service': {
+    label: 'EV high-voltage',
+    description: 'Insulated tools and clearance for hybrid and EV battery work.',
+  },
+};
+
+export const isValidBayCapability = (value: string): value is BayCapability => (
+  (BAY_CAPABILITIES as readonly string[]).includes(value)
+);
+
+// Used until the shop saves its own bay configuration
+export const DEFAULT_BAYS: BayConfigurationItem[] = [
+  {
+    id: 'bay-1',
+    name: 'Bay 1',
+    shortCode: 'B1',
+    isActive: true,
+    supportsHeavyDuty: false,
+    notes: 'General services and inspections.',
+  },
+  {
+    id: 'bay-2',
+    name: 'Bay 2',
+    shortCode: 'B2',
+    isActive: true,
+    supportsHeavyDuty: true,
+    notes: 'Lift-equipped bay for heavy-duty work.',
+  },
+];
+
+export const getActiveBays = (bays: BayConfigurationItem[]): BayConfigurationItem[] => (
+  bays.filter((bay) => bay.isActive)
+);
+
+// Falls back to the id so appointments in a bay that was since removed still get a label
+export function getBayLabel(bays: BayConfigurationItem[], id: string | null | undefined): string {
+  if (!id) {
+    return 'Unassigned';
+  }
+  return bays.find((bay) => bay.id === id)?.name || id;
+}
+
+// Deactivated bays keep their appointments but stop taking new bookings
+export function getBayBookingError(bays: BayConfigurationItem[], id: string): string | null {
+  const bay = bays.find((item) => item.id === id);
+  if (!bay) {
+    return `${id} is not one of the shop's configured bays`;
+  }
+  if (!bay.isActive) {
+    return `${bay.name} is inactive and not taking new bookings`;
+  }
+  return null;
+}
+
+export function getBayCapabilities(bay: BayConfigurationItem): BayCapability[] {
+  const listed = (bay.capabilities ?? []).filter((capability) => capability !== 'heavy-duty');
+  return bay.supportsHeavyDuty ? ['heavy-duty', ...listed] : listed;
+}
+
+export function getMissingCapabilities(
+  bay: BayConfigurationItem,
+  required: readonly BayCapability[] = []
+): BayCapability[] {
+  const available = getBayCapabilities(bay);
+  return required.filter((capability) => !available.includes(capability));
+}
+
+// Why a job that needs the given capabilities can't go in the bay, or null when it fits.
+// Unknown bays are left to getBayBookingError.
+export function getBayCapabilityError(
+  bays: BayConfigurationItem[],
+  id: string,
+  required: readonly BayCapability[] = []
+): string | null {
+  const bay = bays.find((item) => item.id === id);
+  const missing = bay ? getMissingCapabilities(bay, required) : [];
+  if (!bay || missing.length === 0) {
+    return null;
+  }
+  const labels = missing.map((capability) => BAY_CAPABILITY_DETAILS[capability].label);
+  return `${bay.name} is missing what this job needs: ${labels.join(', ')}`;
+}
+
+export const getCapableBays = (
+  bays: BayConfigurationItem[],
+  required: readonly BayCapability[] = []
+): BayConfigurationItem[] => bays.filter((bay) => getMissingCapabilities(bay, required).length === 0);
+
+// Active bays, plus inactive ones that still hold appointments so their history stays on the calendar
+export function getSchedulingBays(
+  bays: BayConfigurationItem[],
+  appointments: Array<{ bay: string }> = []
+): BayConfigurationItem[] {
+  const booked = new Set(appointments.map((appointment) => appointment.bay));
+  return bays.filter((bay) => bay.isActive || booked.has(bay.id));
+}
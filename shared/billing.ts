@@ -0,0 +1,131 @@
+// Billing
+// Estimate and invoice line items, totals, and invoice numbering shared by the API and the UI
+
+export type BillingLineItemType = 'labor' | 'part' | 'fee';
+export type EstimateStatus = 'draft' | 'approved' | 'declined' | 'invoiced';
+export type InvoiceStatus = 'issued' | 'paid' | 'void';
+
+export interface BillingLineItem {
+  id: string;
+  type: BillingLineItemType;
+  description: string;
+  quantity: number; // Hours for labor
+  unitPrice: number; // Hourly rate for labor
+  taxable: boolean;
+}
+
+export interface BillingTotals {
+  laborTotal: number;
+  partsTotal: number;
+  feesTotal: number;
+  subtotal: number;
+  tax: number;
+  total: number;
+}
+
+export interface Estimate extends BillingTotals {
+  id: string;
+  jobId: string;
+  lineItems: BillingLineItem[];
+  taxRate: number; // Percent applied to taxable line items
+  status: EstimateStatus;
+  notes?: string;
+  approvedAt?: string;
+  approvedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Invoice extends BillingTotals {
+  id: string;
+  jobId: string;
+  estimateId: string;
+  invoiceNumber: string;
+  lineItems: BillingLineItem[];
+  taxRate: number;
+  status: InvoiceStatus;
+  issuedAt: string;
+  paidAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const BILLING_LINE_ITEM_TYPES: BillingLineItemType[] = ['labor', 'part', 'fee'];
+
+// Parts are taxed by default; labor and shop fees are not
+export const DEFAULT_TAXABLE: Record<BillingLineItemType, boolean> = {
+  labor: false,
+  part: true,
+  fee: false,
+};
+
+const INVOICE_PREFIX = 'INV';
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export const isValidLineItem = (item: Pick<BillingLineItem, 'type' | 'description' | 'quantity' | 'unitPrice'>): boolean => {
+  return BILLING_LINE_ITEM_TYPES.includes(item.type)
+    && Boolean(item.description?.trim())
+    && Number.isFinite(item.quantity) && item.quantity > 0
+    && Number.isFinite(item.unitPrice) && item.unitPrice >= 0;
+};
+
+export function calculateBillingTotals(
+  lineItems: Array<Pick<BillingLineItem, 'type' | 'quantity' | 'unitPrice' | 'taxable'>>,
+  taxRate: number
+): BillingTotals {
+  const totals = { labor: 0, part: 0, fee: 0 };
+  let taxableAmount = 0;
+
+  for (const item of lineItems) {
+    const amount = item.quantity * item.unitPrice;
+    totals[item.type] += amount;
+    if (item.taxable) {
+      taxableAmount += amount;
+    }
+  }
+
+  const subtotal = roundCurrency(totals.labor + totals.part + totals.fee);
+  const tax = roundCurrency(taxableAmount * (taxRate / 100));
+  return {
+    laborTotal: roundCurrency(totals.labor),
+    partsTotal: roundCurrency(totals.part),
+    feesTotal: roundCurrency(totals.fee),
+    subtotal,
+    tax,
+    total: roundCurrency(subtotal + tax),
+  };
+}
+
+// Next number in the yearly INV-YYYY-NNNN sequence, skipping any numbers already taken
+export function getNextInvoiceNumber(existingNumbers: string[], date: Date = new Date()): string {
+  const prefix = `${INVOICE_PREFIX}-${date.getFullYear()}-`;
+  const highest = existingNumbers.reduce((max, invoiceNumber) => {
+    if (!invoiceNumber.startsWith(prefix)) {
+      return max;
+    }
+    const sequence = Number.parseInt(invoiceNumber.slice(prefix.length), 10);
+    return Number.isNaN(sequence) ? max : Math.max(max, sequence);
+  }, 0);
+  return `${prefix}${String(highest + 1).padStart(4, '0')}`;
+}
+
+// Invoiced revenue, optionally limited to invoices issued within [start, end)
+export function getInvoicedRevenue(
+  invoices: Array<Pick<Invoice, 'status' | 'total' | 'issuedAt'>>,
+  range?: { start: Date; end: Date }
+): number {
+  const total = invoices.reduce((sum, invoice) => {
+    if (invoice.status === 'void') {
+      return sum;
+    }
+    if (range) {
+      const issuedAt = new Date(invoice.issuedAt);
+      if (issuedAt < range.start || issuedAt >= range.end) {
+        return sum;
+      }
+    }
+    return sum + invoice.total;
+  }, 0);
+  return roundCurrency(total);
+}
@@ -0,0 +1,35 @@
+// Appointment Buffers
+// Turnaround time (cleanup, road tests) reserved after each appointment when auto buffers are enabled
+// in the shop's scheduling defaults
+
+import type { SchedulingDefaultsConfig } from './domain';
+
+const MINUTE_MS = 60 * 1000;
+
+interface BufferedWindow {
+  start: Date | string;
+  end: Date | string;
+}
+
+const toTime = (value: Date | string) => new Date(value).getTime();
+
+// Minutes to keep free after each appointment; zero while auto buffers are turned off
+export function getBufferMinutes(
+  defaults?: Pick<SchedulingDefaultsConfig, 'bufferMinutes' | 'enableAutoBuffers'> | null
+): number {
+  if (!defaults?.enableAutoBuffers) {
+    return 0;
+  }
+  return Math.max(0, defaults.bufferMinutes || 0);
+}
+
+export const getBufferEnd = (end: Date | string, bufferMinutes: number): Date => (
+  new Date(toTime(end) + bufferMinutes * MINUTE_MS)
+);
+
+// Two bookings in the same bay collide when either one starts before the other's buffer has run out.
+// With no buffer, back-to-back bookings (one ends exactly when the next starts) do not collide.
+export function bookingsCollide(a: BufferedWindow, b: BufferedWindow, bufferMinutes = 0): boolean {
+  const buffer = bufferMinutes * MINUTE_MS;
+  return toTime(a.start) < toTime(b.end) + buffer && toTime(b.start) < toTime(a.end) + buffer;
+}
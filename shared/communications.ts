@@ -0,0 +1,97 @@
+// Communications
+// Customer communication log entries and the call-to-log mapping shared by the API and the UI
+
+export type CommunicationType = 'call' | 'email' | 'sms' | 'note';
+export type CommunicationDirection = 'inbound' | 'outbound' | 'internal';
+
+export const COMMUNICATION_TYPES: CommunicationType[] = ['call', 'email', 'sms', 'note'];
+export const COMMUNICATION_DIRECTIONS: CommunicationDirection[] = ['inbound', 'outbound', 'internal'];
+
+export interface Communication {
+  id: string;
+  customerId: string;
+  jobId?: string;
+  callId?: string;
+  type: CommunicationType;
+  direction: CommunicationDirection;
+  subject?: string;
+  body: string;
+  // When the conversation happened, which may be earlier than when it was logged
+  occurredAt: string;
+  author: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The call fields a logged call is built from
+export interface CommunicationCallSource {
+  id: string;
+  customerId?: string;
+  jobId?: string;
+  callStartTime: string;
+  callReason?: string;
+  callNotes?: string;
+  customerConcerns?: string[];
+  callTakenBy?: string;
+}
+
+export const isValidCommunicationType = (type: string): type is CommunicationType => {
+  return (COMMUNICATION_TYPES as string[]).includes(type);
+};
+
+export const isValidCommunicationDirection = (direction: string): direction is CommunicationDirection => {
+  return (COMMUNICATION_DIRECTIONS as string[]).includes(direction);
+};
+
+// Timeline entry for a logged call. Calls without a customer have no timeline to appear on.
+export function getCallCommunication(
+  call: CommunicationCallSource
+): Omit<Communication, 'id' | 'createdAt' | 'updatedAt'> | null {
+  if (!call.customerId) {
+    return null;
+  }
+
+  const concerns = call.customerConcerns?.length ? `Concerns: ${call.customerConcerns.join(', ')}` : '';
+  const body = [call.callNotes?.trim(), concerns].filter(Boolean).join('\n\n');
+
+  return {
+    customerId: call.customerId,
+    jobId: call.jobId,
+    callId: call.id,
+    type: 'call',
+    direction: 'inbound',
+    subject: call.callReason?.trim() || 'Phone call',
+    body: body || call.callReason?.trim() || 'Call logged',
+    occurredAt: call.callStartTime,
+    author: call.callTakenBy?.trim() || 'Front desk',
+  };
+}
+
+// Average hours between a customer reaching out and the shop's next outbound reply.
+// Inbound messages still waiting on a reply are left out. Returns null when nothing was answered.
+export function getAverageResponseHours(
+  communications: Array<Pick<Communication, 'customerId' | 'direction' | 'occurredAt'>>
+): number | null {
+  const sorted = [...communications].sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+  const waiting = new Map<string, number>();
+  const responseTimes: number[] = [];
+
+  for (const entry of sorted) {
+    const time = new Date(entry.occurredAt).getTime();
+    if (entry.direction === 'inbound') {
+      if (!waiting.has(entry.customerId)) {
+        waiting.set(entry.customerId, time);
+      }
+    } else if (entry.direction === 'outbound' && waiting.has(entry.customerId)) {
+      responseTimes.push(time - (waiting.get(entry.customerId) as number));
+      waiting.delete(entry.customerId);
+    }
+  }
+
+  if (!responseTimes.length) {
+    return null;
+  }
+
+  const averageMs = responseTimes.reduce((sum, ms) => sum + ms, 0) / responseTimes.length;
+  return averageMs / (60 * 60 * 1000);
+}
@@ -0,0 +1,328 @@
+// Domain Types
+// Records as the API stores and returns them, with the enums and validators both sides check them with
+
+import type { JobStatus } from './job-status-transitions';
+import type { Estimate, Invoice } from './billing';
+import type { ArchiveMetadata } from './archive';
+import type { OdometerReading } from './mileage';
+import type { AppointmentLockOverride, EditingLockOverride } from './editing-lock';
+import type { BayCapability } from './bays';
+
+export type { JobStatus } from './job-status-transitions';
+
+export const JOB_STATUSES = [
+  'intake',
+  'incoming-call',
+  'scheduled',
+  'in-progress',
+  'in-bay',
+  'waiting-parts',
+  'completed',
+] as const satisfies readonly JobStatus[];
+
+export const JOB_PRIORITIES = ['low', 'medium', 'high'] as const;
+export type JobPriority = typeof JOB_PRIORITIES[number];
+
+export const PREFERRED_CONTACTS = ['phone', 'email'] as const;
+export type PreferredContact = typeof PREFERRED_CONTACTS[number];
+
+export const CALL_OUTCOMES = [
+  'scheduled',
+  'quote-requested',
+  'follow-up',
+  'no-action',
+  'transferred',
+  'incomplete',
+] as const;
+export type CallOutcome = typeof CALL_OUTCOMES[number];
+
+export const CALL_SOURCES = ['phone', 'walk-in', 'referral', 'online', 'repeat'] as const;
+export type CallSource = typeof CALL_SOURCES[number];
+
+export const CALL_SERVICE_PRIORITIES = ['low', 'normal', 'high', 'urgent'] as const;
+export type CallServicePriority = typeof CALL_SERVICE_PRIORITIES[number];
+
+export const CALL_STATUSES = ['open', 'in-progress', 'completed'] as const;
+export type CallStatus = typeof CALL_STATUSES[number];
+
+export const OVERBOOKING_POLICIES = ['strict', 'soft', 'manual'] as const;
+export type OverbookingPolicy = typeof OVERBOOKING_POLICIES[number];
+
+export const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export const INVOICE_NUMBER_PATTERN = /^[A-Za-z0-9/-]{1,20}$/;
+export const BAY_ID_PATTERN = /^bay-[a-zA-Z0-9_-]+$/;
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+export const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Bay ids look like "bay-1"; the configured bays live in ShopSettings.bays
+export type Bay = string;
+
+export interface Customer extends ArchiveMetadata {
+  id: string;
+  name: string;
+  phone: string;
+  email?: string;
+  address?: string;
+  preferredContact: PreferredContact;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Vehicle extends ArchiveMetadata {
+  id: string;
+  customerId: string;
+  year: number;
+  make: string;
+  model: string;
+  licensePlate?: string;
+  mileage?: number;
+  color?: string;
+  vin?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobNote {
+  id: string;
+  author: string;
+  content: string;
+  createdAt: string;
+  type?: 'general' | 'technical' | 'customer' | 'internal';
+  isImportant?: boolean;
+}
+
+export interface Job extends ArchiveMetadata {
+  id: string;
+  title: string;
+  customerId: string;
+  vehicleId: string;
+  estHours: number;
+  status: JobStatus;
+  priority: JobPriority;
+  invoiceNumber?: string;
+  notes?: string;
+  noteEntries?: JobNote[];
+  technicianId?: string;
+  // Kept in sync with the job's estimate and active invoice
+  estimateTotal?: number;
+  invoiceTotal?: number;
+  // Odometer when the vehicle came in and went back out; see shared/mileage
+  checkInOdometer?: OdometerReading;
+  checkOutOdometer?: OdometerReading;
+  // Equipment the bay must have; bookings in bays without it are refused
+  requiredCapabilities?: BayCapability[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Appointment extends ArchiveMetadata {
+  id: string;
+  jobId: string;
+  bay: Bay;
+  startAt: string; // ISO date string
+  endAt: string;   // ISO date string
+  technicianId?: string; // Falls back to the job's technician when omitted
+  // Each change made inside the editing lock, with the reason given; see shared/editing-lock
+  lockOverrides?: AppointmentLockOverride[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Technician {
+  id: string;
+  name: string;
+  skills: string[];
+  isActive: boolean;
+  workingHours: Record<Weekday, BusinessDay>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Call extends ArchiveMetadata {
+  id: string;
+  callId?: string;
+  customerId?: string;
+  customerName?: string;
+  jobId?: string;
+  vehicleId?: string;
+  vehicleYear?: number;
+  vehicleMake?: string;
+  vehicleModel?: string;
+  phoneNumber: string;
+  callStartTime: string;
+  callDuration?: number;
+  callReason?: string;
+  callNotes?: string;
+  customerConcerns?: string[];
+  followUpRequired?: boolean;
+  followUpDate?: string;
+  appointmentRequested?: boolean;
+  quoteRequested?: boolean;
+  callOutcome: CallOutcome;
+  nextAction?: string;
+  callTakenBy?: string;
+  callSource?: CallSource;
+  serviceType?: string;
+  servicePriority?: CallServicePriority;
+  estimatedCost?: number;
+  status?: CallStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobBilling {
+  estimate: Estimate | null;
+  invoices: Invoice[];
+}
+
+// Shop configuration
+
+export interface BusinessDay {
+  open: string;
+  close: string;
+  closed: boolean;
+}
+
+export interface ShopClosure {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  appliesTo: 'shop' | 'bay';
+  bayId?: Bay;
+}
+
+export interface ShopHoursSettings {
+  timezone: string;
+  days: Record<Weekday, BusinessDay>;
+  closures: ShopClosure[];
+}
+
+export interface BayConfigurationItem {
+  id: string;
+  name: string;
+  shortCode: string;
+  isActive: boolean;
+  supportsHeavyDuty: boolean;
+  // Equipment beyond the heavy-duty lift; see shared/bays
+  capabilities?: BayCapability[];
+  notes: string;
+}
+
+export interface StatusPalette {
+  primary: string;
+  accent: string;
+}
+
+export interface SchedulingDefaultsConfig {
+  defaultJobDuration: number;
+  minimumSlotIncrement: number;
+  bufferMinutes: number;
+  enableAutoBuffers: boolean;
+  lockEditingWithinMinutes: number;
+  allowSameDayScheduling: boolean;
+  overbookingPolicy: OverbookingPolicy;
+}
+
+export interface ShopSettings {
+  id: string;
+  shopName: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+  hours: ShopHoursSettings;
+  bays: BayConfigurationItem[];
+  statusPalettes: Record<JobStatus, StatusPalette>;
+  schedulingDefaults: SchedulingDefaultsConfig;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Booking checks for appointment create/update
+
+export interface AppointmentBookingOptions {
+  // Required to book over an existing appointment when the policy is 'manual'
+  allowOverbooking?: boolean;
+  // Required to book on a closed day, outside open hours, or during a closure
+  allowOutsideHours?: boolean;
+  // Required to change an appointment that starts within the editing lock or is in progress
+  lockOverride?: EditingLockOverride;
+}
+
+export type ShopHoursViolationType = 'closed-day' | 'outside-hours' | 'closure';
+
+export interface ShopHoursViolation {
+  type: ShopHoursViolationType;
+  message: string;
+  closureId?: string;
+}
+
+export interface AppointmentConflict {
+  appointment: Appointment;
+  job?: Job;
+}
+
+// Dashboard
+
+export interface DashboardScheduleEntry {
+  appointmentId: string;
+  jobId: string;
+  jobTitle?: string;
+  status?: JobStatus;
+  bay: Bay;
+  startAt: string;
+  endAt: string;
+  customerName?: string;
+  vehicle?: {
+    year?: number;
+    make?: string;
+    model?: string;
+    licensePlate?: string;
+  };
+}
+
+export interface DashboardStats {
+  today: {
+    carsScheduled: number;
+    hoursBooked: number;
+    totalCapacity: number;
+    waitingOnParts: number;
+    overduePartsOrders: number;
+    completed: number;
+  };
+  thisWeek: {
+    jobsCompleted: number;
+    totalRevenue?: number;
+    averageJobTime: number;
+    customerSatisfaction?: number;
+  };
+  todaySchedule: DashboardScheduleEntry[];
+}
+
+const includes = (values: readonly string[], value: string) => values.includes(value);
+
+export const isValidJobStatus = (status: string): status is JobStatus => includes(JOB_STATUSES, status);
+
+export const isValidJobPriority = (priority: string): priority is JobPriority => includes(JOB_PRIORITIES, priority);
+
+export const isValidCallOutcome = (outcome: string): outcome is CallOutcome => includes(CALL_OUTCOMES, outcome);
+
+export const isValidPreferredContact = (contact: string): contact is PreferredContact => {
+  return includes(PREFERRED_CONTACTS, contact);
+};
+
+export const isValidBay = (bay: string): bay is Bay => BAY_ID_PATTERN.test(bay);
+
+export const isValidInvoiceNumber = (value: string): boolean => INVOICE_NUMBER_PATTERN.test(value);
+
+export const isValidDateKey = (value: string): boolean => {
+  return DATE_KEY_PATTERN.test(value) && !Number.isNaN(new Date(value).getTime());
+};
+
+export const isValidWorkingHours = (hours: Record<Weekday, BusinessDay>): boolean => {
+  return Object.values(hours).every((day) => (
+    day.closed || (TIME_OF_DAY_PATTERN.test(day.open) && TIME_OF_DAY_PATTERN.test(day.close) && day.open < day.close)
+  ));
+};
@@ -0,0 +1,57 @@
+// Appointment Editing Lock
+// Appointments about to start, or already under way, stay put unless someone gives an override reason,
+// so the front desk can't move a car the tech is already pulling in
+
+// Used until the shop saves its own scheduling defaults
+export const DEFAULT_LOCK_EDITING_MINUTES = 30;
+
+export const LOCK_OVERRIDE_ACTIONS = ['update', 'archive', 'purge'] as const;
+export type LockOverrideAction = typeof LOCK_OVERRIDE_ACTIONS[number];
+
+// Sent with a change to a locked appointment
+export interface EditingLockOverride {
+  reason: string;
+  actor?: string;
+}
+
+// Kept on the appointment each time its lock was overridden
+export interface AppointmentLockOverride {
+  action: LockOverrideAction;
+  reason: string;
+  actor: string;
+  overriddenAt: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Why the appointment can't be changed right now, or null when it can. Finished appointments are not
+// locked; lockMinutes of 0 still locks them once they have started.
+export function getEditingLockMessage(
+  appointment: { startAt: string | Date; endAt: string | Date },
+  lockMinutes: number,
+  now: Date = new Date()
+): string | null {
+  const start = new Date(appointment.startAt).getTime();
+  const end = new Date(appointment.endAt).getTime();
+  const current = now.getTime();
+
+  if (current >= end) {
+    return null;
+  }
+  if (current >= start) {
+    return 'This appointment is already in progress';
+  }
+
+  const minutesUntilStart = Math.ceil((start - current) / MINUTE_MS);
+  if (minutesUntilStart > lockMinutes) {
+    return null;
+  }
+  return `This appointment starts in ${minutesUntilStart} minute${minutesUntilStart === 1 ? '' : 's'}, `
+    + `inside the ${lockMinutes}-minute editing lock`;
+}
+
+export const isEditingLocked = (
+  appointment: { startAt: string | Date; endAt: string | Date },
+  lockMinutes: number,
+  now: Date = new Date()
+): boolean => getEditingLockMessage(appointment, lockMinutes, now) !== null;
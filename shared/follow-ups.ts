@@ -0,0 +1,121 @@
+// Follow-up Tasks
+// Call follow-ups, the overdue check and the defaults used when a call asks for a follow-up
+
+export type FollowUpTaskType = 'call-back' | 'send-quote' | 'schedule-appointment' | 'check-in' | 'escalate' | 'custom';
+export type FollowUpPriority = 'low' | 'normal' | 'high' | 'urgent';
+// "Overdue" is derived from dueAt rather than stored, see isFollowUpOverdue
+export type FollowUpStatus = 'pending' | 'in-progress' | 'completed' | 'cancelled';
+
+export const FOLLOW_UP_TASK_TYPES: FollowUpTaskType[] = [
+  'call-back',
+  'send-quote',
+  'schedule-appointment',
+  'check-in',
+  'escalate',
+  'custom',
+];
+export const FOLLOW_UP_PRIORITIES: FollowUpPriority[] = ['low', 'normal', 'high', 'urgent'];
+export const FOLLOW_UP_STATUSES: FollowUpStatus[] = ['pending', 'in-progress', 'completed', 'cancelled'];
+
+export interface FollowUpTask {
+  id: string;
+  callId: string;
+  customerId?: string;
+  type: FollowUpTaskType;
+  priority: FollowUpPriority;
+  status: FollowUpStatus;
+  title: string;
+  description?: string;
+  notes?: string;
+  dueAt: string;
+  assignedTo?: string;
+  snoozeCount: number;
+  completedAt?: string;
+  completedBy?: string;
+  outcome?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The call fields a follow-up is derived from
+export interface FollowUpCallSource {
+  customerId?: string;
+  customerName?: string;
+  phoneNumber: string;
+  callReason?: string;
+  nextAction?: string;
+  followUpDate?: string;
+  quoteRequested?: boolean;
+  appointmentRequested?: boolean;
+  servicePriority?: FollowUpPriority;
+}
+
+const OPEN_STATUSES: FollowUpStatus[] = ['pending', 'in-progress'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isValidFollowUpTaskType = (type: string): type is FollowUpTaskType => {
+  return (FOLLOW_UP_TASK_TYPES as string[]).includes(type);
+};
+
+export const isValidFollowUpPriority = (priority: string): priority is FollowUpPriority => {
+  return (FOLLOW_UP_PRIORITIES as string[]).includes(priority);
+};
+
+export const isValidFollowUpStatus = (status: string): status is FollowUpStatus => {
+  return (FOLLOW_UP_STATUSES as string[]).includes(status);
+};
+
+export function isFollowUpOpen(task: Pick<FollowUpTask, 'status'>): boolean {
+  return OPEN_STATUSES.includes(task.status);
+}
+
+// An open task whose due time has passed
+export function isFollowUpOverdue(task: Pick<FollowUpTask, 'status' | 'dueAt'>, now: Date = new Date()): boolean {
+  return isFollowUpOpen(task) && new Date(task.dueAt).getTime() < now.getTime();
+}
+
+export function countOverdueFollowUps(tasks: Array<Pick<FollowUpTask, 'status' | 'dueAt'>>, now: Date = new Date()): number {
+  return tasks.filter((task) => isFollowUpOverdue(task, now)).length;
+}
+
+// Snoozing pushes the due time forward from whichever is later: now or the current due time
+export function getSnoozedDueAt(dueAt: string, days: number = 1, now: Date = new Date()): string {
+  const base = Math.max(new Date(dueAt).getTime(), now.getTime());
+  return new Date(base + days * DAY_MS).toISOString();
+}
+
+// The task created for a call saved with followUpRequired. Falls back to the next day when no date was given.
+export function getCallFollowUpDefaults(
+  call: FollowUpCallSource,
+  now: Date = new Date()
+): Pick<FollowUpTask, 'customerId' | 'type' | 'priority' | 'title' | 'description' | 'dueAt'> {
+  const type: FollowUpTaskType = call.quoteRequested
+    ? 'send-quote'
+    : call.appointmentRequested
+      ? 'schedule-appointment'
+      : 'call-back';
+
+  const who = call.customerName?.trim() || call.phoneNumber;
+  const titles: Record<FollowUpTaskType, string> = {
+    'call-back': `Call back ${who}`,
+    'send-quote': `Send quote to ${who}`,
+    'schedule-appointment': `Schedule appointment for ${who}`,
+    'check-in': `Check in with ${who}`,
+    escalate: `Escalate call from ${who}`,
+    custom: `Follow up with ${who}`,
+  };
+
+  const requested = call.followUpDate ? new Date(call.followUpDate) : null;
+  const dueAt = requested && !Number.isNaN(requested.getTime())
+    ? requested.toISOString()
+    : new Date(now.getTime() + DAY_MS).toISOString();
+
+  return {
+    customerId: call.customerId,
+    type,
+    priority: call.servicePriority ?? 'normal',
+    title: titles[type],
+    description: call.nextAction?.trim() || call.callReason?.trim() || undefined,
+    dueAt,
+  };
+}
@@ -0,0 +1,93 @@
+// Job Attachments
+// Estimates, photos and other documents linked to a job, either as a web link or as a file
+// uploaded to the API server
+
+export const JOB_ATTACHMENT_TYPES = ['document', 'link', 'photo'] as const;
+export type JobAttachmentType = typeof JOB_ATTACHMENT_TYPES[number];
+
+// Damage photos are taken when the car comes in and again before it goes back out
+export const JOB_PHOTO_STAGES = ['before', 'after'] as const;
+export type JobPhotoStage = typeof JOB_PHOTO_STAGES[number];
+
+export const ATTACHMENT_UPLOAD_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'application/pdf',
+] as const;
+export type AttachmentUploadMimeType = typeof ATTACHMENT_UPLOAD_MIME_TYPES[number];
+
+export const MAX_ATTACHMENT_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export const UNSUPPORTED_UPLOAD_MESSAGE = 'Upload a JPEG, PNG or WebP photo, or a PDF';
+export const UPLOAD_TOO_LARGE_MESSAGE = `Files must be ${formatFileSize(MAX_ATTACHMENT_UPLOAD_BYTES)} or smaller`;
+
+// Metadata for an uploaded file; the bytes are served by the attachment download route
+export interface JobAttachmentFile {
+  fileName: string;
+  mimeType: AttachmentUploadMimeType;
+  size: number;
+  hasThumbnail: boolean;
+}
+
+export interface JobAttachment {
+  id: string;
+  jobId: string;
+  label: string;
+  type: JobAttachmentType;
+  // Set for links; uploads carry `file` instead
+  url?: string;
+  file?: JobAttachmentFile;
+  stage?: JobPhotoStage;
+  uploadedAt: string;
+  uploadedBy?: string;
+  updatedAt: string;
+}
+
+export const isValidJobAttachmentType = (type: string): type is JobAttachmentType => {
+  return (JOB_ATTACHMENT_TYPES as readonly string[]).includes(type);
+};
+
+export const isAttachmentUploadMimeType = (mimeType: string): mimeType is AttachmentUploadMimeType => {
+  return (ATTACHMENT_UPLOAD_MIME_TYPES as readonly string[]).includes(mimeType);
+};
+
+export const isImageMimeType = (mimeType: string): boolean => mimeType.startsWith('image/');
+
+// Attachments are rendered as links, so only web addresses are accepted (no javascript: or data: URLs)
+export function isWebUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Checked in the browser before sending and again by the server, which also inspects the bytes
+export function getAttachmentUploadError(file: { mimeType: string; size: number }): string | null {
+  if (!isAttachmentUploadMimeType(file.mimeType)) {
+    return UNSUPPORTED_UPLOAD_MESSAGE;
+  }
+  if (file.size <= 0) {
+    return 'The file is empty';
+  }
+  if (file.size > MAX_ATTACHMENT_UPLOAD_BYTES) {
+    return UPLOAD_TOO_LARGE_MESSAGE;
+  }
+  return null;
+}
+
+export const getAttachmentTypeForUpload = (mimeType: string): JobAttachmentType => (
+  isImageMimeType(mimeType) ? 'photo' : 'document'
+);
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(bytes % (1024 * 1024) ? 1 : 0)} MB`;
+}
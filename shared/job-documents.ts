@@ -0,0 +1,343 @@
+// Job Documents
+// Work orders and invoices built once as a document model, then rendered to HTML (print) or PDF (archive)
+
+import type { BillingLineItemType, Invoice } from './billing';
+import type { JobStatus } from './job-status-transitions';
+
+export type JobDocumentKind = 'work-order' | 'invoice';
+
+export const JOB_DOCUMENT_KINDS: JobDocumentKind[] = ['work-order', 'invoice'];
+
+// Only the fields the documents print, so both the API and UI records fit
+export interface JobDocumentSource {
+  job: {
+    id: string;
+    title: string;
+    status: JobStatus;
+    priority?: string;
+    invoiceNumber?: string;
+    description?: string;
+    notes?: string;
+    noteEntries?: Array<{ author: string; content: string; createdAt: string; type?: string }>;
+    createdAt: string;
+  };
+  customer?: { name: string; phone?: string; email?: string; address?: string } | null;
+  vehicle?: {
+    year: number;
+    make: string;
+    model: string;
+    vin?: string;
+    licensePlate?: string;
+    color?: string;
+    mileage?: number;
+  } | null;
+  // The call the job was created from, for the customer's own description of the problem
+  call?: { callReason?: string; customerConcerns?: string[]; callNotes?: string } | null;
+  shop?: { shopName: string; address?: string; phone?: string; email?: string } | null;
+  invoice?: Invoice | null;
+}
+
+export interface JobDocumentTable {
+  columns: string[];
+  rows: string[][];
+  numericColumns: number[];
+}
+
+export interface JobDocumentSection {
+  heading: string;
+  fields?: Array<[string, string]>;
+  items?: string[];
+  table?: JobDocumentTable;
+}
+
+export interface JobDocument {
+  kind: JobDocumentKind;
+  title: string;
+  reference: string;
+  date: string;
+  shopName: string;
+  shopLines: string[];
+  sections: JobDocumentSection[];
+  totals?: Array<[string, string]>;
+  footer?: string;
+}
+
+const LINE_ITEM_LABELS: Record<BillingLineItemType, string> = {
+  labor: 'Labor',
+  part: 'Part',
+  fee: 'Fee',
+};
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  intake: 'Intake',
+  'incoming-call': 'Incoming Call',
+  scheduled: 'Scheduled',
+  'in-progress': 'In Progress',
+  'in-bay': 'In Bay',
+  'waiting-parts': 'Waiting on Parts',
+  completed: 'Completed',
+};
+
+const currencyFormatter = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+const dateFormatter = new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export const formatDocumentCurrency = (value: number) => currencyFormatter.format(value);
+
+export function formatDocumentDate(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : dateFormatter.format(date);
+}
+
+const compactFields = (fields: Array<[string, string | undefined | null]>): Array<[string, string]> =>
+  fields.filter((field): field is [string, string] => Boolean(field[1]));
+
+function describeVehicle(vehicle: NonNullable<JobDocumentSource['vehicle']>): string {
+  return [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(' ');
+}
+
+function buildShopHeader(source: JobDocumentSource) {
+  const shop = source.shop;
+  return {
+    shopName: shop?.shopName ?? 'Mechanic Shop',
+    shopLines: [shop?.address, shop?.phone, shop?.email].filter((line): line is string => Boolean(line)),
+  };
+}
+
+function buildCustomerSection(heading: string, source: JobDocumentSource): JobDocumentSection {
+  const customer = source.customer;
+  return {
+    heading,
+    fields: customer
+      ? compactFields([
+          ['Name', customer.name],
+          ['Phone', customer.phone],
+          ['Email', customer.email],
+          ['Address', customer.address],
+        ])
+      : [['Name', 'No customer on file']],
+  };
+}
+
+function buildVehicleSection(source: JobDocumentSource): JobDocumentSection {
+  const vehicle = source.vehicle;
+  return {
+    heading: 'Vehicle',
+    fields: vehicle
+      ? compactFields([
+          ['Vehicle', describeVehicle(vehicle)],
+          ['VIN', vehicle.vin],
+          ['License', vehicle.licensePlate],
+          ['Color', vehicle.color],
+          ['Mileage in', vehicle.mileage != null ? `${vehicle.mileage.toLocaleString('en-US')} mi` : undefined],
+        ])
+      : [['Vehicle', 'No vehicle on file']],
+  };
+}
+
+export function buildWorkOrderDocument(source: JobDocumentSource): JobDocument {
+  const { job, call } = source;
+  const concerns = [
+    ...(call?.customerConcerns ?? []),
+    ...(call?.callReason && !call.customerConcerns?.includes(call.callReason) ? [call.callReason] : []),
+  ].filter((concern) => concern.trim().length > 0);
+
+  const notes = [
+    ...(job.notes ? [job.notes] : []),
+    ...(job.noteEntries ?? []).map(
+      (note) => `${formatDocumentDate(note.createdAt)} · ${note.author}: ${note.content}`,
+    ),
+  ];
+
+  const sections: JobDocumentSection[] = [
+    buildCustomerSection('Customer', source),
+    buildVehicleSection(source),
+    {
+      heading: 'Job',
+      fields: compactFields([
+        ['Job', job.title],
+        ['Status', STATUS_LABELS[job.status] ?? job.status],
+        ['Priority', job.priority ? job.priority.charAt(0).toUpperCase() + job.priority.slice(1) : undefined],
+        ['Opened', formatDocumentDate(job.createdAt)],
+        ['Description', job.description],
+      ]),
+    },
+    {
+      heading: 'Customer Concerns',
+      items: concerns.length ? concerns : ['No concerns recorded on the originating call.'],
+    },
+  ];
+
+  if (call?.callNotes) {
+    sections.push({ heading: 'Call Notes', items: [call.callNotes] });
+  }
+
+  sections.push({ heading: 'Notes', items: notes.length ? notes : ['No notes yet.'] });
+
+  return {
+    kind: 'work-order',
+    title: 'Work Order',
+    reference: `Job ${job.id}`,
+    date: formatDocumentDate(job.createdAt),
+    ...buildShopHeader(source),
+    sections,
+    footer: 'Technician: ______________________    Customer authorization: ______________________',
+  };
+}
+
+export function buildInvoiceDocument(source: JobDocumentSource): JobDocument {
+  const invoice = source.invoice;
+  if (!invoice) {
+    throw new Error('An invoice is required to build an invoice document');
+  }
+
+  const rows = invoice.lineItems.map((item) => [
+    LINE_ITEM_LABELS[item.type],
+    item.description,
+    item.type === 'labor' ? `${item.quantity} h` : String(item.quantity),
+    formatDocumentCurrency(item.unitPrice),
+    formatDocumentCurrency(item.quantity * item.unitPrice),
+  ]);
+
+  const statusNote = invoice.status === 'paid' && invoice.paidAt
+    ? `Paid ${formatDocumentDate(invoice.paidAt)} — thank you for your business.`
+    : invoice.status === 'void'
+      ? 'This invoice has been voided.'
+      : 'Payment due on receipt. Thank you for your business.';
+
+  return {
+    kind: 'invoice',
+    title: invoice.status === 'void' ? 'Invoice (Void)' : 'Invoice',
+    reference: invoice.invoiceNumber,
+    date: formatDocumentDate(invoice.issuedAt),
+    ...buildShopHeader(source),
+    sections: [
+      buildCustomerSection('Bill To', source),
+      buildVehicleSection(source),
+      {
+        heading: source.job.title,
+        table: {
+          columns: ['Type', 'Description', 'Qty', 'Rate', 'Amount'],
+          rows,
+          numericColumns: [2, 3, 4],
+        },
+      },
+    ],
+    totals: [
+      ['Labor', formatDocumentCurrency(invoice.laborTotal)],
+      ['Parts', formatDocumentCurrency(invoice.partsTotal)],
+      ['Fees', formatDocumentCurrency(invoice.feesTotal)],
+      ['Subtotal', formatDocumentCurrency(invoice.subtotal)],
+      [`Tax (${invoice.taxRate}%)`, formatDocumentCurrency(invoice.tax)],
+      ['Total', formatDocumentCurrency(invoice.total)],
+    ],
+    footer: statusNote,
+  };
+}
+
+export function buildJobDocument(kind: JobDocumentKind, source: JobDocumentSource): JobDocument {
+  return kind === 'invoice' ? buildInvoiceDocument(source) : buildWorkOrderDocument(source);
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderSectionHtml(section: JobDocumentSection): string {
+  const fields = section.fields?.length
+    ? `<dl class="fields">${section.fields
+        .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+        .join('')}</dl>`
+    : '';
+  const items = section.items?.length
+    ? `<ul class="items">${section.items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+    : '';
+  const table = section.table
+    ? (() => {
+        const { columns, rows, numericColumns } = section.table;
+        const cellClass = (index: number) => (numericColumns.includes(index) ? ' class="num"' : '');
+        const body = rows.length
+          ? rows
+              .map((row) => `<tr>${row.map((cell, index) => `<td${cellClass(index)}>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+              .join('')
+          : `<tr><td colspan="${columns.length}" class="empty">No line items.</td></tr>`;
+        return `<table><thead><tr>${columns
+          .map((column, index) => `<th${cellClass(index)}>${escapeHtml(column)}</th>`)
+          .join('')}</tr></thead><tbody>${body}</tbody></table>`;
+      })()
+    : '';
+
+  return `<section><h2>${escapeHtml(section.heading)}</h2>${fields}${items}${table}</section>`;
+}
+
+const DOCUMENT_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: 'Inter', system-ui, -apple-system, 'Segoe UI', sans-serif; color: #0f172a; line-height: 1.4; }
+  .document { padding: 32px 40px; max-width: 820px; margin: 0 auto; }
+  header { display: flex; justify-content: space-between; border-bottom: 2px solid #0f172a; padding-bottom: 16px; margin-bottom: 24px; }
+  header h1 { margin: 0; font-size: 26px; }
+  .shop-name { font-size: 18px; font-weight: 600; }
+  .shop-lines, .reference { font-size: 12px; color: #475569; }
+  .reference { text-align: right; }
+  .reference strong { display: block; font-size: 14px; color: #0f172a; }
+  .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 24px; }
+  section { margin-bottom: 20px; page-break-inside: avoid; }
+  h2 { margin: 0 0 8px; font-size: 12px; text-transform: uppercase; letter-spacing: 0.08em; color: #475569; }
+  .fields { display: grid; grid-template-columns: 110px 1fr; gap: 4px 12px; margin: 0; font-size: 13px; }
+  .fields dt { color: #64748b; }
+  .fields dd { margin: 0; }
+  .items { margin: 0; padding-left: 18px; font-size: 13px; }
+  .items li { margin-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { border-bottom: 1px solid #e2e8f0; padding: 8px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; font-size: 11px; text-transform: uppercase; letter-spacing: 0.06em; }
+  .num { text-align: right; white-space: nowrap; }
+  .empty { text-align: center; color: #94a3b8; font-style: italic; }
+  .totals { margin-left: auto; width: 260px; font-size: 13px; }
+  .totals div { display: flex; justify-content: space-between; padding: 3px 0; }
+  .totals div:last-child { border-top: 2px solid #0f172a; margin-top: 4px; padding-top: 6px; font-size: 16px; font-weight: 600; }
+  footer { margin-top: 32px; padding-top: 12px; border-top: 1px solid #e2e8f0; font-size: 12px; color: #475569; }
+  @media print { .document { padding: 0; } }
+`;
+
+export function renderJobDocumentHtml(document: JobDocument): string {
+  // Customer and vehicle sit side by side; everything else runs full width
+  const [first, second, ...rest] = document.sections;
+  const totals = document.totals?.length
+    ? `<div class="totals">${document.totals
+        .map(([label, value]) => `<div><span>${escapeHtml(label)}</span><span>${escapeHtml(value)}</span></div>`)
+        .join('')}</div>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(`${document.title} ${document.reference}`)}</title>
+    <style>${DOCUMENT_STYLES}</style>
+  </head>
+  <body>
+    <div class="document">
+      <header>
+        <div>
+          <div class="shop-name">${escapeHtml(document.shopName)}</div>
+          <div class="shop-lines">${document.shopLines.map(escapeHtml).join('<br />')}</div>
+        </div>
+        <div class="reference">
+          <h1>${escapeHtml(document.title)}</h1>
+          <strong>${escapeHtml(document.reference)}</strong>
+          ${escapeHtml(document.date)}
+        </div>
+      </header>
+      <div class="grid">${[first, second].filter(Boolean).map(renderSectionHtml).join('')}</div>
+      ${rest.map(renderSectionHtml).join('')}
+      ${totals}
+      ${document.footer ? `<footer>${escapeHtml(document.footer)}</footer>` : ''}
+    </div>
+  </body>
+</html>`;
+}
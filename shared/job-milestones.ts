@@ -0,0 +1,36 @@
+// Job Milestones
+// Checklist steps a job works through, ticked off by the techs in the job dock
+
+export const JOB_MILESTONE_STATUSES = ['pending', 'in-progress', 'completed'] as const;
+export type JobMilestoneStatus = typeof JOB_MILESTONE_STATUSES[number];
+
+export interface JobMilestone {
+  id: string;
+  jobId: string;
+  title: string;
+  status: JobMilestoneStatus;
+  description?: string;
+  dueAt?: string;
+  assignedTo?: string;
+  // Stamped when the milestone is completed and cleared if it is reopened
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MilestoneProgress {
+  completed: number;
+  total: number;
+  // Whole percent, 0 when the job has no milestones
+  value: number;
+}
+
+export const isValidJobMilestoneStatus = (status: string): status is JobMilestoneStatus => {
+  return (JOB_MILESTONE_STATUSES as readonly string[]).includes(status);
+};
+
+export function getMilestoneProgress(milestones: Array<Pick<JobMilestone, 'status'>>): MilestoneProgress {
+  const total = milestones.length;
+  const completed = milestones.filter((milestone) => milestone.status === 'completed').length;
+  return { completed, total, value: total ? Math.round((completed / total) * 100) : 0 };
+}
@@ -0,0 +1,96 @@
+// Job Status History
+// Derives completions and cycle times from recorded status changes
+
+import type { JobStatus } from './job-status-transitions';
+
+export interface JobStatusEvent {
+  id: string;
+  jobId: string;
+  fromStatus?: JobStatus; // Omitted for the event recorded when the job is created
+  toStatus: JobStatus;
+  actor: string;
+  reason?: string;
+  createdAt: string;
+}
+
+export interface JobCompletion {
+  jobId: string;
+  completedAt: string;
+  cycleTimeHours: number | null;
+}
+
+const WORK_STATUSES: JobStatus[] = ['in-progress', 'in-bay'];
+
+const MS_IN_HOUR = 1000 * 60 * 60;
+
+const byTimestamp = (a: JobStatusEvent, b: JobStatusEvent) =>
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+/**
+ * Latest completion per job within the optional [start, end) range. A job counts only while it is
+ * still completed at the end of the range, so one reopened later the same day drops out.
+ * Cycle time runs from when work first started (or the job was created, if it never entered a bay)
+ * to the completion, and restarts whenever a job is reopened.
+ */
+export function getJobCompletions(
+  events: JobStatusEvent[],
+  range?: { start: Date; end: Date }
+): JobCompletion[] {
+  const eventsByJob = new Map<string, JobStatusEvent[]>();
+  events.forEach((event) => {
+    const jobEvents = eventsByJob.get(event.jobId) ?? [];
+    jobEvents.push(event);
+    eventsByJob.set(event.jobId, jobEvents);
+  });
+
+  const completions: JobCompletion[] = [];
+  eventsByJob.forEach((jobEvents, jobId) => {
+    let cycleStartedAt: string | null = null;
+    let workStartedAt: string | null = null;
+    let latest: JobCompletion | null = null;
+
+    for (const event of jobEvents.sort(byTimestamp)) {
+      cycleStartedAt = cycleStartedAt ?? event.createdAt;
+      if (WORK_STATUSES.includes(event.toStatus)) {
+        workStartedAt = workStartedAt ?? event.createdAt;
+      }
+      if (event.toStatus !== 'completed') {
+        if (!range || new Date(event.createdAt) < range.end) {
+          latest = null;
+        }
+        continue;
+      }
+
+      const completedAt = new Date(event.createdAt);
+      const startedAt = new Date(workStartedAt ?? cycleStartedAt);
+      const inRange = !range || (completedAt >= range.start && completedAt < range.end);
+      if (inRange) {
+        latest = {
+          jobId,
+          completedAt: event.createdAt,
+          cycleTimeHours: Number.isNaN(startedAt.getTime())
+            ? null
+            : (completedAt.getTime() - startedAt.getTime()) / MS_IN_HOUR,
+        };
+      }
+
+      // A reopened job starts a new cycle
+      cycleStartedAt = null;
+      workStartedAt = null;
+    }
+
+    if (latest) {
+      completions.push(latest);
+    }
+  });
+
+  return completions;
+}
+
+export function getAverageCycleTimeHours(completions: JobCompletion[]): number {
+  const measured = completions
+    .map((completion) => completion.cycleTimeHours)
+    .filter((hours): hours is number => hours !== null);
+
+  return measured.length > 0 ? measured.reduce((sum, hours) => sum + hours, 0) / measured.length : 0;
+}
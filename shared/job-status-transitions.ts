@@ -0,0 +1,228 @@
+// Job Status Transition Rules
+// Shared by the web client and the API so both enforce the same job workflow
+
+export type JobStatus =
+  | 'intake'
+  | 'incoming-call'
+  | 'scheduled'
+  | 'in-progress'
+  | 'in-bay'
+  | 'waiting-parts'
+  | 'completed';
+
+export interface StatusTransition {
+  from: JobStatus;
+  to: JobStatus;
+  isValid: boolean;
+  requiresOverride?: boolean; // Only allowed with an explicit override reason
+  requiresConfirmation?: boolean;
+  warningMessage?: string;
+  successMessage?: string;
+  prerequisites?: string[];
+  autoActions?: string[];
+}
+
+// Any caller that supplies a non-empty reason gets the override; it is recorded on the status
+// event but not gated by role, since the app has no user roles yet
+export interface StatusOverride {
+  reason: string;
+}
+
+export type StatusTransitionRule = 'undefined-transition' | 'override-required';
+
+export type StatusTransitionCheck =
+  | { allowed: true; transition?: StatusTransition; overridden: boolean }
+  | { allowed: false; rule: StatusTransitionRule; message: string; transition?: StatusTransition };
+
+// Define all possible status transitions with their rules.
+// Beyond the original kanban moves, intake and in-progress get their own moves (neither had any, so
+// enforcing the workflow would strand jobs in them), and scheduled -> incoming-call covers the
+// calendar's unschedule action.
+export const STATUS_TRANSITIONS: StatusTransition[] = [
+  // From Intake
+  {
+    from: 'intake',
+    to: 'incoming-call',
+    isValid: true,
+    successMessage: 'Job moved to incoming calls',
+  },
+  {
+    from: 'intake',
+    to: 'scheduled',
+    isValid: true,
+    successMessage: 'Job scheduled successfully',
+    autoActions: ['Create appointment slot', 'Send customer confirmation'],
+  },
+
+  // From Incoming Call
+  {
+    from: 'incoming-call',
+    to: 'scheduled',
+    isValid: true,
+    successMessage: 'Job scheduled successfully',
+    prerequisites: ['Customer information confirmed', 'Service details documented'],
+    autoActions: ['Create appointment slot', 'Send customer confirmation'],
+  },
+
+  // From Scheduled
+  {
+    from: 'scheduled',
+    to: 'incoming-call',
+    isValid: true,
+    successMessage: 'Job unscheduled',
+    autoActions: ['Free up scheduled slot'],
+  },
+  {
+    from: 'scheduled',
+    to: 'in-bay',
+    isValid: true,
+    successMessage: 'Job started in bay',
+    prerequisites: ['Bay available', 'Technician assigned'],
+    autoActions: ['Start time tracking', 'Update bay status'],
+  },
+  {
+    from: 'scheduled',
+    to: 'in-progress',
+    isValid: true,
+    successMessage: 'Work started',
+    autoActions: ['Start time tracking'],
+  },
+  {
+    from: 'scheduled',
+    to: 'completed',
+    isValid: true,
+    requiresConfirmation: true,
+    warningMessage: 'Are you sure you want to mark this job as completed without starting work?',
+    successMessage: 'Job marked as completed',
+    autoActions: ['Free up scheduled slot', 'Generate completion report'],
+  },
+
+  // From In Progress
+  {
+    from: 'in-progress',
+    to: 'in-bay',
+    isValid: true,
+    successMessage: 'Job moved into bay',
+    prerequisites: ['Bay available'],
+    autoActions: ['Update bay status'],
+  },
+  {
+    from: 'in-progress',
+    to: 'waiting-parts',
+    isValid: true,
+    successMessage: 'Job moved to waiting for parts',
+    prerequisites: ['Parts order created'],
+    autoActions: ['Create parts order', 'Set follow-up reminder'],
+  },
+  {
+    from: 'in-progress',
+    to: 'completed',
+    isValid: true,
+    successMessage: 'Job completed successfully',
+    prerequisites: ['Work completed', 'Quality check passed'],
+    autoActions: ['Stop time tracking', 'Generate invoice'],
+  },
+
+  // From In Bay
+  {
+    from: 'in-bay',
+    to: 'in-progress',
+    isValid: true,
+    successMessage: 'Job moved out of bay',
+    autoActions: ['Free up bay'],
+  },
+  {
+    from: 'in-bay',
+    to: 'waiting-parts',
+    isValid: true,
+    successMessage: 'Job moved to waiting for parts',
+    prerequisites: ['Parts order created'],
+    autoActions: ['Free up bay', 'Create parts order', 'Set follow-up reminder'],
+  },
+  {
+    from: 'in-bay',
+    to: 'completed',
+    isValid: true,
+    successMessage: 'Job completed successfully',
+    prerequisites: ['Work completed', 'Quality check passed'],
+    autoActions: ['Free up bay', 'Stop time tracking', 'Generate invoice'],
+  },
+
+  // From Waiting Parts
+  {
+    from: 'waiting-parts',
+    to: 'in-progress',
+    isValid: true,
+    successMessage: 'Work resumed',
+    prerequisites: ['Parts received'],
+    autoActions: ['Resume time tracking'],
+  },
+  {
+    from: 'waiting-parts',
+    to: 'in-bay',
+    isValid: true,
+    successMessage: 'Job resumed in bay',
+    prerequisites: ['Parts received', 'Bay available'],
+    autoActions: ['Resume time tracking', 'Update bay status'],
+  },
+  {
+    from: 'waiting-parts',
+    to: 'completed',
+    isValid: true,
+    requiresConfirmation: true,
+    warningMessage: 'Completing without returning to bay - is this correct?',
+    successMessage: 'Job completed',
+    autoActions: ['Generate completion report'],
+  },
+
+  // From Completed (generally not allowed, but for special cases)
+  {
+    from: 'completed',
+    to: 'in-bay',
+    isValid: false, // Allowed only with a supervisor override reason
+    requiresOverride: true,
+    requiresConfirmation: true,
+    warningMessage: 'Reopening a completed job requires supervisor approval',
+    successMessage: 'Job reopened for additional work',
+    autoActions: ['Create follow-up work order'],
+  },
+];
+
+export function findStatusTransition(from: JobStatus, to: JobStatus): StatusTransition | undefined {
+  return STATUS_TRANSITIONS.find((transition) => transition.from === from && transition.to === to);
+}
+
+// Checks a status change against the workflow. Keeping the current status is always allowed.
+export function checkStatusTransition(
+  from: JobStatus,
+  to: JobStatus,
+  override?: StatusOverride
+): StatusTransitionCheck {
+  if (from === to) {
+    return { allowed: true, overridden: false };
+  }
+
+  const transition = findStatusTransition(from, to);
+  if (!transition) {
+    return {
+      allowed: false,
+      rule: 'undefined-transition',
+      message: `Jobs cannot move from ${from} to ${to}`,
+    };
+  }
+
+  if (transition.isValid) {
+    return { allowed: true, transition, overridden: false };
+  }
+
+  if (transition.requiresOverride && override?.reason?.trim()) {
+    return { allowed: true, transition, overridden: true };
+  }
+
+  return {
+    allowed: false,
+    rule: 'override-required',
+    message: transition.warningMessage ?? `Moving from ${from} to ${to} requires an override reason`,
+    transition,
+  };
+}
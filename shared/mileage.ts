@@ -0,0 +1,101 @@
+// Mileage History
+// Odometer readings taken when a job checks the vehicle in and out, and the per-vehicle trail and
+// driving rate built from them
+
+export const ODOMETER_READING_KINDS = ['check-in', 'check-out'] as const;
+export type OdometerReadingKind = typeof ODOMETER_READING_KINDS[number];
+
+export interface OdometerReading {
+  mileage: number;
+  recordedAt: string;
+  recordedBy?: string;
+}
+
+// One reading on the vehicle's trail, with the job it was taken for
+export interface MileageHistoryEntry extends OdometerReading {
+  jobId: string;
+  jobTitle: string;
+  kind: OdometerReadingKind;
+}
+
+export interface VehicleMileageHistory {
+  vehicleId: string;
+  // Oldest first
+  readings: MileageHistoryEntry[];
+  // Null until there are two readings at least a day apart
+  averageMilesPerDay: number | null;
+}
+
+interface JobWithOdometer {
+  id: string;
+  title: string;
+  checkInOdometer?: OdometerReading;
+  checkOutOdometer?: OdometerReading;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isValidOdometerReadingKind = (kind: string): kind is OdometerReadingKind => {
+  return (ODOMETER_READING_KINDS as readonly string[]).includes(kind);
+};
+
+const byRecordedAt = (a: OdometerReading, b: OdometerReading) => (
+  new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime()
+);
+
+export function getMileageHistory(jobs: JobWithOdometer[]): MileageHistoryEntry[] {
+  return jobs
+    .flatMap((job) => [
+      job.checkInOdometer && { ...job.checkInOdometer, jobId: job.id, jobTitle: job.title, kind: 'check-in' as const },
+      job.checkOutOdometer && { ...job.checkOutOdometer, jobId: job.id, jobTitle: job.title, kind: 'check-out' as const },
+    ])
+    .filter((entry): entry is MileageHistoryEntry => Boolean(entry))
+    .sort(byRecordedAt);
+}
+
+// The latest reading taken before `recordedAt`, leaving out the reading being replaced
+export function getPreviousReading(
+  history: MileageHistoryEntry[],
+  recordedAt: string,
+  replacing?: Pick<MileageHistoryEntry, 'jobId' | 'kind'>
+): MileageHistoryEntry | null {
+  const time = new Date(recordedAt).getTime();
+  const earlier = history.filter((entry) => (
+    new Date(entry.recordedAt).getTime() <= time
+    && !(replacing && entry.jobId === replacing.jobId && entry.kind === replacing.kind)
+  ));
+  return earlier[earlier.length - 1] ?? null;
+}
+
+// Odometers only go up, so a lower reading is usually a typo or a replaced cluster. It is saved
+// anyway; the warning lets the advisor double-check it.
+export function getMileageRegressionWarning(mileage: number, previous: MileageHistoryEntry | null): string | null {
+  if (!previous || mileage >= previous.mileage) {
+    return null;
+  }
+  return `${mileage.toLocaleString()} mi is lower than the ${previous.kind} reading of `
+    + `${previous.mileage.toLocaleString()} mi for "${previous.jobTitle}"`;
+}
+
+// Driving rate between the first and last readings, used to forecast when maintenance comes due
+export function getAverageMilesPerDay(history: OdometerReading[]): number | null {
+  if (history.length < 2) {
+    return null;
+  }
+  const [first, last] = [history[0], history[history.length - 1]];
+  const days = (new Date(last.recordedAt).getTime() - new Date(first.recordedAt).getTime()) / DAY_MS;
+  if (days < 1 || last.mileage < first.mileage) {
+    return null;
+  }
+  return Math.round(((last.mileage - first.mileage) / days) * 10) / 10;
+}
+
+// Expected odometer on `date`, from the latest reading and the vehicle's driving rate
+export function projectMileage(history: VehicleMileageHistory, date: Date = new Date()): number | null {
+  const latest = history.readings[history.readings.length - 1];
+  if (!latest || history.averageMilesPerDay === null) {
+    return null;
+  }
+  const days = Math.max(0, (date.getTime() - new Date(latest.recordedAt).getTime()) / DAY_MS);
+  return Math.round(latest.mileage + history.averageMilesPerDay * days);
+}
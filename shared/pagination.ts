@@ -0,0 +1,156 @@
+// Pagination
+// Sorting and cursor-based paging shared by the list endpoints and the API client
+
+export type SortOrder = 'asc' | 'desc';
+
+export const JOB_SORT_FIELDS = ['createdAt', 'updatedAt', 'title', 'status', 'estHours'] as const;
+export type JobSortField = typeof JOB_SORT_FIELDS[number];
+
+export const CALL_SORT_FIELDS = ['callStartTime', 'createdAt', 'updatedAt'] as const;
+export type CallSortField = typeof CALL_SORT_FIELDS[number];
+
+export const CUSTOMER_SORT_FIELDS = ['name', 'createdAt', 'updatedAt'] as const;
+export type CustomerSortField = typeof CUSTOMER_SORT_FIELDS[number];
+
+export const MAX_PAGE_SIZE = 200;
+
+// Query params every paginated list accepts: ?sort=&order=&limit=&cursor=
+export interface ListQuery<F extends string = string> {
+  sort?: F;
+  order?: SortOrder;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface SortSpec<F extends string> {
+  field: F;
+  order: SortOrder;
+}
+
+export type SortValue = string | number | null;
+export type CursorKey = [SortValue, string];
+
+// Thrown for a cursor that was not produced by paginateByCursor; list routes answer it with a 400
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid pagination cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export const isSortOrder = (value: unknown): value is SortOrder => value === 'asc' || value === 'desc';
+
+// Reads ?sort=&order=&limit=&cursor= from a request query, dropping sort fields the list does not support
+export function parseListQuery<F extends string>(
+  query: Record<string, unknown>,
+  sortFields: readonly F[]
+): ListQuery<F> {
+  const limit = typeof query.limit === 'string' ? Number.parseInt(query.limit, 10) : Number.NaN;
+  const cursor = typeof query.cursor === 'string' && query.cursor ? query.cursor : undefined;
+  if (cursor) {
+    decodeCursor(cursor);
+  }
+
+  return {
+    sort: sortFields.find((field) => field === query.sort),
+    order: isSortOrder(query.order) ? query.order : undefined,
+    limit: Number.isNaN(limit) ? undefined : limit,
+    cursor,
+  };
+}
+
+export const resolveSort = <F extends string>(
+  query: ListQuery<F> | undefined,
+  fallback: SortSpec<F>
+): SortSpec<F> => ({
+  field: query?.sort ?? fallback.field,
+  order: query?.order ?? fallback.order,
+});
+
+export const clampPageSize = (limit: number): number => Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+
+export const readSortValue = (record: object, field: string): SortValue => {
+  const value = (record as Record<string, unknown>)[field];
+  return typeof value === 'string' || typeof value === 'number' ? value : null;
+};
+
+// Missing values sort last in either direction, and the id breaks ties so every record has a
+// unique position a cursor can point at
+const compareKeys = ([aValue, aId]: CursorKey, [bValue, bId]: CursorKey, order: SortOrder): number => {
+  if (aValue !== bValue) {
+    if (aValue === null) return 1;
+    if (bValue === null) return -1;
+    const compared = typeof aValue === 'number' && typeof bValue === 'number'
+      ? aValue - bValue
+      : String(aValue).localeCompare(String(bValue));
+    if (compared !== 0) {
+      return order === 'asc' ? compared : -compared;
+    }
+  }
+  return aId.localeCompare(bId);
+};
+
+const keyOf = <T extends { id: string }>(record: T, field: string): CursorKey => [readSortValue(record, field), record.id];
+
+// True when the record comes after the cursor position in `sort` order
+export const isAfterCursor = <T extends { id: string }, F extends string>(
+  record: T,
+  sort: SortSpec<F>,
+  after: CursorKey
+): boolean => compareKeys(keyOf(record, sort.field), after, sort.order) > 0;
+
+export const cursorAfter = <T extends { id: string }, F extends string>(record: T, sort: SortSpec<F>): string => (
+  encodeCursor(keyOf(record, sort.field))
+);
+
+export function sortRecords<T extends { id: string }, F extends string>(records: T[], sort: SortSpec<F>): T[] {
+  return [...records].sort((a, b) => compareKeys(keyOf(a, sort.field), keyOf(b, sort.field), sort.order));
+}
+
+export function encodeCursor(key: CursorKey): string {
+  return btoa(encodeURIComponent(JSON.stringify(key)));
+}
+
+export function decodeCursor(cursor: string): CursorKey {
+  try {
+    const key = JSON.parse(decodeURIComponent(atob(cursor)));
+    if (Array.isArray(key) && key.length === 2 && typeof key[1] === 'string') {
+      return key as CursorKey;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+// Keyset pagination over records already sorted by `sort`. The cursor encodes the last record's
+// sort value and id, so pages stay stable while new records are being added.
+export function paginateByCursor<T extends { id: string }, F extends string>(
+  sorted: T[],
+  sort: SortSpec<F>,
+  query: Pick<ListQuery<F>, 'limit' | 'cursor'> = {}
+): Page<T> {
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const remaining = after
+    ? sorted.filter((record) => isAfterCursor(record, sort, after))
+    : sorted;
+
+  if (query.limit === undefined) {
+    return { items: remaining, total: sorted.length, nextCursor: null };
+  }
+
+  const limit = clampPageSize(query.limit);
+  const items = remaining.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    total: sorted.length,
+    nextCursor: remaining.length > limit && last ? cursorAfter(last, sort) : null,
+  };
+}
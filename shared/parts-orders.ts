@@ -0,0 +1,57 @@
+// Parts Orders
+// Parts ordered for a job and the delivery checks shared by the API and the UI
+
+export type PartsOrderStatus = 'pending' | 'ordered' | 'backordered' | 'received' | 'cancelled';
+
+export const PARTS_ORDER_STATUSES: PartsOrderStatus[] = ['pending', 'ordered', 'backordered', 'received', 'cancelled'];
+
+export interface PartsOrder {
+  id: string;
+  jobId: string;
+  supplier: string;
+  partNumber: string;
+  description?: string;
+  quantity: number;
+  unitCost: number;
+  status: PartsOrderStatus;
+  // Calendar dates (YYYY-MM-DD)
+  orderedAt?: string;
+  expectedAt?: string;
+  receivedAt?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const CLOSED_STATUSES: PartsOrderStatus[] = ['received', 'cancelled'];
+
+export const isValidPartsOrderStatus = (status: string): status is PartsOrderStatus => {
+  return (PARTS_ORDER_STATUSES as string[]).includes(status);
+};
+
+// Local calendar date in the YYYY-MM-DD form the orders are stored with
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// An open order whose expected delivery date has passed
+export function isPartsOrderOverdue(order: Pick<PartsOrder, 'status' | 'expectedAt'>, today: Date = new Date()): boolean {
+  if (CLOSED_STATUSES.includes(order.status) || !order.expectedAt) {
+    return false;
+  }
+  return order.expectedAt.slice(0, 10) < toDateKey(today);
+}
+
+// True once every order that wasn't cancelled has been received
+export function areAllPartsReceived(orders: Array<Pick<PartsOrder, 'status'>>): boolean {
+  const active = orders.filter((order) => order.status !== 'cancelled');
+  return active.length > 0 && active.every((order) => order.status === 'received');
+}
+
+export function getPartsOrderTotal(orders: Array<Pick<PartsOrder, 'status' | 'quantity' | 'unitCost'>>): number {
+  return orders
+    .filter((order) => order.status !== 'cancelled')
+    .reduce((sum, order) => sum + order.quantity * order.unitCost, 0);
+}
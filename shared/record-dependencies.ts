@@ -0,0 +1,54 @@
+// Record Dependencies
+// Counts of the records that still point at a customer, vehicle or job, used to block or cascade deletes
+
+export type DependentRecordType =
+  | 'vehicles'
+  | 'jobs'
+  | 'appointments'
+  | 'calls'
+  | 'communications'
+  | 'followUpTasks'
+  | 'invoices';
+
+export type DependencySummary = Partial<Record<DependentRecordType, number>>;
+
+const DEPENDENT_LABELS: Record<DependentRecordType, [singular: string, plural: string]> = {
+  vehicles: ['vehicle', 'vehicles'],
+  jobs: ['job', 'jobs'],
+  appointments: ['appointment', 'appointments'],
+  calls: ['call', 'calls'],
+  communications: ['communication', 'communications'],
+  followUpTasks: ['follow-up task', 'follow-up tasks'],
+  invoices: ['invoice', 'invoices'],
+};
+
+// Drops zero counts so the summary only lists what is actually in the way
+export function summarizeDependencies(counts: DependencySummary): DependencySummary {
+  const summary: DependencySummary = {};
+  for (const [type, count] of Object.entries(counts) as Array<[DependentRecordType, number | undefined]>) {
+    if (count) {
+      summary[type] = count;
+    }
+  }
+  return summary;
+}
+
+export function hasDependencies(summary: DependencySummary): boolean {
+  return Object.values(summary).some((count) => (count ?? 0) > 0);
+}
+
+// "2 vehicles, 1 job and 3 calls"
+export function formatDependencySummary(summary: DependencySummary): string {
+  const parts = (Object.keys(DEPENDENT_LABELS) as DependentRecordType[])
+    .filter((type) => (summary[type] ?? 0) > 0)
+    .map((type) => {
+      const count = summary[type] as number;
+      const [singular, plural] = DEPENDENT_LABELS[type];
+      return `${count} ${count === 1 ? singular : plural}`;
+    });
+
+  if (parts.length <= 1) {
+    return parts[0] ?? 'no dependent records';
+  }
+  return `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+}
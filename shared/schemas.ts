@@ -0,0 +1,460 @@
+// Request Schemas
+// One zod schema per payload, used by the API's validation middleware and by the React forms
+
+import { z } from 'zod';
+import {
+  BAY_ID_PATTERN,
+  CALL_OUTCOMES,
+  CALL_SERVICE_PRIORITIES,
+  CALL_SOURCES,
+  CALL_STATUSES,
+  DATE_KEY_PATTERN,
+  INVOICE_NUMBER_PATTERN,
+  JOB_PRIORITIES,
+  JOB_STATUSES,
+  OVERBOOKING_POLICIES,
+  PREFERRED_CONTACTS,
+  TIME_OF_DAY_PATTERN,
+  WEEKDAYS,
+} from './domain';
+import { JOB_MILESTONE_STATUSES } from './job-milestones';
+import { JOB_ATTACHMENT_TYPES, JOB_PHOTO_STAGES, isWebUrl } from './job-attachments';
+import { getVinError, normalizeVin } from './vin';
+import { ODOMETER_READING_KINDS } from './mileage';
+import { BAY_CAPABILITIES } from './bays';
+import { PARTS_ORDER_STATUSES, type PartsOrderStatus } from './parts-orders';
+import { BILLING_LINE_ITEM_TYPES, type BillingLineItemType } from './billing';
+
+const HEX_COLOR_PATTERN = /^#[0-9A-F]{6}$/i;
+
+const requiredText = (label: string, max: number) => z
+  .string({ required_error: `${label} is required` })
+  .trim()
+  .min(1, `${label} is required`)
+  .max(max, `${label} is too long`);
+
+const requiredId = (label: string) => z
+  .string({ required_error: `${label} is required` })
+  .min(1, `${label} is required`);
+
+// "Status is required" when missing, "Invalid status" for anything outside the list
+const enumField = <T extends readonly [string, ...string[]]>(values: T, label: string) => z.enum(values, {
+  errorMap: (_issue, ctx) => ({
+    message: ctx.data === undefined ? `${label} is required` : `Invalid ${label.toLowerCase()}`,
+  }),
+});
+
+const timestamp = (label: string) => z
+  .string({ required_error: `${label} is required` })
+  .refine((value) => !Number.isNaN(new Date(value).getTime()), `${label} must be a valid date`);
+
+// Blank strings are how the forms send "no value", so optional email fields accept them
+const optionalEmail = z.string().trim().email('Invalid email address').optional().or(z.literal(''));
+
+// Counts digits so "(555) 123-4567" and "5551234567" are treated alike
+export const phoneNumberSchema = z
+  .string({ required_error: 'Phone number is required' })
+  .trim()
+  .refine((value) => {
+    const digits = value.replace(/\D/g, '').length;
+    return digits >= 10 && digits <= 15;
+  }, 'Phone number must have 10-15 digits');
+
+// Customers
+
+export const customerSchema = z.object({
+  name: requiredText('Customer name', 100),
+  phone: phoneNumberSchema,
+  email: optionalEmail,
+  address: z.string().trim().optional(),
+  preferredContact: enumField(PREFERRED_CONTACTS, 'Preferred contact method'),
+});
+export const customerUpdateSchema = customerSchema.partial();
+
+// Vehicles
+
+export const vehicleSchema = z.object({
+  customerId: requiredId('Customer'),
+  year: z
+    .number({ required_error: 'Year is required', invalid_type_error: 'Year must be a number' })
+    .int('Year must be a whole number')
+    .min(1900, 'Invalid year')
+    .max(new Date().getFullYear() + 2, 'Invalid year'),
+  make: requiredText('Make', 50),
+  model: requiredText('Model', 50),
+  licensePlate: z.string().trim().max(15, 'License plate is too long').optional(),
+  mileage: z.number({ invalid_type_error: 'Mileage must be a number' }).min(0, 'Mileage cannot be negative').optional(),
+  color: z.string().trim().optional(),
+  // Normalized to uppercase without separators; an empty value means no VIN on file
+  vin: z
+    .string()
+    .transform(normalizeVin)
+    .superRefine((vin, ctx) => {
+      const error = vin ? getVinError(vin) : null;
+      if (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+      }
+    })
+    .optional(),
+});
+export const vehicleUpdateSchema = vehicleSchema.partial();
+
+// Jobs
+
+export const jobNoteSchema = z.object({
+  id: z.string().min(1),
+  author: z.string(),
+  content: z.string(),
+  createdAt: z.string(),
+  type: z.enum(['general', 'technical', 'customer', 'internal']).optional(),
+  isImportant: z.boolean().optional(),
+});
+
+export const statusOverrideSchema = z.object({
+  reason: requiredText('Override reason', 500),
+});
+
+export const jobSchema = z.object({
+  title: requiredText('Job title', 100),
+  customerId: requiredId('Customer'),
+  vehicleId: requiredId('Vehicle'),
+  estHours: z
+    .number({ required_error: 'Estimated hours are required', invalid_type_error: 'Estimated hours must be a number' })
+    .min(0.5, 'Minimum 0.5 hours')
+    .max(40, 'Maximum 40 hours'),
+  status: enumField(JOB_STATUSES, 'Status'),
+  priority: enumField(JOB_PRIORITIES, 'Priority'),
+  // An empty invoice number clears it
+  invoiceNumber: z
+    .union([
+      z.string().trim().regex(INVOICE_NUMBER_PATTERN, 'Use 1-20 characters: letters, numbers, dash, or slash.'),
+      z.literal(''),
+    ])
+    .optional(),
+  notes: z.string().optional(),
+  noteEntries: z.array(jobNoteSchema).optional(),
+  technicianId: z.string().optional(),
+  requiredCapabilities: z.array(enumField(BAY_CAPABILITIES, 'Bay capability')).optional(),
+});
+export const jobUpdateSchema = jobSchema.partial();
+
+// Who made the change and, for restricted transitions, the supervisor override
+const jobChangeOptionsSchema = z.object({
+  override: statusOverrideSchema.optional(),
+  actor: z.string().trim().optional(),
+  reason: z.string().trim().optional(),
+  endCurrentSegment: z.boolean().optional(),
+});
+
+export const createJobRequestSchema = jobSchema.merge(jobChangeOptionsSchema.pick({ actor: true }));
+export const updateJobRequestSchema = jobUpdateSchema.merge(jobChangeOptionsSchema);
+export const jobStatusChangeSchema = jobSchema.pick({ status: true }).merge(jobChangeOptionsSchema);
+
+// Job milestones and attachments
+
+export const jobMilestoneSchema = z.object({
+  title: requiredText('Milestone title', 100),
+  status: enumField(JOB_MILESTONE_STATUSES, 'Milestone status').default('pending'),
+  description: z.string().trim().optional(),
+  dueAt: timestamp('Due date').optional(),
+  assignedTo: z.string().trim().optional(),
+});
+export const jobMilestoneUpdateSchema = jobMilestoneSchema.partial();
+
+export const jobAttachmentSchema = z.object({
+  label: requiredText('Attachment label', 100),
+  type: enumField(JOB_ATTACHMENT_TYPES, 'Attachment type'),
+  url: z
+    .string({ required_error: 'Link is required' })
+    .trim()
+    .refine(isWebUrl, 'Enter a link starting with http:// or https://'),
+  stage: enumField(JOB_PHOTO_STAGES, 'Photo stage').optional(),
+  uploadedBy: z.string().trim().optional(),
+});
+export const jobAttachmentUpdateSchema = jobAttachmentSchema.partial();
+
+// Text fields sent alongside a multipart file upload; the label falls back to the file name
+export const jobAttachmentUploadSchema = jobAttachmentSchema
+  .pick({ stage: true, uploadedBy: true })
+  .extend({ label: z.string().trim().max(100, 'Attachment label is too long').optional() });
+
+// Odometer reading taken at check-in or check-out; recordedAt defaults to now
+export const odometerReadingSchema = z.object({
+  kind: enumField(ODOMETER_READING_KINDS, 'Reading'),
+  mileage: z
+    .number({ required_error: 'Mileage is required', invalid_type_error: 'Mileage must be a number' })
+    .int('Mileage must be a whole number')
+    .min(0, 'Mileage cannot be negative')
+    .max(2_000_000, 'Mileage is too high'),
+  recordedAt: timestamp('Reading date').optional(),
+  recordedBy: z.string().trim().optional(),
+});
+
+// Parts orders and billing
+
+// Order dates are calendar dates; blank means not set
+const optionalDateKey = (label: string) => z
+  .string()
+  .trim()
+  .regex(DATE_KEY_PATTERN, `${label} must use YYYY-MM-DD`)
+  .optional()
+  .or(z.literal(''));
+
+export const partsOrderSchema = z.object({
+  supplier: requiredText('Supplier', 100),
+  partNumber: requiredText('Part number', 100),
+  description: z.string().trim().optional(),
+  quantity: z
+    .number({ required_error: 'Quantity is required', invalid_type_error: 'Quantity must be a number' })
+    .int('Quantity must be a whole number of at least 1')
+    .min(1, 'Quantity must be a whole number of at least 1'),
+  unitCost: z
+    .number({ required_error: 'Unit cost is required', invalid_type_error: 'Unit cost must be a number' })
+    .min(0, 'Unit cost must be zero or more'),
+  status: enumField(PARTS_ORDER_STATUSES as [PartsOrderStatus, ...PartsOrderStatus[]], 'Parts order status').optional(),
+  orderedAt: optionalDateKey('Order date'),
+  expectedAt: optionalDateKey('Expected date'),
+  receivedAt: optionalDateKey('Received date'),
+  notes: z.string().trim().optional(),
+});
+export const partsOrderUpdateSchema = partsOrderSchema.partial();
+
+export const billingLineItemSchema = z.object({
+  id: z.string().optional(),
+  type: enumField(BILLING_LINE_ITEM_TYPES as [BillingLineItemType, ...BillingLineItemType[]], 'Line item type'),
+  description: requiredText('Line item description', 200),
+  quantity: z
+    .number({ required_error: 'Quantity is required', invalid_type_error: 'Quantity must be a number' })
+    .positive('Quantity must be greater than zero'),
+  unitPrice: z
+    .number({ required_error: 'Price is required', invalid_type_error: 'Price must be a number' })
+    .min(0, 'Price cannot be negative'),
+  taxable: z.boolean().optional(),
+});
+
+export const estimateSchema = z.object({
+  lineItems: z.array(billingLineItemSchema, { required_error: 'Line items are required' }),
+  taxRate: z
+    .number({ invalid_type_error: 'Tax rate must be a number' })
+    .min(0, 'Tax rate must be between 0 and 100')
+    .max(100, 'Tax rate must be between 0 and 100')
+    .optional(),
+  notes: z.string().trim().optional(),
+});
+
+export const estimateApprovalSchema = z.object({
+  approvedBy: z.string().trim().optional(),
+});
+
+// The number is generated when left out
+export const invoiceCreateSchema = z.object({
+  invoiceNumber: z.string().trim().optional(),
+});
+
+// Issued is the only status an invoice is created in, so updates can only settle or void it
+export const invoiceStatusUpdateSchema = z.object({
+  status: enumField(['paid', 'void'] as const, 'Invoice status'),
+});
+
+// Appointments
+
+export const appointmentSchema = z.object({
+  jobId: requiredId('Job'),
+  bay: z
+    .string({ required_error: 'Bay is required' })
+    .regex(BAY_ID_PATTERN, 'Invalid bay'),
+  startAt: timestamp('Start time'),
+  endAt: timestamp('End time'),
+  technicianId: z.string().optional(),
+});
+export const appointmentUpdateSchema = appointmentSchema.partial();
+
+export const editingLockOverrideSchema = z.object({
+  reason: requiredText('Override reason', 500),
+  actor: z.string().trim().optional(),
+});
+
+const bookingOptionsSchema = z.object({
+  allowOverbooking: z.boolean().optional(),
+  allowOutsideHours: z.boolean().optional(),
+  lockOverride: editingLockOverrideSchema.optional(),
+});
+
+export const createAppointmentRequestSchema = appointmentSchema.merge(bookingOptionsSchema);
+export const updateAppointmentRequestSchema = appointmentUpdateSchema.merge(bookingOptionsSchema);
+
+// Calls
+
+export const callSchema = z.object({
+  callId: z.string().optional(),
+  customerId: z.string().optional(),
+  customerName: z.string().trim().optional(),
+  jobId: z.string().optional(),
+  vehicleId: z.string().optional(),
+  vehicleYear: z.number().int().optional(),
+  vehicleMake: z.string().trim().optional(),
+  vehicleModel: z.string().trim().optional(),
+  phoneNumber: requiredText('Phone number', 30),
+  // Defaults to when the call is logged
+  callStartTime: timestamp('Call start time').optional(),
+  callDuration: z.number().min(0, 'Call duration cannot be negative').optional(),
+  callReason: z.string().optional(),
+  callNotes: z.string().optional(),
+  customerConcerns: z.array(z.string()).optional(),
+  followUpRequired: z.boolean().optional(),
+  followUpDate: z.string().optional(),
+  appointmentRequested: z.boolean().optional(),
+  quoteRequested: z.boolean().optional(),
+  callOutcome: enumField(CALL_OUTCOMES, 'Call outcome'),
+  nextAction: z.string().optional(),
+  callTakenBy: z.string().optional(),
+  callSource: z.enum(CALL_SOURCES).optional(),
+  serviceType: z.string().optional(),
+  servicePriority: z.enum(CALL_SERVICE_PRIORITIES).optional(),
+  estimatedCost: z.number().min(0, 'Estimated cost cannot be negative').optional(),
+  status: z.enum(CALL_STATUSES).optional(),
+});
+export const callUpdateSchema = callSchema.partial();
+
+// Shop settings
+
+export const businessDaySchema = z.object({
+  open: z.string().regex(TIME_OF_DAY_PATTERN, 'Use HH:MM for opening time'),
+  close: z.string().regex(TIME_OF_DAY_PATTERN, 'Use HH:MM for closing time'),
+  closed: z.boolean(),
+});
+
+const weekSchema = z
+  .object({
+    monday: businessDaySchema,
+    tuesday: businessDaySchema,
+    wednesday: businessDaySchema,
+    thursday: businessDaySchema,
+    friday: businessDaySchema,
+    saturday: businessDaySchema,
+    sunday: businessDaySchema,
+  })
+  .superRefine((days, ctx) => {
+    for (const day of WEEKDAYS) {
+      const hours = days[day];
+      if (!hours.closed && hours.open >= hours.close) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [day, 'close'], message: `${day} closing time must be after opening time.` });
+      }
+    }
+  });
+
+export const shopClosureSchema = z
+  .object({
+    id: z.string().min(1),
+    name: requiredText('Closure name', 100),
+    startDate: z.string().regex(DATE_KEY_PATTERN, 'Closure start date must use YYYY-MM-DD'),
+    // Blank for single-day closures
+    endDate: z.union([z.string().regex(DATE_KEY_PATTERN, 'Closure end date must use YYYY-MM-DD'), z.literal('')]),
+    appliesTo: z.enum(['shop', 'bay']),
+    bayId: z.string().optional(),
+  })
+  .superRefine((closure, ctx) => {
+    if (closure.endDate && closure.startDate > closure.endDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endDate'], message: `Closure "${closure.name}" ends before it starts.` });
+    }
+    if (closure.appliesTo === 'bay' && !closure.bayId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['bayId'], message: `Closure "${closure.name}" must be assigned to a bay.` });
+    }
+  });
+
+export const shopHoursSchema = z.object({
+  timezone: z.string().min(1, 'Select a timezone for shop hours.'),
+  days: weekSchema,
+  closures: z.array(shopClosureSchema),
+});
+
+export const bayConfigurationSchema = z.object({
+  id: z.string().regex(BAY_ID_PATTERN, 'Invalid bay id'),
+  name: requiredText('Bay name', 50),
+  shortCode: requiredText('Bay short code', 10),
+  isActive: z.boolean(),
+  supportsHeavyDuty: z.boolean(),
+  capabilities: z.array(enumField(BAY_CAPABILITIES, 'Bay capability')).optional(),
+  notes: z.string(),
+});
+
+const baysSchema = z
+  .array(bayConfigurationSchema)
+  .superRefine((bays, ctx) => {
+    if (!bays.some((bay) => bay.isActive)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'At least one bay must remain active.' });
+    }
+    const shortCodes = new Set<string>();
+    bays.forEach((bay, index) => {
+      const code = bay.shortCode.trim().toUpperCase();
+      if (shortCodes.has(code)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'shortCode'], message: `Short code "${code}" is duplicated.` });
+      }
+      shortCodes.add(code);
+    });
+  });
+
+export const statusPaletteSchema = z.object({
+  primary: z.string().regex(HEX_COLOR_PATTERN, 'Primary color must be a valid hex code'),
+  accent: z.string().regex(HEX_COLOR_PATTERN, 'Accent color must be a valid hex code'),
+});
+
+export const schedulingDefaultsSchema = z.object({
+  defaultJobDuration: z.number().positive('Default job duration must be greater than 0.'),
+  minimumSlotIncrement: z.number().positive('Minimum slot increment must be greater than 0.'),
+  bufferMinutes: z.number().min(0, 'Buffer minutes must be between 0 and 240.').max(240, 'Buffer minutes must be between 0 and 240.'),
+  enableAutoBuffers: z.boolean(),
+  lockEditingWithinMinutes: z.number().min(0, 'Editing lock cannot be negative.'),
+  allowSameDayScheduling: z.boolean(),
+  overbookingPolicy: z.enum(OVERBOOKING_POLICIES, { errorMap: () => ({ message: 'Select a valid overbooking policy.' }) }),
+});
+
+const shopSettingsFields = z.object({
+  shopName: requiredText('Shop name', 100),
+  address: z.string().trim().optional(),
+  phone: z.string().trim().optional(),
+  email: optionalEmail,
+  hours: shopHoursSchema,
+  bays: baysSchema,
+  statusPalettes: z.record(z.enum(JOB_STATUSES), statusPaletteSchema),
+  schedulingDefaults: schedulingDefaultsSchema,
+});
+
+// PUT /api/settings accepts any subset of the sections
+export const shopSettingsUpdateSchema = shopSettingsFields.partial();
+
+// The full settings form, which can also check closures against the configured bays
+export const shopSettingsSchema = shopSettingsFields.superRefine((settings, ctx) => {
+  settings.hours.closures.forEach((closure, index) => {
+    if (closure.appliesTo === 'bay' && closure.bayId && !settings.bays.some((bay) => bay.id === closure.bayId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['hours', 'closures', index, 'bayId'],
+        message: `Closure "${closure.name}" must be assigned to a bay.`,
+      });
+    }
+  });
+});
+
+export type CustomerInput = z.infer<typeof customerSchema>;
+export type VehicleInput = z.infer<typeof vehicleSchema>;
+export type JobInput = z.infer<typeof jobSchema>;
+export type AppointmentInput = z.infer<typeof appointmentSchema>;
+export type CallInput = z.infer<typeof callSchema>;
+export type JobMilestoneInput = z.input<typeof jobMilestoneSchema>;
+export type JobAttachmentInput = z.infer<typeof jobAttachmentSchema>;
+export type JobAttachmentUploadInput = z.infer<typeof jobAttachmentUploadSchema>;
+export type OdometerReadingInput = z.infer<typeof odometerReadingSchema>;
+export type ShopSettingsInput = z.infer<typeof shopSettingsUpdateSchema>;
+
+// Field path ("hours.days.monday.close") to the first message reported for it
+export type FieldErrors = Record<string, string>;
+
+export function toFieldErrors(error: z.ZodError): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  for (const issue of error.issues) {
+    const path = issue.path.join('.') || '_';
+    fieldErrors[path] ??= issue.message;
+  }
+  return fieldErrors;
+}
@@ -0,0 +1,167 @@
+// Vehicle Identification Numbers
+// Check-digit validation and an offline decoder for the manufacturer (WMI) and model year, used
+// by the vehicle form to pre-fill year/make/model and by the API before a VIN is stored
+
+export const VIN_LENGTH = 17;
+
+// 17 characters; I, O and Q are never used so they can't be mistaken for 1 and 0
+export const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+export interface DecodedVin {
+  vin: string;
+  // World manufacturer identifier, the first three characters
+  wmi: string;
+  country?: string;
+  make?: string;
+  // Only known for the few lines the model table covers
+  model?: string;
+  modelYear?: number;
+}
+
+// Values the letters take in the check-digit sum (ISO 3779 / 49 CFR 565)
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Position 10 cycles through these every 30 years, starting with A = 1980
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+const COUNTRIES: Record<string, string> = {
+  '1': 'United States',
+  '4': 'United States',
+  '5': 'United States',
+  '2': 'Canada',
+  '3': 'Mexico',
+  J: 'Japan',
+  K: 'South Korea',
+  L: 'China',
+  S: 'United Kingdom',
+  W: 'Germany',
+  Y: 'Sweden',
+  Z: 'Italy',
+};
+
+// Bundled subset of the manufacturer codes the shop sees; WMIs shared by several brands are left out
+const MANUFACTURERS: Record<string, string> = {
+  '1FA': 'Ford', '1FB': 'Ford', '1FC': 'Ford', '1FD': 'Ford', '1FM': 'Ford', '1FT': 'Ford', '1ZV': 'Ford',
+  '2FA': 'Ford', '2FM': 'Ford', '2FT': 'Ford', '3FA': 'Ford', '3FM': 'Ford', '3FT': 'Ford',
+  '1LN': 'Lincoln', '5LM': 'Lincoln',
+  '1FU': 'Freightliner', '1FV': 'Freightliner',
+  '1G1': 'Chevrolet', '1GC': 'Chevrolet', '1GN': 'Chevrolet', '2G1': 'Chevrolet', '2GN': 'Chevrolet',
+  '3G1': 'Chevrolet', '3GC': 'Chevrolet', '3GN': 'Chevrolet',
+  '1GT': 'GMC', '1GK': 'GMC', '3GT': 'GMC',
+  '1G4': 'Buick', '1G6': 'Cadillac', '1GY': 'Cadillac', '1G2': 'Pontiac', '1G8': 'Saturn',
+  '1C3': 'Chrysler', '2C3': 'Chrysler', '1B3': 'Dodge', '1D7': 'Dodge', '3D7': 'Dodge',
+  '1C6': 'Ram', '3C6': 'Ram', '1J4': 'Jeep', '1J8': 'Jeep',
+  '1HG': 'Honda', '2HG': 'Honda', '2HK': 'Honda', '5FN': 'Honda', '5J6': 'Honda', '19X': 'Honda', 'JHM': 'Honda',
+  '19U': 'Acura', '2HN': 'Acura', 'JH4': 'Acura',
+  '1N4': 'Nissan', '1N6': 'Nissan', '3N1': 'Nissan', '5N1': 'Nissan', 'JN1': 'Nissan', 'JN8': 'Nissan',
+  'JNK': 'Infiniti', '5N3': 'Infiniti',
+  '2T1': 'Toyota', '2T3': 'Toyota', '4T1': 'Toyota', '4T3': 'Toyota', '4T4': 'Toyota', '5TD': 'Toyota',
+  '5TF': 'Toyota', 'JT2': 'Toyota', 'JT3': 'Toyota', 'JTD': 'Toyota', 'JTE': 'Toyota', 'JTM': 'Toyota',
+  'JTN': 'Toyota',
+  '2T2': 'Lexus', '58A': 'Lexus', 'JTH': 'Lexus', 'JTJ': 'Lexus',
+  '1VW': 'Volkswagen', '3VW': 'Volkswagen', 'WVG': 'Volkswagen', 'WVW': 'Volkswagen',
+  'WA1': 'Audi', 'WAU': 'Audi',
+  '4US': 'BMW', '5UX': 'BMW', 'WBA': 'BMW', 'WBS': 'BMW', 'WBX': 'BMW',
+  '4JG': 'Mercedes-Benz', '55S': 'Mercedes-Benz', 'W1K': 'Mercedes-Benz', 'W1N': 'Mercedes-Benz',
+  'WDB': 'Mercedes-Benz', 'WDC': 'Mercedes-Benz', 'WDD': 'Mercedes-Benz',
+  'WP0': 'Porsche', 'WP1': 'Porsche',
+  'YV1': 'Volvo', 'YV4': 'Volvo',
+  '3KP': 'Kia', '5XY': 'Kia', 'KNA': 'Kia', 'KND': 'Kia',
+  '5NM': 'Hyundai', '5NP': 'Hyundai', 'KM8': 'Hyundai', 'KMH': 'Hyundai',
+  '4S3': 'Subaru', '4S4': 'Subaru', 'JF1': 'Subaru', 'JF2': 'Subaru',
+  '3MZ': 'Mazda', 'JM1': 'Mazda', 'JM3': 'Mazda',
+  '4A3': 'Mitsubishi', 'JA3': 'Mitsubishi', 'JA4': 'Mitsubishi',
+  '5YJ': 'Tesla', '7SA': 'Tesla',
+  'SAJ': 'Jaguar', 'SAL': 'Land Rover',
+  'ZAR': 'Alfa Romeo', 'ZFA': 'Fiat', 'ZFF': 'Ferrari', 'ZHW': 'Lamborghini',
+};
+
+// Models that follow from the leading characters of the VIN, longest prefix first
+const MODELS: Array<[prefix: string, model: string]> = [
+  ['1FA6P8', 'Mustang'],
+  ['1HGCM', 'Accord'],
+  ['1HGCP', 'Accord'],
+  ['1HGCR', 'Accord'],
+  ['1HGCV', 'Accord'],
+  ['2HGFA', 'Civic'],
+  ['2HGFB', 'Civic'],
+  ['2HGFC', 'Civic'],
+  ['2HGFG', 'Civic'],
+  ['19XFA', 'Civic'],
+  ['19XFB', 'Civic'],
+  ['19XFC', 'Civic'],
+  ['5FNRL', 'Odyssey'],
+  ['5FNYF', 'Pilot'],
+  ['2HKRM', 'CR-V'],
+  ['2HKRW', 'CR-V'],
+  ['5J6RM', 'CR-V'],
+  ['5J6RW', 'CR-V'],
+  ['1G1Y', 'Corvette'],
+  ['5YJS', 'Model S'],
+  ['5YJ3', 'Model 3'],
+  ['5YJX', 'Model X'],
+  ['5YJY', 'Model Y'],
+  ['7SAY', 'Model Y'],
+];
+
+// Uppercased with the spaces and dashes people type between groups removed
+export const normalizeVin = (value: string): string => value.toUpperCase().replace(/[\s-]/g, '');
+
+export function getVinCheckDigit(vin: string): string {
+  const sum = [...vin].reduce((total, char, index) => {
+    const value = /\d/.test(char) ? Number(char) : TRANSLITERATION[char] ?? 0;
+    return total + value * POSITION_WEIGHTS[index];
+  }, 0);
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+}
+
+// Checked by the form schema and again by the server before the VIN is stored
+export function getVinError(value: string): string | null {
+  const vin = normalizeVin(value);
+  if (vin.length !== VIN_LENGTH) {
+    return `VIN must be ${VIN_LENGTH} characters`;
+  }
+  if (!VIN_PATTERN.test(vin)) {
+    return 'VIN can only contain letters and digits, and never I, O or Q';
+  }
+  if (vin[8] !== getVinCheckDigit(vin)) {
+    return 'VIN check digit does not match; check for a mistyped character';
+  }
+  return null;
+}
+
+export const isValidVin = (value: string): boolean => getVinError(value) === null;
+
+// Position 10 repeats every 30 years; passenger vehicles from 2010 on carry a letter in position 7,
+// older ones a digit. A year too far in the future falls back to the previous cycle.
+export function getVinModelYear(vin: string, today: Date = new Date()): number | undefined {
+  const code = MODEL_YEAR_CODES.indexOf(vin[9]);
+  if (code === -1) {
+    return undefined;
+  }
+  const year = (/[A-Z]/.test(vin[6]) ? 2010 : 1980) + code;
+  return year > today.getFullYear() + 1 ? year - 30 : year;
+}
+
+export function decodeVin(value: string, today: Date = new Date()): DecodedVin | null {
+  const vin = normalizeVin(value);
+  if (!isValidVin(vin)) {
+    return null;
+  }
+  const wmi = vin.slice(0, 3);
+  return {
+    vin,
+    wmi,
+    country: COUNTRIES[vin[0]],
+    make: MANUFACTURERS[wmi],
+    model: MODELS.find(([prefix]) => vin.startsWith(prefix))?.[1],
+    modelYear: getVinModelYear(vin, today),
+  };
+}
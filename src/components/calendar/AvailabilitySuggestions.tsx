@@ -19,9 +19,19 @@ import {
   Target,
   X
 } from 'lucide-react';
+import { BAY_CAPABILITY_DETAILS, DEFAULT_BAYS, getActiveBays, getBayLabel, getCapableBays } from '@shared/bays';
+import { getBufferMinutes } from '@shared/buffers';
 import { cn } from '@/lib/utils';
 import { generateTimeSlots, checkBayAvailability } from '@/lib/calendar-config';
-import type { CalendarEvent, Job, Bay } from '@/types/database';
+import { useShopSettings } from '@/hooks';
+import type {
+  BayConfigurationItem,
+  CalendarEvent,
+  Job,
+  Bay,
+  ShopHoursSettings,
+  Weekday,
+} from '@/types/database';
 
 interface AvailabilitySuggestionsProps {
   job?: Job;
@@ -74,6 +84,18 @@ const SCORING_WEIGHTS = {
 };
 
 class SmartSuggestionEngine implements SuggestionEngine {
+  private readonly bayConfig: BayConfigurationItem[];
+  private readonly hours?: ShopHoursSettings;
+  private readonly bufferMinutes: number;
+
+  // Suggests slots in the shop's active bays, within its open hours when they are known, leaving the
+  // turnaround buffer free after every appointment
+  constructor(bayConfig: BayConfigurationItem[] = DEFAULT_BAYS, hours?: ShopHoursSettings, bufferMinutes = 0) {
+    this.bayConfig = bayConfig;
+    this.hours = hours;
+    this.bufferMinutes = bufferMinutes;
+  }
+
   generateSuggestions(
     job: Job,
     existingEvents: CalendarEvent[],
@@ -84,8 +106,15 @@ class SmartSuggestionEngine implements SuggestionEngine {
     const jobDuration = job.estHours;
     
     // Generate time slots for the target date
-    const timeSlots = generateTimeSlots(targetDate, jobDuration, 0.5);
-    const bays: Bay[] = ['bay-1', 'bay-2'];
+    const weekday = targetDate.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase() as Weekday;
+    const openHours = this.hours?.days[weekday];
+    if (openHours?.closed) {
+      return [];
+    }
+    const timeSlots = generateTimeSlots(targetDate, jobDuration, 0.5, openHours, this.bufferMinutes);
+    // Only bays with the equipment the job needs
+    const bays: Bay[] = getCapableBays(getActiveBays(this.bayConfig), job.requiredCapabilities)
+      .map((bay) => bay.id);
 
     // Filter events for the target date
     const dayEvents = existingEvents.filter(event => 
@@ -97,7 +126,14 @@ class SmartSuggestionEngine implements SuggestionEngine {
       const bayEvents = dayEvents.filter(event => event.resourceId === bay);
       
       timeSlots.forEach((slot, slotIndex) => {
-        const isAvailable = checkBayAvailability(bay, slot.start, slot.end, existingEvents);
+        const isAvailable = checkBayAvailability(
+          bay,
+          slot.start,
+          slot.end,
+          existingEvents,
+          undefined,
+          this.bufferMinutes
+        );
         
         if (isAvailable) {
           const suggestion = this.createSuggestion(
@@ -182,11 +218,7 @@ class SmartSuggestionEngine implements SuggestionEngine {
     score += timeScore * SCORING_WEIGHTS.timeOptimality;
 
     // Bay utilization balance
-    const bay1Events = allEvents.filter(e => e.resourceId === 'bay-1').length;
-    const bay2Events = allEvents.filter(e => e.resourceId === 'bay-2').length;
-    const utilizationScore = bay === 'bay-1' 
-      ? bay1Events <= bay2Events ? 1 : 0.5
-      : bay2Events <= bay1Events ? 1 : 0.5;
+    const utilizationScore = this.isLeastBusyBay(bay, allEvents) ? 1 : 0.5;
     score += utilizationScore * SCORING_WEIGHTS.bayUtilization;
 
     // Workflow efficiency (minimize gaps)
@@ -210,6 +242,14 @@ class SmartSuggestionEngine implements SuggestionEngine {
     return Math.min(1, Math.max(0, score));
   }
 
+  private isLeastBusyBay(bay: Bay, allEvents: CalendarEvent[]): boolean {
+    const counts = getActiveBays(this.bayConfig).map(
+      (item) => allEvents.filter(e => e.resourceId === item.id).length
+    );
+    const bayCount = allEvents.filter(e => e.resourceId === bay).length;
+    return bayCount <= Math.min(...counts);
+  }
+
   private calculateGapScore(
     slot: { start: Date; end: Date },
     bayEvents: CalendarEvent[]
@@ -261,13 +301,7 @@ class SmartSuggestionEngine implements SuggestionEngine {
     }
 
     // Workload analysis
-    const bay1Count = allEvents.filter(e => e.resourceId === 'bay-1').length;
-    const bay2Count = allEvents.filter(e => e.resourceId === 'bay-2').length;
-
-    if (bay === 'bay-1' && bay1Count <= bay2Count) {
-      reasons.push('Balances workload between bays');
-      benefits.push('Even bay utilization');
-    } else if (bay === 'bay-2' && bay2Count <= bay1Count) {
+    if (this.isLeastBusyBay(bay, allEvents)) {
       reasons.push('Balances workload between bays');
       benefits.push('Even bay utilization');
     }
@@ -287,6 +321,11 @@ class SmartSuggestionEngine implements SuggestionEngine {
       }
     }
 
+    if (job.requiredCapabilities?.length) {
+      const equipment = job.requiredCapabilities.map((capability) => BAY_CAPABILITY_DETAILS[capability].label);
+      reasons.push(`Bay has the ${equipment.join(', ')} this job needs`);
+    }
+
     // Job priority considerations
     if (job.priority === 'high') {
       benefits.push('Priority job - expedited scheduling');
@@ -337,7 +376,13 @@ export function AvailabilitySuggestions({
     prioritizeEarlySlots: true,
   }), []);
 
-  const suggestionEngine = useMemo(() => new SmartSuggestionEngine(), []);
+  const { data: shopSettings } = useShopSettings();
+  const bays = shopSettings?.bays ?? DEFAULT_BAYS;
+  const bufferMinutes = getBufferMinutes(shopSettings?.schedulingDefaults);
+  const suggestionEngine = useMemo(
+    () => new SmartSuggestionEngine(bays, shopSettings?.hours, bufferMinutes),
+    [bays, shopSettings?.hours, bufferMinutes]
+  );
 
   useEffect(() => {
     if (job) {
@@ -479,7 +524,7 @@ export function AvailabilitySuggestions({
                       </div>
                       <div className="flex items-center gap-1">
                         <Calendar className="h-3 w-3" />
-                        {suggestion.bay === 'bay-1' ? 'Bay 1' : 'Bay 2'}
+                        {getBayLabel(bays, suggestion.bay)}
                       </div>
                     </div>
 
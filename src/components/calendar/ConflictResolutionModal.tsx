@@ -23,15 +23,17 @@ import {
   CheckCircle,
   XCircle
 } from 'lucide-react';
+import { getActiveBays, getBayCapabilityError, getBayLabel, getCapableBays } from '@shared/bays';
 import { cn } from '@/lib/utils';
 import { generateTimeSlots } from '@/lib/calendar-config';
-import type { CalendarEvent, Bay } from '@/types/database';
+import type { BayCapability, BayConfigurationItem, CalendarEvent, Bay } from '@/types/database';
 
 interface ConflictJobDetails {
   title?: string;
   estHours?: number;
   priority?: string;
   status?: string;
+  requiredCapabilities?: BayCapability[];
 }
 
 interface ConflictResolutionModalProps {
@@ -44,6 +46,8 @@ interface ConflictResolutionModalProps {
     requestedEndTime: Date;
     requestedBay: Bay;
   };
+  // Shop's configured bays, for labels and the alternate-bay suggestion
+  bays: BayConfigurationItem[];
   onResolve: (resolution: ConflictResolution) => void;
   onCancel: () => void;
 }
@@ -85,6 +89,7 @@ export function ConflictResolutionModal({
   onClose,
   conflictingEvents,
   newJobData,
+  bays,
   onResolve,
   onCancel,
 }: ConflictResolutionModalProps) {
@@ -159,29 +164,41 @@ export function ConflictResolutionModal({
       });
     });
 
-    // Option 3: Try different bay
-    const alternateBay: Bay = requestedBay === 'bay-1' ? 'bay-2' : 'bay-1';
-    suggestions.push({
-      id: 'different-bay',
-      type: 'reschedule-new',
-      title: 'Use Different Bay',
-      description: `Schedule "${jobTitle}" in ${alternateBay === 'bay-1' ? 'Bay 1' : 'Bay 2'}`,
-      changes: [{
-        eventId: 'new-job',
-        eventTitle: jobTitle,
-        currentTime: `${requestedStartTime.toLocaleTimeString()} - ${requestedEndTime.toLocaleTimeString()}`,
-        newTime: `${requestedStartTime.toLocaleTimeString()} - ${requestedEndTime.toLocaleTimeString()}`,
-        bay: alternateBay,
-        newStart: requestedStartTime,
-        newEnd: requestedEndTime,
-      }],
-      priority: 3,
-    });
+    // Option 3: Try another active bay that has the equipment the job needs
+    const alternateBay = getCapableBays(getActiveBays(bays), job?.requiredCapabilities)
+      .find((bay) => bay.id !== requestedBay);
+    if (alternateBay) {
+      suggestions.push({
+        id: 'different-bay',
+        type: 'reschedule-new',
+        title: 'Use Different Bay',
+        description: `Schedule "${jobTitle}" in ${alternateBay.name}`,
+        changes: [{
+          eventId: 'new-job',
+          eventTitle: jobTitle,
+          currentTime: `${requestedStartTime.toLocaleTimeString()} - ${requestedEndTime.toLocaleTimeString()}`,
+          newTime: `${requestedStartTime.toLocaleTimeString()} - ${requestedEndTime.toLocaleTimeString()}`,
+          bay: alternateBay.id,
+          newStart: requestedStartTime,
+          newEnd: requestedEndTime,
+        }],
+        priority: 3,
+      });
+    }
 
     return suggestions.sort((a, b) => a.priority - b.priority);
   };
   const suggestions = generateSuggestions();
 
+  // Flags a bay that lacks equipment the moved job needs (a diesel truck in a bay with no heavy-duty lift)
+  const getCapabilityMismatch = (eventId: string, bay: Bay): string | null => {
+    const required = eventId === 'new-job'
+      ? newJobData?.job?.requiredCapabilities
+      : conflictingEvents.find((event) => event.id === eventId)?.extendedProps.requiredCapabilities;
+    return getBayCapabilityError(bays, bay, required);
+  };
+  const requestedBayMismatch = newJobData ? getCapabilityMismatch('new-job', newJobData.requestedBay) : null;
+
   const handleResolve = async (suggestion: SuggestionOption) => {
     setIsResolving(true);
     
@@ -280,7 +297,7 @@ export function ConflictResolutionModal({
                       </div>
                       <div className="flex items-center gap-1">
                         <Calendar className="h-3 w-3" />
-                        {newJobData.requestedBay === 'bay-1' ? 'Bay 1' : 'Bay 2'}
+                        {getBayLabel(bays, newJobData.requestedBay)}
                       </div>
                     </div>
                   </div>
@@ -289,30 +306,47 @@ export function ConflictResolutionModal({
                   </Badge>
                 </div>
 
+                {requestedBayMismatch && (
+                  <div className="flex items-center gap-2 rounded bg-destructive/10 p-2 text-xs text-destructive">
+                    <AlertTriangle className="h-3 w-3 shrink-0" />
+                    {requestedBayMismatch}
+                  </div>
+                )}
+
                 <Separator />
 
                 <div className="space-y-2">
                   <p className="font-medium text-sm">Conflicting Appointments</p>
-                  {conflictingEvents.map((event) => (
-                    <div key={event.id} className="flex items-center justify-between p-2 bg-muted/50 rounded">
-                      <div className="space-y-1">
-                        <p className="text-sm font-medium">{event.title}</p>
-                        <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                          <div className="flex items-center gap-1">
-                            <Clock className="h-3 w-3" />
-                            {new Date(event.start).toLocaleTimeString()} - {new Date(event.end).toLocaleTimeString()}
-                          </div>
-                          <div className="flex items-center gap-1">
-                            <Calendar className="h-3 w-3" />
-                            {event.resourceId === 'bay-1' ? 'Bay 1' : 'Bay 2'}
+                  {conflictingEvents.map((event) => {
+                    const mismatch = getCapabilityMismatch(event.id, event.resourceId);
+                    return (
+                      <div key={event.id} className="flex items-center justify-between p-2 bg-muted/50 rounded">
+                        <div className="space-y-1">
+                          <p className="text-sm font-medium">{event.title}</p>
+                          <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                            <div className="flex items-center gap-1">
+                              <Clock className="h-3 w-3" />
+                              {new Date(event.start).toLocaleTimeString()} - {new Date(event.end).toLocaleTimeString()}
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <Calendar className="h-3 w-3" />
+                              {getBayLabel(bays, event.resourceId)}
+                            </div>
                           </div>
                         </div>
+                        <div className="flex items-center gap-1">
+                          {mismatch && (
+                            <Badge variant="destructive" className="text-xs" title={mismatch}>
+                              Wrong bay
+                            </Badge>
+                          )}
+                          <Badge variant="outline" className="text-xs">
+                            {event.extendedProps?.status || 'scheduled'}
+                          </Badge>
+                        </div>
                       </div>
-                      <Badge variant="outline" className="text-xs">
-                        {event.extendedProps?.status || 'scheduled'}
-                      </Badge>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </CardContent>
             </Card>
@@ -347,17 +381,25 @@ export function ConflictResolutionModal({
                     </p>
                   </CardHeader>
                   <CardContent className="pt-0">
-                    {suggestion.changes.map((change, index) => (
-                      <div key={index} className="flex items-center gap-2 text-xs">
-                        <span className="font-medium">{change.eventTitle}:</span>
-                        <span className="text-muted-foreground">{change.currentTime}</span>
-                        <ArrowRight className="h-3 w-3 text-muted-foreground" />
-                        <span className="font-medium text-primary">{change.newTime}</span>
-                        <Badge variant="outline" className="text-xs">
-                          {change.bay === 'bay-1' ? 'Bay 1' : 'Bay 2'}
-                        </Badge>
-                      </div>
-                    ))}
+                    {suggestion.changes.map((change, index) => {
+                      const mismatch = getCapabilityMismatch(change.eventId, change.bay);
+                      return (
+                        <div key={index} className="flex items-center gap-2 text-xs">
+                          <span className="font-medium">{change.eventTitle}:</span>
+                          <span className="text-muted-foreground">{change.currentTime}</span>
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                          <span className="font-medium text-primary">{change.newTime}</span>
+                          <Badge variant="outline" className="text-xs">
+                            {getBayLabel(bays, change.bay)}
+                          </Badge>
+                          {mismatch && (
+                            <Badge variant="destructive" className="text-xs" title={mismatch}>
+                              Missing equipment
+                            </Badge>
+                          )}
+                        </div>
+                      );
+                    })}
                   </CardContent>
                 </Card>
               ))}
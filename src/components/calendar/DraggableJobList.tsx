@@ -80,6 +80,7 @@ function DraggableJobItem({
           status: job.status,
           priority: job.priority,
           estimatedHours: job.estHours,
+          requiredCapabilities: job.requiredCapabilities,
           customerName,
           vehicleInfo,
           isExternalJob: true,
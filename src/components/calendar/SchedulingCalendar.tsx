@@ -1,7 +1,7 @@
 // Scheduling Calendar Component
 // Main calendar component for the mechanic shop scheduling system
 
-import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
 import FullCalendar from '@fullcalendar/react';
 import type { 
   CalendarApi, 
@@ -14,24 +14,40 @@ import type {
   EventReceiveArg,
   EventLeaveArg,
   DatesSetArg,
+  DateSpanApi,
 } from '@fullcalendar/core';
-import { defaultCalendarConfig, checkBayAvailability, createCalendarEvent } from '@/lib/calendar-config';
+import { DEFAULT_BAYS, getActiveBays, getBayBookingError, getBayCapabilityError } from '@shared/bays';
+import { bookingsCollide, getBufferMinutes } from '@shared/buffers';
+import { DEFAULT_LOCK_EDITING_MINUTES, getEditingLockMessage } from '@shared/editing-lock';
+import { getSegmentPosition } from '@shared/appointment-segments';
+import {
+  buildBayResources,
+  buildBusinessHours,
+  checkBayAvailability,
+  createBufferEvents,
+  createCalendarEvent,
+  defaultCalendarConfig,
+} from '@/lib/calendar-config';
 import { openPrintableSchedule, type PrintScope } from '@/lib/print-schedule';
+import { createShopHoursBackgroundEvents } from '@/lib/shop-hours';
+import { UNASSIGNED_TECHNICIAN, matchesTechnicianFilter } from '@/lib/technicians';
 import { ApiError, appointmentApi, customerApi, jobApi, vehicleApi } from '@/lib/api-client';
-import { useRealtimeAppointmentsByDateRange, useRealtimeAppointmentNotifications } from '@/hooks';
+import { useRealtimeAppointmentsByDateRange, useRealtimeAppointmentNotifications, useShopSettings, useTechnicians } from '@/hooks';
 import { useUIStore, usePreferencesStore } from '@/stores';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Calendar, Clock } from 'lucide-react';
 import { ConflictResolutionModal, type ConflictResolution } from './ConflictResolutionModal';
-import type { CalendarEvent, Bay } from '@/types/database';
+import type { AppointmentBookingOptions, BayCapability, CalendarEvent, Bay } from '@/types/database';
 
 interface SchedulingCalendarProps {
   onEventClick?: (event: CalendarEvent) => void;
-  onEventDrop?: (info: EventDropArg) => void;
-  onEventResize?: (info: EventResizeArg) => void;
+  // options carries the lock override reason when the appointment was inside the editing lock
+  onEventDrop?: (info: EventDropArg, options?: AppointmentBookingOptions) => void;
+  onEventResize?: (info: EventResizeArg, options?: AppointmentBookingOptions) => void;
   onDateSelect?: (selectInfo: DateSelectArg) => void;
   onEventChange?: (info: EventChangeArg) => void;
   onEventReceive?: (info: EventReceiveArg) => void;
@@ -71,6 +87,7 @@ interface ConflictJobDetails {
   estHours?: number;
   status?: string;
   priority?: string;
+  requiredCapabilities?: BayCapability[];
 }
 
 
@@ -132,6 +149,7 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
   const [currentDate, setCurrentDate] = useState(new Date());
   const [calendarEvents, setCalendarEvents] = useState<CalendarEvent[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [technicianFilter, setTechnicianFilter] = useState<string>('all');
   const [conflictModal, setConflictModal] = useState<ConflictModalState>({
     isOpen: false,
     conflictingEvents: [],
@@ -183,6 +201,45 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
 
   const dateRange = getDateRange();
 
+  // Shade closed hours and closures so operators see them before dragging
+  const { data: shopSettings } = useShopSettings();
+  const nonBookableEvents = useMemo(() => {
+    if (!shopSettings?.hours) {
+      return [];
+    }
+    return createShopHoursBackgroundEvents(shopSettings.hours, {
+      start: new Date(dateRange.start),
+      end: new Date(dateRange.end),
+    });
+  }, [shopSettings?.hours, dateRange.start, dateRange.end]);
+
+  // Columns, labels and business hours follow the bays configured in shop settings
+  const bays = shopSettings?.bays ?? DEFAULT_BAYS;
+  const defaultBayId = getActiveBays(bays)[0]?.id ?? DEFAULT_BAYS[0].id;
+  const bayResources = useMemo(
+    () => buildBayResources(bays, shopSettings?.hours, calendarEvents.map((event) => ({ bay: event.resourceId }))),
+    [bays, shopSettings?.hours, calendarEvents]
+  );
+  const businessHours = useMemo(
+    () => (shopSettings?.hours ? buildBusinessHours(shopSettings.hours) : undefined),
+    [shopSettings?.hours]
+  );
+  const bufferMinutes = getBufferMinutes(shopSettings?.schedulingDefaults);
+  const lockEditingWithinMinutes = shopSettings?.schedulingDefaults?.lockEditingWithinMinutes
+    ?? DEFAULT_LOCK_EDITING_MINUTES;
+
+  // Only narrows what is shown; conflict checks still see every appointment in the bay
+  const { data: techniciansResponse } = useTechnicians();
+  const technicians = techniciansResponse?.data ?? [];
+  const visibleEvents = useMemo(
+    () => calendarEvents.filter((event) => matchesTechnicianFilter(event.extendedProps.technicianId, technicianFilter)),
+    [calendarEvents, technicianFilter]
+  );
+  const bufferEvents = useMemo(
+    () => createBufferEvents(visibleEvents, bufferMinutes),
+    [visibleEvents, bufferMinutes]
+  );
+
   const refreshEvents = useCallback(async () => {
     setIsLoading(true);
     try {
@@ -229,7 +286,8 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
 
       const rangeStart = new Date(dateRange.start);
       const rangeEnd = new Date(dateRange.end);
-      const appointments = (appointmentsRes.data ?? []).filter(appointment => {
+      const allAppointments = appointmentsRes.data ?? [];
+      const appointments = allAppointments.filter(appointment => {
         const startAt = new Date(appointment.startAt);
         return startAt >= rangeStart && startAt <= rangeEnd;
       });
@@ -246,7 +304,10 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
         const customer = job ? customerMap.get(job.customerId) : undefined;
         const vehicle = job ? vehicleMap.get(job.vehicleId) : undefined;
 
-        return createCalendarEvent(appointment, job, customer, vehicle);
+        // Numbered against all of the job's segments, including ones outside the visible range
+        const segment = getSegmentPosition(allAppointments, appointment);
+
+        return createCalendarEvent(appointment, job, customer, vehicle, segment);
       });
 
       setCalendarEvents(events);
@@ -279,6 +340,9 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
   // Event handlers
   const handleEventClick = useCallback((clickInfo: EventClickArg) => {
     const event = clickInfo.event;
+    if (event.extendedProps?.nonBookable) {
+      return;
+    }
     
     // Prevent default selection behavior
     clickInfo.jsEvent.preventDefault();
@@ -304,7 +368,7 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
       title: event.title,
       start: event.start!,
       end: event.end!,
-      resourceId: event.getResources()[0]?.id || 'bay-1',
+      resourceId: event.getResources()[0]?.id || defaultBayId,
       backgroundColor: event.backgroundColor,
       borderColor: event.borderColor,
       extendedProps: event.extendedProps,
@@ -320,21 +384,45 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
     }
 
     onEventClick?.(calendarEvent);
-  }, [onEventClick, selectItem]);
+  }, [onEventClick, selectItem, defaultBayId]);
+
+  // Appointments starting inside the editing lock, or already in progress, only change with an override
+  // reason. Returns null when the change was abandoned.
+  const requestLockOverride = useCallback((oldEvent: EventApi): AppointmentBookingOptions | null => {
+    const lockMessage = oldEvent.start && oldEvent.end
+      ? getEditingLockMessage({ startAt: oldEvent.start, endAt: oldEvent.end }, lockEditingWithinMinutes)
+      : null;
+    if (!lockMessage) {
+      return {};
+    }
+
+    const reason = window.prompt(`${lockMessage}. Enter an override reason:`);
+    if (!reason?.trim()) {
+      addToast({
+        type: 'error',
+        title: 'Appointment Locked',
+        message: `${lockMessage}. Changes need an override reason.`,
+        duration: 5000,
+      });
+      return null;
+    }
+    return { lockOverride: { reason: reason.trim() } };
+  }, [lockEditingWithinMinutes, addToast]);
 
   const handleEventDrop = useCallback(async (dropInfo: EventDropArg) => {
-    const { event, oldResource, newResource } = dropInfo;
+    const { event, oldEvent, oldResource, newResource } = dropInfo;
     
     setIsLoading(true);
     try {
       // Check for conflicts
-      const newBayId = newResource?.id || oldResource?.id || 'bay-1';
+      const newBayId = newResource?.id || oldResource?.id || defaultBayId;
       const isAvailable = checkBayAvailability(
         newBayId,
         event.start!,
         event.end!,
         calendarEvents,
-        event.id
+        event.id,
+        bufferMinutes
       );
 
       if (!isAvailable) {
@@ -349,8 +437,14 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
         return;
       }
 
+      const bookingOptions = requestLockOverride(oldEvent);
+      if (!bookingOptions) {
+        dropInfo.revert();
+        return;
+      }
+
       // Call the handler
-      await onEventDrop?.(dropInfo);
+      await onEventDrop?.(dropInfo, bookingOptions);
 
       addToast({
         type: 'success',
@@ -370,21 +464,22 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
     } finally {
       setIsLoading(false);
     }
-  }, [onEventDrop, calendarEvents, addToast]);
+  }, [onEventDrop, calendarEvents, addToast, defaultBayId, bufferMinutes, requestLockOverride]);
 
   const handleEventResize = useCallback(async (resizeInfo: EventResizeArg) => {
-    const { event } = resizeInfo;
+    const { event, oldEvent } = resizeInfo;
     
     setIsLoading(true);
     try {
       // Check for conflicts with the new duration
-      const bayId = event.getResources()[0]?.id || 'bay-1';
+      const bayId = event.getResources()[0]?.id || defaultBayId;
       const isAvailable = checkBayAvailability(
         bayId,
         event.start!,
         event.end!,
         calendarEvents,
-        event.id
+        event.id,
+        bufferMinutes
       );
 
       if (!isAvailable) {
@@ -398,7 +493,13 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
         return;
       }
 
-      await onEventResize?.(resizeInfo);
+      const bookingOptions = requestLockOverride(oldEvent);
+      if (!bookingOptions) {
+        resizeInfo.revert();
+        return;
+      }
+
+      await onEventResize?.(resizeInfo, bookingOptions);
 
       addToast({
         type: 'success',
@@ -417,16 +518,18 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
     } finally {
       setIsLoading(false);
     }
-  }, [onEventResize, calendarEvents, addToast]);
+  }, [onEventResize, calendarEvents, addToast, defaultBayId, bufferMinutes, requestLockOverride]);
 
   const handleDateSelect = useCallback((selectInfo: DateSelectArg) => {
     // Check if the selected time slot is available
-    const bayId = selectInfo.resource?.id || 'bay-1';
+    const bayId = selectInfo.resource?.id || defaultBayId;
     const isAvailable = checkBayAvailability(
       bayId,
       selectInfo.start,
       selectInfo.end,
-      calendarEvents
+      calendarEvents,
+      undefined,
+      bufferMinutes
     );
 
     if (!isAvailable) {
@@ -440,7 +543,7 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
     }
 
     onDateSelect?.(selectInfo);
-  }, [onDateSelect, calendarEvents, addToast]);
+  }, [onDateSelect, calendarEvents, addToast, defaultBayId, bufferMinutes]);
 
   // Handle external job drops onto calendar
   const handleEventReceive = useCallback(async (receiveInfo: EventReceiveArg) => {
@@ -449,30 +552,22 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
     setIsLoading(true);
     try {
       // Check for conflicts
-      const bayId = event.getResources()[0]?.id || 'bay-1';
+      const bayId = event.getResources()[0]?.id || defaultBayId;
       const isAvailable = checkBayAvailability(
         bayId,
         event.start!,
         event.end!,
-        calendarEvents
+        calendarEvents,
+        undefined,
+        bufferMinutes
       );
 
       if (!isAvailable) {
         // Find conflicting events
-        const conflictingEvents = calendarEvents.filter(existingEvent => {
-          if (existingEvent.resourceId !== bayId) return false;
-          
-          const eventStart = new Date(existingEvent.start);
-          const eventEnd = new Date(existingEvent.end);
-          const newStart = event.start!;
-          const newEnd = event.end!;
-          
-          return (
-            (newStart >= eventStart && newStart < eventEnd) ||
-            (newEnd > eventStart && newEnd <= eventEnd) ||
-            (newStart <= eventStart && newEnd >= eventEnd)
-          );
-        });
+        const conflictingEvents = calendarEvents.filter(existingEvent => (
+          existingEvent.resourceId === bayId
+          && bookingsCollide({ start: event.start!, end: event.end! }, existingEvent, bufferMinutes)
+        ));
 
         // Show conflict resolution modal
         setConflictModal({
@@ -484,6 +579,7 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
               estHours: typeof event.extendedProps?.estimatedHours === 'number' ? event.extendedProps.estimatedHours : event.extendedProps?.estHours,
               priority: typeof event.extendedProps?.priority === 'string' ? event.extendedProps.priority : undefined,
               status: typeof event.extendedProps?.status === 'string' ? event.extendedProps.status : undefined,
+              requiredCapabilities: event.extendedProps?.requiredCapabilities,
             },
             requestedStartTime: event.start!,
             requestedEndTime: event.end!,
@@ -517,7 +613,7 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
     } finally {
       setIsLoading(false);
     }
-  }, [onEventReceive, calendarEvents, addToast]);
+  }, [onEventReceive, calendarEvents, addToast, defaultBayId, bufferMinutes]);
 
   // Handle when external events leave the calendar
   const handleEventLeave = useCallback((leaveInfo: EventLeaveArg) => {
@@ -667,7 +763,8 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
         }
           
         case 'force-schedule':
-          // Proceed despite conflicts
+          // Proceed despite conflicts; the flag lets the server accept it under a 'manual' policy
+          pendingReceiveInfo.event.setExtendedProp('allowOverbooking', true);
           addToast({
             type: 'warning',
             title: 'Force Scheduled',
@@ -751,6 +848,7 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
 
     return api
       .getEvents()
+      .filter((eventApi) => eventApi.display !== 'background')
       .map((eventApi) => {
         const start = eventApi.start ? new Date(eventApi.start) : null;
         const end = eventApi.end ? new Date(eventApi.end) : null;
@@ -790,10 +888,11 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
         scope,
         anchorDate: new Date(anchorBase),
         events,
+        bays,
         title: options.title ?? defaultTitle,
       });
     },
-    [currentDate, currentView, getCalendarApi, getEventSnapshots]
+    [currentDate, currentView, getCalendarApi, getEventSnapshots, bays]
   );
 
   useImperativeHandle(
@@ -814,7 +913,9 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
     ...defaultCalendarConfig,
     height,
     initialView: calendarPreferences.defaultView || 'resourceTimeGridDay',
-    events: calendarEvents,
+    resources: bayResources,
+    businessHours,
+    events: [...visibleEvents, ...bufferEvents, ...nonBookableEvents],
     eventClick: handleEventClick,
     eventDrop: handleEventDrop,
     eventResize: handleEventResize,
@@ -827,7 +928,16 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
     loading: setIsLoading,
     // Completely disable event selection
     selectAllow: () => false,
-    eventAllow: (dropInfo: any) => true, // Allow drops but not selection
+    // Drops outside the bay views are always allowed; a bay only takes a drop while it is
+    // active and has the equipment the job needs
+    eventAllow: (dropInfo: DateSpanApi, draggedEvent: EventApi | null) => !dropInfo.resource || (
+      !getBayBookingError(bays, dropInfo.resource.id)
+      && !getBayCapabilityError(bays, dropInfo.resource.id, draggedEvent?.extendedProps.requiredCapabilities)
+    ),
+    // An appointment may slide into its own buffer, but not into anyone else's
+    eventOverlap: (stillEvent: EventApi, movingEvent: EventApi | null) => (
+      stillEvent.extendedProps.bufferFor === movingEvent?.id
+    ),
     datesSet: (dateInfo: DatesSetArg) => {
       setCurrentDate(dateInfo.start);
       setCurrentView(dateInfo.view.type);
@@ -860,6 +970,21 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
         </div>
 
         <div className="flex items-center gap-2">
+          <Select value={technicianFilter} onValueChange={setTechnicianFilter}>
+            <SelectTrigger className="h-8 w-[180px]" aria-label="Filter appointments by technician">
+              <SelectValue placeholder="All technicians" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All technicians</SelectItem>
+              <SelectItem value={UNASSIGNED_TECHNICIAN}>Unassigned</SelectItem>
+              {technicians.map((technician) => (
+                <SelectItem key={technician.id} value={technician.id}>
+                  {technician.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           <TooltipProvider>
             <Tooltip>
               <TooltipTrigger asChild>
@@ -912,6 +1037,7 @@ export const SchedulingCalendar = forwardRef<SchedulingCalendarHandle, Schedulin
         onClose={() => setConflictModal(prev => ({ ...prev, isOpen: false }))}
         conflictingEvents={conflictModal.conflictingEvents}
         newJobData={conflictModal.newJobData}
+        bays={bays}
         onResolve={handleConflictResolution}
         onCancel={handleConflictCancel}
       />
@@ -58,89 +58,36 @@ import {
   RefreshCw
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { formatDistanceToNow, format, addDays, isAfter, isBefore, isToday } from 'date-fns';
-import { useUIStore } from '@/stores';
-import type { Call } from './CallList';
-
-interface FollowUpTask {
-  id: string;
-  callId: string;
-  call: Call;
-  type: 'call-back' | 'send-quote' | 'schedule-appointment' | 'check-in' | 'escalate' | 'custom';
-  priority: 'low' | 'normal' | 'high' | 'urgent';
-  dueDate: Date;
-  status: 'pending' | 'in-progress' | 'completed' | 'overdue' | 'cancelled';
-  assignedTo?: string;
-  title: string;
-  description: string;
-  notes?: string;
-  completedAt?: Date;
-  completedBy?: string;
-  outcome?: string;
-  nextAction?: string;
-  remindersSent: number;
-  lastReminderAt?: Date;
-  createdAt: Date;
-  updatedAt: Date;
-}
+import { formatDistanceToNow, format, addDays, isBefore, isToday } from 'date-fns';
+import {
+  useFollowUpTasks,
+  useCreateFollowUp,
+  useUpdateFollowUp,
+  useAssignFollowUp,
+  useSnoozeFollowUp,
+  useCompleteFollowUp,
+  useDeleteFollowUp,
+} from '@/hooks';
+import { isFollowUpOverdue } from '@shared/follow-ups';
+import type { Call, CreateFollowUpTaskData, FollowUpStatus, FollowUpTask } from '@/types/database';
+
+// Overdue is derived from the due time, so it is shown in place of the stored status
+type FollowUpDisplayStatus = FollowUpStatus | 'overdue';
+
+type FollowUpAction = 'start' | 'complete' | 'snooze' | 'delete';
 
 interface CallFollowUpSystemProps {
   calls: Call[];
   onFollowUpComplete?: (taskId: string, outcome: string) => void;
-  onFollowUpCreate?: (task: Partial<FollowUpTask>) => void;
+  onFollowUpCreate?: (task: FollowUpTask) => void;
   className?: string;
 }
 
-// Mock follow-up tasks - in real app, this would come from API
-const mockFollowUpTasks: FollowUpTask[] = [
-  {
-    id: 'FU-001',
-    callId: 'CALL-002',
-    call: {} as Call, // Would be populated from calls data
-    type: 'call-back',
-    priority: 'high',
-    dueDate: new Date(Date.now() + 2 * 60 * 60 * 1000), // 2 hours from now
-    status: 'pending',
-    assignedTo: 'Mike Chen',
-    title: 'Call back Maria Garcia about brake inspection',
-    description: 'Customer wants to schedule brake inspection after hearing grinding noise. Needs quote and availability.',
-    remindersSent: 0,
-    createdAt: new Date(Date.now() - 4 * 60 * 60 * 1000),
-    updatedAt: new Date(Date.now() - 4 * 60 * 60 * 1000),
-  },
-  {
-    id: 'FU-002',
-    callId: 'CALL-003',
-    call: {} as Call,
-    type: 'escalate',
-    priority: 'urgent',
-    dueDate: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours overdue
-    status: 'overdue',
-    assignedTo: 'Sarah Johnson',
-    title: 'Follow up on missed call - Robert Johnson',
-    description: 'Customer called about engine problems but call was missed. Left voicemail. Need to contact urgently.',
-    remindersSent: 2,
-    lastReminderAt: new Date(Date.now() - 1 * 60 * 60 * 1000),
-    createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000),
-    updatedAt: new Date(Date.now() - 1 * 60 * 60 * 1000),
-  },
-  {
-    id: 'FU-003',
-    callId: 'CALL-001',
-    call: {} as Call,
-    type: 'send-quote',
-    priority: 'normal',
-    dueDate: new Date(Date.now() + 24 * 60 * 60 * 1000), // 1 day from now
-    status: 'in-progress',
-    assignedTo: 'Sarah Johnson',
-    title: 'Send quote for John Smith oil change',
-    description: 'Customer requested quote for oil change service. Include synthetic oil options.',
-    notes: 'Started preparing quote, need to check current oil prices',
-    remindersSent: 0,
-    createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
-    updatedAt: new Date(Date.now() - 30 * 60 * 1000),
-  },
-];
+const getDisplayStatus = (task: FollowUpTask, now: Date = new Date()): FollowUpDisplayStatus => {
+  return isFollowUpOverdue(task, now) ? 'overdue' : task.status;
+};
+
+const isOpenStatus = (status: FollowUpDisplayStatus) => status !== 'completed' && status !== 'cancelled';
 
 const taskTypeConfig = {
   'call-back': {
@@ -233,7 +180,17 @@ export function CallFollowUpSystem({
   onFollowUpCreate,
   className = '',
 }: CallFollowUpSystemProps) {
-  const [tasks, setTasks] = useState<FollowUpTask[]>(mockFollowUpTasks);
+  const { data: tasksResponse, isLoading } = useFollowUpTasks();
+  const createFollowUp = useCreateFollowUp();
+  const updateFollowUp = useUpdateFollowUp();
+  const assignFollowUp = useAssignFollowUp();
+  const snoozeFollowUp = useSnoozeFollowUp();
+  const completeFollowUp = useCompleteFollowUp();
+  const deleteFollowUp = useDeleteFollowUp();
+
+  const tasks = useMemo(() => tasksResponse?.data ?? [], [tasksResponse]);
+  const callsById = useMemo(() => new Map(calls.map((call) => [call.id, call])), [calls]);
+
   const [filter, setFilter] = useState<{
     status: string;
     priority: string;
@@ -248,19 +205,21 @@ export function CallFollowUpSystem({
     search: '',
   });
 
-  const [selectedTask, setSelectedTask] = useState<FollowUpTask | null>(null);
+  // Keep the id rather than the task so the detail view picks up refetched data
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   const [showCreateTask, setShowCreateTask] = useState(false);
   const [sortBy, setSortBy] = useState<'dueDate' | 'priority' | 'created'>('dueDate');
 
-  const { addToast } = useUIStore();
+  const selectedTask = tasks.find((task) => task.id === selectedTaskId) ?? null;
 
   // Filter and sort tasks
   const filteredTasks = useMemo(() => {
-    let filtered = tasks;
+    const now = new Date();
+    let filtered = [...tasks];
 
     // Apply filters
     if (filter.status !== 'all') {
-      filtered = filtered.filter(task => task.status === filter.status);
+      filtered = filtered.filter(task => getDisplayStatus(task, now) === filter.status);
     }
 
     if (filter.priority !== 'all') {
@@ -279,36 +238,36 @@ export function CallFollowUpSystem({
       const search = filter.search.toLowerCase();
       filtered = filtered.filter(task =>
         task.title.toLowerCase().includes(search) ||
-        task.description.toLowerCase().includes(search) ||
-        task.callId.toLowerCase().includes(search)
+        (task.description ?? '').toLowerCase().includes(search) ||
+        (callsById.get(task.callId)?.callId ?? task.callId).toLowerCase().includes(search)
       );
     }
 
     // Sort tasks
     filtered.sort((a, b) => {
       switch (sortBy) {
-        case 'dueDate':
-          return a.dueDate.getTime() - b.dueDate.getTime();
         case 'priority':
           const priorityOrder = { urgent: 4, high: 3, normal: 2, low: 1 };
           return priorityOrder[b.priority] - priorityOrder[a.priority];
         case 'created':
-          return b.createdAt.getTime() - a.createdAt.getTime();
+          return b.createdAt.localeCompare(a.createdAt);
+        case 'dueDate':
         default:
-          return a.dueDate.getTime() - b.dueDate.getTime();
+          return a.dueAt.localeCompare(b.dueAt);
       }
     });
 
     return filtered;
-  }, [tasks, filter, sortBy]);
+  }, [tasks, callsById, filter, sortBy]);
 
   // Calculate statistics
   const stats = useMemo(() => {
+    const now = new Date();
     const total = tasks.length;
     const pending = tasks.filter(t => t.status === 'pending').length;
-    const overdue = tasks.filter(t => t.status === 'overdue').length;
+    const overdue = tasks.filter(t => isFollowUpOverdue(t, now)).length;
     const dueToday = tasks.filter(t => 
-      t.status === 'pending' && isToday(t.dueDate)
+      getDisplayStatus(t, now) === 'pending' && isToday(new Date(t.dueAt))
     ).length;
     const completed = tasks.filter(t => t.status === 'completed').length;
     const completionRate = total > 0 ? (completed / total) * 100 : 0;
@@ -324,108 +283,64 @@ export function CallFollowUpSystem({
   }, [tasks]);
 
   // Handle task actions
-  const handleTaskAction = useCallback((action: string, task: FollowUpTask) => {
+  const handleTaskAction = useCallback((action: FollowUpAction, task: FollowUpTask, outcome?: string) => {
     switch (action) {
       case 'complete':
-        setTasks(prev => prev.map(t => 
-          t.id === task.id 
-            ? { ...t, status: 'completed', completedAt: new Date(), updatedAt: new Date() }
-            : t
-        ));
-        onFollowUpComplete?.(task.id, 'completed');
-        addToast({
-          type: 'success',
-          title: 'Task Completed',
-          message: `Follow-up task "${task.title}" has been completed`,
-          duration: 3000,
+        completeFollowUp.mutate({ id: task.id, outcome }, {
+          onSuccess: () => onFollowUpComplete?.(task.id, outcome || 'completed'),
         });
         break;
       
       case 'start':
-        setTasks(prev => prev.map(t => 
-          t.id === task.id 
-            ? { ...t, status: 'in-progress', updatedAt: new Date() }
-            : t
-        ));
-        addToast({
-          type: 'info',
-          title: 'Task Started',
-          message: `Working on "${task.title}"`,
-          duration: 2000,
-        });
+        updateFollowUp.mutate({ id: task.id, data: { status: 'in-progress' } });
         break;
       
       case 'snooze':
-        const newDueDate = addDays(new Date(), 1);
-        setTasks(prev => prev.map(t => 
-          t.id === task.id 
-            ? { ...t, dueDate: newDueDate, updatedAt: new Date() }
-            : t
-        ));
-        addToast({
-          type: 'info',
-          title: 'Task Snoozed',
-          message: `Task postponed until tomorrow`,
-          duration: 2000,
-        });
+        snoozeFollowUp.mutate({ id: task.id });
         break;
       
       case 'delete':
-        setTasks(prev => prev.filter(t => t.id !== task.id));
-        addToast({
-          type: 'success',
-          title: 'Task Deleted',
-          message: `Follow-up task has been removed`,
-          duration: 2000,
+        deleteFollowUp.mutate(task.id, {
+          onSuccess: () => setSelectedTaskId((current) => (current === task.id ? null : current)),
         });
         break;
       
       default:
         break;
     }
-  }, [onFollowUpComplete, addToast]);
-
-  const handleCreateTask = useCallback((taskData: Partial<FollowUpTask>) => {
-    const newTask: FollowUpTask = {
-      id: `FU-${Date.now()}`,
-      callId: taskData.callId || '',
-      call: taskData.call || {} as Call,
-      type: taskData.type || 'custom',
-      priority: taskData.priority || 'normal',
-      dueDate: taskData.dueDate || addDays(new Date(), 1),
-      status: 'pending',
-      assignedTo: taskData.assignedTo,
-      title: taskData.title || '',
-      description: taskData.description || '',
-      remindersSent: 0,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+  }, [completeFollowUp, updateFollowUp, snoozeFollowUp, deleteFollowUp, onFollowUpComplete]);
 
-    setTasks(prev => [...prev, newTask]);
-    onFollowUpCreate?.(newTask);
-    setShowCreateTask(false);
+  const handleAssignTask = useCallback((task: FollowUpTask, assignedTo: string) => {
+    assignFollowUp.mutate({ id: task.id, assignedTo: assignedTo.trim() || null });
+  }, [assignFollowUp]);
 
-    addToast({
-      type: 'success',
-      title: 'Follow-up Created',
-      message: `New follow-up task "${newTask.title}" has been created`,
-      duration: 3000,
+  const handleCreateTask = useCallback((taskData: CreateFollowUpTaskData) => {
+    createFollowUp.mutate(taskData, {
+      onSuccess: (response) => {
+        if (response.data) {
+          onFollowUpCreate?.(response.data);
+        }
+        setShowCreateTask(false);
+      },
     });
-  }, [onFollowUpCreate, addToast]);
+  }, [createFollowUp, onFollowUpCreate]);
 
   const getTaskUrgency = (task: FollowUpTask) => {
-    if (task.status === 'overdue') return 'overdue';
-    if (isToday(task.dueDate)) return 'due-today';
-    if (isBefore(task.dueDate, addDays(new Date(), 1))) return 'due-soon';
+    const status = getDisplayStatus(task);
+    if (status === 'overdue') return 'overdue';
+    if (!isOpenStatus(status)) return 'future';
+    const dueAt = new Date(task.dueAt);
+    if (isToday(dueAt)) return 'due-today';
+    if (isBefore(dueAt, addDays(new Date(), 1))) return 'due-soon';
     return 'future';
   };
 
   const renderTaskCard = (task: FollowUpTask) => {
     const typeConfig = taskTypeConfig[task.type];
-    const statusInfo = statusConfig[task.status];
+    const statusInfo = statusConfig[getDisplayStatus(task)];
     const priorityInfo = priorityConfig[task.priority];
     const urgency = getTaskUrgency(task);
+    const isOpen = task.status === 'pending' || task.status === 'in-progress';
     const TypeIcon = typeConfig.icon;
     const StatusIcon = statusInfo.icon;
 
@@ -438,7 +353,7 @@ export function CallFollowUpSystem({
           urgency === 'due-today' && 'border-orange-300 bg-orange-50',
           urgency === 'due-soon' && 'border-yellow-300 bg-yellow-50'
         )}
-        onClick={() => setSelectedTask(task)}
+        onClick={() => setSelectedTaskId(task.id)}
       >
         <CardHeader className="pb-3">
           <div className="flex items-start justify-between">
@@ -490,7 +405,7 @@ export function CallFollowUpSystem({
                       Start Task
                     </DropdownMenuItem>
                   )}
-                  {(task.status === 'pending' || task.status === 'in-progress') && (
+                  {isOpen && (
                     <DropdownMenuItem onClick={(e) => {
                       e.stopPropagation();
                       handleTaskAction('complete', task);
@@ -499,13 +414,15 @@ export function CallFollowUpSystem({
                       Mark Complete
                     </DropdownMenuItem>
                   )}
-                  <DropdownMenuItem onClick={(e) => {
-                    e.stopPropagation();
-                    handleTaskAction('snooze', task);
-                  }}>
-                    <Clock className="mr-2 h-4 w-4" />
-                    Snooze 1 Day
-                  </DropdownMenuItem>
+                  {isOpen && (
+                    <DropdownMenuItem onClick={(e) => {
+                      e.stopPropagation();
+                      handleTaskAction('snooze', task);
+                    }}>
+                      <Clock className="mr-2 h-4 w-4" />
+                      Snooze 1 Day
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem 
                     className="text-red-600"
@@ -532,7 +449,7 @@ export function CallFollowUpSystem({
             <div className="flex items-center gap-4">
               <div className="flex items-center gap-1">
                 <Calendar className="h-3 w-3" />
-                <span>Due {formatDistanceToNow(task.dueDate, { addSuffix: true })}</span>
+                <span>Due {formatDistanceToNow(new Date(task.dueAt), { addSuffix: true })}</span>
               </div>
               
               {task.assignedTo && (
@@ -545,15 +462,15 @@ export function CallFollowUpSystem({
 
             <div className="flex items-center gap-1">
               <Phone className="h-3 w-3" />
-              <span>{task.callId}</span>
+              <span>{callsById.get(task.callId)?.callId ?? task.callId}</span>
             </div>
           </div>
 
-          {task.remindersSent > 0 && (
+          {task.snoozeCount > 0 && (
             <div className="mt-2 pt-2 border-t">
               <div className="flex items-center gap-1 text-xs text-orange-600">
                 <Bell className="h-3 w-3" />
-                <span>{task.remindersSent} reminder{task.remindersSent > 1 ? 's' : ''} sent</span>
+                <span>Snoozed {task.snoozeCount} time{task.snoozeCount > 1 ? 's' : ''}</span>
               </div>
             </div>
           )}
@@ -732,7 +649,9 @@ export function CallFollowUpSystem({
           </div>
 
           {/* Task Cards */}
-          {filteredTasks.length > 0 ? (
+          {isLoading ? (
+            <div className="text-center py-12 text-muted-foreground">Loading follow-up tasks...</div>
+          ) : filteredTasks.length > 0 ? (
             <ScrollArea className="h-[600px]">
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {filteredTasks.map(renderTaskCard)}
@@ -766,6 +685,7 @@ export function CallFollowUpSystem({
           
           <CreateTaskForm
             calls={calls}
+            isSubmitting={createFollowUp.isPending}
             onSubmit={handleCreateTask}
             onCancel={() => setShowCreateTask(false)}
           />
@@ -774,12 +694,14 @@ export function CallFollowUpSystem({
 
       {/* Task Detail Modal */}
       {selectedTask && (
-        <Dialog open={!!selectedTask} onOpenChange={() => setSelectedTask(null)}>
+        <Dialog open={!!selectedTask} onOpenChange={() => setSelectedTaskId(null)}>
           <DialogContent className="max-w-3xl">
             <TaskDetailView
               task={selectedTask}
+              call={callsById.get(selectedTask.callId)}
               onAction={handleTaskAction}
-              onClose={() => setSelectedTask(null)}
+              onAssign={handleAssignTask}
+              onClose={() => setSelectedTaskId(null)}
             />
           </DialogContent>
         </Dialog>
@@ -791,23 +713,46 @@ export function CallFollowUpSystem({
 // Create Task Form Component
 interface CreateTaskFormProps {
   calls: Call[];
-  onSubmit: (task: Partial<FollowUpTask>) => void;
+  isSubmitting?: boolean;
+  onSubmit: (task: CreateFollowUpTaskData) => void;
   onCancel: () => void;
 }
 
-function CreateTaskForm({ calls, onSubmit, onCancel }: CreateTaskFormProps) {
-  const [formData, setFormData] = useState<Partial<FollowUpTask>>({
+function CreateTaskForm({ calls, isSubmitting = false, onSubmit, onCancel }: CreateTaskFormProps) {
+  const [formData, setFormData] = useState<{
+    callId: string;
+    type: FollowUpTask['type'];
+    priority: FollowUpTask['priority'];
+    dueAt?: Date;
+    title: string;
+    description: string;
+    assignedTo: string;
+  }>({
+    callId: '',
     type: 'call-back',
     priority: 'normal',
-    dueDate: addDays(new Date(), 1),
+    dueAt: addDays(new Date(), 1),
     title: '',
     description: '',
-    assignedTo: 'Current User',
+    assignedTo: '',
   });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+    if (!formData.callId || !formData.dueAt) {
+      return;
+    }
+
+    onSubmit({
+      callId: formData.callId,
+      customerId: calls.find(c => c.id === formData.callId)?.customerId,
+      type: formData.type,
+      priority: formData.priority,
+      dueAt: formData.dueAt.toISOString(),
+      title: formData.title,
+      description: formData.description || undefined,
+      assignedTo: formData.assignedTo || undefined,
+    });
   };
 
   return (
@@ -859,11 +804,8 @@ function CreateTaskForm({ calls, onSubmit, onCancel }: CreateTaskFormProps) {
       <div>
         <label className="text-sm font-medium mb-2 block">Related Call</label>
         <Select 
-          value={formData.callId || ''} 
-          onValueChange={(value) => {
-            const call = calls.find(c => c.id === value);
-            setFormData(prev => ({ ...prev, callId: value, call }));
-          }}
+          value={formData.callId} 
+          onValueChange={(value) => setFormData(prev => ({ ...prev, callId: value }))}
         >
           <SelectTrigger>
             <SelectValue placeholder="Select a call..." />
@@ -871,29 +813,42 @@ function CreateTaskForm({ calls, onSubmit, onCancel }: CreateTaskFormProps) {
           <SelectContent>
             {calls.slice(0, 10).map((call) => (
               <SelectItem key={call.id} value={call.id}>
-                {call.callId} - {call.customerName} ({call.serviceType})
+                {call.callId ?? call.id} - {call.customerName ?? call.phoneNumber}
+                {call.serviceType ? ` (${call.serviceType})` : ''}
               </SelectItem>
             ))}
           </SelectContent>
         </Select>
       </div>
 
-      <div>
-        <label className="text-sm font-medium mb-2 block">Due Date</label>
-        <Input
-          type="datetime-local"
-          value={formData.dueDate ? format(formData.dueDate, "yyyy-MM-dd'T'HH:mm") : ''}
-          onChange={(e) => setFormData(prev => ({ 
-            ...prev, 
-            dueDate: e.target.value ? new Date(e.target.value) : undefined 
-          }))}
-        />
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="text-sm font-medium mb-2 block">Due Date</label>
+          <Input
+            type="datetime-local"
+            value={formData.dueAt ? format(formData.dueAt, "yyyy-MM-dd'T'HH:mm") : ''}
+            onChange={(e) => setFormData(prev => ({ 
+              ...prev, 
+              dueAt: e.target.value ? new Date(e.target.value) : undefined 
+            }))}
+            required
+          />
+        </div>
+
+        <div>
+          <label className="text-sm font-medium mb-2 block">Assigned To</label>
+          <Input
+            value={formData.assignedTo}
+            onChange={(e) => setFormData(prev => ({ ...prev, assignedTo: e.target.value }))}
+            placeholder="Unassigned"
+          />
+        </div>
       </div>
 
       <div>
         <label className="text-sm font-medium mb-2 block">Title</label>
         <Input
-          value={formData.title || ''}
+          value={formData.title}
           onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
           placeholder="Brief description of the task..."
           required
@@ -903,11 +858,10 @@ function CreateTaskForm({ calls, onSubmit, onCancel }: CreateTaskFormProps) {
       <div>
         <label className="text-sm font-medium mb-2 block">Description</label>
         <Textarea
-          value={formData.description || ''}
+          value={formData.description}
           onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
           placeholder="Detailed task description..."
           rows={3}
-          required
         />
       </div>
 
@@ -915,7 +869,7 @@ function CreateTaskForm({ calls, onSubmit, onCancel }: CreateTaskFormProps) {
         <Button type="button" variant="outline" onClick={onCancel}>
           Cancel
         </Button>
-        <Button type="submit">
+        <Button type="submit" disabled={!formData.callId || isSubmitting}>
           Create Task
         </Button>
       </div>
@@ -926,16 +880,21 @@ function CreateTaskForm({ calls, onSubmit, onCancel }: CreateTaskFormProps) {
 // Task Detail View Component
 interface TaskDetailViewProps {
   task: FollowUpTask;
-  onAction: (action: string, task: FollowUpTask) => void;
+  call?: Call;
+  onAction: (action: FollowUpAction, task: FollowUpTask, outcome?: string) => void;
+  onAssign: (task: FollowUpTask, assignedTo: string) => void;
   onClose: () => void;
 }
 
-function TaskDetailView({ task, onAction, onClose }: TaskDetailViewProps) {
+function TaskDetailView({ task, call, onAction, onAssign, onClose }: TaskDetailViewProps) {
+  const [assignee, setAssignee] = useState(task.assignedTo ?? '');
+  const [outcome, setOutcome] = useState('');
   const typeConfig = taskTypeConfig[task.type];
-  const statusInfo = statusConfig[task.status];
+  const statusInfo = statusConfig[getDisplayStatus(task)];
   const priorityInfo = priorityConfig[task.priority];
   const TypeIcon = typeConfig.icon;
   const StatusIcon = statusInfo.icon;
+  const isOpen = task.status === 'pending' || task.status === 'in-progress';
 
   return (
     <div className="space-y-6">
@@ -966,19 +925,40 @@ function TaskDetailView({ task, onAction, onClose }: TaskDetailViewProps) {
         
         <div>
           <span className="text-sm text-muted-foreground">Due Date</span>
-          <p className="font-medium">{format(task.dueDate, 'PPpp')}</p>
+          <p className="font-medium">{format(new Date(task.dueAt), 'PPpp')}</p>
         </div>
         
         <div>
           <span className="text-sm text-muted-foreground">Assigned To</span>
-          <p className="font-medium">{task.assignedTo || 'Unassigned'}</p>
+          {isOpen ? (
+            <div className="flex items-center gap-2">
+              <Input
+                value={assignee}
+                onChange={(e) => setAssignee(e.target.value)}
+                placeholder="Unassigned"
+                className="h-8"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={assignee.trim() === (task.assignedTo ?? '')}
+                onClick={() => onAssign(task, assignee)}
+              >
+                Assign
+              </Button>
+            </div>
+          ) : (
+            <p className="font-medium">{task.assignedTo || 'Unassigned'}</p>
+          )}
         </div>
       </div>
 
-      <div>
-        <h3 className="font-medium mb-2">Description</h3>
-        <p className="text-sm text-muted-foreground">{task.description}</p>
-      </div>
+      {task.description && (
+        <div>
+          <h3 className="font-medium mb-2">Description</h3>
+          <p className="text-sm text-muted-foreground">{task.description}</p>
+        </div>
+      )}
 
       {task.notes && (
         <div>
@@ -987,21 +967,56 @@ function TaskDetailView({ task, onAction, onClose }: TaskDetailViewProps) {
         </div>
       )}
 
+      {task.status === 'completed' && (
+        <div>
+          <h3 className="font-medium mb-2">Outcome</h3>
+          <p className="text-sm text-muted-foreground">
+            {task.outcome || 'Completed'}
+            {task.completedAt && ` · ${format(new Date(task.completedAt), 'PPp')}`}
+            {task.completedBy && ` by ${task.completedBy}`}
+          </p>
+        </div>
+      )}
+
       <div>
         <h3 className="font-medium mb-2">Related Call</h3>
         <div className="p-3 border rounded-lg">
-          <p className="font-medium">{task.callId}</p>
-          <p className="text-sm text-muted-foreground">
-            Call details would be displayed here
-          </p>
+          <p className="font-medium">{call?.callId ?? task.callId}</p>
+          {call ? (
+            <p className="text-sm text-muted-foreground">
+              {call.customerName ?? 'Unknown caller'} · {call.phoneNumber} · {format(new Date(call.callStartTime), 'PPp')}
+              {call.callReason && ` · ${call.callReason}`}
+            </p>
+          ) : (
+            <p className="text-sm text-muted-foreground">Call details unavailable</p>
+          )}
         </div>
       </div>
 
+      {isOpen && (
+        <div>
+          <h3 className="font-medium mb-2">Outcome</h3>
+          <Textarea
+            value={outcome}
+            onChange={(e) => setOutcome(e.target.value)}
+            placeholder="What happened on the follow-up?"
+            rows={2}
+          />
+        </div>
+      )}
+
       <div className="flex items-center justify-end gap-2 pt-4 border-t">
         <Button variant="outline" onClick={onClose}>
           Close
         </Button>
         
+        {isOpen && (
+          <Button variant="outline" onClick={() => onAction('snooze', task)}>
+            <Clock className="h-4 w-4 mr-2" />
+            Snooze 1 Day
+          </Button>
+        )}
+        
         {task.status === 'pending' && (
           <Button variant="outline" onClick={() => onAction('start', task)}>
             <RefreshCw className="h-4 w-4 mr-2" />
@@ -1009,8 +1024,8 @@ function TaskDetailView({ task, onAction, onClose }: TaskDetailViewProps) {
           </Button>
         )}
         
-        {(task.status === 'pending' || task.status === 'in-progress') && (
-          <Button onClick={() => onAction('complete', task)}>
+        {isOpen && (
+          <Button onClick={() => onAction('complete', task, outcome.trim() || undefined)}>
             <CheckCircle className="h-4 w-4 mr-2" />
             Mark Complete
           </Button>
@@ -1020,4 +1035,4 @@ function TaskDetailView({ task, onAction, onClose }: TaskDetailViewProps) {
   );
 }
 
-export type { FollowUpTask, CallFollowUpSystemProps };
+export type { FollowUpDisplayStatus, CallFollowUpSystemProps };
@@ -52,6 +52,9 @@ import { format, addDays, addHours, startOfDay } from 'date-fns';
 import { useUIStore } from '@/stores';
 import { useCreateJob } from '@/hooks/use-jobs';
 import { useCreateAppointment } from '@/hooks/use-appointments';
+import { useTechnicians } from '@/hooks/use-technicians';
+import { useShopSettings } from '@/hooks/use-settings';
+import { DEFAULT_BAYS, getActiveBays } from '@shared/bays';
 import type { Call } from './CallList';
 import type { Job } from '@/types/database';
 
@@ -116,15 +119,6 @@ const serviceEstimates = {
   'general-repair': { hours: 2, cost: 200 },
 };
 
-// Available bays and technicians
-const availableBays = ['Bay 1', 'Bay 2', 'Bay 3', 'Bay 4'];
-const availableTechnicians = [
-  { id: 'tech1', name: 'Mike Johnson', specialties: ['engine', 'transmission'] },
-  { id: 'tech2', name: 'Sarah Wilson', specialties: ['brakes', 'suspension'] },
-  { id: 'tech3', name: 'David Chen', specialties: ['electrical', 'ac'] },
-  { id: 'tech4', name: 'Lisa Rodriguez', specialties: ['general', 'inspection'] },
-];
-
 export function CallToJobConverter({
   call,
   onConversionComplete,
@@ -151,7 +145,6 @@ export function CallToJobConverter({
       vehicleInfo: `${call.vehicleYear} ${call.vehicleMake} ${call.vehicleModel}`,
       scheduledDate: call.appointmentRequested ? addDays(new Date(), 1) : undefined,
       scheduledTime: '09:00',
-      bay: 'Bay 1',
       notes: call.callNotes || '',
       customerConcerns: call.customerConcerns,
       urgentFlags: call.servicePriority === 'urgent' ? ['urgent-service'] : [],
@@ -172,6 +165,12 @@ export function CallToJobConverter({
   // Hooks
   const { mutate: createJob } = useCreateJob();
   const { mutate: createAppointment } = useCreateAppointment();
+  const { data: techniciansResponse } = useTechnicians({ active: true });
+  const availableTechnicians = techniciansResponse?.data ?? [];
+  // Only bays that are active in shop settings take new bookings; defaults to the first one
+  const { data: shopSettings } = useShopSettings();
+  const availableBays = getActiveBays(shopSettings?.bays ?? DEFAULT_BAYS);
+  const selectedBay = conversionData.bay || availableBays[0]?.id;
   const { addToast } = useUIStore();
 
   // Calculate suggested appointment slots
@@ -269,6 +268,7 @@ export function CallToJobConverter({
           estCost: conversionData.estCost,
           notes: conversionData.notes,
           customerConcerns: conversionData.customerConcerns,
+          technicianId: conversionData.options.assignTechnician ? conversionData.assignedTechnicianId : undefined,
           createdFromCall: call.id,
         };
 
@@ -292,7 +292,7 @@ export function CallToJobConverter({
           jobId: createdJob?.id,
           date: conversionData.scheduledDate,
           time: conversionData.scheduledTime,
-          bay: conversionData.bay,
+          bay: selectedBay,
           technicianId: conversionData.assignedTechnicianId,
           duration: conversionData.estHours,
           notes: conversionData.notes,
@@ -353,7 +353,7 @@ export function CallToJobConverter({
     } finally {
       setIsConverting(false);
     }
-  }, [conversionData, call.id, createJob, createAppointment, addToast, onConversionComplete]);
+  }, [conversionData, selectedBay, call.id, createJob, createAppointment, addToast, onConversionComplete]);
 
   return (
     <div className={cn('space-y-6', className)}>
@@ -575,7 +575,7 @@ export function CallToJobConverter({
               <div>
                 <Label htmlFor="bay">Service Bay</Label>
                 <Select 
-                  value={conversionData.bay || ''} 
+                  value={selectedBay || ''} 
                   onValueChange={(value) => updateConversionData({ bay: value })}
                 >
                   <SelectTrigger>
@@ -583,8 +583,8 @@ export function CallToJobConverter({
                   </SelectTrigger>
                   <SelectContent>
                     {availableBays.map((bay) => (
-                      <SelectItem key={bay} value={bay}>
-                        {bay}
+                      <SelectItem key={bay.id} value={bay.id}>
+                        {bay.name}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -609,7 +609,7 @@ export function CallToJobConverter({
                         <div className="flex items-center justify-between w-full">
                           <span>{tech.name}</span>
                           <span className="text-xs text-muted-foreground ml-2">
-                            {tech.specialties.join(', ')}
+                            {tech.skills.join(', ')}
                           </span>
                         </div>
                       </SelectItem>
@@ -3,7 +3,6 @@
 
 import React, { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import {
   BarChart,
@@ -21,25 +20,20 @@ import {
 } from 'recharts';
 import {
   Phone,
-  Mail,
-  MessageSquare,
-  Calendar,
-  Bell,
   TrendingUp,
   TrendingDown,
   Clock,
-  CheckCircle,
-  AlertTriangle,
   Activity,
+  Zap,
+  Link2,
   Users,
-  Target,
-  Zap
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import type { CommunicationItem } from './CustomerCommunicationTimeline';
+import { getAverageResponseHours } from '@shared/communications';
+import type { Communication } from '@/types/database';
 
 interface CommunicationAnalyticsProps {
-  communications: CommunicationItem[];
+  communications: Communication[];
   timeRange?: 'week' | 'month' | 'quarter' | 'year';
   className?: string;
 }
@@ -48,21 +42,28 @@ const communicationColors = {
   call: '#3b82f6',
   email: '#10b981',
   sms: '#8b5cf6',
-  appointment: '#f59e0b',
-  reminder: '#eab308',
   note: '#6b7280',
-  quote: '#6366f1',
-  invoice: '#ef4444',
 };
 
-const statusColors = {
-  sent: '#3b82f6',
-  delivered: '#10b981',
-  read: '#059669',
-  failed: '#ef4444',
-  pending: '#eab308',
-  completed: '#10b981',
-  cancelled: '#6b7280',
+const getPeriodStart = (timeRange: NonNullable<CommunicationAnalyticsProps['timeRange']>, from: Date) => {
+  const cutoffDate = new Date(from);
+
+  switch (timeRange) {
+    case 'week':
+      cutoffDate.setDate(from.getDate() - 7);
+      break;
+    case 'month':
+      cutoffDate.setMonth(from.getMonth() - 1);
+      break;
+    case 'quarter':
+      cutoffDate.setMonth(from.getMonth() - 3);
+      break;
+    case 'year':
+      cutoffDate.setFullYear(from.getFullYear() - 1);
+      break;
+  }
+
+  return cutoffDate;
 };
 
 export function CommunicationAnalytics({
@@ -73,32 +74,25 @@ export function CommunicationAnalytics({
   // Calculate analytics
   const analytics = useMemo(() => {
     const now = new Date();
-    const cutoffDate = new Date();
-    
-    switch (timeRange) {
-      case 'week':
-        cutoffDate.setDate(now.getDate() - 7);
-        break;
-      case 'month':
-        cutoffDate.setMonth(now.getMonth() - 1);
-        break;
-      case 'quarter':
-        cutoffDate.setMonth(now.getMonth() - 3);
-        break;
-      case 'year':
-        cutoffDate.setFullYear(now.getFullYear() - 1);
-        break;
-    }
+    const cutoffDate = getPeriodStart(timeRange, now);
+    const previousCutoffDate = getPeriodStart(timeRange, cutoffDate);
 
     const filteredCommunications = communications.filter(
-      comm => comm.timestamp >= cutoffDate
+      comm => new Date(comm.occurredAt) >= cutoffDate
     );
+    const previousCount = communications.filter(comm => {
+      const occurredAt = new Date(comm.occurredAt);
+      return occurredAt >= previousCutoffDate && occurredAt < cutoffDate;
+    }).length;
 
     // Basic counts
     const totalCommunications = filteredCommunications.length;
     const inboundCount = filteredCommunications.filter(c => c.direction === 'inbound').length;
     const outboundCount = filteredCommunications.filter(c => c.direction === 'outbound').length;
-    const systemCount = filteredCommunications.filter(c => c.direction === 'system').length;
+    const internalCount = filteredCommunications.filter(c => c.direction === 'internal').length;
+    const changeFromPrevious = previousCount > 0
+      ? ((totalCommunications - previousCount) / previousCount) * 100
+      : null;
 
     // Type breakdown
     const typeBreakdown = Object.entries(
@@ -112,29 +106,27 @@ export function CommunicationAnalytics({
       percentage: totalCommunications > 0 ? (count / totalCommunications) * 100 : 0,
     }));
 
-    // Status breakdown
-    const statusBreakdown = Object.entries(
+    // Who is logging communications
+    const authorBreakdown = Object.entries(
       filteredCommunications.reduce((acc, comm) => {
-        acc[comm.status] = (acc[comm.status] || 0) + 1;
+        acc[comm.author] = (acc[comm.author] || 0) + 1;
         return acc;
       }, {} as Record<string, number>)
-    ).map(([status, count]) => ({
-      status,
-      count,
-      percentage: totalCommunications > 0 ? (count / totalCommunications) * 100 : 0,
-    }));
-
-    // Response rates
-    const emailCommunications = filteredCommunications.filter(c => c.type === 'email');
-    const readEmails = emailCommunications.filter(c => c.status === 'read').length;
-    const emailReadRate = emailCommunications.length > 0 ? (readEmails / emailCommunications.length) * 100 : 0;
+    )
+      .map(([author, count]) => ({
+        author,
+        count,
+        percentage: totalCommunications > 0 ? (count / totalCommunications) * 100 : 0,
+      }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5);
 
-    const callCommunications = filteredCommunications.filter(c => c.type === 'call');
-    const completedCalls = callCommunications.filter(c => c.status === 'completed').length;
-    const callSuccessRate = callCommunications.length > 0 ? (completedCalls / callCommunications.length) * 100 : 0;
+    // Linked records
+    const jobLinkedCount = filteredCommunications.filter(c => c.jobId).length;
+    const callLinkedCount = filteredCommunications.filter(c => c.callId).length;
 
-    // Average response time (mock data)
-    const avgResponseTime = 2.5; // hours
+    const callCount = filteredCommunications.filter(c => c.type === 'call').length;
+    const avgResponseTime = getAverageResponseHours(filteredCommunications);
 
     // Daily activity for chart
     const dailyActivity = [];
@@ -145,10 +137,11 @@ export function CommunicationAnalytics({
       dayStart.setHours(0, 0, 0, 0);
       const dayEnd = new Date(date);
       dayEnd.setHours(23, 59, 59, 999);
-      
-      const dayComms = filteredCommunications.filter(
-        c => c.timestamp >= dayStart && c.timestamp <= dayEnd
-      );
+
+      const dayComms = filteredCommunications.filter(c => {
+        const occurredAt = new Date(c.occurredAt);
+        return occurredAt >= dayStart && occurredAt <= dayEnd;
+      });
 
       dailyActivity.push({
         date: date.toLocaleDateString('en-US', { weekday: 'short' }),
@@ -159,22 +152,10 @@ export function CommunicationAnalytics({
       });
     }
 
-    // Priority distribution
-    const priorityBreakdown = Object.entries(
-      filteredCommunications.reduce((acc, comm) => {
-        acc[comm.priority] = (acc[comm.priority] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>)
-    ).map(([priority, count]) => ({
-      priority,
-      count,
-      percentage: totalCommunications > 0 ? (count / totalCommunications) * 100 : 0,
-    }));
-
     // Peak hours
     const hourlyBreakdown = Array.from({ length: 24 }, (_, hour) => {
       const count = filteredCommunications.filter(
-        c => c.timestamp.getHours() === hour
+        c => new Date(c.occurredAt).getHours() === hour
       ).length;
       return {
         hour,
@@ -183,29 +164,41 @@ export function CommunicationAnalytics({
       };
     });
 
-    const peakHour = hourlyBreakdown.length > 0 
-      ? hourlyBreakdown.reduce((max, current) => 
-          current.count > max.count ? current : max
-        )
-      : { hour: 0, count: 0, label: '0:00' };
+    const peakHour = hourlyBreakdown.reduce((max, current) =>
+      current.count > max.count ? current : max
+    );
 
     return {
       totalCommunications,
+      changeFromPrevious,
       inboundCount,
       outboundCount,
-      systemCount,
+      internalCount,
       typeBreakdown,
-      statusBreakdown,
-      emailReadRate,
-      callSuccessRate,
+      authorBreakdown,
+      jobLinkedCount,
+      callLinkedCount,
+      callCount,
       avgResponseTime,
       dailyActivity,
-      priorityBreakdown,
       peakHour,
       hourlyBreakdown,
     };
   }, [communications, timeRange]);
 
+  const topChannel = analytics.typeBreakdown.length > 0
+    ? analytics.typeBreakdown.reduce((max, current) => current.count > max.count ? current : max)
+    : null;
+
+  const directionRows = [
+    { label: 'Inbound', count: analytics.inboundCount, color: 'bg-blue-500' },
+    { label: 'Outbound', count: analytics.outboundCount, color: 'bg-green-500' },
+    { label: 'Internal', count: analytics.internalCount, color: 'bg-gray-500' },
+  ];
+
+  const percentOfTotal = (count: number) =>
+    analytics.totalCommunications > 0 ? (count / analytics.totalCommunications) * 100 : 0;
+
   return (
     <div className={cn('space-y-6', className)}>
       {/* Summary Cards */}
@@ -218,40 +211,52 @@ export function CommunicationAnalytics({
           <CardContent>
             <div className="text-2xl font-bold">{analytics.totalCommunications}</div>
             <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
-              <div className="flex items-center gap-1">
-                <TrendingUp className="h-3 w-3 text-green-600" />
-                <span className="text-green-600">+12%</span>
-              </div>
-              <span>from last {timeRange}</span>
+              {analytics.changeFromPrevious === null ? (
+                <span>No activity the {timeRange} before</span>
+              ) : (
+                <>
+                  <div className="flex items-center gap-1">
+                    {analytics.changeFromPrevious >= 0 ? (
+                      <TrendingUp className="h-3 w-3 text-green-600" />
+                    ) : (
+                      <TrendingDown className="h-3 w-3 text-red-600" />
+                    )}
+                    <span className={analytics.changeFromPrevious >= 0 ? 'text-green-600' : 'text-red-600'}>
+                      {analytics.changeFromPrevious >= 0 ? '+' : ''}{analytics.changeFromPrevious.toFixed(0)}%
+                    </span>
+                  </div>
+                  <span>from last {timeRange}</span>
+                </>
+              )}
             </div>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Response Rate</CardTitle>
-            <Target className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-sm font-medium">Calls Logged</CardTitle>
+            <Phone className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{analytics.emailReadRate.toFixed(1)}%</div>
+            <div className="text-2xl font-bold">{analytics.callCount}</div>
             <p className="text-xs text-muted-foreground mt-1">
-              Email open rate
+              {percentOfTotal(analytics.callCount).toFixed(1)}% of communications
             </p>
-            <Progress value={analytics.emailReadRate} className="mt-2" />
+            <Progress value={percentOfTotal(analytics.callCount)} className="mt-2" />
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Call Success</CardTitle>
-            <Phone className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-sm font-medium">Linked to Jobs</CardTitle>
+            <Link2 className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{analytics.callSuccessRate.toFixed(1)}%</div>
+            <div className="text-2xl font-bold">{analytics.jobLinkedCount}</div>
             <p className="text-xs text-muted-foreground mt-1">
-              Completed calls
+              {analytics.callLinkedCount} logged from call intake
             </p>
-            <Progress value={analytics.callSuccessRate} className="mt-2" />
+            <Progress value={percentOfTotal(analytics.jobLinkedCount)} className="mt-2" />
           </CardContent>
         </Card>
 
@@ -261,14 +266,12 @@ export function CommunicationAnalytics({
             <Clock className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{analytics.avgResponseTime}h</div>
-            <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
-              <div className="flex items-center gap-1">
-                <TrendingDown className="h-3 w-3 text-green-600" />
-                <span className="text-green-600">-0.5h</span>
-              </div>
-              <span>improvement</span>
+            <div className="text-2xl font-bold">
+              {analytics.avgResponseTime === null ? '—' : `${analytics.avgResponseTime.toFixed(1)}h`}
             </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              From inbound contact to our next reply
+            </p>
           </CardContent>
         </Card>
       </div>
@@ -327,113 +330,57 @@ export function CommunicationAnalytics({
       </div>
 
       {/* Detailed Breakdowns */}
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Communication Direction */}
         <Card>
           <CardHeader>
             <CardTitle className="text-base">Communication Direction</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 bg-blue-500 rounded-full" />
-                <span className="text-sm">Inbound</span>
-              </div>
-              <div className="text-right">
-                <div className="text-sm font-medium">{analytics.inboundCount}</div>
-                <div className="text-xs text-muted-foreground">
-                  {analytics.totalCommunications > 0 ? ((analytics.inboundCount / analytics.totalCommunications) * 100).toFixed(1) : '0'}%
-                </div>
-              </div>
-            </div>
-            <Progress value={analytics.totalCommunications > 0 ? (analytics.inboundCount / analytics.totalCommunications) * 100 : 0} />
-
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 bg-green-500 rounded-full" />
-                <span className="text-sm">Outbound</span>
-              </div>
-              <div className="text-right">
-                <div className="text-sm font-medium">{analytics.outboundCount}</div>
-                <div className="text-xs text-muted-foreground">
-                  {analytics.totalCommunications > 0 ? ((analytics.outboundCount / analytics.totalCommunications) * 100).toFixed(1) : '0'}%
-                </div>
-              </div>
-            </div>
-            <Progress value={analytics.totalCommunications > 0 ? (analytics.outboundCount / analytics.totalCommunications) * 100 : 0} />
-
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 bg-gray-500 rounded-full" />
-                <span className="text-sm">System</span>
-              </div>
-              <div className="text-right">
-                <div className="text-sm font-medium">{analytics.systemCount}</div>
-                <div className="text-xs text-muted-foreground">
-                  {analytics.totalCommunications > 0 ? ((analytics.systemCount / analytics.totalCommunications) * 100).toFixed(1) : '0'}%
-                </div>
-              </div>
-            </div>
-            <Progress value={analytics.totalCommunications > 0 ? (analytics.systemCount / analytics.totalCommunications) * 100 : 0} />
-          </CardContent>
-        </Card>
-
-        {/* Status Breakdown */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-base">Status Distribution</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-3">
-            {analytics.statusBreakdown.map((status) => (
-              <div key={status.status} className="flex items-center justify-between">
-                <div className="flex items-center gap-2">
-                  <div 
-                    className="w-3 h-3 rounded-full" 
-                    style={{ backgroundColor: statusColors[status.status as keyof typeof statusColors] }}
-                  />
-                  <span className="text-sm capitalize">{status.status}</span>
-                </div>
-                <div className="text-right">
-                  <div className="text-sm font-medium">{status.count}</div>
-                  <div className="text-xs text-muted-foreground">
-                    {status.percentage.toFixed(1)}%
+            {directionRows.map((row) => (
+              <div key={row.label} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <div className={cn('w-3 h-3 rounded-full', row.color)} />
+                    <span className="text-sm">{row.label}</span>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-sm font-medium">{row.count}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {percentOfTotal(row.count).toFixed(1)}%
+                    </div>
                   </div>
                 </div>
+                <Progress value={percentOfTotal(row.count)} />
               </div>
             ))}
           </CardContent>
         </Card>
 
-        {/* Priority Distribution */}
+        {/* Logged By */}
         <Card>
           <CardHeader>
-            <CardTitle className="text-base">Priority Levels</CardTitle>
+            <CardTitle className="text-base">Logged By</CardTitle>
           </CardHeader>
           <CardContent className="space-y-3">
-            {analytics.priorityBreakdown.map((priority) => (
-              <div key={priority.priority} className="flex items-center justify-between">
-                <div className="flex items-center gap-2">
-                  <Badge 
-                    variant="outline" 
-                    className={cn(
-                      'text-xs',
-                      priority.priority === 'urgent' && 'border-red-200 text-red-700',
-                      priority.priority === 'high' && 'border-orange-200 text-orange-700',
-                      priority.priority === 'normal' && 'border-blue-200 text-blue-700',
-                      priority.priority === 'low' && 'border-gray-200 text-gray-700'
-                    )}
-                  >
-                    {priority.priority}
-                  </Badge>
-                </div>
-                <div className="text-right">
-                  <div className="text-sm font-medium">{priority.count}</div>
-                  <div className="text-xs text-muted-foreground">
-                    {priority.percentage.toFixed(1)}%
+            {analytics.authorBreakdown.length > 0 ? (
+              analytics.authorBreakdown.map((author) => (
+                <div key={author.author} className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Users className="h-3 w-3 text-muted-foreground" />
+                    <span className="text-sm">{author.author}</span>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-sm font-medium">{author.count}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {author.percentage.toFixed(1)}%
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))}
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">No communications in this period</p>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -456,37 +403,23 @@ export function CommunicationAnalytics({
             
             <div className="text-center p-4 bg-muted/50 rounded-lg">
               <Zap className="h-8 w-8 mx-auto mb-2 text-green-600" />
-              <div className="text-2xl font-bold">
-                {analytics.typeBreakdown.length > 0 
-                  ? analytics.typeBreakdown.reduce((max, current) => 
-                      current.count > max.count ? current : max
-                    ).type
-                  : 'N/A'
-                }
+              <div className="text-2xl font-bold capitalize">
+                {topChannel ? topChannel.type : 'N/A'}
               </div>
               <p className="text-sm text-muted-foreground">Most Used Channel</p>
               <p className="text-xs text-muted-foreground mt-1">
-                {analytics.typeBreakdown.length > 0 
-                  ? analytics.typeBreakdown.reduce((max, current) => 
-                      current.count > max.count ? current : max
-                    ).percentage.toFixed(1)
-                  : '0'
-                }% of all communications
+                {topChannel ? topChannel.percentage.toFixed(1) : '0'}% of all communications
               </p>
             </div>
-            
+
             <div className="text-center p-4 bg-muted/50 rounded-lg">
-              <CheckCircle className="h-8 w-8 mx-auto mb-2 text-purple-600" />
+              <Activity className="h-8 w-8 mx-auto mb-2 text-purple-600" />
               <div className="text-2xl font-bold">
-                {analytics.statusBreakdown.filter(s => 
-                  s.status === 'completed' || s.status === 'delivered' || s.status === 'read'
-                ).reduce((sum, s) => sum + s.count, 0)}
+                {analytics.dailyActivity.reduce((sum, day) => sum + day.total, 0)}
               </div>
-              <p className="text-sm text-muted-foreground">Successful Communications</p>
+              <p className="text-sm text-muted-foreground">Past 7 Days</p>
               <p className="text-xs text-muted-foreground mt-1">
-                {(analytics.statusBreakdown.filter(s => 
-                  s.status === 'completed' || s.status === 'delivered' || s.status === 'read'
-                ).reduce((sum, s) => sum + s.percentage, 0)).toFixed(1)}% success rate
+                communications logged
               </p>
             </div>
           </div>
@@ -8,13 +8,10 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Separator } from '@/components/ui/separator';
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
-  DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
@@ -36,89 +33,47 @@ import {
   Phone,
   Mail,
   MessageSquare,
-  Calendar,
-  Bell,
-  User,
-  Clock,
-  CheckCircle,
-  AlertCircle,
-  Info,
   Plus,
   Filter,
   Search,
-  Send,
-  PhoneCall,
   MessageCircle,
-  CalendarCheck,
-  BellRing,
   FileText,
   ExternalLink,
   MoreHorizontal,
-  Star,
-  Archive,
-  Reply,
-  Forward,
   Trash2,
-  Edit3,
   Eye,
-  Download,
-  RefreshCw
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { formatDistanceToNow, format, isToday, isYesterday } from 'date-fns';
-import { useCustomer } from '@/hooks/use-customers';
 import { useJobs } from '@/hooks/use-jobs';
-import { useUIStore } from '@/stores';
-import type { Customer } from '@/types/database';
-
-// Communication types and interfaces
-interface CommunicationItem {
-  id: string;
-  type: 'call' | 'email' | 'sms' | 'appointment' | 'reminder' | 'note' | 'quote' | 'invoice';
-  direction: 'inbound' | 'outbound' | 'system';
-  timestamp: Date;
-  subject?: string;
-  content: string;
-  status: 'sent' | 'delivered' | 'read' | 'failed' | 'pending' | 'completed' | 'cancelled';
-  priority: 'low' | 'normal' | 'high' | 'urgent';
-  attachments?: {
-    id: string;
-    name: string;
-    type: string;
-    size: number;
-    url: string;
-  }[];
-  metadata?: {
-    duration?: number; // for calls
-    phoneNumber?: string;
-    emailAddress?: string;
-    appointmentId?: string;
-    jobId?: string;
-    reminderType?: string;
-    templateUsed?: string;
-  };
-  createdBy: {
-    id: string;
-    name: string;
-    role: string;
-    avatar?: string;
-  };
-  relatedItems?: {
-    type: 'job' | 'appointment' | 'quote' | 'invoice';
-    id: string;
-    title: string;
-  }[];
-}
+import {
+  useCustomerCommunications,
+  useCreateCommunication,
+  useDeleteCommunication,
+} from '@/hooks/use-communications';
+import type {
+  Communication,
+  CommunicationDirection,
+  CommunicationType,
+  CreateCommunicationData,
+  Customer,
+  Job,
+} from '@/types/database';
 
 interface CustomerCommunicationTimelineProps {
   customer: Customer;
-  onCommunicationAdd?: (communication: Partial<CommunicationItem>) => void;
-  onCommunicationUpdate?: (id: string, updates: Partial<CommunicationItem>) => void;
+  onCommunicationAdd?: (communication: Communication) => void;
   className?: string;
 }
 
 // Communication type configuration
-const communicationConfig = {
+const communicationConfig: Record<CommunicationType, {
+  icon: typeof Phone;
+  label: string;
+  color: string;
+  bgColor: string;
+  borderColor: string;
+}> = {
   call: {
     icon: Phone,
     label: 'Phone Call',
@@ -140,20 +95,6 @@ const communicationConfig = {
     bgColor: 'bg-purple-100',
     borderColor: 'border-purple-200',
   },
-  appointment: {
-    icon: Calendar,
-    label: 'Appointment',
-    color: 'text-orange-600',
-    bgColor: 'bg-orange-100',
-    borderColor: 'border-orange-200',
-  },
-  reminder: {
-    icon: Bell,
-    label: 'Reminder',
-    color: 'text-yellow-600',
-    bgColor: 'bg-yellow-100',
-    borderColor: 'border-yellow-200',
-  },
   note: {
     icon: FileText,
     label: 'Note',
@@ -161,183 +102,47 @@ const communicationConfig = {
     bgColor: 'bg-gray-100',
     borderColor: 'border-gray-200',
   },
-  quote: {
-    icon: FileText,
-    label: 'Quote',
-    color: 'text-indigo-600',
-    bgColor: 'bg-indigo-100',
-    borderColor: 'border-indigo-200',
-  },
-  invoice: {
-    icon: FileText,
-    label: 'Invoice',
-    color: 'text-red-600',
-    bgColor: 'bg-red-100',
-    borderColor: 'border-red-200',
-  },
 };
 
-const statusConfig = {
-  sent: { label: 'Sent', color: 'text-blue-600', icon: Send },
-  delivered: { label: 'Delivered', color: 'text-green-600', icon: CheckCircle },
-  read: { label: 'Read', color: 'text-green-700', icon: Eye },
-  failed: { label: 'Failed', color: 'text-red-600', icon: AlertCircle },
-  pending: { label: 'Pending', color: 'text-yellow-600', icon: Clock },
-  completed: { label: 'Completed', color: 'text-green-600', icon: CheckCircle },
-  cancelled: { label: 'Cancelled', color: 'text-gray-600', icon: AlertCircle },
-};
-
-const priorityConfig = {
-  low: { label: 'Low', color: 'text-gray-600', bgColor: 'bg-gray-100' },
-  normal: { label: 'Normal', color: 'text-blue-600', bgColor: 'bg-blue-100' },
-  high: { label: 'High', color: 'text-orange-600', bgColor: 'bg-orange-100' },
-  urgent: { label: 'Urgent', color: 'text-red-600', bgColor: 'bg-red-100' },
+const directionLabels: Record<CommunicationDirection, string> = {
+  inbound: 'Inbound',
+  outbound: 'Outbound',
+  internal: 'Internal',
 };
 
 export function CustomerCommunicationTimeline({
   customer,
   onCommunicationAdd,
-  onCommunicationUpdate,
   className = '',
 }: CustomerCommunicationTimelineProps) {
   const [filter, setFilter] = useState<{
     type: string;
     direction: string;
     dateRange: string;
-    status: string;
-    priority: string;
     search: string;
   }>({
     type: 'all',
     direction: 'all',
     dateRange: 'all',
-    status: 'all',
-    priority: 'all',
     search: '',
   });
 
   const [showNewCommunication, setShowNewCommunication] = useState(false);
-  const [selectedItem, setSelectedItem] = useState<CommunicationItem | null>(null);
+  const [selectedItem, setSelectedItem] = useState<Communication | null>(null);
   const [groupByDate, setGroupByDate] = useState(true);
 
   // Hooks
-  const { data: customerData } = useCustomer(customer.id);
+  const { data: communicationsResponse, isLoading } = useCustomerCommunications(customer.id);
   const { data: jobsResponse } = useJobs({ customerId: customer.id });
-  const { addToast } = useUIStore();
+  const createCommunication = useCreateCommunication();
+  const deleteCommunication = useDeleteCommunication();
 
   const jobs = jobsResponse?.data || [];
-
-  // Mock communication data - in real app, this would come from API
-  const mockCommunications: CommunicationItem[] = useMemo(() => [
-    {
-      id: '1',
-      type: 'call',
-      direction: 'inbound',
-      timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours ago
-      subject: 'Service Inquiry',
-      content: 'Customer called asking about brake service pricing and availability. Discussed options and scheduled appointment.',
-      status: 'completed',
-      priority: 'normal',
-      metadata: {
-        duration: 420, // 7 minutes
-        phoneNumber: customer.phone,
-      },
-      createdBy: {
-        id: 'user1',
-        name: 'Sarah Johnson',
-        role: 'Service Advisor',
-      },
-      relatedItems: [
-        {
-          type: 'job',
-          id: 'job1',
-          title: 'Brake Service - Honda Civic',
-        },
-      ],
-    },
-    {
-      id: '2',
-      type: 'email',
-      direction: 'outbound',
-      timestamp: new Date(Date.now() - 4 * 60 * 60 * 1000), // 4 hours ago
-      subject: 'Service Appointment Confirmation',
-      content: 'Dear ' + customer.name + ',\n\nThis email confirms your brake service appointment scheduled for tomorrow at 10:00 AM. Please bring your vehicle 15 minutes early for check-in.\n\nBest regards,\nAuto Shop Team',
-      status: 'read',
-      priority: 'normal',
-      metadata: {
-        emailAddress: customer.email,
-        templateUsed: 'appointment-confirmation',
-      },
-      createdBy: {
-        id: 'system',
-        name: 'System',
-        role: 'Automated',
-      },
-      relatedItems: [
-        {
-          type: 'appointment',
-          id: 'apt1',
-          title: 'Brake Service Appointment',
-        },
-      ],
-    },
-    {
-      id: '3',
-      type: 'sms',
-      direction: 'outbound',
-      timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000), // 1 day ago
-      content: 'Hi ' + customer.name.split(' ')[0] + ', your Honda Civic is ready for pickup! Total: $245. Shop hours: 8AM-6PM. Thanks!',
-      status: 'delivered',
-      priority: 'normal',
-      metadata: {
-        phoneNumber: customer.phone,
-        templateUsed: 'ready-for-pickup',
-      },
-      createdBy: {
-        id: 'user2',
-        name: 'Mike Chen',
-        role: 'Technician',
-      },
-    },
-    {
-      id: '4',
-      type: 'reminder',
-      direction: 'system',
-      timestamp: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000), // 3 days ago
-      subject: 'Service Reminder',
-      content: 'Automated reminder sent to customer about upcoming oil change service due in 2 weeks.',
-      status: 'sent',
-      priority: 'low',
-      metadata: {
-        reminderType: 'oil-change',
-        emailAddress: customer.email,
-      },
-      createdBy: {
-        id: 'system',
-        name: 'System',
-        role: 'Automated',
-      },
-    },
-    {
-      id: '5',
-      type: 'note',
-      direction: 'outbound',
-      timestamp: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // 1 week ago
-      subject: 'Customer Preference Note',
-      content: 'Customer prefers text messages over phone calls. Mentioned they work night shifts and are usually available after 2 PM.',
-      status: 'completed',
-      priority: 'normal',
-      createdBy: {
-        id: 'user1',
-        name: 'Sarah Johnson',
-        role: 'Service Advisor',
-      },
-    },
-  ], [customer]);
+  const jobsById = useMemo(() => new Map(jobs.map((job) => [job.id, job])), [jobs]);
 
   // Filter communications
   const filteredCommunications = useMemo(() => {
-    let filtered = mockCommunications;
+    let filtered = communicationsResponse?.data ?? [];
 
     // Apply filters
     if (filter.type !== 'all') {
@@ -348,20 +153,12 @@ export function CustomerCommunicationTimeline({
       filtered = filtered.filter(item => item.direction === filter.direction);
     }
 
-    if (filter.status !== 'all') {
-      filtered = filtered.filter(item => item.status === filter.status);
-    }
-
-    if (filter.priority !== 'all') {
-      filtered = filtered.filter(item => item.priority === filter.priority);
-    }
-
     if (filter.search) {
       const searchLower = filter.search.toLowerCase();
       filtered = filtered.filter(item =>
-        item.content.toLowerCase().includes(searchLower) ||
+        item.body.toLowerCase().includes(searchLower) ||
         item.subject?.toLowerCase().includes(searchLower) ||
-        item.createdBy.name.toLowerCase().includes(searchLower)
+        item.author.toLowerCase().includes(searchLower)
       );
     }
 
@@ -369,7 +166,7 @@ export function CustomerCommunicationTimeline({
     if (filter.dateRange !== 'all') {
       const now = new Date();
       const cutoff = new Date();
-      
+
       switch (filter.dateRange) {
         case 'today':
           cutoff.setHours(0, 0, 0, 0);
@@ -384,14 +181,12 @@ export function CustomerCommunicationTimeline({
           cutoff.setMonth(now.getMonth() - 3);
           break;
       }
-      
-      if (filter.dateRange !== 'all') {
-        filtered = filtered.filter(item => item.timestamp >= cutoff);
-      }
+
+      filtered = filtered.filter(item => new Date(item.occurredAt) >= cutoff);
     }
 
-    return filtered.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-  }, [mockCommunications, filter]);
+    return [...filtered].sort((a, b) => b.occurredAt.localeCompare(a.occurredAt));
+  }, [communicationsResponse, filter]);
 
   // Group communications by date if enabled
   const groupedCommunications = useMemo(() => {
@@ -399,19 +194,20 @@ export function CustomerCommunicationTimeline({
       return { 'All Communications': filteredCommunications };
     }
 
-    const groups: Record<string, CommunicationItem[]> = {};
-    
+    const groups: Record<string, Communication[]> = {};
+
     filteredCommunications.forEach(item => {
+      const occurredAt = new Date(item.occurredAt);
       let dateKey: string;
-      
-      if (isToday(item.timestamp)) {
+
+      if (isToday(occurredAt)) {
         dateKey = 'Today';
-      } else if (isYesterday(item.timestamp)) {
+      } else if (isYesterday(occurredAt)) {
         dateKey = 'Yesterday';
       } else {
-        dateKey = format(item.timestamp, 'MMMM d, yyyy');
+        dateKey = format(occurredAt, 'MMMM d, yyyy');
       }
-      
+
       if (!groups[dateKey]) {
         groups[dateKey] = [];
       }
@@ -422,30 +218,34 @@ export function CustomerCommunicationTimeline({
   }, [filteredCommunications, groupByDate]);
 
   // Handle new communication
-  const handleAddCommunication = useCallback((communication: Partial<CommunicationItem>) => {
-    onCommunicationAdd?.(communication);
-    setShowNewCommunication(false);
-    addToast({
-      type: 'success',
-      title: 'Communication Added',
-      message: 'New communication has been recorded',
-      duration: 3000,
+  const handleAddCommunication = useCallback((communication: CreateCommunicationData) => {
+    createCommunication.mutate(communication, {
+      onSuccess: (response) => {
+        if (response.data) {
+          onCommunicationAdd?.(response.data);
+        }
+        setShowNewCommunication(false);
+      },
     });
-  }, [onCommunicationAdd, addToast]);
+  }, [createCommunication, onCommunicationAdd]);
+
+  const handleDeleteCommunication = useCallback((item: Communication) => {
+    deleteCommunication.mutate(item.id, {
+      onSuccess: () => setSelectedItem((current) => (current?.id === item.id ? null : current)),
+    });
+  }, [deleteCommunication]);
 
   // Render communication item
-  const renderCommunicationItem = (item: CommunicationItem) => {
+  const renderCommunicationItem = (item: Communication) => {
     const config = communicationConfig[item.type];
-    const statusInfo = statusConfig[item.status];
-    const priorityInfo = priorityConfig[item.priority];
     const Icon = config.icon;
-    const StatusIcon = statusInfo.icon;
+    const job = item.jobId ? jobsById.get(item.jobId) : undefined;
 
     return (
       <div key={item.id} className="group relative">
         {/* Timeline connector */}
         <div className="absolute left-6 top-12 bottom-0 w-0.5 bg-border group-last:hidden" />
-        
+
         <div className="flex gap-4">
           {/* Icon */}
           <div className={cn(
@@ -466,71 +266,50 @@ export function CustomerCommunicationTimeline({
                       <span className={cn('text-sm font-medium', config.color)}>
                         {config.label}
                       </span>
-                      {item.direction === 'inbound' && (
-                        <Badge variant="outline" className="text-xs">Inbound</Badge>
-                      )}
-                      {item.direction === 'outbound' && (
-                        <Badge variant="outline" className="text-xs">Outbound</Badge>
-                      )}
-                      {item.priority !== 'normal' && (
-                        <Badge variant="secondary" className={cn('text-xs', priorityInfo.color)}>
-                          {priorityInfo.label}
-                        </Badge>
-                      )}
+                      <Badge variant="outline" className="text-xs">{directionLabels[item.direction]}</Badge>
                     </div>
-                    
+
                     {item.subject && (
                       <h4 className="font-medium text-sm mb-1">{item.subject}</h4>
                     )}
-                    
+
                     <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                      <span>{formatDistanceToNow(item.timestamp, { addSuffix: true })}</span>
+                      <span>{formatDistanceToNow(new Date(item.occurredAt), { addSuffix: true })}</span>
                       <span>•</span>
-                      <span>{item.createdBy.name}</span>
-                      {item.metadata?.duration && (
-                        <>
-                          <span>•</span>
-                          <span>{Math.floor(item.metadata.duration / 60)}m {item.metadata.duration % 60}s</span>
-                        </>
-                      )}
+                      <span>{item.author}</span>
                     </div>
                   </div>
 
                   <div className="flex items-center gap-2 flex-shrink-0">
-                    <div className="flex items-center gap-1">
-                      <StatusIcon className={cn('h-3 w-3', statusInfo.color)} />
-                      <span className={cn('text-xs', statusInfo.color)}>
-                        {statusInfo.label}
-                      </span>
-                    </div>
-                    
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
-                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                          onClick={(e) => e.stopPropagation()}
+                        >
                           <MoreHorizontal className="h-3 w-3" />
                         </Button>
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align="end">
-                        <DropdownMenuItem>
+                        <DropdownMenuItem onClick={(e) => {
+                          e.stopPropagation();
+                          setSelectedItem(item);
+                        }}>
                           <Eye className="mr-2 h-4 w-4" />
                           View Details
                         </DropdownMenuItem>
-                        <DropdownMenuItem>
-                          <Reply className="mr-2 h-4 w-4" />
-                          Reply
-                        </DropdownMenuItem>
-                        <DropdownMenuItem>
-                          <Forward className="mr-2 h-4 w-4" />
-                          Forward
-                        </DropdownMenuItem>
                         <DropdownMenuSeparator />
-                        <DropdownMenuItem>
-                          <Star className="mr-2 h-4 w-4" />
-                          Mark Important
-                        </DropdownMenuItem>
-                        <DropdownMenuItem>
-                          <Archive className="mr-2 h-4 w-4" />
-                          Archive
+                        <DropdownMenuItem
+                          className="text-red-600"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeleteCommunication(item);
+                          }}
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete
                         </DropdownMenuItem>
                       </DropdownMenuContent>
                     </DropdownMenu>
@@ -539,31 +318,25 @@ export function CustomerCommunicationTimeline({
               </CardHeader>
 
               <CardContent className="pt-0">
-                <p className="text-sm text-muted-foreground line-clamp-3 mb-3">
-                  {item.content}
+                <p className="text-sm text-muted-foreground line-clamp-3 mb-3 whitespace-pre-wrap">
+                  {item.body}
                 </p>
 
                 {/* Related Items */}
-                {item.relatedItems && item.relatedItems.length > 0 && (
-                  <div className="flex flex-wrap gap-2 mb-3">
-                    {item.relatedItems.map((related, index) => (
-                      <Badge key={index} variant="outline" className="text-xs">
+                {(job || item.callId) && (
+                  <div className="flex flex-wrap gap-2">
+                    {job && (
+                      <Badge variant="outline" className="text-xs">
                         <ExternalLink className="h-2 w-2 mr-1" />
-                        {related.title}
+                        {job.title}
                       </Badge>
-                    ))}
-                  </div>
-                )}
-
-                {/* Attachments */}
-                {item.attachments && item.attachments.length > 0 && (
-                  <div className="flex flex-wrap gap-2">
-                    {item.attachments.map((attachment) => (
-                      <Button key={attachment.id} variant="outline" size="sm" className="h-6 text-xs">
-                        <Download className="h-2 w-2 mr-1" />
-                        {attachment.name}
-                      </Button>
-                    ))}
+                    )}
+                    {item.callId && (
+                      <Badge variant="outline" className="text-xs">
+                        <Phone className="h-2 w-2 mr-1" />
+                        Logged call
+                      </Badge>
+                    )}
                   </div>
                 )}
               </CardContent>
@@ -585,12 +358,12 @@ export function CustomerCommunicationTimeline({
               Communication Timeline
               <Badge variant="secondary">{filteredCommunications.length}</Badge>
             </CardTitle>
-            
+
             <div className="flex items-center gap-2">
               <Button variant="outline" size="sm" onClick={() => setGroupByDate(!groupByDate)}>
                 {groupByDate ? 'Ungroup' : 'Group by Date'}
               </Button>
-              
+
               <Dialog open={showNewCommunication} onOpenChange={setShowNewCommunication}>
                 <DialogTrigger asChild>
                   <Button>
@@ -604,6 +377,8 @@ export function CustomerCommunicationTimeline({
                   </DialogHeader>
                   <NewCommunicationForm
                     customer={customer}
+                    jobs={jobs}
+                    isSubmitting={createCommunication.isPending}
                     onSubmit={handleAddCommunication}
                     onCancel={() => setShowNewCommunication(false)}
                   />
@@ -623,7 +398,7 @@ export function CustomerCommunicationTimeline({
           </div>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
             {/* Search */}
             <div className="lg:col-span-2">
               <div className="relative">
@@ -647,8 +422,6 @@ export function CustomerCommunicationTimeline({
                 <SelectItem value="call">Phone Calls</SelectItem>
                 <SelectItem value="email">Emails</SelectItem>
                 <SelectItem value="sms">SMS</SelectItem>
-                <SelectItem value="appointment">Appointments</SelectItem>
-                <SelectItem value="reminder">Reminders</SelectItem>
                 <SelectItem value="note">Notes</SelectItem>
               </SelectContent>
             </Select>
@@ -662,7 +435,7 @@ export function CustomerCommunicationTimeline({
                 <SelectItem value="all">All Directions</SelectItem>
                 <SelectItem value="inbound">Inbound</SelectItem>
                 <SelectItem value="outbound">Outbound</SelectItem>
-                <SelectItem value="system">System</SelectItem>
+                <SelectItem value="internal">Internal</SelectItem>
               </SelectContent>
             </Select>
 
@@ -679,21 +452,6 @@ export function CustomerCommunicationTimeline({
                 <SelectItem value="quarter">Past 3 Months</SelectItem>
               </SelectContent>
             </Select>
-
-            {/* Status Filter */}
-            <Select value={filter.status} onValueChange={(value) => setFilter(prev => ({ ...prev, status: value }))}>
-              <SelectTrigger>
-                <SelectValue placeholder="Status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="sent">Sent</SelectItem>
-                <SelectItem value="delivered">Delivered</SelectItem>
-                <SelectItem value="read">Read</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
-                <SelectItem value="failed">Failed</SelectItem>
-              </SelectContent>
-            </Select>
           </div>
         </CardContent>
       </Card>
@@ -701,7 +459,9 @@ export function CustomerCommunicationTimeline({
       {/* Timeline */}
       <Card>
         <CardContent className="pt-6">
-          {filteredCommunications.length > 0 ? (
+          {isLoading ? (
+            <div className="text-center py-12 text-muted-foreground">Loading communications...</div>
+          ) : filteredCommunications.length > 0 ? (
             <ScrollArea className="h-[600px]">
               <div className="space-y-0">
                 {Object.entries(groupedCommunications).map(([dateGroup, items]) => (
@@ -723,7 +483,7 @@ export function CustomerCommunicationTimeline({
               <MessageCircle className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
               <h3 className="text-lg font-medium mb-2">No Communications Found</h3>
               <p className="text-muted-foreground mb-4">
-                {filter.search || filter.type !== 'all' || filter.direction !== 'all'
+                {filter.search || filter.type !== 'all' || filter.direction !== 'all' || filter.dateRange !== 'all'
                   ? 'Try adjusting your filters to see more communications.'
                   : 'No communications have been recorded for this customer yet.'
                 }
@@ -743,10 +503,9 @@ export function CustomerCommunicationTimeline({
           <DialogContent className="max-w-3xl">
             <CommunicationDetailView
               communication={selectedItem}
-              onUpdate={(updates) => {
-                onCommunicationUpdate?.(selectedItem.id, updates);
-                setSelectedItem(null);
-              }}
+              customer={customer}
+              job={selectedItem.jobId ? jobsById.get(selectedItem.jobId) : undefined}
+              onDelete={() => handleDeleteCommunication(selectedItem)}
               onClose={() => setSelectedItem(null)}
             />
           </DialogContent>
@@ -759,34 +518,38 @@ export function CustomerCommunicationTimeline({
 // New Communication Form Component
 interface NewCommunicationFormProps {
   customer: Customer;
-  onSubmit: (communication: Partial<CommunicationItem>) => void;
+  jobs: Job[];
+  isSubmitting?: boolean;
+  onSubmit: (communication: CreateCommunicationData) => void;
   onCancel: () => void;
 }
 
-function NewCommunicationForm({ customer, onSubmit, onCancel }: NewCommunicationFormProps) {
+const NO_JOB = 'none';
+
+function NewCommunicationForm({ customer, jobs, isSubmitting = false, onSubmit, onCancel }: NewCommunicationFormProps) {
   const [formData, setFormData] = useState({
-    type: 'note' as CommunicationItem['type'],
-    direction: 'outbound' as CommunicationItem['direction'],
+    type: 'note' as CommunicationType,
+    direction: 'internal' as CommunicationDirection,
     subject: '',
-    content: '',
-    priority: 'normal' as CommunicationItem['priority'],
+    body: '',
+    jobId: NO_JOB,
+    occurredAt: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+    author: '',
   });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
-    const communication: Partial<CommunicationItem> = {
-      ...formData,
-      timestamp: new Date(),
-      status: 'completed',
-      createdBy: {
-        id: 'current-user',
-        name: 'Current User',
-        role: 'Service Advisor',
-      },
-    };
 
-    onSubmit(communication);
+    onSubmit({
+      customerId: customer.id,
+      jobId: formData.jobId === NO_JOB ? undefined : formData.jobId,
+      type: formData.type,
+      direction: formData.type === 'note' ? 'internal' : formData.direction,
+      subject: formData.type === 'note' ? undefined : formData.subject || undefined,
+      body: formData.body,
+      occurredAt: formData.occurredAt ? new Date(formData.occurredAt).toISOString() : undefined,
+      author: formData.author || 'Current User', // This would come from auth
+    });
   };
 
   return (
@@ -794,8 +557,12 @@ function NewCommunicationForm({ customer, onSubmit, onCancel }: NewCommunication
       <div className="grid grid-cols-2 gap-4">
         <div>
           <label className="text-sm font-medium mb-2 block">Type</label>
-          <Select value={formData.type} onValueChange={(value: CommunicationItem['type']) => 
-            setFormData(prev => ({ ...prev, type: value }))
+          <Select value={formData.type} onValueChange={(value: CommunicationType) =>
+            setFormData(prev => ({
+              ...prev,
+              type: value,
+              direction: value === 'note' ? 'internal' : prev.direction === 'internal' ? 'outbound' : prev.direction,
+            }))
           }>
             <SelectTrigger>
               <SelectValue />
@@ -810,18 +577,47 @@ function NewCommunicationForm({ customer, onSubmit, onCancel }: NewCommunication
         </div>
 
         <div>
-          <label className="text-sm font-medium mb-2 block">Priority</label>
-          <Select value={formData.priority} onValueChange={(value: CommunicationItem['priority']) => 
-            setFormData(prev => ({ ...prev, priority: value }))
-          }>
+          <label className="text-sm font-medium mb-2 block">Direction</label>
+          <Select
+            value={formData.direction}
+            disabled={formData.type === 'note'}
+            onValueChange={(value: CommunicationDirection) =>
+              setFormData(prev => ({ ...prev, direction: value }))
+            }
+          >
             <SelectTrigger>
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="low">Low</SelectItem>
-              <SelectItem value="normal">Normal</SelectItem>
-              <SelectItem value="high">High</SelectItem>
-              <SelectItem value="urgent">Urgent</SelectItem>
+              <SelectItem value="inbound">Inbound (from customer)</SelectItem>
+              <SelectItem value="outbound">Outbound (to customer)</SelectItem>
+              <SelectItem value="internal">Internal</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="text-sm font-medium mb-2 block">When</label>
+          <Input
+            type="datetime-local"
+            value={formData.occurredAt}
+            onChange={(e) => setFormData(prev => ({ ...prev, occurredAt: e.target.value }))}
+          />
+        </div>
+
+        <div>
+          <label className="text-sm font-medium mb-2 block">Related Job</label>
+          <Select value={formData.jobId} onValueChange={(value) => setFormData(prev => ({ ...prev, jobId: value }))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_JOB}>No job</SelectItem>
+              {jobs.map((job) => (
+                <SelectItem key={job.id} value={job.id}>{job.title}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -841,19 +637,28 @@ function NewCommunicationForm({ customer, onSubmit, onCancel }: NewCommunication
       <div>
         <label className="text-sm font-medium mb-2 block">Content</label>
         <Textarea
-          value={formData.content}
-          onChange={(e) => setFormData(prev => ({ ...prev, content: e.target.value }))}
+          value={formData.body}
+          onChange={(e) => setFormData(prev => ({ ...prev, body: e.target.value }))}
           placeholder="Enter communication details..."
           rows={4}
           required
         />
       </div>
 
+      <div>
+        <label className="text-sm font-medium mb-2 block">Logged By</label>
+        <Input
+          value={formData.author}
+          onChange={(e) => setFormData(prev => ({ ...prev, author: e.target.value }))}
+          placeholder="Current User"
+        />
+      </div>
+
       <div className="flex items-center justify-end gap-2 pt-4">
         <Button type="button" variant="outline" onClick={onCancel}>
           Cancel
         </Button>
-        <Button type="submit">
+        <Button type="submit" disabled={isSubmitting}>
           Add Communication
         </Button>
       </div>
@@ -863,16 +668,16 @@ function NewCommunicationForm({ customer, onSubmit, onCancel }: NewCommunication
 
 // Communication Detail View Component
 interface CommunicationDetailViewProps {
-  communication: CommunicationItem;
-  onUpdate: (updates: Partial<CommunicationItem>) => void;
+  communication: Communication;
+  customer: Customer;
+  job?: Job;
+  onDelete: () => void;
   onClose: () => void;
 }
 
-function CommunicationDetailView({ communication, onUpdate, onClose }: CommunicationDetailViewProps) {
+function CommunicationDetailView({ communication, customer, job, onDelete, onClose }: CommunicationDetailViewProps) {
   const config = communicationConfig[communication.type];
-  const statusInfo = statusConfig[communication.status];
   const Icon = config.icon;
-  const StatusIcon = statusInfo.icon;
 
   return (
     <div className="space-y-6">
@@ -888,25 +693,21 @@ function CommunicationDetailView({ communication, onUpdate, onClose }: Communica
         <div className="grid grid-cols-2 gap-4 p-4 bg-muted/50 rounded-lg">
           <div>
             <span className="text-sm text-muted-foreground">Date & Time</span>
-            <p className="font-medium">{format(communication.timestamp, 'PPpp')}</p>
+            <p className="font-medium">{format(new Date(communication.occurredAt), 'PPpp')}</p>
           </div>
           <div>
-            <span className="text-sm text-muted-foreground">Status</span>
-            <div className="flex items-center gap-2">
-              <StatusIcon className={cn('h-4 w-4', statusInfo.color)} />
-              <span className={cn('font-medium', statusInfo.color)}>{statusInfo.label}</span>
-            </div>
+            <span className="text-sm text-muted-foreground">Direction</span>
+            <p className="font-medium">{directionLabels[communication.direction]}</p>
           </div>
           <div>
-            <span className="text-sm text-muted-foreground">Created By</span>
-            <p className="font-medium">{communication.createdBy.name}</p>
-            <p className="text-sm text-muted-foreground">{communication.createdBy.role}</p>
+            <span className="text-sm text-muted-foreground">Logged By</span>
+            <p className="font-medium">{communication.author}</p>
           </div>
           <div>
-            <span className="text-sm text-muted-foreground">Priority</span>
-            <Badge variant="secondary" className={priorityConfig[communication.priority].color}>
-              {priorityConfig[communication.priority].label}
-            </Badge>
+            <span className="text-sm text-muted-foreground">Contact</span>
+            <p className="font-medium">
+              {communication.type === 'email' ? customer.email || '—' : customer.phone}
+            </p>
           </div>
         </div>
 
@@ -922,55 +723,29 @@ function CommunicationDetailView({ communication, onUpdate, onClose }: Communica
         <div>
           <h3 className="font-medium mb-2">Content</h3>
           <div className="p-4 bg-muted/30 rounded-lg">
-            <p className="text-sm whitespace-pre-wrap">{communication.content}</p>
+            <p className="text-sm whitespace-pre-wrap">{communication.body}</p>
           </div>
         </div>
 
-        {/* Metadata */}
-        {communication.metadata && (
-          <div>
-            <h3 className="font-medium mb-2">Additional Information</h3>
-            <div className="grid grid-cols-2 gap-4 text-sm">
-              {communication.metadata.duration && (
-                <div>
-                  <span className="text-muted-foreground">Duration:</span>
-                  <span className="ml-2">{Math.floor(communication.metadata.duration / 60)}m {communication.metadata.duration % 60}s</span>
-                </div>
-              )}
-              {communication.metadata.phoneNumber && (
-                <div>
-                  <span className="text-muted-foreground">Phone:</span>
-                  <span className="ml-2">{communication.metadata.phoneNumber}</span>
-                </div>
-              )}
-              {communication.metadata.emailAddress && (
-                <div>
-                  <span className="text-muted-foreground">Email:</span>
-                  <span className="ml-2">{communication.metadata.emailAddress}</span>
-                </div>
-              )}
-              {communication.metadata.templateUsed && (
-                <div>
-                  <span className="text-muted-foreground">Template:</span>
-                  <span className="ml-2 capitalize">{communication.metadata.templateUsed.replace('-', ' ')}</span>
-                </div>
-              )}
-            </div>
-          </div>
-        )}
-
         {/* Related Items */}
-        {communication.relatedItems && communication.relatedItems.length > 0 && (
+        {(job || communication.callId) && (
           <div>
             <h3 className="font-medium mb-2">Related Items</h3>
             <div className="space-y-2">
-              {communication.relatedItems.map((item, index) => (
-                <div key={index} className="flex items-center gap-2 p-2 bg-muted/30 rounded">
+              {job && (
+                <div className="flex items-center gap-2 p-2 bg-muted/30 rounded">
                   <ExternalLink className="h-4 w-4 text-muted-foreground" />
-                  <span className="text-sm">{item.title}</span>
-                  <Badge variant="outline" className="text-xs capitalize">{item.type}</Badge>
+                  <span className="text-sm">{job.title}</span>
+                  <Badge variant="outline" className="text-xs capitalize">job</Badge>
                 </div>
-              ))}
+              )}
+              {communication.callId && (
+                <div className="flex items-center gap-2 p-2 bg-muted/30 rounded">
+                  <Phone className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm">Logged from call intake</span>
+                  <Badge variant="outline" className="text-xs capitalize">call</Badge>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -980,17 +755,13 @@ function CommunicationDetailView({ communication, onUpdate, onClose }: Communica
         <Button variant="outline" onClick={onClose}>
           Close
         </Button>
-        <Button variant="outline">
-          <Edit3 className="h-4 w-4 mr-2" />
-          Edit
-        </Button>
-        <Button>
-          <Reply className="h-4 w-4 mr-2" />
-          Reply
+        <Button variant="outline" className="text-red-600" onClick={onDelete}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          Delete
         </Button>
       </div>
     </div>
   );
 }
 
-export type { CommunicationItem, CustomerCommunicationTimelineProps };
+export type { CustomerCommunicationTimelineProps };
@@ -56,12 +56,12 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useUIStore } from '@/stores';
-import type { Customer } from '@/types/database';
-import type { CommunicationItem } from './CustomerCommunicationTimeline';
+import { useCreateCommunication } from '@/hooks/use-communications';
+import type { Communication, CommunicationType, Customer } from '@/types/database';
 
 interface QuickCommunicationActionsProps {
   customer: Customer;
-  onCommunicationSend?: (communication: Partial<CommunicationItem>) => void;
+  onCommunicationSend?: (communication: Communication) => void;
   className?: string;
 }
 
@@ -261,6 +261,25 @@ const quickActions = [
   },
 ];
 
+// Reminders go out as texts; custom messages take the channel of the action that opened the dialog
+const getLoggedType = (template: CommunicationTemplate | null, action: string | null): CommunicationType => {
+  if (template) {
+    return template.type === 'reminder' ? 'sms' : template.type;
+  }
+
+  switch (action) {
+    case 'call-customer':
+      return 'call';
+    case 'send-sms':
+    case 'set-reminder':
+      return 'sms';
+    case 'send-email':
+      return 'email';
+    default:
+      return 'note';
+  }
+};
+
 export function QuickCommunicationActions({
   customer,
   onCommunicationSend,
@@ -272,6 +291,7 @@ export function QuickCommunicationActions({
   const [selectedAction, setSelectedAction] = useState<string | null>(null);
   
   const { addToast } = useUIStore();
+  const createCommunication = useCreateCommunication();
 
   // Filter templates by category
   const templatesByCategory = communicationTemplates.reduce((acc, template) => {
@@ -376,36 +396,29 @@ export function QuickCommunicationActions({
   const handleSendCommunication = useCallback(() => {
     if (!selectedTemplate && !customMessage) return;
 
-    const communication: Partial<CommunicationItem> = {
-      type: selectedTemplate?.type || 'note',
-      direction: 'outbound',
-      subject: selectedTemplate?.subject,
-      content: selectedTemplate?.content || customMessage,
-      priority: selectedTemplate?.priority || 'normal',
-      timestamp: new Date(),
-      status: 'sent',
-      createdBy: {
-        id: 'current-user',
-        name: 'Current User',
-        role: 'Service Advisor',
-      },
-    };
+    const type = getLoggedType(selectedTemplate, selectedAction);
 
-    onCommunicationSend?.(communication);
-    
-    addToast({
-      type: 'success',
-      title: 'Communication Sent',
-      message: `${selectedTemplate?.name || 'Message'} sent successfully`,
-      duration: 3000,
-    });
+    createCommunication.mutate({
+      customerId: customer.id,
+      type,
+      direction: type === 'note' ? 'internal' : 'outbound',
+      subject: selectedTemplate?.subject || undefined,
+      body: selectedTemplate?.content || customMessage,
+      author: 'Current User', // This would come from auth
+    }, {
+      onSuccess: (response) => {
+        if (response.data) {
+          onCommunicationSend?.(response.data);
+        }
 
-    // Reset form
-    setSelectedTemplate(null);
-    setCustomMessage('');
-    setShowTemplateDialog(false);
-    setSelectedAction(null);
-  }, [selectedTemplate, customMessage, onCommunicationSend, addToast]);
+        // Reset form
+        setSelectedTemplate(null);
+        setCustomMessage('');
+        setShowTemplateDialog(false);
+        setSelectedAction(null);
+      },
+    });
+  }, [selectedTemplate, selectedAction, customMessage, customer.id, createCommunication, onCommunicationSend]);
 
   return (
     <div className={cn('space-y-4', className)}>
@@ -604,7 +617,7 @@ export function QuickCommunicationActions({
                           <SelectItem value="urgent">Urgent</SelectItem>
                         </SelectContent>
                       </Select>
-                      <Button onClick={handleSendCommunication} disabled={!customMessage}>
+                      <Button onClick={handleSendCommunication} disabled={!customMessage || createCommunication.isPending}>
                         <Send className="h-4 w-4 mr-2" />
                         Send Custom Message
                       </Button>
@@ -641,7 +654,7 @@ export function QuickCommunicationActions({
                 <Button variant="outline" onClick={() => setSelectedTemplate(null)}>
                   Cancel
                 </Button>
-                <Button onClick={handleSendCommunication}>
+                <Button onClick={handleSendCommunication} disabled={createCommunication.isPending}>
                   <Send className="h-4 w-4 mr-2" />
                   Send Message
                 </Button>
@@ -34,6 +34,7 @@ import { cn } from '@/lib/utils';
 import { useCustomer } from '@/hooks/use-customers';
 import { useJobs } from '@/hooks/use-jobs';
 import { useVehicles } from '@/hooks/use-vehicles';
+import { useCustomerCommunications } from '@/hooks/use-communications';
 import { VehicleManagement } from '@/components/vehicles/VehicleManagement';
 import { ServiceHistoryTimeline } from '@/components/timeline/ServiceHistoryTimeline';
 import { CustomerCommunicationTimeline } from '@/components/communication/CustomerCommunicationTimeline';
@@ -65,10 +66,12 @@ export function CustomerDetailView({
   const { data: customerResponse } = useCustomer(customerId);
   const { data: jobsResponse } = useJobs({ customerId });
   const { data: vehiclesResponse } = useVehicles({ customerId });
+  const { data: communicationsResponse } = useCustomerCommunications(customerId);
 
   const customer = customerResponse?.data;
   const jobs = jobsResponse?.data || [];
   const vehicles = vehiclesResponse?.data || [];
+  const communications = communicationsResponse?.data || [];
 
   // Calculate customer statistics
   const customerStats = useMemo(() => {
@@ -439,46 +442,17 @@ export function CustomerDetailView({
           />
         </TabsContent>
 
-        {/* Communication Tab */}
-        <TabsContent value="communication">
-          <Card>
-            <CardContent className="text-center py-12">
-              <Mail className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
-              <h3 className="text-lg font-medium mb-2">Communication Timeline</h3>
-              <p className="text-muted-foreground">
-                Communication history will be implemented in Task 6.6
-              </p>
-            </CardContent>
-          </Card>
-        </TabsContent>
-
         {/* Communication Tab */}
         <TabsContent value="communication" className="space-y-6">
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             {/* Quick Actions */}
             <div className="lg:col-span-1">
-              <QuickCommunicationActions
-                customer={customer}
-                onCommunicationSend={(communication) => {
-                  // Handle communication send
-                  console.log('Communication sent:', communication);
-                }}
-              />
+              <QuickCommunicationActions customer={customer} />
             </div>
             
             {/* Communication Timeline */}
             <div className="lg:col-span-2">
-              <CustomerCommunicationTimeline
-                customer={customer}
-                onCommunicationAdd={(communication) => {
-                  // Handle communication add
-                  console.log('Communication added:', communication);
-                }}
-                onCommunicationUpdate={(id, updates) => {
-                  // Handle communication update
-                  console.log('Communication updated:', id, updates);
-                }}
-              />
+              <CustomerCommunicationTimeline customer={customer} />
             </div>
           </div>
         </TabsContent>
@@ -486,7 +460,7 @@ export function CustomerDetailView({
         {/* Analytics Tab */}
         <TabsContent value="analytics" className="space-y-6">
           <CommunicationAnalytics
-            communications={[]} // This would be fetched from API
+            communications={communications}
             timeRange="month"
           />
         </TabsContent>
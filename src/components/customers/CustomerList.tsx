@@ -44,8 +44,7 @@ import {
   UserPlus,
   Eye,
   Edit,
-  Archive,
-  Trash2
+  Archive
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useCustomers, useDeleteCustomer } from '@/hooks/use-customers';
@@ -82,16 +81,16 @@ export function CustomerList({
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState<'name' | 'lastJob' | 'totalJobs' | 'created'>('name');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
-  const [customerToDelete, setCustomerToDelete] = useState<Customer | null>(null);
-  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [customerToArchive, setCustomerToArchive] = useState<Customer | null>(null);
+  const [showArchiveDialog, setShowArchiveDialog] = useState(false);
 
   // Fetch data
   const { data: customersResponse, isLoading: customersLoading } = useCustomers();
   const { data: jobsResponse } = useJobs();
   const { data: vehiclesResponse } = useVehicles();
 
-  // Delete customer mutation
-  const deleteCustomerMutation = useDeleteCustomer();
+  // Archive customer mutation (deleting a customer archives it)
+  const archiveCustomerMutation = useDeleteCustomer();
 
   const customers = customersResponse?.data || [];
   const jobs = jobsResponse?.data || [];
@@ -195,32 +194,28 @@ export function CustomerList({
         onCustomerEdit?.(customer);
         break;
       case 'archive':
-        // Handle archive action
-        console.log('Archive customer:', customer.id);
-        break;
-      case 'delete':
-        setCustomerToDelete(customer);
-        setShowDeleteDialog(true);
+        setCustomerToArchive(customer);
+        setShowArchiveDialog(true);
         break;
     }
   };
 
-  const handleDeleteConfirm = async () => {
-    if (!customerToDelete) return;
+  const handleArchiveConfirm = async () => {
+    if (!customerToArchive) return;
     
     try {
-      await deleteCustomerMutation.mutateAsync(customerToDelete.id);
-      setShowDeleteDialog(false);
-      setCustomerToDelete(null);
+      await archiveCustomerMutation.mutateAsync(customerToArchive.id);
+      setShowArchiveDialog(false);
+      setCustomerToArchive(null);
     } catch (error) {
       // Error is handled by the mutation hook
-      console.error('Delete failed:', error);
+      console.error('Archive failed:', error);
     }
   };
 
-  const handleDeleteCancel = () => {
-    setShowDeleteDialog(false);
-    setCustomerToDelete(null);
+  const handleArchiveCancel = () => {
+    setShowArchiveDialog(false);
+    setCustomerToArchive(null);
   };
 
   if (customersLoading) {
@@ -492,16 +487,6 @@ export function CustomerList({
                               <Archive className="mr-2 h-4 w-4" />
                               Archive
                             </DropdownMenuItem>
-                            <DropdownMenuItem 
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleCustomerAction(customer, 'delete');
-                              }}
-                              className="text-red-600"
-                            >
-                              <Trash2 className="mr-2 h-4 w-4" />
-                              Delete
-                            </DropdownMenuItem>
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </TableCell>
@@ -534,53 +519,40 @@ export function CustomerList({
         </CardContent>
       </Card>
 
-      {/* Delete Confirmation Dialog */}
-      <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+      {/* Archive Confirmation Dialog */}
+      <Dialog open={showArchiveDialog} onOpenChange={(open) => !open && handleArchiveCancel()}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Delete Customer</DialogTitle>
+            <DialogTitle>Archive Customer</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete <strong>{customerToDelete?.name}</strong>? 
-              This action cannot be undone and will permanently remove the customer 
-              and all associated data from the system.
-              {customerToDelete && (
-                <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-md">
-                  <div className="text-sm text-red-800">
-                    <strong>This will also delete:</strong>
-                    <ul className="list-disc list-inside mt-1 space-y-1">
-                      <li>All customer vehicles</li>
-                      <li>All service history and jobs</li>
-                      <li>All communication records</li>
-                      <li>All appointments and scheduling data</li>
-                    </ul>
-                  </div>
-                </div>
-              )}
+              Are you sure you want to archive <strong>{customerToArchive?.name}</strong>? 
+              Their vehicles, jobs, calls and appointments are archived with them and drop out 
+              of lists. Everything can be restored from Settings → Archived.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
             <Button 
               variant="outline" 
-              onClick={handleDeleteCancel}
-              disabled={deleteCustomerMutation.isPending}
+              onClick={handleArchiveCancel}
+              disabled={archiveCustomerMutation.isPending}
             >
               Cancel
             </Button>
             <Button 
               variant="outline" 
-              onClick={handleDeleteConfirm}
-              disabled={deleteCustomerMutation.isPending}
-              className="border-red-600 text-red-600 hover:bg-red-600 hover:text-white"
+              onClick={handleArchiveConfirm}
+              disabled={archiveCustomerMutation.isPending}
+              className="border-orange-600 text-orange-600 hover:bg-orange-600 hover:text-white"
             >
-              {deleteCustomerMutation.isPending ? (
+              {archiveCustomerMutation.isPending ? (
                 <>
                   <div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full mr-2" />
-                  Deleting...
+                  Archiving...
                 </>
               ) : (
                 <>
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  Delete Customer
+                  <Archive className="h-4 w-4 mr-2" />
+                  Archive Customer
                 </>
               )}
             </Button>
@@ -0,0 +1,119 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Download, ExternalLink, FileText, Trash2 } from 'lucide-react';
+import { jobAttachmentApi } from '@/lib/api-client';
+import { formatFileSize } from '@shared/job-attachments';
+import type { JobAttachment, JobAttachmentType, JobPhotoStage } from '@/types';
+
+const ATTACHMENT_TYPE_LABELS: Record<JobAttachmentType, string> = {
+  document: 'Document',
+  link: 'Link',
+  photo: 'Photo',
+};
+
+const PHOTO_STAGE_LABELS: Record<JobPhotoStage, string> = {
+  before: 'Before',
+  after: 'After',
+};
+
+interface AttachmentGalleryProps {
+  attachments: JobAttachment[];
+  onDelete?: (attachment: JobAttachment) => void;
+}
+
+// Uploaded photos render as a thumbnail grid; documents and links as a list beneath it
+export function AttachmentGallery({ attachments, onDelete }: AttachmentGalleryProps) {
+  const photos = attachments.filter((attachment) => attachment.file?.hasThumbnail);
+  const others = attachments.filter((attachment) => !attachment.file?.hasThumbnail);
+
+  return (
+    <div className="space-y-3">
+      {photos.length ? (
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+          {photos.map((photo) => (
+            <PhotoTile key={photo.id} photo={photo} onDelete={onDelete ? () => onDelete(photo) : undefined} />
+          ))}
+        </div>
+      ) : null}
+      {others.length ? (
+        <div className="space-y-2">
+          {others.map((attachment) => (
+            <AttachmentRow
+              key={attachment.id}
+              attachment={attachment}
+              onDelete={onDelete ? () => onDelete(attachment) : undefined}
+            />
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function PhotoTile({ photo, onDelete }: { photo: JobAttachment; onDelete?: () => void }) {
+  return (
+    <figure className="group relative overflow-hidden rounded-md border bg-muted">
+      <a href={jobAttachmentApi.getFileUrl(photo, 'view')} target="_blank" rel="noreferrer">
+        <img
+          src={jobAttachmentApi.getFileUrl(photo, 'thumbnail')}
+          alt={photo.label}
+          loading="lazy"
+          className="aspect-square w-full object-cover"
+        />
+      </a>
+      {photo.stage ? (
+        <Badge variant="outline" className="absolute left-1 top-1 bg-background/90 text-xs">
+          {PHOTO_STAGE_LABELS[photo.stage]}
+        </Badge>
+      ) : null}
+      {onDelete ? (
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={onDelete}
+          aria-label={`Remove ${photo.label}`}
+          className="absolute right-1 top-1 h-7 w-7 p-0 opacity-0 transition-opacity group-hover:opacity-100 focus:opacity-100"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      ) : null}
+      <figcaption className="truncate px-2 py-1 text-xs text-muted-foreground">{photo.label}</figcaption>
+    </figure>
+  );
+}
+
+function AttachmentRow({ attachment, onDelete }: { attachment: JobAttachment; onDelete?: () => void }) {
+  const href = attachment.file ? jobAttachmentApi.getFileUrl(attachment, 'view') : attachment.url;
+  return (
+    <div className="flex items-center justify-between gap-2 rounded border p-2 text-sm">
+      <a href={href} className="flex min-w-0 items-center gap-2 hover:underline" target="_blank" rel="noreferrer">
+        {attachment.file ? (
+          <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+        ) : (
+          <ExternalLink className="h-4 w-4 shrink-0 text-muted-foreground" />
+        )}
+        <span className="truncate">{attachment.label}</span>
+        {attachment.file ? (
+          <span className="shrink-0 text-xs text-muted-foreground">{formatFileSize(attachment.file.size)}</span>
+        ) : null}
+      </a>
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className="bg-slate-100 text-slate-700">
+          {ATTACHMENT_TYPE_LABELS[attachment.type] ?? attachment.type}
+        </Badge>
+        {attachment.file ? (
+          <Button variant="ghost" size="sm" asChild aria-label={`Download ${attachment.label}`}>
+            <a href={jobAttachmentApi.getFileUrl(attachment, 'download')}>
+              <Download className="h-4 w-4" />
+            </a>
+          </Button>
+        ) : null}
+        {onDelete ? (
+          <Button variant="ghost" size="sm" onClick={onDelete} aria-label={`Remove ${attachment.label}`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -7,16 +7,19 @@ import {
   Car,
   FileText,
   Mail,
+  MessageCircle,
   Phone,
   RefreshCcw,
   User,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import type { Call, CustomerWithVehicles, Job, Vehicle } from '@/types';
+import type { Call, Communication, CustomerWithVehicles, Job, Vehicle } from '@/types';
 
 interface CustomerDetailsViewProps {
   customerId: string;
   customer?: CustomerWithVehicles | null;
+  communications?: Communication[];
+  isCommunicationsLoading?: boolean;
   isLoading?: boolean;
   error?: string | null;
   onRetry?: () => void;
@@ -26,6 +29,8 @@ interface CustomerDetailsViewProps {
 export function CustomerDetailsView({
   customerId,
   customer,
+  communications = [],
+  isCommunicationsLoading = false,
   isLoading = false,
   error = null,
   onRetry,
@@ -85,6 +90,9 @@ export function CustomerDetailsView({
   const vehicles = customer.vehicles ?? [];
   const jobs = customer.jobs ?? [];
   const calls = customer.calls ?? [];
+  const recentCommunications = [...communications]
+    .sort((a, b) => b.occurredAt.localeCompare(a.occurredAt))
+    .slice(0, 5);
 
   return (
     <div className="space-y-6">
@@ -186,6 +194,30 @@ export function CustomerDetailsView({
           )}
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MessageCircle className="h-5 w-5" /> Recent Communication
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isCommunicationsLoading ? (
+            <div className="space-y-2">
+              <SkeletonLine className="h-4 w-full" />
+              <SkeletonLine className="h-4 w-2/3" />
+            </div>
+          ) : recentCommunications.length ? (
+            <div className="space-y-3">
+              {recentCommunications.map((communication) => (
+                <CommunicationItem key={communication.id} communication={communication} />
+              ))}
+            </div>
+          ) : (
+            <EmptyState message="No communication logged yet." />
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -249,6 +281,25 @@ function CallItem({ call }: { call: Call }) {
   );
 }
 
+function CommunicationItem({ communication }: { communication: Communication }) {
+  return (
+    <div className="rounded-md border p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-medium text-foreground">
+          {communication.subject || communication.type}
+        </p>
+        <Badge variant="outline" className="capitalize">
+          {communication.type} • {communication.direction}
+        </Badge>
+      </div>
+      <div className="mt-1 text-xs text-muted-foreground">
+        {format(new Date(communication.occurredAt), 'MMM d, yyyy h:mm a')} • {communication.author}
+      </div>
+      <p className="mt-2 line-clamp-2 text-sm text-muted-foreground">{communication.body}</p>
+    </div>
+  );
+}
+
 function EmptyState({ message }: { message: string }) {
   return (
     <div className="flex flex-col items-center justify-center rounded-md border border-dashed p-6 text-sm text-muted-foreground">
@@ -0,0 +1,256 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Link2, Paperclip, Upload } from 'lucide-react';
+import { AttachmentGallery } from '@/components/dock/AttachmentGallery';
+import {
+  ATTACHMENT_UPLOAD_MIME_TYPES,
+  getAttachmentUploadError,
+  isImageMimeType,
+  isWebUrl,
+} from '@shared/job-attachments';
+import type {
+  CreateJobAttachmentData,
+  JobAttachment,
+  JobAttachmentType,
+  JobPhotoStage,
+  UploadJobAttachmentData,
+} from '@/types';
+
+// Uploaded files are typed from their contents; links are labelled by hand
+const LINK_TYPES: Array<{ value: JobAttachmentType; label: string }> = [
+  { value: 'document', label: 'Document' },
+  { value: 'photo', label: 'Photo' },
+  { value: 'link', label: 'Link' },
+];
+
+const PHOTO_STAGE_OPTIONS: Array<{ value: JobPhotoStage | 'none'; label: string }> = [
+  { value: 'none', label: 'No stage' },
+  { value: 'before', label: 'Before' },
+  { value: 'after', label: 'After' },
+];
+
+const EMPTY_LINK_DRAFT = {
+  label: '',
+  type: 'document' as JobAttachmentType,
+  url: '',
+};
+
+interface JobAttachmentsSectionProps {
+  jobId: string;
+  attachments: JobAttachment[];
+  isLoading?: boolean;
+  onAdd?: (data: CreateJobAttachmentData, jobId: string) => Promise<void> | void;
+  onUpload?: (data: UploadJobAttachmentData, jobId: string) => Promise<void> | void;
+  onDelete?: (attachmentId: string, jobId: string) => Promise<void> | void;
+}
+
+export function JobAttachmentsSection({
+  jobId,
+  attachments,
+  isLoading = false,
+  onAdd,
+  onUpload,
+  onDelete,
+}: JobAttachmentsSectionProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [uploadLabel, setUploadLabel] = useState('');
+  const [stage, setStage] = useState<JobPhotoStage | 'none'>('none');
+  const [isUploading, setIsUploading] = useState(false);
+  const [linkDraft, setLinkDraft] = useState(EMPTY_LINK_DRAFT);
+  const [isSubmittingLink, setIsSubmittingLink] = useState(false);
+
+  const fileError = file ? getAttachmentUploadError({ mimeType: file.type, size: file.size }) : null;
+  const isPhoto = Boolean(file && isImageMimeType(file.type));
+  const url = linkDraft.url.trim();
+  const urlError = url && !isWebUrl(url) ? 'Enter a link starting with http:// or https://' : null;
+  const canSubmitLink = Boolean(onAdd && linkDraft.label.trim() && url && !urlError);
+
+  const resetUpload = () => {
+    setFile(null);
+    setUploadLabel('');
+    setStage('none');
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!file || fileError || !onUpload) {
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      await onUpload(
+        {
+          file,
+          label: uploadLabel.trim() || undefined,
+          stage: isPhoto && stage !== 'none' ? stage : undefined,
+        },
+        jobId,
+      );
+      resetUpload();
+    } catch (error) {
+      /* Mutation hook surfaces errors to the user */
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleAddLink = async () => {
+    if (!canSubmitLink || !onAdd) {
+      return;
+    }
+
+    setIsSubmittingLink(true);
+    try {
+      await onAdd({ label: linkDraft.label.trim(), type: linkDraft.type, url }, jobId);
+      setLinkDraft(EMPTY_LINK_DRAFT);
+    } catch (error) {
+      /* Mutation hook surfaces errors to the user */
+    } finally {
+      setIsSubmittingLink(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <Paperclip className="h-5 w-5" /> Photos &amp; Documents
+        </CardTitle>
+        {attachments.length ? (
+          <span className="text-xs text-muted-foreground">
+            {attachments.length} attachment{attachments.length === 1 ? '' : 's'}
+          </span>
+        ) : null}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading attachments…</p>
+        ) : attachments.length ? (
+          <AttachmentGallery
+            attachments={attachments}
+            onDelete={onDelete ? (attachment) => onDelete(attachment.id, jobId) : undefined}
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground">No photos, estimates or documents attached yet.</p>
+        )}
+
+        {onUpload ? (
+          <div className="grid gap-3 rounded-md border border-dashed p-3 md:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="attachment-file" className="text-xs uppercase tracking-wide text-muted-foreground">
+                File
+              </Label>
+              <Input
+                id="attachment-file"
+                ref={fileInputRef}
+                type="file"
+                accept={ATTACHMENT_UPLOAD_MIME_TYPES.join(',')}
+                onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+                className="h-8 text-xs"
+              />
+              {fileError ? <p className="text-xs text-destructive">{fileError}</p> : null}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="attachment-upload-label" className="text-xs uppercase tracking-wide text-muted-foreground">
+                Label
+              </Label>
+              <Input
+                id="attachment-upload-label"
+                value={uploadLabel}
+                placeholder={file?.name ?? 'Defaults to the file name'}
+                onChange={(event) => setUploadLabel(event.target.value)}
+                className="h-8 text-sm"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="attachment-stage" className="text-xs uppercase tracking-wide text-muted-foreground">
+                Damage photo
+              </Label>
+              <Select value={stage} onValueChange={(value) => setStage(value as typeof stage)} disabled={!isPhoto}>
+                <SelectTrigger id="attachment-stage" className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PHOTO_STAGE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="md:col-span-3 flex justify-end">
+              <Button size="sm" variant="outline" onClick={handleUpload} disabled={!file || Boolean(fileError) || isUploading}>
+                <Upload className="mr-2 h-4 w-4" /> {isUploading ? 'Uploading…' : 'Upload'}
+              </Button>
+            </div>
+          </div>
+        ) : null}
+
+        {onAdd ? (
+          <div className="grid gap-3 rounded-md border border-dashed p-3 md:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="attachment-label" className="text-xs uppercase tracking-wide text-muted-foreground">
+                Label
+              </Label>
+              <Input
+                id="attachment-label"
+                value={linkDraft.label}
+                placeholder="Signed estimate"
+                onChange={(event) => setLinkDraft({ ...linkDraft, label: event.target.value })}
+                className="h-8 text-sm"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="attachment-type" className="text-xs uppercase tracking-wide text-muted-foreground">
+                Type
+              </Label>
+              <Select
+                value={linkDraft.type}
+                onValueChange={(value) => setLinkDraft({ ...linkDraft, type: value as JobAttachmentType })}
+              >
+                <SelectTrigger id="attachment-type" className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LINK_TYPES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="attachment-url" className="text-xs uppercase tracking-wide text-muted-foreground">
+                Link
+              </Label>
+              <Input
+                id="attachment-url"
+                type="url"
+                value={linkDraft.url}
+                placeholder="https://"
+                onChange={(event) => setLinkDraft({ ...linkDraft, url: event.target.value })}
+                className="h-8 text-sm"
+              />
+              {urlError ? <p className="text-xs text-destructive">{urlError}</p> : null}
+            </div>
+            <div className="md:col-span-3 flex justify-end">
+              <Button size="sm" variant="outline" onClick={handleAddLink} disabled={!canSubmitLink || isSubmittingLink}>
+                <Link2 className="mr-2 h-4 w-4" /> {isSubmittingLink ? 'Attaching…' : 'Attach Link'}
+              </Button>
+            </div>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
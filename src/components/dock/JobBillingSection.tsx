@@ -0,0 +1,487 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Package, Plus, Receipt, Trash2 } from 'lucide-react';
+import {
+  BILLING_LINE_ITEM_TYPES,
+  DEFAULT_TAXABLE,
+  calculateBillingTotals,
+  isValidLineItem,
+} from '@shared/billing';
+import type {
+  BillingLineItemType,
+  EstimateStatus,
+  Invoice,
+  InvoiceStatus,
+  JobBilling,
+  PartsOrder,
+  SaveEstimateData,
+} from '@/types';
+
+const LINE_ITEM_LABELS: Record<BillingLineItemType, { label: string; quantity: string; price: string }> = {
+  labor: { label: 'Labor', quantity: 'Hours', price: 'Rate' },
+  part: { label: 'Part', quantity: 'Qty', price: 'Unit price' },
+  fee: { label: 'Fee', quantity: 'Qty', price: 'Amount' },
+};
+
+const ESTIMATE_STATUS_LABELS: Record<EstimateStatus, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-slate-100 text-slate-700' },
+  approved: { label: 'Approved', className: 'bg-emerald-100 text-emerald-800' },
+  declined: { label: 'Declined', className: 'bg-red-100 text-red-700' },
+  invoiced: { label: 'Invoiced', className: 'bg-blue-100 text-blue-800' },
+};
+
+const INVOICE_STATUS_LABELS: Record<InvoiceStatus, { label: string; className: string }> = {
+  issued: { label: 'Issued', className: 'bg-amber-100 text-amber-800' },
+  paid: { label: 'Paid', className: 'bg-emerald-100 text-emerald-800' },
+  void: { label: 'Void', className: 'bg-slate-100 text-slate-500 line-through' },
+};
+
+// Line items are edited as strings so partially typed numbers survive re-renders
+interface DraftLineItem {
+  key: string;
+  id?: string;
+  type: BillingLineItemType;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  taxable: boolean;
+}
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+
+let draftKeySequence = 0;
+const nextDraftKey = () => `draft-${++draftKeySequence}`;
+
+const createDraftItem = (type: BillingLineItemType): DraftLineItem => ({
+  key: nextDraftKey(),
+  type,
+  description: '',
+  quantity: '1',
+  unitPrice: '',
+  taxable: DEFAULT_TAXABLE[type],
+});
+
+const parseDraftItem = (item: DraftLineItem) => ({
+  type: item.type,
+  description: item.description.trim(),
+  quantity: Number.parseFloat(item.quantity),
+  unitPrice: Number.parseFloat(item.unitPrice),
+  taxable: item.taxable,
+});
+
+interface JobBillingSectionProps {
+  jobId: string;
+  billing?: JobBilling | null;
+  partsOrders?: PartsOrder[];
+  isLoading?: boolean;
+  onSaveEstimate?: (data: SaveEstimateData, jobId: string) => Promise<void> | void;
+  onApproveEstimate?: (jobId: string, approvedBy?: string) => Promise<void> | void;
+  onDeclineEstimate?: (jobId: string) => Promise<void> | void;
+  onCreateInvoice?: (jobId: string) => Promise<void> | void;
+  onUpdateInvoiceStatus?: (
+    invoiceId: string,
+    status: Exclude<InvoiceStatus, 'issued'>,
+    jobId: string
+  ) => Promise<void> | void;
+}
+
+export function JobBillingSection({
+  jobId,
+  billing,
+  partsOrders = [],
+  isLoading = false,
+  onSaveEstimate,
+  onApproveEstimate,
+  onDeclineEstimate,
+  onCreateInvoice,
+  onUpdateInvoiceStatus,
+}: JobBillingSectionProps) {
+  const estimate = billing?.estimate ?? null;
+  const invoices = billing?.invoices ?? [];
+
+  const [items, setItems] = useState<DraftLineItem[]>([]);
+  const [taxRate, setTaxRate] = useState('0');
+  const [isDirty, setIsDirty] = useState(false);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  // Reset the editor whenever the saved estimate changes underneath it
+  useEffect(() => {
+    setItems(
+      (estimate?.lineItems ?? []).map((item) => ({
+        key: item.id,
+        id: item.id,
+        type: item.type,
+        description: item.description,
+        quantity: String(item.quantity),
+        unitPrice: String(item.unitPrice),
+        taxable: item.taxable,
+      })),
+    );
+    setTaxRate(String(estimate?.taxRate ?? 0));
+    setIsDirty(false);
+  }, [estimate?.id, estimate?.updatedAt]);
+
+  const parsedItems = useMemo(() => items.map(parseDraftItem), [items]);
+  const parsedTaxRate = Number.parseFloat(taxRate);
+  const isTaxRateValid = Number.isFinite(parsedTaxRate) && parsedTaxRate >= 0 && parsedTaxRate <= 100;
+  const totals = useMemo(
+    () => calculateBillingTotals(parsedItems.filter(isValidLineItem), isTaxRateValid ? parsedTaxRate : 0),
+    [parsedItems, isTaxRateValid, parsedTaxRate],
+  );
+
+  const isLocked = estimate?.status === 'invoiced';
+  const canEdit = Boolean(onSaveEstimate) && !isLocked;
+  const canSave = canEdit && isDirty && isTaxRateValid && parsedItems.every(isValidLineItem);
+  const canDecide = !isDirty && Boolean(estimate?.lineItems.length)
+    && (estimate?.status === 'draft' || estimate?.status === 'declined');
+  const canInvoice = !isDirty && estimate?.status === 'approved';
+
+  // Parts already on the estimate are matched by description so they are not added twice
+  const unbilledParts = partsOrders.filter(
+    (order) =>
+      order.status !== 'cancelled'
+      && !items.some((item) => item.type === 'part' && item.description.startsWith(order.partNumber)),
+  );
+
+  const updateItems = (next: DraftLineItem[]) => {
+    setItems(next);
+    setIsDirty(true);
+  };
+
+  const updateItem = (key: string, changes: Partial<DraftLineItem>) => {
+    updateItems(items.map((item) => (item.key === key ? { ...item, ...changes } : item)));
+  };
+
+  const addOrderedParts = () => {
+    updateItems([
+      ...items,
+      ...unbilledParts.map((order) => ({
+        key: nextDraftKey(),
+        type: 'part' as const,
+        description: order.description ? `${order.partNumber} — ${order.description}` : order.partNumber,
+        quantity: String(order.quantity),
+        unitPrice: String(order.unitCost),
+        taxable: DEFAULT_TAXABLE.part,
+      })),
+    ]);
+  };
+
+  const runAction = async (name: string, action: () => Promise<void> | void) => {
+    setPendingAction(name);
+    try {
+      await action();
+    } catch (error) {
+      /* Mutation hooks surface errors to the user */
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleSave = () => {
+    if (!canSave || !onSaveEstimate) {
+      return;
+    }
+    void runAction('save', () =>
+      onSaveEstimate(
+        {
+          lineItems: items.map((item) => ({ ...parseDraftItem(item), id: item.id })),
+          taxRate: parsedTaxRate,
+        },
+        jobId,
+      ),
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="h-5 w-5" /> Estimate &amp; Invoice
+        </CardTitle>
+        {estimate ? (
+          <Badge variant="outline" className={ESTIMATE_STATUS_LABELS[estimate.status].className}>
+            {ESTIMATE_STATUS_LABELS[estimate.status].label}
+          </Badge>
+        ) : null}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading billing…</p>
+        ) : (
+          <>
+            {items.length ? (
+              <div className="space-y-3">
+                {items.map((item) => (
+                  <LineItemRow
+                    key={item.key}
+                    item={item}
+                    disabled={!canEdit}
+                    onChange={(changes) => updateItem(item.key, changes)}
+                    onRemove={() => updateItems(items.filter((entry) => entry.key !== item.key))}
+                  />
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No estimate has been written for this job.</p>
+            )}
+
+            {canEdit ? (
+              <div className="flex flex-wrap items-center gap-2">
+                {BILLING_LINE_ITEM_TYPES.map((type) => (
+                  <Button
+                    key={type}
+                    size="sm"
+                    variant="outline"
+                    onClick={() => updateItems([...items, createDraftItem(type)])}
+                  >
+                    <Plus className="mr-2 h-4 w-4" /> {LINE_ITEM_LABELS[type].label}
+                  </Button>
+                ))}
+                {unbilledParts.length ? (
+                  <Button size="sm" variant="ghost" onClick={addOrderedParts}>
+                    <Package className="mr-2 h-4 w-4" /> Add ordered parts ({unbilledParts.length})
+                  </Button>
+                ) : null}
+              </div>
+            ) : null}
+
+            <Separator />
+
+            <div className="grid gap-1 text-sm">
+              <TotalRow label="Labor" value={totals.laborTotal} />
+              <TotalRow label="Parts" value={totals.partsTotal} />
+              <TotalRow label="Fees" value={totals.feesTotal} />
+              <TotalRow label="Subtotal" value={totals.subtotal} />
+              <div className="flex items-center justify-between">
+                <Label htmlFor="billing-tax-rate" className="text-muted-foreground">
+                  Tax rate (%)
+                </Label>
+                <Input
+                  id="billing-tax-rate"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.01"
+                  value={taxRate}
+                  disabled={!canEdit}
+                  onChange={(event) => {
+                    setTaxRate(event.target.value);
+                    setIsDirty(true);
+                  }}
+                  className="h-8 w-24 text-right text-sm"
+                />
+              </div>
+              <TotalRow label="Tax" value={totals.tax} />
+              <TotalRow label="Total" value={totals.total} emphasize />
+            </div>
+
+            {estimate?.approvedAt && estimate.status !== 'draft' ? (
+              <p className="text-xs text-muted-foreground">
+                Approved by {estimate.approvedBy ?? 'customer'} on {format(new Date(estimate.approvedAt), 'MMM d, yyyy h:mm a')}
+              </p>
+            ) : null}
+
+            <div className="flex flex-wrap justify-end gap-2">
+              {canEdit ? (
+                <Button size="sm" variant="outline" onClick={handleSave} disabled={!canSave || pendingAction !== null}>
+                  {pendingAction === 'save' ? 'Saving…' : 'Save Estimate'}
+                </Button>
+              ) : null}
+              {canDecide && onDeclineEstimate && estimate?.status === 'draft' ? (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => runAction('decline', () => onDeclineEstimate(jobId))}
+                  disabled={pendingAction !== null}
+                >
+                  Declined
+                </Button>
+              ) : null}
+              {canDecide && onApproveEstimate ? (
+                <Button
+                  size="sm"
+                  onClick={() => runAction('approve', () => onApproveEstimate(jobId))}
+                  disabled={pendingAction !== null}
+                >
+                  {pendingAction === 'approve' ? 'Approving…' : 'Customer Approved'}
+                </Button>
+              ) : null}
+              {canInvoice && onCreateInvoice ? (
+                <Button
+                  size="sm"
+                  onClick={() => runAction('invoice', () => onCreateInvoice(jobId))}
+                  disabled={pendingAction !== null}
+                >
+                  {pendingAction === 'invoice' ? 'Invoicing…' : 'Convert to Invoice'}
+                </Button>
+              ) : null}
+            </div>
+
+            {invoices.length ? (
+              <div className="space-y-2">
+                <Separator />
+                <p className="text-xs uppercase tracking-wide text-muted-foreground">Invoices</p>
+                {invoices.map((invoice) => (
+                  <InvoiceRow
+                    key={invoice.id}
+                    invoice={invoice}
+                    disabled={pendingAction !== null}
+                    onStatusChange={
+                      onUpdateInvoiceStatus
+                        ? (status) => runAction(status, () => onUpdateInvoiceStatus(invoice.id, status, jobId))
+                        : undefined
+                    }
+                  />
+                ))}
+              </div>
+            ) : null}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function LineItemRow({
+  item,
+  disabled,
+  onChange,
+  onRemove,
+}: {
+  item: DraftLineItem;
+  disabled: boolean;
+  onChange: (changes: Partial<DraftLineItem>) => void;
+  onRemove: () => void;
+}) {
+  const labels = LINE_ITEM_LABELS[item.type];
+  const amount = Number.parseFloat(item.quantity) * Number.parseFloat(item.unitPrice);
+
+  return (
+    <div className="grid gap-2 rounded-md border p-3 md:grid-cols-[8rem_1fr_5rem_6rem_auto]">
+      <Select
+        value={item.type}
+        onValueChange={(value) => {
+          const type = value as BillingLineItemType;
+          onChange({ type, taxable: DEFAULT_TAXABLE[type] });
+        }}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {BILLING_LINE_ITEM_TYPES.map((type) => (
+            <SelectItem key={type} value={type}>
+              {LINE_ITEM_LABELS[type].label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        aria-label="Description"
+        placeholder="Description"
+        value={item.description}
+        disabled={disabled}
+        onChange={(event) => onChange({ description: event.target.value })}
+        className="h-8 text-sm"
+      />
+      <Input
+        aria-label={labels.quantity}
+        placeholder={labels.quantity}
+        type="number"
+        min={0}
+        step={item.type === 'labor' ? '0.1' : '1'}
+        value={item.quantity}
+        disabled={disabled}
+        onChange={(event) => onChange({ quantity: event.target.value })}
+        className="h-8 text-sm"
+      />
+      <Input
+        aria-label={labels.price}
+        placeholder={labels.price}
+        type="number"
+        min={0}
+        step="0.01"
+        value={item.unitPrice}
+        disabled={disabled}
+        onChange={(event) => onChange({ unitPrice: event.target.value })}
+        className="h-8 text-sm"
+      />
+      <div className="flex items-center justify-end gap-3">
+        <label className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Checkbox
+            checked={item.taxable}
+            disabled={disabled}
+            onCheckedChange={(checked) => onChange({ taxable: checked === true })}
+          />
+          Taxable
+        </label>
+        <span className="w-20 text-right text-sm font-medium">
+          {Number.isFinite(amount) ? currency.format(amount) : '—'}
+        </span>
+        {!disabled ? (
+          <Button variant="ghost" size="sm" onClick={onRemove} aria-label={`Remove ${item.description || labels.label}`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function InvoiceRow({
+  invoice,
+  disabled,
+  onStatusChange,
+}: {
+  invoice: Invoice;
+  disabled: boolean;
+  onStatusChange?: (status: Exclude<InvoiceStatus, 'issued'>) => void;
+}) {
+  const status = INVOICE_STATUS_LABELS[invoice.status];
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+      <div>
+        <p className="text-sm font-medium text-foreground">
+          <span className="font-mono">{invoice.invoiceNumber}</span> • {currency.format(invoice.total)}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Issued {format(new Date(invoice.issuedAt), 'MMM d, yyyy')}
+          {invoice.paidAt ? ` • Paid ${format(new Date(invoice.paidAt), 'MMM d, yyyy')}` : null}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className={status.className}>
+          {status.label}
+        </Badge>
+        {onStatusChange && invoice.status === 'issued' ? (
+          <>
+            <Button size="sm" variant="outline" onClick={() => onStatusChange('paid')} disabled={disabled}>
+              Mark Paid
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => onStatusChange('void')} disabled={disabled}>
+              Void
+            </Button>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function TotalRow({ label, value, emphasize = false }: { label: string; value: number; emphasize?: boolean }) {
+  return (
+    <div className={emphasize ? 'flex justify-between text-base font-semibold' : 'flex justify-between text-muted-foreground'}>
+      <span>{label}</span>
+      <span>{currency.format(value)}</span>
+    </div>
+  );
+}
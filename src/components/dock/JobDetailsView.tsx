@@ -1,12 +1,19 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { format, formatDistanceToNow } from 'date-fns';
+import { format } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { Textarea } from '@/components/ui/textarea';
@@ -15,21 +22,46 @@ import {
   Calendar,
   CheckCircle2,
   Clock,
+  Download,
   FileText,
+  History,
   Pause,
   Play,
+  Printer,
   RefreshCcw,
   User,
   Wrench,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { JobPartsSection } from '@/components/dock/JobPartsSection';
+import { JobBillingSection } from '@/components/dock/JobBillingSection';
+import { JobMilestonesSection } from '@/components/dock/JobMilestonesSection';
+import { JobAttachmentsSection } from '@/components/dock/JobAttachmentsSection';
+import { JobOdometerSection } from '@/components/dock/JobOdometerSection';
+import { isValidInvoiceNumber } from '@shared/domain';
+import { formatSegmentLabel, getBookedHours } from '@shared/appointment-segments';
 import type {
+  Appointment,
+  CreateJobAttachmentData,
+  CreateJobMilestoneData,
+  CreatePartsOrderData,
+  InvoiceStatus,
   JobAttachment,
+  JobBilling,
+  JobDocumentKind,
   JobMilestone,
   JobNote,
   JobWithRelations,
   JobPriority,
   JobStatus,
+  JobStatusEvent,
+  MileageHistoryEntry,
+  PartsOrder,
+  RecordOdometerData,
+  SaveEstimateData,
+  UpdateJobMilestoneData,
+  UpdatePartsOrderData,
+  UploadJobAttachmentData,
 } from '@/types';
 
 export type JobPanelAction = 'start' | 'pause' | 'complete' | 'cancel';
@@ -43,12 +75,47 @@ export interface JobNotePayload {
 interface JobDetailsViewProps {
   jobId: string;
   job?: JobWithRelations | null;
+  statusHistory?: JobStatusEvent[];
+  isHistoryLoading?: boolean;
+  partsOrders?: PartsOrder[];
+  isPartsLoading?: boolean;
+  milestones?: JobMilestone[];
+  isMilestonesLoading?: boolean;
+  attachments?: JobAttachment[];
+  isAttachmentsLoading?: boolean;
+  mileageHistory?: MileageHistoryEntry[];
+  // The job's appointment segments, in start order
+  segments?: Appointment[];
+  billing?: JobBilling | null;
+  isBillingLoading?: boolean;
   isLoading?: boolean;
   error?: string | null;
   onRetry?: () => void;
   onJobAction?: (action: JobPanelAction, jobId: string) => void;
   onAddNote?: (payload: JobNotePayload, jobId: string) => Promise<void> | void;
   onInvoiceChange?: (invoiceNumber: string | null, jobId: string) => Promise<void> | void;
+  onAddPartsOrder?: (data: CreatePartsOrderData, jobId: string) => Promise<void> | void;
+  onUpdatePartsOrder?: (orderId: string, data: UpdatePartsOrderData, jobId: string) => Promise<void> | void;
+  onDeletePartsOrder?: (orderId: string, jobId: string) => Promise<void> | void;
+  onAddMilestone?: (data: CreateJobMilestoneData, jobId: string) => Promise<void> | void;
+  onUpdateMilestone?: (milestoneId: string, data: UpdateJobMilestoneData, jobId: string) => Promise<void> | void;
+  onDeleteMilestone?: (milestoneId: string, jobId: string) => Promise<void> | void;
+  onAddAttachment?: (data: CreateJobAttachmentData, jobId: string) => Promise<void> | void;
+  onUploadAttachment?: (data: UploadJobAttachmentData, jobId: string) => Promise<void> | void;
+  onDeleteAttachment?: (attachmentId: string, jobId: string) => Promise<void> | void;
+  onRecordOdometer?: (data: RecordOdometerData, jobId: string) => Promise<void> | void;
+  onStatusChange?: (status: JobStatus, jobId: string) => Promise<void> | void;
+  onSaveEstimate?: (data: SaveEstimateData, jobId: string) => Promise<void> | void;
+  onApproveEstimate?: (jobId: string, approvedBy?: string) => Promise<void> | void;
+  onDeclineEstimate?: (jobId: string) => Promise<void> | void;
+  onCreateInvoice?: (jobId: string) => Promise<void> | void;
+  onUpdateInvoiceStatus?: (
+    invoiceId: string,
+    status: Exclude<InvoiceStatus, 'issued'>,
+    jobId: string
+  ) => Promise<void> | void;
+  onPrintDocument?: (kind: JobDocumentKind, jobId: string) => void;
+  onDownloadDocument?: (kind: JobDocumentKind, jobId: string) => void;
   onRefresh?: () => void;
 }
 
@@ -57,6 +124,7 @@ const STATUS_LABELS: Record<JobStatus, { label: string; className: string }> = {
   'incoming-call': { label: 'Incoming Call', className: 'bg-teal-100 text-teal-800' },
   scheduled: { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' },
   'in-progress': { label: 'In Progress', className: 'bg-indigo-100 text-indigo-800' },
+  'in-bay': { label: 'In Bay', className: 'bg-green-100 text-green-800' },
   'waiting-parts': { label: 'Waiting on Parts', className: 'bg-amber-100 text-amber-800' },
   completed: { label: 'Completed', className: 'bg-emerald-100 text-emerald-800' },
 };
@@ -74,17 +142,45 @@ const NOTE_TYPES: Array<{ value: NonNullable<JobNote['type']>; label: string }>
   { value: 'internal', label: 'Internal' },
 ];
 
-const INVOICE_PATTERN = /^[-/A-Za-z0-9]{1,20}$/;
-
 export function JobDetailsView({
   jobId,
   job,
+  statusHistory,
+  isHistoryLoading = false,
+  partsOrders = [],
+  isPartsLoading = false,
+  milestones = [],
+  isMilestonesLoading = false,
+  attachments = [],
+  isAttachmentsLoading = false,
+  mileageHistory = [],
+  segments = [],
+  billing = null,
+  isBillingLoading = false,
   isLoading = false,
   error = null,
   onRetry,
   onJobAction,
   onAddNote,
   onInvoiceChange,
+  onAddPartsOrder,
+  onUpdatePartsOrder,
+  onDeletePartsOrder,
+  onAddMilestone,
+  onUpdateMilestone,
+  onDeleteMilestone,
+  onAddAttachment,
+  onUploadAttachment,
+  onDeleteAttachment,
+  onRecordOdometer,
+  onStatusChange,
+  onSaveEstimate,
+  onApproveEstimate,
+  onDeclineEstimate,
+  onCreateInvoice,
+  onUpdateInvoiceStatus,
+  onPrintDocument,
+  onDownloadDocument,
   onRefresh,
 }: JobDetailsViewProps) {
   const [noteContent, setNoteContent] = useState('');
@@ -111,16 +207,6 @@ export function JobDetailsView({
     return null;
   }, [job]);
 
-  const milestoneProgress = useMemo(() => {
-    if (!job?.milestones?.length) {
-      return { completed: 0, total: 0, value: 0 };
-    }
-    const total = job.milestones.length;
-    const completed = job.milestones.filter((milestone) => milestone.status === 'completed').length;
-    const value = Math.round((completed / total) * 100);
-    return { completed, total, value };
-  }, [job?.milestones]);
-
   const handleJobAction = useCallback(
     (action: JobPanelAction) => {
       onJobAction?.(action, jobId);
@@ -164,7 +250,7 @@ export function JobDetailsView({
       return;
     }
 
-    if (!INVOICE_PATTERN.test(trimmed)) {
+    if (!isValidInvoiceNumber(trimmed)) {
       setInvoiceError('Use 1-20 characters: letters, numbers, dash, or slash.');
       return;
     }
@@ -228,6 +314,7 @@ export function JobDetailsView({
 
   const statusMeta = STATUS_LABELS[job.status];
   const priorityMeta = PRIORITY_LABELS[job.priority];
+  const hasInvoice = Boolean(billing?.invoices.some((invoice) => invoice.status !== 'void'));
 
   return (
     <div className="space-y-6">
@@ -264,6 +351,40 @@ export function JobDetailsView({
           </div>
           <div className="flex flex-col items-end gap-2">
             <div className="flex items-center gap-2">
+              {onPrintDocument || onDownloadDocument ? (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button size="sm" variant="outline">
+                      <Printer className="mr-2 h-4 w-4" /> Documents
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {onPrintDocument ? (
+                      <>
+                        <DropdownMenuLabel>Print</DropdownMenuLabel>
+                        <DropdownMenuItem onClick={() => onPrintDocument('work-order', jobId)}>
+                          <Printer className="mr-2 h-4 w-4" /> Work order
+                        </DropdownMenuItem>
+                        <DropdownMenuItem disabled={!hasInvoice} onClick={() => onPrintDocument('invoice', jobId)}>
+                          <Printer className="mr-2 h-4 w-4" /> Invoice
+                        </DropdownMenuItem>
+                      </>
+                    ) : null}
+                    {onPrintDocument && onDownloadDocument ? <DropdownMenuSeparator /> : null}
+                    {onDownloadDocument ? (
+                      <>
+                        <DropdownMenuLabel>PDF</DropdownMenuLabel>
+                        <DropdownMenuItem onClick={() => onDownloadDocument('work-order', jobId)}>
+                          <Download className="mr-2 h-4 w-4" /> Work order
+                        </DropdownMenuItem>
+                        <DropdownMenuItem disabled={!hasInvoice} onClick={() => onDownloadDocument('invoice', jobId)}>
+                          <Download className="mr-2 h-4 w-4" /> Invoice
+                        </DropdownMenuItem>
+                      </>
+                    ) : null}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              ) : null}
               {job.status !== 'completed' && (
                 <Button
                   size="sm"
@@ -310,13 +431,28 @@ export function JobDetailsView({
             value={formatDateTime(job.updatedAt)}
             icon={Clock}
           />
-          {job.appointment && (
+          {segments.length === 1 && (
             <DetailItem
               label="Appointment"
-              value={`${formatDateTime(job.appointment.startAt)} → ${formatDateTime(job.appointment.endAt)}`}
+              value={`${formatDateTime(segments[0].startAt)} → ${formatDateTime(segments[0].endAt)}`}
               icon={Calendar}
             />
           )}
+          {segments.length > 1 && segments.map((segment, index) => (
+            <DetailItem
+              key={segment.id}
+              label={`Appointment · ${formatSegmentLabel({ part: index + 1, total: segments.length })}`}
+              value={`${formatDateTime(segment.startAt)} → ${formatDateTime(segment.endAt)}`}
+              icon={Calendar}
+            />
+          ))}
+          {segments.length > 0 && (
+            <DetailItem
+              label="Booked Hours"
+              value={`${getBookedHours(segments)}h${job.estHours ? ` of ${job.estHours}h estimated` : ''}`}
+              icon={Clock}
+            />
+          )}
         </CardContent>
       </Card>
 
@@ -363,21 +499,72 @@ export function JobDetailsView({
         </Card>
       </div>
 
-      {job.milestones?.length ? (
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Progress value={milestoneProgress.value} className="h-2 w-24" />
-              Milestones ({milestoneProgress.completed}/{milestoneProgress.total})
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {job.milestones.map((milestone) => (
-              <MilestoneItem key={milestone.id} milestone={milestone} />
-            ))}
-          </CardContent>
-        </Card>
-      ) : null}
+      <JobOdometerSection
+        jobId={jobId}
+        checkIn={job.checkInOdometer}
+        checkOut={job.checkOutOdometer}
+        mileageHistory={mileageHistory}
+        onRecord={onRecordOdometer}
+      />
+
+      <JobPartsSection
+        jobId={jobId}
+        jobStatus={job.status}
+        orders={partsOrders}
+        isLoading={isPartsLoading}
+        onAdd={onAddPartsOrder}
+        onUpdate={onUpdatePartsOrder}
+        onDelete={onDeletePartsOrder}
+        onStatusChange={onStatusChange}
+      />
+
+      <JobBillingSection
+        jobId={jobId}
+        billing={billing}
+        partsOrders={partsOrders}
+        isLoading={isBillingLoading}
+        onSaveEstimate={onSaveEstimate}
+        onApproveEstimate={onApproveEstimate}
+        onDeclineEstimate={onDeclineEstimate}
+        onCreateInvoice={onCreateInvoice}
+        onUpdateInvoiceStatus={onUpdateInvoiceStatus}
+      />
+
+      <JobMilestonesSection
+        jobId={jobId}
+        milestones={milestones}
+        isLoading={isMilestonesLoading}
+        onAdd={onAddMilestone}
+        onUpdate={onUpdateMilestone}
+        onDelete={onDeleteMilestone}
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" /> Status Timeline
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isHistoryLoading ? (
+            <div className="space-y-2">
+              <SkeletonLine className="h-4 w-2/3" />
+              <SkeletonLine className="h-4 w-1/2" />
+            </div>
+          ) : statusHistory?.length ? (
+            <ol className="space-y-4 border-l pl-4">
+              {statusHistory
+                .slice()
+                .reverse()
+                .map((event) => (
+                  <StatusEventItem key={event.id} event={event} />
+                ))}
+            </ol>
+          ) : (
+            <EmptyState message="No status changes recorded yet." />
+          )}
+        </CardContent>
+      </Card>
 
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
@@ -487,18 +674,17 @@ export function JobDetailsView({
               {invoiceError ? <p className="text-xs text-destructive">{invoiceError}</p> : null}
             </div>
           </div>
-          {job.attachments?.length ? (
-            <div className="space-y-2">
-              <p className="text-xs uppercase tracking-wide text-muted-foreground">Attachments</p>
-              <div className="space-y-2">
-                {job.attachments.map((attachment) => (
-                  <AttachmentItem key={attachment.id} attachment={attachment} />
-                ))}
-              </div>
-            </div>
-          ) : null}
         </CardContent>
       </Card>
+
+      <JobAttachmentsSection
+        jobId={jobId}
+        attachments={attachments}
+        isLoading={isAttachmentsLoading}
+        onAdd={onAddAttachment}
+        onUpload={onUploadAttachment}
+        onDelete={onDeleteAttachment}
+      />
     </div>
   );
 }
@@ -541,43 +727,27 @@ function DetailLine({ label, value }: { label: string; value: string }) {
   );
 }
 
-function MilestoneItem({ milestone }: { milestone: JobMilestone }) {
-  const statusBadge = getMilestoneBadge(milestone.status);
+function StatusEventItem({ event }: { event: JobStatusEvent }) {
+  const toStatus = STATUS_LABELS[event.toStatus] ?? { label: event.toStatus, className: 'bg-slate-100 text-slate-800' };
+  const fromLabel = event.fromStatus ? STATUS_LABELS[event.fromStatus]?.label ?? event.fromStatus : null;
   return (
-    <div className="rounded-md border p-3">
+    <li className="relative">
+      <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full border-2 border-background bg-primary" />
       <div className="flex flex-wrap items-center justify-between gap-2">
-        <p className="font-medium text-sm text-foreground">{milestone.title}</p>
-        <Badge variant="outline" className={statusBadge.className}>
-          {statusBadge.label}
-        </Badge>
-      </div>
-      {milestone.description ? (
-        <p className="mt-1 text-sm text-muted-foreground">{milestone.description}</p>
-      ) : null}
-      <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
-        {milestone.completedAt ? (
-          <span>Completed {formatDistanceToNow(new Date(milestone.completedAt), { addSuffix: true })}</span>
-        ) : null}
-        {milestone.dueAt ? (
-          <span>Due {formatDateTime(milestone.dueAt)}</span>
-        ) : null}
-        {milestone.assignedTo ? <span>Assigned to {milestone.assignedTo}</span> : null}
+        <div className="flex items-center gap-2 text-sm">
+          {fromLabel ? <span className="text-muted-foreground">{fromLabel} →</span> : <span className="text-muted-foreground">Created as</span>}
+          <Badge variant="outline" className={toStatus.className}>
+            {toStatus.label}
+          </Badge>
+        </div>
+        <span className="text-xs text-muted-foreground">{formatDateTime(event.createdAt)}</span>
       </div>
-    </div>
+      {event.reason ? <p className="mt-1 text-sm text-foreground">{event.reason}</p> : null}
+      <p className="mt-1 text-xs text-muted-foreground">— {event.actor}</p>
+    </li>
   );
 }
 
-function getMilestoneBadge(status: JobMilestone['status']) {
-  switch (status) {
-    case 'completed':
-      return { label: 'Completed', className: 'bg-emerald-100 text-emerald-700' };
-    case 'in-progress':
-      return { label: 'In Progress', className: 'bg-indigo-100 text-indigo-700' };
-    default:
-      return { label: 'Pending', className: 'bg-slate-100 text-slate-700' };
-  }
-}
-
 function NoteItem({ note }: { note: JobNote }) {
   const typeLabel = NOTE_TYPES.find((item) => item.value === note.type)?.label ?? 'General';
   return (
@@ -601,22 +771,6 @@ function NoteItem({ note }: { note: JobNote }) {
   );
 }
 
-function AttachmentItem({ attachment }: { attachment: JobAttachment }) {
-  return (
-    <a
-      href={attachment.url}
-      className="flex items-center justify-between rounded border p-2 text-sm hover:bg-muted"
-      target="_blank"
-      rel="noreferrer"
-    >
-      <span>{attachment.label}</span>
-      <Badge variant="outline" className="bg-slate-100 text-slate-700">
-        {attachment.type === 'document' ? 'Document' : 'Link'}
-      </Badge>
-    </a>
-  );
-}
-
 function EmptyState({ message }: { message: string }) {
   return <p className="text-sm text-muted-foreground">{message}</p>;
 }
@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ListChecks, Plus, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { JOB_MILESTONE_STATUSES, getMilestoneProgress } from '@shared/job-milestones';
+import type {
+  CreateJobMilestoneData,
+  JobMilestone,
+  JobMilestoneStatus,
+  UpdateJobMilestoneData,
+} from '@/types';
+
+const MILESTONE_STATUS_LABELS: Record<JobMilestoneStatus, string> = {
+  pending: 'Pending',
+  'in-progress': 'In Progress',
+  completed: 'Completed',
+};
+
+const EMPTY_DRAFT = {
+  title: '',
+  dueAt: '',
+  assignedTo: '',
+};
+
+interface JobMilestonesSectionProps {
+  jobId: string;
+  milestones: JobMilestone[];
+  isLoading?: boolean;
+  onAdd?: (data: CreateJobMilestoneData, jobId: string) => Promise<void> | void;
+  onUpdate?: (milestoneId: string, data: UpdateJobMilestoneData, jobId: string) => Promise<void> | void;
+  onDelete?: (milestoneId: string, jobId: string) => Promise<void> | void;
+}
+
+export function JobMilestonesSection({
+  jobId,
+  milestones,
+  isLoading = false,
+  onAdd,
+  onUpdate,
+  onDelete,
+}: JobMilestonesSectionProps) {
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const progress = getMilestoneProgress(milestones);
+  const canSubmit = Boolean(onAdd && draft.title.trim());
+
+  const handleAdd = async () => {
+    if (!canSubmit || !onAdd) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onAdd(
+        {
+          title: draft.title.trim(),
+          // datetime-local values carry no offset; send the local time as an ISO timestamp
+          dueAt: draft.dueAt ? new Date(draft.dueAt).toISOString() : undefined,
+          assignedTo: draft.assignedTo.trim() || undefined,
+        },
+        jobId,
+      );
+      setDraft(EMPTY_DRAFT);
+    } catch (error) {
+      /* Mutation hook surfaces errors to the user */
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" /> Milestones
+        </CardTitle>
+        {progress.total ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Progress value={progress.value} className="h-2 w-24" />
+            {progress.completed}/{progress.total}
+          </div>
+        ) : null}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading milestones…</p>
+        ) : milestones.length ? (
+          <div className="space-y-3">
+            {milestones.map((milestone) => (
+              <MilestoneItem
+                key={milestone.id}
+                milestone={milestone}
+                onStatusChange={onUpdate ? (status) => onUpdate(milestone.id, { status }, jobId) : undefined}
+                onDelete={onDelete ? () => onDelete(milestone.id, jobId) : undefined}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No milestones set for this job.</p>
+        )}
+
+        {onAdd ? (
+          <div className="grid gap-3 rounded-md border border-dashed p-3 md:grid-cols-3">
+            <MilestoneField id="milestone-title" label="Milestone" value={draft.title} onChange={(title) => setDraft({ ...draft, title })} />
+            <MilestoneField id="milestone-due" label="Due" type="datetime-local" value={draft.dueAt} onChange={(dueAt) => setDraft({ ...draft, dueAt })} />
+            <MilestoneField id="milestone-assignee" label="Assigned to" value={draft.assignedTo} onChange={(assignedTo) => setDraft({ ...draft, assignedTo })} />
+            <div className="md:col-span-3 flex justify-end">
+              <Button size="sm" variant="outline" onClick={handleAdd} disabled={!canSubmit || isSubmitting}>
+                <Plus className="mr-2 h-4 w-4" /> {isSubmitting ? 'Adding…' : 'Add Milestone'}
+              </Button>
+            </div>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+function MilestoneItem({
+  milestone,
+  onStatusChange,
+  onDelete,
+}: {
+  milestone: JobMilestone;
+  onStatusChange?: (status: JobMilestoneStatus) => void;
+  onDelete?: () => void;
+}) {
+  const isCompleted = milestone.status === 'completed';
+  return (
+    <div className="rounded-md border p-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="flex items-start gap-2">
+          <Checkbox
+            id={`milestone-${milestone.id}`}
+            checked={isCompleted}
+            disabled={!onStatusChange}
+            onCheckedChange={(value) => onStatusChange?.(value ? 'completed' : 'pending')}
+            className="mt-0.5"
+          />
+          <Label
+            htmlFor={`milestone-${milestone.id}`}
+            className={cn('text-sm font-medium text-foreground', isCompleted && 'text-muted-foreground line-through')}
+          >
+            {milestone.title}
+          </Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={milestone.status}
+            onValueChange={(value) => onStatusChange?.(value as JobMilestoneStatus)}
+            disabled={!onStatusChange}
+          >
+            <SelectTrigger className="h-8 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {JOB_MILESTONE_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {MILESTONE_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {onDelete ? (
+            <Button variant="ghost" size="sm" onClick={onDelete} aria-label={`Remove ${milestone.title}`}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          ) : null}
+        </div>
+      </div>
+      {milestone.description ? (
+        <p className="mt-1 text-sm text-muted-foreground">{milestone.description}</p>
+      ) : null}
+      <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        {milestone.completedAt ? (
+          <span>Completed {formatDistanceToNow(new Date(milestone.completedAt), { addSuffix: true })}</span>
+        ) : null}
+        {milestone.dueAt ? <span>Due {formatDateTime(milestone.dueAt)}</span> : null}
+        {milestone.assignedTo ? <span>Assigned to {milestone.assignedTo}</span> : null}
+      </div>
+    </div>
+  );
+}
+
+function MilestoneField({
+  id,
+  label,
+  value,
+  onChange,
+  type = 'text',
+}: {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  type?: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs uppercase tracking-wide text-muted-foreground">
+        {label}
+      </Label>
+      <Input id={id} type={type} value={value} onChange={(event) => onChange(event.target.value)} className="h-8 text-sm" />
+    </div>
+  );
+}
+
+function formatDateTime(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : format(date, 'MMM d, yyyy • h:mm a');
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, Gauge } from 'lucide-react';
+import { getMileageRegressionWarning, getPreviousReading } from '@shared/mileage';
+import type {
+  MileageHistoryEntry,
+  OdometerReading,
+  OdometerReadingKind,
+  RecordOdometerData,
+} from '@/types';
+
+const READING_LABELS: Record<OdometerReadingKind, string> = {
+  'check-in': 'Check-in',
+  'check-out': 'Check-out',
+};
+
+interface JobOdometerSectionProps {
+  jobId: string;
+  checkIn?: OdometerReading;
+  checkOut?: OdometerReading;
+  // The vehicle's readings across its jobs, used to flag a lower reading before it is saved
+  mileageHistory?: MileageHistoryEntry[];
+  onRecord?: (data: RecordOdometerData, jobId: string) => Promise<void> | void;
+}
+
+export function JobOdometerSection({
+  jobId,
+  checkIn,
+  checkOut,
+  mileageHistory = [],
+  onRecord,
+}: JobOdometerSectionProps) {
+  const driven = checkIn && checkOut ? checkOut.mileage - checkIn.mileage : null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" /> Odometer
+        </CardTitle>
+        {driven !== null && driven >= 0 ? (
+          <span className="text-xs text-muted-foreground">{driven.toLocaleString()} mi during the visit</span>
+        ) : null}
+      </CardHeader>
+      <CardContent className="grid gap-4 md:grid-cols-2">
+        {(['check-in', 'check-out'] as const).map((kind) => (
+          <OdometerReadingField
+            key={kind}
+            jobId={jobId}
+            kind={kind}
+            reading={kind === 'check-in' ? checkIn : checkOut}
+            mileageHistory={mileageHistory}
+            onRecord={onRecord}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function OdometerReadingField({
+  jobId,
+  kind,
+  reading,
+  mileageHistory,
+  onRecord,
+}: {
+  jobId: string;
+  kind: OdometerReadingKind;
+  reading?: OdometerReading;
+  mileageHistory: MileageHistoryEntry[];
+  onRecord?: (data: RecordOdometerData, jobId: string) => Promise<void> | void;
+}) {
+  const [value, setValue] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const mileage = value.trim() ? Number(value) : null;
+  const isValid = mileage !== null && Number.isInteger(mileage) && mileage >= 0;
+  const previous = getPreviousReading(mileageHistory, new Date().toISOString(), { jobId, kind });
+  const warning = isValid ? getMileageRegressionWarning(mileage, previous) : null;
+  const inputId = `odometer-${kind}`;
+
+  const handleRecord = async () => {
+    if (!onRecord || !isValid) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onRecord({ kind, mileage }, jobId);
+      setValue('');
+    } catch (error) {
+      /* Mutation hook surfaces errors to the user */
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-baseline justify-between gap-2">
+        <Label htmlFor={inputId} className="text-xs uppercase tracking-wide text-muted-foreground">
+          {READING_LABELS[kind]}
+        </Label>
+        {reading ? (
+          <span className="text-xs text-muted-foreground">
+            {format(new Date(reading.recordedAt), 'MMM d, h:mm a')}
+            {reading.recordedBy ? ` • ${reading.recordedBy}` : ''}
+          </span>
+        ) : null}
+      </div>
+      <p className="text-lg font-semibold text-foreground">
+        {reading ? `${reading.mileage.toLocaleString()} mi` : 'Not recorded'}
+      </p>
+      {onRecord ? (
+        <div className="flex gap-2">
+          <Input
+            id={inputId}
+            type="number"
+            min={0}
+            step={1}
+            inputMode="numeric"
+            placeholder={previous ? `Last: ${previous.mileage.toLocaleString()}` : 'Miles'}
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+          />
+          <Button size="sm" variant="outline" onClick={handleRecord} disabled={!isValid || isSubmitting}>
+            {isSubmitting ? 'Saving…' : reading ? 'Update' : 'Record'}
+          </Button>
+        </div>
+      ) : null}
+      {warning ? (
+        <p className="flex items-start gap-1 text-xs text-amber-700">
+          <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" /> {warning}
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle2, Package, Plus, Trash2 } from 'lucide-react';
+import { areAllPartsReceived, getPartsOrderTotal, isPartsOrderOverdue } from '@shared/parts-orders';
+import type { CreatePartsOrderData, JobStatus, PartsOrder, PartsOrderStatus, UpdatePartsOrderData } from '@/types';
+
+const PARTS_STATUS_LABELS: Record<PartsOrderStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-slate-100 text-slate-700' },
+  ordered: { label: 'Ordered', className: 'bg-blue-100 text-blue-800' },
+  backordered: { label: 'Backordered', className: 'bg-amber-100 text-amber-800' },
+  received: { label: 'Received', className: 'bg-emerald-100 text-emerald-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-slate-100 text-slate-500 line-through' },
+};
+
+const EMPTY_DRAFT = {
+  supplier: '',
+  partNumber: '',
+  description: '',
+  quantity: '1',
+  unitCost: '',
+  expectedAt: '',
+};
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+
+interface JobPartsSectionProps {
+  jobId: string;
+  jobStatus: JobStatus;
+  orders: PartsOrder[];
+  isLoading?: boolean;
+  onAdd?: (data: CreatePartsOrderData, jobId: string) => Promise<void> | void;
+  onUpdate?: (orderId: string, data: UpdatePartsOrderData, jobId: string) => Promise<void> | void;
+  onDelete?: (orderId: string, jobId: string) => Promise<void> | void;
+  onStatusChange?: (status: JobStatus, jobId: string) => Promise<void> | void;
+}
+
+export function JobPartsSection({
+  jobId,
+  jobStatus,
+  orders,
+  isLoading = false,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onStatusChange,
+}: JobPartsSectionProps) {
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const quantity = Number.parseInt(draft.quantity, 10);
+  const unitCost = Number.parseFloat(draft.unitCost);
+  const canSubmit = Boolean(
+    onAdd && draft.supplier.trim() && draft.partNumber.trim() && quantity > 0 && unitCost >= 0,
+  );
+  const readyForBay = jobStatus === 'waiting-parts' && areAllPartsReceived(orders);
+
+  const handleAdd = async () => {
+    if (!canSubmit || !onAdd) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onAdd(
+        {
+          supplier: draft.supplier.trim(),
+          partNumber: draft.partNumber.trim(),
+          description: draft.description.trim() || undefined,
+          quantity,
+          unitCost,
+          expectedAt: draft.expectedAt || undefined,
+          status: 'ordered',
+        },
+        jobId,
+      );
+      setDraft(EMPTY_DRAFT);
+    } catch (error) {
+      /* Mutation hook surfaces errors to the user */
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <Package className="h-5 w-5" /> Parts
+        </CardTitle>
+        {orders.length ? (
+          <span className="text-xs text-muted-foreground">
+            {orders.length} order{orders.length === 1 ? '' : 's'} • {currency.format(getPartsOrderTotal(orders))}
+          </span>
+        ) : null}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {readyForBay && onStatusChange ? (
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border border-emerald-200 bg-emerald-50 p-3">
+            <p className="flex items-center gap-2 text-sm text-emerald-800">
+              <CheckCircle2 className="h-4 w-4" /> All parts have been received. Move the job back to In Bay?
+            </p>
+            <Button size="sm" onClick={() => onStatusChange('in-bay', jobId)}>
+              Move to In Bay
+            </Button>
+          </div>
+        ) : null}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading parts orders…</p>
+        ) : orders.length ? (
+          <div className="space-y-3">
+            {orders.map((order) => (
+              <PartsOrderItem
+                key={order.id}
+                order={order}
+                onStatusChange={onUpdate ? (status) => onUpdate(order.id, { status }, jobId) : undefined}
+                onDelete={onDelete ? () => onDelete(order.id, jobId) : undefined}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No parts ordered for this job.</p>
+        )}
+
+        {onAdd ? (
+          <div className="grid gap-3 rounded-md border border-dashed p-3 md:grid-cols-3">
+            <PartsField id="parts-supplier" label="Supplier" value={draft.supplier} onChange={(supplier) => setDraft({ ...draft, supplier })} />
+            <PartsField id="parts-number" label="Part #" value={draft.partNumber} onChange={(partNumber) => setDraft({ ...draft, partNumber })} />
+            <PartsField id="parts-description" label="Description" value={draft.description} onChange={(description) => setDraft({ ...draft, description })} />
+            <PartsField id="parts-quantity" label="Qty" type="number" value={draft.quantity} onChange={(value) => setDraft({ ...draft, quantity: value })} />
+            <PartsField id="parts-cost" label="Unit cost" type="number" step="0.01" value={draft.unitCost} onChange={(value) => setDraft({ ...draft, unitCost: value })} />
+            <PartsField id="parts-expected" label="Expected" type="date" value={draft.expectedAt} onChange={(expectedAt) => setDraft({ ...draft, expectedAt })} />
+            <div className="md:col-span-3 flex justify-end">
+              <Button size="sm" variant="outline" onClick={handleAdd} disabled={!canSubmit || isSubmitting}>
+                <Plus className="mr-2 h-4 w-4" /> {isSubmitting ? 'Ordering…' : 'Add Part'}
+              </Button>
+            </div>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PartsOrderItem({
+  order,
+  onStatusChange,
+  onDelete,
+}: {
+  order: PartsOrder;
+  onStatusChange?: (status: PartsOrderStatus) => void;
+  onDelete?: () => void;
+}) {
+  const overdue = isPartsOrderOverdue(order);
+  return (
+    <div className="rounded-md border p-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium text-foreground">
+            <span className="font-mono">{order.partNumber}</span>
+            {order.description ? ` — ${order.description}` : null}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {order.supplier} • {order.quantity} × {currency.format(order.unitCost)}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={order.status}
+            onValueChange={(value) => onStatusChange?.(value as PartsOrderStatus)}
+            disabled={!onStatusChange}
+          >
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PARTS_STATUS_LABELS) as PartsOrderStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {PARTS_STATUS_LABELS[status].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {onDelete ? (
+            <Button variant="ghost" size="sm" onClick={onDelete} aria-label={`Remove ${order.partNumber}`}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          ) : null}
+        </div>
+      </div>
+      <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        {order.orderedAt ? <span>Ordered {formatDate(order.orderedAt)}</span> : null}
+        {order.receivedAt ? (
+          <span>Received {formatDate(order.receivedAt)}</span>
+        ) : order.expectedAt ? (
+          <span className={overdue ? 'font-medium text-destructive' : undefined}>
+            Expected {formatDate(order.expectedAt)}
+          </span>
+        ) : null}
+        {overdue ? (
+          <Badge variant="outline" className="bg-red-100 text-red-700">
+            Overdue
+          </Badge>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function PartsField({
+  id,
+  label,
+  value,
+  onChange,
+  type = 'text',
+  step,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  type?: string;
+  step?: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs uppercase tracking-wide text-muted-foreground">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type={type}
+        value={value}
+        min={type === 'number' ? 0 : undefined}
+        step={step}
+        onChange={(event) => onChange(event.target.value)}
+        className="h-8 text-sm"
+      />
+    </div>
+  );
+}
+
+// Parts dates are calendar dates; parse them as local days rather than UTC midnight
+function formatDate(value: string): string {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return Number.isNaN(date.getTime()) ? value : format(date, 'MMM d, yyyy');
+}
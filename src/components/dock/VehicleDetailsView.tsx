@@ -6,21 +6,28 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Textarea } from '@/components/ui/textarea';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
 import {
   AlertTriangle,
   Car,
   Clock,
   FileText,
+  Gauge,
+  Images,
   MapPin,
   RefreshCcw,
   User,
   Wrench,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { AttachmentGallery } from '@/components/dock/AttachmentGallery';
+import { projectMileage } from '@shared/mileage';
 import type {
   Job,
+  JobAttachment,
   ServiceHistoryEntry,
   VehicleAlert,
+  VehicleMileageHistory,
   VehicleNote,
   VehicleWithHistory,
 } from '@/types';
@@ -28,6 +35,10 @@ import type {
 interface VehicleDetailsViewProps {
   vehicleId: string;
   vehicle?: VehicleWithHistory | null;
+  attachments?: JobAttachment[];
+  isAttachmentsLoading?: boolean;
+  mileageHistory?: VehicleMileageHistory | null;
+  isMileageLoading?: boolean;
   isLoading?: boolean;
   error?: string | null;
   onRetry?: () => void;
@@ -42,6 +53,10 @@ export interface VehicleNotePayload {
 export function VehicleDetailsView({
   vehicleId,
   vehicle,
+  attachments = [],
+  isAttachmentsLoading = false,
+  mileageHistory = null,
+  isMileageLoading = false,
   isLoading = false,
   error = null,
   onRetry,
@@ -197,6 +212,28 @@ export function VehicleDetailsView({
         </Card>
       </div>
 
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" /> Mileage History
+          </CardTitle>
+          {mileageHistory?.averageMilesPerDay != null ? (
+            <span className="text-xs text-muted-foreground">
+              {mileageHistory.averageMilesPerDay.toLocaleString()} mi/day average
+            </span>
+          ) : null}
+        </CardHeader>
+        <CardContent>
+          {isMileageLoading ? (
+            <SkeletonLine className="h-40 w-full" />
+          ) : mileageHistory?.readings.length ? (
+            <MileageHistoryChart history={mileageHistory} />
+          ) : (
+            <EmptyState message="No odometer readings yet. They are recorded when a job checks the vehicle in or out." />
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -216,6 +253,32 @@ export function VehicleDetailsView({
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Images className="h-5 w-5" /> Photos &amp; Documents
+          </CardTitle>
+          {attachments.length ? (
+            <span className="text-xs text-muted-foreground">
+              {attachments.length} attachment{attachments.length === 1 ? '' : 's'}
+            </span>
+          ) : null}
+        </CardHeader>
+        <CardContent>
+          {isAttachmentsLoading ? (
+            <div className="grid grid-cols-3 gap-2">
+              <SkeletonLine className="aspect-square" />
+              <SkeletonLine className="aspect-square" />
+              <SkeletonLine className="aspect-square" />
+            </div>
+          ) : attachments.length ? (
+            <AttachmentGallery attachments={attachments} />
+          ) : (
+            <EmptyState message="No photos or documents from this vehicle's jobs yet." />
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -378,6 +441,37 @@ function ServiceHistoryItem({ entry }: { entry: ServiceHistoryEntry }) {
   );
 }
 
+function MileageHistoryChart({ history }: { history: VehicleMileageHistory }) {
+  const data = history.readings.map((reading) => ({
+    date: format(new Date(reading.recordedAt), 'MMM d, yyyy'),
+    mileage: reading.mileage,
+    label: `${reading.jobTitle} (${reading.kind})`,
+  }));
+  const projected = projectMileage(history);
+
+  return (
+    <div className="space-y-3">
+      <ResponsiveContainer width="100%" height={200}>
+        <LineChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="date" tick={{ fontSize: 11 }} />
+          <YAxis tick={{ fontSize: 11 }} tickFormatter={(value: number) => value.toLocaleString()} domain={['auto', 'auto']} />
+          <Tooltip
+            formatter={(value) => [`${Number(value).toLocaleString()} mi`, 'Odometer']}
+            labelFormatter={(label, payload) => `${label} • ${payload?.[0]?.payload?.label ?? ''}`}
+          />
+          <Line type="monotone" dataKey="mileage" stroke="#7c3aed" strokeWidth={2} dot />
+        </LineChart>
+      </ResponsiveContainer>
+      <div className="grid gap-3 text-xs text-muted-foreground md:grid-cols-3">
+        <span>Readings: {history.readings.length}</span>
+        <span>Last: {history.readings[history.readings.length - 1].mileage.toLocaleString()} mi</span>
+        <span>Estimated today: {projected !== null ? `${projected.toLocaleString()} mi` : '—'}</span>
+      </div>
+    </div>
+  );
+}
+
 function VehicleNoteItem({ note }: { note: VehicleNote }) {
   return (
     <div className="rounded-md border p-3">
@@ -44,19 +44,17 @@ import {
 } from 'lucide-react';
 import { useCreateCustomer, useUpdateCustomer } from '@/hooks/use-customers';
 import { useUIStore } from '@/stores';
+import { getFieldErrors } from '@/lib/api-client';
+import { customerSchema } from '@shared/schemas';
 import type { Customer, CreateCustomerData, UpdateCustomerData } from '@/types/database';
 
-// Form validation schema
-const customerFormSchema = z.object({
-  name: z.string().min(1, 'Customer name is required').max(100, 'Name too long'),
-  phone: z.string().min(10, 'Phone number must be at least 10 digits').max(15, 'Phone number too long'),
-  email: z.string().email('Invalid email address').optional().or(z.literal('')),
-  address: z.string().optional(),
+// Form validation schema: the API's customer fields plus details the form collects for later
+const customerFormSchema = customerSchema.pick({ name: true, phone: true, email: true, address: true }).extend({
   // Additional contact information
   alternatePhone: z.string().optional(),
   company: z.string().optional(),
   // Preferences and notes
-  preferredContactMethod: z.enum(['phone', 'email']).default('phone'),
+  preferredContactMethod: customerSchema.shape.preferredContact.default('phone'),
   notes: z.string().optional(),
   // Emergency contact
   emergencyContactName: z.string().optional(),
@@ -191,6 +189,10 @@ export function CustomerForm({ isOpen, onClose, customer }: CustomerFormProps) {
       onClose();
       form.reset();
     } catch (error) {
+      // Point at the fields the server rejected
+      Object.entries(getFieldErrors(error) ?? {}).forEach(([field, message]) => {
+        form.setError(field as keyof CustomerFormData, { message });
+      });
       addToast({
         type: 'error',
         title: isEditMode ? 'Failed to Update Customer' : 'Failed to Create Customer',
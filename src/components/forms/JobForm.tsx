@@ -52,35 +52,41 @@ import {
   UserPlus,
   CarFront,
   Plus,
-  Trash2
+  Archive
 } from 'lucide-react';
 import { useCustomers, useCreateCustomer } from '@/hooks/use-customers';
 import { useVehicles, useCreateVehicle } from '@/hooks/use-vehicles';
 import { useCreateJob, useUpdateJob, useDeleteJob } from '@/hooks/use-jobs';
 import { useCreateCall } from '@/hooks/use-calls';
+import { useTechnicians } from '@/hooks/use-technicians';
+import { UNASSIGNED_TECHNICIAN } from '@/lib/technicians';
+import { BAY_CAPABILITIES, BAY_CAPABILITY_DETAILS } from '@shared/bays';
 import { useUIStore } from '@/stores';
 import { JobStatusTransitionService } from '@/lib/job-status-transitions';
 import { GlobalCustomerSearch } from '@/components/search/GlobalCustomerSearch';
+import { callSchema, customerSchema, jobSchema } from '@shared/schemas';
 import type { Job, JobStatus, JobPriority, CreateJobData, UpdateJobData, Customer, Vehicle, CreateCustomerData, CreateVehicleData, CreateCallData } from '@/types/database';
 
-const invoiceNumberPattern = /^[-/A-Za-z0-9]{1,20}$/;
-
-// Form validation schema
-const jobFormSchema = z.object({
-  title: z.string().min(1, 'Job title is required').max(100, 'Title too long'),
+// Form validation schema: the API's job fields, with the customer and vehicle either picked or
+// created inline, plus the intake call details
+const jobFormSchema = jobSchema.pick({
+  title: true,
+  estHours: true,
+  priority: true,
+  status: true,
+  notes: true,
+  invoiceNumber: true,
+  technicianId: true,
+  requiredCapabilities: true,
+}).extend({
   customerId: z.string().optional(),
   vehicleId: z.string().optional(),
-  estHours: z.number().min(0.5, 'Minimum 0.5 hours').max(40, 'Maximum 40 hours'),
-  priority: z.enum(['low', 'medium', 'high']),
-  status: z.enum(['intake', 'incoming-call', 'scheduled', 'in-progress', 'in-bay', 'waiting-parts', 'completed']),
-  notes: z.string().optional(),
-  invoiceNumber: z.union([z.string().regex(invoiceNumberPattern, 'Use 1-20 characters: letters, numbers, dash, or slash.'), z.literal('')]).optional(),
   
   // Customer creation fields
   isNewCustomer: z.boolean().default(false),
   customerName: z.string().optional(),
   customerPhone: z.string().optional(),
-  customerEmail: z.string().email().optional().or(z.literal('')),
+  customerEmail: customerSchema.shape.email,
   customerAddress: z.string().optional(),
   
   // Vehicle creation fields
@@ -95,7 +101,7 @@ const jobFormSchema = z.object({
   
   // Intake-specific fields
   isIntakeMode: z.boolean().default(false),
-  callOutcome: z.enum(['scheduled', 'quote-requested', 'follow-up', 'no-action', 'transferred', 'incomplete']).optional(),
+  callOutcome: callSchema.shape.callOutcome.optional(),
   complaintDescription: z.string().optional(),
   customerConcerns: z.array(z.string()).default([]),
   followUpRequired: z.boolean().default(false),
@@ -165,10 +171,15 @@ export function JobForm({
   const { mutateAsync: createCustomer } = useCreateCustomer();
   const { mutateAsync: createVehicle } = useCreateVehicle();
   const { mutateAsync: createCall } = useCreateCall();
+  const { data: techniciansResponse } = useTechnicians();
   const { addToast } = useUIStore();
 
   const customers = customersResponse?.data || [];
   const vehicles = vehiclesResponse?.data || [];
+  // Inactive technicians stay listed only when already assigned to this job
+  const technicians = (techniciansResponse?.data || []).filter(
+    (technician) => technician.isActive || technician.id === job?.technicianId
+  );
 
   // Form setup
   const form = useForm<JobFormData>({
@@ -182,6 +193,8 @@ export function JobForm({
       status: job?.status || initialStatus,
       notes: job?.notes || '',
       invoiceNumber: job?.invoiceNumber || '',
+      technicianId: job?.technicianId || UNASSIGNED_TECHNICIAN,
+      requiredCapabilities: job?.requiredCapabilities ?? [],
       
       // Customer fields
       isNewCustomer: !job?.customerId && !initialCustomer,
@@ -229,6 +242,8 @@ export function JobForm({
         status: job.status,
         notes: job.notes || '',
         invoiceNumber: job.invoiceNumber || '',
+        technicianId: job.technicianId || UNASSIGNED_TECHNICIAN,
+        requiredCapabilities: job.requiredCapabilities ?? [],
         
         // Customer fields
         isNewCustomer: false,
@@ -272,6 +287,8 @@ export function JobForm({
         status: initialStatus,
         notes: '',
         invoiceNumber: '',
+        technicianId: UNASSIGNED_TECHNICIAN,
+        requiredCapabilities: [],
         
         // Customer fields
         isNewCustomer: !initialCustomer,
@@ -325,6 +342,9 @@ export function JobForm({
       let finalVehicleId = data.vehicleId || undefined;
       const normalizedInvoiceInput = data.invoiceNumber?.trim() ?? '';
       const invoiceNumberForPayload = normalizedInvoiceInput === '' ? undefined : normalizedInvoiceInput;
+      const technicianIdForPayload = data.technicianId && data.technicianId !== UNASSIGNED_TECHNICIAN
+        ? data.technicianId
+        : undefined;
 
       if (isEditMode && job) {
         // Update existing job
@@ -336,6 +356,9 @@ export function JobForm({
           priority: data.priority,
           notes: data.notes || undefined,
           invoiceNumber: invoiceNumberForPayload,
+          // An empty id clears the assignment
+          technicianId: technicianIdForPayload ?? '',
+          requiredCapabilities: data.requiredCapabilities ?? [],
         };
 
         await updateJob({ id: job.id, data: updateData });
@@ -404,6 +427,8 @@ export function JobForm({
           status: data.status,
           notes: data.notes || undefined,
           invoiceNumber: invoiceNumberForPayload,
+          technicianId: technicianIdForPayload,
+          requiredCapabilities: data.requiredCapabilities?.length ? data.requiredCapabilities : undefined,
         };
 
         const jobResponse = await createJob(createData);
@@ -475,8 +500,8 @@ export function JobForm({
       
       addToast({
         type: 'success',
-        title: 'Job Deleted',
-        message: `${job.title} has been deleted successfully`,
+        title: 'Job Archived',
+        message: `${job.title} has been archived`,
         duration: 3000,
       });
 
@@ -486,7 +511,7 @@ export function JobForm({
     } catch (error) {
       addToast({
         type: 'error',
-        title: 'Failed to Delete Job',
+        title: 'Failed to Archive Job',
         message: error instanceof Error ? error.message : 'An unexpected error occurred',
         duration: 5000,
       });
@@ -1088,6 +1113,68 @@ export function JobForm({
                     )}
                   />
 
+                  <FormField
+                    control={form.control}
+                    name="technicianId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Technician</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value || UNASSIGNED_TECHNICIAN}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Unassigned" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={UNASSIGNED_TECHNICIAN}>Unassigned</SelectItem>
+                            {technicians.map((technician) => (
+                              <SelectItem key={technician.id} value={technician.id}>
+                                {technician.name}
+                                {technician.skills.length > 0 && (
+                                  <span className="ml-2 text-xs text-muted-foreground">
+                                    {technician.skills.join(', ')}
+                                  </span>
+                                )}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="requiredCapabilities"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Bay Requirements</FormLabel>
+                        <div className="space-y-2">
+                          {BAY_CAPABILITIES.map((capability) => (
+                            <div key={capability} className="flex flex-row items-center space-x-3">
+                              <Checkbox
+                                id={`job-capability-${capability}`}
+                                checked={field.value?.includes(capability) ?? false}
+                                onCheckedChange={(checked) => {
+                                  const others = (field.value ?? []).filter((item) => item !== capability);
+                                  field.onChange(checked === true ? [...others, capability] : others);
+                                }}
+                              />
+                              <label htmlFor={`job-capability-${capability}`} className="text-sm font-normal">
+                                {BAY_CAPABILITY_DETAILS[capability].label}
+                              </label>
+                            </div>
+                          ))}
+                        </div>
+                        <FormDescription>
+                          The job can only be booked into bays with this equipment
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <FormField
                     control={form.control}
                     name="estimatedCost"
@@ -1183,8 +1270,8 @@ export function JobForm({
                   disabled={isSubmitting}
                   className="border-red-500 text-red-500 hover:bg-red-50 hover:text-red-600 hover:border-red-600"
                 >
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  Delete Job
+                  <Archive className="h-4 w-4 mr-2" />
+                  Archive Job
                 </Button>
               )}
             </div>
@@ -1218,9 +1305,10 @@ export function JobForm({
         <Dialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Delete Job</DialogTitle>
+              <DialogTitle>Archive Job</DialogTitle>
               <DialogDescription>
-                Are you sure you want to delete "{job?.title}"? This action cannot be undone.
+                Are you sure you want to archive "{job?.title}"? It drops out of lists along with its
+                appointments and can be restored from Settings → Archived.
               </DialogDescription>
             </DialogHeader>
             <DialogFooter>
@@ -1242,12 +1330,12 @@ export function JobForm({
                 {isSubmitting ? (
                   <>
                     <div className="animate-spin h-4 w-4 mr-2 border-2 border-primary-foreground/20 border-t-primary-foreground rounded-full" />
-                    Deleting...
+                    Archiving...
                   </>
                 ) : (
                   <>
-                    <Trash2 className="h-4 w-4 mr-2" />
-                    Delete Job
+                    <Archive className="h-4 w-4 mr-2" />
+                    Archive Job
                   </>
                 )}
               </Button>
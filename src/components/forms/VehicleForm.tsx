@@ -45,28 +45,19 @@ import {
 import { useCreateVehicle, useUpdateVehicle } from '@/hooks/use-vehicles';
 import { useCustomers } from '@/hooks/use-customers';
 import { useUIStore } from '@/stores';
+import { getDuplicateVinVehicle, getFieldErrors } from '@/lib/api-client';
+import { vehicleSchema } from '@shared/schemas';
+import { VIN_LENGTH, decodeVin, normalizeVin } from '@shared/vin';
 import type { Vehicle, CreateVehicleData, UpdateVehicleData, Customer } from '@/types/database';
 
-// Form validation schema
-const vehicleFormSchema = z.object({
-  // Basic vehicle information
-  customerId: z.string().min(1, 'Customer is required'),
-  year: z.number().min(1900, 'Invalid year').max(new Date().getFullYear() + 2, 'Invalid year'),
-  make: z.string().min(1, 'Make is required').max(50, 'Make too long'),
-  model: z.string().min(1, 'Model is required').max(50, 'Model too long'),
-  
-  // Vehicle identification
-  vin: z.string().optional(),
-  licensePlate: z.string().optional(),
-  color: z.string().optional(),
-  
+// Form validation schema: the API's vehicle fields plus details the form collects for later
+const vehicleFormSchema = vehicleSchema.extend({
   // Engine and specifications
   engine: z.string().optional(),
   transmission: z.enum(['manual', 'automatic', 'cvt', 'dual-clutch']).optional(),
   fuelType: z.enum(['gasoline', 'diesel', 'hybrid', 'electric', 'flex-fuel']).optional(),
   
-  // Mileage and condition
-  mileage: z.number().min(0, 'Mileage cannot be negative').optional(),
+  // Condition
   condition: z.enum(['excellent', 'good', 'fair', 'poor']).optional(),
   
   // Insurance and registration
@@ -194,7 +185,8 @@ export function VehicleForm({ isOpen, onClose, vehicle, customerId }: VehicleFor
           year: data.year,
           make: data.make,
           model: data.model,
-          vin: data.vin || undefined,
+          // Sent even when blank so clearing the field removes the VIN on file
+          vin: data.vin ?? '',
           licensePlate: data.licensePlate || undefined,
           mileage: data.mileage || undefined,
         };
@@ -232,6 +224,17 @@ export function VehicleForm({ isOpen, onClose, vehicle, customerId }: VehicleFor
       onClose();
       form.reset();
     } catch (error) {
+      // Point at the fields the server rejected
+      const fieldErrors = { ...getFieldErrors(error) };
+      if (getDuplicateVinVehicle(error) && error instanceof Error) {
+        fieldErrors.vin = error.message;
+      }
+      Object.entries(fieldErrors).forEach(([field, message]) => {
+        form.setError(field as keyof VehicleFormData, { message });
+      });
+      if (fieldErrors.vin) {
+        setActiveSection('identification');
+      }
       addToast({
         type: 'error',
         title: isEditMode ? 'Failed to Update Vehicle' : 'Failed to Add Vehicle',
@@ -243,6 +246,33 @@ export function VehicleForm({ isOpen, onClose, vehicle, customerId }: VehicleFor
     }
   };
 
+  // Year, make and model the VIN decodes to replace only values the user hasn't typed themselves,
+  // and in edit mode only fill in blanks
+  const canPrefill = (name: 'year' | 'make' | 'model') => (
+    !form.getFieldState(name).isDirty && (!isEditMode || !form.getValues(name))
+  );
+
+  const handleVinChange = (value: string, onChange: (value: string) => void) => {
+    const vin = normalizeVin(value);
+    onChange(vin);
+    if (vin.length !== VIN_LENGTH) {
+      return;
+    }
+
+    // Surfaces a check-digit mismatch as soon as the last character is typed
+    void form.trigger('vin');
+    const decoded = decodeVin(vin);
+    if (decoded?.modelYear && canPrefill('year')) {
+      form.setValue('year', decoded.modelYear, { shouldValidate: true });
+    }
+    if (decoded?.make && canPrefill('make')) {
+      form.setValue('make', decoded.make, { shouldValidate: true });
+    }
+    if (decoded?.model && canPrefill('model')) {
+      form.setValue('model', decoded.model, { shouldValidate: true });
+    }
+  };
+
   const handleClose = () => {
     form.reset();
     setActiveSection('basic');
@@ -253,6 +283,7 @@ export function VehicleForm({ isOpen, onClose, vehicle, customerId }: VehicleFor
   const formState = form.formState;
   const hasErrors = Object.keys(formState.errors).length > 0;
   const isDirty = formState.isDirty;
+  const decodedVin = decodeVin(form.watch('vin') ?? '');
 
   // Section completion status
   const sectionStatus = {
@@ -552,13 +583,18 @@ export function VehicleForm({ isOpen, onClose, vehicle, customerId }: VehicleFor
                             <FormLabel>VIN (Vehicle Identification Number)</FormLabel>
                             <FormControl>
                               <Input 
-                                placeholder="1HGCM82633A123456" 
+                                placeholder="1HGCM82673A123456" 
                                 {...field} 
+                                onChange={(event) => handleVinChange(event.target.value, field.onChange)}
                                 className="font-mono"
                               />
                             </FormControl>
                             <FormDescription>
-                              17-character unique vehicle identifier
+                              {decodedVin
+                                ? `Decoded: ${[decodedVin.modelYear, decodedVin.make ?? 'Unknown make', decodedVin.model]
+                                  .filter(Boolean)
+                                  .join(' ')}${decodedVin.country ? ` (${decodedVin.country})` : ''}`
+                                : '17-character unique vehicle identifier; year, make and model are filled in from it'}
                             </FormDescription>
                             <FormMessage />
                           </FormItem>
@@ -27,9 +27,13 @@ import { KanbanColumn } from './KanbanColumn';
 import { KanbanCard } from './KanbanCard';
 import './kanban.css';
 import { useJobs, useUpdateJobStatus } from '@/hooks/use-jobs';
+import { appointmentApi } from '@/lib/api-client';
+import { getCurrentSegment, getEndSegmentPrompt } from '@shared/appointment-segments';
+import { useTechnicians } from '@/hooks/use-technicians';
+import { UNASSIGNED_TECHNICIAN, matchesTechnicianFilter } from '@/lib/technicians';
 import { useUIStore } from '@/stores';
 import { JobStatusTransitionService, isStatusTransitionValid, getStatusLabel } from '@/lib/job-status-transitions';
-import type { Job, JobStatus } from '@/types/database';
+import type { Job, JobStatus, StatusOverride } from '@/types/database';
 
 interface KanbanBoardProps {
   onJobClick?: (job: Job) => void;
@@ -97,10 +101,12 @@ export function KanbanBoard({
   const [searchQuery, setSearchQuery] = useState('');
   const [filterPriority, setFilterPriority] = useState<string>('all');
   const [invoiceFilter, setInvoiceFilter] = useState('');
+  const [technicianFilter, setTechnicianFilter] = useState<string>('all');
 
   // Hooks
   const { data: jobsResponse, isLoading } = useJobs();
   const { mutateAsync: updateJobStatus } = useUpdateJobStatus();
+  const { data: techniciansResponse } = useTechnicians();
   const { addToast } = useUIStore();
 
   // Drag and drop sensors
@@ -116,6 +122,7 @@ export function KanbanBoard({
   );
 
   const jobs = jobsResponse?.data || [];
+  const technicians = techniciansResponse?.data ?? [];
 
   // Filter and group jobs by status
   const filteredJobs = useMemo(() => {
@@ -132,9 +139,11 @@ export function KanbanBoard({
       const matchesInvoice = !invoiceNeedle ||
         (job.invoiceNumber && job.invoiceNumber.toLowerCase().includes(invoiceNeedle));
 
-      return matchesSearch && matchesPriority && matchesInvoice;
+      const matchesTechnician = matchesTechnicianFilter(job.technicianId, technicianFilter);
+
+      return matchesSearch && matchesPriority && matchesInvoice && matchesTechnician;
     });
-  }, [jobs, searchQuery, filterPriority, invoiceFilter]);
+  }, [jobs, searchQuery, filterPriority, invoiceFilter, technicianFilter]);
 
   const jobsByStatus = useMemo(() => {
     const grouped = KANBAN_COLUMNS.reduce((acc, column) => {
@@ -165,7 +174,18 @@ export function KanbanBoard({
 
     // Validate transition using the service
     const transition = JobStatusTransitionService.validateTransition(job.status, newStatus, job);
-    if (!transition || !transition.isValid) {
+
+    // Supervisor-only transitions (e.g. reopening a completed job) need an override reason
+    let override: StatusOverride | undefined;
+    if (transition?.requiresOverride) {
+      const reason = window.prompt(`${transition.warningMessage ?? 'This move requires supervisor approval'}. Enter an override reason:`);
+      if (!reason?.trim()) {
+        return;
+      }
+      override = { reason: reason.trim() };
+    }
+
+    if (!transition || (!transition.isValid && !override)) {
       addToast({
         type: 'error',
         title: 'Invalid Status Transition',
@@ -205,7 +225,15 @@ export function KanbanBoard({
     }
 
     try {
-      await updateJobStatus({ id: jobId, status: newStatus });
+      // A job paused for parts can give its bay back instead of holding the rest of the booking
+      let endCurrentSegment = false;
+      if (newStatus === 'waiting-parts') {
+        const segments = await appointmentApi.getByJob(jobId);
+        const current = getCurrentSegment(segments.data ?? []);
+        endCurrentSegment = !!current && window.confirm(getEndSegmentPrompt(current));
+      }
+
+      await updateJobStatus({ id: jobId, status: newStatus, override, endCurrentSegment });
       
       const successMessage = JobStatusTransitionService.getTransitionMessage(job, newStatus, transition);
       
@@ -323,6 +351,21 @@ export function KanbanBoard({
           <option value="medium">Medium Priority</option>
           <option value="high">High Priority</option>
         </select>
+
+        <select
+          value={technicianFilter}
+          onChange={(e) => setTechnicianFilter(e.target.value)}
+          className="px-3 py-2 border border-input bg-background rounded-md text-sm"
+          aria-label="Filter jobs by technician"
+        >
+          <option value="all">All Technicians</option>
+          <option value={UNASSIGNED_TECHNICIAN}>Unassigned</option>
+          {technicians.map((technician) => (
+            <option key={technician.id} value={technician.id}>
+              {technician.name}{technician.isActive ? '' : ' (inactive)'}
+            </option>
+          ))}
+        </select>
       </div>
 
       {/* Kanban Board */}
@@ -367,12 +410,12 @@ export function KanbanBoard({
               <div>
                 <h3 className="text-lg font-medium">No jobs found</h3>
                 <p className="text-sm text-muted-foreground">
-                  {searchQuery || filterPriority !== 'all'
+                  {searchQuery || filterPriority !== 'all' || technicianFilter !== 'all'
                     ? 'Try adjusting your search or filter criteria'
                     : 'Create your first job to get started'}
                 </p>
               </div>
-              {(!searchQuery && filterPriority === 'all') && (
+              {(!searchQuery && filterPriority === 'all' && technicianFilter === 'all') && (
                 <Button onClick={onJobCreate}>
                   <Plus className="h-4 w-4 mr-2" />
                   Create First Job
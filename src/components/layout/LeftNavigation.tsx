@@ -1,6 +1,7 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { cn } from '@/lib/utils';
+import { useOverdueFollowUps } from '@/hooks';
 import { 
   Home, 
   Calendar, 
@@ -59,6 +60,12 @@ const navigationItems = [
 
 export function LeftNavigation() {
   const location = useLocation();
+  const { data: overdueFollowUps } = useOverdueFollowUps();
+
+  // Counts shown next to a nav item, keyed by href
+  const badgeCounts: Record<string, number> = {
+    '/calls': overdueFollowUps?.data?.length ?? 0,
+  };
 
   return (
     <div className="flex flex-col h-full">
@@ -81,6 +88,7 @@ export function LeftNavigation() {
           {navigationItems.map((item) => {
             const isActive = location.pathname === item.href;
             const Icon = item.icon;
+            const badgeCount = badgeCounts[item.href] ?? 0;
             
             return (
               <li key={item.href}>
@@ -96,6 +104,14 @@ export function LeftNavigation() {
                 >
                   <Icon className="h-4 w-4 shrink-0" />
                   <span className="truncate">{item.title}</span>
+                  {badgeCount > 0 && (
+                    <span
+                      className="ml-auto rounded-full bg-destructive px-1.5 py-0.5 text-[10px] font-semibold leading-none text-destructive-foreground"
+                      title={`${badgeCount} overdue follow-up${badgeCount === 1 ? '' : 's'}`}
+                    >
+                      {badgeCount}
+                    </span>
+                  )}
                 </Link>
               </li>
             );
@@ -28,13 +28,43 @@ import { VehicleDetailsView } from '@/components/dock/VehicleDetailsView';
 import { CustomerDetailsView } from '@/components/dock/CustomerDetailsView';
 import { CallDetailsView } from '@/components/dock/CallDetailsView';
 import { AppointmentDetailsView } from '@/components/dock/AppointmentDetailsView';
+import { jobDocumentsApi } from '@/lib/api-client';
+import { openPrintableJobDocument } from '@/lib/print-job-documents';
+import { getCurrentSegment, getEndSegmentPrompt } from '@shared/appointment-segments';
 import {
   useJob,
+  useJobHistory,
   useVehicle,
+  useVehicleAttachments,
+  useVehicleMileageHistory,
   useCustomer,
   useCall,
+  useCallsByJob,
   useAppointment,
+  useAppointmentsByJob,
   useUpdateJob,
+  useUpdateJobStatus,
+  useJobPartsOrders,
+  useCreatePartsOrder,
+  useUpdatePartsOrder,
+  useDeletePartsOrder,
+  useJobMilestones,
+  useCreateJobMilestone,
+  useUpdateJobMilestone,
+  useDeleteJobMilestone,
+  useJobAttachments,
+  useCreateJobAttachment,
+  useUploadJobAttachment,
+  useDeleteJobAttachment,
+  useRecordJobOdometer,
+  useJobBilling,
+  useSaveEstimate,
+  useApproveEstimate,
+  useDeclineEstimate,
+  useCreateInvoice,
+  useUpdateInvoiceStatus,
+  useShopSettings,
+  useCustomerCommunications,
   usePrefetchJob,
   usePrefetchVehicle,
   usePrefetchCustomer,
@@ -45,6 +75,7 @@ import type {
   AppointmentWithJob,
   Call,
   CustomerWithVehicles,
+  JobDocumentKind,
   JobWithRelations,
   JobNote,
   VehicleWithHistory,
@@ -669,6 +700,58 @@ function JobDetailsContent({
 }) {
   const jobId = payload?.entityId ?? state.data?.id ?? 'job-unknown';
   const { mutateAsync: updateJobMutation } = useUpdateJob();
+  const historyQuery = useJobHistory(jobId, Boolean(state.data));
+  const partsQuery = useJobPartsOrders(jobId, Boolean(state.data));
+  const { mutateAsync: updateJobStatus } = useUpdateJobStatus();
+  const { mutateAsync: createPartsOrder } = useCreatePartsOrder();
+  const { mutateAsync: updatePartsOrder } = useUpdatePartsOrder();
+  const { mutateAsync: deletePartsOrder } = useDeletePartsOrder();
+  const milestonesQuery = useJobMilestones(jobId, Boolean(state.data));
+  const { mutateAsync: createMilestone } = useCreateJobMilestone();
+  const { mutateAsync: updateMilestone } = useUpdateJobMilestone();
+  const { mutateAsync: deleteMilestone } = useDeleteJobMilestone();
+  const attachmentsQuery = useJobAttachments(jobId, Boolean(state.data));
+  const segmentsQuery = useAppointmentsByJob(jobId, Boolean(state.data));
+  const { mutateAsync: createAttachment } = useCreateJobAttachment();
+  const { mutateAsync: uploadAttachment } = useUploadJobAttachment();
+  const { mutateAsync: deleteAttachment } = useDeleteJobAttachment();
+  const jobVehicleId = state.data?.vehicleId ?? '';
+  const mileageQuery = useVehicleMileageHistory(jobVehicleId);
+  const { mutateAsync: recordOdometer } = useRecordJobOdometer();
+  const billingQuery = useJobBilling(jobId, Boolean(state.data));
+  const { mutateAsync: saveEstimate } = useSaveEstimate();
+  const { mutateAsync: approveEstimate } = useApproveEstimate();
+  const { mutateAsync: declineEstimate } = useDeclineEstimate();
+  const { mutateAsync: createInvoice } = useCreateInvoice();
+  const { mutateAsync: updateInvoiceStatus } = useUpdateInvoiceStatus();
+  const callsQuery = useCallsByJob(jobId, Boolean(state.data));
+  const { data: shopSettings } = useShopSettings();
+
+  const handlePrintDocument = useCallback(
+    (kind: JobDocumentKind) => {
+      if (!state.data) {
+        return;
+      }
+
+      // The earliest call on the job is the one it was created from
+      const originatingCall = (callsQuery.data?.data ?? [])
+        .slice()
+        .sort((a, b) => new Date(a.callStartTime).getTime() - new Date(b.callStartTime).getTime())[0];
+      const invoice = (billingQuery.data?.data?.invoices ?? [])
+        .filter((candidate) => candidate.status !== 'void')
+        .pop();
+
+      openPrintableJobDocument(kind, {
+        job: state.data,
+        customer: state.data.customer,
+        vehicle: state.data.vehicle,
+        call: originatingCall ?? null,
+        shop: shopSettings,
+        invoice: invoice ?? null,
+      });
+    },
+    [state.data, callsQuery.data, billingQuery.data, shopSettings],
+  );
 
   const handleAddNote = useCallback(
     async (notePayload: JobNotePayload, id: string) => {
@@ -704,6 +787,18 @@ function JobDetailsContent({
     <JobDetailsView
       jobId={jobId}
       job={state.data}
+      statusHistory={historyQuery.data?.data ?? []}
+      isHistoryLoading={historyQuery.isLoading}
+      partsOrders={partsQuery.data?.data ?? []}
+      isPartsLoading={partsQuery.isLoading}
+      milestones={milestonesQuery.data?.data ?? []}
+      isMilestonesLoading={milestonesQuery.isLoading}
+      attachments={attachmentsQuery.data?.data ?? []}
+      isAttachmentsLoading={attachmentsQuery.isLoading}
+      mileageHistory={mileageQuery.data?.data?.readings ?? []}
+      segments={segmentsQuery.data?.data ?? []}
+      billing={billingQuery.data?.data ?? null}
+      isBillingLoading={billingQuery.isLoading}
       isLoading={state.isLoading}
       error={state.error}
       onRetry={state.onRetry}
@@ -711,6 +806,60 @@ function JobDetailsContent({
       onJobAction={(action, id) => console.log('Job action:', action, id)}
       onAddNote={state.data ? handleAddNote : undefined}
       onInvoiceChange={(invoice, id) => console.log('Invoice updated:', invoice, id)}
+      onAddPartsOrder={async (data, id) => {
+        await createPartsOrder({ jobId: id, data });
+      }}
+      onUpdatePartsOrder={async (orderId, data, id) => {
+        await updatePartsOrder({ jobId: id, id: orderId, data });
+      }}
+      onDeletePartsOrder={async (orderId, id) => {
+        await deletePartsOrder({ jobId: id, id: orderId });
+      }}
+      onAddMilestone={async (data, id) => {
+        await createMilestone({ jobId: id, data });
+      }}
+      onUpdateMilestone={async (milestoneId, data, id) => {
+        await updateMilestone({ jobId: id, id: milestoneId, data });
+      }}
+      onDeleteMilestone={async (milestoneId, id) => {
+        await deleteMilestone({ jobId: id, id: milestoneId });
+      }}
+      onAddAttachment={async (data, id) => {
+        await createAttachment({ jobId: id, data });
+      }}
+      onUploadAttachment={async (data, id) => {
+        await uploadAttachment({ jobId: id, data });
+      }}
+      onDeleteAttachment={async (attachmentId, id) => {
+        await deleteAttachment({ jobId: id, id: attachmentId });
+      }}
+      onRecordOdometer={jobVehicleId ? async (data, id) => {
+        await recordOdometer({ id, data, vehicleId: jobVehicleId });
+      } : undefined}
+      onStatusChange={async (status, id) => {
+        const current = status === 'waiting-parts' ? getCurrentSegment(segmentsQuery.data?.data ?? []) : null;
+        const endCurrentSegment = !!current && window.confirm(getEndSegmentPrompt(current));
+        await updateJobStatus({ id, status, endCurrentSegment });
+      }}
+      onSaveEstimate={async (data, id) => {
+        await saveEstimate({ jobId: id, data });
+      }}
+      onApproveEstimate={async (id, approvedBy) => {
+        await approveEstimate({ jobId: id, approvedBy });
+      }}
+      onDeclineEstimate={async (id) => {
+        await declineEstimate({ jobId: id });
+      }}
+      onCreateInvoice={async (id) => {
+        await createInvoice({ jobId: id });
+      }}
+      onUpdateInvoiceStatus={async (invoiceId, status, id) => {
+        await updateInvoiceStatus({ jobId: id, invoiceId, status });
+      }}
+      onPrintDocument={state.data ? handlePrintDocument : undefined}
+      onDownloadDocument={(kind, id) => {
+        window.open(jobDocumentsApi.getPdfUrl(id, kind), '_blank', 'noopener');
+      }}
     />
   );
 }
@@ -723,10 +872,16 @@ function VehicleDetailsContent({
   state: ContextViewState<VehicleWithHistory>;
 }) {
   const vehicleId = payload?.entityId ?? state.data?.id ?? 'vehicle-unknown';
+  const attachmentsQuery = useVehicleAttachments(vehicleId, Boolean(state.data));
+  const mileageQuery = useVehicleMileageHistory(vehicleId, Boolean(state.data));
   return (
     <VehicleDetailsView
       vehicleId={vehicleId}
       vehicle={state.data ?? null}
+      attachments={attachmentsQuery.data?.data ?? []}
+      isAttachmentsLoading={attachmentsQuery.isLoading}
+      mileageHistory={mileageQuery.data?.data ?? null}
+      isMileageLoading={mileageQuery.isLoading}
       isLoading={state.isLoading}
       error={state.error}
       onRetry={state.onRetry}
@@ -744,10 +899,13 @@ function CustomerDetailsContent({
   state: ContextViewState<CustomerWithVehicles>;
 }) {
   const customerId = payload?.entityId ?? state.data?.id ?? 'customer-unknown';
+  const communicationsQuery = useCustomerCommunications(state.data?.id ?? '');
   return (
     <CustomerDetailsView
       customerId={customerId}
       customer={state.data ?? null}
+      communications={communicationsQuery.data?.data ?? []}
+      isCommunicationsLoading={communicationsQuery.isLoading}
       isLoading={state.isLoading}
       error={state.error}
       onRetry={state.onRetry}
@@ -27,9 +27,12 @@ vi.mock('@/components/dock/AppointmentDetailsView', () => ({
 
 vi.mock('@/hooks', () => ({
   useJob: () => ({ data: { data: null }, isLoading: false, error: null, refetch: vi.fn() }),
+  useJobHistory: () => ({ data: { data: [] }, isLoading: false }),
   useVehicle: () => ({ data: { data: null }, isLoading: false, error: null, refetch: vi.fn() }),
   useCustomer: () => ({ data: { data: null }, isLoading: false, error: null, refetch: vi.fn() }),
   useCall: () => ({ data: { data: null }, isLoading: false, error: null, refetch: vi.fn() }),
+  useCallsByJob: () => ({ data: { data: [] }, isLoading: false }),
+  useShopSettings: () => ({ data: null, isLoading: false }),
   useAppointment: () => ({ data: { data: null }, isLoading: false, error: null, refetch: vi.fn() }),
   usePrefetchJob: () => vi.fn(),
   usePrefetchVehicle: () => vi.fn(),
@@ -37,6 +40,30 @@ vi.mock('@/hooks', () => ({
   usePrefetchCall: () => vi.fn(),
   usePrefetchAppointment: () => vi.fn(),
   useUpdateJob: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useUpdateJobStatus: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useJobPartsOrders: () => ({ data: { data: [] }, isLoading: false }),
+  useCreatePartsOrder: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useUpdatePartsOrder: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useDeletePartsOrder: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useJobMilestones: () => ({ data: { data: [] }, isLoading: false }),
+  useCreateJobMilestone: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useUpdateJobMilestone: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useDeleteJobMilestone: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useJobAttachments: () => ({ data: { data: [] }, isLoading: false }),
+  useAppointmentsByJob: () => ({ data: { data: [] }, isLoading: false }),
+  useCreateJobAttachment: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useUploadJobAttachment: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useVehicleAttachments: () => ({ data: { data: [] }, isLoading: false }),
+  useVehicleMileageHistory: () => ({ data: undefined, isLoading: false }),
+  useDeleteJobAttachment: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useRecordJobOdometer: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useJobBilling: () => ({ data: { data: { estimate: null, invoices: [] } }, isLoading: false }),
+  useSaveEstimate: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useApproveEstimate: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useDeclineEstimate: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useCreateInvoice: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useUpdateInvoiceStatus: () => ({ mutateAsync: vi.fn(), mutate: vi.fn(), reset: vi.fn() }),
+  useCustomerCommunications: () => ({ data: undefined, isLoading: false }),
 }));
 
 const resetSelectionStore = () => {
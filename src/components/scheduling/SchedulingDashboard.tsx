@@ -27,7 +27,6 @@ import {
   Eye,
   Edit,
   MoreHorizontal,
-  Star,
   Zap,
   Target,
   ArrowRight,
@@ -43,28 +42,30 @@ import {
 import { cn } from '@/lib/utils';
 import { format, startOfDay, endOfDay, addDays, isToday, isTomorrow } from 'date-fns';
 import { useUIStore } from '@/stores';
+import { useAppointments, useCustomers, useJobs, useShopSettings, useTechnicians, useVehicles } from '@/hooks';
+import { getAssignedTechnicianId, getShiftHours } from '@/lib/technicians';
+import { DEFAULT_BAYS, getActiveBays, getBayLabel } from '@shared/bays';
+import type { ApiResponse, JobStatus, Vehicle } from '@/types/database';
 
+// An appointment joined with its job, customer, vehicle, bay and technician for display
 export interface ScheduledAppointment {
   id: string;
-  callId: string;
   jobId: string;
   customer: {
     id: string;
     name: string;
     phone: string;
-    email: string;
+    email?: string;
   };
   vehicle: {
     id: string;
     make: string;
     model: string;
     year: string;
-    vin: string;
+    vin?: string;
   };
   service: {
     type: string;
-    category: 'maintenance' | 'repair' | 'diagnostic' | 'emergency';
-    description: string;
     estimatedDuration: number;
     estimatedCost: number;
   };
@@ -75,13 +76,10 @@ export interface ScheduledAppointment {
     bay: {
       id: string;
       name: string;
-      type: string;
     };
     technician: {
-      id: string;
+      id: string | null;
       name: string;
-      specialties: string[];
-      rating: number;
     };
   };
   status: 'scheduled' | 'confirmed' | 'in-progress' | 'completed' | 'cancelled' | 'no-show';
@@ -103,13 +101,11 @@ export interface ResourceUtilization {
 export interface TechnicianWorkload {
   technicianId: string;
   technicianName: string;
-  specialties: string[];
-  rating: number;
+  skills: string[];
   workloadHours: number;
   maxHours: number;
   utilizationRate: number;
-  appointments: ScheduledAppointment[];
-  efficiency: number;
+  appointmentCount: number;
 }
 
 interface SchedulingDashboardProps {
@@ -120,101 +116,12 @@ interface SchedulingDashboardProps {
   className?: string;
 }
 
-// Mock data
-const mockAppointments: ScheduledAppointment[] = [
-  {
-    id: 'apt-1',
-    callId: 'CALL-001',
-    jobId: 'JOB-001',
-    customer: {
-      id: 'cust-1',
-      name: 'John Smith',
-      phone: '(555) 123-4567',
-      email: 'john@example.com',
-    },
-    vehicle: {
-      id: 'veh-1',
-      make: 'Honda',
-      model: 'Civic',
-      year: '2020',
-      vin: '1HGBH41JXMN109186',
-    },
-    service: {
-      type: 'Oil Change',
-      category: 'maintenance',
-      description: 'Regular oil change service',
-      estimatedDuration: 60,
-      estimatedCost: 75,
-    },
-    scheduling: {
-      date: new Date(),
-      startTime: '09:00',
-      endTime: '10:00',
-      bay: {
-        id: 'bay-1',
-        name: 'Bay 1',
-        type: 'general',
-      },
-      technician: {
-        id: 'tech-1',
-        name: 'Mike Johnson',
-        specialties: ['engine', 'maintenance'],
-        rating: 4.8,
-      },
-    },
-    status: 'scheduled',
-    priority: 'medium',
-    notes: 'Customer requested early morning appointment',
-    createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
-    updatedAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
-  },
-  {
-    id: 'apt-2',
-    callId: 'CALL-002',
-    jobId: 'JOB-002',
-    customer: {
-      id: 'cust-2',
-      name: 'Sarah Wilson',
-      phone: '(555) 987-6543',
-      email: 'sarah@example.com',
-    },
-    vehicle: {
-      id: 'veh-2',
-      make: 'Toyota',
-      model: 'Camry',
-      year: '2019',
-      vin: '4T1BE46K69U123456',
-    },
-    service: {
-      type: 'Brake Service',
-      category: 'repair',
-      description: 'Front brake pad replacement',
-      estimatedDuration: 120,
-      estimatedCost: 350,
-    },
-    scheduling: {
-      date: addDays(new Date(), 1),
-      startTime: '14:00',
-      endTime: '16:00',
-      bay: {
-        id: 'bay-2',
-        name: 'Bay 2',
-        type: 'lift',
-      },
-      technician: {
-        id: 'tech-2',
-        name: 'David Chen',
-        specialties: ['brakes', 'suspension'],
-        rating: 4.9,
-      },
-    },
-    status: 'confirmed',
-    priority: 'high',
-    notes: 'Customer reported grinding noise',
-    createdAt: new Date(Date.now() - 4 * 60 * 60 * 1000),
-    updatedAt: new Date(Date.now() - 1 * 60 * 60 * 1000),
-  },
-];
+// Appointments have no status of their own, so they follow their job's progress
+const toAppointmentStatus = (status: JobStatus | undefined): ScheduledAppointment['status'] => {
+  if (status === 'completed') return 'completed';
+  if (status === 'in-progress' || status === 'in-bay') return 'in-progress';
+  return 'scheduled';
+};
 
 const STATUS_CONFIGS = {
   scheduled: { label: 'Scheduled', color: 'bg-blue-100 text-blue-800', icon: Calendar },
@@ -246,10 +153,73 @@ export function SchedulingDashboard({
   const [viewMode, setViewMode] = useState<'list' | 'calendar' | 'resources'>('list');
 
   const { addToast } = useUIStore();
+  const { data: techniciansResponse } = useTechnicians({ active: true });
+  const { data: appointmentsResponse } = useAppointments();
+  const { data: jobsResponse } = useJobs();
+  const { data: customersResponse } = useCustomers();
+  const { data: vehiclesResponse } = useVehicles();
+  const { data: shopSettings } = useShopSettings();
+  const bays = useMemo(() => getActiveBays(shopSettings?.bays ?? DEFAULT_BAYS), [shopSettings]);
+
+  const appointments = useMemo<ScheduledAppointment[]>(() => {
+    const jobsById = new Map((jobsResponse?.data ?? []).map(job => [job.id, job]));
+    const customersById = new Map((customersResponse?.data ?? []).map(customer => [customer.id, customer]));
+    // useVehicles passes a v4-style onError, which leaves its data untyped
+    const vehicles = (vehiclesResponse as ApiResponse<Vehicle[]> | undefined)?.data ?? [];
+    const vehiclesById = new Map(vehicles.map(vehicle => [vehicle.id, vehicle]));
+    const techniciansById = new Map((techniciansResponse?.data ?? []).map(technician => [technician.id, technician]));
+
+    return (appointmentsResponse?.data ?? []).map(apt => {
+      const job = jobsById.get(apt.jobId);
+      const customer = job ? customersById.get(job.customerId) : undefined;
+      const vehicle = job ? vehiclesById.get(job.vehicleId) : undefined;
+      const technicianId = getAssignedTechnicianId(apt, job) ?? null;
+      const start = new Date(apt.startAt);
+      const end = new Date(apt.endAt);
+
+      return {
+        id: apt.id,
+        jobId: apt.jobId,
+        customer: {
+          id: customer?.id ?? '',
+          name: customer?.name ?? 'Unknown customer',
+          phone: customer?.phone ?? '',
+          email: customer?.email,
+        },
+        vehicle: {
+          id: vehicle?.id ?? '',
+          make: vehicle?.make ?? '',
+          model: vehicle?.model ?? '',
+          year: vehicle ? String(vehicle.year) : '',
+          vin: vehicle?.vin,
+        },
+        service: {
+          type: job?.title ?? 'Unknown job',
+          estimatedDuration: Math.round((end.getTime() - start.getTime()) / (1000 * 60)),
+          estimatedCost: job?.estimateTotal ?? 0,
+        },
+        scheduling: {
+          date: start,
+          startTime: format(start, 'HH:mm'),
+          endTime: format(end, 'HH:mm'),
+          bay: { id: apt.bay, name: getBayLabel(bays, apt.bay) },
+          technician: {
+            id: technicianId,
+            name: (technicianId && techniciansById.get(technicianId)?.name) || 'Unassigned',
+          },
+        },
+        status: toAppointmentStatus(job?.status),
+        priority: job?.priority ?? 'medium',
+        notes: job?.notes ?? '',
+        createdAt: new Date(apt.createdAt),
+        updatedAt: new Date(apt.updatedAt),
+      };
+    });
+  }, [appointmentsResponse, jobsResponse, customersResponse, vehiclesResponse, techniciansResponse, bays]);
 
   // Filter appointments
   const filteredAppointments = useMemo(() => {
-    let filtered = mockAppointments;
+    let filtered = appointments;
 
     // Search filter
     if (searchQuery) {
@@ -291,23 +261,23 @@ export function SchedulingDashboard({
     }
 
     return filtered;
-  }, [searchQuery, statusFilter, priorityFilter, dateFilter]);
+  }, [appointments, searchQuery, statusFilter, priorityFilter, dateFilter]);
 
   // Calculate dashboard statistics
   const dashboardStats = useMemo(() => {
-    const total = mockAppointments.length;
-    const today = mockAppointments.filter(apt => isToday(apt.scheduling.date)).length;
-    const confirmed = mockAppointments.filter(apt => apt.status === 'confirmed').length;
-    const inProgress = mockAppointments.filter(apt => apt.status === 'in-progress').length;
-    const completed = mockAppointments.filter(apt => apt.status === 'completed').length;
-    const urgent = mockAppointments.filter(apt => apt.priority === 'urgent').length;
-
-    const totalRevenue = mockAppointments
+    const total = appointments.length;
+    const today = appointments.filter(apt => isToday(apt.scheduling.date)).length;
+    const confirmed = appointments.filter(apt => apt.status === 'confirmed').length;
+    const inProgress = appointments.filter(apt => apt.status === 'in-progress').length;
+    const completed = appointments.filter(apt => apt.status === 'completed').length;
+    const urgent = appointments.filter(apt => apt.priority === 'urgent').length;
+
+    const totalRevenue = appointments
       .filter(apt => apt.status === 'completed')
       .reduce((sum, apt) => sum + apt.service.estimatedCost, 0);
 
-    const avgDuration = mockAppointments.length > 0
-      ? Math.round(mockAppointments.reduce((sum, apt) => sum + apt.service.estimatedDuration, 0) / mockAppointments.length)
+    const avgDuration = appointments.length > 0
+      ? Math.round(appointments.reduce((sum, apt) => sum + apt.service.estimatedDuration, 0) / appointments.length)
       : 0;
 
     return {
@@ -321,51 +291,54 @@ export function SchedulingDashboard({
       avgDuration,
       completionRate: total > 0 ? Math.round((completed / total) * 100) : 0,
     };
-  }, []);
+  }, [appointments]);
 
-  // Calculate resource utilization
-  const resourceUtilization = useMemo(() => {
-    const bays = ['Bay 1', 'Bay 2', 'Bay 3', 'Bay 4'];
-    return bays.map(bayName => {
-      const bayAppointments = mockAppointments.filter(apt => apt.scheduling.bay.name === bayName);
+  // Calculate today's utilization of each active bay
+  const resourceUtilization = useMemo<ResourceUtilization[]>(() => {
+    return bays.map(bay => {
+      const bayAppointments = appointments.filter(apt => apt.scheduling.bay.id === bay.id && isToday(apt.scheduling.date));
       const scheduledHours = bayAppointments.reduce((sum, apt) => sum + (apt.service.estimatedDuration / 60), 0);
       const availableHours = 8; // 8 hour work day
       const utilizationRate = Math.round((scheduledHours / availableHours) * 100);
 
       return {
-        bayId: bayName.toLowerCase().replace(' ', '-'),
-        bayName,
+        bayId: bay.id,
+        bayName: bay.name,
         utilizationRate,
         scheduledHours,
         availableHours,
         appointments: bayAppointments,
       };
     });
-  }, []);
-
-  // Calculate technician workload
-  const technicianWorkload = useMemo(() => {
-    const technicians = ['Mike Johnson', 'David Chen', 'Sarah Wilson', 'Lisa Rodriguez'];
-    return technicians.map(techName => {
-      const techAppointments = mockAppointments.filter(apt => apt.scheduling.technician.name === techName);
-      const workloadHours = techAppointments.reduce((sum, apt) => sum + (apt.service.estimatedDuration / 60), 0);
-      const maxHours = 8;
-      const utilizationRate = Math.round((workloadHours / maxHours) * 100);
-      const efficiency = Math.random() * 20 + 80; // Mock efficiency 80-100%
+  }, [appointments, bays]);
+
+  // Calculate today's technician workload from assigned appointments
+  const technicianWorkload = useMemo<TechnicianWorkload[]>(() => {
+    const today = new Date();
+    const jobsById = new Map((jobsResponse?.data ?? []).map(job => [job.id, job]));
+    const todaysAppointments = (appointmentsResponse?.data ?? []).filter(apt => isToday(new Date(apt.startAt)));
+
+    return (techniciansResponse?.data ?? []).map(technician => {
+      const techAppointments = todaysAppointments.filter(apt =>
+        getAssignedTechnicianId(apt, jobsById.get(apt.jobId)) === technician.id
+      );
+      const workloadHours = techAppointments.reduce((sum, apt) => (
+        sum + (new Date(apt.endAt).getTime() - new Date(apt.startAt).getTime()) / (1000 * 60 * 60)
+      ), 0);
+      const maxHours = getShiftHours(technician, today);
+      const utilizationRate = maxHours > 0 ? Math.round((workloadHours / maxHours) * 100) : 0;
 
       return {
-        technicianId: techName.toLowerCase().replace(' ', '-'),
-        technicianName: techName,
-        specialties: ['general', 'maintenance'],
-        rating: 4.5 + Math.random() * 0.5,
+        technicianId: technician.id,
+        technicianName: technician.name,
+        skills: technician.skills,
         workloadHours,
         maxHours,
         utilizationRate,
-        appointments: techAppointments,
-        efficiency: Math.round(efficiency),
+        appointmentCount: techAppointments.length,
       };
     });
-  }, []);
+  }, [techniciansResponse, appointmentsResponse, jobsResponse]);
 
   const handleAppointmentAction = useCallback((action: string, appointment: ScheduledAppointment) => {
     switch (action) {
@@ -679,6 +652,9 @@ export function SchedulingDashboard({
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
+                  {technicianWorkload.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No active technicians on the roster.</p>
+                  )}
                   {technicianWorkload.map((tech) => (
                     <div key={tech.technicianId} className="flex items-center justify-between p-3 border rounded-lg">
                       <div className="flex items-center gap-3">
@@ -688,13 +664,12 @@ export function SchedulingDashboard({
                         <div>
                           <div className="flex items-center gap-2">
                             <span className="font-medium">{tech.technicianName}</span>
-                            <div className="flex items-center gap-1">
-                              <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
-                              <span className="text-sm">{tech.rating.toFixed(1)}</span>
-                            </div>
+                            {tech.skills.length > 0 && (
+                              <span className="text-xs text-muted-foreground">{tech.skills.join(', ')}</span>
+                            )}
                           </div>
                           <div className="text-sm text-muted-foreground">
-                            {tech.workloadHours.toFixed(1)}h workload • {tech.efficiency}% efficiency
+                            {tech.workloadHours.toFixed(1)}h of {tech.maxHours.toFixed(1)}h shift • {tech.appointmentCount} appointments
                           </div>
                         </div>
                       </div>
@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { useArchivedRecords, usePurgeRecord, useRestoreRecord } from '@/hooks';
+import { getBlockedDeleteDependencies, getEditingLockMinutes } from '@/lib/api-client';
+import { usePreferencesStore } from '@/stores';
+import { formatDependencySummary } from '@shared/record-dependencies';
+import type { ArchivableEntity, ArchivedRecord } from '@/types/database';
+
+const entityLabels: Record<ArchivableEntity, string> = {
+  customers: 'Customer',
+  vehicles: 'Vehicle',
+  jobs: 'Job',
+  calls: 'Call',
+  appointments: 'Appointment',
+};
+
+const entityFilters: Array<{ id: ArchivableEntity | 'all'; label: string }> = [
+  { id: 'all', label: 'All records' },
+  { id: 'customers', label: 'Customers' },
+  { id: 'vehicles', label: 'Vehicles' },
+  { id: 'jobs', label: 'Jobs' },
+  { id: 'calls', label: 'Calls' },
+  { id: 'appointments', label: 'Appointments' },
+];
+
+const formatTimestamp = (value: string) => format(new Date(value), 'MMM d, yyyy h:mm a');
+
+const describeRecord = (item: ArchivedRecord): string => {
+  switch (item.entity) {
+    case 'customers':
+      return item.record.name;
+    case 'vehicles': {
+      const { year, make, model, licensePlate } = item.record;
+      return `${year} ${make} ${model}${licensePlate ? ` (${licensePlate})` : ''}`;
+    }
+    case 'jobs':
+      return item.record.title;
+    case 'calls': {
+      const caller = item.record.customerName || item.record.phoneNumber;
+      return item.record.callReason ? `${caller} – ${item.record.callReason}` : caller;
+    }
+    case 'appointments':
+      return `${item.record.bay} on ${formatTimestamp(item.record.startAt)}`;
+  }
+};
+
+function ArchivedRecordRow({ item, canPurge }: { item: ArchivedRecord; canPurge: boolean }) {
+  const { mutate: restoreRecord, isPending: isRestoring } = useRestoreRecord();
+  const { mutate: purgeRecord, isPending: isPurging } = usePurgeRecord();
+  const label = describeRecord(item);
+  const { id, archivedAt, archivedBy } = item.record;
+
+  const purge = () => {
+    if (!window.confirm(`Permanently delete ${label}? This cannot be undone.`)) {
+      return;
+    }
+
+    purgeRecord(
+      { entity: item.entity, id },
+      {
+        onError: (error) => {
+          if (getEditingLockMinutes(error) !== null) {
+            // The server's message already asks for the override reason
+            const reason = window.prompt(error instanceof Error ? error.message : 'Enter an override reason:');
+            if (reason?.trim()) {
+              purgeRecord({ entity: item.entity, id, lockOverride: { reason: reason.trim() } });
+            }
+            return;
+          }
+
+          const dependencies = getBlockedDeleteDependencies(error);
+          if (dependencies && window.confirm(
+            `${label} still has ${formatDependencySummary(dependencies)}. Permanently delete those as well?`
+          )) {
+            purgeRecord({ entity: item.entity, id, cascade: true });
+          }
+        },
+      },
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-border bg-muted/10 p-4 md:flex-row md:items-center md:justify-between">
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="text-xs">
+            {entityLabels[item.entity]}
+          </Badge>
+          <span className="font-medium">{label}</span>
+        </div>
+        {archivedAt && (
+          <p className="text-xs text-muted-foreground">
+            Archived {formatTimestamp(archivedAt)}
+            {archivedBy ? ` by ${archivedBy}` : ''}
+          </p>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => restoreRecord({ entity: item.entity, id })}
+          disabled={isRestoring || isPurging}
+        >
+          {isRestoring ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+          Restore
+        </Button>
+        {canPurge && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={purge}
+            disabled={isRestoring || isPurging}
+            className="text-destructive hover:text-destructive"
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Purge
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function ArchivedRecordsSection() {
+  const { data: records = [], isLoading } = useArchivedRecords();
+  const role = usePreferencesStore((state) => state.userPreferences?.role);
+  const [entityFilter, setEntityFilter] = useState<ArchivableEntity | 'all'>('all');
+
+  // Purging is an admin action; without a signed-in profile the operator is treated as the admin
+  const canPurge = !role || role === 'admin';
+
+  const visibleRecords = useMemo(
+    () => (entityFilter === 'all' ? records : records.filter((item) => item.entity === entityFilter)),
+    [records, entityFilter],
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle>Archived records</CardTitle>
+            <CardDescription>
+              Deleted customers, vehicles, jobs, calls and appointments are kept here. Restoring a record also
+              restores whatever was archived with it.
+            </CardDescription>
+          </div>
+          <Select value={entityFilter} onValueChange={(value) => setEntityFilter(value as ArchivableEntity | 'all')}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {entityFilters.map((filter) => (
+                <SelectItem key={filter.id} value={filter.id}>
+                  {filter.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Loading archived records...
+          </div>
+        ) : visibleRecords.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing has been archived.</p>
+        ) : (
+          visibleRecords.map((item) => (
+            <ArchivedRecordRow key={`${item.entity}-${item.record.id}`} item={item} canPurge={canPurge} />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,6 +8,7 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Plus, Trash2 } from 'lucide-react';
 import { useSettingsForm } from '@/hooks/useSettingsForm';
+import { BAY_CAPABILITIES, BAY_CAPABILITY_DETAILS, getBayCapabilities, type BayCapability } from '@shared/bays';
 
 export function BayConfigurationSection() {
   const { data, updateBays } = useSettingsForm();
@@ -35,6 +36,22 @@ export function BayConfigurationSection() {
     );
   };
 
+  // Heavy-duty stays on the bay's supportsHeavyDuty flag; other equipment goes in capabilities
+  const toggleCapability = (id: string, capability: BayCapability, enabled: boolean) => {
+    updateBays((current) =>
+      current.map((bay) => {
+        if (bay.id !== id) {
+          return bay;
+        }
+        if (capability === 'heavy-duty') {
+          return { ...bay, supportsHeavyDuty: enabled };
+        }
+        const others = (bay.capabilities ?? []).filter((item) => item !== capability);
+        return { ...bay, capabilities: enabled ? [...others, capability] : others };
+      }),
+    );
+  };
+
   const addBay = () => {
     const nextIndex = bays.length + 1;
     updateBays((current) => [
@@ -45,6 +62,7 @@ export function BayConfigurationSection() {
         shortCode: `B${nextIndex}`,
         isActive: true,
         supportsHeavyDuty: false,
+        capabilities: [],
         notes: '',
       },
     ]);
@@ -140,21 +158,26 @@ export function BayConfigurationSection() {
               </div>
 
               <div className="grid gap-4 md:grid-cols-2">
-                <div className="flex items-center gap-3 rounded-md border border-dashed border-muted-foreground/40 p-3">
-                  <Switch
-                    id={`bay-heavy-duty-${bay.id}`}
-                    checked={bay.supportsHeavyDuty}
-                    onCheckedChange={(checked) => updateBay(bay.id, 'supportsHeavyDuty', checked)}
-                  />
-                  <div>
-                    <Label htmlFor={`bay-heavy-duty-${bay.id}`} className="text-sm font-medium">
-                      Supports heavy-duty jobs
-                    </Label>
-                    <p className="text-xs text-muted-foreground">
-                      Flags the bay for transmissions, engine swaps, and oversized vehicles.
-                    </p>
+                {BAY_CAPABILITIES.map((capability) => (
+                  <div
+                    key={capability}
+                    className="flex items-center gap-3 rounded-md border border-dashed border-muted-foreground/40 p-3"
+                  >
+                    <Switch
+                      id={`bay-${capability}-${bay.id}`}
+                      checked={getBayCapabilities(bay).includes(capability)}
+                      onCheckedChange={(checked) => toggleCapability(bay.id, capability, checked)}
+                    />
+                    <div>
+                      <Label htmlFor={`bay-${capability}-${bay.id}`} className="text-sm font-medium">
+                        {BAY_CAPABILITY_DETAILS[capability].label}
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        {BAY_CAPABILITY_DETAILS[capability].description}
+                      </p>
+                    </div>
                   </div>
-                </div>
+                ))}
               </div>
 
               <div className="space-y-2">
@@ -187,7 +210,7 @@ export function BayConfigurationSection() {
         <CardContent>
           <ul className="space-y-2 text-sm text-muted-foreground">
             <li>Reordering and persistence will be handled when InstantDB integration lands in Task 10.6.</li>
-            <li>Heavy-duty flag informs scheduling suggestions and prevents double-booking specialized lifts.</li>
+            <li>Jobs that need a heavy-duty lift, alignment rack, or EV equipment can only be booked into bays that have it.</li>
             <li>Notes surface in the right dock for advisors when selecting a bay for a job.</li>
           </ul>
         </CardContent>
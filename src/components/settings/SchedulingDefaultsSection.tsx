@@ -97,9 +97,9 @@ export function SchedulingDefaultsSection() {
 
   const editingLockSummary = useMemo(() => {
     if (defaults.lockEditingWithinMinutes === 0) {
-      return 'Jobs can be edited up until start time.';
+      return 'Jobs can be edited up until start time; changes after that need an override reason.';
     }
-    return `Editing disabled ${formatMinutes(defaults.lockEditingWithinMinutes)} before start.`;
+    return `Editing disabled ${formatMinutes(defaults.lockEditingWithinMinutes)} before start unless an override reason is given.`;
   }, [defaults.lockEditingWithinMinutes]);
 
   return (
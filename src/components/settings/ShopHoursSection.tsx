@@ -49,6 +49,7 @@ type ClosureDraft = {
   startDate: string;
   endDate: string;
   appliesTo: 'shop' | 'bay';
+  bayId: string;
 };
 
 const emptyClosureDraft: ClosureDraft = {
@@ -56,6 +57,7 @@ const emptyClosureDraft: ClosureDraft = {
   startDate: '',
   endDate: '',
   appliesTo: 'shop',
+  bayId: '',
 };
 
 export function ShopHoursSection() {
@@ -114,13 +116,18 @@ export function ShopHoursSection() {
     if (!closureDraft.name || !closureDraft.startDate) {
       return;
     }
+    if (closureDraft.appliesTo === 'bay' && !closureDraft.bayId) {
+      return;
+    }
 
+    const { bayId, ...draft } = closureDraft;
     updateHours((current) => ({
       ...current,
       closures: [
         ...current.closures,
         {
-          ...closureDraft,
+          ...draft,
+          ...(draft.appliesTo === 'bay' ? { bayId } : {}),
           id: `closure-${Date.now()}`,
           endDate: closureDraft.endDate || closureDraft.startDate,
         },
@@ -295,7 +302,9 @@ export function ShopHoursSection() {
                     <div className="flex items-center gap-2">
                       <span className="font-medium">{closure.name}</span>
                       <Badge variant="outline" className="text-xs">
-                        {closure.appliesTo === 'shop' ? 'Entire shop' : 'Specific bay'}
+                        {closure.appliesTo === 'shop'
+                          ? 'Entire shop'
+                          : data.bays.find((bay) => bay.id === closure.bayId)?.name ?? 'Specific bay'}
                       </Badge>
                     </div>
                     <div className="text-xs text-muted-foreground">
@@ -349,6 +358,28 @@ export function ShopHoursSection() {
                     </SelectContent>
                   </Select>
                 </div>
+                {closureDraft.appliesTo === 'bay' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="exception-bay">Bay</Label>
+                    <Select
+                      value={closureDraft.bayId}
+                      onValueChange={(value) =>
+                        setClosureDraft((current) => ({ ...current, bayId: value }))
+                      }
+                    >
+                      <SelectTrigger id="exception-bay">
+                        <SelectValue placeholder="Select bay" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {data.bays.map((bay) => (
+                          <SelectItem key={bay.id} value={bay.id}>
+                            {bay.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label htmlFor="exception-start">Start date</Label>
                   <Input
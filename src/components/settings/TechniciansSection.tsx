@@ -0,0 +1,273 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import {
+  useCreateTechnician,
+  useDeleteTechnician,
+  useTechnicians,
+  useUpdateTechnician,
+} from '@/hooks';
+import { getWeeklyShiftHours, parseSkills } from '@/lib/technicians';
+import type { BusinessDay, Technician, Weekday } from '@/types/database';
+
+const dayOrder: Array<{ id: Weekday; label: string }> = [
+  { id: 'monday', label: 'Mon' },
+  { id: 'tuesday', label: 'Tue' },
+  { id: 'wednesday', label: 'Wed' },
+  { id: 'thursday', label: 'Thu' },
+  { id: 'friday', label: 'Fri' },
+  { id: 'saturday', label: 'Sat' },
+  { id: 'sunday', label: 'Sun' },
+];
+
+type TechnicianDraft = {
+  name: string;
+  skills: string;
+  isActive: boolean;
+  workingHours: Technician['workingHours'];
+};
+
+const toDraft = (technician: Technician): TechnicianDraft => ({
+  name: technician.name,
+  skills: technician.skills.join(', '),
+  isActive: technician.isActive,
+  workingHours: technician.workingHours,
+});
+
+function TechnicianRow({ technician }: { technician: Technician }) {
+  const [draft, setDraft] = useState<TechnicianDraft>(() => toDraft(technician));
+  const [isDirty, setIsDirty] = useState(false);
+  const { mutate: updateTechnician, isPending: isSaving } = useUpdateTechnician();
+  const { mutate: deleteTechnician, isPending: isDeleting } = useDeleteTechnician();
+
+  // Pick up server changes unless the operator has unsaved edits
+  useEffect(() => {
+    if (!isDirty) {
+      setDraft(toDraft(technician));
+    }
+  }, [technician, isDirty]);
+
+  const updateDraft = (changes: Partial<TechnicianDraft>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+    setIsDirty(true);
+  };
+
+  const updateDay = (day: Weekday, changes: Partial<BusinessDay>) => {
+    updateDraft({
+      workingHours: {
+        ...draft.workingHours,
+        [day]: { ...draft.workingHours[day], ...changes },
+      },
+    });
+  };
+
+  const save = () => {
+    updateTechnician(
+      {
+        id: technician.id,
+        data: {
+          name: draft.name,
+          skills: parseSkills(draft.skills),
+          isActive: draft.isActive,
+          workingHours: draft.workingHours,
+        },
+      },
+      { onSuccess: () => setIsDirty(false) },
+    );
+  };
+
+  const remove = () => {
+    if (window.confirm(`Remove ${technician.name} from the roster?`)) {
+      deleteTechnician(technician.id);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border bg-muted/10 p-4">
+      <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+        <div>
+          <div className="flex items-center gap-2">
+            <Label className="text-base font-semibold">{technician.name}</Label>
+            {!technician.isActive && (
+              <Badge variant="outline" className="text-xs">
+                Inactive
+              </Badge>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {getWeeklyShiftHours(draft).toFixed(1)}h scheduled per week
+          </p>
+        </div>
+        <div className="flex flex-col gap-2 md:flex-row md:items-center">
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`technician-active-${technician.id}`}
+              checked={draft.isActive}
+              onCheckedChange={(checked) => updateDraft({ isActive: checked })}
+            />
+            <Label htmlFor={`technician-active-${technician.id}`} className="text-sm">
+              Active
+            </Label>
+          </div>
+          <Button size="sm" onClick={save} disabled={!isDirty || isSaving || !draft.name.trim()}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={remove}
+            disabled={isDeleting}
+            className="text-destructive hover:text-destructive"
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Remove
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`technician-name-${technician.id}`}>Name</Label>
+          <Input
+            id={`technician-name-${technician.id}`}
+            value={draft.name}
+            onChange={(event) => updateDraft({ name: event.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`technician-skills-${technician.id}`}>Skills</Label>
+          <Input
+            id={`technician-skills-${technician.id}`}
+            value={draft.skills}
+            onChange={(event) => updateDraft({ skills: event.target.value })}
+            placeholder="brakes, electrical, diagnostics"
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-4">
+        {dayOrder.map(({ id, label }) => {
+          const day = draft.workingHours[id];
+          return (
+            <div key={id} className="space-y-2 rounded-md border border-dashed border-muted-foreground/40 p-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">{label}</span>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    id={`technician-${technician.id}-${id}-working`}
+                    checked={!day.closed}
+                    onCheckedChange={(checked) => updateDay(id, { closed: !checked })}
+                  />
+                  <Label htmlFor={`technician-${technician.id}-${id}-working`} className="text-xs">
+                    {day.closed ? 'Off' : 'On'}
+                  </Label>
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <Input
+                  type="time"
+                  aria-label={`${label} start`}
+                  value={day.open}
+                  onChange={(event) => updateDay(id, { open: event.target.value })}
+                  disabled={day.closed}
+                  className="h-8 px-2 text-xs"
+                />
+                <Input
+                  type="time"
+                  aria-label={`${label} end`}
+                  value={day.close}
+                  onChange={(event) => updateDay(id, { close: event.target.value })}
+                  disabled={day.closed}
+                  className="h-8 px-2 text-xs"
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export function TechniciansSection() {
+  const { data: techniciansResponse, isLoading } = useTechnicians();
+  const { mutate: createTechnician, isPending: isCreating } = useCreateTechnician();
+  const [newName, setNewName] = useState('');
+  const [newSkills, setNewSkills] = useState('');
+
+  const technicians = techniciansResponse?.data ?? [];
+  const activeCount = technicians.filter((technician) => technician.isActive).length;
+
+  const addTechnician = () => {
+    createTechnician(
+      { name: newName.trim(), skills: parseSkills(newSkills) },
+      {
+        onSuccess: () => {
+          setNewName('');
+          setNewSkills('');
+        },
+      },
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Technician roster</CardTitle>
+            <CardDescription>
+              Technicians can be assigned to jobs and appointments. Changes here save immediately and are separate from shop settings.
+            </CardDescription>
+          </div>
+          <Badge variant="secondary" className="text-xs">
+            {activeCount} active technicians
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Loading technicians...
+          </div>
+        ) : technicians.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No technicians yet. Add your first technician below.</p>
+        ) : (
+          technicians.map((technician) => <TechnicianRow key={technician.id} technician={technician} />)
+        )}
+
+        <div className="grid gap-3 rounded-lg border border-dashed border-muted-foreground/40 p-4 md:grid-cols-[1fr_1fr_auto] md:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="new-technician-name">Name</Label>
+            <Input
+              id="new-technician-name"
+              value={newName}
+              onChange={(event) => setNewName(event.target.value)}
+              placeholder="Technician name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-technician-skills">Skills</Label>
+            <Input
+              id="new-technician-skills"
+              value={newSkills}
+              onChange={(event) => setNewSkills(event.target.value)}
+              placeholder="brakes, suspension"
+            />
+          </div>
+          <Button type="button" variant="outline" onClick={addTechnician} disabled={!newName.trim() || isCreating}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add technician
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -21,7 +21,7 @@ import {
   Plus,
   MoreHorizontal,
   Edit,
-  Trash2,
+  Archive,
   Wrench,
   Calendar,
   Gauge,
@@ -107,20 +107,20 @@ export function VehicleManagement({
       case 'create-job':
         onCreateJob?.(vehicle.id);
         break;
-      case 'delete':
-        if (confirm(`Are you sure you want to delete the ${vehicle.year} ${vehicle.make} ${vehicle.model}?`)) {
+      case 'archive':
+        if (confirm(`Archive the ${vehicle.year} ${vehicle.make} ${vehicle.model}? Its jobs and appointments are archived with it.`)) {
           try {
             await deleteVehicle(vehicle.id);
             addToast({
               type: 'success',
-              title: 'Vehicle Deleted',
-              message: `${vehicle.year} ${vehicle.make} ${vehicle.model} has been removed`,
+              title: 'Vehicle Archived',
+              message: `${vehicle.year} ${vehicle.make} ${vehicle.model} has been archived`,
               duration: 3000,
             });
           } catch (error) {
             addToast({
               type: 'error',
-              title: 'Failed to Delete Vehicle',
+              title: 'Failed to Archive Vehicle',
               message: error instanceof Error ? error.message : 'An error occurred',
               duration: 5000,
             });
@@ -229,11 +229,11 @@ export function VehicleManagement({
                       </DropdownMenuItem>
                       <DropdownMenuSeparator />
                       <DropdownMenuItem 
-                        onClick={() => handleVehicleAction(vehicle, 'delete')}
-                        className="text-red-600"
+                        onClick={() => handleVehicleAction(vehicle, 'archive')}
+                        className="text-orange-600"
                       >
-                        <Trash2 className="mr-2 h-4 w-4" />
-                        Delete
+                        <Archive className="mr-2 h-4 w-4" />
+                        Archive
                       </DropdownMenuItem>
                     </DropdownMenuContent>
                   </DropdownMenu>
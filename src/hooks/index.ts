@@ -18,12 +18,15 @@ export {
 export {
   useJobs,
   useJob,
+  useJobHistory,
+  useJobStatusEvents,
   useJobsByStatus,
   useJobsByCustomer,
   useJobsByVehicle,
   useCreateJob,
   useUpdateJob,
   useUpdateJobStatus,
+  useRecordJobOdometer,
   useDeleteJob,
   useJobStats,
   usePrefetchJob,
@@ -34,6 +37,7 @@ export {
   useCalls,
   useCall,
   useCallsByCustomer,
+  useCallsByJob,
   useCallsByOutcome,
   useCreateCall,
   useUpdateCall,
@@ -44,6 +48,27 @@ export {
   usePrefetchCall,
 } from './use-calls';
 
+// Follow-up hooks
+export {
+  useFollowUpTasks,
+  useOverdueFollowUps,
+  useCreateFollowUp,
+  useUpdateFollowUp,
+  useAssignFollowUp,
+  useSnoozeFollowUp,
+  useCompleteFollowUp,
+  useDeleteFollowUp,
+} from './use-follow-ups';
+
+// Communication hooks
+export {
+  useCommunications,
+  useCustomerCommunications,
+  useCreateCommunication,
+  useUpdateCommunication,
+  useDeleteCommunication,
+} from './use-communications';
+
 // Vehicle hooks
 export {
   useVehicles,
@@ -53,6 +78,8 @@ export {
   useUpdateVehicle,
   useDeleteVehicle,
   useVehicleServiceHistory,
+  useVehicleMileageHistory,
+  useVehicleAttachments,
   useVehicleSearch,
   useVehicleStats,
   usePrefetchVehicle,
@@ -67,6 +94,7 @@ export {
   useUpdateAppointment,
   useDeleteAppointment,
   useAppointmentsByCustomer,
+  useAppointmentsByJob,
   useAppointmentsByDateRange,
   useAppointmentAvailability,
   useAppointmentSearch,
@@ -139,6 +167,61 @@ export {
   useBayUtilization,
 } from './use-calendar';
 
+// Settings hooks
+export { useShopSettings } from './use-settings';
+
+// Technician hooks
+export {
+  useTechnicians,
+  useTechnician,
+  useCreateTechnician,
+  useUpdateTechnician,
+  useDeleteTechnician,
+} from './use-technicians';
+
+// Archive hooks
+export {
+  useArchivedRecords,
+  useRestoreRecord,
+  usePurgeRecord,
+} from './use-archive';
+
+// Parts order hooks
+export {
+  useJobPartsOrders,
+  useCreatePartsOrder,
+  useUpdatePartsOrder,
+  useDeletePartsOrder,
+} from './use-parts-orders';
+
+// Job milestone hooks
+export {
+  useJobMilestones,
+  useCreateJobMilestone,
+  useUpdateJobMilestone,
+  useDeleteJobMilestone,
+} from './use-job-milestones';
+
+// Job attachment hooks
+export {
+  useJobAttachments,
+  useCreateJobAttachment,
+  useUploadJobAttachment,
+  useUpdateJobAttachment,
+  useDeleteJobAttachment,
+} from './use-job-attachments';
+
+// Billing hooks
+export {
+  useJobBilling,
+  useInvoices,
+  useSaveEstimate,
+  useApproveEstimate,
+  useDeclineEstimate,
+  useCreateInvoice,
+  useUpdateInvoiceStatus,
+} from './use-billing';
+
 // Re-export types for convenience
 export type {
   Customer, CreateCustomerData, UpdateCustomerData, CustomerFilters,
@@ -4,8 +4,8 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { appointmentApi } from '@/lib/api-client';
 import { queryKeys, invalidateQueries } from '@/lib/query-client';
-import { useUIStore } from '@/stores';
-import type { Appointment } from '@/types/database';
+import { usePreferencesStore, useUIStore } from '@/stores';
+import type { Appointment, CreateAppointmentData } from '@/types/database';
 
 // Fetch all appointments
 export function useAppointments(filters?: {
@@ -40,7 +40,7 @@ export function useCreateAppointment() {
   const { addToast } = useUIStore();
 
   return useMutation({
-    mutationFn: appointmentApi.create,
+    mutationFn: (data: CreateAppointmentData) => appointmentApi.create(data),
     onSuccess: (appointment) => {
       // Invalidate and refetch appointment queries
       invalidateQueries.appointments();
@@ -113,16 +113,18 @@ export function useUpdateAppointment() {
   });
 }
 
-// Delete appointment mutation
+// Delete appointment mutation (the server archives it)
 export function useDeleteAppointment() {
   const queryClient = useQueryClient();
   const { addToast } = useUIStore();
+  const archivedBy = usePreferencesStore((state) => state.userPreferences?.name);
 
   return useMutation({
-    mutationFn: appointmentApi.delete,
+    mutationFn: (appointmentId: string) => appointmentApi.delete(appointmentId, archivedBy),
     onSuccess: (_, appointmentId) => {
       // Invalidate and refetch appointment queries
       invalidateQueries.appointments();
+      invalidateQueries.archive();
       
       // Remove the specific appointment from cache
       queryClient.removeQueries({
@@ -131,8 +133,8 @@ export function useDeleteAppointment() {
 
       addToast({
         type: 'success',
-        title: 'Appointment Deleted',
-        message: 'Appointment has been deleted successfully',
+        title: 'Appointment Archived',
+        message: 'Appointment has been archived. Restore it from Settings if needed.',
         duration: 3000,
       });
     },
@@ -158,6 +160,16 @@ export function useAppointmentsByCustomer(customerId: string) {
   });
 }
 
+// Every segment a job is booked in, in start order
+export function useAppointmentsByJob(jobId: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: queryKeys.appointments.byJob(jobId),
+    queryFn: () => appointmentApi.getByJob(jobId),
+    enabled: enabled && !!jobId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
 // Get appointments by date range
 export function useAppointmentsByDateRange(startDate: string, endDate: string) {
   return useQuery({
@@ -0,0 +1,109 @@
+// Archive Hooks
+// Browse, restore and purge archived customers, vehicles, jobs, calls and appointments
+
+import { useMutation, useQuery } from '@tanstack/react-query';
+import {
+  appointmentApi,
+  archiveApi,
+  callApi,
+  customerApi,
+  getBlockedDeleteDependencies,
+  getEditingLockMinutes,
+  jobApi,
+  vehicleApi,
+} from '@/lib/api-client';
+import { queryKeys, invalidateQueries } from '@/lib/query-client';
+import { useUIStore } from '@/stores';
+import { isArchived } from '@shared/archive';
+import type { ArchivableEntity, ArchivedRecord, DeleteRecordOptions } from '@/types/database';
+
+// Hook to list every archived record, most recently archived first
+export function useArchivedRecords() {
+  return useQuery({
+    queryKey: queryKeys.archive.all,
+    queryFn: async (): Promise<ArchivedRecord[]> => {
+      const filters = { includeArchived: true };
+      const [customers, vehicles, jobs, calls, appointments] = await Promise.all([
+        customerApi.getAll(filters),
+        vehicleApi.getAll(filters),
+        jobApi.getAll(filters),
+        callApi.getAll(filters),
+        appointmentApi.getAll(filters),
+      ]);
+
+      const records: ArchivedRecord[] = [
+        ...(customers.data ?? []).map((record) => ({ entity: 'customers' as const, record })),
+        ...(vehicles.data ?? []).map((record) => ({ entity: 'vehicles' as const, record })),
+        ...(jobs.data ?? []).map((record) => ({ entity: 'jobs' as const, record })),
+        ...(calls.data ?? []).map((record) => ({ entity: 'calls' as const, record })),
+        ...(appointments.data ?? []).map((record) => ({ entity: 'appointments' as const, record })),
+      ];
+
+      return records
+        .filter(({ record }) => isArchived(record))
+        .sort((a, b) => (b.record.archivedAt ?? '').localeCompare(a.record.archivedAt ?? ''));
+    },
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
+
+// Hook to restore an archived record and whatever was archived along with it
+export function useRestoreRecord() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ entity, id }: { entity: ArchivableEntity; id: string }) => archiveApi.restore(entity, id),
+    onSuccess: () => {
+      invalidateQueries.archive();
+
+      addToast({
+        type: 'success',
+        title: 'Record Restored',
+        message: 'The record is back in its lists',
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Restore Record',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to permanently delete a record; only the settings screen limits this to admins, the server does not check roles yet
+export function usePurgeRecord() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ entity, id, ...options }: { entity: ArchivableEntity; id: string } & DeleteRecordOptions) =>
+      archiveApi.purge(entity, id, options),
+    onSuccess: () => {
+      // Purges can cascade into communications, follow-ups and invoices as well
+      invalidateQueries.archive();
+      invalidateQueries.communications();
+      invalidateQueries.followUps();
+
+      addToast({
+        type: 'success',
+        title: 'Record Purged',
+        message: 'The record has been permanently deleted',
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      // Blocked and locked purges are handled by the caller, which offers the cascade or asks for a reason
+      if (getBlockedDeleteDependencies(error) || getEditingLockMinutes(error) !== null) return;
+
+      addToast({
+        type: 'error',
+        title: 'Failed to Purge Record',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
@@ -0,0 +1,174 @@
+// Billing Hooks
+// Hooks for job estimates, their approval, and the invoices issued from them
+
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { billingApi } from '@/lib/api-client';
+import { queryKeys, invalidateQueries } from '@/lib/query-client';
+import { useUIStore } from '@/stores';
+import type { InvoiceFilters, InvoiceStatus, SaveEstimateData } from '@/types/database';
+
+// Estimate and invoice changes also move the totals stored on the job and the revenue figures
+const invalidateBilling = (jobId: string) => {
+  invalidateQueries.jobBilling(jobId);
+  invalidateQueries.jobs();
+  invalidateQueries.invoices();
+  invalidateQueries.dashboard();
+};
+
+// Hook to get the estimate and invoices for a job
+export function useJobBilling(jobId: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: queryKeys.jobs.billing(jobId),
+    queryFn: () => billingApi.getByJob(jobId),
+    enabled: enabled && !!jobId,
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+}
+
+// Hook to get invoices across all jobs (used for revenue reporting)
+export function useInvoices(filters: InvoiceFilters = {}) {
+  return useQuery({
+    queryKey: queryKeys.invoices.list(filters),
+    queryFn: () => billingApi.getInvoices(filters),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+// Hook to create or revise a job's estimate
+export function useSaveEstimate() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ jobId, data }: { jobId: string; data: SaveEstimateData }) =>
+      billingApi.saveEstimate(jobId, data),
+    onSuccess: (_, { jobId }) => {
+      invalidateBilling(jobId);
+
+      addToast({
+        type: 'success',
+        title: 'Estimate Saved',
+        message: 'Estimate has been saved as a draft',
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Save Estimate',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to record customer approval of an estimate
+export function useApproveEstimate() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ jobId, approvedBy }: { jobId: string; approvedBy?: string }) =>
+      billingApi.approveEstimate(jobId, approvedBy),
+    onSuccess: (_, { jobId }) => {
+      invalidateBilling(jobId);
+
+      addToast({
+        type: 'success',
+        title: 'Estimate Approved',
+        message: 'The estimate is ready to be invoiced',
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Approve Estimate',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to record that the customer declined an estimate
+export function useDeclineEstimate() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ jobId }: { jobId: string }) => billingApi.declineEstimate(jobId),
+    onSuccess: (_, { jobId }) => {
+      invalidateBilling(jobId);
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Decline Estimate',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to convert an approved estimate into an invoice
+export function useCreateInvoice() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ jobId, invoiceNumber }: { jobId: string; invoiceNumber?: string }) =>
+      billingApi.createInvoice(jobId, invoiceNumber),
+    onSuccess: (response, { jobId }) => {
+      invalidateBilling(jobId);
+
+      addToast({
+        type: 'success',
+        title: 'Invoice Created',
+        message: `Invoice ${response.data?.invoiceNumber ?? ''} has been issued`,
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Create Invoice',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to mark an invoice paid or void
+export function useUpdateInvoiceStatus() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({
+      jobId,
+      invoiceId,
+      status,
+    }: {
+      jobId: string;
+      invoiceId: string;
+      status: Exclude<InvoiceStatus, 'issued'>;
+    }) => billingApi.updateInvoiceStatus(jobId, invoiceId, status),
+    onSuccess: (response, { jobId, status }) => {
+      invalidateBilling(jobId);
+
+      addToast({
+        type: 'success',
+        title: status === 'paid' ? 'Invoice Paid' : 'Invoice Voided',
+        message: `Invoice ${response.data?.invoiceNumber ?? ''} has been marked ${status}`,
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Update Invoice',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
@@ -8,11 +8,15 @@ import { appointmentApi, jobApi } from '@/lib/api-client';
 import { queryKeys, invalidateQueries } from '@/lib/query-client';
 import { generateTimeSlots, checkBayAvailability, createCalendarEvent } from '@/lib/calendar-config';
 import { useUIStore } from '@/stores';
+import { DEFAULT_BAYS, getActiveBays } from '@shared/bays';
+import { getBufferMinutes } from '@shared/buffers';
+import { useShopSettings } from './use-settings';
 import type { 
   CalendarEvent, 
   Appointment, 
   CreateAppointmentData, 
   UpdateAppointmentData,
+  AppointmentBookingOptions,
   Bay 
 } from '@/types/database';
 
@@ -24,9 +28,28 @@ export function useCalendarAppointments(dateRange?: { start: string; end: string
 
   // Create appointment mutation
   const createAppointmentMutation = useMutation({
-    mutationFn: (data: CreateAppointmentData) => appointmentApi.create(data),
+    mutationFn: ({ data, options }: { data: CreateAppointmentData; options?: AppointmentBookingOptions }) =>
+      appointmentApi.create(data, options),
     onSuccess: (response) => {
       invalidateQueries.appointments();
+      if (response.conflicts?.length) {
+        addToast({
+          type: 'warning',
+          title: 'Appointment Overbooked',
+          message: `Scheduled over ${response.conflicts.length} existing appointment${response.conflicts.length === 1 ? '' : 's'} in this bay`,
+          duration: 6000,
+        });
+        return;
+      }
+      if (response.hoursViolations?.length) {
+        addToast({
+          type: 'warning',
+          title: 'Outside Shop Hours',
+          message: response.hoursViolations.map((violation) => violation.message).join('. '),
+          duration: 6000,
+        });
+        return;
+      }
       addToast({
         type: 'success',
         title: 'Appointment Scheduled',
@@ -46,10 +69,28 @@ export function useCalendarAppointments(dateRange?: { start: string; end: string
 
   // Update appointment mutation
   const updateAppointmentMutation = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: UpdateAppointmentData }) => 
-      appointmentApi.update(id, data),
-    onSuccess: () => {
+    mutationFn: ({ id, data, options }: { id: string; data: UpdateAppointmentData; options?: AppointmentBookingOptions }) =>
+      appointmentApi.update(id, data, options),
+    onSuccess: (response) => {
       invalidateQueries.appointments();
+      if (response.conflicts?.length) {
+        addToast({
+          type: 'warning',
+          title: 'Appointment Overbooked',
+          message: `Moved over ${response.conflicts.length} existing appointment${response.conflicts.length === 1 ? '' : 's'} in this bay`,
+          duration: 6000,
+        });
+        return;
+      }
+      if (response.hoursViolations?.length) {
+        addToast({
+          type: 'warning',
+          title: 'Outside Shop Hours',
+          message: response.hoursViolations.map((violation) => violation.message).join('. '),
+          duration: 6000,
+        });
+        return;
+      }
       addToast({
         type: 'success',
         title: 'Appointment Updated',
@@ -90,7 +131,7 @@ export function useCalendarAppointments(dateRange?: { start: string; end: string
   });
 
   // Handle event drop (drag and drop)
-  const handleEventDrop = useCallback(async (dropInfo: EventDropArg) => {
+  const handleEventDrop = useCallback(async (dropInfo: EventDropArg, options?: AppointmentBookingOptions) => {
     const { event, oldResource, newResource } = dropInfo;
     // Try multiple ways to get the appointment ID
     const appointmentId = event.extendedProps.appointmentId || event.id;
@@ -113,11 +154,12 @@ export function useCalendarAppointments(dateRange?: { start: string; end: string
     await updateAppointmentMutation.mutateAsync({
       id: appointmentId,
       data: updateData,
+      options,
     });
   }, [updateAppointmentMutation]);
 
   // Handle event resize
-  const handleEventResize = useCallback(async (resizeInfo: EventResizeArg) => {
+  const handleEventResize = useCallback(async (resizeInfo: EventResizeArg, options?: AppointmentBookingOptions) => {
     const { event } = resizeInfo;
     // Try multiple ways to get the appointment ID
     const appointmentId = event.extendedProps.appointmentId || event.id;
@@ -139,6 +181,7 @@ export function useCalendarAppointments(dateRange?: { start: string; end: string
     await updateAppointmentMutation.mutateAsync({
       id: appointmentId,
       data: updateData,
+      options,
     });
   }, [updateAppointmentMutation]);
 
@@ -193,8 +236,11 @@ export function useCalendarAppointments(dateRange?: { start: string; end: string
         endAt: event.end!.toISOString(),
       };
 
-      // Create the appointment first
-      await createAppointmentMutation.mutateAsync(appointmentData);
+      // Create the appointment first; force-scheduled drops carry the overbooking override
+      await createAppointmentMutation.mutateAsync({
+        data: appointmentData,
+        options: { allowOverbooking: event.extendedProps.allowOverbooking === true },
+      });
       
       // Update job status to 'scheduled' if it was 'incoming-call'
       if (currentStatus === 'incoming-call') {
@@ -244,6 +290,9 @@ export function useSchedulingSuggestions() {
     endTime: Date;
     available: boolean;
   }>>([]);
+  const { data: shopSettings } = useShopSettings();
+  const bayConfig = shopSettings?.bays ?? DEFAULT_BAYS;
+  const bufferMinutes = getBufferMinutes(shopSettings?.schedulingDefaults);
 
   // Find available time slots for a job
   const findAvailableSlots = useCallback((
@@ -252,8 +301,8 @@ export function useSchedulingSuggestions() {
     existingEvents: CalendarEvent[],
     preferredBay?: Bay
   ) => {
-    const timeSlots = generateTimeSlots(date, duration);
-    const bays: Bay[] = preferredBay ? [preferredBay] : ['bay-1', 'bay-2'];
+    const timeSlots = generateTimeSlots(date, duration, undefined, undefined, bufferMinutes);
+    const bays: Bay[] = preferredBay ? [preferredBay] : getActiveBays(bayConfig).map((bay) => bay.id);
     const availableSlots: Array<{
       bay: Bay;
       startTime: Date;
@@ -267,7 +316,9 @@ export function useSchedulingSuggestions() {
           bay,
           slot.start,
           slot.end,
-          existingEvents
+          existingEvents,
+          undefined,
+          bufferMinutes
         );
 
         availableSlots.push({
@@ -288,7 +339,7 @@ export function useSchedulingSuggestions() {
 
     setSuggestions(availableSlots);
     return availableSlots;
-  }, []);
+  }, [bayConfig, bufferMinutes]);
 
   // Get next available slot
   const getNextAvailableSlot = useCallback((
@@ -4,7 +4,7 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { callApi } from '@/lib/api-client';
 import { queryKeys, invalidateQueries } from '@/lib/query-client';
-import { useUIStore } from '@/stores';
+import { usePreferencesStore, useUIStore } from '@/stores';
 import type { Call, CreateCallData, UpdateCallData, CallFilters, CallOutcome } from '@/types/database';
 
 // Hook to get all calls
@@ -46,6 +46,16 @@ export function useCallsByCustomer(customerId: string, enabled: boolean = true)
   });
 }
 
+// Hook to get the calls a job was created from
+export function useCallsByJob(jobId: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: queryKeys.calls.byJob(jobId),
+    queryFn: () => callApi.getAll({ jobId }),
+    enabled: enabled && !!jobId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
 // Hook to get calls by outcome
 export function useCallsByOutcome(outcome: CallOutcome) {
   return useQuery({
@@ -67,11 +77,13 @@ export function useCreateCall() {
       await queryClient.cancelQueries({ queryKey: queryKeys.calls.lists() });
 
       // Optimistically add call to cache
+      const timestamp = new Date().toISOString();
       const tempCall: Call = {
         id: `temp-${Date.now()}`,
         ...newCall,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
+        callStartTime: newCall.callStartTime ?? timestamp,
+        createdAt: timestamp,
+        updatedAt: timestamp,
       };
 
       queryClient.setQueryData(queryKeys.calls.lists(), (old: any) => {
@@ -100,6 +112,8 @@ export function useCreateCall() {
     onSuccess: (response) => {
       // Invalidate and refetch calls
       invalidateQueries.calls();
+      invalidateQueries.followUps();
+      invalidateQueries.communications();
       
       // Also invalidate customer related queries if linked
       if (response.data?.customerId) {
@@ -164,6 +178,8 @@ export function useUpdateCall() {
       // Invalidate related queries
       invalidateQueries.call(id);
       invalidateQueries.calls();
+      invalidateQueries.followUps();
+      invalidateQueries.communications();
       
       addToast({
         type: 'success',
@@ -178,9 +194,10 @@ export function useUpdateCall() {
 export function useDeleteCall() {
   const queryClient = useQueryClient();
   const { addToast } = useUIStore();
+  const archivedBy = usePreferencesStore((state) => state.userPreferences?.name);
 
   return useMutation({
-    mutationFn: (id: string) => callApi.delete(id),
+    mutationFn: (id: string) => callApi.delete(id, archivedBy),
     onMutate: async (id) => {
       // Cancel queries
       await queryClient.cancelQueries({ queryKey: queryKeys.calls.all });
@@ -220,13 +237,14 @@ export function useDeleteCall() {
       });
     },
     onSuccess: () => {
-      // Invalidate all call queries
+      // The call is archived; its follow-ups and timeline entry stay until it is purged
       invalidateQueries.calls();
+      invalidateQueries.archive();
       
       addToast({
         type: 'success',
-        title: 'Call Deleted',
-        message: 'Call has been deleted successfully',
+        title: 'Call Archived',
+        message: 'Call has been archived. Restore it from Settings if needed.',
       });
     },
   });
@@ -0,0 +1,101 @@
+// Communication Hooks
+// Hooks for the customer communication log (calls, emails, texts and notes)
+
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { communicationApi } from '@/lib/api-client';
+import { queryKeys, invalidateQueries } from '@/lib/query-client';
+import { useUIStore } from '@/stores';
+import type { CommunicationFilters, CreateCommunicationData, UpdateCommunicationData } from '@/types/database';
+
+// Hook to get communication log entries
+export function useCommunications(filters: CommunicationFilters = {}) {
+  return useQuery({
+    queryKey: queryKeys.communications.list(filters),
+    queryFn: () => communicationApi.getAll(filters),
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+}
+
+// Hook to get a customer's communication history
+export function useCustomerCommunications(customerId: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: queryKeys.communications.byCustomer(customerId),
+    queryFn: () => communicationApi.getAll({ customerId }),
+    enabled: enabled && !!customerId,
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+}
+
+// Hook to log a communication
+export function useCreateCommunication() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: (data: CreateCommunicationData) => communicationApi.create(data),
+    onSuccess: () => {
+      invalidateQueries.communications();
+
+      addToast({
+        type: 'success',
+        title: 'Communication Logged',
+        message: 'The communication has been added to the customer timeline',
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Log Communication',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to update a communication
+export function useUpdateCommunication() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateCommunicationData }) => communicationApi.update(id, data),
+    onSuccess: () => {
+      invalidateQueries.communications();
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Update Communication',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to delete a communication
+export function useDeleteCommunication() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: (id: string) => communicationApi.delete(id),
+    onSuccess: () => {
+      invalidateQueries.communications();
+
+      addToast({
+        type: 'success',
+        title: 'Communication Deleted',
+        message: 'The communication has been removed from the timeline',
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Delete Communication',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
@@ -5,7 +5,7 @@ import { useEffect, useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { customerApi } from '@/lib/api-client';
 import { queryKeys, invalidateQueries, optimisticUpdates } from '@/lib/query-client';
-import { useUIStore } from '@/stores';
+import { usePreferencesStore, useUIStore } from '@/stores';
 import type { Customer, CreateCustomerData, UpdateCustomerData, CustomerFilters } from '@/types/database';
 
 // Hook to get all customers
@@ -143,13 +143,14 @@ export function useUpdateCustomer() {
   });
 }
 
-// Hook to delete a customer
+// Hook to delete a customer; the server archives it with its vehicles, jobs and calls
 export function useDeleteCustomer() {
   const queryClient = useQueryClient();
   const { addToast } = useUIStore();
+  const archivedBy = usePreferencesStore((state) => state.userPreferences?.name);
 
   return useMutation({
-    mutationFn: (id: string) => customerApi.delete(id),
+    mutationFn: (id: string) => customerApi.delete(id, archivedBy),
     onMutate: async (id) => {
       // Cancel queries
       await queryClient.cancelQueries({ queryKey: queryKeys.customers.all });
@@ -184,18 +185,18 @@ export function useDeleteCustomer() {
       
       addToast({
         type: 'error',
-        title: 'Failed to Delete Customer',
+        title: 'Failed to Archive Customer',
         message: error instanceof Error ? error.message : 'An unexpected error occurred',
       });
     },
     onSuccess: () => {
-      // Invalidate all customer queries
-      invalidateQueries.customers();
+      // The customer's vehicles, jobs, calls and appointments were archived with it
+      invalidateQueries.archive();
       
       addToast({
         type: 'success',
-        title: 'Customer Deleted',
-        message: 'Customer has been deleted successfully',
+        title: 'Customer Archived',
+        message: 'Customer has been archived. Restore it from Settings if needed.',
       });
     },
   });
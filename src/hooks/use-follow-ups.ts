@@ -0,0 +1,183 @@
+// Follow-up Hooks
+// Hooks for call follow-up tasks and the overdue count shown in navigation
+
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { followUpApi } from '@/lib/api-client';
+import { queryKeys, invalidateQueries } from '@/lib/query-client';
+import { useUIStore } from '@/stores';
+import type { CreateFollowUpTaskData, FollowUpFilters, UpdateFollowUpTaskData } from '@/types/database';
+
+// Hook to get follow-up tasks
+export function useFollowUpTasks(filters: FollowUpFilters = {}) {
+  return useQuery({
+    queryKey: queryKeys.followUps.list(filters),
+    queryFn: () => followUpApi.getAll(filters),
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+}
+
+// Hook to get open follow-ups past their due time
+export function useOverdueFollowUps() {
+  return useQuery({
+    queryKey: queryKeys.followUps.overdue(),
+    queryFn: () => followUpApi.getOverdue(),
+    staleTime: 1000 * 60, // 1 minute
+    refetchInterval: 1000 * 60 * 5, // tasks become overdue without any write, so poll
+  });
+}
+
+// Hook to create a follow-up task
+export function useCreateFollowUp() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: (data: CreateFollowUpTaskData) => followUpApi.create(data),
+    onSuccess: (response) => {
+      invalidateQueries.followUps();
+
+      addToast({
+        type: 'success',
+        title: 'Follow-up Created',
+        message: `${response.data?.title ?? 'Follow-up'} has been added`,
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Create Follow-up',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to update a follow-up task (start, cancel, notes, due time)
+export function useUpdateFollowUp() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateFollowUpTaskData }) => followUpApi.update(id, data),
+    onSuccess: () => {
+      invalidateQueries.followUps();
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Update Follow-up',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to assign a follow-up task
+export function useAssignFollowUp() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ id, assignedTo }: { id: string; assignedTo: string | null }) => followUpApi.assign(id, assignedTo),
+    onSuccess: (response) => {
+      invalidateQueries.followUps();
+
+      addToast({
+        type: 'success',
+        title: 'Follow-up Assigned',
+        message: response.message ?? 'Follow-up has been assigned',
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Assign Follow-up',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to snooze a follow-up task
+export function useSnoozeFollowUp() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ id, until }: { id: string; until?: string }) => followUpApi.snooze(id, until),
+    onSuccess: () => {
+      invalidateQueries.followUps();
+
+      addToast({
+        type: 'info',
+        title: 'Follow-up Snoozed',
+        message: 'Follow-up has been pushed back',
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Snooze Follow-up',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to complete a follow-up task
+export function useCompleteFollowUp() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ id, outcome, completedBy }: { id: string; outcome?: string; completedBy?: string }) =>
+      followUpApi.complete(id, { outcome, completedBy }),
+    onSuccess: () => {
+      invalidateQueries.followUps();
+
+      addToast({
+        type: 'success',
+        title: 'Follow-up Completed',
+        message: 'Follow-up has been marked as completed',
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Complete Follow-up',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to delete a follow-up task
+export function useDeleteFollowUp() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: (id: string) => followUpApi.delete(id),
+    onSuccess: () => {
+      invalidateQueries.followUps();
+
+      addToast({
+        type: 'success',
+        title: 'Follow-up Deleted',
+        message: 'Follow-up has been removed',
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Delete Follow-up',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
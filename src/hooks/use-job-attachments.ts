@@ -0,0 +1,122 @@
+// Job Attachment Hooks
+// Hooks for the estimates, photos and documents attached to a job, as links or uploaded files
+
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { jobAttachmentApi } from '@/lib/api-client';
+import { queryKeys, invalidateQueries } from '@/lib/query-client';
+import { useUIStore } from '@/stores';
+import type { CreateJobAttachmentData, UpdateJobAttachmentData, UploadJobAttachmentData } from '@/types/database';
+
+// Hook to get the attachments for a job
+export function useJobAttachments(jobId: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: queryKeys.jobs.attachments(jobId),
+    queryFn: () => jobAttachmentApi.getByJob(jobId),
+    enabled: enabled && !!jobId,
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+}
+
+// Hook to attach a link to a job
+export function useCreateJobAttachment() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ jobId, data }: { jobId: string; data: CreateJobAttachmentData }) =>
+      jobAttachmentApi.create(jobId, data),
+    onSuccess: (response, { jobId }) => {
+      invalidateQueries.jobAttachments(jobId);
+
+      addToast({
+        type: 'success',
+        title: 'Attachment Added',
+        message: `${response.data?.label ?? 'Attachment'} has been attached to the job`,
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Add Attachment',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to upload a photo or document to a job
+export function useUploadJobAttachment() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ jobId, data }: { jobId: string; data: UploadJobAttachmentData }) =>
+      jobAttachmentApi.upload(jobId, data),
+    onSuccess: (response, { jobId }) => {
+      invalidateQueries.jobAttachments(jobId);
+
+      addToast({
+        type: 'success',
+        title: 'File Uploaded',
+        message: `${response.data?.label ?? 'File'} has been attached to the job`,
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Upload File',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to update an attachment's label, type or link
+export function useUpdateJobAttachment() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ jobId, id, data }: { jobId: string; id: string; data: UpdateJobAttachmentData }) =>
+      jobAttachmentApi.update(jobId, id, data),
+    onSuccess: (_, { jobId }) => {
+      invalidateQueries.jobAttachments(jobId);
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Update Attachment',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to remove an attachment
+export function useDeleteJobAttachment() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ jobId, id }: { jobId: string; id: string }) => jobAttachmentApi.delete(jobId, id),
+    onSuccess: (_, { jobId }) => {
+      invalidateQueries.jobAttachments(jobId);
+
+      addToast({
+        type: 'success',
+        title: 'Attachment Removed',
+        message: 'Attachment has been removed from the job',
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Remove Attachment',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
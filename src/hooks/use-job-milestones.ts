@@ -0,0 +1,94 @@
+// Job Milestone Hooks
+// Hooks for the checklist steps techs tick off as a job progresses
+
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { jobMilestoneApi } from '@/lib/api-client';
+import { queryKeys, invalidateQueries } from '@/lib/query-client';
+import { useUIStore } from '@/stores';
+import type { CreateJobMilestoneData, UpdateJobMilestoneData } from '@/types/database';
+
+// Hook to get the milestones for a job
+export function useJobMilestones(jobId: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: queryKeys.jobs.milestones(jobId),
+    queryFn: () => jobMilestoneApi.getByJob(jobId),
+    enabled: enabled && !!jobId,
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+}
+
+// Hook to add a milestone to a job
+export function useCreateJobMilestone() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ jobId, data }: { jobId: string; data: CreateJobMilestoneData }) =>
+      jobMilestoneApi.create(jobId, data),
+    onSuccess: (response, { jobId }) => {
+      invalidateQueries.jobMilestones(jobId);
+
+      addToast({
+        type: 'success',
+        title: 'Milestone Added',
+        message: `${response.data?.title ?? 'Milestone'} has been added to the job`,
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Add Milestone',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to update a milestone (tick it off, reopen it, reassign it)
+export function useUpdateJobMilestone() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ jobId, id, data }: { jobId: string; id: string; data: UpdateJobMilestoneData }) =>
+      jobMilestoneApi.update(jobId, id, data),
+    onSuccess: (_, { jobId }) => {
+      invalidateQueries.jobMilestones(jobId);
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Update Milestone',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to remove a milestone
+export function useDeleteJobMilestone() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ jobId, id }: { jobId: string; id: string }) => jobMilestoneApi.delete(jobId, id),
+    onSuccess: (_, { jobId }) => {
+      invalidateQueries.jobMilestones(jobId);
+
+      addToast({
+        type: 'success',
+        title: 'Milestone Removed',
+        message: 'Milestone has been removed from the job',
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Remove Milestone',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
@@ -4,8 +4,16 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { jobApi } from '@/lib/api-client';
 import { queryKeys, invalidateQueries, optimisticUpdates } from '@/lib/query-client';
-import { useUIStore } from '@/stores';
-import type { Job, CreateJobData, UpdateJobData, JobFilters, JobStatus } from '@/types/database';
+import { usePreferencesStore, useUIStore } from '@/stores';
+import type {
+  Job,
+  CreateJobData,
+  UpdateJobData,
+  JobFilters,
+  JobStatus,
+  RecordOdometerData,
+  StatusOverride,
+} from '@/types/database';
 
 // Hook to get all jobs
 export function useJobs(filters: JobFilters = {}) {
@@ -36,6 +44,25 @@ export function useJob(id: string, enabled: boolean = true) {
   });
 }
 
+// Hook to get the status history of a job
+export function useJobHistory(id: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: queryKeys.jobs.history(id),
+    queryFn: () => jobApi.getHistory(id),
+    enabled: enabled && !!id,
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+}
+
+// Hook to get status changes across all jobs (completions, cycle times)
+export function useJobStatusEvents(dateRange?: { start: string; end: string }) {
+  return useQuery({
+    queryKey: queryKeys.jobs.statusEvents(dateRange),
+    queryFn: () => jobApi.getStatusEvents(dateRange),
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+}
+
 // Hook to get jobs by status
 export function useJobsByStatus(status: JobStatus) {
   return useQuery({
@@ -194,8 +221,12 @@ export function useUpdateJobStatus() {
   const { addToast } = useUIStore();
 
   return useMutation({
-    mutationFn: ({ id, status }: { id: string; status: JobStatus }) => 
-      jobApi.updateStatus(id, status),
+    mutationFn: ({ id, status, override, endCurrentSegment }: {
+      id: string;
+      status: JobStatus;
+      override?: StatusOverride;
+      endCurrentSegment?: boolean;
+    }) => jobApi.updateStatus(id, status, override, endCurrentSegment),
     onMutate: async ({ id, status }) => {
       // Cancel queries
       await queryClient.cancelQueries({ queryKey: queryKeys.jobs.detail(id) });
@@ -223,11 +254,14 @@ export function useUpdateJobStatus() {
         message: error instanceof Error ? error.message : 'An unexpected error occurred',
       });
     },
-    onSuccess: (response, { id, status }) => {
+    onSuccess: (response, { id, status, endCurrentSegment }) => {
       // Invalidate related queries
       invalidateQueries.job(id);
       invalidateQueries.jobsByStatus(status);
       invalidateQueries.jobs();
+      if (endCurrentSegment) {
+        invalidateQueries.appointments();
+      }
       
       const statusLabels: Record<JobStatus, string> = {
         'incoming-call': 'Incoming Call',
@@ -247,13 +281,49 @@ export function useUpdateJobStatus() {
   });
 }
 
-// Hook to delete a job
+// Hook to record the check-in or check-out odometer reading; a lower reading than the vehicle's last
+// one is saved but flagged
+export function useRecordJobOdometer() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: RecordOdometerData; vehicleId: string }) =>
+      jobApi.recordOdometer(id, data),
+    onSuccess: (response, { id, data, vehicleId }) => {
+      invalidateQueries.job(id);
+      invalidateQueries.vehicle(vehicleId);
+
+      addToast(response.mileageWarning ? {
+        type: 'warning',
+        title: 'Check the Odometer Reading',
+        message: response.mileageWarning,
+        duration: 8000,
+      } : {
+        type: 'success',
+        title: 'Odometer Recorded',
+        message: `${data.kind === 'check-in' ? 'Check-in' : 'Check-out'} reading of ${data.mileage.toLocaleString()} mi saved`,
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Record Odometer',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to delete a job; the server archives it with its appointments
 export function useDeleteJob() {
   const queryClient = useQueryClient();
   const { addToast } = useUIStore();
+  const archivedBy = usePreferencesStore((state) => state.userPreferences?.name);
 
   return useMutation({
-    mutationFn: (id: string) => jobApi.delete(id),
+    mutationFn: (id: string) => jobApi.delete(id, archivedBy),
     onMutate: async (id) => {
       // Cancel queries
       await queryClient.cancelQueries({ queryKey: queryKeys.jobs.all });
@@ -288,18 +358,18 @@ export function useDeleteJob() {
       
       addToast({
         type: 'error',
-        title: 'Failed to Delete Job',
+        title: 'Failed to Archive Job',
         message: error instanceof Error ? error.message : 'An unexpected error occurred',
       });
     },
     onSuccess: () => {
-      // Invalidate all job queries
-      invalidateQueries.jobs();
+      // The job's appointments were archived with it
+      invalidateQueries.archive();
       
       addToast({
         type: 'success',
-        title: 'Job Deleted',
-        message: 'Job has been deleted successfully',
+        title: 'Job Archived',
+        message: 'Job has been archived. Restore it from Settings if needed.',
       });
     },
   });
@@ -0,0 +1,97 @@
+// Parts Order Hooks
+// Hooks for parts ordered against a job while it waits on parts
+
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { partsOrderApi } from '@/lib/api-client';
+import { queryKeys, invalidateQueries } from '@/lib/query-client';
+import { useUIStore } from '@/stores';
+import type { CreatePartsOrderData, UpdatePartsOrderData } from '@/types/database';
+
+// Hook to get the parts orders for a job
+export function useJobPartsOrders(jobId: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: queryKeys.jobs.parts(jobId),
+    queryFn: () => partsOrderApi.getByJob(jobId),
+    enabled: enabled && !!jobId,
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+}
+
+// Hook to order a part for a job
+export function useCreatePartsOrder() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ jobId, data }: { jobId: string; data: CreatePartsOrderData }) =>
+      partsOrderApi.create(jobId, data),
+    onSuccess: (response, { jobId }) => {
+      invalidateQueries.jobParts(jobId);
+      invalidateQueries.dashboard();
+
+      addToast({
+        type: 'success',
+        title: 'Part Ordered',
+        message: `${response.data?.partNumber ?? 'Part'} has been added to the job`,
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Order Part',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to update a parts order (status, delivery dates, cost)
+export function useUpdatePartsOrder() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ jobId, id, data }: { jobId: string; id: string; data: UpdatePartsOrderData }) =>
+      partsOrderApi.update(jobId, id, data),
+    onSuccess: (_, { jobId }) => {
+      invalidateQueries.jobParts(jobId);
+      invalidateQueries.dashboard();
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Update Parts Order',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to remove a parts order
+export function useDeletePartsOrder() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ jobId, id }: { jobId: string; id: string }) => partsOrderApi.delete(jobId, id),
+    onSuccess: (_, { jobId }) => {
+      invalidateQueries.jobParts(jobId);
+      invalidateQueries.dashboard();
+
+      addToast({
+        type: 'success',
+        title: 'Parts Order Removed',
+        message: 'Parts order has been removed from the job',
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Remove Parts Order',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
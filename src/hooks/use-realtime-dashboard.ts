@@ -93,6 +93,8 @@ export function useRealtimeDashboard(dateRange?: { start: string; end: string })
           }, 0),
           totalCapacity: 16, // 2 bays × 8 hours
           waitingOnParts: currentJobs.filter((job: Job) => job.status === 'waiting-parts').length,
+          // Parts orders aren't streamed; keep the last count from the server
+          overduePartsOrders: queryClient.getQueryData<any>(queryKeys.dashboard.stats(dateRange))?.data?.today?.overduePartsOrders ?? 0,
           completed: currentJobs.filter((job: Job) => 
             job.status === 'completed' && 
             new Date(job.updatedAt).toDateString() === todayStr
@@ -0,0 +1,15 @@
+// Settings Hooks
+// Read-only access to shop settings for views that depend on them
+
+import { useQuery } from '@tanstack/react-query';
+import { settingsApi } from '@/lib/api-client';
+import { queryKeys } from '@/lib/query-client';
+
+export function useShopSettings() {
+  return useQuery({
+    queryKey: queryKeys.settings.shop(),
+    queryFn: () => settingsApi.getShopSettings(),
+    staleTime: 1000 * 60 * 5,
+    select: (response) => response.data ?? null,
+  });
+}
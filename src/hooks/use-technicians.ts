@@ -0,0 +1,113 @@
+// Technician Hooks
+// Hooks for the technician roster and job/appointment assignment
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { technicianApi } from '@/lib/api-client';
+import { queryKeys, invalidateQueries } from '@/lib/query-client';
+import { useUIStore } from '@/stores';
+import type { CreateTechnicianData, TechnicianFilters, UpdateTechnicianData } from '@/types/database';
+
+// Hook to get technicians with optional filtering
+export function useTechnicians(filters: TechnicianFilters = {}) {
+  return useQuery({
+    queryKey: queryKeys.technicians.list(filters),
+    queryFn: () => technicianApi.getAll(filters),
+    staleTime: 1000 * 60 * 10, // 10 minutes (roster rarely changes)
+  });
+}
+
+// Hook to get a single technician by ID
+export function useTechnician(id: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: queryKeys.technicians.detail(id),
+    queryFn: () => technicianApi.getById(id),
+    enabled: enabled && !!id,
+    staleTime: 1000 * 60 * 10,
+  });
+}
+
+// Hook to add a technician to the roster
+export function useCreateTechnician() {
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: (data: CreateTechnicianData) => technicianApi.create(data),
+    onSuccess: (response) => {
+      invalidateQueries.technicians();
+
+      addToast({
+        type: 'success',
+        title: 'Technician Added',
+        message: `${response.data?.name ?? 'Technician'} has been added to the roster`,
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Add Technician',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to update a technician
+export function useUpdateTechnician() {
+  const queryClient = useQueryClient();
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateTechnicianData }) =>
+      technicianApi.update(id, data),
+    onSuccess: (response, { id }) => {
+      queryClient.setQueryData(queryKeys.technicians.detail(id), response);
+      invalidateQueries.technicians();
+
+      addToast({
+        type: 'success',
+        title: 'Technician Updated',
+        message: `${response.data?.name ?? 'Technician'} has been updated`,
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Update Technician',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// Hook to remove a technician from the roster
+export function useDeleteTechnician() {
+  const queryClient = useQueryClient();
+  const { addToast } = useUIStore();
+
+  return useMutation({
+    mutationFn: (id: string) => technicianApi.delete(id),
+    onSuccess: (_, deletedId) => {
+      queryClient.removeQueries({ queryKey: queryKeys.technicians.detail(deletedId) });
+      invalidateQueries.technicians();
+
+      addToast({
+        type: 'success',
+        title: 'Technician Removed',
+        message: 'Technician has been removed from the roster',
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Failed to Remove Technician',
+        message: error instanceof Error ? error.message : 'An error occurred',
+        duration: 5000,
+      });
+    },
+  });
+}
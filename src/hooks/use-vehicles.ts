@@ -4,7 +4,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { vehicleApi } from '@/lib/api-client';
 import { queryKeys, invalidateQueries } from '@/lib/query-client';
-import { useUIStore } from '@/stores';
+import { usePreferencesStore, useUIStore } from '@/stores';
 import type { Vehicle, CreateVehicleData, UpdateVehicleData } from '@/types/database';
 
 interface VehicleFilters {
@@ -127,13 +127,14 @@ export function useUpdateVehicle() {
   });
 }
 
-// Hook to delete a vehicle
+// Hook to delete a vehicle; the server archives it with its jobs and their appointments
 export function useDeleteVehicle() {
   const queryClient = useQueryClient();
   const { addToast } = useUIStore();
+  const archivedBy = usePreferencesStore((state) => state.userPreferences?.name);
 
   return useMutation({
-    mutationFn: (id: string) => vehicleApi.delete(id),
+    mutationFn: (id: string) => vehicleApi.delete(id, archivedBy),
     onSuccess: (_, deletedId) => {
       // Remove the vehicle from cache
       queryClient.removeQueries({
@@ -141,21 +142,19 @@ export function useDeleteVehicle() {
       });
 
       // Invalidate related queries
-      invalidateQueries.vehicles();
-      invalidateQueries.customers();
-      invalidateQueries.jobs();
+      invalidateQueries.archive();
 
       addToast({
         type: 'success',
-        title: 'Vehicle Deleted',
-        message: 'Vehicle has been removed from the system',
+        title: 'Vehicle Archived',
+        message: 'Vehicle has been archived. Restore it from Settings if needed.',
         duration: 3000,
       });
     },
     onError: (error) => {
       addToast({
         type: 'error',
-        title: 'Failed to Delete Vehicle',
+        title: 'Failed to Archive Vehicle',
         message: error instanceof Error ? error.message : 'An error occurred',
         duration: 5000,
       });
@@ -183,6 +182,26 @@ export function useVehicleServiceHistory(vehicleId: string, enabled: boolean = t
   });
 }
 
+// Hook to get the vehicle's odometer readings and average miles per day
+export function useVehicleMileageHistory(vehicleId: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: queryKeys.vehicles.mileage(vehicleId),
+    queryFn: () => vehicleApi.getMileageHistory(vehicleId),
+    enabled: enabled && !!vehicleId,
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+}
+
+// Hook to get the photos and documents from every job on a vehicle
+export function useVehicleAttachments(vehicleId: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: queryKeys.vehicles.attachments(vehicleId),
+    queryFn: () => vehicleApi.getAttachments(vehicleId),
+    enabled: enabled && !!vehicleId,
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+}
+
 // Hook to search vehicles
 export function useVehicleSearch(query: string, enabled: boolean = true) {
   return useQuery({
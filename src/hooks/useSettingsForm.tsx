@@ -2,13 +2,14 @@ import React, { createContext, useContext, useEffect, useMemo, useState } from '
 import type {
   ShopSettings,
   ShopHoursSettings,
-  ShopClosure,
   BayConfigurationItem,
   SchedulingDefaultsConfig,
   JobStatus,
   StatusPalette,
 } from '@/types/database';
+import { shopSettingsSchema } from '@shared/schemas';
 import { settingsApi } from '@/lib/api-client';
+import { invalidateQueries } from '@/lib/query-client';
 import { usePreferencesStore, useUIStore } from '@/stores';
 
 type ValidationErrors = {
@@ -16,6 +17,7 @@ type ValidationErrors = {
   bays?: string[];
   statusPalettes?: string[];
   schedulingDefaults?: string[];
+  general?: string[];
 };
 
 interface SettingsFormContextValue {
@@ -122,6 +124,7 @@ function normalizeSettings(data: ShopSettings | null | undefined): ShopSettings
       notes: bay.notes ?? '',
       isActive: bay.isActive ?? true,
       supportsHeavyDuty: bay.supportsHeavyDuty ?? false,
+      capabilities: bay.capabilities ?? [],
     })),
     statusPalettes: {
       ...EMPTY_SETTINGS.statusPalettes,
@@ -138,105 +141,20 @@ function serializeSettings(settings: ShopSettings) {
   return JSON.stringify(settings);
 }
 
-function validateTime(value: string) {
-  return /^\d{2}:\d{2}$/.test(value);
-}
-
-function validateHex(value: string) {
-  return /^#([0-9A-F]{6})$/i.test(value);
-}
-
-function validateClosures(closures: ShopClosure[]) {
-  const errors: string[] = [];
-  closures.forEach((closure) => {
-    if (!closure.name.trim()) {
-      errors.push('Closure entries require a name.');
-    }
-    if (!closure.startDate) {
-      errors.push(`Closure "${closure.name || 'Unnamed'}" is missing a start date.`);
-    }
-    if (closure.endDate && closure.startDate > closure.endDate) {
-      errors.push(`Closure "${closure.name || 'Unnamed'}" ends before it starts.`);
-    }
-  });
-  return errors;
-}
+const VALIDATION_SECTIONS = ['hours', 'bays', 'statusPalettes', 'schedulingDefaults'] as const;
 
+// Runs the same schema the API enforces and groups its messages by settings section
 function validateSettings(settings: ShopSettings): ValidationErrors {
-  const errors: ValidationErrors = {};
-
-  const hourIssues: string[] = [];
-  Object.entries(settings.hours.days).forEach(([day, hours]) => {
-    if (!hours.closed) {
-      if (!validateTime(hours.open) || !validateTime(hours.close)) {
-        hourIssues.push(`${day} has invalid time format. Use HH:MM.`);
-      }
-      if (hours.open >= hours.close) {
-        hourIssues.push(`${day} closing time must be after opening time.`);
-      }
-    }
-  });
-  hourIssues.push(...validateClosures(settings.hours.closures));
-  if (!settings.hours.timezone) {
-    hourIssues.push('Select a timezone for shop hours.');
-  }
-  if (hourIssues.length) {
-    errors.hours = hourIssues;
+  const result = shopSettingsSchema.safeParse(settings);
+  if (result.success) {
+    return {};
   }
 
-  const bayIssues: string[] = [];
-  const shortCodes = new Set<string>();
-  if (!settings.bays.some((bay) => bay.isActive)) {
-    bayIssues.push('At least one bay must remain active.');
-  }
-  settings.bays.forEach((bay, index) => {
-    if (!bay.name.trim()) {
-      bayIssues.push(`Bay ${index + 1} requires a display name.`);
-    }
-    const code = bay.shortCode.trim().toUpperCase();
-    if (!code) {
-      bayIssues.push(`Bay ${bay.name || index + 1} needs a short code.`);
-    }
-    if (shortCodes.has(code)) {
-      bayIssues.push(`Short code "${code}" is duplicated.`);
-    }
-    shortCodes.add(code);
-  });
-  if (bayIssues.length) {
-    errors.bays = bayIssues;
-  }
-
-  const paletteIssues: string[] = [];
-  Object.entries(settings.statusPalettes).forEach(([status, palette]) => {
-    if (!validateHex(palette.primary)) {
-      paletteIssues.push(`${status} primary color must be a valid hex code.`);
-    }
-    if (!validateHex(palette.accent)) {
-      paletteIssues.push(`${status} accent color must be a valid hex code.`);
-    }
+  const errors: ValidationErrors = {};
+  result.error.issues.forEach((issue) => {
+    const section = VALIDATION_SECTIONS.find((key) => key === issue.path[0]) ?? 'general';
+    errors[section] = [...(errors[section] ?? []), issue.message];
   });
-  if (paletteIssues.length) {
-    errors.statusPalettes = paletteIssues;
-  }
-
-  const schedulingIssues: string[] = [];
-  const defaults = settings.schedulingDefaults;
-  if (defaults.defaultJobDuration <= 0) {
-    schedulingIssues.push('Default job duration must be greater than 0.');
-  }
-  if (defaults.minimumSlotIncrement <= 0) {
-    schedulingIssues.push('Minimum slot increment must be greater than 0.');
-  }
-  if (defaults.bufferMinutes < 0 || defaults.bufferMinutes > 240) {
-    schedulingIssues.push('Buffer minutes must be between 0 and 240.');
-  }
-  if (!['strict', 'soft', 'manual'].includes(defaults.overbookingPolicy)) {
-    schedulingIssues.push('Select a valid overbooking policy.');
-  }
-  if (schedulingIssues.length) {
-    errors.schedulingDefaults = schedulingIssues;
-  }
-
   return errors;
 }
 
@@ -349,6 +267,7 @@ export const SettingsFormProvider: React.FC<{ children: React.ReactNode }> = ({
       setInitialData(normalized);
       setValidationErrors({});
       setShopSettings(normalized);
+      invalidateQueries.settings();
 
       addToast?.({
         type: 'success',
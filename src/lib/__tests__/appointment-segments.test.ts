@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatSegmentLabel,
+  getBookedHours,
+  getCurrentSegment,
+  getJobSegments,
+  getSegmentPosition,
+} from '@shared/appointment-segments';
+
+const segment = (id: string, jobId: string, startAt: string, endAt: string, archivedAt?: string) => (
+  { id, jobId, startAt, endAt, ...(archivedAt ? { archivedAt } : {}) }
+);
+
+const appointments = [
+  segment('appt_3', 'job_1', '2026-10-21T13:00:00.000Z', '2026-10-21T15:00:00.000Z'),
+  segment('appt_1', 'job_1', '2026-10-19T14:00:00.000Z', '2026-10-19T17:30:00.000Z'),
+  segment('appt_2', 'job_1', '2026-10-20T09:00:00.000Z', '2026-10-20T10:00:00.000Z'),
+  segment('appt_old', 'job_1', '2026-10-18T09:00:00.000Z', '2026-10-18T10:00:00.000Z', '2026-10-18T08:00:00.000Z'),
+  segment('appt_other', 'job_2', '2026-10-19T14:00:00.000Z', '2026-10-19T15:00:00.000Z'),
+];
+
+describe('appointment segments', () => {
+  it('numbers a job\'s live segments in start order', () => {
+    expect(getJobSegments(appointments, 'job_1').map((appt) => appt.id)).toEqual(['appt_1', 'appt_2', 'appt_3']);
+    expect(getSegmentPosition(appointments, appointments[2])).toEqual({ part: 2, total: 3 });
+    expect(formatSegmentLabel({ part: 2, total: 3 })).toBe('Part 2 of 3');
+  });
+
+  it('does not number a job booked in one piece', () => {
+    expect(getSegmentPosition(appointments, appointments[4])).toBeNull();
+  });
+
+  it('adds up booked hours across segments', () => {
+    expect(getBookedHours(getJobSegments(appointments, 'job_1'))).toBe(6.5);
+    expect(getBookedHours([])).toBe(0);
+  });
+
+  it('finds the segment under way', () => {
+    const segments = getJobSegments(appointments, 'job_1');
+    expect(getCurrentSegment(segments, new Date('2026-10-20T09:30:00.000Z'))?.id).toBe('appt_2');
+    expect(getCurrentSegment(segments, new Date('2026-10-20T10:00:00.000Z'))).toBeNull();
+  });
+});
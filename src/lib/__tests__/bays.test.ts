@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_BAYS,
+  getActiveBays,
+  getBayBookingError,
+  getBayCapabilities,
+  getBayCapabilityError,
+  getBayLabel,
+  getCapableBays,
+  getSchedulingBays,
+} from '@shared/bays';
+
+const bays = [
+  { ...DEFAULT_BAYS[0], name: 'Quick Lube' },
+  { ...DEFAULT_BAYS[1], isActive: false },
+  { id: 'bay-3', name: 'Alignment', shortCode: 'AL', isActive: true, supportsHeavyDuty: false, capabilities: ['alignment' as const], notes: '' },
+];
+
+describe('bays', () => {
+  it('labels bays by their configured name', () => {
+    expect(getBayLabel(bays, 'bay-1')).toBe('Quick Lube');
+    expect(getBayLabel(bays, 'bay-3')).toBe('Alignment');
+    expect(getBayLabel(bays, 'bay-9')).toBe('bay-9');
+    expect(getBayLabel(bays, null)).toBe('Unassigned');
+  });
+
+  it('only takes bookings in active, configured bays', () => {
+    expect(getActiveBays(bays).map((bay) => bay.id)).toEqual(['bay-1', 'bay-3']);
+    expect(getBayBookingError(bays, 'bay-3')).toBeNull();
+    expect(getBayBookingError(bays, 'bay-2')).toBe('Bay 2 is inactive and not taking new bookings');
+    expect(getBayBookingError(bays, 'bay-9')).toBe("bay-9 is not one of the shop's configured bays");
+  });
+
+  it('matches jobs to bays with the equipment they need', () => {
+    expect(getBayCapabilities(bays[1])).toEqual(['heavy-duty']);
+    expect(getBayCapabilities(bays[2])).toEqual(['alignment']);
+    expect(getCapableBays(bays, ['heavy-duty']).map((bay) => bay.id)).toEqual(['bay-2']);
+    expect(getCapableBays(bays).map((bay) => bay.id)).toEqual(['bay-1', 'bay-2', 'bay-3']);
+
+    expect(getBayCapabilityError(bays, 'bay-3', ['alignment'])).toBeNull();
+    expect(getBayCapabilityError(bays, 'bay-1', ['heavy-duty', 'alignment']))
+      .toBe('Quick Lube is missing what this job needs: Heavy-duty lift, Alignment rack');
+  });
+
+  it('keeps showing an inactive bay while it holds appointments', () => {
+    expect(getSchedulingBays(bays).map((bay) => bay.id)).toEqual(['bay-1', 'bay-3']);
+    expect(getSchedulingBays(bays, [{ bay: 'bay-2' }]).map((bay) => bay.id)).toEqual(['bay-1', 'bay-2', 'bay-3']);
+  });
+});
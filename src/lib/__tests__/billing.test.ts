@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateBillingTotals,
+  getInvoicedRevenue,
+  getNextInvoiceNumber,
+  isValidLineItem,
+} from '@shared/billing';
+
+describe('calculateBillingTotals', () => {
+  it('totals labor, parts, and fees and taxes only taxable items', () => {
+    const totals = calculateBillingTotals(
+      [
+        { type: 'labor', quantity: 1.5, unitPrice: 120, taxable: false },
+        { type: 'part', quantity: 2, unitPrice: 24.99, taxable: true },
+        { type: 'fee', quantity: 1, unitPrice: 15, taxable: false },
+      ],
+      8.25,
+    );
+
+    expect(totals).toEqual({
+      laborTotal: 180,
+      partsTotal: 49.98,
+      feesTotal: 15,
+      subtotal: 244.98,
+      tax: 4.12,
+      total: 249.1,
+    });
+  });
+
+  it('returns zeros for an empty estimate', () => {
+    expect(calculateBillingTotals([], 10).total).toBe(0);
+  });
+});
+
+describe('isValidLineItem', () => {
+  it('requires a description and a positive quantity', () => {
+    expect(isValidLineItem({ type: 'labor', description: 'Brake job', quantity: 2, unitPrice: 100 })).toBe(true);
+    expect(isValidLineItem({ type: 'labor', description: ' ', quantity: 2, unitPrice: 100 })).toBe(false);
+    expect(isValidLineItem({ type: 'part', description: 'Pads', quantity: 0, unitPrice: 40 })).toBe(false);
+    expect(isValidLineItem({ type: 'fee', description: 'Disposal', quantity: 1, unitPrice: Number.NaN })).toBe(false);
+  });
+});
+
+describe('getNextInvoiceNumber', () => {
+  const date = new Date(2026, 9, 18);
+
+  it('continues the current year sequence', () => {
+    expect(getNextInvoiceNumber(['INV-2026-0007', 'INV-2026-0012', 'INV-2025-0040'], date)).toBe('INV-2026-0013');
+  });
+
+  it('starts a new sequence each year and ignores custom numbers', () => {
+    expect(getNextInvoiceNumber(['INV-2025-0040', 'A-1001'], date)).toBe('INV-2026-0001');
+  });
+});
+
+describe('getInvoicedRevenue', () => {
+  const invoices = [
+    { status: 'paid' as const, total: 250, issuedAt: '2026-10-12T15:00:00.000Z' },
+    { status: 'issued' as const, total: 100.5, issuedAt: '2026-10-14T15:00:00.000Z' },
+    { status: 'void' as const, total: 999, issuedAt: '2026-10-14T16:00:00.000Z' },
+  ];
+
+  it('sums issued and paid invoices and skips voids', () => {
+    expect(getInvoicedRevenue(invoices)).toBe(350.5);
+  });
+
+  it('limits revenue to invoices issued within the range', () => {
+    const range = { start: new Date('2026-10-13T00:00:00.000Z'), end: new Date('2026-10-20T00:00:00.000Z') };
+    expect(getInvoicedRevenue(invoices, range)).toBe(100.5);
+  });
+});
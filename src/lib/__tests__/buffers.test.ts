@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { bookingsCollide, getBufferEnd, getBufferMinutes } from '@shared/buffers';
+
+const appointment = { start: '2026-10-20T14:00:00.000Z', end: '2026-10-20T15:00:00.000Z' };
+
+describe('appointment buffers', () => {
+  it('only reserves a buffer while auto buffers are enabled', () => {
+    expect(getBufferMinutes({ bufferMinutes: 15, enableAutoBuffers: true })).toBe(15);
+    expect(getBufferMinutes({ bufferMinutes: 15, enableAutoBuffers: false })).toBe(0);
+    expect(getBufferMinutes(null)).toBe(0);
+    expect(getBufferEnd(appointment.end, 15).toISOString()).toBe('2026-10-20T15:15:00.000Z');
+  });
+
+  it('treats the buffer after either booking as taken', () => {
+    const backToBack = { start: '2026-10-20T15:00:00.000Z', end: '2026-10-20T16:00:00.000Z' };
+    const afterBuffer = { start: '2026-10-20T15:15:00.000Z', end: '2026-10-20T16:00:00.000Z' };
+    const endingBefore = { start: '2026-10-20T13:00:00.000Z', end: '2026-10-20T13:50:00.000Z' };
+
+    expect(bookingsCollide(backToBack, appointment)).toBe(false);
+    expect(bookingsCollide(backToBack, appointment, 15)).toBe(true);
+    expect(bookingsCollide(afterBuffer, appointment, 15)).toBe(false);
+    expect(bookingsCollide(endingBefore, appointment, 15)).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { getAverageResponseHours, getCallCommunication } from '@shared/communications';
+
+describe('getCallCommunication', () => {
+  it('logs a customer call as an inbound timeline entry', () => {
+    const entry = getCallCommunication({
+      id: 'call_1',
+      customerId: 'customer_1',
+      jobId: 'job_1',
+      callStartTime: '2026-10-19T15:30:00.000Z',
+      callReason: 'Brakes grinding',
+      callNotes: 'Noise started last week',
+      customerConcerns: ['Safety', 'Cost'],
+      callTakenBy: 'Sarah Wilson',
+    });
+
+    expect(entry).toEqual({
+      customerId: 'customer_1',
+      jobId: 'job_1',
+      callId: 'call_1',
+      type: 'call',
+      direction: 'inbound',
+      subject: 'Brakes grinding',
+      body: 'Noise started last week\n\nConcerns: Safety, Cost',
+      occurredAt: '2026-10-19T15:30:00.000Z',
+      author: 'Sarah Wilson',
+    });
+  });
+
+  it('falls back to defaults when the call has few details', () => {
+    const entry = getCallCommunication({
+      id: 'call_2',
+      customerId: 'customer_1',
+      callStartTime: '2026-10-19T15:30:00.000Z',
+    });
+
+    expect(entry?.subject).toBe('Phone call');
+    expect(entry?.body).toBe('Call logged');
+    expect(entry?.author).toBe('Front desk');
+  });
+
+  it('skips calls that are not linked to a customer', () => {
+    expect(getCallCommunication({ id: 'call_3', callStartTime: '2026-10-19T15:30:00.000Z' })).toBeNull();
+  });
+});
+
+describe('getAverageResponseHours', () => {
+  it('averages the time from an inbound message to the next outbound reply', () => {
+    expect(
+      getAverageResponseHours([
+        { customerId: 'customer_1', direction: 'inbound', occurredAt: '2026-10-19T09:00:00.000Z' },
+        { customerId: 'customer_1', direction: 'inbound', occurredAt: '2026-10-19T10:00:00.000Z' },
+        { customerId: 'customer_1', direction: 'outbound', occurredAt: '2026-10-19T11:00:00.000Z' },
+        { customerId: 'customer_2', direction: 'inbound', occurredAt: '2026-10-19T12:00:00.000Z' },
+        { customerId: 'customer_2', direction: 'internal', occurredAt: '2026-10-19T12:30:00.000Z' },
+        { customerId: 'customer_2', direction: 'outbound', occurredAt: '2026-10-19T13:00:00.000Z' },
+      ])
+    ).toBe(1.5);
+  });
+
+  it('returns null when nothing has been answered', () => {
+    expect(
+      getAverageResponseHours([
+        { customerId: 'customer_1', direction: 'outbound', occurredAt: '2026-10-19T09:00:00.000Z' },
+        { customerId: 'customer_1', direction: 'inbound', occurredAt: '2026-10-19T10:00:00.000Z' },
+      ])
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import {
+  JOB_STATUSES,
+  isValidBay,
+  isValidCallOutcome,
+  isValidInvoiceNumber,
+  isValidJobStatus,
+  isValidWorkingHours,
+} from '@shared/domain';
+import { STATUS_TRANSITIONS } from '@shared/job-status-transitions';
+
+const weekday = { open: '08:00', close: '17:00', closed: false };
+const week = {
+  monday: weekday,
+  tuesday: weekday,
+  wednesday: weekday,
+  thursday: weekday,
+  friday: weekday,
+  saturday: weekday,
+  sunday: { open: '', close: '', closed: true },
+};
+
+describe('domain validators', () => {
+  it('knows every status the workflow moves between', () => {
+    const workflowStatuses = STATUS_TRANSITIONS.flatMap((transition) => [transition.from, transition.to]);
+
+    expect(workflowStatuses.every(isValidJobStatus)).toBe(true);
+    expect(JOB_STATUSES.every(isValidJobStatus)).toBe(true);
+    expect(isValidJobStatus('parked')).toBe(false);
+  });
+
+  it('checks enum values and id formats', () => {
+    expect(isValidCallOutcome('quote-requested')).toBe(true);
+    expect(isValidCallOutcome('voicemail')).toBe(false);
+    expect(isValidBay('bay-2')).toBe(true);
+    expect(isValidBay('2')).toBe(false);
+    expect(isValidInvoiceNumber('INV-2026/14')).toBe(true);
+    expect(isValidInvoiceNumber('INV 14')).toBe(false);
+  });
+
+  it('ignores the hours of closed days', () => {
+    expect(isValidWorkingHours(week)).toBe(true);
+    expect(isValidWorkingHours({ ...week, monday: { open: '17:00', close: '08:00', closed: false } })).toBe(false);
+  });
+});
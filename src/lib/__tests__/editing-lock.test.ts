@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { getEditingLockMessage, isEditingLocked } from '@shared/editing-lock';
+
+const now = new Date('2026-10-19T14:00:00.000Z');
+const booking = (startAt: string, endAt: string) => ({ startAt, endAt });
+
+describe('editing lock', () => {
+  it('locks appointments starting within the window', () => {
+    expect(getEditingLockMessage(booking('2026-10-19T14:20:00.000Z', '2026-10-19T15:00:00.000Z'), 30, now))
+      .toBe('This appointment starts in 20 minutes, inside the 30-minute editing lock');
+    expect(isEditingLocked(booking('2026-10-19T14:30:00.000Z', '2026-10-19T15:00:00.000Z'), 30, now)).toBe(true);
+    expect(isEditingLocked(booking('2026-10-19T14:31:00.000Z', '2026-10-19T15:00:00.000Z'), 30, now)).toBe(false);
+  });
+
+  it('locks appointments in progress even with no lock window', () => {
+    expect(getEditingLockMessage(booking('2026-10-19T13:30:00.000Z', '2026-10-19T15:00:00.000Z'), 0, now))
+      .toBe('This appointment is already in progress');
+    expect(isEditingLocked(booking('2026-10-19T14:05:00.000Z', '2026-10-19T15:00:00.000Z'), 0, now)).toBe(false);
+  });
+
+  it('leaves finished appointments editable', () => {
+    expect(isEditingLocked(booking('2026-10-19T12:00:00.000Z', '2026-10-19T14:00:00.000Z'), 30, now)).toBe(false);
+  });
+});
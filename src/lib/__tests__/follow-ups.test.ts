@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  countOverdueFollowUps,
+  getCallFollowUpDefaults,
+  getSnoozedDueAt,
+  isFollowUpOverdue,
+} from '@shared/follow-ups';
+
+const now = new Date('2026-10-19T15:30:00.000Z');
+
+describe('isFollowUpOverdue', () => {
+  it('flags open tasks whose due time has passed', () => {
+    expect(isFollowUpOverdue({ status: 'pending', dueAt: '2026-10-19T15:00:00.000Z' }, now)).toBe(true);
+    expect(isFollowUpOverdue({ status: 'in-progress', dueAt: '2026-10-18T09:00:00.000Z' }, now)).toBe(true);
+    expect(isFollowUpOverdue({ status: 'pending', dueAt: '2026-10-19T16:00:00.000Z' }, now)).toBe(false);
+  });
+
+  it('ignores completed and cancelled tasks', () => {
+    expect(isFollowUpOverdue({ status: 'completed', dueAt: '2026-10-01T09:00:00.000Z' }, now)).toBe(false);
+    expect(isFollowUpOverdue({ status: 'cancelled', dueAt: '2026-10-01T09:00:00.000Z' }, now)).toBe(false);
+  });
+
+  it('counts overdue tasks', () => {
+    expect(
+      countOverdueFollowUps([
+        { status: 'pending', dueAt: '2026-10-18T09:00:00.000Z' },
+        { status: 'completed', dueAt: '2026-10-18T09:00:00.000Z' },
+        { status: 'pending', dueAt: '2026-10-20T09:00:00.000Z' },
+      ], now)
+    ).toBe(1);
+  });
+});
+
+describe('getSnoozedDueAt', () => {
+  it('pushes an overdue task a day past now', () => {
+    expect(getSnoozedDueAt('2026-10-17T09:00:00.000Z', 1, now)).toBe('2026-10-20T15:30:00.000Z');
+  });
+
+  it('pushes an upcoming task a day past its due time', () => {
+    expect(getSnoozedDueAt('2026-10-21T09:00:00.000Z', 1, now)).toBe('2026-10-22T09:00:00.000Z');
+  });
+});
+
+describe('getCallFollowUpDefaults', () => {
+  it('uses the requested follow-up date and the call priority', () => {
+    const defaults = getCallFollowUpDefaults({
+      customerId: 'customer_1',
+      customerName: 'Maria Garcia',
+      phoneNumber: '555-0101',
+      quoteRequested: true,
+      followUpDate: '2026-10-21T17:00:00.000Z',
+      servicePriority: 'high',
+      nextAction: 'Price front pads and rotors',
+    }, now);
+
+    expect(defaults).toEqual({
+      customerId: 'customer_1',
+      type: 'send-quote',
+      priority: 'high',
+      title: 'Send quote to Maria Garcia',
+      description: 'Price front pads and rotors',
+      dueAt: '2026-10-21T17:00:00.000Z',
+    });
+  });
+
+  it('falls back to a next-day call back when no date was given', () => {
+    const defaults = getCallFollowUpDefaults({ phoneNumber: '555-0102', callReason: 'Check engine light' }, now);
+
+    expect(defaults.type).toBe('call-back');
+    expect(defaults.priority).toBe('normal');
+    expect(defaults.title).toBe('Call back 555-0102');
+    expect(defaults.description).toBe('Check engine light');
+    expect(defaults.dueAt).toBe('2026-10-20T15:30:00.000Z');
+  });
+});
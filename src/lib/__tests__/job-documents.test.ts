@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { buildInvoiceDocument, buildWorkOrderDocument, renderJobDocumentHtml } from '@shared/job-documents';
+import type { JobDocumentSource } from '@shared/job-documents';
+import type { Invoice } from '@shared/billing';
+
+const invoice: Invoice = {
+  id: 'invoice-1',
+  jobId: 'job-1',
+  estimateId: 'estimate-1',
+  invoiceNumber: 'INV-2026-0001',
+  lineItems: [
+    { id: 'line-1', type: 'labor', description: 'Replace front pads', quantity: 1.5, unitPrice: 120, taxable: false },
+    { id: 'line-2', type: 'part', description: 'Brake pads', quantity: 1, unitPrice: 64, taxable: true },
+  ],
+  taxRate: 8,
+  status: 'issued',
+  issuedAt: '2026-10-18T15:00:00.000Z',
+  laborTotal: 180,
+  partsTotal: 64,
+  feesTotal: 0,
+  subtotal: 244,
+  tax: 5.12,
+  total: 249.12,
+  createdAt: '2026-10-18T15:00:00.000Z',
+  updatedAt: '2026-10-18T15:00:00.000Z',
+};
+
+const source: JobDocumentSource = {
+  job: {
+    id: 'job-1',
+    title: 'Brake service',
+    status: 'in-bay',
+    priority: 'high',
+    noteEntries: [{ author: 'Alex', content: 'Rotors within spec', createdAt: '2026-10-17T16:00:00.000Z' }],
+    createdAt: '2026-10-17T15:00:00.000Z',
+  },
+  customer: { name: 'Jordan <Lee>', phone: '555-0100' },
+  vehicle: { year: 2019, make: 'Toyota', model: 'Camry', vin: '4T1B11HK5KU000001', mileage: 48250 },
+  call: { callReason: 'Brakes', customerConcerns: ['Squeal when stopping'] },
+  shop: { shopName: 'Main Street Auto', phone: '555-0000' },
+  invoice,
+};
+
+describe('buildWorkOrderDocument', () => {
+  it('includes the vehicle, mileage in, and concerns from the originating call', () => {
+    const document = buildWorkOrderDocument(source);
+    const vehicle = document.sections.find((section) => section.heading === 'Vehicle');
+    const concerns = document.sections.find((section) => section.heading === 'Customer Concerns');
+
+    expect(vehicle?.fields).toContainEqual(['VIN', '4T1B11HK5KU000001']);
+    expect(vehicle?.fields).toContainEqual(['Mileage in', '48,250 mi']);
+    expect(concerns?.items).toEqual(['Squeal when stopping', 'Brakes']);
+  });
+});
+
+describe('buildInvoiceDocument', () => {
+  it('lists line items and totals from the invoice', () => {
+    const document = buildInvoiceDocument(source);
+
+    expect(document.reference).toBe('INV-2026-0001');
+    expect(document.sections[2].table?.rows[0]).toEqual(['Labor', 'Replace front pads', '1.5 h', '$120.00', '$180.00']);
+    expect(document.totals?.at(-1)).toEqual(['Total', '$249.12']);
+  });
+
+  it('requires an invoice', () => {
+    expect(() => buildInvoiceDocument({ ...source, invoice: null })).toThrow();
+  });
+});
+
+describe('renderJobDocumentHtml', () => {
+  it('escapes record content', () => {
+    const html = renderJobDocumentHtml(buildInvoiceDocument(source));
+    expect(html).toContain('Jordan &lt;Lee&gt;');
+    expect(html).not.toContain('Jordan <Lee>');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { getAverageCycleTimeHours, getJobCompletions } from '@shared/job-status-history';
+import type { JobStatusEvent } from '@/types/database';
+
+const event = (
+  jobId: string,
+  toStatus: JobStatusEvent['toStatus'],
+  createdAt: string,
+  fromStatus?: JobStatusEvent['fromStatus'],
+): JobStatusEvent => ({
+  id: `${jobId}-${toStatus}-${createdAt}`,
+  jobId,
+  fromStatus,
+  toStatus,
+  actor: 'Shop Team',
+  createdAt,
+});
+
+describe('getJobCompletions', () => {
+  it('measures cycle time from when work started', () => {
+    const completions = getJobCompletions([
+      event('job-1', 'completed', '2026-10-19T12:00:00Z', 'in-bay'),
+      event('job-1', 'scheduled', '2026-10-18T09:00:00Z'),
+      event('job-1', 'in-bay', '2026-10-19T08:00:00Z', 'scheduled'),
+    ]);
+
+    expect(completions).toEqual([
+      { jobId: 'job-1', completedAt: '2026-10-19T12:00:00Z', cycleTimeHours: 4 },
+    ]);
+  });
+
+  it('falls back to the cycle start when work was never started', () => {
+    const [completion] = getJobCompletions([
+      event('job-2', 'scheduled', '2026-10-19T08:00:00Z'),
+      event('job-2', 'completed', '2026-10-19T10:00:00Z', 'scheduled'),
+    ]);
+
+    expect(completion.cycleTimeHours).toBe(2);
+  });
+
+  it('keeps the latest completion in range and restarts the cycle on reopen', () => {
+    const events = [
+      event('job-3', 'in-progress', '2026-10-12T08:00:00Z'),
+      event('job-3', 'completed', '2026-10-12T10:00:00Z', 'in-progress'),
+      event('job-3', 'in-bay', '2026-10-19T08:00:00Z', 'completed'),
+      event('job-3', 'completed', '2026-10-19T09:00:00Z', 'in-bay'),
+    ];
+
+    expect(getJobCompletions(events)).toEqual([
+      { jobId: 'job-3', completedAt: '2026-10-19T09:00:00Z', cycleTimeHours: 1 },
+    ]);
+    expect(
+      getJobCompletions(events, { start: new Date('2026-10-12T00:00:00Z'), end: new Date('2026-10-13T00:00:00Z') }),
+    ).toEqual([{ jobId: 'job-3', completedAt: '2026-10-12T10:00:00Z', cycleTimeHours: 2 }]);
+  });
+
+  it('drops a job reopened after its completion within the range', () => {
+    const events = [
+      event('job-4', 'in-bay', '2026-10-19T08:00:00Z'),
+      event('job-4', 'completed', '2026-10-19T10:00:00Z', 'in-bay'),
+      event('job-4', 'in-bay', '2026-10-19T11:00:00Z', 'completed'),
+    ];
+
+    expect(getJobCompletions(events, { start: new Date('2026-10-19T00:00:00Z'), end: new Date('2026-10-20T00:00:00Z') })).toEqual([]);
+    expect(getJobCompletions(events)).toEqual([]);
+  });
+});
+
+describe('getAverageCycleTimeHours', () => {
+  it('averages measured cycle times only', () => {
+    expect(
+      getAverageCycleTimeHours([
+        { jobId: 'a', completedAt: '2026-10-19T10:00:00Z', cycleTimeHours: 2 },
+        { jobId: 'b', completedAt: '2026-10-19T10:00:00Z', cycleTimeHours: 4 },
+        { jobId: 'c', completedAt: '2026-10-19T10:00:00Z', cycleTimeHours: null },
+      ]),
+    ).toBe(3);
+    expect(getAverageCycleTimeHours([])).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { JobStatusTransitionService, checkStatusTransition } from '@/lib/job-status-transitions';
+import type { JobStatus } from '@/types/database';
+
+describe('checkStatusTransition', () => {
+  it('allows workflow transitions and keeping the current status', () => {
+    expect(checkStatusTransition('incoming-call', 'scheduled')).toMatchObject({ allowed: true, overridden: false });
+    expect(checkStatusTransition('scheduled', 'incoming-call').allowed).toBe(true);
+    expect(checkStatusTransition('completed', 'completed').allowed).toBe(true);
+  });
+
+  it('moves jobs in and out of intake and in-progress, and unschedules them', () => {
+    const moves: Array<[JobStatus, JobStatus]> = [
+      ['intake', 'incoming-call'],
+      ['intake', 'scheduled'],
+      ['scheduled', 'incoming-call'],
+      ['scheduled', 'in-progress'],
+      ['in-progress', 'in-bay'],
+      ['in-progress', 'waiting-parts'],
+      ['in-progress', 'completed'],
+      ['in-bay', 'in-progress'],
+      ['waiting-parts', 'in-progress'],
+    ];
+    for (const [from, to] of moves) {
+      expect(checkStatusTransition(from, to)).toMatchObject({ allowed: true, overridden: false });
+    }
+  });
+
+  it('rejects transitions outside the workflow', () => {
+    expect(checkStatusTransition('intake', 'completed')).toMatchObject({
+      allowed: false,
+      rule: 'undefined-transition',
+    });
+  });
+
+  it('only reopens completed jobs with an override reason', () => {
+    expect(checkStatusTransition('completed', 'in-bay')).toMatchObject({
+      allowed: false,
+      rule: 'override-required',
+    });
+    expect(checkStatusTransition('completed', 'in-bay', { reason: '   ' }).allowed).toBe(false);
+    expect(checkStatusTransition('completed', 'in-bay', { reason: 'Comeback for rattle' })).toMatchObject({
+      allowed: true,
+      overridden: true,
+    });
+  });
+});
+
+describe('JobStatusTransitionService.getNextStatus', () => {
+  it('only suggests forward moves', () => {
+    expect(JobStatusTransitionService.getNextStatus('scheduled')).toBe('in-bay');
+    expect(JobStatusTransitionService.getNextStatus('completed')).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getAverageMilesPerDay,
+  getMileageHistory,
+  getMileageRegressionWarning,
+  getPreviousReading,
+  projectMileage,
+} from '@shared/mileage';
+
+const jobs = [
+  {
+    id: 'job_2',
+    title: 'Brake service',
+    checkInOdometer: { mileage: 43000, recordedAt: '2026-07-10T09:00:00.000Z' },
+  },
+  {
+    id: 'job_1',
+    title: 'Oil change',
+    checkInOdometer: { mileage: 40000, recordedAt: '2026-04-11T09:00:00.000Z' },
+    checkOutOdometer: { mileage: 40004, recordedAt: '2026-04-11T16:00:00.000Z' },
+  },
+];
+
+describe('mileage history', () => {
+  it('lists the readings from every job oldest first', () => {
+    expect(getMileageHistory(jobs).map((entry) => [entry.jobId, entry.kind, entry.mileage])).toEqual([
+      ['job_1', 'check-in', 40000],
+      ['job_1', 'check-out', 40004],
+      ['job_2', 'check-in', 43000],
+    ]);
+  });
+
+  it('warns when a reading is lower than the one before it', () => {
+    const history = getMileageHistory(jobs);
+    const previous = getPreviousReading(history, '2026-07-10T17:00:00.000Z', { jobId: 'job_2', kind: 'check-out' });
+
+    expect(previous?.mileage).toBe(43000);
+    expect(getMileageRegressionWarning(43100, previous)).toBeNull();
+    expect(getMileageRegressionWarning(4310, previous)).toBe(
+      '4,310 mi is lower than the check-in reading of 43,000 mi for "Brake service"'
+    );
+  });
+
+  it('leaves out the reading being replaced when finding the previous one', () => {
+    const history = getMileageHistory(jobs);
+    expect(getPreviousReading(history, '2026-07-10T09:00:00.000Z', { jobId: 'job_2', kind: 'check-in' })?.mileage).toBe(40004);
+  });
+
+  it('averages miles per day across the trail and projects it forward', () => {
+    const readings = getMileageHistory(jobs);
+    const averageMilesPerDay = getAverageMilesPerDay(readings);
+
+    expect(averageMilesPerDay).toBe(33.3);
+    expect(getAverageMilesPerDay(readings.slice(0, 2))).toBeNull();
+    expect(projectMileage({ vehicleId: 'vehicle_1', readings, averageMilesPerDay }, new Date('2026-07-20T09:00:00.000Z'))).toBe(43333);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  InvalidCursorError,
+  JOB_SORT_FIELDS,
+  paginateByCursor,
+  parseListQuery,
+  sortRecords,
+} from '@shared/pagination';
+
+const jobs = [
+  { id: 'job_1', title: 'Brakes', createdAt: '2026-10-01T09:00:00.000Z' },
+  { id: 'job_2', title: 'Alignment', createdAt: '2026-10-03T09:00:00.000Z' },
+  { id: 'job_3', title: 'Oil change', createdAt: '2026-10-02T09:00:00.000Z' },
+  { id: 'job_4', title: 'Tires', createdAt: '2026-10-03T09:00:00.000Z' },
+  { id: 'job_5', title: 'Diagnostics' },
+];
+
+const newestFirst = { field: 'createdAt', order: 'desc' } as const;
+
+describe('sortRecords', () => {
+  it('breaks ties on id and puts records missing the field last', () => {
+    expect(sortRecords(jobs, newestFirst).map((job) => job.id)).toEqual(['job_2', 'job_4', 'job_3', 'job_1', 'job_5']);
+    expect(sortRecords(jobs, { field: 'title', order: 'asc' }).map((job) => job.title)).toEqual([
+      'Alignment',
+      'Brakes',
+      'Diagnostics',
+      'Oil change',
+      'Tires',
+    ]);
+  });
+});
+
+describe('paginateByCursor', () => {
+  it('walks every record exactly once and reports the total on each page', () => {
+    const sorted = sortRecords(jobs, newestFirst);
+    const first = paginateByCursor(sorted, newestFirst, { limit: 2 });
+    const second = paginateByCursor(sorted, newestFirst, { limit: 2, cursor: first.nextCursor ?? undefined });
+    const third = paginateByCursor(sorted, newestFirst, { limit: 2, cursor: second.nextCursor ?? undefined });
+
+    expect([first, second, third].map((page) => page.items.map((job) => job.id))).toEqual([
+      ['job_2', 'job_4'],
+      ['job_3', 'job_1'],
+      ['job_5'],
+    ]);
+    expect(first.total).toBe(5);
+    expect(third.nextCursor).toBeNull();
+  });
+
+  it('keeps its place when newer records arrive between pages', () => {
+    const first = paginateByCursor(sortRecords(jobs, newestFirst), newestFirst, { limit: 2 });
+    const withNewJob = sortRecords([...jobs, { id: 'job_6', title: 'Battery', createdAt: '2026-10-04T09:00:00.000Z' }], newestFirst);
+
+    const second = paginateByCursor(withNewJob, newestFirst, { limit: 2, cursor: first.nextCursor ?? undefined });
+    expect(second.items.map((job) => job.id)).toEqual(['job_3', 'job_1']);
+  });
+
+  it('returns everything when no limit is given', () => {
+    const page = paginateByCursor(jobs, newestFirst);
+    expect(page.items).toHaveLength(5);
+    expect(page.nextCursor).toBeNull();
+  });
+});
+
+describe('parseListQuery', () => {
+  it('keeps supported sort fields and numeric limits', () => {
+    expect(parseListQuery({ sort: 'title', order: 'desc', limit: '25' }, JOB_SORT_FIELDS)).toEqual({
+      sort: 'title',
+      order: 'desc',
+      limit: 25,
+      cursor: undefined,
+    });
+    expect(parseListQuery({ sort: 'customerId', order: 'sideways', limit: 'all' }, JOB_SORT_FIELDS)).toEqual({
+      sort: undefined,
+      order: undefined,
+      limit: undefined,
+      cursor: undefined,
+    });
+  });
+
+  it('rejects cursors it did not issue', () => {
+    expect(() => parseListQuery({ cursor: 'not-a-cursor' }, JOB_SORT_FIELDS)).toThrow(InvalidCursorError);
+  });
+});
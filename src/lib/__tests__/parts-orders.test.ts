@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import {
+  areAllPartsReceived,
+  getPartsOrderTotal,
+  isPartsOrderOverdue,
+  toDateKey,
+} from '@shared/parts-orders';
+
+const today = new Date(2026, 9, 19, 15, 30);
+
+describe('isPartsOrderOverdue', () => {
+  it('flags open orders whose expected date has passed', () => {
+    expect(isPartsOrderOverdue({ status: 'ordered', expectedAt: '2026-10-18' }, today)).toBe(true);
+    expect(isPartsOrderOverdue({ status: 'backordered', expectedAt: '2026-10-19' }, today)).toBe(false);
+    expect(isPartsOrderOverdue({ status: 'ordered' }, today)).toBe(false);
+  });
+
+  it('ignores received and cancelled orders', () => {
+    expect(isPartsOrderOverdue({ status: 'received', expectedAt: '2026-10-01' }, today)).toBe(false);
+    expect(isPartsOrderOverdue({ status: 'cancelled', expectedAt: '2026-10-01' }, today)).toBe(false);
+  });
+});
+
+describe('areAllPartsReceived', () => {
+  it('requires every non-cancelled order to be received', () => {
+    expect(areAllPartsReceived([{ status: 'received' }, { status: 'cancelled' }])).toBe(true);
+    expect(areAllPartsReceived([{ status: 'received' }, { status: 'ordered' }])).toBe(false);
+    expect(areAllPartsReceived([{ status: 'cancelled' }])).toBe(false);
+    expect(areAllPartsReceived([])).toBe(false);
+  });
+});
+
+describe('getPartsOrderTotal', () => {
+  it('sums quantity times unit cost, skipping cancelled orders', () => {
+    expect(
+      getPartsOrderTotal([
+        { status: 'ordered', quantity: 2, unitCost: 45.5 },
+        { status: 'received', quantity: 1, unitCost: 20 },
+        { status: 'cancelled', quantity: 4, unitCost: 100 },
+      ]),
+    ).toBe(111);
+  });
+});
+
+describe('toDateKey', () => {
+  it('uses the local calendar date', () => {
+    expect(toDateKey(today)).toBe('2026-10-19');
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { formatDependencySummary, hasDependencies, summarizeDependencies } from '@shared/record-dependencies';
+
+describe('summarizeDependencies', () => {
+  it('keeps only the record types that are actually referenced', () => {
+    const summary = summarizeDependencies({ vehicles: 2, jobs: 0, calls: 3, invoices: 0 });
+
+    expect(summary).toEqual({ vehicles: 2, calls: 3 });
+    expect(hasDependencies(summary)).toBe(true);
+  });
+
+  it('reports no dependencies when every count is zero', () => {
+    expect(hasDependencies(summarizeDependencies({ appointments: 0, communications: 0 }))).toBe(false);
+  });
+});
+
+describe('formatDependencySummary', () => {
+  it('lists counts in a fixed order with singular and plural labels', () => {
+    expect(formatDependencySummary({ calls: 3, vehicles: 2, jobs: 1 })).toBe('2 vehicles, 1 job and 3 calls');
+    expect(formatDependencySummary({ followUpTasks: 1 })).toBe('1 follow-up task');
+  });
+
+  it('falls back to a neutral phrase for an empty summary', () => {
+    expect(formatDependencySummary({})).toBe('no dependent records');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  callSchema,
+  customerSchema,
+  estimateSchema,
+  invoiceStatusUpdateSchema,
+  jobSchema,
+  jobUpdateSchema,
+  partsOrderSchema,
+  shopSettingsSchema,
+  toFieldErrors,
+} from '@shared/schemas';
+
+const job = {
+  title: 'Brake service',
+  customerId: 'customer_1',
+  vehicleId: 'vehicle_1',
+  estHours: 2,
+  status: 'scheduled',
+  priority: 'medium',
+};
+
+const weekday = { open: '08:00', close: '17:00', closed: false };
+
+const settings = {
+  shopName: 'Main Street Auto',
+  hours: {
+    timezone: 'America/Los_Angeles',
+    days: {
+      monday: weekday,
+      tuesday: weekday,
+      wednesday: weekday,
+      thursday: weekday,
+      friday: weekday,
+      saturday: { open: '09:00', close: '13:00', closed: false },
+      sunday: { open: '00:00', close: '00:00', closed: true },
+    },
+    closures: [{ id: 'closure_1', name: 'Lift service', startDate: '2026-10-20', endDate: '', appliesTo: 'bay', bayId: 'bay-9' }],
+  },
+  bays: [
+    { id: 'bay-1', name: 'Bay 1', shortCode: 'B1', isActive: true, supportsHeavyDuty: false, notes: '' },
+    { id: 'bay-2', name: 'Bay 2', shortCode: 'b1', isActive: false, supportsHeavyDuty: true, notes: '' },
+  ],
+  statusPalettes: { scheduled: { primary: '#2563EB', accent: 'blue' } },
+  schedulingDefaults: {
+    defaultJobDuration: 60,
+    minimumSlotIncrement: 15,
+    bufferMinutes: 10,
+    enableAutoBuffers: false,
+    lockEditingWithinMinutes: 30,
+    allowSameDayScheduling: true,
+    overbookingPolicy: 'soft',
+  },
+};
+
+describe('request schemas', () => {
+  it('reports each bad field by name', () => {
+    const result = customerSchema.safeParse({ name: '  ', phone: '555-01', email: 'maria@', preferredContact: 'fax' });
+
+    expect(result.success).toBe(false);
+    expect(result.success ? {} : toFieldErrors(result.error)).toEqual({
+      name: 'Customer name is required',
+      phone: 'Phone number must have 10-15 digits',
+      email: 'Invalid email address',
+      preferredContact: 'Invalid preferred contact method',
+    });
+  });
+
+  it('trims text and drops fields the schema does not know', () => {
+    const result = jobSchema.parse({ ...job, title: '  Brake service ', archivedAt: '2026-10-18T12:00:00.000Z' });
+
+    expect(result.title).toBe('Brake service');
+    expect(result).not.toHaveProperty('archivedAt');
+  });
+
+  it('lets updates send only the fields that changed', () => {
+    expect(jobUpdateSchema.safeParse({ invoiceNumber: 'INV-2026/14' }).success).toBe(true);
+    expect(jobUpdateSchema.safeParse({ invoiceNumber: '' }).success).toBe(true);
+    expect(jobUpdateSchema.safeParse({ invoiceNumber: 'INV 14' }).success).toBe(false);
+    expect(jobUpdateSchema.safeParse({ status: 'parked' }).success).toBe(false);
+  });
+
+  it('accepts a call without a start time', () => {
+    expect(callSchema.safeParse({ phoneNumber: '555-0101', callOutcome: 'follow-up' }).success).toBe(true);
+    expect(callSchema.safeParse({ phoneNumber: '555-0101' }).success).toBe(false);
+  });
+
+  it('checks parts orders and billing payloads', () => {
+    const order = { supplier: 'NAPA', partNumber: 'BP-204', quantity: 2, unitCost: 45.5 };
+
+    expect(partsOrderSchema.safeParse({ ...order, expectedAt: '' }).success).toBe(true);
+    expect(partsOrderSchema.safeParse({ ...order, quantity: 1.5 }).success).toBe(false);
+    expect(partsOrderSchema.safeParse({ ...order, expectedAt: '10/24/2026' }).success).toBe(false);
+
+    const estimate = estimateSchema.safeParse({ lineItems: [{ type: 'labor', description: 'Brakes', quantity: 0, unitPrice: 120 }] });
+    expect(estimate.success ? {} : toFieldErrors(estimate.error)).toEqual({
+      'lineItems.0.quantity': 'Quantity must be greater than zero',
+    });
+    expect(estimateSchema.safeParse({}).success).toBe(false);
+
+    expect(invoiceStatusUpdateSchema.safeParse({ status: 'paid' }).success).toBe(true);
+    expect(invoiceStatusUpdateSchema.safeParse({ status: 'issued' }).success).toBe(false);
+  });
+
+  it('checks shop settings across sections', () => {
+    const result = shopSettingsSchema.safeParse(settings);
+
+    expect(result.success).toBe(false);
+    expect(result.success ? {} : toFieldErrors(result.error)).toEqual({
+      'bays.1.shortCode': 'Short code "B1" is duplicated.',
+      'statusPalettes.scheduled.accent': 'Accent color must be a valid hex code',
+      'hours.closures.0.bayId': 'Closure "Lift service" must be assigned to a bay.',
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { createShopHoursBackgroundEvents, zonedTimeToDate } from '@/lib/shop-hours';
+import type { ShopHoursSettings } from '@/types/database';
+
+const buildHours = (overrides: Partial<ShopHoursSettings> = {}): ShopHoursSettings => ({
+  timezone: 'America/Los_Angeles',
+  days: {
+    monday: { open: '08:00', close: '17:00', closed: false },
+    tuesday: { open: '08:00', close: '17:00', closed: false },
+    wednesday: { open: '08:00', close: '17:00', closed: false },
+    thursday: { open: '08:00', close: '17:00', closed: false },
+    friday: { open: '08:00', close: '17:00', closed: false },
+    saturday: { open: '09:00', close: '14:00', closed: false },
+    sunday: { open: '09:00', close: '14:00', closed: true },
+  },
+  closures: [],
+  ...overrides,
+});
+
+// Monday 2026-10-19, 00:00–23:59 Pacific (UTC-7)
+const mondayRange = {
+  start: new Date('2026-10-19T07:00:00Z'),
+  end: new Date('2026-10-20T06:59:00Z'),
+};
+
+describe('zonedTimeToDate', () => {
+  it('resolves wall-clock times in the shop timezone', () => {
+    expect(zonedTimeToDate('2026-10-19', '08:00', 'America/Los_Angeles').toISOString()).toBe(
+      '2026-10-19T15:00:00.000Z',
+    );
+    expect(zonedTimeToDate('2026-12-01', '08:00', 'America/Los_Angeles').toISOString()).toBe(
+      '2026-12-01T16:00:00.000Z',
+    );
+  });
+});
+
+describe('createShopHoursBackgroundEvents', () => {
+  it('shades the time before opening and after closing on open days', () => {
+    const events = createShopHoursBackgroundEvents(buildHours(), mondayRange);
+
+    expect(events).toHaveLength(2);
+    expect(events.every((event) => event.display === 'background')).toBe(true);
+    expect((events[0].end as Date).toISOString()).toBe('2026-10-19T15:00:00.000Z');
+    expect((events[1].start as Date).toISOString()).toBe('2026-10-20T00:00:00.000Z');
+  });
+
+  it('shades whole days that are closed or covered by a shop closure', () => {
+    const sunday = createShopHoursBackgroundEvents(buildHours(), {
+      start: new Date('2026-10-18T07:00:00Z'),
+      end: new Date('2026-10-19T06:59:00Z'),
+    });
+    expect(sunday).toHaveLength(1);
+    expect(sunday[0].title).toBe('Closed');
+
+    const holiday = createShopHoursBackgroundEvents(
+      buildHours({
+        closures: [
+          { id: 'c1', name: 'Staff Day', startDate: '2026-10-19', endDate: '2026-10-19', appliesTo: 'shop' },
+        ],
+      }),
+      mondayRange,
+    );
+    expect(holiday).toHaveLength(1);
+    expect(holiday[0].title).toBe('Staff Day');
+    expect(holiday[0].resourceId).toBeUndefined();
+  });
+
+  it('limits bay closures to the affected bay', () => {
+    const events = createShopHoursBackgroundEvents(
+      buildHours({
+        closures: [
+          { id: 'c2', name: 'Lift service', startDate: '2026-10-19', endDate: '2026-10-19', appliesTo: 'bay', bayId: 'bay-2' },
+        ],
+      }),
+      mondayRange,
+    );
+
+    const closure = events.find((event) => event.title === 'Lift service');
+    expect(closure?.resourceId).toBe('bay-2');
+    expect(events).toHaveLength(3);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import {
+  UNASSIGNED_TECHNICIAN,
+  getAssignedTechnicianId,
+  getShiftHours,
+  matchesTechnicianFilter,
+  parseSkills,
+} from '@/lib/technicians';
+import type { Technician } from '@/types/database';
+
+const workingHours: Technician['workingHours'] = {
+  monday: { open: '08:00', close: '16:30', closed: false },
+  tuesday: { open: '08:00', close: '16:30', closed: false },
+  wednesday: { open: '08:00', close: '16:30', closed: false },
+  thursday: { open: '08:00', close: '16:30', closed: false },
+  friday: { open: '08:00', close: '12:00', closed: false },
+  saturday: { open: '09:00', close: '13:00', closed: true },
+  sunday: { open: '09:00', close: '13:00', closed: true },
+};
+
+describe('getAssignedTechnicianId', () => {
+  it('prefers the appointment technician over the job technician', () => {
+    expect(getAssignedTechnicianId({ technicianId: 'tech-2' }, { technicianId: 'tech-1' })).toBe('tech-2');
+    expect(getAssignedTechnicianId({}, { technicianId: 'tech-1' })).toBe('tech-1');
+    expect(getAssignedTechnicianId({ technicianId: '' }, null)).toBeUndefined();
+  });
+});
+
+describe('matchesTechnicianFilter', () => {
+  it('handles all, unassigned, and specific technicians', () => {
+    expect(matchesTechnicianFilter('tech-1', 'all')).toBe(true);
+    expect(matchesTechnicianFilter(undefined, UNASSIGNED_TECHNICIAN)).toBe(true);
+    expect(matchesTechnicianFilter('tech-1', UNASSIGNED_TECHNICIAN)).toBe(false);
+    expect(matchesTechnicianFilter('tech-1', 'tech-1')).toBe(true);
+    expect(matchesTechnicianFilter('tech-2', 'tech-1')).toBe(false);
+  });
+});
+
+describe('getShiftHours', () => {
+  it('returns the scheduled hours for the weekday and zero on days off', () => {
+    expect(getShiftHours({ workingHours }, new Date(2026, 9, 19))).toBe(8.5); // Monday
+    expect(getShiftHours({ workingHours }, new Date(2026, 9, 23))).toBe(4); // Friday
+    expect(getShiftHours({ workingHours }, new Date(2026, 9, 24))).toBe(0); // Saturday
+  });
+});
+
+describe('parseSkills', () => {
+  it('trims, lowercases, and dedupes comma-separated skills', () => {
+    expect(parseSkills(' Brakes, electrical,,brakes ')).toEqual(['brakes', 'electrical']);
+  });
+});
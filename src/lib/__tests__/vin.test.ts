@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { decodeVin, getVinCheckDigit, getVinError, isValidVin, normalizeVin } from '@shared/vin';
+
+const today = new Date('2026-10-18T12:00:00Z');
+
+// Fills in position 9 so test VINs can be built from a readable prefix
+const withCheckDigit = (vin: string) => `${vin.slice(0, 8)}${getVinCheckDigit(vin)}${vin.slice(9)}`;
+
+describe('VIN validation', () => {
+  it('checks the length, characters and check digit', () => {
+    expect(isValidVin('1HGCM82673A123456')).toBe(true);
+    expect(isValidVin('1M8GDM9AXKP042788')).toBe(true);
+    expect(getVinError('1HGCM82673A12345')).toBe('VIN must be 17 characters');
+    expect(getVinError('1HGCM82673A12345O')).toBe('VIN can only contain letters and digits, and never I, O or Q');
+    expect(getVinError('1HGCM82643A123456')).toBe('VIN check digit does not match; check for a mistyped character');
+  });
+
+  it('ignores case and the separators people type', () => {
+    expect(normalizeVin(' 1hgcm8-2673a 123456')).toBe('1HGCM82673A123456');
+    expect(isValidVin('1hgcm82673a123456')).toBe(true);
+  });
+});
+
+describe('VIN decoding', () => {
+  it('reads the manufacturer, model and model year', () => {
+    expect(decodeVin('1HGCM82673A123456', today)).toEqual({
+      vin: '1HGCM82673A123456',
+      wmi: '1HG',
+      country: 'United States',
+      make: 'Honda',
+      model: 'Accord',
+      modelYear: 2003,
+    });
+  });
+
+  it('uses position 7 to tell the 30-year model year cycles apart', () => {
+    expect(decodeVin(withCheckDigit('5YJ3E1EA0KF317000'), today)).toMatchObject({ make: 'Tesla', model: 'Model 3', modelYear: 2019 });
+    expect(decodeVin('1M8GDM9AXKP042788', today)?.modelYear).toBe(1989);
+  });
+
+  it('leaves out what the bundled tables do not know', () => {
+    const decoded = decodeVin(withCheckDigit('9BWZZZ377VT004251'), today);
+    expect(decoded).toMatchObject({ wmi: '9BW', modelYear: 1997 });
+    expect(decoded?.make).toBeUndefined();
+    expect(decodeVin('1HGCM82643A123456', today)).toBeNull();
+  });
+});
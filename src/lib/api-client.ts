@@ -2,14 +2,27 @@
 // Centralized HTTP client with proper error handling, typing, and request/response interceptors
 
 import type {
-  Customer, Vehicle, Job, Appointment, Call, ShopSettings,
+  Customer, Vehicle, Job, Appointment, Call, ShopSettings, Technician, PartsOrder, JobMilestone, JobAttachment,
+  Estimate, Invoice, InvoiceStatus, JobBilling, SaveEstimateData, JobDocumentKind, FollowUpTask,
+  Communication,
   CreateCustomerData, UpdateCustomerData,
   CreateVehicleData, UpdateVehicleData,
-  CreateJobData, UpdateJobData,
+  CreateJobData, UpdateJobData, StatusOverride, JobStatusEvent,
   CreateAppointmentData, UpdateAppointmentData,
+  AppointmentBookingOptions, AppointmentBookingResponse, AppointmentLockedResponse, EditingLockOverride,
+  DeleteRecordOptions, DependencySummary, ArchivableEntity, ArchiveMetadata, FieldErrors,
   CreateCallData, UpdateCallData,
-  JobFilters, CustomerFilters, CallFilters,
-  ApiResponse, PaginatedResponse,
+  CreateTechnicianData, UpdateTechnicianData,
+  CreatePartsOrderData, UpdatePartsOrderData,
+  CreateJobMilestoneData, UpdateJobMilestoneData,
+  CreateJobAttachmentData, UpdateJobAttachmentData, UploadJobAttachmentData,
+  RecordOdometerData, OdometerReadingResponse, VehicleMileageHistory,
+  CreateFollowUpTaskData, UpdateFollowUpTaskData,
+  CreateCommunicationData, UpdateCommunicationData,
+  JobFilters, CustomerFilters, CallFilters, TechnicianFilters, InvoiceFilters, FollowUpFilters,
+  CommunicationFilters,
+  ApiResponse, ListResponse, PaginatedResponse, ListQuery,
+  JobSortField, CallSortField, CustomerSortField,
   DashboardStats
 } from '@/types/database';
 
@@ -153,6 +166,42 @@ const mockData = {
       updatedAt: new Date('2024-01-28').toISOString(),
     }
   ],
+  technicians: [
+    {
+      id: 'tech-1',
+      name: 'Mike Johnson',
+      skills: ['engine', 'transmission'],
+      isActive: true,
+      workingHours: {
+        monday: { open: '08:00', close: '17:00', closed: false },
+        tuesday: { open: '08:00', close: '17:00', closed: false },
+        wednesday: { open: '08:00', close: '17:00', closed: false },
+        thursday: { open: '08:00', close: '17:00', closed: false },
+        friday: { open: '08:00', close: '17:00', closed: false },
+        saturday: { open: '09:00', close: '14:00', closed: true },
+        sunday: { open: '09:00', close: '14:00', closed: true },
+      },
+      createdAt: new Date('2024-01-01').toISOString(),
+      updatedAt: new Date('2024-01-01').toISOString(),
+    },
+    {
+      id: 'tech-2',
+      name: 'Sarah Wilson',
+      skills: ['brakes', 'suspension'],
+      isActive: true,
+      workingHours: {
+        monday: { open: '08:00', close: '17:00', closed: false },
+        tuesday: { open: '08:00', close: '17:00', closed: false },
+        wednesday: { open: '08:00', close: '17:00', closed: false },
+        thursday: { open: '08:00', close: '17:00', closed: false },
+        friday: { open: '08:00', close: '17:00', closed: false },
+        saturday: { open: '09:00', close: '14:00', closed: false },
+        sunday: { open: '09:00', close: '14:00', closed: true },
+      },
+      createdAt: new Date('2024-01-01').toISOString(),
+      updatedAt: new Date('2024-01-01').toISOString(),
+    }
+  ],
   calls: [
     {
       id: '1',
@@ -330,6 +379,38 @@ export class ApiError extends Error {
   }
 }
 
+// Dependencies reported by a purge the server refused (409) because other records still point at it
+export function getBlockedDeleteDependencies(error: unknown): DependencySummary | null {
+  if (error instanceof ApiError && error.status === 409 && error.response?.dependencies) {
+    return error.response.dependencies as DependencySummary;
+  }
+  return null;
+}
+
+// The vehicle that already has the VIN a vehicle save was refused (409) for
+export function getDuplicateVinVehicle(error: unknown): Vehicle | null {
+  if (error instanceof ApiError && error.status === 409 && error.response?.duplicateOf) {
+    return error.response.duplicateOf as Vehicle;
+  }
+  return null;
+}
+
+// The editing lock (in minutes) an appointment change was refused (423) for without an override reason
+export function getEditingLockMinutes(error: unknown): number | null {
+  if (error instanceof ApiError && error.status === 423) {
+    return error.response?.lockEditingWithinMinutes ?? 0;
+  }
+  return null;
+}
+
+// Per-field messages from a request body the server's schema rejected (400)
+export function getFieldErrors(error: unknown): FieldErrors | null {
+  if (error instanceof ApiError && error.status === 400 && error.response?.fieldErrors) {
+    return error.response.fieldErrors as FieldErrors;
+  }
+  return null;
+}
+
 // Generic fetch wrapper with error handling
 async function apiRequest<T>(
   endpoint: string,
@@ -342,9 +423,10 @@ async function apiRequest<T>(
 
   const url = `${API_BASE_URL}${endpoint}`;
   
+  // Multipart bodies need the browser to set the boundary in the Content-Type itself
   const config: RequestInit = {
     headers: {
-      'Content-Type': 'application/json',
+      ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
       ...options.headers,
     },
     ...options,
@@ -418,6 +500,19 @@ async function mockApiRequest<T>(
         count: mockData.vehicles.length,
       };
     }
+    if (method === 'GET' && endpoint.endsWith('/attachments')) {
+      return {
+        success: true,
+        data: [] as T,
+      };
+    }
+    if (method === 'GET' && endpoint.endsWith('/mileage')) {
+      const history: VehicleMileageHistory = { vehicleId: endpoint.split('/')[2], readings: [], averageMilesPerDay: null };
+      return {
+        success: true,
+        data: history as T,
+      };
+    }
   }
 
   if (endpoint.startsWith('/jobs')) {
@@ -428,6 +523,40 @@ async function mockApiRequest<T>(
         count: mockData.jobs.length,
       };
     }
+    // Mock fixtures carry no status history, parts orders, milestones or attachments
+    if (method === 'GET' && (
+      endpoint.startsWith('/jobs/status-events') || endpoint.endsWith('/history') || endpoint.endsWith('/parts')
+      || endpoint.endsWith('/milestones') || endpoint.endsWith('/attachments')
+    )) {
+      return {
+        success: true,
+        data: [] as T,
+      };
+    }
+    if (method === 'GET' && endpoint.endsWith('/billing')) {
+      return {
+        success: true,
+        data: { estimate: null, invoices: [] } as T,
+      };
+    }
+  }
+
+  if (endpoint.startsWith('/invoices')) {
+    if (method === 'GET') {
+      return {
+        success: true,
+        data: [] as T,
+      };
+    }
+  }
+
+  if (endpoint.startsWith('/technicians')) {
+    if (method === 'GET' && endpoint.split('?')[0] === '/technicians') {
+      return {
+        success: true,
+        data: mockData.technicians as T,
+      };
+    }
   }
 
   if (endpoint.startsWith('/calls')) {
@@ -440,6 +569,24 @@ async function mockApiRequest<T>(
     }
   }
 
+  if (endpoint.startsWith('/follow-ups')) {
+    if (method === 'GET') {
+      return {
+        success: true,
+        data: [] as T,
+      };
+    }
+  }
+
+  if (endpoint.startsWith('/communications')) {
+    if (method === 'GET') {
+      return {
+        success: true,
+        data: [] as T,
+      };
+    }
+  }
+
   if (endpoint.startsWith('/appointments')) {
     if (method === 'GET' && endpoint === '/appointments') {
       return {
@@ -532,6 +679,25 @@ function buildQueryString(params: Record<string, any>): string {
   return searchParams.toString();
 }
 
+// Turns a list endpoint response into the page shape the UI works with
+function toPaginatedResponse<T>(response: ListResponse<T>, limit?: number): ApiResponse<PaginatedResponse<T>> {
+  const items = response.data ?? [];
+  const nextCursor = response.nextCursor ?? null;
+
+  return {
+    success: response.success,
+    error: response.error,
+    message: response.message,
+    data: {
+      items,
+      total: response.total ?? items.length,
+      pageSize: limit ?? items.length,
+      hasMore: nextCursor !== null,
+      nextCursor,
+    },
+  };
+}
+
 // Customer API
 export const customerApi = {
   // Get all customers with optional filters
@@ -540,6 +706,15 @@ export const customerApi = {
     return apiRequest<Customer[]>(`/customers${queryString ? `?${queryString}` : ''}`);
   },
 
+  // Get one page of customers; pass the previous page's nextCursor to continue
+  getPage: async (
+    filters: CustomerFilters & ListQuery<CustomerSortField> = {}
+  ): Promise<ApiResponse<PaginatedResponse<Customer>>> => {
+    const queryString = buildQueryString(filters);
+    const response: ListResponse<Customer> = await apiRequest<Customer[]>(`/customers${queryString ? `?${queryString}` : ''}`);
+    return toPaginatedResponse(response, filters.limit);
+  },
+
   // Get customer by ID
   getById: async (id: string): Promise<ApiResponse<Customer>> => {
     return apiRequest<Customer>(`/customers/${id}`);
@@ -561,10 +736,11 @@ export const customerApi = {
     });
   },
 
-  // Delete customer
-  delete: async (id: string): Promise<ApiResponse<void>> => {
-    return apiRequest<void>(`/customers/${id}`, {
+  // Delete (archive) customer; it can be restored or purged from the archive
+  delete: async (id: string, archivedBy?: string): Promise<ApiResponse<Customer>> => {
+    return apiRequest<Customer>(`/customers/${id}`, {
       method: 'DELETE',
+      body: JSON.stringify({ archivedBy }),
     });
   },
 
@@ -604,10 +780,11 @@ export const vehicleApi = {
     });
   },
 
-  // Delete vehicle
-  delete: async (id: string): Promise<ApiResponse<void>> => {
-    return apiRequest<void>(`/vehicles/${id}`, {
+  // Delete (archive) vehicle; it can be restored or purged from the archive
+  delete: async (id: string, archivedBy?: string): Promise<ApiResponse<Vehicle>> => {
+    return apiRequest<Vehicle>(`/vehicles/${id}`, {
       method: 'DELETE',
+      body: JSON.stringify({ archivedBy }),
     });
   },
 
@@ -616,6 +793,16 @@ export const vehicleApi = {
     return apiRequest<Job[]>(`/vehicles/${vehicleId}/service-history`);
   },
 
+  // Get the odometer readings from the vehicle's jobs and its average miles per day
+  getMileageHistory: async (vehicleId: string): Promise<ApiResponse<VehicleMileageHistory>> => {
+    return apiRequest<VehicleMileageHistory>(`/vehicles/${vehicleId}/mileage`);
+  },
+
+  // Get the photos and documents from every job on the vehicle
+  getAttachments: async (vehicleId: string): Promise<ApiResponse<JobAttachment[]>> => {
+    return apiRequest<JobAttachment[]>(`/vehicles/${vehicleId}/attachments`);
+  },
+
   // Search vehicles
   search: async (query: string): Promise<ApiResponse<Vehicle[]>> => {
     return apiRequest<Vehicle[]>(`/vehicles/search?q=${encodeURIComponent(query)}`);
@@ -641,11 +828,29 @@ export const jobApi = {
     return apiRequest<Job[]>(`/jobs${queryString ? `?${queryString}` : ''}`);
   },
 
+  // Get one page of jobs; pass the previous page's nextCursor to continue
+  getPage: async (filters: JobFilters & ListQuery<JobSortField> = {}): Promise<ApiResponse<PaginatedResponse<Job>>> => {
+    const queryString = buildQueryString(filters);
+    const response: ListResponse<Job> = await apiRequest<Job[]>(`/jobs${queryString ? `?${queryString}` : ''}`);
+    return toPaginatedResponse(response, filters.limit);
+  },
+
   // Get job by ID
   getById: async (id: string): Promise<ApiResponse<Job>> => {
     return apiRequest<Job>(`/jobs/${id}`);
   },
 
+  // Get status history for a job
+  getHistory: async (id: string): Promise<ApiResponse<JobStatusEvent[]>> => {
+    return apiRequest<JobStatusEvent[]>(`/jobs/${id}/history`);
+  },
+
+  // Get status changes across all jobs
+  getStatusEvents: async (dateRange?: { start: string; end: string }): Promise<ApiResponse<JobStatusEvent[]>> => {
+    const queryString = buildQueryString({ dateRange });
+    return apiRequest<JobStatusEvent[]>(`/jobs/status-events${queryString ? `?${queryString}` : ''}`);
+  },
+
   // Create new job
   create: async (data: CreateJobData): Promise<ApiResponse<Job>> => {
     return apiRequest<Job>('/jobs', {
@@ -662,18 +867,37 @@ export const jobApi = {
     });
   },
 
+  // Record the odometer at check-in or check-out; mileageWarning is set when it went down
+  recordOdometer: async (id: string, data: RecordOdometerData): Promise<OdometerReadingResponse> => {
+    return apiRequest<Job>(`/jobs/${id}/odometer`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
   // Update job status specifically
-  updateStatus: async (id: string, status: string): Promise<ApiResponse<Job>> => {
+  // endCurrentSegment (moving to waiting-parts) ends the job's in-progress appointment segment now
+  updateStatus: async (
+    id: string,
+    status: string,
+    override?: StatusOverride,
+    endCurrentSegment?: boolean
+  ): Promise<ApiResponse<Job>> => {
     return apiRequest<Job>(`/jobs/${id}/status`, {
       method: 'PATCH',
-      body: JSON.stringify({ status }),
+      body: JSON.stringify({
+        status,
+        ...(override ? { override } : {}),
+        ...(endCurrentSegment ? { endCurrentSegment } : {}),
+      }),
     });
   },
 
-  // Delete job
-  delete: async (id: string): Promise<ApiResponse<void>> => {
-    return apiRequest<void>(`/jobs/${id}`, {
+  // Delete (archive) job; it can be restored or purged from the archive
+  delete: async (id: string, archivedBy?: string): Promise<ApiResponse<Job>> => {
+    return apiRequest<Job>(`/jobs/${id}`, {
       method: 'DELETE',
+      body: JSON.stringify({ archivedBy }),
     });
   },
 };
@@ -691,26 +915,64 @@ export const appointmentApi = {
     return apiRequest<Appointment>(`/appointments/${id}`);
   },
 
-  // Create new appointment
-  create: async (data: CreateAppointmentData): Promise<ApiResponse<Appointment>> => {
+  // Every segment a job is booked in, in start order
+  getByJob: async (jobId: string): Promise<ApiResponse<Appointment[]>> => {
+    return apiRequest<Appointment[]>(`/appointments?jobId=${encodeURIComponent(jobId)}`);
+  },
+
+  // Create new appointment (409 when it overlaps and the overbooking policy rejects it)
+  create: async (
+    data: CreateAppointmentData,
+    options: AppointmentBookingOptions = {}
+  ): Promise<AppointmentBookingResponse> => {
     return apiRequest<Appointment>('/appointments', {
       method: 'POST',
-      body: JSON.stringify(data),
+      body: JSON.stringify({ ...data, ...options }),
     });
   },
 
   // Update appointment
-  update: async (id: string, data: UpdateAppointmentData): Promise<ApiResponse<Appointment>> => {
+  update: async (
+    id: string,
+    data: UpdateAppointmentData,
+    options: AppointmentBookingOptions = {}
+  ): Promise<AppointmentBookingResponse> => {
     return apiRequest<Appointment>(`/appointments/${id}`, {
       method: 'PUT',
-      body: JSON.stringify(data),
+      body: JSON.stringify({ ...data, ...options }),
     });
   },
 
-  // Delete appointment
-  delete: async (id: string): Promise<ApiResponse<void>> => {
-    return apiRequest<void>(`/appointments/${id}`, {
+  // Delete (archive) appointment; it can be restored or purged from the archive.
+  // Inside the editing lock the server answers 423 unless a lock override reason is sent.
+  delete: async (
+    id: string,
+    archivedBy?: string,
+    lockOverride?: EditingLockOverride
+  ): Promise<AppointmentLockedResponse> => {
+    return apiRequest<Appointment>(`/appointments/${id}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ archivedBy, lockOverride }),
+    });
+  },
+};
+
+// Archive API
+// Entity names double as the route prefixes
+export const archiveApi = {
+  // Restore an archived record along with the records archived with it
+  restore: async (entity: ArchivableEntity, id: string): Promise<ApiResponse<ArchiveMetadata>> => {
+    return apiRequest<ArchiveMetadata>(`/${entity}/${id}/restore`, {
+      method: 'POST',
+    });
+  },
+
+  // Permanently delete a record (admin only); cascade also removes the records that still depend on it
+  purge: async (entity: ArchivableEntity, id: string, options: DeleteRecordOptions = {}): Promise<ApiResponse<void>> => {
+    const queryString = buildQueryString({ cascade: options.cascade || undefined });
+    return apiRequest<void>(`/${entity}/${id}/purge${queryString ? `?${queryString}` : ''}`, {
       method: 'DELETE',
+      ...(options.lockOverride && { body: JSON.stringify({ lockOverride: options.lockOverride }) }),
     });
   },
 };
@@ -723,6 +985,13 @@ export const callApi = {
     return apiRequest<Call[]>(`/calls${queryString ? `?${queryString}` : ''}`);
   },
 
+  // Get one page of calls; pass the previous page's nextCursor to continue
+  getPage: async (filters: CallFilters & ListQuery<CallSortField> = {}): Promise<ApiResponse<PaginatedResponse<Call>>> => {
+    const queryString = buildQueryString(filters);
+    const response: ListResponse<Call> = await apiRequest<Call[]>(`/calls${queryString ? `?${queryString}` : ''}`);
+    return toPaginatedResponse(response, filters.limit);
+  },
+
   // Get call by ID
   getById: async (id: string): Promise<ApiResponse<Call>> => {
     return apiRequest<Call>(`/calls/${id}`);
@@ -744,14 +1013,329 @@ export const callApi = {
     });
   },
 
-  // Delete call
+  // Delete (archive) call; it can be restored or purged from the archive
+  delete: async (id: string, archivedBy?: string): Promise<ApiResponse<Call>> => {
+    return apiRequest<Call>(`/calls/${id}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ archivedBy }),
+    });
+  },
+};
+
+// Follow-up API
+export const followUpApi = {
+  // Get follow-up tasks with optional filters
+  getAll: async (filters: FollowUpFilters = {}): Promise<ApiResponse<FollowUpTask[]>> => {
+    const queryString = buildQueryString(filters);
+    return apiRequest<FollowUpTask[]>(`/follow-ups${queryString ? `?${queryString}` : ''}`);
+  },
+
+  // Get open follow-ups past their due time
+  getOverdue: async (): Promise<ApiResponse<FollowUpTask[]>> => {
+    return apiRequest<FollowUpTask[]>('/follow-ups/overdue');
+  },
+
+  // Create follow-up
+  create: async (data: CreateFollowUpTaskData): Promise<ApiResponse<FollowUpTask>> => {
+    return apiRequest<FollowUpTask>('/follow-ups', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Update follow-up
+  update: async (id: string, data: UpdateFollowUpTaskData): Promise<ApiResponse<FollowUpTask>> => {
+    return apiRequest<FollowUpTask>(`/follow-ups/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Assign a follow-up (null unassigns)
+  assign: async (id: string, assignedTo: string | null): Promise<ApiResponse<FollowUpTask>> => {
+    return apiRequest<FollowUpTask>(`/follow-ups/${id}/assign`, {
+      method: 'POST',
+      body: JSON.stringify({ assignedTo }),
+    });
+  },
+
+  // Push a follow-up back, by a day unless a time is given
+  snooze: async (id: string, until?: string): Promise<ApiResponse<FollowUpTask>> => {
+    return apiRequest<FollowUpTask>(`/follow-ups/${id}/snooze`, {
+      method: 'POST',
+      body: JSON.stringify({ until }),
+    });
+  },
+
+  // Complete a follow-up
+  complete: async (id: string, data: { outcome?: string; completedBy?: string } = {}): Promise<ApiResponse<FollowUpTask>> => {
+    return apiRequest<FollowUpTask>(`/follow-ups/${id}/complete`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Delete follow-up
+  delete: async (id: string): Promise<ApiResponse<void>> => {
+    return apiRequest<void>(`/follow-ups/${id}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+// Communication API
+export const communicationApi = {
+  // Get communication log entries with optional filters (newest first)
+  getAll: async (filters: CommunicationFilters = {}): Promise<ApiResponse<Communication[]>> => {
+    const queryString = buildQueryString(filters);
+    return apiRequest<Communication[]>(`/communications${queryString ? `?${queryString}` : ''}`);
+  },
+
+  // Log a communication
+  create: async (data: CreateCommunicationData): Promise<ApiResponse<Communication>> => {
+    return apiRequest<Communication>('/communications', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Update communication
+  update: async (id: string, data: UpdateCommunicationData): Promise<ApiResponse<Communication>> => {
+    return apiRequest<Communication>(`/communications/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Delete communication
+  delete: async (id: string): Promise<ApiResponse<void>> => {
+    return apiRequest<void>(`/communications/${id}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+// Technician API
+export const technicianApi = {
+  // Get all technicians with optional filters
+  getAll: async (filters: TechnicianFilters = {}): Promise<ApiResponse<Technician[]>> => {
+    const queryString = buildQueryString(filters);
+    return apiRequest<Technician[]>(`/technicians${queryString ? `?${queryString}` : ''}`);
+  },
+
+  // Get technician by ID
+  getById: async (id: string): Promise<ApiResponse<Technician>> => {
+    return apiRequest<Technician>(`/technicians/${id}`);
+  },
+
+  // Create new technician
+  create: async (data: CreateTechnicianData): Promise<ApiResponse<Technician>> => {
+    return apiRequest<Technician>('/technicians', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Update technician
+  update: async (id: string, data: UpdateTechnicianData): Promise<ApiResponse<Technician>> => {
+    return apiRequest<Technician>(`/technicians/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Delete technician
   delete: async (id: string): Promise<ApiResponse<void>> => {
-    return apiRequest<void>(`/calls/${id}`, {
+    return apiRequest<void>(`/technicians/${id}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+// Parts Orders API
+export const partsOrderApi = {
+  // Get parts orders for a job
+  getByJob: async (jobId: string): Promise<ApiResponse<PartsOrder[]>> => {
+    return apiRequest<PartsOrder[]>(`/jobs/${jobId}/parts`);
+  },
+
+  // Order a part for a job
+  create: async (jobId: string, data: CreatePartsOrderData): Promise<ApiResponse<PartsOrder>> => {
+    return apiRequest<PartsOrder>(`/jobs/${jobId}/parts`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Update parts order
+  update: async (jobId: string, id: string, data: UpdatePartsOrderData): Promise<ApiResponse<PartsOrder>> => {
+    return apiRequest<PartsOrder>(`/jobs/${jobId}/parts/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Delete parts order
+  delete: async (jobId: string, id: string): Promise<ApiResponse<void>> => {
+    return apiRequest<void>(`/jobs/${jobId}/parts/${id}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+// Job Milestones API
+export const jobMilestoneApi = {
+  // Get the milestones for a job
+  getByJob: async (jobId: string): Promise<ApiResponse<JobMilestone[]>> => {
+    return apiRequest<JobMilestone[]>(`/jobs/${jobId}/milestones`);
+  },
+
+  // Add a milestone to a job
+  create: async (jobId: string, data: CreateJobMilestoneData): Promise<ApiResponse<JobMilestone>> => {
+    return apiRequest<JobMilestone>(`/jobs/${jobId}/milestones`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Update milestone
+  update: async (jobId: string, id: string, data: UpdateJobMilestoneData): Promise<ApiResponse<JobMilestone>> => {
+    return apiRequest<JobMilestone>(`/jobs/${jobId}/milestones/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Delete milestone
+  delete: async (jobId: string, id: string): Promise<ApiResponse<void>> => {
+    return apiRequest<void>(`/jobs/${jobId}/milestones/${id}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+// Job Attachments API
+export const jobAttachmentApi = {
+  // Get the attachments for a job
+  getByJob: async (jobId: string): Promise<ApiResponse<JobAttachment[]>> => {
+    return apiRequest<JobAttachment[]>(`/jobs/${jobId}/attachments`);
+  },
+
+  // Attach a link to a job
+  create: async (jobId: string, data: CreateJobAttachmentData): Promise<ApiResponse<JobAttachment>> => {
+    return apiRequest<JobAttachment>(`/jobs/${jobId}/attachments`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Upload a photo or document to a job
+  upload: async (jobId: string, { file, ...fields }: UploadJobAttachmentData): Promise<ApiResponse<JobAttachment>> => {
+    const body = new FormData();
+    body.append('file', file);
+    Object.entries(fields).forEach(([key, value]) => {
+      if (value) {
+        body.append(key, value);
+      }
+    });
+
+    return apiRequest<JobAttachment>(`/jobs/${jobId}/attachments/upload`, {
+      method: 'POST',
+      body,
+    });
+  },
+
+  // Uploaded files and thumbnails are loaded directly by the browser rather than fetched as JSON
+  getFileUrl: (attachment: JobAttachment, variant: 'download' | 'view' | 'thumbnail' = 'view'): string => {
+    const base = `${API_BASE_URL}/jobs/${attachment.jobId}/attachments/${attachment.id}`;
+    if (variant === 'thumbnail') {
+      return `${base}/thumbnail`;
+    }
+    return `${base}/download${variant === 'view' ? '?inline=true' : ''}`;
+  },
+
+  // Update attachment
+  update: async (jobId: string, id: string, data: UpdateJobAttachmentData): Promise<ApiResponse<JobAttachment>> => {
+    return apiRequest<JobAttachment>(`/jobs/${jobId}/attachments/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Delete attachment
+  delete: async (jobId: string, id: string): Promise<ApiResponse<void>> => {
+    return apiRequest<void>(`/jobs/${jobId}/attachments/${id}`, {
       method: 'DELETE',
     });
   },
 };
 
+// Billing API
+export const billingApi = {
+  // Get the estimate and invoices for a job
+  getByJob: async (jobId: string): Promise<ApiResponse<JobBilling>> => {
+    return apiRequest<JobBilling>(`/jobs/${jobId}/billing`);
+  },
+
+  // Create or revise the job's estimate (returns it to draft)
+  saveEstimate: async (jobId: string, data: SaveEstimateData): Promise<ApiResponse<Estimate>> => {
+    return apiRequest<Estimate>(`/jobs/${jobId}/estimate`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Record customer approval
+  approveEstimate: async (jobId: string, approvedBy?: string): Promise<ApiResponse<Estimate>> => {
+    return apiRequest<Estimate>(`/jobs/${jobId}/estimate/approve`, {
+      method: 'POST',
+      body: JSON.stringify({ approvedBy }),
+    });
+  },
+
+  // Record that the customer declined
+  declineEstimate: async (jobId: string): Promise<ApiResponse<Estimate>> => {
+    return apiRequest<Estimate>(`/jobs/${jobId}/estimate/decline`, {
+      method: 'POST',
+    });
+  },
+
+  // Convert the approved estimate into an invoice
+  createInvoice: async (jobId: string, invoiceNumber?: string): Promise<ApiResponse<Invoice>> => {
+    return apiRequest<Invoice>(`/jobs/${jobId}/invoices`, {
+      method: 'POST',
+      body: JSON.stringify({ invoiceNumber }),
+    });
+  },
+
+  // Mark an invoice paid or void
+  updateInvoiceStatus: async (
+    jobId: string,
+    invoiceId: string,
+    status: Exclude<InvoiceStatus, 'issued'>
+  ): Promise<ApiResponse<Invoice>> => {
+    return apiRequest<Invoice>(`/jobs/${jobId}/invoices/${invoiceId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status }),
+    });
+  },
+
+  // Get invoices across all jobs
+  getInvoices: async (filters: InvoiceFilters = {}): Promise<ApiResponse<Invoice[]>> => {
+    const queryString = buildQueryString(filters);
+    return apiRequest<Invoice[]>(`/invoices${queryString ? `?${queryString}` : ''}`);
+  },
+};
+
+// Job documents API
+export const jobDocumentsApi = {
+  // PDFs are opened directly by the browser rather than fetched as JSON
+  getPdfUrl: (jobId: string, kind: JobDocumentKind, invoiceId?: string): string => {
+    const query = invoiceId ? `?invoiceId=${encodeURIComponent(invoiceId)}` : '';
+    return `${API_BASE_URL}/jobs/${jobId}/documents/${kind}${query}`;
+  },
+};
+
 // Settings API
 export const settingsApi = {
   // Get shop settings
@@ -803,6 +1387,14 @@ export const api = {
   jobs: jobApi,
   appointments: appointmentApi,
   calls: callApi,
+  followUps: followUpApi,
+  communications: communicationApi,
+  technicians: technicianApi,
+  partsOrders: partsOrderApi,
+  jobMilestones: jobMilestoneApi,
+  jobAttachments: jobAttachmentApi,
+  billing: billingApi,
+  jobDocuments: jobDocumentsApi,
   settings: settingsApi,
   dashboard: dashboardApi,
   health: healthApi,
@@ -1,36 +1,73 @@
 // Calendar Configuration
 // FullCalendar configuration for the mechanic shop scheduling system
 
-import type { CalendarOptions } from '@fullcalendar/core';
+import type { CalendarOptions, EventInput } from '@fullcalendar/core';
 import dayGridPlugin from '@fullcalendar/daygrid';
 import timeGridPlugin from '@fullcalendar/timegrid';
 import resourcePlugin from '@fullcalendar/resource';
 import resourceDayGridPlugin from '@fullcalendar/resource-daygrid';
 import resourceTimeGridPlugin from '@fullcalendar/resource-timegrid';
 import interactionPlugin from '@fullcalendar/interaction';
-import type { BayResource, CalendarEvent } from '@/types/database';
-
-// Bay resources configuration (2-bay setup as per PRD)
-export const bayResources: BayResource[] = [
-  {
-    id: 'bay-1',
-    title: 'Bay 1',
-    businessHours: {
-      daysOfWeek: [1, 2, 3, 4, 5], // Monday to Friday
-      startTime: '08:00',
-      endTime: '17:00',
-    },
-  },
-  {
-    id: 'bay-2',
-    title: 'Bay 2',
-    businessHours: {
-      daysOfWeek: [1, 2, 3, 4, 5], // Monday to Friday
-      startTime: '08:00',
-      endTime: '17:00',
+import { getSchedulingBays } from '@shared/bays';
+import { bookingsCollide, getBufferEnd } from '@shared/buffers';
+import { formatSegmentLabel } from '@shared/appointment-segments';
+import { getAssignedTechnicianId } from '@/lib/technicians';
+import type {
+  BayBusinessHours,
+  BayConfigurationItem,
+  BayResource,
+  CalendarEvent,
+  SegmentPosition,
+  ShopHoursSettings,
+  Weekday,
+} from '@/types/database';
+
+const DAYS_OF_WEEK: Record<Weekday, number> = {
+  sunday: 0,
+  monday: 1,
+  tuesday: 2,
+  wednesday: 3,
+  thursday: 4,
+  friday: 5,
+  saturday: 6,
+};
+
+// FullCalendar business hours from the configured shop hours, one group per distinct open/close time
+export function buildBusinessHours(hours: ShopHoursSettings): BayBusinessHours[] {
+  const groups = new Map<string, BayBusinessHours>();
+
+  (Object.entries(hours.days) as Array<[Weekday, ShopHoursSettings['days'][Weekday]]>).forEach(([weekday, day]) => {
+    if (day.closed) {
+      return;
+    }
+    const key = `${day.open}-${day.close}`;
+    const group = groups.get(key) ?? { daysOfWeek: [], startTime: day.open, endTime: day.close };
+    group.daysOfWeek.push(DAYS_OF_WEEK[weekday]);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values());
+}
+
+// Calendar columns for the configured bays. Inactive bays only appear while they still hold
+// appointments, and are marked so drops into them can be refused.
+export function buildBayResources(
+  bays: BayConfigurationItem[],
+  hours?: ShopHoursSettings,
+  appointments: Array<{ bay: string }> = []
+): BayResource[] {
+  const businessHours = hours ? buildBusinessHours(hours) : undefined;
+
+  return getSchedulingBays(bays, appointments).map((bay) => ({
+    id: bay.id,
+    title: bay.isActive ? bay.name : `${bay.name} (inactive)`,
+    businessHours,
+    extendedProps: {
+      isActive: bay.isActive,
+      shortCode: bay.shortCode,
     },
-  },
-];
+  }));
+}
 
 // Enhanced status-based colors for calendar events
 export const statusColors = {
@@ -102,6 +139,18 @@ export const priorityStyles = {
   },
 } as const;
 
+// Stripe colors tying together the segments of a job booked in several parts
+export const segmentColors = ['#7c3aed', '#0891b2', '#db2777', '#65a30d', '#ea580c', '#4f46e5'] as const;
+
+// Every segment of a job gets the same color, picked from the job id
+export function getSegmentColor(jobId: string): string {
+  let hash = 0;
+  for (const char of jobId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return segmentColors[hash % segmentColors.length];
+}
+
 // Time-sensitive styling (for overdue or urgent appointments)
 export const timeSensitiveStyles = {
   'overdue': {
@@ -177,15 +226,7 @@ export const defaultCalendarConfig: Partial<CalendarOptions> = {
     },
   },
 
-  // Resources (bays)
-  resources: bayResources,
-
-  // Business hours
-  businessHours: {
-    daysOfWeek: [1, 2, 3, 4, 5], // Monday to Friday
-    startTime: '08:00',
-    endTime: '17:00',
-  },
+  // Resources (bays) and business hours come from shop settings; see buildBayResources
 
   // Interaction settings
   editable: true,
@@ -228,6 +269,10 @@ export const defaultCalendarConfig: Partial<CalendarOptions> = {
       classes.push(`priority-${arg.event.extendedProps.priority}`);
     }
 
+    if (arg.event.extendedProps?.segment) {
+      classes.push('appointment-segment');
+    }
+
     return classes;
   },
 
@@ -241,10 +286,12 @@ export const defaultCalendarConfig: Partial<CalendarOptions> = {
       const jobTitle = event.title.split(' - ')[0]; // Get just the job part
       const customerName = props?.customerName;
       const vehicleInfo = props?.vehicleInfo;
+      const segment = props?.segment as SegmentPosition | undefined;
       
       return {
         html: `
           <div class="custom-event-content">
+            ${segment ? `<div class="event-segment">${formatSegmentLabel(segment)}</div>` : ''}
             <div class="event-job-title">${jobTitle}</div>
             ${customerName ? `<div class="event-customer">${customerName}</div>` : ''}
             ${vehicleInfo ? `<div class="event-vehicle">${vehicleInfo}</div>` : ''}
@@ -254,7 +301,9 @@ export const defaultCalendarConfig: Partial<CalendarOptions> = {
     }
     
     // For month view, keep it simpler
-    return { html: `<div class="fc-event-title">${event.title}</div>` };
+    const segment = props?.segment as SegmentPosition | undefined;
+    const segmentLabel = segment ? ` · ${formatSegmentLabel(segment)}` : '';
+    return { html: `<div class="fc-event-title">${event.title}${segmentLabel}</div>` };
   },
 
   // Enhanced event styling function
@@ -319,6 +368,11 @@ export const defaultCalendarConfig: Partial<CalendarOptions> = {
       }
     }
 
+    // Linked segments share a stripe color (see .appointment-segment in calendar.css)
+    if (event.extendedProps?.segmentColor) {
+      info.el.style.setProperty('--segment-color', event.extendedProps.segmentColor);
+    }
+
     // Add status indicator icons
     addStatusIndicator(info.el, status, priority);
 
@@ -338,34 +392,6 @@ export const defaultCalendarConfig: Partial<CalendarOptions> = {
       info.el.style.filter = '';
     });
   },
-
-  // Validation functions
-  selectAllow: (selectInfo) => {
-    // Only allow selection during business hours
-    const start = selectInfo.start;
-    const end = selectInfo.end;
-    const businessStart = new Date(start);
-    businessStart.setHours(8, 0, 0, 0); // 8 AM
-    const businessEnd = new Date(start);
-    businessEnd.setHours(17, 0, 0, 0); // 5 PM
-
-    return start >= businessStart && end <= businessEnd;
-  },
-
-  eventAllow: (dropInfo, draggedEvent) => {
-    // Prevent scheduling outside business hours
-    const start = dropInfo.start;
-    const end = dropInfo.end;
-    
-    if (!start || !end) return false;
-
-    const businessStart = new Date(start);
-    businessStart.setHours(8, 0, 0, 0);
-    const businessEnd = new Date(start);
-    businessEnd.setHours(17, 0, 0, 0);
-
-    return start >= businessStart && end <= businessEnd;
-  },
 };
 
 // Helper function to add status indicator icons
@@ -457,6 +483,10 @@ function createEventTooltip(event: any): string {
     lines.push(`Vehicle: ${props.vehicleInfo}`);
   }
 
+  if (props?.segment) {
+    lines.push(`Segment: ${formatSegmentLabel(props.segment)}`);
+  }
+
   if (props?.estimatedHours) {
     lines.push(`Est. Hours: ${props.estimatedHours}`);
   }
@@ -473,7 +503,8 @@ export function createCalendarEvent(
   appointment: any,
   job?: any,
   customer?: any,
-  vehicle?: any
+  vehicle?: any,
+  segment?: SegmentPosition | null
 ): CalendarEvent {
   // Create a detailed title with job, customer, and vehicle info
   const jobTitle = job?.title || `Job ${appointment.jobId}`;
@@ -509,50 +540,70 @@ export function createCalendarEvent(
       vehicleModel: vehicle?.model,
       appointmentId: appointment.id,
       invoiceNumber: job?.invoiceNumber,
+      technicianId: getAssignedTechnicianId(appointment, job),
+      requiredCapabilities: job?.requiredCapabilities,
+      ...(segment ? { segment, segmentColor: getSegmentColor(appointment.jobId) } : {}),
     },
   };
 }
 
-// Bay availability checker
+// Bay availability checker; `bufferMinutes` keeps turnaround time free after every appointment
 export function checkBayAvailability(
   bayId: string,
   startTime: Date,
   endTime: Date,
   existingEvents: CalendarEvent[],
-  excludeEventId?: string
+  excludeEventId?: string,
+  bufferMinutes: number = 0
 ): boolean {
   const bayEvents = existingEvents.filter(
     event => event.resourceId === bayId && event.id !== excludeEventId
   );
 
-  return !bayEvents.some(event => {
-    const eventStart = new Date(event.start);
-    const eventEnd = new Date(event.end);
-    
-    // Check for overlap
-    return (
-      (startTime >= eventStart && startTime < eventEnd) ||
-      (endTime > eventStart && endTime <= eventEnd) ||
-      (startTime <= eventStart && endTime >= eventEnd)
-    );
-  });
+  return !bayEvents.some(event => bookingsCollide(
+    { start: startTime, end: endTime },
+    { start: event.start, end: event.end },
+    bufferMinutes
+  ));
+}
+
+// Hatched blocks covering the buffer after each appointment, in the appointment's bay
+export function createBufferEvents(events: CalendarEvent[], bufferMinutes: number): EventInput[] {
+  if (bufferMinutes <= 0) {
+    return [];
+  }
+
+  return events.map((event) => ({
+    id: `buffer-${event.id}`,
+    title: `${bufferMinutes} min buffer`,
+    start: event.end,
+    end: getBufferEnd(event.end, bufferMinutes),
+    resourceId: event.resourceId,
+    display: 'background',
+    classNames: ['appointment-buffer'],
+    extendedProps: { bufferFor: event.id },
+  }));
 }
 
 // Time slot generator for scheduling suggestions
 export function generateTimeSlots(
   date: Date,
   duration: number, // in hours
-  slotSize: number = 0.5 // 30-minute slots
+  slotSize: number = 0.5, // 30-minute slots
+  openHours: { open: string; close: string } = { open: '08:00', close: '17:00' },
+  bufferMinutes: number = 0 // the job's buffer has to fit before closing too
 ): Array<{ start: Date; end: Date }> {
   const slots = [];
+  const [openHour, openMinute] = openHours.open.split(':').map(Number);
+  const [closeHour, closeMinute] = openHours.close.split(':').map(Number);
   const businessStart = new Date(date);
-  businessStart.setHours(8, 0, 0, 0);
+  businessStart.setHours(openHour, openMinute, 0, 0);
   const businessEnd = new Date(date);
-  businessEnd.setHours(17, 0, 0, 0);
+  businessEnd.setHours(closeHour, closeMinute, 0, 0);
 
   let currentTime = new Date(businessStart);
   
-  while (currentTime.getTime() + (duration * 60 * 60 * 1000) <= businessEnd.getTime()) {
+  while (currentTime.getTime() + (duration * 60 * 60 * 1000) + (bufferMinutes * 60 * 1000) <= businessEnd.getTime()) {
     const slotEnd = new Date(currentTime.getTime() + (duration * 60 * 60 * 1000));
     
     slots.push({
@@ -2,98 +2,16 @@
 // Handles validation, rules, and notifications for job status changes
 
 import type { JobStatus, Job } from '@/types/database';
+import {
+  STATUS_TRANSITIONS,
+  checkStatusTransition,
+  findStatusTransition,
+  type StatusTransition,
+} from '@shared/job-status-transitions';
 
-// Status transition rules and validation
-export interface StatusTransition {
-  from: JobStatus;
-  to: JobStatus;
-  isValid: boolean;
-  requiresConfirmation?: boolean;
-  warningMessage?: string;
-  successMessage?: string;
-  prerequisites?: string[];
-  autoActions?: string[];
-}
-
-// Define all possible status transitions with their rules
-export const STATUS_TRANSITIONS: StatusTransition[] = [
-  // From Incoming Call
-  {
-    from: 'incoming-call',
-    to: 'scheduled',
-    isValid: true,
-    successMessage: 'Job scheduled successfully',
-    prerequisites: ['Customer information confirmed', 'Service details documented'],
-    autoActions: ['Create appointment slot', 'Send customer confirmation'],
-  },
-  
-  // From Scheduled
-  {
-    from: 'scheduled',
-    to: 'in-bay',
-    isValid: true,
-    successMessage: 'Job started in bay',
-    prerequisites: ['Bay available', 'Technician assigned'],
-    autoActions: ['Start time tracking', 'Update bay status'],
-  },
-  {
-    from: 'scheduled',
-    to: 'completed',
-    isValid: true,
-    requiresConfirmation: true,
-    warningMessage: 'Are you sure you want to mark this job as completed without starting work?',
-    successMessage: 'Job marked as completed',
-    autoActions: ['Free up scheduled slot', 'Generate completion report'],
-  },
-  
-  // From In Bay
-  {
-    from: 'in-bay',
-    to: 'waiting-parts',
-    isValid: true,
-    successMessage: 'Job moved to waiting for parts',
-    prerequisites: ['Parts order created'],
-    autoActions: ['Free up bay', 'Create parts order', 'Set follow-up reminder'],
-  },
-  {
-    from: 'in-bay',
-    to: 'completed',
-    isValid: true,
-    successMessage: 'Job completed successfully',
-    prerequisites: ['Work completed', 'Quality check passed'],
-    autoActions: ['Free up bay', 'Stop time tracking', 'Generate invoice'],
-  },
-  
-  // From Waiting Parts
-  {
-    from: 'waiting-parts',
-    to: 'in-bay',
-    isValid: true,
-    successMessage: 'Job resumed in bay',
-    prerequisites: ['Parts received', 'Bay available'],
-    autoActions: ['Resume time tracking', 'Update bay status'],
-  },
-  {
-    from: 'waiting-parts',
-    to: 'completed',
-    isValid: true,
-    requiresConfirmation: true,
-    warningMessage: 'Completing without returning to bay - is this correct?',
-    successMessage: 'Job completed',
-    autoActions: ['Generate completion report'],
-  },
-  
-  // From Completed (generally not allowed, but for special cases)
-  {
-    from: 'completed',
-    to: 'in-bay',
-    isValid: false, // Can be overridden with special permissions
-    requiresConfirmation: true,
-    warningMessage: 'Reopening a completed job requires supervisor approval',
-    successMessage: 'Job reopened for additional work',
-    autoActions: ['Create follow-up work order'],
-  },
-];
+// Transition rules live in the shared module so the API enforces the same workflow
+export { STATUS_TRANSITIONS, checkStatusTransition };
+export type { StatusOverride, StatusTransition, StatusTransitionCheck } from '@shared/job-status-transitions';
 
 // Status metadata for UI and business logic
 export const STATUS_METADATA = {
@@ -154,9 +72,7 @@ export class JobStatusTransitionService {
     targetStatus: JobStatus,
     job?: Job
   ): StatusTransition | null {
-    const transition = STATUS_TRANSITIONS.find(
-      t => t.from === currentStatus && t.to === targetStatus
-    );
+    const transition = findStatusTransition(currentStatus, targetStatus);
 
     if (!transition) {
       return null;
@@ -193,14 +109,17 @@ export class JobStatusTransitionService {
     
     // Return the most common next status
     const statusPriority: Record<JobStatus, number> = {
+      'intake': 0,
       'incoming-call': 1,
       'scheduled': 2,
+      'in-progress': 3,
       'in-bay': 3,
       'waiting-parts': 4,
       'completed': 5,
     };
 
     const nextTransition = validTransitions
+      .filter(t => statusPriority[t.to] > statusPriority[currentStatus])
       .sort((a, b) => statusPriority[a.to] - statusPriority[b.to])[0];
 
     return nextTransition?.to || null;
@@ -292,8 +211,10 @@ export class JobStatusTransitionService {
    */
   static getWorkflowProgress(status: JobStatus): number {
     const progressMap: Record<JobStatus, number> = {
+      'intake': 0,
       'incoming-call': 0,
       'scheduled': 25,
+      'in-progress': 50,
       'in-bay': 50,
       'waiting-parts': 75, // Considered progress even though waiting
       'completed': 100,
@@ -0,0 +1,8 @@
+import { buildJobDocument, renderJobDocumentHtml } from '@shared/job-documents';
+import type { JobDocumentKind, JobDocumentSource } from '@shared/job-documents';
+import { openPrintWindow } from '@/lib/print-window';
+
+// Prints the same work order / invoice layout the API renders to PDF
+export function openPrintableJobDocument(kind: JobDocumentKind, source: JobDocumentSource) {
+  openPrintWindow(renderJobDocumentHtml(buildJobDocument(kind, source)));
+}
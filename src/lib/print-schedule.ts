@@ -13,7 +13,10 @@ import {
   startOfMonth,
   startOfWeek,
 } from 'date-fns';
+import { getBayLabel } from '@shared/bays';
 import type { CalendarEventSnapshot } from '@/components/calendar/SchedulingCalendar';
+import { openPrintWindow } from '@/lib/print-window';
+import type { BayConfigurationItem } from '@/types/database';
 
 export type PrintScope = 'day' | 'week' | 'month';
 
@@ -21,6 +24,8 @@ interface PrintOptions {
   scope: PrintScope;
   anchorDate: Date;
   events: CalendarEventSnapshot[];
+  // Shop's configured bays, used to label each appointment's bay
+  bays: BayConfigurationItem[];
   title?: string;
 }
 
@@ -33,11 +38,6 @@ interface BaySummary {
 
 type TimeBucket = 'morning' | 'afternoon' | 'evening';
 
-const BAY_LABELS: Record<string, string> = {
-  'bay-1': 'Bay 1',
-  'bay-2': 'Bay 2',
-};
-
 const BUCKET_ORDER: TimeBucket[] = ['morning', 'afternoon', 'evening'];
 const BUCKET_LABELS: Record<TimeBucket, string> = {
   morning: 'Morning (7a–12p)',
@@ -45,13 +45,6 @@ const BUCKET_LABELS: Record<TimeBucket, string> = {
   evening: 'Evening (5p+)'
 };
 
-function formatBayLabel(id: string | null | undefined): string {
-  if (!id) {
-    return 'Unassigned';
-  }
-  return BAY_LABELS[id] ?? id;
-}
-
 function escapeHtml(value: string): string {
   return value
     .replace(/&/g, '&amp;')
@@ -131,7 +124,7 @@ function formatTimeRange(start: Date, end: Date): string {
   return `${format(start, 'p')} – ${format(end, 'p')}`;
 }
 
-function computeBaySummary(events: CalendarEventSnapshot[]): BaySummary[] {
+function computeBaySummary(events: CalendarEventSnapshot[], bays: BayConfigurationItem[]): BaySummary[] {
   const map = new Map<string, { appointments: number; hours: number }>();
 
   events.forEach((event) => {
@@ -146,7 +139,7 @@ function computeBaySummary(events: CalendarEventSnapshot[]): BaySummary[] {
   return Array.from(map.entries())
     .map(([bayId, record]) => ({
       bayId,
-      label: formatBayLabel(bayId),
+      label: getBayLabel(bays, bayId),
       appointments: record.appointments,
       hours: record.hours,
     }))
@@ -167,21 +160,21 @@ function renderPriorityBadge(priority: string): string {
   return `<span class="priority-badge priority-${escapeHtml(priority)}">${safe}</span>`;
 }
 
-function buildDayView(date: Date, events: CalendarEventSnapshot[]): string {
+function buildDayView(date: Date, events: CalendarEventSnapshot[], bays: BayConfigurationItem[]): string {
   const sorted = events
     .slice()
     .sort((a, b) => a.start.getTime() - b.start.getTime());
 
   const totalAppointments = sorted.length;
   const totalHours = sorted.reduce((hours, event) => hours + getDurationHours(event), 0);
-  const baySummary = computeBaySummary(sorted);
+  const baySummary = computeBaySummary(sorted, bays);
   const highPriorityEvents = sorted.filter((event) => getPriority(event) === 'high');
   const highPriorityCount = highPriorityEvents.length;
 
   const rows = sorted.length
     ? sorted
         .map((event) => {
-          const bay = formatBayLabel(event.resourceId ?? (event.extendedProps as { bay?: string }).bay);
+          const bay = getBayLabel(bays, event.resourceId ?? (event.extendedProps as { bay?: string }).bay);
           const vehicle = getVehicleModel(event) || '—';
           const customer = getCustomerName(event) || '—';
           const priority = getPriority(event);
@@ -218,7 +211,7 @@ function buildDayView(date: Date, events: CalendarEventSnapshot[]): string {
     ? `<ul class="notes-list">
         ${highPriorityEvents
           .map((event) => {
-            const bay = formatBayLabel(event.resourceId ?? (event.extendedProps as { bay?: string }).bay);
+            const bay = getBayLabel(bays, event.resourceId ?? (event.extendedProps as { bay?: string }).bay);
             const vehicle = getVehicleModel(event) || 'Vehicle TBD';
             return `<li><strong>${escapeHtml(format(event.start, 'p'))}</strong> — ${escapeHtml(event.title)} · ${escapeHtml(vehicle)} · ${escapeHtml(bay)}</li>`;
           })
@@ -269,7 +262,7 @@ function getTimeBucket(date: Date): TimeBucket {
   return 'evening';
 }
 
-function renderWeekCell(events: CalendarEventSnapshot[]): string {
+function renderWeekCell(events: CalendarEventSnapshot[], bays: BayConfigurationItem[]): string {
   if (events.length === 0) {
     return '<div class="cell-empty">—</div>';
   }
@@ -278,7 +271,7 @@ function renderWeekCell(events: CalendarEventSnapshot[]): string {
     <ul class="week-list">
       ${events
         .map((event) => {
-          const bay = formatBayLabel(event.resourceId ?? (event.extendedProps as { bay?: string }).bay);
+          const bay = getBayLabel(bays, event.resourceId ?? (event.extendedProps as { bay?: string }).bay);
           const vehicle = getVehicleModel(event) || 'Vehicle TBD';
           const priority = getPriority(event);
           const status = capitalize(getStatus(event));
@@ -296,7 +289,7 @@ function renderWeekCell(events: CalendarEventSnapshot[]): string {
     </ul>`;
 }
 
-function buildWeekView(weekStart: Date, events: CalendarEventSnapshot[]): string {
+function buildWeekView(weekStart: Date, events: CalendarEventSnapshot[], bays: BayConfigurationItem[]): string {
   const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
   const days = eachDayOfInterval({ start: weekStart, end: weekEnd });
   const buckets = days.map(() => ({ morning: [] as CalendarEventSnapshot[], afternoon: [] as CalendarEventSnapshot[], evening: [] as CalendarEventSnapshot[] }));
@@ -318,7 +311,7 @@ function buildWeekView(weekStart: Date, events: CalendarEventSnapshot[]): string
 
   const totalAppointments = events.length;
   const totalHours = events.reduce((hours, event) => hours + getDurationHours(event), 0);
-  const baySummary = computeBaySummary(events);
+  const baySummary = computeBaySummary(events, bays);
   const highPriority = events.filter((event) => getPriority(event) === 'high');
 
   const summaryCards = [
@@ -335,7 +328,7 @@ function buildWeekView(weekStart: Date, events: CalendarEventSnapshot[]): string
         ${highPriority
           .sort((a, b) => a.start.getTime() - b.start.getTime())
           .map((event) => {
-            const bay = formatBayLabel(event.resourceId ?? (event.extendedProps as { bay?: string }).bay);
+            const bay = getBayLabel(bays, event.resourceId ?? (event.extendedProps as { bay?: string }).bay);
             const dayLabel = format(event.start, 'EEE MMM d');
             return `<li><strong>${escapeHtml(dayLabel)}</strong> — ${escapeHtml(event.title)} · ${escapeHtml(bay)}</li>`;
           })
@@ -346,7 +339,7 @@ function buildWeekView(weekStart: Date, events: CalendarEventSnapshot[]): string
   const tableBody = BUCKET_ORDER
     .map((bucket) => {
       const cells = buckets
-        .map((dayBuckets) => `<td>${renderWeekCell(dayBuckets[bucket])}</td>`)
+        .map((dayBuckets) => `<td>${renderWeekCell(dayBuckets[bucket], bays)}</td>`)
         .join('\n');
       return `
         <tr>
@@ -420,7 +413,7 @@ function buildMonthCell(date: Date, currentMonth: Date, events: CalendarEventSna
     </div>`;
 }
 
-function buildMonthView(monthStart: Date, events: CalendarEventSnapshot[]): string {
+function buildMonthView(monthStart: Date, events: CalendarEventSnapshot[], bays: BayConfigurationItem[]): string {
   const monthEnd = endOfMonth(monthStart);
   const gridStart = startOfWeek(monthStart, { weekStartsOn: 0 });
   const gridEnd = endOfWeek(monthEnd, { weekStartsOn: 0 });
@@ -434,7 +427,7 @@ function buildMonthView(monthStart: Date, events: CalendarEventSnapshot[]): stri
   const monthEvents = events.filter((event) => isWithinInterval(event.start, { start: monthStart, end: monthEnd }));
   const totalAppointments = monthEvents.length;
   const highPriority = monthEvents.filter((event) => getPriority(event) === 'high');
-  const baySummary = computeBaySummary(monthEvents);
+  const baySummary = computeBaySummary(monthEvents, bays);
 
   const weekLoad = new Map<string, { start: Date; count: number }>();
   monthEvents.forEach((event) => {
@@ -830,19 +823,24 @@ function buildStyles(): string {
   `;
 }
 
-function renderContent(scope: PrintScope, rangeStart: Date, events: CalendarEventSnapshot[]): string {
+function renderContent(
+  scope: PrintScope,
+  rangeStart: Date,
+  events: CalendarEventSnapshot[],
+  bays: BayConfigurationItem[]
+): string {
   if (scope === 'day') {
-    return buildDayView(rangeStart, events.filter((event) => isSameDay(event.start, rangeStart)));
+    return buildDayView(rangeStart, events.filter((event) => isSameDay(event.start, rangeStart)), bays);
   }
 
   if (scope === 'week') {
-    return buildWeekView(rangeStart, events);
+    return buildWeekView(rangeStart, events, bays);
   }
 
-  return buildMonthView(rangeStart, events);
+  return buildMonthView(rangeStart, events, bays);
 }
 
-export function openPrintableSchedule({ scope, anchorDate, events, title = 'Mechanic Call App' }: PrintOptions) {
+export function openPrintableSchedule({ scope, anchorDate, events, bays, title = 'Mechanic Call App' }: PrintOptions) {
   if (typeof window === 'undefined') {
     return;
   }
@@ -866,7 +864,7 @@ export function openPrintableSchedule({ scope, anchorDate, events, title = 'Mech
   const generatedAt = format(new Date(), 'PPpp');
   const styles = buildStyles();
   const header = buildHeader(scope, rangeLabel, title, generatedAt);
-  const content = renderContent(scope, start, filtered);
+  const content = renderContent(scope, start, filtered, bays);
 
   const html = `<!DOCTYPE html>
   <html>
@@ -883,81 +881,6 @@ export function openPrintableSchedule({ scope, anchorDate, events, title = 'Mech
     </body>
   </html>`;
 
-  const canUseBlobUrl = typeof URL !== 'undefined' && typeof URL.createObjectURL === 'function';
-
-  if (canUseBlobUrl) {
-    const documentBlob = new Blob([html], { type: 'text/html' });
-    const blobUrl = URL.createObjectURL(documentBlob);
-    const popupWindow = window.open(blobUrl, '_blank', 'noopener');
-    if (!popupWindow) {
-      URL.revokeObjectURL(blobUrl);
-      console.error('Unable to open print window. Please allow pop-ups for this site.');
-      return;
-    }
-
-    let cleanedUp = false;
-    const cleanup = () => {
-      if (cleanedUp) {
-        return;
-      }
-      cleanedUp = true;
-      try {
-        URL.revokeObjectURL(blobUrl);
-      } catch {
-        // Best-effort revoke; ignore errors
-      }
-    };
-
-    const triggerPrint = () => {
-      if (cleanedUp || popupWindow.closed) {
-        cleanup();
-        return;
-      }
-
-      try {
-        popupWindow.focus();
-        popupWindow.print();
-      } catch (error) {
-        console.error('Print failed', error);
-      } finally {
-        cleanup();
-      }
-    };
-
-    const handleLoad = () => {
-      popupWindow.removeEventListener('load', handleLoad);
-      triggerPrint();
-    };
-
-    popupWindow.addEventListener('load', handleLoad);
-    popupWindow.addEventListener('beforeunload', cleanup);
-
-    setTimeout(() => {
-      if (!cleanedUp) {
-        triggerPrint();
-      }
-    }, 800);
-
-    return;
-  }
-
-  const fallbackWindow = window.open('', '_blank', 'noopener');
-  if (!fallbackWindow) {
-    console.error('Unable to open print window. Please allow pop-ups for this site.');
-    return;
-  }
-
-  fallbackWindow.document.open();
-  fallbackWindow.document.write(html);
-  fallbackWindow.document.close();
-  fallbackWindow.focus();
-
-  setTimeout(() => {
-    try {
-      fallbackWindow.print();
-    } catch (error) {
-      console.error('Print failed', error);
-    }
-  }, 250);
+  openPrintWindow(html);
 }
 
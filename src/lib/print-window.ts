@@ -0,0 +1,83 @@
+// Opens a standalone HTML document in a new window and triggers the browser print dialog
+export function openPrintWindow(html: string) {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  const canUseBlobUrl = typeof URL !== 'undefined' && typeof URL.createObjectURL === 'function';
+
+  if (canUseBlobUrl) {
+    const documentBlob = new Blob([html], { type: 'text/html' });
+    const blobUrl = URL.createObjectURL(documentBlob);
+    const popupWindow = window.open(blobUrl, '_blank', 'noopener');
+    if (!popupWindow) {
+      URL.revokeObjectURL(blobUrl);
+      console.error('Unable to open print window. Please allow pop-ups for this site.');
+      return;
+    }
+
+    let cleanedUp = false;
+    const cleanup = () => {
+      if (cleanedUp) {
+        return;
+      }
+      cleanedUp = true;
+      try {
+        URL.revokeObjectURL(blobUrl);
+      } catch {
+        // Best-effort revoke; ignore errors
+      }
+    };
+
+    const triggerPrint = () => {
+      if (cleanedUp || popupWindow.closed) {
+        cleanup();
+        return;
+      }
+
+      try {
+        popupWindow.focus();
+        popupWindow.print();
+      } catch (error) {
+        console.error('Print failed', error);
+      } finally {
+        cleanup();
+      }
+    };
+
+    const handleLoad = () => {
+      popupWindow.removeEventListener('load', handleLoad);
+      triggerPrint();
+    };
+
+    popupWindow.addEventListener('load', handleLoad);
+    popupWindow.addEventListener('beforeunload', cleanup);
+
+    setTimeout(() => {
+      if (!cleanedUp) {
+        triggerPrint();
+      }
+    }, 800);
+
+    return;
+  }
+
+  const fallbackWindow = window.open('', '_blank', 'noopener');
+  if (!fallbackWindow) {
+    console.error('Unable to open print window. Please allow pop-ups for this site.');
+    return;
+  }
+
+  fallbackWindow.document.open();
+  fallbackWindow.document.write(html);
+  fallbackWindow.document.close();
+  fallbackWindow.focus();
+
+  setTimeout(() => {
+    try {
+      fallbackWindow.print();
+    } catch (error) {
+      console.error('Print failed', error);
+    }
+  }, 250);
+}
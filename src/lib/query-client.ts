@@ -79,6 +79,9 @@ export const queryKeys = {
     search: (query: string) => [...queryKeys.vehicles.all, 'search', query] as const,
     stats: (customerId?: string) => [...queryKeys.vehicles.all, 'stats', customerId] as const,
     serviceHistory: (vehicleId: string) => [...queryKeys.vehicles.detail(vehicleId), 'service-history'] as const,
+    mileage: (vehicleId: string) => [...queryKeys.vehicles.detail(vehicleId), 'mileage'] as const,
+    attachmentLists: () => [...queryKeys.vehicles.all, 'attachments'] as const,
+    attachments: (vehicleId: string) => [...queryKeys.vehicles.attachmentLists(), vehicleId] as const,
     withAlerts: () => [...queryKeys.vehicles.all, 'with-alerts'] as const,
   },
   
@@ -92,6 +95,13 @@ export const queryKeys = {
     byStatus: (status: string) => [...queryKeys.jobs.all, 'status', status] as const,
     byCustomer: (customerId: string) => [...queryKeys.jobs.all, 'customer', customerId] as const,
     byVehicle: (vehicleId: string) => [...queryKeys.jobs.all, 'vehicle', vehicleId] as const,
+    history: (id: string) => [...queryKeys.jobs.all, 'history', id] as const,
+    parts: (id: string) => [...queryKeys.jobs.all, 'parts', id] as const,
+    milestones: (id: string) => [...queryKeys.jobs.all, 'milestones', id] as const,
+    attachments: (id: string) => [...queryKeys.jobs.all, 'attachments', id] as const,
+    billing: (id: string) => [...queryKeys.jobs.all, 'billing', id] as const,
+    statusEvents: (dateRange?: { start: string; end: string }) =>
+      [...queryKeys.jobs.all, 'status-events', dateRange] as const,
   },
   
   // Appointments
@@ -119,9 +129,47 @@ export const queryKeys = {
     details: () => [...queryKeys.calls.all, 'detail'] as const,
     detail: (id: string) => [...queryKeys.calls.details(), id] as const,
     byCustomer: (customerId: string) => [...queryKeys.calls.all, 'customer', customerId] as const,
+    byJob: (jobId: string) => [...queryKeys.calls.all, 'job', jobId] as const,
     byOutcome: (outcome: string) => [...queryKeys.calls.all, 'outcome', outcome] as const,
   },
-  
+
+  // Follow-up tasks
+  followUps: {
+    all: ['followUps'] as const,
+    lists: () => [...queryKeys.followUps.all, 'list'] as const,
+    list: (filters?: any) => [...queryKeys.followUps.lists(), filters] as const,
+    overdue: () => [...queryKeys.followUps.all, 'overdue'] as const,
+  },
+
+  // Communications
+  communications: {
+    all: ['communications'] as const,
+    lists: () => [...queryKeys.communications.all, 'list'] as const,
+    list: (filters?: any) => [...queryKeys.communications.lists(), filters] as const,
+    byCustomer: (customerId: string) => [...queryKeys.communications.all, 'customer', customerId] as const,
+  },
+
+  // Invoices
+  invoices: {
+    all: ['invoices'] as const,
+    lists: () => [...queryKeys.invoices.all, 'list'] as const,
+    list: (filters?: any) => [...queryKeys.invoices.lists(), filters] as const,
+  },
+
+  // Technicians
+  technicians: {
+    all: ['technicians'] as const,
+    lists: () => [...queryKeys.technicians.all, 'list'] as const,
+    list: (filters?: any) => [...queryKeys.technicians.lists(), filters] as const,
+    details: () => [...queryKeys.technicians.all, 'detail'] as const,
+    detail: (id: string) => [...queryKeys.technicians.details(), id] as const,
+  },
+
+  // Archived records across customers, vehicles, jobs, calls and appointments
+  archive: {
+    all: ['archive'] as const,
+  },
+
   // Settings
   settings: {
     all: ['settings'] as const,
@@ -152,6 +200,21 @@ export const invalidateQueries = {
   // Invalidate specific job
   job: (id: string) => queryClient.invalidateQueries({ queryKey: queryKeys.jobs.detail(id) }),
   
+  // Invalidate parts orders for a job
+  jobParts: (id: string) => queryClient.invalidateQueries({ queryKey: queryKeys.jobs.parts(id) }),
+
+  // Invalidate milestones for a job
+  jobMilestones: (id: string) => queryClient.invalidateQueries({ queryKey: queryKeys.jobs.milestones(id) }),
+
+  // Invalidate attachments for a job, and the vehicle galleries that include them
+  jobAttachments: (id: string) => Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.jobs.attachments(id) }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.vehicles.attachmentLists() }),
+  ]),
+
+  // Invalidate the estimate and invoices for a job
+  jobBilling: (id: string) => queryClient.invalidateQueries({ queryKey: queryKeys.jobs.billing(id) }),
+
   // Invalidate jobs by status
   jobsByStatus: (status: string) => queryClient.invalidateQueries({ queryKey: queryKeys.jobs.byStatus(status) }),
   
@@ -161,6 +224,12 @@ export const invalidateQueries = {
   // Invalidate specific call
   call: (id: string) => queryClient.invalidateQueries({ queryKey: queryKeys.calls.detail(id) }),
   
+  // Invalidate follow-up lists and the overdue count
+  followUps: () => queryClient.invalidateQueries({ queryKey: queryKeys.followUps.all }),
+
+  // Invalidate communication logs
+  communications: () => queryClient.invalidateQueries({ queryKey: queryKeys.communications.all }),
+
   // Invalidate all appointment-related queries
   appointments: () => queryClient.invalidateQueries({ queryKey: queryKeys.appointments.all }),
   
@@ -177,11 +246,27 @@ export const invalidateQueries = {
   // Invalidate specific vehicle
   vehicle: (id: string) => queryClient.invalidateQueries({ queryKey: queryKeys.vehicles.detail(id) }),
   
+  // Invalidate invoice lists (revenue reporting)
+  invoices: () => queryClient.invalidateQueries({ queryKey: queryKeys.invoices.all }),
+
+  // Invalidate all technician-related queries
+  technicians: () => queryClient.invalidateQueries({ queryKey: queryKeys.technicians.all }),
+
   // Invalidate dashboard data
   dashboard: () => queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all }),
   
   // Invalidate settings
   settings: () => queryClient.invalidateQueries({ queryKey: queryKeys.settings.all }),
+
+  // Invalidate the archive and every list that archiving or restoring cascades into
+  archive: () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.archive.all }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.customers.all }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.vehicles.all }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.jobs.all }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.calls.all }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.appointments.all }),
+  ]),
 };
 
 // Prefetch helpers for better UX
@@ -0,0 +1,111 @@
+// Shop Hours
+// Turns configured shop hours and closures into non-bookable calendar shading
+
+import type { EventInput } from '@fullcalendar/core';
+import type { ShopClosure, ShopHoursSettings, Weekday } from '@/types/database';
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const nonBookableColor = 'rgba(148, 163, 184, 0.25)';
+
+// Wall-clock date (YYYY-MM-DD) and time (HH:MM:SS) of an instant in the given timezone
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '00';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}:${part('second')}`,
+  };
+}
+
+function getTimezoneOffset(date: Date, timeZone: string): number {
+  const { date: day, time } = getZonedParts(date, timeZone);
+  return Date.parse(`${day}T${time}Z`) - date.getTime();
+}
+
+// Resolves a wall-clock time in the shop timezone to an absolute Date, accounting for DST shifts
+export function zonedTimeToDate(date: string, time: string, timeZone: string): Date {
+  const guess = Date.parse(`${date}T${time}:00Z`);
+  const offset = getTimezoneOffset(new Date(guess), timeZone);
+  const result = guess - offset;
+  const correctedOffset = getTimezoneOffset(new Date(result), timeZone);
+
+  return new Date(correctedOffset === offset ? result : guess - correctedOffset);
+}
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const weekdayOf = (date: string): Weekday => WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+
+const closureCovers = (closure: ShopClosure, date: string) =>
+  closure.startDate <= date && date <= (closure.endDate || closure.startDate);
+
+// Background events covering closed days, time outside open hours and closures within [start, end)
+export function createShopHoursBackgroundEvents(
+  hours: ShopHoursSettings,
+  range: { start: Date; end: Date }
+): EventInput[] {
+  const { timezone } = hours;
+  const events: EventInput[] = [];
+  const lastDate = getZonedParts(range.end, timezone).date;
+
+  const background = (id: string, title: string, start: Date, end: Date, resourceId?: string): EventInput => ({
+    id,
+    title,
+    start,
+    end,
+    ...(resourceId ? { resourceId } : {}),
+    display: 'background',
+    backgroundColor: nonBookableColor,
+    classNames: ['non-bookable'],
+    extendedProps: { nonBookable: true },
+  });
+
+  for (let date = getZonedParts(range.start, timezone).date; date <= lastDate; date = addDays(date, 1)) {
+    const dayStart = zonedTimeToDate(date, '00:00', timezone);
+    const dayEnd = zonedTimeToDate(addDays(date, 1), '00:00', timezone);
+    const closures = (hours.closures ?? []).filter((closure) => closureCovers(closure, date));
+    const shopClosure = closures.find((closure) => closure.appliesTo === 'shop');
+
+    if (shopClosure) {
+      events.push(background(`closure-${shopClosure.id}-${date}`, shopClosure.name, dayStart, dayEnd));
+      continue;
+    }
+
+    closures
+      .filter((closure) => closure.appliesTo === 'bay' && closure.bayId)
+      .forEach((closure) => {
+        events.push(background(`closure-${closure.id}-${date}`, closure.name, dayStart, dayEnd, closure.bayId));
+      });
+
+    const day = hours.days[weekdayOf(date)];
+    if (!day || day.closed) {
+      events.push(background(`closed-${date}`, 'Closed', dayStart, dayEnd));
+      continue;
+    }
+
+    const open = zonedTimeToDate(date, day.open, timezone);
+    const close = zonedTimeToDate(date, day.close, timezone);
+    if (open > dayStart) {
+      events.push(background(`before-open-${date}`, 'Closed', dayStart, open));
+    }
+    if (close < dayEnd) {
+      events.push(background(`after-close-${date}`, 'Closed', close, dayEnd));
+    }
+  }
+
+  return events;
+}
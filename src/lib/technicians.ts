@@ -0,0 +1,54 @@
+// Technicians
+// Assignment and working-hours helpers shared by the scheduler, kanban, and roster settings
+
+import type { Appointment, Job, Technician, Weekday } from '@/types/database';
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Filter value for jobs/appointments with nobody assigned
+export const UNASSIGNED_TECHNICIAN = 'unassigned';
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// An appointment's own technician wins over the one assigned to its job
+export function getAssignedTechnicianId(
+  appointment?: Pick<Appointment, 'technicianId'> | null,
+  job?: Pick<Job, 'technicianId'> | null
+): string | undefined {
+  return appointment?.technicianId || job?.technicianId || undefined;
+}
+
+// Matches a technician id against a filter value: 'all', UNASSIGNED_TECHNICIAN, or a technician id
+export function matchesTechnicianFilter(technicianId: string | undefined, filter: string): boolean {
+  if (filter === 'all') {
+    return true;
+  }
+  if (filter === UNASSIGNED_TECHNICIAN) {
+    return !technicianId;
+  }
+  return technicianId === filter;
+}
+
+// Scheduled working hours for the technician on the given date's weekday
+export function getShiftHours(technician: Pick<Technician, 'workingHours'>, date: Date): number {
+  const day = technician.workingHours?.[WEEKDAYS[date.getDay()]];
+  if (!day || day.closed) {
+    return 0;
+  }
+  return Math.max(minutesOf(day.close) - minutesOf(day.open), 0) / 60;
+}
+
+export function getWeeklyShiftHours(technician: Pick<Technician, 'workingHours'>): number {
+  return Object.values(technician.workingHours ?? {}).reduce((sum, day) => (
+    day.closed ? sum : sum + Math.max(minutesOf(day.close) - minutesOf(day.open), 0) / 60
+  ), 0);
+}
+
+// Comma-separated skills as typed into forms, normalized the same way the API stores them
+export function parseSkills(value: string): string[] {
+  const skills = value.split(',').map((skill) => skill.trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set(skills));
+}
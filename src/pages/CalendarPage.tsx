@@ -2,7 +2,10 @@ import React, { useRef, useState, useEffect } from 'react';
 import { SchedulingCalendar, CalendarLegend, type SchedulingCalendarHandle, type CalendarEventSnapshot } from '@/components/calendar/SchedulingCalendar';
 import { DraggableJobList } from '@/components/calendar/DraggableJobList';
 import { useCalendarAppointments, useCalendarView } from '@/hooks/use-calendar';
-import { jobApi, appointmentApi } from '@/lib/api-client';
+import { useCreateCall } from '@/hooks/use-calls';
+import { useShopSettings } from '@/hooks/use-settings';
+import { DEFAULT_BAYS, getBayLabel } from '@shared/bays';
+import { jobApi, appointmentApi, getEditingLockMinutes } from '@/lib/api-client';
 import { useUIStore } from '@/stores';
 import { format, endOfDay, endOfMonth, endOfWeek, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -14,6 +17,7 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Calendar, Clock, Users, Layers, Printer, ClipboardList, ChevronDown, Phone } from 'lucide-react';
 import type { EventDropArg, EventResizeArg, DateSelectArg, EventReceiveArg } from '@fullcalendar/core';
+import type { AppointmentBookingOptions, CallOutcome, CreateCallData, EditingLockOverride } from '@/types/database';
 import '@/components/calendar/calendar.css';
 
 type ReportScope = 'day' | 'week' | 'month';
@@ -41,6 +45,39 @@ const scopeLabels: Record<ReportScope, string> = {
   month: 'Month',
 };
 
+// The intake form times calls in seconds and says "quote sent"; stored calls use minutes and "quote requested"
+function toCreateCallData(data: CallIntakeData): CreateCallData {
+  const callOutcome: CallOutcome = data.callOutcome === 'quote-sent' ? 'quote-requested' : data.callOutcome;
+  const vehicleYear = Number.parseInt(data.vehicleYear, 10);
+
+  return {
+    callId: data.callId,
+    customerId: data.customerId,
+    customerName: data.customerName || undefined,
+    vehicleId: data.vehicleId,
+    vehicleYear: Number.isNaN(vehicleYear) ? undefined : vehicleYear,
+    vehicleMake: data.vehicleMake || undefined,
+    vehicleModel: data.vehicleModel || undefined,
+    phoneNumber: data.phoneNumber || data.customerPhone,
+    callStartTime: data.callStartTime.toISOString(),
+    callDuration: data.callDuration ? Math.ceil(data.callDuration / 60) : undefined,
+    callReason: data.callReason || undefined,
+    callNotes: data.callNotes || undefined,
+    customerConcerns: data.customerConcerns.length ? data.customerConcerns : undefined,
+    followUpRequired: data.followUpRequired,
+    followUpDate: data.followUpDate?.toISOString(),
+    appointmentRequested: data.appointmentRequested,
+    quoteRequested: data.quoteRequested,
+    callOutcome,
+    nextAction: data.nextAction,
+    callTakenBy: data.callTakenBy || undefined,
+    callSource: data.callSource,
+    serviceType: data.serviceType || undefined,
+    servicePriority: data.servicePriority,
+    estimatedCost: data.estimatedCost,
+  };
+}
+
 export function CalendarPage() {
   const calendarRef = useRef<SchedulingCalendarHandle>(null);
   const [isReportOpen, setIsReportOpen] = useState(false);
@@ -48,6 +85,7 @@ export function CalendarPage() {
   const [reportSummary, setReportSummary] = useState<ScheduleReportSummary | null>(null);
   const [selectedEvent, setSelectedEvent] = useState<any>(null);
   const [isCallIntakeOpen, setIsCallIntakeOpen] = useState(false);
+  const createCall = useCreateCall();
   
   // Calendar hooks
   const {
@@ -60,31 +98,35 @@ export function CalendarPage() {
 
   const { currentDate } = useCalendarView();
   const { addToast } = useUIStore();
+  const { data: shopSettings } = useShopSettings();
 
   // Event handlers
   const onEventClick = (event: any) => {
     setSelectedEvent(event);
   };
 
-  const onEventDrop = async (dropInfo: EventDropArg) => {
+  // Failures are rethrown so the calendar puts the event back where it was
+  const onEventDrop = async (dropInfo: EventDropArg, options?: AppointmentBookingOptions) => {
     try {
-      await handleEventDrop(dropInfo);
+      await handleEventDrop(dropInfo, options);
       // Trigger a re-render to update bay utilization cards
       setSelectedEvent(null);
       setSelectedEvent(dropInfo.event);
     } catch (error) {
       console.error('Failed to handle event drop:', error);
+      throw error;
     }
   };
 
-  const onEventResize = async (resizeInfo: EventResizeArg) => {
+  const onEventResize = async (resizeInfo: EventResizeArg, options?: AppointmentBookingOptions) => {
     try {
-      await handleEventResize(resizeInfo);
+      await handleEventResize(resizeInfo, options);
       // Trigger a re-render to update bay utilization cards
       setSelectedEvent(null);
       setSelectedEvent(resizeInfo.event);
     } catch (error) {
       console.error('Failed to handle event resize:', error);
+      throw error;
     }
   };
 
@@ -127,8 +169,21 @@ export function CalendarPage() {
   // Handle unscheduling jobs
   const handleUnscheduleJob = async (appointmentId: string, jobId: string) => {
     try {
-      // Delete the appointment
-      await appointmentApi.delete(appointmentId);
+      // Delete the appointment; inside the editing lock this needs an override reason
+      try {
+        await appointmentApi.delete(appointmentId);
+      } catch (error) {
+        if (getEditingLockMinutes(error) === null) {
+          throw error;
+        }
+        // The server's message already asks for the override reason
+        const reason = window.prompt(error instanceof Error ? error.message : 'Enter an override reason:');
+        if (!reason?.trim()) {
+          return;
+        }
+        const lockOverride: EditingLockOverride = { reason: reason.trim() };
+        await appointmentApi.delete(appointmentId, undefined, lockOverride);
+      }
       
       // Update job status back to 'incoming-call'
       await jobApi.updateStatus(jobId, 'incoming-call');
@@ -209,20 +264,7 @@ export function CalendarPage() {
     };
   }, [draggedEvent]);
 
-  const formatBayLabel = (bay: string | null | undefined) => {
-    if (!bay) {
-      return 'Unassigned';
-    }
-    if (bay === 'bay-1') {
-      return 'Bay 1';
-    }
-    if (bay === 'bay-2') {
-      return 'Bay 2';
-    }
-
-    const normalized = bay.replace(/[-_]/g, ' ');
-    return normalized.replace(/\w/g, (char) => char.toUpperCase());
-  };
+  const formatBayLabel = (bay: string | null | undefined) => getBayLabel(shopSettings?.bays ?? DEFAULT_BAYS, bay);
 
   const getRangeForScope = (scope: ReportScope, anchor: Date) => {
     const reference = new Date(anchor);
@@ -624,10 +666,9 @@ export function CalendarPage() {
           </DialogHeader>
           <CallIntakeForm
             onSubmit={(callData: CallIntakeData) => {
-              console.log('Call intake submitted:', callData);
-              setIsCallIntakeOpen(false);
-              // Here you would typically save the call data and potentially create a job
-              // For now, we'll just close the dialog
+              createCall.mutate(toCreateCallData(callData), {
+                onSuccess: () => setIsCallIntakeOpen(false),
+              });
             }}
             onCancel={() => setIsCallIntakeOpen(false)}
           />
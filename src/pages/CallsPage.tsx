@@ -17,6 +17,7 @@ import { CallOutcomeManagement } from '@/components/calls/CallOutcomeManagement'
 import { CallSchedulingIntegration } from '@/components/scheduling/CallSchedulingIntegration';
 import { SchedulingDashboard } from '@/components/scheduling/SchedulingDashboard';
 import { useUIStore } from '@/stores';
+import { useCalls } from '@/hooks';
 import {
   Phone,
   PhoneCall,
@@ -41,6 +42,7 @@ export function CallsPage() {
   
   // Mock call data - in real app, this would come from API
   const mockCalls: Call[] = [];
+  const { data: callsResponse } = useCalls();
 
   const { addToast } = useUIStore();
 
@@ -198,7 +200,7 @@ export function CallsPage() {
 
       {viewMode === 'followups' && (
         <CallFollowUpSystem
-          calls={mockCalls}
+          calls={callsResponse?.data ?? []}
           onFollowUpComplete={(taskId, outcome) => {
             console.log('Follow-up completed:', taskId, outcome);
           }}
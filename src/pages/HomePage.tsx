@@ -60,6 +60,7 @@ export function HomePage() {
   const hoursBooked = today?.hoursBooked ?? 0;
   const totalCapacity = today?.totalCapacity ?? 0;
   const waitingOnParts = today?.waitingOnParts ?? 0;
+  const overduePartsOrders = today?.overduePartsOrders ?? 0;
   const completedToday = today?.completed ?? 0;
   const capacityPercent = !isStatsLoading && totalCapacity > 0
     ? Math.round((hoursBooked / totalCapacity) * 100)
@@ -143,8 +144,12 @@ export function HomePage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{isStatsLoading ? placeholder : formatNumeric(waitingOnParts)}</div>
-            <p className="text-xs text-muted-foreground">
-              {statsError ? 'Parts status unavailable' : 'Jobs paused due to parts'}
+            <p className={overduePartsOrders > 0 ? 'text-xs font-medium text-destructive' : 'text-xs text-muted-foreground'}>
+              {statsError
+                ? 'Parts status unavailable'
+                : overduePartsOrders > 0
+                  ? `${overduePartsOrders} overdue deliver${overduePartsOrders === 1 ? 'y' : 'ies'}`
+                  : 'Jobs paused due to parts'}
             </p>
           </CardContent>
         </Card>
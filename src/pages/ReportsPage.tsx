@@ -23,14 +23,14 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Calendar } from '@/components/ui/calendar';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { cn } from '@/lib/utils';
-import { useAppointments, useCalls, useCustomers, useJobs } from '@/hooks';
+import { useAppointments, useCalls, useCustomers, useInvoices, useJobStatusEvents, useJobs } from '@/hooks';
 import type { Appointment, Call, Customer, Job } from '@/hooks';
+import { getAverageCycleTimeHours, getJobCompletions } from '@shared/job-status-history';
+import { getInvoicedRevenue } from '@shared/billing';
 
 type ReportJob = Job & {
   estimatedHours?: number;
   actualHours?: number;
-  estimatedCost?: number;
-  actualCost?: number;
   scheduledStart?: string;
   scheduledEnd?: string;
   laborRate?: number;
@@ -95,9 +95,6 @@ const appointmentStartKeys = ['startAt', 'startTime', 'start_time'];
 const appointmentEndKeys = ['endAt', 'endTime', 'end_time'];
 const jobPrimaryDateKeys = ['scheduledStart', 'createdAt', 'updatedAt'];
 const jobHoursKeys = ['estHours', 'estimatedHours', 'estimated_hours'];
-const jobRevenueKeys = ['actualCost', 'estimatedCost', 'totalCost', 'billingTotal'];
-const jobEstimatedCostKeys = ['estimatedCost', 'quoteTotal', 'quotedAmount'];
-const jobActualCostKeys = ['actualCost', 'finalTotal', 'billedAmount'];
 const callOutcomeKeys = ['outcome', 'callOutcome'];
 
 function getDateFromRecord(record: Record<string, unknown> | undefined, keys: string[]): Date | null {
@@ -174,11 +171,16 @@ export function ReportsPage() {
   const appointmentsQuery = useAppointments();
   const callsQuery = useCalls();
   const customersQuery = useCustomers();
+  // All events are needed so cycle times for jobs completed in range can see when work started
+  const statusEventsQuery = useJobStatusEvents();
+  const invoicesQuery = useInvoices();
 
   const jobs = (jobsQuery.data?.data ?? []) as ReportJob[];
   const appointments = (appointmentsQuery.data?.data ?? []) as ReportAppointment[];
   const calls = (callsQuery.data?.data ?? []) as ReportCall[];
   const customers = (customersQuery.data?.data ?? []) as ReportCustomer[];
+  const statusEvents = statusEventsQuery.data?.data ?? [];
+  const invoices = invoicesQuery.data?.data ?? [];
 
   const customerMap = useMemo(() => {
     const map = new Map<string, ReportCustomer>();
@@ -232,11 +234,27 @@ export function ReportsPage() {
   const daysInRange = rangeStart && rangeEnd ? differenceInCalendarDays(rangeEnd, rangeStart) + 1 : 1;
   const totalCapacityHours = Math.max(daysInRange, 1) * 2 * 8;
 
-  const jobsCompleted = filteredJobs.filter((job) => job.status === 'completed');
+  // Completions come from the status history so jobs count in the period they were actually finished
+  const jobsCompleted = useMemo(() => {
+    const range = rangeStart && rangeEnd ? { start: rangeStart, end: rangeEnd } : undefined;
+    return getJobCompletions(statusEvents, range).filter((completion) => {
+      const job = jobMap.get(completion.jobId);
+      return job && (statusFilter.length === 0 || statusFilter.includes(job.status));
+    });
+  }, [statusEvents, jobMap, statusFilter, rangeStart, rangeEnd]);
+  const averageCycleTime = getAverageCycleTimeHours(jobsCompleted);
   const waitingOnParts = filteredJobs.filter((job) => job.status === 'waiting-parts').length;
   const inProgressJobs = filteredJobs.filter((job) => job.status === 'in-progress').length;
 
-  const estimatedRevenue = filteredJobs.reduce((sum, job) => sum + getNumberFromRecord(job, jobRevenueKeys, 0), 0);
+  // Revenue is what was actually invoiced in the period, not what jobs were expected to bring in
+  const invoicesInRange = useMemo(() => {
+    return invoices.filter((invoice) => {
+      const job = jobMap.get(invoice.jobId);
+      const matchesStatus = statusFilter.length === 0 || (job ? statusFilter.includes(job.status) : false);
+      return matchesStatus && isWithinSelectedRange(new Date(invoice.issuedAt));
+    });
+  }, [invoices, jobMap, statusFilter, rangeStart, rangeEnd]);
+  const invoicedRevenue = getInvoicedRevenue(invoicesInRange);
   const totalEstimatedHours = filteredJobs.reduce((sum, job) => sum + getNumberFromRecord(job, jobHoursKeys, 0), 0);
 
   const hoursBooked = filteredAppointments.reduce((sum, appointment) => {
@@ -307,19 +325,14 @@ export function ReportsPage() {
   const weeklySummary = useMemo<WeeklySummaryRow[]>(() => {
     const summaryMap = new Map<string, WeeklySummaryRow>();
 
-    filteredJobs.forEach((job) => {
-      const jobDate = getDateFromRecord(job, jobPrimaryDateKeys);
-      if (!jobDate) {
-        return;
-      }
-      const weekStart = startOfWeek(jobDate, { weekStartsOn: 1 });
-      const weekEnd = endOfWeek(jobDate, { weekStartsOn: 1 });
+    const getWeekEntry = (date: Date) => {
+      const weekStart = startOfWeek(date, { weekStartsOn: 1 });
       const key = weekStart.toISOString();
 
       if (!summaryMap.has(key)) {
         summaryMap.set(key, {
           start: weekStart,
-          end: weekEnd,
+          end: endOfWeek(date, { weekStartsOn: 1 }),
           jobsScheduled: 0,
           jobsCompleted: 0,
           completionRate: 0,
@@ -328,24 +341,37 @@ export function ReportsPage() {
         });
       }
 
-      const entry = summaryMap.get(key)!;
+      return summaryMap.get(key)!;
+    };
+
+    filteredJobs.forEach((job) => {
+      const jobDate = getDateFromRecord(job, jobPrimaryDateKeys);
+      if (!jobDate) {
+        return;
+      }
+      const entry = getWeekEntry(jobDate);
       entry.jobsScheduled += 1;
       entry.averageHours += getNumberFromRecord(job, jobHoursKeys, 0);
+    });
 
-      if (job.status === 'completed') {
-        entry.jobsCompleted += 1;
-        entry.revenue += getNumberFromRecord(job, jobRevenueKeys, 0);
-      }
+    jobsCompleted.forEach((completion) => {
+      const entry = getWeekEntry(new Date(completion.completedAt));
+      entry.jobsCompleted += 1;
+    });
+
+    invoicesInRange.forEach((invoice) => {
+      const entry = getWeekEntry(new Date(invoice.issuedAt));
+      entry.revenue += getInvoicedRevenue([invoice]);
     });
 
     return Array.from(summaryMap.values())
       .map((entry) => ({
         ...entry,
-        completionRate: entry.jobsScheduled > 0 ? (entry.jobsCompleted / entry.jobsScheduled) * 100 : 0,
+        completionRate: entry.jobsScheduled > 0 ? Math.min((entry.jobsCompleted / entry.jobsScheduled) * 100, 100) : 0,
         averageHours: entry.jobsScheduled > 0 ? entry.averageHours / entry.jobsScheduled : 0,
       }))
       .sort((a, b) => b.start.getTime() - a.start.getTime());
-  }, [filteredJobs]);
+  }, [filteredJobs, jobsCompleted, invoicesInRange]);
 
   const buildCsvContent = () => {
     const rows: string[][] = [];
@@ -359,20 +385,19 @@ export function ReportsPage() {
     rows.push(['Metric', 'Value']);
     rows.push(['Jobs in Range', String(filteredJobs.length)]);
     rows.push(['Jobs Completed', String(jobsCompleted.length)]);
+    rows.push(['Avg. Cycle Time', `${averageCycleTime.toFixed(1)} h`]);
     rows.push(['Hours Booked', `${hoursBooked.toFixed(1)} h`]);
     rows.push(['Bay Utilization', `${bayUtilization.toFixed(1)} %`]);
-    rows.push(['Estimated Revenue', currencyFormatter.format(estimatedRevenue)]);
+    rows.push(['Invoiced Revenue', currencyFormatter.format(invoicedRevenue)]);
     rows.push(['Call Conversion', `${conversionRate.toFixed(1)} %`]);
     rows.push([]);
 
     rows.push(['Jobs Detail']);
-    rows.push(['Job ID', 'Title', 'Status', 'Customer', 'Scheduled Date', 'Estimated Hours', 'Estimated Cost', 'Actual Cost']);
+    rows.push(['Job ID', 'Title', 'Status', 'Customer', 'Scheduled Date', 'Estimated Hours', 'Estimate Total', 'Invoice Total']);
     filteredJobs.forEach((job) => {
       const scheduledDate = getDateFromRecord(job, jobPrimaryDateKeys);
       const customerName = job.customerId ? customerMap.get(job.customerId)?.name ?? '' : '';
       const estimatedHoursValue = getNumberFromRecord(job, jobHoursKeys, 0);
-      const estimatedCostValue = getNumberFromRecord(job, jobEstimatedCostKeys, 0);
-      const actualCostValue = getNumberFromRecord(job, jobActualCostKeys, 0);
 
       rows.push([
         job.id,
@@ -381,8 +406,8 @@ export function ReportsPage() {
         customerName,
         scheduledDate ? format(scheduledDate, 'yyyy-MM-dd HH:mm') : '',
         estimatedHoursValue ? estimatedHoursValue.toFixed(2) : '',
-        estimatedCostValue ? estimatedCostValue.toFixed(2) : '',
-        actualCostValue ? actualCostValue.toFixed(2) : '',
+        job.estimateTotal != null ? job.estimateTotal.toFixed(2) : '',
+        job.invoiceTotal != null ? job.invoiceTotal.toFixed(2) : '',
       ]);
     });
     rows.push([]);
@@ -461,8 +486,19 @@ export function ReportsPage() {
     }
   };
 
-  const isLoading = jobsQuery.isLoading || appointmentsQuery.isLoading || callsQuery.isLoading || customersQuery.isLoading;
-  const hasError = jobsQuery.isError || appointmentsQuery.isError || callsQuery.isError || customersQuery.isError;
+  const isLoading =
+    jobsQuery.isLoading ||
+    appointmentsQuery.isLoading ||
+    callsQuery.isLoading ||
+    customersQuery.isLoading ||
+    statusEventsQuery.isLoading ||
+    invoicesQuery.isLoading;
+  const hasError =
+    jobsQuery.isError ||
+    appointmentsQuery.isError ||
+    callsQuery.isError ||
+    customersQuery.isError ||
+    statusEventsQuery.isError;
 
   return (
     <div className="space-y-6">
@@ -580,6 +616,7 @@ export function ReportsPage() {
           <CardContent>
             <div className="text-3xl font-bold">{jobsCompleted.length}</div>
             <p className="text-xs text-muted-foreground">{waitingOnParts} waiting on parts  |  {inProgressJobs} in progress</p>
+            <p className="text-xs text-muted-foreground">{averageCycleTime.toFixed(1)}h avg. cycle time</p>
           </CardContent>
         </Card>
 
@@ -600,12 +637,14 @@ export function ReportsPage() {
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium flex items-center gap-2">
               <DollarSign className="h-4 w-4 text-muted-foreground" />
-              Est. revenue
+              Revenue
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold">{currencyFormatter.format(estimatedRevenue)}</div>
-            <p className="text-xs text-muted-foreground">Based on completed and scheduled work</p>
+            <div className="text-3xl font-bold">{currencyFormatter.format(invoicedRevenue)}</div>
+            <p className="text-xs text-muted-foreground">
+              {invoicesInRange.length} invoice{invoicesInRange.length === 1 ? '' : 's'} issued, excluding voids
+            </p>
           </CardContent>
         </Card>
 
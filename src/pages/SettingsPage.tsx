@@ -8,8 +8,11 @@ import { ShopHoursSection } from '@/components/settings/ShopHoursSection';
 import { BayConfigurationSection } from '@/components/settings/BayConfigurationSection';
 import { StatusColorSection } from '@/components/settings/StatusColorSection';
 import { SchedulingDefaultsSection } from '@/components/settings/SchedulingDefaultsSection';
+import { TechniciansSection } from '@/components/settings/TechniciansSection';
+import { ArchivedRecordsSection } from '@/components/settings/ArchivedRecordsSection';
 import { SettingsFormProvider, useSettingsForm } from '@/hooks/useSettingsForm';
 import {
+  Archive,
   Building,
   Clock,
   Palette,
@@ -17,6 +20,7 @@ import {
   Settings,
   SlidersHorizontal,
   Timer,
+  Users,
   Wrench
 } from 'lucide-react';
 
@@ -53,6 +57,14 @@ const settingsSections: SettingsSection[] = [
     placeholder: 'Service bay editor added in Task 10.3 for renaming and managing bay availability.',
     renderContent: () => <BayConfigurationSection />
   },
+  {
+    id: 'technicians',
+    label: 'Technicians',
+    description: 'Roster, skills, and working hours',
+    icon: Users,
+    placeholder: 'Technician roster management.',
+    renderContent: () => <TechniciansSection />
+  },
   {
     id: 'status-appearance',
     label: 'Status Appearance',
@@ -75,6 +87,14 @@ const settingsSections: SettingsSection[] = [
     description: 'Persistence, validation, and backups',
     icon: SlidersHorizontal,
     placeholder: 'Task 10.6 covers saving, validation, and sync with the InstantDB backend.'
+  },
+  {
+    id: 'archived-records',
+    label: 'Archived',
+    description: 'Restore or purge deleted records',
+    icon: Archive,
+    placeholder: 'Archived customers, vehicles, jobs, calls and appointments.',
+    renderContent: () => <ArchivedRecordsSection />
   }
 ];
 
@@ -1,159 +1,178 @@
 // Frontend TypeScript types for Mechanic Shop OS
-// Based on PRD requirements and InstantDB schema
+// Records and enums come from shared/domain.ts; this file adds the UI's view and filter types
+
+import type {
+  Appointment,
+  Bay,
+  Call,
+  CallOutcome,
+  Customer,
+  Job,
+  JobPriority,
+  JobStatus,
+  PreferredContact,
+  Technician,
+  Vehicle,
+} from '@shared/domain';
+import type { PartsOrder } from '@shared/parts-orders';
+import type { BillingLineItem, InvoiceStatus } from '@shared/billing';
+import type { FollowUpStatus, FollowUpTask } from '@shared/follow-ups';
+import type { Communication, CommunicationType } from '@shared/communications';
+import type { BayCapability } from '@shared/bays';
+import type { EditingLockOverride } from '@shared/editing-lock';
+import type { SegmentPosition } from '@shared/appointment-segments';
+import type {
+  AppointmentInput,
+  CallInput,
+  CustomerInput,
+  JobAttachmentInput,
+  JobAttachmentUploadInput,
+  JobInput,
+  JobMilestoneInput,
+  OdometerReadingInput,
+  VehicleInput,
+} from '@shared/schemas';
+
+export type {
+  Appointment,
+  AppointmentBookingOptions,
+  AppointmentConflict,
+  Bay,
+  BayConfigurationItem,
+  BusinessDay,
+  Call,
+  CallOutcome,
+  CallServicePriority,
+  CallSource,
+  CallStatus,
+  Customer,
+  DashboardScheduleEntry,
+  DashboardStats,
+  Job,
+  JobBilling,
+  JobNote,
+  JobPriority,
+  OverbookingPolicy,
+  PreferredContact,
+  SchedulingDefaultsConfig,
+  ShopClosure,
+  ShopHoursSettings,
+  ShopHoursViolation,
+  ShopHoursViolationType,
+  ShopSettings,
+  StatusPalette,
+  Technician,
+  Vehicle,
+  Weekday,
+} from '@shared/domain';
+export type {
+  ApiResponse,
+  AppointmentBookingResponse,
+  AppointmentLockedResponse,
+  ListResponse,
+  OdometerReadingResponse,
+  VehicleSaveResponse,
+} from '@shared/api';
+
+export type { JobStatus, StatusOverride, StatusTransitionRule } from '@shared/job-status-transitions';
+export type { JobCompletion, JobStatusEvent } from '@shared/job-status-history';
+export type { PartsOrder, PartsOrderStatus } from '@shared/parts-orders';
+export type { JobMilestone, JobMilestoneStatus, MilestoneProgress } from '@shared/job-milestones';
+export type {
+  AttachmentUploadMimeType,
+  JobAttachment,
+  JobAttachmentFile,
+  JobAttachmentType,
+  JobPhotoStage,
+} from '@shared/job-attachments';
+export type {
+  BillingLineItem,
+  BillingLineItemType,
+  BillingTotals,
+  Estimate,
+  EstimateStatus,
+  Invoice,
+  InvoiceStatus,
+} from '@shared/billing';
+export type { JobDocumentKind, JobDocumentSource } from '@shared/job-documents';
+export type { FollowUpPriority, FollowUpStatus, FollowUpTask, FollowUpTaskType } from '@shared/follow-ups';
+export type { Communication, CommunicationDirection, CommunicationType } from '@shared/communications';
+export type {
+  MileageHistoryEntry,
+  OdometerReading,
+  OdometerReadingKind,
+  VehicleMileageHistory,
+} from '@shared/mileage';
+export type { AppointmentLockOverride, EditingLockOverride, LockOverrideAction } from '@shared/editing-lock';
+export type { BayCapability } from '@shared/bays';
+export type { SegmentPosition } from '@shared/appointment-segments';
+export type { DependencySummary, DependentRecordType } from '@shared/record-dependencies';
+export type { ArchivableEntity, ArchiveField, ArchiveMetadata } from '@shared/archive';
+export type { CallSortField, CustomerSortField, JobSortField, ListQuery, SortOrder } from '@shared/pagination';
+export type { FieldErrors } from '@shared/schemas';
 
-export interface Customer {
-  id: string;
-  name: string;
-  phone: string;
-  email?: string;
-  address?: string;
-  preferredContact: 'phone' | 'email';
-  createdAt: string;
-  updatedAt: string;
-}
+// Utility types for forms and API responses
+// Request payloads are whatever the shared schemas in shared/schemas.ts accept
+export type CreateCustomerData = CustomerInput;
+export type UpdateCustomerData = Partial<CreateCustomerData>;
 
-export interface Vehicle {
-  id: string;
-  customerId: string;
-  year: number;
-  make: string;
-  model: string;
-  licensePlate?: string;
-  mileage?: number;
-  color?: string;
-  vin?: string;
-  createdAt: string;
-  updatedAt: string;
-}
+export type CreateVehicleData = VehicleInput;
+export type UpdateVehicleData = Partial<CreateVehicleData>;
 
-export interface Job {
-  id: string;
-  title: string;
-  customerId: string;
-  vehicleId: string;
-  estHours: number;
-  status: JobStatus;
-  priority: JobPriority;
-  notes?: string;
-  invoiceNumber?: string;
-  createdAt: string;
-  updatedAt: string;
-}
+export type CreateJobData = JobInput;
+export type UpdateJobData = Partial<CreateJobData>;
 
-export interface JobMilestone {
-  id: string;
-  title: string;
-  status: 'pending' | 'in-progress' | 'completed';
-  description?: string;
-  completedAt?: string;
-  dueAt?: string;
-  assignedTo?: string;
-}
+export type CreateAppointmentData = AppointmentInput;
+export type UpdateAppointmentData = Partial<CreateAppointmentData>;
 
-export interface JobNote {
-  id: string;
-  author: string;
-  content: string;
-  createdAt: string;
-  type?: 'general' | 'technical' | 'customer' | 'internal';
-  isImportant?: boolean;
+// Purges are refused while other records still point at the target unless cascade is set, and
+// appointments inside the editing lock also need an override reason
+export interface DeleteRecordOptions {
+  cascade?: boolean;
+  lockOverride?: EditingLockOverride;
 }
 
-export interface JobAttachment {
-  id: string;
-  label: string;
-  type: 'document' | 'link';
-  url: string;
-  uploadedAt: string;
-  uploadedBy?: string;
-}
+// One entry in the Settings archive, tagged with the entity it came from
+export type ArchivedRecord =
+  | { entity: 'customers'; record: Customer }
+  | { entity: 'vehicles'; record: Vehicle }
+  | { entity: 'jobs'; record: Job }
+  | { entity: 'calls'; record: Call }
+  | { entity: 'appointments'; record: Appointment };
 
-export interface Appointment {
-  id: string;
-  jobId: string;
-  bay: Bay;
-  startAt: string; // ISO date string
-  endAt: string;   // ISO date string
-  createdAt: string;
-  updatedAt: string;
-}
+export type CreateCallData = CallInput;
+export type UpdateCallData = Partial<CreateCallData>;
 
-export interface Call {
-  id: string;
-  callId?: string;
-  customerId?: string;
-  customerName?: string;
-  jobId?: string;
-  vehicleId?: string;
-  vehicleYear?: number;
-  vehicleMake?: string;
-  vehicleModel?: string;
-  phoneNumber: string;
-  callStartTime: string;
-  callDuration?: number;
-  callReason?: string;
-  callNotes?: string;
-  customerConcerns?: string[];
-  followUpRequired?: boolean;
-  followUpDate?: string;
-  appointmentRequested?: boolean;
-  quoteRequested?: boolean;
-  callOutcome: CallOutcome;
-  nextAction?: string;
-  callTakenBy?: string;
-  callSource?: CallSource;
-  serviceType?: string;
-  servicePriority?: CallServicePriority;
-  estimatedCost?: number;
-  status?: CallStatus;
-  createdAt: string;
-  updatedAt: string;
-}
+export type CreateTechnicianData = Omit<Technician, 'id' | 'createdAt' | 'updatedAt' | 'isActive' | 'workingHours'>
+  & Partial<Pick<Technician, 'isActive' | 'workingHours'>>;
+export type UpdateTechnicianData = Partial<CreateTechnicianData>;
 
-// Enum-like types for better type safety
-export type JobStatus = 
-  | 'intake'
-  | 'incoming-call' 
-  | 'scheduled' 
-  | 'in-progress'
-  | 'in-bay'
-  | 'waiting-parts' 
-  | 'completed';
-
-export type JobPriority = 'low' | 'medium' | 'high';
-
-export type Bay = string;
-
-export type CallOutcome = 
-  | 'scheduled' 
-  | 'quote-requested' 
-  | 'follow-up' 
-  | 'no-action'
-  | 'transferred'
-  | 'incomplete';
-export type CallSource = 'phone' | 'walk-in' | 'referral' | 'online' | 'repeat';
-export type CallServicePriority = 'low' | 'normal' | 'high' | 'urgent';
-export type CallStatus = 'open' | 'in-progress' | 'completed';
-
-export type PreferredContact = 'phone' | 'email';
+export type CreatePartsOrderData = Omit<PartsOrder, 'id' | 'jobId' | 'status' | 'createdAt' | 'updatedAt'>
+  & Partial<Pick<PartsOrder, 'status'>>;
+export type UpdatePartsOrderData = Partial<CreatePartsOrderData>;
 
-// Utility types for forms and API responses
-export type CreateCustomerData = Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>;
-export type UpdateCustomerData = Partial<CreateCustomerData>;
+export type CreateJobMilestoneData = JobMilestoneInput;
+export type UpdateJobMilestoneData = Partial<CreateJobMilestoneData>;
 
-export type CreateVehicleData = Omit<Vehicle, 'id' | 'createdAt' | 'updatedAt'>;
-export type UpdateVehicleData = Partial<CreateVehicleData>;
+export type CreateJobAttachmentData = JobAttachmentInput;
+export type UpdateJobAttachmentData = Partial<CreateJobAttachmentData>;
+export type UploadJobAttachmentData = JobAttachmentUploadInput & { file: File };
 
-export type CreateJobData = Omit<Job, 'id' | 'createdAt' | 'updatedAt'>;
-export type UpdateJobData = Partial<CreateJobData> & {
-  noteEntries?: JobNote[];
-};
+export type RecordOdometerData = OdometerReadingInput;
 
-export type CreateAppointmentData = Omit<Appointment, 'id' | 'createdAt' | 'updatedAt'>;
-export type UpdateAppointmentData = Partial<CreateAppointmentData>;
+export type CreateFollowUpTaskData = Omit<FollowUpTask, 'id' | 'status' | 'snoozeCount' | 'completedAt' | 'completedBy' | 'outcome' | 'createdAt' | 'updatedAt'>
+  & Partial<Pick<FollowUpTask, 'status'>>;
+export type UpdateFollowUpTaskData = Partial<Omit<CreateFollowUpTaskData, 'callId'>>;
 
-export type CreateCallData = Omit<Call, 'id' | 'createdAt' | 'updatedAt'>;
-export type UpdateCallData = Partial<CreateCallData>;
+export type CreateCommunicationData = Omit<Communication, 'id' | 'occurredAt' | 'createdAt' | 'updatedAt'>
+  & Partial<Pick<Communication, 'occurredAt'>>;
+export type UpdateCommunicationData = Partial<Omit<CreateCommunicationData, 'customerId' | 'callId'>>;
+
+export interface SaveEstimateData {
+  lineItems: Array<Omit<BillingLineItem, 'id'> & Partial<Pick<BillingLineItem, 'id'>>>;
+  taxRate?: number;
+  notes?: string;
+}
 
 // Extended types with relationships for UI components
 export interface JobWithRelations extends Job {
@@ -163,9 +182,6 @@ export interface JobWithRelations extends Job {
   jobNumber?: string;
   description?: string;
   estimatedDurationMinutes?: number;
-  milestones?: JobMilestone[];
-  noteEntries?: JobNote[];
-  attachments?: JobAttachment[];
 }
 
 export interface CustomerWithVehicles extends Customer {
@@ -215,20 +231,12 @@ export interface AppointmentWithJob extends Appointment {
   customer?: Customer;
 }
 
-// API Response types
-export interface ApiResponse<T> {
-  success: boolean;
-  data?: T;
-  error?: string;
-  message?: string;
-}
-
 export interface PaginatedResponse<T> {
   items: T[];
   total: number;
-  page: number;
   pageSize: number;
   hasMore: boolean;
+  nextCursor: string | null;
 }
 
 // Filter and search types
@@ -238,16 +246,51 @@ export interface JobFilters {
   bay?: Bay[];
   customerId?: string;
   vehicleId?: string;
+  technicianId?: string;
+  dateRange?: {
+    start: string;
+    end: string;
+  };
+  includeArchived?: boolean;
+}
+
+export interface InvoiceFilters {
+  status?: InvoiceStatus[];
   dateRange?: {
     start: string;
     end: string;
   };
 }
 
+export interface FollowUpFilters {
+  status?: FollowUpStatus[];
+  callId?: string;
+  customerId?: string;
+  assignedTo?: string;
+  overdue?: boolean;
+}
+
+export interface CommunicationFilters {
+  customerId?: string;
+  jobId?: string;
+  callId?: string;
+  type?: CommunicationType[];
+  dateRange?: {
+    start: string;
+    end: string;
+  };
+}
+
+export interface TechnicianFilters {
+  active?: boolean;
+  skill?: string;
+}
+
 export interface CustomerFilters {
   search?: string;
   preferredContact?: PreferredContact[];
   hasActiveJobs?: boolean;
+  includeArchived?: boolean;
 }
 
 export interface CallFilters {
@@ -257,6 +300,8 @@ export interface CallFilters {
     end: string;
   };
   customerId?: string;
+  jobId?: string;
+  includeArchived?: boolean;
 }
 
 // Calendar/scheduling types
@@ -279,121 +324,30 @@ export interface CalendarEvent {
     vehicleInfo?: string;
     appointmentId?: string;
     invoiceNumber?: string;
+    technicianId?: string;
+    requiredCapabilities?: BayCapability[];
+    // Set when the job is booked in more than one segment
+    segment?: SegmentPosition;
+    segmentColor?: string;
   };
 }
 
+export interface BayBusinessHours {
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+}
+
 export interface BayResource {
   id: Bay;
   title: string;
-  businessHours?: {
-    daysOfWeek: number[];
-    startTime: string;
-    endTime: string;
-  };
-}
-
-// Shop configuration types
-export type Weekday =
-  | 'monday'
-  | 'tuesday'
-  | 'wednesday'
-  | 'thursday'
-  | 'friday'
-  | 'saturday'
-  | 'sunday';
-
-export interface BusinessDay {
-  open: string;
-  close: string;
-  closed: boolean;
-}
-
-export interface ShopClosure {
-  id: string;
-  name: string;
-  startDate: string;
-  endDate: string;
-  appliesTo: 'shop' | 'bay';
-}
-
-export interface ShopHoursSettings {
-  timezone: string;
-  days: Record<Weekday, BusinessDay>;
-  closures: ShopClosure[];
-}
-
-export interface BayConfigurationItem {
-  id: string;
-  name: string;
-  shortCode: string;
-  isActive: boolean;
-  supportsHeavyDuty: boolean;
-  notes: string;
-}
-
-export interface StatusPalette {
-  primary: string;
-  accent: string;
-}
-
-export interface SchedulingDefaultsConfig {
-  defaultJobDuration: number;
-  minimumSlotIncrement: number;
-  bufferMinutes: number;
-  enableAutoBuffers: boolean;
-  lockEditingWithinMinutes: number;
-  allowSameDayScheduling: boolean;
-  overbookingPolicy: 'strict' | 'soft' | 'manual';
-}
-
-export interface ShopSettings {
-  id: string;
-  shopName: string;
-  address?: string;
-  phone?: string;
-  email?: string;
-  hours: ShopHoursSettings;
-  bays: BayConfigurationItem[];
-  statusPalettes: Record<JobStatus, StatusPalette>;
-  schedulingDefaults: SchedulingDefaultsConfig;
-  createdAt: string;
-  updatedAt: string;
-}
-
-// Dashboard/KPI types
-export interface DashboardScheduleEntry {
-  appointmentId: string;
-  jobId: string;
-  jobTitle?: string;
-  status?: JobStatus;
-  bay: Bay;
-  startAt: string;
-  endAt: string;
-  customerName?: string;
-  vehicle?: {
-    year?: number;
-    make?: string;
-    model?: string;
-    licensePlate?: string;
+  businessHours?: BayBusinessHours[];
+  extendedProps: {
+    isActive: boolean;
+    shortCode: string;
   };
 }
 
-export interface DashboardStats {
-  today: {
-    carsScheduled: number;
-    hoursBooked: number;
-    totalCapacity: number;
-    waitingOnParts: number;
-    completed: number;
-  };
-  thisWeek: {
-    jobsCompleted: number;
-    totalRevenue?: number;
-    averageJobTime: number;
-    customerSatisfaction?: number;
-  };
-  todaySchedule: DashboardScheduleEntry[];
-}
 // Export utilities
 export interface ExportOptions {
   format: 'csv' | 'pdf';